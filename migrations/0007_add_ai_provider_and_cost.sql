@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "AuditLog" ADD COLUMN "aiProvider" TEXT;
+ALTER TABLE "AuditLog" ADD COLUMN "aiCost" REAL;
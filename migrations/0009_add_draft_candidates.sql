@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "AuditLog" ADD COLUMN "draftCandidates" TEXT;
+ALTER TABLE "AuditLog" ADD COLUMN "candidateSelection" TEXT;
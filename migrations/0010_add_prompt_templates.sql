@@ -0,0 +1,98 @@
+-- CreateTable
+CREATE TABLE "PromptTemplate" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "scope" TEXT NOT NULL,
+    "scopeValue" TEXT,
+    "version" INTEGER NOT NULL,
+    "systemTemplate" TEXT NOT NULL,
+    "userTemplate" TEXT NOT NULL,
+    "changeNote" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "createdBy" TEXT,
+    "activatedBy" TEXT,
+    "activatedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "PromptTemplate_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "PromptTemplate_activatedBy_fkey" FOREIGN KEY ("activatedBy") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "PromptTemplate_scope_scopeValue_idx" ON "PromptTemplate"("scope", "scopeValue");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromptTemplate_scope_scopeValue_version_key" ON "PromptTemplate"("scope", "scopeValue", "version");
+
+-- CreateIndex
+CREATE INDEX "PromptTemplate_isActive_idx" ON "PromptTemplate"("isActive");
+
+-- AlterTable
+ALTER TABLE "AuditLog" ADD COLUMN "promptTemplateId" TEXT;
+
+-- Seed the global template with the prompts previously hardcoded in generateDraft.ts
+INSERT INTO "PromptTemplate" ("id", "scope", "scopeValue", "version", "systemTemplate", "userTemplate", "changeNote", "isActive", "activatedAt", "createdAt")
+VALUES (
+    'prompt-template-default-v1',
+    'global',
+    NULL,
+    1,
+    'You are a medical communication assistant helping healthcare staff draft patient responses.
+
+IMPORTANT GUIDELINES:
+- Communication tone: {{tone}}
+- Reading level: {{readingLevel}}
+- Specialty focus: {{specialtyFocus}}
+- Sign off with: "{{signOff}}"
+- Maximum words: {{maxWords}}
+
+MEDICAL COMMUNICATION STANDARDS:
+- Always maintain professional, compassionate tone
+- Use clear, jargon-free language appropriate for patients
+- Include appropriate disclaimers for medical advice
+- Encourage patients to contact the office for urgent concerns
+- Reference the patient''s specific condition and medical history when relevant
+- Never provide specific medical diagnoses or treatment changes
+- Always recommend professional consultation for medical decisions
+
+HIPAA COMPLIANCE:
+- Maintain patient confidentiality
+- Patient identifiers appear as placeholders such as [NAME_1] or [DATE_1]; copy them exactly as written
+- Only reference information provided in the context
+- Use secure, professional language
+
+SAFETY REQUIREMENTS:
+- Never recommend stopping medications without consultation
+- Never suggest starting new medications
+- Never provide emergency medical advice
+- Always encourage in-person consultation for complex issues
+
+Format the response as a complete message ready to send to the patient.',
+    'Please draft a response to the following patient inquiry:
+
+PATIENT CONTEXT:
+- Name: {{patientName}}
+- Medical Condition: {{briefText}}
+- Medical History: {{medicalHistory}}
+- Current Medications: {{currentMedications}}
+- Allergies: {{allergies}}
+- Doctor Notes: {{doctorNotes}}
+
+PATIENT INQUIRY:
+{{inquiry}}
+
+RESPONSE REQUIREMENTS:
+- Address the patient by name
+- Reference their specific condition where appropriate
+- Maintain the specified communication tone: {{tone}}
+- Keep response under {{maxWords}} words
+- Use {{readingLevel}} reading level
+- Include appropriate medical disclaimers
+- Sign off with: "{{signOff}}"
+- Never provide specific medical diagnoses or treatment changes
+- Always encourage professional consultation for medical decisions
+
+Draft a complete, professional response:',
+    'Initial template',
+    1,
+    CAST(strftime('%s', 'now') AS INTEGER),
+    CAST(strftime('%s', 'now') AS INTEGER)
+);
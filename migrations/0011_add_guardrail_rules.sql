@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "GuardrailRule" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "severity" TEXT NOT NULL,
+    "pattern" TEXT NOT NULL,
+    "flags" TEXT DEFAULT 'i',
+    "appliesTo" TEXT NOT NULL DEFAULT 'draft',
+    "explanation" TEXT NOT NULL,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT,
+    "updatedBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "GuardrailRule_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "GuardrailRule_updatedBy_fkey" FOREIGN KEY ("updatedBy") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "GuardrailRule_isEnabled_idx" ON "GuardrailRule"("isEnabled");
+
+-- AlterTable
+ALTER TABLE "AuditLog" ADD COLUMN "guardrailFindings" TEXT;
+
+-- Seed the bundled rules (src/lib/guardrails.ts), replacing the regexes previously hardcoded in generateDraft.ts
+INSERT INTO "GuardrailRule" ("id", "name", "category", "severity", "pattern", "flags", "appliesTo", "explanation", "isEnabled", "createdAt", "updatedAt")
+VALUES
+    ('guardrail-dosage-change', 'Dosage change', 'dosage_change', 'block', '\b(?:increase|decrease|double|halve|reduce|raise|lower|adjust|change)\b[^.\n]{0,40}\b(?:dose|dosage|mg|milligrams?)\b', 'i', 'draft', 'Dosage changes must come from the prescribing clinician, not from a drafted message.', 1, CAST(strftime('%s', 'now') AS INTEGER), CAST(strftime('%s', 'now') AS INTEGER)),
+    ('guardrail-stop-medication', 'Stopping medication', 'medication_change', 'block', '\b(?:stop|discontinue|quit)\b[^.\n]{0,30}\b(?:medications?|medicines?|meds|pills)\b', 'i', 'draft', 'Advice about stopping a medication needs clinical review before it reaches the patient.', 1, CAST(strftime('%s', 'now') AS INTEGER), CAST(strftime('%s', 'now') AS INTEGER)),
+    ('guardrail-start-medication', 'Starting medication', 'medication_change', 'block', '\bstart(?:ing)?\b[^.\n]{0,30}\bnew\b[^.\n]{0,20}\b(?:medications?|medicines?|prescriptions?)\b', 'i', 'draft', 'New medications can only be recommended by the prescribing clinician.', 1, CAST(strftime('%s', 'now') AS INTEGER), CAST(strftime('%s', 'now') AS INTEGER)),
+    ('guardrail-specific-diagnosis', 'Specific diagnosis', 'diagnosis', 'require_doctor_review', '\b(?:specific medical diagnosis|you (?:likely |probably |most likely )?(?:have|are suffering from)(?: an?)?(?: \w+){0,2} (?:infection|disease|syndrome|disorder|cancer|pneumonia|fracture))\b', 'i', 'draft', 'The draft appears to state a diagnosis; a doctor must confirm it before it is sent.', 1, CAST(strftime('%s', 'now') AS INTEGER), CAST(strftime('%s', 'now') AS INTEGER)),
+    ('guardrail-emergency-instructions', 'Emergency instructions', 'emergency_advice', 'warn', '\b(?:call|dial) 911\b|\bgo to (?:the |your )?(?:nearest )?(?:emergency room|ER)\b', 'i', 'draft', 'The draft gives emergency instructions; check that they match the clinic protocol.', 1, CAST(strftime('%s', 'now') AS INTEGER), CAST(strftime('%s', 'now') AS INTEGER)),
+    ('guardrail-inquiry-emergency-symptoms', 'Emergency symptoms in inquiry', 'emergency_advice', 'require_doctor_review', '\b(?:chest pain|can''?t breathe|trouble breathing|shortness of breath|suicid\w*|overdosed?|severe bleeding|stroke|seizures?|fainted|passed out)\b', 'i', 'inquiry', 'The patient describes symptoms that may need urgent attention; a doctor should review the reply.', 1, CAST(strftime('%s', 'now') AS INTEGER), CAST(strftime('%s', 'now') AS INTEGER)),
+    ('guardrail-inquiry-dosage-request', 'Dosage question in inquiry', 'dosage_change', 'warn', '\b(?:(?:increase|decrease|double|change|adjust|lower|raise)\b[^.\n]{0,30}\b(?:dose|dosage)|take (?:more|less|extra|another))\b', 'i', 'inquiry', 'The patient is asking about dosing; the reply must not change the dose.', 1, CAST(strftime('%s', 'now') AS INTEGER), CAST(strftime('%s', 'now') AS INTEGER));
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "PatientBrief" ADD COLUMN "inquiryUrgency" TEXT;
+ALTER TABLE "PatientBrief" ADD COLUMN "inquiryUrgencyRationale" TEXT;
+ALTER TABLE "PatientBrief" ADD COLUMN "inquiryUrgencySource" TEXT;
+
+-- AlterTable
+ALTER TABLE "AuditLog" ADD COLUMN "urgencyLevel" TEXT;
+ALTER TABLE "AuditLog" ADD COLUMN "urgencyRationale" TEXT;
+ALTER TABLE "AuditLog" ADD COLUMN "urgencySource" TEXT;
+
+-- CreateIndex
+CREATE INDEX "AuditLog_urgencyLevel_idx" ON "AuditLog"("urgencyLevel");
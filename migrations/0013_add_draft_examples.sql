@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "DraftExample" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "doctorId" TEXT NOT NULL,
+    "auditLogId" TEXT NOT NULL,
+    "inquiryText" TEXT NOT NULL,
+    "responseText" TEXT NOT NULL,
+    "approvedBy" TEXT,
+    "removedBy" TEXT,
+    "removedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "DraftExample_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "DraftExample_auditLogId_fkey" FOREIGN KEY ("auditLogId") REFERENCES "AuditLog" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "DraftExample_approvedBy_fkey" FOREIGN KEY ("approvedBy") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "DraftExample_removedBy_fkey" FOREIGN KEY ("removedBy") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DraftExample_auditLogId_key" ON "DraftExample"("auditLogId");
+
+-- CreateIndex
+CREATE INDEX "DraftExample_doctorId_idx" ON "DraftExample"("doctorId");
+
+-- AlterTable
+ALTER TABLE "DoctorSettings" ADD COLUMN "useApprovedExamples" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "AuditLog" ADD COLUMN "fewShotExampleIds" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "AuditLog" ADD COLUMN "readingGrade" REAL;
+
+-- AlterTable
+ALTER TABLE "AuditLog" ADD COLUMN "readingLevelRewrites" INTEGER;
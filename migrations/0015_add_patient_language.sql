@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "PatientBrief" ADD COLUMN "preferredLanguage" TEXT NOT NULL DEFAULT 'en';
+
+-- AlterTable
+ALTER TABLE "AuditLog" ADD COLUMN "draftLanguage" TEXT;
+
+-- AlterTable
+ALTER TABLE "AuditLog" ADD COLUMN "backTranslation" TEXT;
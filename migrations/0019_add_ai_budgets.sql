@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "AiBudget" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "scope" TEXT NOT NULL,
+    "scopeValue" TEXT,
+    "period" TEXT NOT NULL,
+    "maxRequests" INTEGER,
+    "maxTokens" INTEGER,
+    "maxCost" REAL,
+    "softLimitPercent" INTEGER NOT NULL DEFAULT 80,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "overrideUntil" DATETIME,
+    "overrideBy" TEXT,
+    "overrideReason" TEXT,
+    "createdBy" TEXT,
+    "updatedBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "AiBudget_overrideBy_fkey" FOREIGN KEY ("overrideBy") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "AiBudget_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "AiBudget_updatedBy_fkey" FOREIGN KEY ("updatedBy") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "AiBudgetAlert" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "budgetId" TEXT NOT NULL,
+    "level" TEXT NOT NULL,
+    "windowStart" DATETIME NOT NULL,
+    "subjectUserId" TEXT,
+    "message" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "AiBudgetAlert_budgetId_fkey" FOREIGN KEY ("budgetId") REFERENCES "AiBudget" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "AiBudgetAlert_subjectUserId_fkey" FOREIGN KEY ("subjectUserId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "AiBudget_scope_scopeValue_idx" ON "AiBudget"("scope", "scopeValue");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AiBudgetAlert_budgetId_level_windowStart_key" ON "AiBudgetAlert"("budgetId", "level", "windowStart");
+
+-- Seed the bundled budgets (src/lib/budgets.ts), replacing the daily limits previously hardcoded by role
+INSERT INTO "AiBudget" ("id", "scope", "scopeValue", "period", "maxRequests", "softLimitPercent", "isEnabled", "createdAt", "updatedAt")
+VALUES
+    ('budget-role-admin-daily', 'role', 'admin', 'daily', 1000, 80, 1, CAST(strftime('%s', 'now') AS INTEGER), CAST(strftime('%s', 'now') AS INTEGER)),
+    ('budget-role-doctor-daily', 'role', 'doctor', 'daily', 100, 80, 1, CAST(strftime('%s', 'now') AS INTEGER), CAST(strftime('%s', 'now') AS INTEGER)),
+    ('budget-role-reviewer-daily', 'role', 'reviewer', 'daily', 75, 80, 1, CAST(strftime('%s', 'now') AS INTEGER), CAST(strftime('%s', 'now') AS INTEGER)),
+    ('budget-role-staff-daily', 'role', 'staff', 'daily', 50, 80, 1, CAST(strftime('%s', 'now') AS INTEGER), CAST(strftime('%s', 'now') AS INTEGER));
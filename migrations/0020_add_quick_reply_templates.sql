@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "QuickReplyTemplate" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "doctorId" TEXT NOT NULL,
+    "intent" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "language" TEXT NOT NULL DEFAULT 'en',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "useCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "QuickReplyTemplate_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "QuickReplyTemplate_doctorId_intent_idx" ON "QuickReplyTemplate"("doctorId", "intent");
+
+-- AlterTable
+ALTER TABLE "AuditLog" ADD COLUMN "inquiryIntent" TEXT;
+
+-- AlterTable
+ALTER TABLE "AuditLog" ADD COLUMN "quickReplyTemplateId" TEXT;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "DraftCache" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "cacheKey" TEXT NOT NULL,
+    "idempotencyKey" TEXT,
+    "userId" TEXT NOT NULL,
+    "auditLogId" TEXT,
+    "response" TEXT NOT NULL,
+    "tokensConsumed" INTEGER NOT NULL DEFAULT 0,
+    "hitCount" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "DraftCache_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "DraftCache_cacheKey_idx" ON "DraftCache"("cacheKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DraftCache_userId_idempotencyKey_key" ON "DraftCache"("userId", "idempotencyKey");
@@ -0,0 +1,54 @@
+-- AlterTable
+ALTER TABLE "AuditLog" ADD COLUMN "workflowState" TEXT NOT NULL DEFAULT 'draft';
+
+-- Backfill workflow states from the statuses messageWorkflow used to store in deliveryStatus
+-- Earlier transitions were not recorded, so existing messages start without state events
+UPDATE "AuditLog" SET "workflowState" = CASE
+    WHEN "deliveryStatus" = 'pending_review' THEN 'in_review'
+    WHEN "deliveryStatus" = 'rejected' THEN 'cancelled'
+    WHEN "deliveryStatus" IN ('sent', 'delivered', 'failed') THEN "deliveryStatus"
+    WHEN "deliveryStatus" = 'approved' THEN COALESCE(
+        (SELECT CASE "MessageQueue"."status"
+            WHEN 'sent' THEN 'sent'
+            WHEN 'failed' THEN 'failed'
+            WHEN 'cancelled' THEN 'cancelled'
+            ELSE 'sending'
+        END FROM "MessageQueue" WHERE "MessageQueue"."auditLogId" = "AuditLog"."id"),
+        'approved')
+    ELSE 'draft'
+END;
+
+-- Approved messages are no longer a delivery status; they wait for the provider like any new message
+UPDATE "AuditLog" SET "deliveryStatus" = 'pending' WHERE "deliveryStatus" IN ('pending_review', 'approved', 'rejected');
+
+-- CreateIndex
+CREATE INDEX "AuditLog_workflowState_idx" ON "AuditLog"("workflowState");
+
+-- CreateTable
+CREATE TABLE "MessageStateEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "auditLogId" TEXT NOT NULL,
+    "fromState" TEXT NOT NULL,
+    "toState" TEXT NOT NULL,
+    "actorId" TEXT,
+    "actorRole" TEXT NOT NULL,
+    "reason" TEXT,
+    "metadata" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "MessageStateEvent_auditLogId_fkey" FOREIGN KEY ("auditLogId") REFERENCES "AuditLog" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "MessageStateEvent_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "MessageStateEvent_auditLogId_createdAt_idx" ON "MessageStateEvent"("auditLogId", "createdAt");
+
+-- State events are an append-only record
+CREATE TRIGGER "MessageStateEvent_no_update" BEFORE UPDATE ON "MessageStateEvent"
+BEGIN
+    SELECT RAISE(ABORT, 'MessageStateEvent rows are immutable');
+END;
+
+CREATE TRIGGER "MessageStateEvent_no_delete" BEFORE DELETE ON "MessageStateEvent"
+BEGIN
+    SELECT RAISE(ABORT, 'MessageStateEvent rows are immutable');
+END;
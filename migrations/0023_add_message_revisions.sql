@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "MessageRevision" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "auditLogId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "message" TEXT NOT NULL,
+    "submittedBy" TEXT NOT NULL,
+    "submittedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "outcome" TEXT,
+    "reviewerId" TEXT,
+    "reviewNotes" TEXT,
+    "comments" TEXT,
+    "reviewedAt" DATETIME,
+    CONSTRAINT "MessageRevision_auditLogId_fkey" FOREIGN KEY ("auditLogId") REFERENCES "AuditLog" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "MessageRevision_submittedBy_fkey" FOREIGN KEY ("submittedBy") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "MessageRevision_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MessageRevision_auditLogId_revision_key" ON "MessageRevision"("auditLogId", "revision");
+
+-- Messages already in review become their first revision
+INSERT INTO "MessageRevision" ("id", "auditLogId", "revision", "message", "submittedBy", "submittedAt")
+SELECT lower(hex(randomblob(16))), "id", 1, "finalMessage", "userId", "updatedAt"
+FROM "AuditLog"
+WHERE "workflowState" = 'in_review';
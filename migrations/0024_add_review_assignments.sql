@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "ReviewAssignment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "auditLogId" TEXT NOT NULL,
+    "assigneeId" TEXT,
+    "assignedVia" TEXT NOT NULL,
+    "assignedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "dueAt" DATETIME NOT NULL,
+    "escalateToId" TEXT,
+    "escalationLevel" INTEGER NOT NULL DEFAULT 0,
+    "escalatedAt" DATETIME,
+    "claimedBy" TEXT,
+    "claimedAt" DATETIME,
+    "claimExpiresAt" DATETIME,
+    "completedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ReviewAssignment_auditLogId_fkey" FOREIGN KEY ("auditLogId") REFERENCES "AuditLog" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "ReviewAssignment_assigneeId_fkey" FOREIGN KEY ("assigneeId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "ReviewAssignment_escalateToId_fkey" FOREIGN KEY ("escalateToId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "ReviewAssignment_claimedBy_fkey" FOREIGN KEY ("claimedBy") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReviewAssignment_auditLogId_key" ON "ReviewAssignment"("auditLogId");
+
+-- CreateIndex
+CREATE INDEX "ReviewAssignment_assigneeId_idx" ON "ReviewAssignment"("assigneeId");
+
+-- CreateIndex
+CREATE INDEX "ReviewAssignment_dueAt_idx" ON "ReviewAssignment"("dueAt");
+
+-- Messages already in review are assigned by the next SLA sweep
@@ -0,0 +1,60 @@
+-- AlterTable
+ALTER TABLE "AuditLog" ADD COLUMN "approvalPlan" TEXT;
+
+-- AlterTable
+ALTER TABLE "ReviewAssignment" ADD COLUMN "requiredRole" TEXT NOT NULL DEFAULT 'reviewer';
+
+-- CreateTable
+CREATE TABLE "ApprovalPolicy" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "doctorId" TEXT,
+    "urgencyLevel" TEXT,
+    "guardrailCategory" TEXT,
+    "inquiryIntent" TEXT,
+    "steps" TEXT NOT NULL,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT,
+    "updatedBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ApprovalPolicy_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ApprovalPolicy_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "ApprovalPolicy_updatedBy_fkey" FOREIGN KEY ("updatedBy") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ApprovalPolicy_doctorId_idx" ON "ApprovalPolicy"("doctorId");
+
+-- CreateTable
+CREATE TABLE "MessageApproval" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "auditLogId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "stepIndex" INTEGER NOT NULL,
+    "requiredRole" TEXT NOT NULL,
+    "policyId" TEXT,
+    "approverId" TEXT NOT NULL,
+    "approverRole" TEXT NOT NULL,
+    "contentHash" TEXT NOT NULL,
+    "signature" TEXT NOT NULL,
+    "notes" TEXT,
+    "signedAt" DATETIME NOT NULL,
+    CONSTRAINT "MessageApproval_auditLogId_fkey" FOREIGN KEY ("auditLogId") REFERENCES "AuditLog" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "MessageApproval_policyId_fkey" FOREIGN KEY ("policyId") REFERENCES "ApprovalPolicy" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "MessageApproval_approverId_fkey" FOREIGN KEY ("approverId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MessageApproval_auditLogId_revision_stepIndex_key" ON "MessageApproval"("auditLogId", "revision", "stepIndex");
+
+-- Signed approvals are append-only
+CREATE TRIGGER "MessageApproval_no_update" BEFORE UPDATE ON "MessageApproval"
+BEGIN
+    SELECT RAISE(ABORT, 'MessageApproval rows are immutable');
+END;
+
+CREATE TRIGGER "MessageApproval_no_delete" BEFORE DELETE ON "MessageApproval"
+BEGIN
+    SELECT RAISE(ABORT, 'MessageApproval rows are immutable');
+END;
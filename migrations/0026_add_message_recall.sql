@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "AuditLog" ADD COLUMN "approvalRound" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "MessageQueue" ADD COLUMN "dispatchId" TEXT;
+
+-- AlterTable
+ALTER TABLE "MessageApproval" ADD COLUMN "round" INTEGER NOT NULL DEFAULT 0;
+
+-- DropIndex
+DROP INDEX "MessageApproval_auditLogId_revision_stepIndex_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MessageApproval_auditLogId_revision_round_stepIndex_key" ON "MessageApproval"("auditLogId", "revision", "round", "stepIndex");
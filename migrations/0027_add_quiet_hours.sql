@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "PatientBrief" ADD COLUMN "timezone" TEXT;
+
+-- AlterTable
+ALTER TABLE "PatientBrief" ADD COLUMN "contactHoursStart" TEXT;
+
+-- AlterTable
+ALTER TABLE "PatientBrief" ADD COLUMN "contactHoursEnd" TEXT;
@@ -0,0 +1,24 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_DraftCache" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "cacheKey" TEXT NOT NULL,
+    "idempotencyKey" TEXT,
+    "userId" TEXT NOT NULL,
+    "auditLogId" TEXT,
+    "response" TEXT,
+    "tokensConsumed" INTEGER NOT NULL DEFAULT 0,
+    "hitCount" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "DraftCache_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_DraftCache" ("id", "cacheKey", "idempotencyKey", "userId", "auditLogId", "response", "tokensConsumed", "hitCount", "expiresAt", "createdAt") SELECT "id", "cacheKey", "idempotencyKey", "userId", "auditLogId", "response", "tokensConsumed", "hitCount", "expiresAt", "createdAt" FROM "DraftCache";
+DROP TABLE "DraftCache";
+ALTER TABLE "new_DraftCache" RENAME TO "DraftCache";
+CREATE INDEX "DraftCache_cacheKey_idx" ON "DraftCache"("cacheKey");
+CREATE UNIQUE INDEX "DraftCache_userId_idempotencyKey_key" ON "DraftCache"("userId", "idempotencyKey");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
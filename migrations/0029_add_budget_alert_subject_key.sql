@@ -0,0 +1,10 @@
+-- User and role budgets are enforced per user, so their alerts are kept per user too
+-- Doctor panel and organization budgets have one alert per level and window, with no subject
+UPDATE "AiBudgetAlert" SET "subjectUserId" = NULL
+WHERE "budgetId" IN (SELECT "id" FROM "AiBudget" WHERE "scope" IN ('doctor_panel', 'organization'));
+
+-- DropIndex
+DROP INDEX "AiBudgetAlert_budgetId_level_windowStart_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AiBudgetAlert_budgetId_level_windowStart_subjectUserId_key" ON "AiBudgetAlert"("budgetId", "level", "windowStart", COALESCE("subjectUserId", ''));
@@ -0,0 +1,108 @@
+import { setupDb, drizzleDb, auditLogs } from '@/db';
+import { eq } from 'drizzle-orm';
+import * as Sentry from '@sentry/cloudflare';
+import type { DraftCandidate } from '@/actions/generateDraft';
+
+export interface CandidateSelectionRequest {
+  auditLogId: string; // draft_generated entry returned with the candidates
+  userId: string;
+  chosenCandidateIds: string[]; // One when picked, several when paragraphs were merged
+  finalDraft: string; // Text staff carried forward, including any manual edits
+}
+
+export interface CandidateSelection {
+  chosen: string[];
+  discarded: string[];
+  merged: boolean;
+  edited: boolean;
+  selectedBy: string;
+  selectedAt: string;
+}
+
+/**
+ * Record which candidate drafts staff used and which were discarded
+ */
+export async function recordCandidateSelectionAction(
+  request: CandidateSelectionRequest,
+  env: any
+): Promise<{ success: boolean; selection?: CandidateSelection; error?: string }> {
+  try {
+    await setupDb(env);
+
+    if (!request.finalDraft?.trim()) {
+      return { success: false, error: 'Final draft is required' };
+    }
+
+    const [draftLog] = await drizzleDb
+      .select()
+      .from(auditLogs)
+      .where(eq(auditLogs.id, request.auditLogId))
+      .limit(1);
+
+    if (!draftLog || draftLog.actionType !== 'draft_generated') {
+      return { success: false, error: 'Draft not found' };
+    }
+
+    if (draftLog.userId !== request.userId) {
+      return { success: false, error: 'Only the staff member who generated the draft can choose a candidate' };
+    }
+
+    if (!draftLog.draftCandidates) {
+      return { success: false, error: 'Draft has no candidates to choose from' };
+    }
+
+    if (draftLog.candidateSelection) {
+      return { success: false, error: 'A candidate has already been chosen for this draft' };
+    }
+
+    const candidates = JSON.parse(draftLog.draftCandidates) as DraftCandidate[];
+    const candidateIds = candidates.map(candidate => candidate.id);
+    const chosen = Array.from(new Set(request.chosenCandidateIds || []));
+
+    const unknownIds = chosen.filter(id => !candidateIds.includes(id));
+    if (unknownIds.length > 0) {
+      return { success: false, error: `Unknown candidate: ${unknownIds.join(', ')}` };
+    }
+
+    const chosenText = candidates
+      .filter(candidate => chosen.includes(candidate.id))
+      .map(candidate => candidate.draft);
+
+    const selection: CandidateSelection = {
+      chosen,
+      discarded: candidateIds.filter(id => !chosen.includes(id)),
+      merged: chosen.length > 1,
+      edited: !(chosenText.length === 1 && chosenText[0].trim() === request.finalDraft.trim()),
+      selectedBy: request.userId,
+      selectedAt: new Date().toISOString()
+    };
+
+    await drizzleDb
+      .update(auditLogs)
+      .set({
+        generatedDraft: request.finalDraft,
+        candidateSelection: JSON.stringify(selection),
+        updatedAt: new Date()
+      })
+      .where(eq(auditLogs.id, request.auditLogId));
+
+    if (env.SENTRY_DSN) {
+      Sentry.addBreadcrumb({
+        category: 'ai_usage',
+        message: 'Draft candidate selected',
+        level: 'info',
+        data: {
+          auditLogId: request.auditLogId,
+          chosen: selection.chosen,
+          discarded: selection.discarded,
+          merged: selection.merged
+        }
+      });
+    }
+
+    return { success: true, selection };
+  } catch (error) {
+    console.error('Error recording candidate selection:', error);
+    return { success: false, error: 'Failed to record candidate selection' };
+  }
+}
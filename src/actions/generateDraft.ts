@@ -1,18 +1,87 @@
-import OpenAI from 'openai';
 import { setupDb, drizzleDb, users, patientBriefs, doctorSettings, auditLogs } from '@/db';
 import type { User } from '@/db';
-import { eq, count, desc, gte, and } from 'drizzle-orm';
+import { eq, desc } from 'drizzle-orm';
 import * as Sentry from '@sentry/cloudflare';
+import { createLLMProviderManager, LLMProviderError } from '@/providers/llm';
+import type { LLMProviderManager } from '@/providers/llm';
+import type { LLMCompletionRequest, LLMCompletionResult } from '@/providers/llm';
+import { PhiSession } from '@/lib/phi-deidentification';
+import { renderPromptTemplate } from '@/lib/prompt-templates';
+import { PromptTemplateService } from '@/lib/services/promptTemplateService';
+import { GuardrailService } from '@/lib/services/guardrailService';
+import { evaluateGuardrails, summarizeGuardrails } from '@/lib/guardrails';
+import type { GuardrailMatch } from '@/lib/guardrails';
+import { checkMedications, type MedicationIssue } from '@/lib/medication-check';
+import { TriageService } from '@/lib/services/triageService';
+import type { TriageResult } from '@/lib/triage';
+import { DraftExampleService } from '@/lib/services/draftExampleService';
+import { formatFewShotExamples } from '@/lib/few-shot';
+import { MAX_READING_LEVEL_REWRITES, buildSimplificationPrompt, exceedsReadingLevel, maxGradeFor, measureGradeLevel } from '@/lib/reading-level';
+import { buildLanguageInstruction, countWordsIn, normalizeLanguage, truncateToWordLimit, wordLimitFor } from '@/lib/languages';
+import type { PatientLanguage } from '@/lib/languages';
+import { TranslationService } from '@/lib/services/translationService';
+import { GroundingService } from '@/lib/services/groundingService';
+import type { DraftGrounding } from '@/lib/grounding';
+import { ConversationService } from '@/lib/services/conversationService';
+import { CONVERSATION_CONTEXT_TURNS, formatConversationHistory, priorTurns } from '@/lib/conversation';
+import { BudgetService } from '@/lib/services/budgetService';
+import { UsageTrackingService } from '@/lib/services/usageTrackingService';
+import { estimateRequestTokens } from '@/lib/budgets';
+import { classifyInquiryIntent } from '@/lib/quick-replies';
+import { draftEventStream } from '@/lib/draft-stream';
+import { DraftCacheService } from '@/lib/services/draftCacheService';
+import { buildDraftCacheKey, validateIdempotencyKey } from '@/lib/draft-cache';
+import type { PromptTemplate } from '@/db';
 
 export interface DraftRequest {
   patientInquiry: string;
   patientId: string;
   userId: string;
+  stream?: boolean; // Stream tokens back as server-sent events
+  candidateCount?: number; // Number of candidate drafts to generate (1-3); candidates are never streamed
+  idempotencyKey?: string; // From the Idempotency-Key header; a repeated key returns the first response
+  regenerate?: boolean; // Ask for a new draft even when an identical request was just answered
+}
+
+// Server-side overrides, never read from request bodies
+export interface DraftGenerationOptions {
+  promptTemplateId?: string; // Use this template version instead of resolving the active one (eval harness)
+}
+
+// One of several drafts generated for the same inquiry
+export interface DraftCandidate {
+  id: string;
+  label: string;
+  draft: string;
+  wordCount: number;
+  guardrails: GuardrailMatch[]; // Guardrail matches on this candidate's text
+  medicationIssues: MedicationIssue[]; // Allergy conflicts and unlisted drugs in this candidate
+  readingGrade: number | null; // Flesch-Kincaid grade of the final text
+  readingLevelRewrites: number; // Simplification passes applied to reach the doctor's reading level
 }
 
 export interface DraftResponse {
   success: boolean;
   draft?: string;
+  candidates?: DraftCandidate[]; // Present when more than one candidate was requested; draft is the first
+  auditLogId?: string; // draft_generated audit entry for this generation
+  promptTemplateId?: string; // PromptTemplate version used for the prompts
+  promptTemplateVersion?: number;
+  guardrails?: GuardrailMatch[]; // Guardrail matches on the inquiry and the returned draft
+  requiresReview?: boolean; // A block-level rule matched or the medication check found issues; the message must go through review
+  medicationIssues?: MedicationIssue[]; // Allergy conflicts and drugs missing from currentMedications
+  requiresDoctorReview?: boolean; // A rule matched that only a doctor may sign off
+  triage?: TriageResult; // Urgency classification of the inquiry
+  escalated?: boolean; // Emergency inquiry: no draft was generated and staff must escalate
+  readingGrade?: number | null; // Measured Flesch-Kincaid grade of the returned draft
+  readingLevelTarget?: number | null; // Highest grade allowed by the doctor's reading level; null when unlimited
+  readingLevelRewrites?: number; // Simplification passes applied to the returned draft
+  language?: PatientLanguage; // Patient's preferred language the draft was written in
+  backTranslation?: string; // English back-translation of the draft when it is not in English
+  conversationTurns?: number; // Earlier messages with the patient included as context
+  grounding?: DraftGrounding | null; // Brief fields supporting each sentence; null when grounding was unavailable
+  budgetWarnings?: string[]; // Budgets at their soft limit, or exceeded under an admin override
+  cached?: boolean; // Replayed from an identical recent or concurrent request; not billed again
   error?: string;
   usage?: {
     promptTokens: number;
@@ -21,6 +90,7 @@ export interface DraftResponse {
   };
   wordCount?: number;
   model?: string;
+  provider?: string; // LLM provider that served the request (openai, azure-openai, openai-compatible, fake)
   isStubbed?: boolean;
   cost?: number;
   rateLimitInfo?: {
@@ -29,13 +99,143 @@ export interface DraftResponse {
   };
 }
 
+interface DraftVariant {
+  id: string;
+  label: string;
+  instruction: string;
+  temperature: number;
+}
+
+// Variations applied when several candidates are requested; the first is the standard draft
+const DRAFT_VARIANTS: DraftVariant[] = [
+  { id: 'standard', label: 'Standard', instruction: '', temperature: 0.3 },
+  { id: 'concise', label: 'Concise', instruction: 'Write a brief version, about half of the maximum length.', temperature: 0.3 },
+  { id: 'warm', label: 'Warmer tone', instruction: 'Use a warmer, more reassuring tone while keeping the same guidance.', temperature: 0.5 }
+];
+
+export const MAX_DRAFT_CANDIDATES = DRAFT_VARIANTS.length;
+
 /**
- * Server action to generate AI drafts using OpenAI API
- * Production-ready with limits, logging, error handling, and cost controls
+ * Streaming variant of generateDraftAction
+ * Returns a server-sent events body; validation and audit logging run on the finished text
  */
-export async function generateDraftAction(
+export function streamDraftAction(
   request: DraftRequest,
   env: any
+): ReadableStream<Uint8Array> {
+  return draftEventStream(onDelta => generateDraftAction(request, env, onDelta));
+}
+
+/**
+ * Server action to generate AI drafts through the configured LLM providers
+ * Identical requests within the cache window, and concurrent ones, share a single billed generation
+ * When onDelta is provided, the completion is streamed and each chunk is forwarded as it arrives
+ */
+export async function generateDraftAction(
+  request: DraftRequest,
+  env: any,
+  onDelta?: (content: string) => void,
+  options: DraftGenerationOptions = {}
+): Promise<DraftResponse> {
+  try {
+    await setupDb(env);
+
+    const keyIssues = request.idempotencyKey !== undefined ? validateIdempotencyKey(request.idempotencyKey) : [];
+    if (keyIssues.length > 0) {
+      return { success: false, error: keyIssues.join('; ') };
+    }
+
+    const cacheEntry = await resolveDraftCacheKey(request, options);
+    if (!cacheEntry) {
+      // Missing brief or inquiry; the generation reports the error
+      return generateUncachedDraft(request, env, onDelta, options);
+    }
+
+    return DraftCacheService.getOrGenerate(
+      {
+        cacheKey: cacheEntry.cacheKey,
+        userId: request.userId,
+        idempotencyKey: request.idempotencyKey,
+        regenerate: request.regenerate
+      },
+      // Generate with the template version the key was built from
+      () => generateUncachedDraft(request, env, onDelta, { ...options, promptTemplateId: cacheEntry.templateId }),
+      onDelta
+    );
+  } catch (error) {
+    console.error('Draft cache error:', error);
+    return {
+      success: false,
+      error: 'An unexpected error occurred while generating the draft. Please try again.'
+    };
+  }
+}
+
+/**
+ * Cache key for a request from the current brief, doctor settings, prompt template, conversation history,
+ * guardrail rules and example bank
+ * Returns null when the brief does not exist or there is no inquiry
+ */
+async function resolveDraftCacheKey(
+  request: DraftRequest,
+  options: DraftGenerationOptions
+): Promise<{ cacheKey: string; templateId: string } | null> {
+  if (!request.patientInquiry?.trim()) return null;
+
+  const [brief] = await drizzleDb
+    .select({
+      updatedAt: patientBriefs.updatedAt,
+      doctorId: patientBriefs.doctorId,
+      settingsUpdatedAt: doctorSettings.updatedAt,
+      specialtyFocus: doctorSettings.specialtyFocus
+    })
+    .from(patientBriefs)
+    .leftJoin(doctorSettings, eq(patientBriefs.doctorId, doctorSettings.doctorId))
+    .where(eq(patientBriefs.id, request.patientId))
+    .limit(1);
+
+  if (!brief) return null;
+
+  const template = await resolveTemplate(options, brief.doctorId, brief.specialtyFocus);
+  const recentTurns = await ConversationService.getRecentTurns(request.patientId, CONVERSATION_CONTEXT_TURNS + 1);
+  const cacheKey = await buildDraftCacheKey({
+    userId: request.userId,
+    patientId: request.patientId,
+    briefVersion: brief.updatedAt.getTime(),
+    settingsVersion: brief.settingsUpdatedAt?.getTime() ?? null,
+    templateId: template.id,
+    templateVersion: template.version,
+    threadTurns: priorTurns(recentTurns, request.patientInquiry),
+    guardrailVersion: await GuardrailService.getRulesVersion(),
+    exampleVersion: brief.doctorId ? await DraftExampleService.getBankVersion(brief.doctorId) : null,
+    inquiry: request.patientInquiry,
+    candidateCount: request.candidateCount ?? 1
+  });
+
+  return { cacheKey, templateId: template.id };
+}
+
+/**
+ * Doctor override, then specialty override, then the global template
+ */
+function resolveTemplate(
+  options: DraftGenerationOptions,
+  doctorId: string | null,
+  specialtyFocus?: string | null
+): Promise<PromptTemplate> {
+  return options.promptTemplateId
+    ? PromptTemplateService.getTemplate(options.promptTemplateId)
+    : PromptTemplateService.resolveActiveTemplate(doctorId, specialtyFocus);
+}
+
+/**
+ * Generate, check and record a draft; every call is billed
+ */
+async function generateUncachedDraft(
+  request: DraftRequest,
+  env: any,
+  onDelta?: (content: string) => void,
+  options: DraftGenerationOptions = {}
 ): Promise<DraftResponse> {
   const startTime = Date.now();
   
@@ -75,32 +275,6 @@ export async function generateDraftAction(
       return { success: false, error: 'Insufficient permissions' };
     }
 
-    // Check daily usage limits for this user
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const todayTimestamp = Math.floor(today.getTime() / 1000);
-    
-    const [usageCheck] = await drizzleDb
-      .select({ count: count() })
-      .from(auditLogs)
-      .where(
-        and(
-          eq(auditLogs.userId, request.userId),
-          eq(auditLogs.actionType, 'draft_generated'),
-          gte(auditLogs.createdAt, new Date(todayTimestamp * 1000))
-        )
-      );
-
-    const dailyUsage = usageCheck?.count || 0;
-    const dailyLimit = user.role === 'admin' ? 1000 : user.role === 'doctor' ? 100 : 50;
-    
-    if (dailyUsage >= dailyLimit) {
-      return { 
-        success: false, 
-        error: `Daily draft generation limit reached (${dailyLimit}). Please try again tomorrow.` 
-      };
-    }
-
     // Get patient brief with doctor and settings
     const [patientBrief] = await drizzleDb
       .select({
@@ -112,6 +286,7 @@ export async function generateDraftAction(
         allergies: patientBriefs.allergies,
         doctorNotes: patientBriefs.doctorNotes,
         patientInquiry: patientBriefs.patientInquiry,
+        preferredLanguage: patientBriefs.preferredLanguage,
         createdAt: patientBriefs.createdAt,
         updatedAt: patientBriefs.updatedAt,
         doctorId: patientBriefs.doctorId,
@@ -129,6 +304,7 @@ export async function generateDraftAction(
           maxWords: doctorSettings.maxWords,
           readingLevel: doctorSettings.readingLevel,
           specialtyFocus: doctorSettings.specialtyFocus,
+          useApprovedExamples: doctorSettings.useApprovedExamples,
         }
       })
       .from(patientBriefs)
@@ -141,161 +317,282 @@ export async function generateDraftAction(
       return { success: false, error: 'Patient brief not found' };
     }
 
-    // Enforce doctor-specific word limits
-    const maxWords = patientBrief.doctor?.doctorSettings?.maxWords || 300;
-    const maxTokens = Math.min(maxWords * 1.5, 500); // Conservative token estimation
+    // Triage before drafting; emergencies are escalated instead of drafted, regardless of usage limits
+    const { triage, completion: triageCompletion } = await TriageService.classify(request.patientInquiry, env, {
+      subject: { userId: request.userId, role: user.role, doctorId: patientBrief.doctorId },
+      knownNames: [patientBrief.patientName]
+    });
+
+    if (triage.level === 'emergency') {
+      const [escalationLog] = await drizzleDb
+        .insert(auditLogs)
+        .values({
+          userId: request.userId,
+          patientName: patientBrief.patientName,
+          patientId: request.patientId,
+          requestText: request.patientInquiry,
+          generatedDraft: '',
+          finalMessage: '',
+          actionType: 'inquiry_escalated',
+          deliveryStatus: 'draft',
+          urgencyLevel: triage.level,
+          urgencyRationale: triage.rationale,
+          urgencySource: triage.source,
+          aiModelUsed: triageCompletion?.model,
+          aiProvider: triageCompletion?.provider,
+          aiCost: triageCompletion?.cost ?? 0,
+          tokensConsumed: triageCompletion?.usage.totalTokens ?? 0
+        })
+        .returning({ id: auditLogs.id });
+
+      if (env.SENTRY_DSN) {
+        Sentry.addBreadcrumb({
+          category: 'triage',
+          message: 'Emergency inquiry escalated without drafting',
+          level: 'warning',
+          data: { source: triage.source, matchedTerms: triage.matchedTerms }
+        });
+      }
 
-    // Check if AI_STUB mode is enabled or no API key available
-    const isStubMode = env.AI_STUB === "1" || !env.OPENAI_API_KEY || env.OPENAI_API_KEY === "your-openai-api-key-here";
-    
-    let generatedDraft: string | null = null;
-    let usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
-    let cost = 0;
-    let modelUsed = 'mock';
-
-    if (isStubMode) {
-      // Use realistic stub response based on inquiry type
-      generatedDraft = generateStubResponse(patientBrief, request.patientInquiry, maxWords);
-      usage = { promptTokens: 100, completionTokens: 50, totalTokens: 150 };
-      modelUsed = 'gpt-4o-mini-stub';
-      console.log("[AI_STUB] Generated stubbed response for testing");
-    } else {
-      // Use real OpenAI API with comprehensive error handling and retry logic
-      const openai = new OpenAI({
-        apiKey: env.OPENAI_API_KEY,
-        timeout: 30000, // 30 second timeout
-        maxRetries: 2,
-      });
+      return {
+        success: false,
+        escalated: true,
+        triage,
+        auditLogId: escalationLog?.id,
+        error: 'This inquiry may describe an emergency. AI drafting was skipped; escalate to a clinician immediately.'
+      };
+    }
+
+    // Enforce doctor-specific word limits, scaled to the patient's language
+    const settings = patientBrief.doctorSettings;
+    const language = normalizeLanguage(patientBrief.preferredLanguage);
+    const maxWords = wordLimitFor(settings?.maxWords || 300, language);
+    // Conservative token estimation; other languages and scripts use more tokens per word
+    const maxTokens = Math.min(maxWords * 1.5, language === 'en' ? 500 : 1000);
+
+    // Resolve the provider failover order for this environment (AI_STUB=1 forces the local fake)
+    const llm = createLLMProviderManager(env);
+
+    // De-identify the prompt before it leaves the worker; the substitution map stays on this request only
+    const phi = new PhiSession([patientBrief.patientName]);
+
+    const template = await resolveTemplate(options, patientBrief.doctorId, settings?.specialtyFocus);
+
+    // Guardrails run on the inquiry up front and on each draft below
+    const rules = await GuardrailService.getActiveRules();
+    const inquiryMatches = evaluateGuardrails({ inquiry: request.patientInquiry }, rules);
+
+    // Earlier turns with this patient; one extra is read in case the newest is this same inquiry being regenerated
+    const recentTurns = await ConversationService.getRecentTurns(request.patientId, CONVERSATION_CONTEXT_TURNS + 1);
+    const historyTurns = priorTurns(recentTurns, request.patientInquiry);
+
+    // Generate the prompt with safety checks
+    const prompt = phi.mask([
+      buildPrompt(template, patientBrief, request.patientInquiry, settings),
+      formatConversationHistory(historyTurns)
+    ].filter(Boolean).join('\n\n'));
+
+    // Validate prompt length
+    if (prompt.length > 50000) {
+      return { success: false, error: 'Patient context too large for AI processing' };
+    }
+
+    const candidateCount = request.candidateCount ?? 1;
+    if (!Number.isInteger(candidateCount) || candidateCount < 1 || candidateCount > MAX_DRAFT_CANDIDATES) {
+      return { success: false, error: `Candidate count must be between 1 and ${MAX_DRAFT_CANDIDATES}` };
+    }
+
+    // Only single drafts are streamed; candidates are generated side by side
+    const variants = DRAFT_VARIANTS.slice(0, candidateCount);
+    const streamDelta = candidateCount === 1 ? onDelta : undefined;
+    // Approved replies to similar inquiries, only for doctors who opted in to the example bank
+    const fewShotExamples = settings?.useApprovedExamples && patientBrief.doctorId
+      ? (await DraftExampleService.findSimilarExamples(patientBrief.doctorId, request.patientInquiry)).map(scored => scored.example)
+      : [];
+    const systemPrompt = [
+      buildSystemPrompt(template, settings, maxWords),
+      buildLanguageInstruction(language),
+      formatFewShotExamples(fewShotExamples)
+    ].filter(Boolean).join('\n\n');
+
+    // Enforce AI budgets before any tokens are spent; the estimate assumes every candidate uses its full allowance
+    const estimatedTokens = estimateRequestTokens(systemPrompt.length + prompt.length, Math.floor(maxTokens), candidateCount);
+    const budgetCheck = await BudgetService.checkBudgets(
+      { userId: request.userId, role: user.role, doctorId: patientBrief.doctorId },
+      {
+        requests: 1,
+        tokens: estimatedTokens,
+        cost: UsageTrackingService.calculateCost(getModelForRole(user.role, env), estimatedTokens)
+      },
+      env
+    );
+
+    if (!budgetCheck.allowed) {
+      return { success: false, error: budgetCheck.error, budgetWarnings: budgetCheck.warnings };
+    }
+
+    const buildCompletionRequest = (variant: DraftVariant): LLMCompletionRequest => ({
+      model: getModelForRole(user.role, env), // Dynamic model selection based on role
+      messages: [
+        {
+          role: 'system',
+          content: variant.instruction ? `${systemPrompt}\n\nVARIATION:\n- ${variant.instruction}` : systemPrompt
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      maxTokens: Math.floor(maxTokens),
+      temperature: variant.temperature, // Low temperature for consistent medical communication
+      topP: 0.9,
+      frequencyPenalty: 0.1,
+      presencePenalty: 0.1,
+      metadata: {
+        patientId: request.patientId,
+        userId: request.userId,
+        timestamp: new Date().toISOString()
+      }
+    });
+
+    // Providers are tried in priority order; streaming fails over only before the first token
+    const settled = await Promise.allSettled(variants.map(async (variant) => {
+      const completionRequest = buildCompletionRequest(variant);
+
+      if (streamDelta) {
+        // Streamed chunks are re-identified before they reach staff
+        const reidentifier = phi.createStreamReidentifier(streamDelta);
+        const completion = await llm.stream(completionRequest, reidentifier.push);
+        reidentifier.flush();
+        return completion;
+      }
+
+      return llm.complete(completionRequest);
+    }));
 
-      // Generate the prompt with safety checks
-      const prompt = buildPrompt(patientBrief, request.patientInquiry, patientBrief.doctor?.doctorSettings);
-      
-      // Validate prompt length
-      if (prompt.length > 50000) {
-        return { success: false, error: 'Patient context too large for AI processing' };
+    const completions: Array<{ variant: DraftVariant; completion: LLMCompletionResult }> = [];
+    settled.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        completions.push({ variant: variants[index], completion: outcome.value });
       }
+    });
+
+    if (completions.length === 0) {
+      const apiError = (settled[0] as PromiseRejectedResult).reason;
+
+      // Enhanced error handling for provider errors
+      console.error('LLM provider error:', apiError);
 
-      let completion: OpenAI.Chat.Completions.ChatCompletion;
-      
-      try {
-        // Call OpenAI API with HIPAA-compliant settings and retry logic
-        completion = await openai.chat.completions.create({
-          model: getModelForRole(user.role), // Dynamic model selection based on role
-          messages: [
-            {
-              role: 'system',
-              content: buildSystemPrompt(patientBrief.doctor?.doctorSettings, maxWords)
-            },
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          max_tokens: Math.floor(maxTokens),
-          temperature: 0.3, // Lower temperature for consistent medical communication
-          top_p: 0.9,
-          frequency_penalty: 0.1,
-          presence_penalty: 0.1,
-          // HIPAA compliance settings
-          store: false, // Don't store conversations for training
-          metadata: {
+      if (env.SENTRY_DSN) {
+        Sentry.captureException(apiError, {
+          tags: {
+            error_type: 'llm_provider_error',
+            provider: apiError instanceof LLMProviderError ? apiError.provider : 'unknown',
             patientId: request.patientId,
-            userId: request.userId,
-            timestamp: new Date().toISOString()
+            userId: request.userId
+          },
+          extra: {
+            model: getModelForRole(user.role, env),
+            promptLength: prompt.length,
+            candidateCount
           }
         });
+      }
 
-        modelUsed = completion.model || getModelForRole(user.role);
-        
-      } catch (apiError) {
-        // Enhanced error handling for OpenAI API
-        console.error('OpenAI API Error:', apiError);
-        
-        if (env.SENTRY_DSN) {
-          Sentry.captureException(apiError, {
-            tags: {
-              error_type: 'openai_api_error',
-              patientId: request.patientId,
-              userId: request.userId
-            },
-            extra: {
-              model: getModelForRole(user.role),
-              promptLength: prompt.length
-            }
-          });
-        }
+      return mapProviderError(apiError);
+    }
 
-        if (apiError instanceof OpenAI.APIError) {
-          if (apiError.status === 429) {
-            return { 
-              success: false, 
-              error: 'API rate limit exceeded. Please try again in a moment.',
-              rateLimitInfo: {
-                remaining: 0,
-                resetTime: Date.now() + 60000 // Retry in 1 minute
-              }
-            };
-          }
-          if (apiError.status === 400) {
-            return { success: false, error: 'Invalid request. Please check patient inquiry content.' };
-          }
-          if (apiError.status === 401) {
-            return { success: false, error: 'API authentication failed. Please contact support.' };
-          }
-          if (apiError.status === 403) {
-            return { success: false, error: 'API access forbidden. Content may violate policies.' };
-          }
-          if (apiError.status >= 500) {
-            return { success: false, error: 'OpenAI service temporarily unavailable. Please try again.' };
-          }
-        }
+    const { model: modelUsed, provider } = completions[0].completion;
+    const isStubMode = provider === 'fake';
 
-        return { 
-          success: false, 
-          error: 'AI service error. Please try again or contact support if the issue persists.' 
-        };
-      }
+    // Every completion is billed, including candidates discarded below and simplification passes
+    const billed = completions.map(({ completion }) => completion);
+    if (triageCompletion) {
+      billed.push(triageCompletion);
+    }
+    const readingLevelTarget = maxGradeFor(settings?.readingLevel);
 
-      const content = completion.choices[0]?.message?.content;
-      generatedDraft = content || null;
+    // Post-generation validation per candidate
+    const candidates: DraftCandidate[] = [];
 
-      if (!generatedDraft) {
-        return { success: false, error: 'Failed to generate draft content' };
-      }
+    for (const { variant, completion } of completions) {
+      if (!completion.content) continue;
 
-      // Extract usage and calculate cost
-      usage = {
-        promptTokens: completion.usage?.prompt_tokens || 0,
-        completionTokens: completion.usage?.completion_tokens || 0,
-        totalTokens: completion.usage?.total_tokens || 0
-      };
+      const simplified = await enforceReadingLevel(completion.content, readingLevelTarget, {
+        llm,
+        phi,
+        model: getModelForRole(user.role, env),
+        maxTokens: Math.floor(maxTokens),
+        language,
+        metadata: { patientId: request.patientId, userId: request.userId }
+      });
+      billed.push(...simplified.completions);
 
-      cost = calculateCost(modelUsed, usage);
+      let candidateDraft = simplified.draft;
+      if (!candidateDraft) continue;
 
-      // Post-generation validation
-      const wordCount = countWords(generatedDraft);
-      if (wordCount > maxWords * 1.2) { // Allow 20% buffer
+      const candidateWordCount = countWordsIn(candidateDraft, language);
+      if (candidateWordCount > maxWords * 1.2) { // Allow 20% buffer
         // Truncate response if it exceeds limits
-        const words = generatedDraft.split(/\s+/);
-        generatedDraft = words.slice(0, maxWords).join(' ') + '...';
+        candidateDraft = truncateToWordLimit(candidateDraft, maxWords, language);
       }
 
-      // Content safety check
-      if (containsUnsafeContent(generatedDraft)) {
-        return { success: false, error: 'Generated content failed safety validation. Please try rephrasing your inquiry.' };
-      }
+      candidates.push({
+        id: variant.id,
+        label: variant.label,
+        draft: candidateDraft,
+        wordCount: countWordsIn(candidateDraft, language),
+        guardrails: evaluateGuardrails({ draft: candidateDraft }, rules),
+        medicationIssues: checkMedications(candidateDraft, patientBrief),
+        readingGrade: measureGradeLevel(candidateDraft, language),
+        readingLevelRewrites: simplified.rewrites
+      });
+    }
+
+    // Reviewers who cannot read the patient's language approve against the English back-translation
+    const backTranslation = candidates.length > 0
+      ? await TranslationService.backTranslate(candidates[0].draft, language, env, [patientBrief.patientName])
+      : null;
+    if (backTranslation) {
+      billed.push(backTranslation.completion);
     }
 
+    // Citation pass so reviewers can see which brief field each sentence relies on
+    const grounded = candidates.length > 0
+      ? await GroundingService.groundDraft(candidates[0].draft, {
+          medicalHistory: patientBrief.medicalHistory,
+          currentMedications: patientBrief.currentMedications,
+          allergies: patientBrief.allergies,
+          doctorNotes: patientBrief.doctorNotes || ''
+        }, env, [patientBrief.patientName])
+      : null;
+    if (grounded) {
+      billed.push(grounded.completion);
+    }
+    const grounding = grounded?.grounding ?? null;
+
+    const usage = billed.reduce((total, completion) => ({
+      promptTokens: total.promptTokens + completion.usage.promptTokens,
+      completionTokens: total.completionTokens + completion.usage.completionTokens,
+      totalTokens: total.totalTokens + completion.usage.totalTokens
+    }), { promptTokens: 0, completionTokens: 0, totalTokens: 0 });
+    const cost = Math.round(billed.reduce((total, completion) => total + completion.cost, 0) * 10000) / 10000;
+
     // Validate final output
-    if (!generatedDraft) {
-      return { success: false, error: 'Failed to generate draft' };
+    if (candidates.length === 0) {
+      return { success: false, error: 'Failed to generate draft content' };
     }
 
-    const wordCount = countWords(generatedDraft);
+    const generatedDraft = candidates[0].draft;
+    const wordCount = candidates[0].wordCount;
+    const { readingGrade, readingLevelRewrites } = candidates[0];
+    const guardrails = [...inquiryMatches, ...candidates[0].guardrails];
+    const guardrailSummary = summarizeGuardrails(guardrails);
+    const { medicationIssues } = candidates[0];
     const processingTime = Date.now() - startTime;
 
     // Log the action for audit purposes with comprehensive details
-    await drizzleDb
+    const [draftLog] = await drizzleDb
       .insert(auditLogs)
       .values({
         userId: request.userId,
@@ -307,8 +604,29 @@ export async function generateDraftAction(
         actionType: 'draft_generated',
         deliveryStatus: 'draft',
         aiModelUsed: modelUsed,
-        tokensConsumed: usage.totalTokens
-      });
+        aiProvider: provider,
+        aiCost: cost,
+        tokensConsumed: usage.totalTokens,
+        phiMaskedCategories: JSON.stringify(phi.maskedCategories),
+        draftCandidates: candidateCount > 1 ? JSON.stringify(candidates) : null,
+        promptTemplateId: template.id,
+        guardrailFindings: guardrails.length > 0 ? JSON.stringify(guardrails) : null,
+        medicationIssues: medicationIssues.length > 0 ? JSON.stringify(medicationIssues) : null,
+        urgencyLevel: triage.level,
+        urgencyRationale: triage.rationale,
+        urgencySource: triage.source,
+        inquiryIntent: classifyInquiryIntent(request.patientInquiry).intent,
+        fewShotExampleIds: fewShotExamples.length > 0 ? JSON.stringify(fewShotExamples.map(example => example.id)) : null,
+        readingGrade,
+        readingLevelRewrites,
+        draftLanguage: language,
+        backTranslation: backTranslation?.translation ?? null,
+        draftGrounding: grounding ? JSON.stringify(grounding) : null
+      })
+      .returning({ id: auditLogs.id });
+
+    // Only an inquiry that produced a draft joins the thread, so blocked and failed generations leave no turn behind
+    await ConversationService.recordInbound(request.patientId, request.patientInquiry, request.userId);
 
     // Log usage to Sentry for monitoring
     if (env.SENTRY_DSN) {
@@ -318,12 +636,27 @@ export async function generateDraftAction(
         level: 'info',
         data: {
           model: modelUsed,
+          provider: provider,
+          phiMaskedCategories: phi.maskedCategories,
           tokens: usage.totalTokens,
           cost: cost,
           wordCount: wordCount,
+          candidateCount: candidates.length,
+          promptTemplateId: template.id,
+          promptTemplateVersion: template.version,
+          guardrailMatches: guardrails.length,
+          guardrailSeverity: guardrailSummary.highestSeverity,
+          medicationIssues: medicationIssues.length,
+          urgencyLevel: triage.level,
+          fewShotExamples: fewShotExamples.length,
+          conversationTurns: historyTurns.length,
+          ungroundedSentences: grounding?.ungroundedCount ?? null,
+          readingGrade,
+          readingLevelRewrites,
+          language,
           processingTimeMs: processingTime,
           isStubbed: isStubMode,
-          dailyUsage: dailyUsage + 1
+          budgetWarnings: budgetCheck.warnings.length
         }
       });
 
@@ -338,9 +671,27 @@ export async function generateDraftAction(
     return {
       success: true,
       draft: generatedDraft,
+      candidates: candidateCount > 1 ? candidates : undefined,
+      auditLogId: draftLog?.id,
+      promptTemplateId: template.id,
+      promptTemplateVersion: template.version,
+      guardrails,
+      requiresReview: guardrailSummary.requiresReview || medicationIssues.length > 0,
+      medicationIssues,
+      requiresDoctorReview: guardrailSummary.requiresDoctorReview,
+      triage,
+      readingGrade,
+      readingLevelTarget,
+      readingLevelRewrites,
+      language,
+      backTranslation: backTranslation?.translation,
+      conversationTurns: historyTurns.length,
+      grounding,
+      budgetWarnings: budgetCheck.warnings,
       usage: usage,
       wordCount: wordCount,
       model: modelUsed,
+      provider: provider,
       isStubbed: isStubMode,
       cost: cost
     };
@@ -372,190 +723,142 @@ export async function generateDraftAction(
 }
 
 /**
- * Generate realistic stub responses for testing
+ * Map a provider failure to a user-facing error
  */
-function generateStubResponse(patientBrief: any, inquiry: string, maxWords: number): string {
-  const responses = {
-    medication: `Hello ${patientBrief.patientName},
-
-Thank you for your inquiry about your medication. I understand your concern about ${inquiry.toLowerCase()}.
-
-Based on your current medications (${patientBrief.currentMedications || 'as prescribed'}), I want to address your question carefully. ${patientBrief.allergies && patientBrief.allergies !== 'NKDA' ? `Given your allergies to ${patientBrief.allergies}, we need to be particularly careful with any changes.` : ''}
-
-For medication-related questions, I recommend scheduling an appointment so we can review your current regimen and discuss any adjustments that might be needed. This ensures your safety and optimal treatment outcomes.
-
-Please call our office to schedule a consultation at your earliest convenience.
-
-${patientBrief.doctor?.doctorSettings?.signOff || 'Best regards,\nYour Healthcare Team'}`,
-
-    appointment: `Hello ${patientBrief.patientName},
-
-Thank you for reaching out regarding ${inquiry.toLowerCase()}.
-
-I understand you'd like to schedule an appointment or discuss appointment-related matters. Our office staff will be happy to help you find a suitable time that works with your schedule.
-
-${patientBrief.doctorNotes ? `Based on your recent visit notes: ${patientBrief.doctorNotes}` : ''}
-
-Please call our office during business hours or use our patient portal to schedule your appointment. We look forward to seeing you soon.
-
-${patientBrief.doctor?.doctorSettings?.signOff || 'Best regards,\nYour Healthcare Team'}`,
-
-    general: `Hello ${patientBrief.patientName},
-
-Thank you for your inquiry. I appreciate you taking the time to reach out with your question about ${inquiry.toLowerCase()}.
-
-Based on your medical history (${patientBrief.briefText}) and current situation, I want to provide you with the most appropriate guidance. ${patientBrief.currentMedications ? `I note you're currently taking ${patientBrief.currentMedications}.` : ''}
-
-${patientBrief.allergies && patientBrief.allergies !== 'NKDA' ? `As always, we'll keep in mind your allergies to ${patientBrief.allergies}.` : ''}
-
-For the best care and to address your concerns properly, I recommend scheduling an appointment where we can discuss this in detail and ensure you receive personalized medical guidance.
-
-${patientBrief.doctor?.doctorSettings?.signOff || 'Best regards,\nYour Healthcare Team'}`
-  };
-
-  let response;
-  if (inquiry.toLowerCase().includes('medication') || inquiry.toLowerCase().includes('prescription') || inquiry.toLowerCase().includes('drug')) {
-    response = responses.medication;
-  } else if (inquiry.toLowerCase().includes('appointment') || inquiry.toLowerCase().includes('schedule') || inquiry.toLowerCase().includes('visit')) {
-    response = responses.appointment;
-  } else {
-    response = responses.general;
-  }
-
-  // Truncate if needed to respect word limits
-  const words = response.split(/\s+/);
-  if (words.length > maxWords) {
-    response = words.slice(0, maxWords - 3).join(' ') + '...';
+function mapProviderError(apiError: unknown): DraftResponse {
+  if (apiError instanceof LLMProviderError && apiError.status) {
+    if (apiError.status === 429) {
+      return {
+        success: false,
+        error: 'API rate limit exceeded. Please try again in a moment.',
+        rateLimitInfo: {
+          remaining: 0,
+          resetTime: Date.now() + 60000 // Retry in 1 minute
+        }
+      };
+    }
+    if (apiError.status === 400) {
+      return { success: false, error: 'Invalid request. Please check patient inquiry content.' };
+    }
+    if (apiError.status === 401) {
+      return { success: false, error: 'API authentication failed. Please contact support.' };
+    }
+    if (apiError.status === 403) {
+      return { success: false, error: 'API access forbidden. Content may violate policies.' };
+    }
+    if (apiError.status >= 500) {
+      return { success: false, error: 'AI service temporarily unavailable. Please try again.' };
+    }
   }
 
-  return response;
+  return {
+    success: false,
+    error: 'AI service error. Please try again or contact support if the issue persists.'
+  };
 }
 
 /**
  * Select model based on user role
+ * LLM_MODEL overrides the default per environment
  */
-function getModelForRole(role: string): string {
+export function getModelForRole(role: string, env: any): string {
+  const defaultModel = env.LLM_MODEL || 'gpt-4o-mini';
+
   switch (role) {
     case 'admin':
-      return 'gpt-4o-mini'; // Fast and cost-effective for admin users
+      return defaultModel; // Fast and cost-effective for admin users
     case 'doctor':
-      return 'gpt-4o-mini'; // Balanced performance for doctors
+      return defaultModel; // Balanced performance for doctors
     case 'reviewer':
-      return 'gpt-4o-mini'; // Good quality for reviewers
+      return defaultModel; // Good quality for reviewers
     case 'staff':
     default:
-      return 'gpt-4o-mini'; // Most cost-effective for staff
+      return defaultModel; // Most cost-effective for staff
   }
 }
 
-/**
- * Calculate cost based on model and usage
- */
-function calculateCost(model: string, usage: { promptTokens: number; completionTokens: number }): number {
-  // Pricing as of 2024 (per 1M tokens)
-  const pricing: Record<string, { input: number; output: number }> = {
-    'gpt-4o-mini': { input: 0.15, output: 0.60 }, // $0.15 input, $0.60 output per 1M tokens
-    'gpt-4o': { input: 2.50, output: 10.00 },
-    'gpt-3.5-turbo': { input: 0.50, output: 1.50 }
-  };
-
-  const modelPricing = pricing[model] || pricing['gpt-4o-mini'];
-  const inputCost = (usage.promptTokens / 1000000) * modelPricing.input;
-  const outputCost = (usage.completionTokens / 1000000) * modelPricing.output;
-  
-  return Math.round((inputCost + outputCost) * 10000) / 10000; // Round to 4 decimal places
+interface ReadingLevelContext {
+  llm: LLMProviderManager;
+  phi: PhiSession;
+  model: string;
+  maxTokens: number;
+  language: PatientLanguage;
+  metadata: Record<string, string>;
 }
 
 /**
- * Count words in text
+ * Ask for simplification passes while a masked draft reads above the doctor's grade ceiling
+ * Bounded by MAX_READING_LEVEL_REWRITES; a pass that fails or does not lower the grade ends the loop
+ * Returns the re-identified draft and the completions to bill
  */
-function countWords(text: string): number {
-  return text.trim().split(/\s+/).filter(word => word.length > 0).length;
-}
+async function enforceReadingLevel(
+  maskedDraft: string,
+  maxGrade: number | null,
+  context: ReadingLevelContext
+): Promise<{ draft: string; rewrites: number; completions: LLMCompletionResult[] }> {
+  const completions: LLMCompletionResult[] = [];
+  let current = maskedDraft;
+  let grade = measureGradeLevel(context.phi.reidentify(current), context.language);
+  let rewrites = 0;
+
+  while (maxGrade !== null && exceedsReadingLevel(grade, maxGrade) && rewrites < MAX_READING_LEVEL_REWRITES) {
+    let completion: LLMCompletionResult;
+    try {
+      completion = await context.llm.complete({
+        model: context.model,
+        messages: [
+          { role: 'system', content: buildSimplificationPrompt(maxGrade, grade!, context.language) },
+          { role: 'user', content: current }
+        ],
+        maxTokens: context.maxTokens,
+        temperature: 0.2,
+        metadata: { ...context.metadata, purpose: 'reading_level_rewrite', timestamp: new Date().toISOString() }
+      });
+    } catch (error) {
+      console.warn('[READING LEVEL] Simplification pass failed, keeping the current draft:', error);
+      break;
+    }
 
-/**
- * Check for unsafe content patterns
- */
-function containsUnsafeContent(text: string): boolean {
-  const unsafePatterns = [
-    /specific medical diagnosis/i,
-    /discontinue.*medication/i,
-    /start.*new.*medication/i,
-    /change.*dosage/i,
-    /emergency.*call.*911/i
-  ];
-
-  return unsafePatterns.some(pattern => pattern.test(text));
+    completions.push(completion);
+    const rewrittenGrade = completion.content ? measureGradeLevel(context.phi.reidentify(completion.content), context.language) : null;
+    if (rewrittenGrade === null || rewrittenGrade >= grade!) break;
+
+    current = completion.content;
+    grade = rewrittenGrade;
+    rewrites++;
+  }
+
+  return { draft: context.phi.reidentify(current), rewrites, completions };
 }
 
 /**
- * Build the system prompt based on doctor settings
+ * Build the system prompt from the active template and doctor settings
  */
-function buildSystemPrompt(doctorSettings: any, maxWords: number): string {
-  const tone = doctorSettings?.communicationTone || 'professional';
-  const readingLevel = doctorSettings?.readingLevel || 'standard';
-  const specialtyFocus = doctorSettings?.specialtyFocus || 'general medicine';
-  const signOff = doctorSettings?.signOff || 'Your Healthcare Team';
-
-  return `You are a medical communication assistant helping healthcare staff draft patient responses. 
-
-IMPORTANT GUIDELINES:
-- Communication tone: ${tone}
-- Reading level: ${readingLevel}
-- Specialty focus: ${specialtyFocus}
-- Sign off with: "${signOff}"
-- Maximum words: ${maxWords}
-
-MEDICAL COMMUNICATION STANDARDS:
-- Always maintain professional, compassionate tone
-- Use clear, jargon-free language appropriate for patients
-- Include appropriate disclaimers for medical advice
-- Encourage patients to contact the office for urgent concerns
-- Reference the patient's specific condition and medical history when relevant
-- Never provide specific medical diagnoses or treatment changes
-- Always recommend professional consultation for medical decisions
-
-HIPAA COMPLIANCE:
-- Maintain patient confidentiality
-- Only reference information provided in the context
-- Use secure, professional language
-
-SAFETY REQUIREMENTS:
-- Never recommend stopping medications without consultation
-- Never suggest starting new medications
-- Never provide emergency medical advice
-- Always encourage in-person consultation for complex issues
-
-Format the response as a complete message ready to send to the patient.`;
+function buildSystemPrompt(template: PromptTemplate, doctorSettings: any, maxWords: number): string {
+  return renderPromptTemplate(template.systemTemplate, {
+    tone: doctorSettings?.communicationTone || 'professional',
+    readingLevel: doctorSettings?.readingLevel || 'standard',
+    specialtyFocus: doctorSettings?.specialtyFocus || 'general medicine',
+    signOff: doctorSettings?.signOff || 'Your Healthcare Team',
+    maxWords
+  });
 }
 
 /**
- * Build the user prompt with patient context and inquiry
+ * Build the user prompt from the active template with patient context and inquiry
  */
-function buildPrompt(patientBrief: any, inquiry: string, doctorSettings: any): string {
-  return `Please draft a response to the following patient inquiry:
-
-PATIENT CONTEXT:
-- Name: ${patientBrief.patientName}
-- Medical Condition: ${patientBrief.briefText}
-- Medical History: ${patientBrief.medicalHistory}
-- Current Medications: ${patientBrief.currentMedications}
-- Allergies: ${patientBrief.allergies}
-- Doctor Notes: ${patientBrief.doctorNotes || 'None'}
-
-PATIENT INQUIRY:
-${inquiry}
-
-RESPONSE REQUIREMENTS:
-- Address the patient by name
-- Reference their specific condition where appropriate
-- Maintain the specified communication tone: ${doctorSettings?.communicationTone || 'professional'}
-- Keep response under ${doctorSettings?.maxWords || 300} words
-- Use ${doctorSettings?.readingLevel || 'standard'} reading level
-- Include appropriate medical disclaimers
-- Sign off with: "${doctorSettings?.signOff || 'Your Healthcare Team'}"
-- Never provide specific medical diagnoses or treatment changes
-- Always encourage professional consultation for medical decisions
-
-Draft a complete, professional response:`;
+function buildPrompt(template: PromptTemplate, patientBrief: any, inquiry: string, doctorSettings: any): string {
+  return renderPromptTemplate(template.userTemplate, {
+    patientName: patientBrief.patientName,
+    briefText: patientBrief.briefText,
+    medicalHistory: patientBrief.medicalHistory,
+    currentMedications: patientBrief.currentMedications,
+    allergies: patientBrief.allergies,
+    doctorNotes: patientBrief.doctorNotes || 'None',
+    inquiry,
+    tone: doctorSettings?.communicationTone || 'professional',
+    readingLevel: doctorSettings?.readingLevel || 'standard',
+    signOff: doctorSettings?.signOff || 'Your Healthcare Team',
+    maxWords: doctorSettings?.maxWords || 300
+  });
 }
@@ -1,8 +1,35 @@
-import { setupDb, drizzleDb, auditLogs, messageQueue } from '@/db';
-import type { User } from '@/db';
+import { setupDb, drizzleDb, auditLogs, messageApprovals, messageQueue, messageRevisions, patientBriefs, reviewAssignments, users } from '@/db';
+import type { User, AuditLog, MessageStateEvent, ReviewAssignment } from '@/db';
 import { hasRole } from '@/lib/auth';
+import { GuardrailService, type GuardrailCheckResult } from '@/lib/services/guardrailService';
+import { queuePriorityFor } from '@/lib/triage';
+import { DraftExampleService } from '@/lib/services/draftExampleService';
+import { ConversationService } from '@/lib/services/conversationService';
+import { TranslationService } from '@/lib/services/translationService';
+import { MedicationCheckService } from '@/lib/services/medicationCheckService';
+import type { MedicationIssue } from '@/lib/medication-check';
+import { normalizeLanguage } from '@/lib/languages';
+import { MessageStateService, SYSTEM_ACTOR, type TransitionRequest } from '@/lib/services/messageStateService';
+import { assertTransition, MessageStateError, type MessageState } from '@/lib/message-states';
+import { MessageRevisionService, type MessageRevisionView, type ReturnedMessage } from '@/lib/services/messageRevisionService';
+import { validateReviewComments, type ReviewComment } from '@/lib/review-comments';
+import { ReviewAssignmentService } from '@/lib/services/reviewAssignmentService';
+import { isClaimActive, parseAssignmentStrategy, ReviewClaimedError } from '@/lib/review-assignment';
+import { ApprovalService, type ApprovalStatus } from '@/lib/services/approvalService';
+import { ApprovalStepError, describeStep } from '@/lib/approval-policies';
+import {
+  summarizeBulkResults,
+  uniqueIds,
+  validateBulkReviewRequest,
+  type BulkReviewItemResult,
+  type BulkReviewRequest
+} from '@/lib/bulk-review';
+import { HELD_DELIVERY_METHODS, parseUndoSendSeconds, recallProblem, undoDeadline } from '@/lib/undo-send';
+import { QuietHoursService, type MessageSendWindow } from '@/lib/services/quietHoursService';
+import { formatInTimeZone } from '@/lib/quiet-hours';
 import crypto from 'crypto';
-import { eq, and } from 'drizzle-orm';
+import { and, eq, sql } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/sqlite-core';
 import { env } from 'cloudflare:workers';
 
 export interface MessageFinalizationRequest {
@@ -17,9 +44,20 @@ export interface MessageFinalizationRequest {
 
 export interface MessageReviewRequest {
   auditLogId: string;
-  action: 'approve' | 'reject';
+  action: 'approve' | 'reject' | 'request_changes';
   reviewNotes?: string;
   finalMessage?: string; // In case reviewer edits before approving
+  comments?: ReviewComment[]; // Inline comments on the submitted text, for request_changes
+}
+
+export interface MessageResubmissionRequest {
+  auditLogId: string;
+  finalMessage: string; // Revised text; delivery details are kept from the first submission
+}
+
+export interface BackTranslationRequest {
+  auditLogId: string;
+  text: string; // Message text as currently edited by the reviewer
 }
 
 export interface MessageWorkflowResponse {
@@ -27,7 +65,32 @@ export interface MessageWorkflowResponse {
   message?: string;
   error?: string;
   auditLog?: any;
-  nextStep?: 'sent' | 'pending_review' | 'queued_for_delivery';
+  nextStep?: 'sent' | 'pending_review' | 'queued_for_delivery' | 'changes_requested';
+  undoUntil?: Date; // Until then the message can be recalled; absent when it went straight to delivery
+  sendWindow?: MessageSendWindow; // When an email or SMS goes out after quiet hours and contact hours
+}
+
+// Audit entries that carry a patient message; escalations and budget overrides are records only
+const MESSAGE_ACTIONS = [
+  'draft_generated', 'draft_edited', 'quick_reply_drafted', 'submitted_for_review',
+  'changes_requested', 'reviewed', 'sent', 'delivery_confirmed', 'delivery_failed', 'recalled'
+];
+
+/**
+ * Reject a move the state machine does not allow before any checks or AI calls are made
+ * MessageStateService repeats the check when the state is written.
+ */
+function assertMessageTransition(log: AuditLog, to: MessageState, user: User): void {
+  assertTransition(MessageStateService.currentState(log), to, user.role);
+}
+
+/**
+ * Workflow rejections, claim conflicts and approval problems are shown as they are; anything else gets the action's generic error
+ */
+function workflowError(error: unknown, fallback: string): string {
+  return error instanceof MessageStateError || error instanceof ReviewClaimedError || error instanceof ApprovalStepError
+    ? error.message
+    : fallback;
 }
 
 /**
@@ -45,14 +108,73 @@ function getClientInfo(request?: any): { ipAddress?: string; userAgent?: string
   };
 }
 
+/**
+ * Why a message cannot be handed to delivery; null when it can
+ * Checked before a message is approved or moved on, so one that cannot go out is never left waiting for delivery.
+ */
+function deliveryProblem(deliveryMethod: string, recipient: { email?: string | null; phone?: string | null }): string | null {
+  switch (deliveryMethod) {
+    case 'email':
+      return recipient.email ? null : 'Email address required for email delivery';
+    case 'sms':
+      return recipient.phone ? null : 'Phone number required for SMS delivery';
+    case 'portal':
+      return null;
+    default:
+      return `Unsupported delivery method: ${deliveryMethod}`;
+  }
+}
+
+/**
+ * Enqueue a message's delivery job, then move the approved message to scheduled or sending
+ * The job goes first, so a failed enqueue leaves the message approved with no dispatch and retryDelivery can queue it again.
+ * If the message moved in between (recalled, cancelled), the dispatch is withdrawn and the job is skipped; an unheld job
+ * the processor already claimed has moved the message to sending itself, and its delivery stands.
+ */
+async function dispatchDelivery(
+  log: AuditLog,
+  dispatch: Omit<TransitionRequest, 'auditLogId'> & { messageQueueId: string; dispatchId: string },
+  enqueue: () => Promise<void>
+): Promise<void> {
+  const { messageQueueId, dispatchId, ...transition } = dispatch;
+  const withdraw = () => drizzleDb
+    .update(messageQueue)
+    .set({ dispatchId: null, updatedAt: new Date() })
+    .where(and(eq(messageQueue.id, messageQueueId), eq(messageQueue.dispatchId, dispatchId), eq(messageQueue.status, 'queued')))
+    .returning({ id: messageQueue.id });
+
+  try {
+    await enqueue();
+  } catch (error) {
+    await withdraw();
+    throw error;
+  }
+
+  try {
+    await MessageStateService.transitionFrom(log, transition);
+  } catch (error) {
+    const [withdrawn] = await withdraw();
+    if (withdrawn) throw error;
+
+    const [queueEntry] = await drizzleDb
+      .select()
+      .from(messageQueue)
+      .where(eq(messageQueue.id, messageQueueId))
+      .limit(1);
+    if (queueEntry?.dispatchId !== dispatchId) throw error;
+  }
+}
+
 /**
  * Queue message for async delivery
+ * Email and SMS jobs are held for the undo window (UNDO_SEND_SECONDS), during which the message stays scheduled and can be recalled.
+ * They wait longer for their scheduled time and, unless urgent, for the end of the patient's quiet hours.
  */
 export async function queueMessageForDelivery(
   messageQueueId: string,
   user: User,
   environment: any = env
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; error?: string; undoUntil?: Date; sendWindow?: MessageSendWindow }> {
   try {
     // Get message queue entry
     const [queueEntry] = await drizzleDb
@@ -73,6 +195,17 @@ export async function queueMessageForDelivery(
       };
     }
 
+    const problem = deliveryProblem(queueEntry.deliveryMethod, {
+      email: queueEntry.recipientEmail,
+      phone: queueEntry.recipientPhone
+    });
+    if (problem) {
+      return { success: false, error: problem };
+    }
+
+    // Every step of the approval plan must be signed for the exact text being sent
+    await ApprovalService.assertComplete(queueEntry.auditLogId, queueEntry.messageContent);
+
     // Import queue producer
     const { createQueueProducer } = await import('@/lib/queue-producer');
     
@@ -82,52 +215,92 @@ export async function queueMessageForDelivery(
       return { success: true };
     }
 
+    const [log] = await drizzleDb
+      .select()
+      .from(auditLogs)
+      .where(eq(auditLogs.id, queueEntry.auditLogId))
+      .limit(1);
+
+    if (!log) {
+      return { success: false, error: 'Message not found' };
+    }
+
     const queueProducer = createQueueProducer(environment);
+    const now = new Date();
+    const sendWindow = HELD_DELIVERY_METHODS.includes(queueEntry.deliveryMethod)
+      ? await QuietHoursService.sendWindow(queueEntry.auditLogId, {
+          deliveryMethod: queueEntry.deliveryMethod,
+          priority: queueEntry.priority,
+          requested: queueEntry.scheduledFor && queueEntry.scheduledFor > now ? queueEntry.scheduledFor : now
+        }, environment)
+      : undefined;
+    const sendLater = sendWindow && sendWindow.sendAt > now ? sendWindow.sendAt : null;
+    const undoUntil = sendLater ?? undoDeadline(queueEntry.deliveryMethod, parseUndoSendSeconds(environment.UNDO_SEND_SECONDS), now);
+    const delay = undoUntil ? undoUntil.getTime() - now.getTime() : undefined;
+    const to: MessageState = undoUntil ? 'scheduled' : 'sending';
+    assertMessageTransition(log, to, user);
+
+    // Jobs from an earlier send of this entry no longer match and are skipped
+    const dispatchId = crypto.randomUUID();
+    await drizzleDb
+      .update(messageQueue)
+      .set({ dispatchId, ...(sendLater && { scheduledFor: sendLater }), updatedAt: new Date() })
+      .where(eq(messageQueue.id, queueEntry.id));
+
+    const transition = {
+      to,
+      actor: { id: user.id, role: user.role },
+      metadata: {
+        messageQueueId: queueEntry.id,
+        deliveryMethod: queueEntry.deliveryMethod,
+        ...(undoUntil && { undoUntil }),
+        ...(sendLater && { scheduledFor: sendLater }),
+        ...(sendWindow?.deferred && { deferredBy: sendWindow.reason }),
+        ...(sendWindow?.overridden && { quietHoursOverridden: sendWindow.reason })
+      }
+    };
 
     // Determine delivery method and enqueue appropriate job
     switch (queueEntry.deliveryMethod) {
       case 'email':
-        if (!queueEntry.recipientEmail) {
-          return { success: false, error: 'Email address required for email delivery' };
-        }
-
-        await queueProducer.enqueueEmail({
+        await dispatchDelivery(log, { ...transition, messageQueueId: queueEntry.id, dispatchId }, () => queueProducer.enqueueEmail({
           messageId: queueEntry.id,
-          recipient: queueEntry.recipientEmail,
+          recipient: queueEntry.recipientEmail!,
           subject: `Medical Communication - ${new Date().toLocaleDateString()}`,
           content: queueEntry.messageContent,
           priority: queueEntry.priority as 'high' | 'normal' | 'low',
+          dispatchId,
+          delay,
           metadata: {
             auditLogId: queueEntry.auditLogId,
             userId: user.id,
             userRole: user.role,
             queuedAt: new Date().toISOString()
           }
-        });
+        }));
         break;
 
       case 'sms':
-        if (!queueEntry.recipientPhone) {
-          return { success: false, error: 'Phone number required for SMS delivery' };
-        }
-
-        await queueProducer.enqueueSMS({
+        await dispatchDelivery(log, { ...transition, messageQueueId: queueEntry.id, dispatchId }, () => queueProducer.enqueueSMS({
           messageId: queueEntry.id,
-          recipient: queueEntry.recipientPhone,
+          recipient: queueEntry.recipientPhone!,
           content: queueEntry.messageContent,
           priority: queueEntry.priority as 'high' | 'normal' | 'low',
+          dispatchId,
+          delay,
           metadata: {
             auditLogId: queueEntry.auditLogId,
             userId: user.id,
             userRole: user.role,
             queuedAt: new Date().toISOString()
           }
-        });
+        }));
         break;
 
       case 'portal':
         // Portal delivery doesn't need external queue processing
         // Just mark as sent since it's internal
+        await MessageStateService.transitionFrom(log, transition);
         await drizzleDb
           .update(messageQueue)
           .set({
@@ -137,23 +310,23 @@ export async function queueMessageForDelivery(
             attempts: queueEntry.attempts + 1
           })
           .where(eq(messageQueue.id, queueEntry.id));
+        if (await MessageStateService.recordDelivery(queueEntry.auditLogId, 'sent', { changes: { deliveryStatus: 'sent' } })) {
+          await ConversationService.recordOutbound(queueEntry.auditLogId, user.id);
+          await DraftExampleService.captureApprovedMessage(queueEntry.auditLogId, user.id);
+        }
         break;
-
-      default:
-        return { 
-          success: false, 
-          error: `Unsupported delivery method: ${queueEntry.deliveryMethod}` 
-        };
     }
 
     console.log('[QUEUE_MESSAGE] Message queued for delivery:', {
       messageId: queueEntry.id,
       deliveryMethod: queueEntry.deliveryMethod,
       priority: queueEntry.priority,
+      undoUntil,
+      deferredBy: sendWindow?.deferred ? sendWindow.reason : undefined,
       userId: user.id
     });
 
-    return { success: true };
+    return { success: true, undoUntil: undoUntil ?? undefined, sendWindow };
 
   } catch (error) {
     console.error('[QUEUE_MESSAGE] Failed to queue message for delivery:', error);
@@ -197,6 +370,68 @@ function createEditEntry(originalContent: string, newContent: string, userId: st
   return JSON.stringify(editEntry);
 }
 
+// Guardrail matches plus medication mismatches; either kind of blocking finding forces the review path
+interface SafetyCheckResult extends GuardrailCheckResult {
+  medicationIssues: MedicationIssue[];
+}
+
+/**
+ * Re-run the guardrails and the medication check on the message as it will be sent
+ * Staff edits after generation can add or remove matches, so stored findings are not trusted
+ */
+async function checkGuardrails(log: AuditLog, finalMessage: string): Promise<SafetyCheckResult> {
+  const guardrails = await GuardrailService.check({ inquiry: log.requestText, draft: finalMessage });
+  const medicationIssues = await MedicationCheckService.checkForPatient(finalMessage, log.patientId);
+  return {
+    ...guardrails,
+    requiresReview: guardrails.requiresReview || medicationIssues.length > 0,
+    medicationIssues
+  };
+}
+
+/**
+ * English back-translation of the message as it will be sent, with the audit log's usage fields updated for billing
+ * The stored translation is reused while the text is unchanged since it was made
+ */
+async function refreshBackTranslation(
+  log: AuditLog,
+  translatedText: string,
+  finalMessage: string,
+  environment: any
+): Promise<Pick<AuditLog, 'backTranslation' | 'aiCost' | 'tokensConsumed'>> {
+  const language = normalizeLanguage(log.draftLanguage);
+  const unchanged = { backTranslation: log.backTranslation, aiCost: log.aiCost, tokensConsumed: log.tokensConsumed };
+  if (language === 'en' || (finalMessage === translatedText && log.backTranslation)) {
+    return unchanged;
+  }
+
+  const result = await TranslationService.backTranslate(finalMessage, language, environment, [log.patientName]);
+  if (!result) {
+    // A stale translation would mislead the reviewer
+    return { ...unchanged, backTranslation: null };
+  }
+
+  return {
+    backTranslation: result.translation,
+    aiCost: (log.aiCost || 0) + result.completion.cost,
+    tokensConsumed: (log.tokensConsumed || 0) + result.completion.usage.totalTokens
+  };
+}
+
+/**
+ * Doctors (and admins) are the only roles that can sign off require_doctor_review matches
+ */
+function canSignOffDoctorReview(user: User): boolean {
+  return user.role === 'doctor' || user.role === 'admin';
+}
+
+/**
+ * Roles that make review decisions; auditors can read the queue but not claim from it
+ */
+function canReviewMessages(user: User): boolean {
+  return hasRole(user, 'reviewer') && user.role !== 'auditor';
+}
+
 /**
  * Submit message for review (Staff role workflow)
  */
@@ -231,68 +466,131 @@ export async function submitMessageForReview(
       return { success: false, error: 'You can only submit your own drafts' };
     }
     
-    if (existingLog.actionType !== 'draft_generated' && existingLog.actionType !== 'draft_edited') {
-      return { success: false, error: 'Message has already been submitted or processed' };
+    if (!MESSAGE_ACTIONS.includes(existingLog.actionType)) {
+      return { success: false, error: 'Message draft not found' };
     }
+
+    assertMessageTransition(existingLog, 'in_review', user);
+
+    // A resubmission is compared with the revision the reviewer sent back, a first submission with the draft
+    const isResubmission = existingLog.workflowState === 'changes_requested';
+    const previousText = isResubmission ? existingLog.finalMessage : existingLog.generatedDraft;
     
     // Create edit history if message was modified
     let editHistory = existingLog.editHistory ? JSON.parse(existingLog.editHistory) : [];
-    if (request.finalMessage !== existingLog.generatedDraft) {
-      const editEntry = createEditEntry(existingLog.generatedDraft, request.finalMessage, user.id);
+    if (request.finalMessage !== previousText) {
+      const editEntry = createEditEntry(previousText, request.finalMessage, user.id);
       editHistory.push(JSON.parse(editEntry));
     }
     
+    const guardrails = await checkGuardrails(existingLog, request.finalMessage);
+    const translation = await refreshBackTranslation(existingLog, previousText, request.finalMessage, env);
+    const approvalPlan = await ApprovalService.planFor(existingLog, guardrails.matches.map(match => match.category));
+
     // Update audit log for submission
-    await drizzleDb
-      .update(auditLogs)
-      .set({
+    const updatedLog = await MessageStateService.transitionFrom(existingLog, {
+      to: 'in_review',
+      actor: { id: user.id, role: user.role },
+      changes: {
         finalMessage: request.finalMessage,
+        ...translation,
+        guardrailFindings: guardrails.matches.length > 0 ? JSON.stringify(guardrails.matches) : null,
+        medicationIssues: guardrails.medicationIssues.length > 0 ? JSON.stringify(guardrails.medicationIssues) : null,
+        approvalPlan: JSON.stringify(approvalPlan),
         actionType: 'submitted_for_review',
-        deliveryStatus: 'pending_review',
         contentHash: generateContentHash(request.finalMessage),
         editHistory: JSON.stringify(editHistory),
         ipAddress: clientInfo.ipAddress,
-        userAgent: clientInfo.userAgent,
-        updatedAt: new Date()
-      })
-      .where(eq(auditLogs.id, request.auditLogId));
-    
-    // Create message queue entry
-    await drizzleDb
-      .insert(messageQueue)
-      .values({
-        auditLogId: request.auditLogId,
-        recipientEmail: request.recipientEmail,
-        recipientPhone: request.recipientPhone,
-        messageContent: request.finalMessage,
-        deliveryMethod: request.deliveryMethod,
-        priority: request.priority || 'normal',
-        scheduledFor: request.scheduledFor,
-        status: 'pending_review'
-      });
+        userAgent: clientInfo.userAgent
+      }
+    });
     
-    // Get updated log for response
-    const [updatedLog] = await drizzleDb
-      .select()
-      .from(auditLogs)
-      .where(eq(auditLogs.id, request.auditLogId))
+    await MessageRevisionService.recordSubmission(request.auditLogId, request.finalMessage, user.id);
+    await ReviewAssignmentService.assign(updatedLog, parseAssignmentStrategy(env.REVIEW_ASSIGNMENT), {
+      preferredReviewerId: isResubmission ? existingLog.reviewerId : null,
+      step: approvalPlan.steps[0]
+    });
+
+    const queueValues = {
+      recipientEmail: request.recipientEmail,
+      recipientPhone: request.recipientPhone,
+      messageContent: request.finalMessage,
+      deliveryMethod: request.deliveryMethod,
+      priority: queuePriorityFor(request.priority, existingLog.urgencyLevel),
+      scheduledFor: request.scheduledFor,
+      status: 'pending_review'
+    };
+
+    // Create message queue entry; a resubmitted message keeps its entry
+    const [existingQueue] = await drizzleDb
+      .select({ id: messageQueue.id })
+      .from(messageQueue)
+      .where(eq(messageQueue.auditLogId, request.auditLogId))
       .limit(1);
+
+    if (existingQueue) {
+      await drizzleDb
+        .update(messageQueue)
+        .set({ ...queueValues, updatedAt: new Date() })
+        .where(eq(messageQueue.id, existingQueue.id));
+    } else {
+      await drizzleDb
+        .insert(messageQueue)
+        .values({ auditLogId: request.auditLogId, ...queueValues });
+    }
     
     return {
       success: true,
-      message: 'Message submitted for review successfully',
+      message: isResubmission ? 'Revised message resubmitted for review' : 'Message submitted for review successfully',
       auditLog: updatedLog,
       nextStep: 'pending_review'
     };
     
   } catch (error) {
     console.error('Error submitting message for review:', error);
-    return { success: false, error: 'Failed to submit message for review' };
+    return { success: false, error: workflowError(error, 'Failed to submit message for review') };
+  }
+}
+
+/**
+ * Resubmit a message the reviewer sent back, keeping its audit log entry and delivery details
+ */
+export async function resubmitMessage(
+  request: MessageResubmissionRequest,
+  user: User,
+  env: any,
+  requestInfo?: any
+): Promise<MessageWorkflowResponse> {
+  try {
+    await setupDb(env);
+
+    const [queueEntry] = await drizzleDb
+      .select()
+      .from(messageQueue)
+      .where(eq(messageQueue.auditLogId, request.auditLogId))
+      .limit(1);
+
+    if (!queueEntry) {
+      return { success: false, error: 'Message not found' };
+    }
+
+    return submitMessageForReview({
+      auditLogId: request.auditLogId,
+      finalMessage: request.finalMessage,
+      recipientEmail: queueEntry.recipientEmail ?? undefined,
+      recipientPhone: queueEntry.recipientPhone ?? undefined,
+      deliveryMethod: queueEntry.deliveryMethod as MessageFinalizationRequest['deliveryMethod'],
+      priority: queueEntry.priority as MessageFinalizationRequest['priority'],
+      scheduledFor: queueEntry.scheduledFor ?? undefined
+    }, user, env, requestInfo);
+  } catch (error) {
+    console.error('Error resubmitting message:', error);
+    return { success: false, error: 'Failed to resubmit message' };
   }
 }
 
 /**
- * Review and approve/reject message (Reviewer/Doctor/Admin workflow)
+ * Review a submitted message: approve, reject, or return it to its author with comments (Reviewer/Doctor/Admin workflow)
  */
 export async function reviewMessage(
   request: MessageReviewRequest,
@@ -321,9 +619,13 @@ export async function reviewMessage(
       return { success: false, error: 'Message not found' };
     }
     
-    if (existingLog.actionType !== 'submitted_for_review') {
-      return { success: false, error: 'Message is not in review status' };
-    }
+    const target: Record<MessageReviewRequest['action'], MessageState> = {
+      approve: 'approved',
+      reject: 'cancelled',
+      request_changes: 'changes_requested'
+    };
+    assertMessageTransition(existingLog, target[request.action], user);
+    await ReviewAssignmentService.assertNotClaimedByOther(request.auditLogId, user);
     
     // Get corresponding message queue entry
     const [queueEntry] = await drizzleDb
@@ -342,25 +644,85 @@ export async function reviewMessage(
     }
     
     if (request.action === 'approve') {
-      // Approve and queue for delivery
-      await drizzleDb
-        .update(auditLogs)
-        .set({
-          finalMessage,
+      const guardrails = await checkGuardrails(existingLog, finalMessage);
+      if (guardrails.requiresDoctorReview && !canSignOffDoctorReview(user)) {
+        return { success: false, error: 'This message matched a guardrail that requires doctor review' };
+      }
+      const problem = queueEntry && deliveryProblem(queueEntry.deliveryMethod, {
+        email: queueEntry.recipientEmail,
+        phone: queueEntry.recipientPhone
+      });
+      if (problem) {
+        return { success: false, error: problem };
+      }
+      const prepared = await ApprovalService.prepare(existingLog, user, {
+        message: finalMessage,
+        guardrailCategories: guardrails.matches.map(match => match.category),
+        notes: request.reviewNotes,
+        env
+      });
+      const { plan, remaining } = prepared;
+      const translation = await refreshBackTranslation(existingLog, existingLog.finalMessage, finalMessage, env);
+      const approvalChanges = {
+        finalMessage,
+        ...translation,
+        guardrailFindings: guardrails.matches.length > 0 ? JSON.stringify(guardrails.matches) : null,
+        medicationIssues: guardrails.medicationIssues.length > 0 ? JSON.stringify(guardrails.medicationIssues) : null,
+        approvalPlan: JSON.stringify(plan),
+        contentHash: generateContentHash(finalMessage),
+        editHistory: JSON.stringify(editHistory)
+      };
+
+      // Earlier steps keep the message in review and hand it to whoever can sign the next one
+      if (remaining.length > 0) {
+        const approval = await ApprovalService.record(prepared);
+        const [updatedLog] = await drizzleDb
+          .update(auditLogs)
+          .set({ ...approvalChanges, updatedAt: new Date() })
+          .where(eq(auditLogs.id, request.auditLogId))
+          .returning();
+
+        const signers = (await ApprovalService.getApprovals(existingLog, approval.revision)).map(signed => signed.approverId);
+        await ReviewAssignmentService.assign(updatedLog, parseAssignmentStrategy(env.REVIEW_ASSIGNMENT), {
+          step: remaining[0],
+          exclude: signers
+        });
+
+        return {
+          success: true,
+          message: `Approval recorded; waiting for ${describeStep(plan, approval.stepIndex + 1)}`,
+          auditLog: updatedLog,
+          nextStep: 'pending_review'
+        };
+      }
+
+      // Final step: approve and queue for delivery; the signature is stored once the message has moved
+      await MessageStateService.transitionFrom(existingLog, {
+        to: 'approved',
+        actor: { id: user.id, role: user.role },
+        reason: request.reviewNotes,
+        changes: {
+          ...approvalChanges,
           actionType: 'reviewed',
-          deliveryStatus: 'approved',
           reviewerId: user.id,
           reviewNotes: request.reviewNotes,
           reviewedAt: new Date(),
-          contentHash: generateContentHash(finalMessage),
-          editHistory: JSON.stringify(editHistory),
           ipAddress: clientInfo.ipAddress,
-          userAgent: clientInfo.userAgent,
-          updatedAt: new Date()
-        })
-        .where(eq(auditLogs.id, request.auditLogId));
+          userAgent: clientInfo.userAgent
+        }
+      });
+      await ApprovalService.record(prepared);
+
+      await MessageRevisionService.recordReview(request.auditLogId, {
+        reviewerId: user.id,
+        outcome: 'approved',
+        reviewNotes: request.reviewNotes
+      });
+      await ReviewAssignmentService.complete(request.auditLogId);
       
       // Update message queue
+      let undoUntil: Date | undefined;
+      let sendWindow: MessageSendWindow | undefined;
       if (queueEntry) {
         await drizzleDb
           .update(messageQueue)
@@ -373,12 +735,14 @@ export async function reviewMessage(
         
         // Queue message for async delivery
         const queueResult = await queueMessageForDelivery(queueEntry.id, user);
+        undoUntil = queueResult.undoUntil;
+        sendWindow = queueResult.sendWindow;
         if (!queueResult.success) {
+          // The message stays approved with its queue entry waiting; retryDelivery queues it again
           console.warn('[REVIEW_MESSAGE] Failed to queue for delivery:', queueResult.error);
-          // Continue anyway - the message is still approved and queued
-        } else {
-          console.log('[REVIEW_MESSAGE] Message successfully queued for async delivery:', queueEntry.id);
+          return { success: false, error: `Message approved but not queued for delivery: ${queueResult.error}` };
         }
+        console.log('[REVIEW_MESSAGE] Message successfully queued for async delivery:', queueEntry.id);
       }
       
       const [updatedLog] = await drizzleDb
@@ -389,27 +753,85 @@ export async function reviewMessage(
       
       return {
         success: true,
-        message: 'Message approved and queued for delivery',
+        message: sendWindow?.deferred
+          ? `Message approved; held for the patient's quiet hours until ${formatInTimeZone(sendWindow.sendAt, sendWindow.patientTimeZone)}`
+          : 'Message approved and queued for delivery',
         auditLog: updatedLog,
-        nextStep: 'queued_for_delivery'
+        nextStep: 'queued_for_delivery',
+        undoUntil,
+        sendWindow
       };
       
+    } else if (request.action === 'request_changes') {
+      // Comments point into the text as the author submitted it; reviewer edits are not kept
+      const comments = (request.comments || []).map(comment => ({ ...comment, comment: comment.comment?.trim() }));
+      const issues = validateReviewComments(comments, existingLog.finalMessage);
+      if (!request.reviewNotes?.trim() && comments.length === 0) {
+        issues.push('Add review notes or at least one comment so the author knows what to change');
+      }
+      if (issues.length > 0) {
+        return { success: false, error: issues.join('; ') };
+      }
+
+      await MessageStateService.transitionFrom(existingLog, {
+        to: 'changes_requested',
+        actor: { id: user.id, role: user.role },
+        reason: request.reviewNotes,
+        metadata: { commentCount: comments.length },
+        changes: {
+          actionType: 'changes_requested',
+          reviewerId: user.id,
+          reviewNotes: request.reviewNotes,
+          reviewedAt: new Date(),
+          ipAddress: clientInfo.ipAddress,
+          userAgent: clientInfo.userAgent
+        }
+      });
+
+      await MessageRevisionService.recordReview(request.auditLogId, {
+        reviewerId: user.id,
+        outcome: 'changes_requested',
+        reviewNotes: request.reviewNotes,
+        comments
+      });
+      await ReviewAssignmentService.complete(request.auditLogId);
+
+      const [updatedLog] = await drizzleDb
+        .select()
+        .from(auditLogs)
+        .where(eq(auditLogs.id, request.auditLogId))
+        .limit(1);
+
+      return {
+        success: true,
+        message: 'Changes requested; the message was returned to its author',
+        auditLog: updatedLog,
+        nextStep: 'changes_requested'
+      };
+
     } else {
       // Reject message
-      await drizzleDb
-        .update(auditLogs)
-        .set({
+      await MessageStateService.transitionFrom(existingLog, {
+        to: 'cancelled',
+        actor: { id: user.id, role: user.role },
+        reason: request.reviewNotes,
+        changes: {
           actionType: 'reviewed',
-          deliveryStatus: 'rejected',
           reviewerId: user.id,
           reviewNotes: request.reviewNotes,
           reviewedAt: new Date(),
           ipAddress: clientInfo.ipAddress,
-          userAgent: clientInfo.userAgent,
-          updatedAt: new Date()
-        })
-        .where(eq(auditLogs.id, request.auditLogId));
+          userAgent: clientInfo.userAgent
+        }
+      });
       
+      await MessageRevisionService.recordReview(request.auditLogId, {
+        reviewerId: user.id,
+        outcome: 'rejected',
+        reviewNotes: request.reviewNotes
+      });
+      await ReviewAssignmentService.complete(request.auditLogId);
+
       // Update message queue
       if (queueEntry) {
         await drizzleDb
@@ -429,7 +851,7 @@ export async function reviewMessage(
       
       return {
         success: true,
-        message: 'Message rejected and returned to staff',
+        message: 'Message rejected',
         auditLog: updatedLog,
         nextStep: 'sent' // Workflow ends here
       };
@@ -437,7 +859,7 @@ export async function reviewMessage(
     
   } catch (error) {
     console.error('Error reviewing message:', error);
-    return { success: false, error: 'Failed to review message' };
+    return { success: false, error: workflowError(error, 'Failed to review message') };
   }
 }
 
@@ -476,10 +898,43 @@ export async function sendMessageDirectly(
       return { success: false, error: 'Insufficient permissions' };
     }
     
-    if (!['draft_generated', 'draft_edited', 'submitted_for_review'].includes(existingLog.actionType)) {
-      return { success: false, error: 'Message has already been processed' };
+    if (!MESSAGE_ACTIONS.includes(existingLog.actionType)) {
+      return { success: false, error: 'Message draft not found' };
+    }
+
+    assertMessageTransition(existingLog, 'approved', user);
+    if (existingLog.workflowState === 'in_review') {
+      await ReviewAssignmentService.assertNotClaimedByOther(request.auditLogId, user);
     }
     
+    // Block-level matches force the review path; sending a message already in review is the review itself
+    const guardrails = await checkGuardrails(existingLog, request.finalMessage);
+    if (guardrails.requiresReview && existingLog.workflowState !== 'in_review') {
+      return {
+        success: false,
+        error: guardrails.medicationIssues.length > 0
+          ? `Medication check: ${guardrails.medicationIssues[0].message}. The message must be submitted for review before sending`
+          : 'This message matched a blocking guardrail and must be submitted for review before sending'
+      };
+    }
+
+    if (guardrails.requiresDoctorReview && !canSignOffDoctorReview(user)) {
+      return { success: false, error: 'This message matched a guardrail that requires doctor review' };
+    }
+
+    const problem = deliveryProblem(request.deliveryMethod, { email: request.recipientEmail, phone: request.recipientPhone });
+    if (problem) {
+      return { success: false, error: problem };
+    }
+    // Scheduled sends are held in the message queue until their time; there is nothing else to deliver them
+    const scheduled = !!request.scheduledFor && request.scheduledFor > new Date();
+    if (scheduled && !HELD_DELIVERY_METHODS.includes(request.deliveryMethod)) {
+      return { success: false, error: 'Only email and SMS messages can be scheduled' };
+    }
+    if (scheduled && !env.MESSAGE_QUEUE) {
+      return { success: false, error: 'Scheduled delivery is not available: the message queue is not configured' };
+    }
+
     // Create edit history if message was modified
     let editHistory = existingLog.editHistory ? JSON.parse(existingLog.editHistory) : [];
     if (request.finalMessage !== existingLog.generatedDraft) {
@@ -491,23 +946,52 @@ export async function sendMessageDirectly(
       editHistory.push(JSON.parse(editEntry));
     }
     
+    // Sending is the sender's approval, so it must be the last step the message needs; it is stored once the message is approved
+    const prepared = await ApprovalService.prepare(existingLog, user, {
+      message: request.finalMessage,
+      guardrailCategories: guardrails.matches.map(match => match.category),
+      mustComplete: true,
+      env
+    });
+
     // Update audit log for direct send
-    await drizzleDb
-      .update(auditLogs)
-      .set({
+    const approvedLog = await MessageStateService.transitionFrom(existingLog, {
+      to: 'approved',
+      actor: { id: user.id, role: user.role },
+      changes: {
         finalMessage: request.finalMessage,
+        guardrailFindings: guardrails.matches.length > 0 ? JSON.stringify(guardrails.matches) : null,
+        medicationIssues: guardrails.medicationIssues.length > 0 ? JSON.stringify(guardrails.medicationIssues) : null,
+        approvalPlan: JSON.stringify(prepared.plan),
         actionType: 'sent',
-        deliveryStatus: 'approved',
         reviewerId: user.id, // Reviewer who sent it
         reviewedAt: new Date(),
         contentHash: generateContentHash(request.finalMessage),
         editHistory: JSON.stringify(editHistory),
         ipAddress: clientInfo.ipAddress,
-        userAgent: clientInfo.userAgent,
-        updatedAt: new Date()
-      })
-      .where(eq(auditLogs.id, request.auditLogId));
-    
+        userAgent: clientInfo.userAgent
+      }
+    });
+    await ApprovalService.record(prepared);
+
+    if (existingLog.workflowState === 'in_review') {
+      await MessageRevisionService.recordReview(request.auditLogId, { reviewerId: user.id, outcome: 'approved' });
+      await ReviewAssignmentService.complete(request.auditLogId);
+    }
+
+    // Emergency and urgent inquiries raise the queue priority
+    const priority = queuePriorityFor(request.priority, existingLog.urgencyLevel);
+
+    // A scheduled time inside the patient's quiet hours moves to the end of them; immediate sends are checked when queued
+    const scheduledWindow = scheduled
+      ? await QuietHoursService.sendWindow(request.auditLogId, {
+          deliveryMethod: request.deliveryMethod,
+          priority,
+          requested: request.scheduledFor
+        }, env)
+      : undefined;
+    const scheduledFor = scheduledWindow?.sendAt ?? request.scheduledFor;
+
     // Check if message queue entry exists
     const [existingQueue] = await drizzleDb
       .select()
@@ -516,6 +1000,8 @@ export async function sendMessageDirectly(
       .limit(1);
     
     let queueEntryId: string;
+    // Only jobs carrying this id are delivered; an immediate send replaces it when it enqueues
+    const dispatchId = crypto.randomUUID();
     
     if (existingQueue) {
       await drizzleDb
@@ -525,9 +1011,10 @@ export async function sendMessageDirectly(
           recipientPhone: request.recipientPhone,
           messageContent: request.finalMessage,
           deliveryMethod: request.deliveryMethod,
-          priority: request.priority || 'normal',
-          scheduledFor: request.scheduledFor,
+          priority: priority,
+          scheduledFor,
           status: 'queued',
+          dispatchId,
           updatedAt: new Date()
         })
         .where(eq(messageQueue.id, existingQueue.id));
@@ -539,9 +1026,10 @@ export async function sendMessageDirectly(
         recipientPhone: request.recipientPhone,
         messageContent: request.finalMessage,
         deliveryMethod: request.deliveryMethod,
-        priority: request.priority || 'normal',
-        scheduledFor: request.scheduledFor,
-        status: 'queued'
+        priority: priority,
+        scheduledFor,
+        status: 'queued',
+        dispatchId
       };
       
       const [inserted] = await drizzleDb
@@ -553,59 +1041,69 @@ export async function sendMessageDirectly(
     }
     
     // Queue message for async delivery, handling scheduled delivery
-    if (request.scheduledFor && request.scheduledFor > new Date()) {
+    let undoUntil: Date | undefined;
+    let sendWindow = scheduledWindow;
+    if (scheduledWindow) {
+      undoUntil = scheduledWindow.sendAt;
       // For scheduled delivery, use "send later" functionality
       const { createQueueProducer } = await import('@/lib/queue-producer');
-      
-      if (env.MESSAGE_QUEUE) {
-        const queueProducer = createQueueProducer(env);
-        
-        if (request.deliveryMethod === 'email' && request.recipientEmail) {
-          await queueProducer.enqueueSendLater({
-            type: 'email_send',
-            messageId: queueEntryId,
-            recipient: request.recipientEmail,
-            subject: `Medical Communication - ${new Date().toLocaleDateString()}`,
-            content: request.finalMessage,
-            priority: (request.priority || 'normal') as 'high' | 'normal' | 'low',
-            metadata: {
-              auditLogId: request.auditLogId,
-              userId: user.id,
-              userRole: user.role,
-              scheduledSend: true
-            }
-          }, request.scheduledFor);
-        } else if (request.deliveryMethod === 'sms' && request.recipientPhone) {
-          await queueProducer.enqueueSendLater({
-            type: 'sms_send',
-            messageId: queueEntryId,
-            recipient: request.recipientPhone,
-            content: request.finalMessage,
-            priority: (request.priority || 'normal') as 'high' | 'normal' | 'low',
-            metadata: {
-              auditLogId: request.auditLogId,
-              userId: user.id,
-              userRole: user.role,
-              scheduledSend: true
-            }
-          }, request.scheduledFor);
+      const queueProducer = createQueueProducer(env);
+      const transition = {
+        to: 'scheduled' as const,
+        actor: { id: user.id, role: user.role },
+        messageQueueId: queueEntryId,
+        dispatchId,
+        metadata: {
+          messageQueueId: queueEntryId,
+          scheduledFor: scheduledWindow.sendAt,
+          ...(scheduledWindow.deferred && { requestedFor: request.scheduledFor, deferredBy: scheduledWindow.reason }),
+          ...(scheduledWindow.overridden && { quietHoursOverridden: scheduledWindow.reason })
         }
-        
-        console.log('[SEND_MESSAGE_DIRECTLY] Message scheduled for future delivery:', {
-          messageId: queueEntryId,
-          scheduledFor: request.scheduledFor,
-          deliveryMethod: request.deliveryMethod
-        });
+      };
+
+      const job = {
+        messageId: queueEntryId,
+        content: request.finalMessage,
+        priority: priority as 'high' | 'normal' | 'low',
+        dispatchId,
+        metadata: {
+          auditLogId: request.auditLogId,
+          userId: user.id,
+          userRole: user.role,
+          scheduledSend: true
+        }
+      };
+
+      try {
+        await dispatchDelivery(approvedLog, transition, () => queueProducer.enqueueSendLater(
+          request.deliveryMethod === 'email'
+            ? { ...job, type: 'email_send', recipient: request.recipientEmail!, subject: `Medical Communication - ${new Date().toLocaleDateString()}` }
+            : { ...job, type: 'sms_send', recipient: request.recipientPhone! },
+          scheduledWindow.sendAt
+        ));
+      } catch (error) {
+        // The message stays approved with its queue entry waiting; retryDelivery queues it again
+        console.warn('[SEND_MESSAGE_DIRECTLY] Failed to schedule delivery:', error);
+        return { success: false, error: `Message approved but not scheduled for delivery: ${error instanceof Error ? error.message : 'Unknown error'}` };
       }
+      
+      console.log('[SEND_MESSAGE_DIRECTLY] Message scheduled for future delivery:', {
+        messageId: queueEntryId,
+        scheduledFor: scheduledWindow.sendAt,
+        deferredBy: scheduledWindow.deferred ? scheduledWindow.reason : undefined,
+        deliveryMethod: request.deliveryMethod
+      });
     } else {
       // Queue for immediate delivery
       const queueResult = await queueMessageForDelivery(queueEntryId, user, env);
+      undoUntil = queueResult.undoUntil;
+      sendWindow = queueResult.sendWindow;
       if (!queueResult.success) {
+        // The message stays approved with its queue entry waiting; retryDelivery queues it again
         console.warn('[SEND_MESSAGE_DIRECTLY] Failed to queue for delivery:', queueResult.error);
-        // Continue anyway - the message is still approved and queued
-      } else {
-        console.log('[SEND_MESSAGE_DIRECTLY] Message successfully queued for immediate delivery:', queueEntryId);
+        return { success: false, error: `Message approved but not queued for delivery: ${queueResult.error}` };
       }
+      console.log('[SEND_MESSAGE_DIRECTLY] Message successfully queued for immediate delivery:', queueEntryId);
     }
     
     const [updatedLog] = await drizzleDb
@@ -616,34 +1114,207 @@ export async function sendMessageDirectly(
     
     return {
       success: true,
-      message: request.scheduledFor && request.scheduledFor > new Date() 
-        ? `Message scheduled for delivery at ${request.scheduledFor.toLocaleString()}`
-        : 'Message sent and queued for delivery',
+      message: sendWindow?.deferred
+        ? `Message held for the patient's quiet hours; it will be delivered at ${formatInTimeZone(sendWindow.sendAt, sendWindow.patientTimeZone)}`
+        : scheduledWindow
+          ? `Message scheduled for delivery at ${formatInTimeZone(scheduledWindow.sendAt, scheduledWindow.patientTimeZone)}`
+          : 'Message sent and queued for delivery',
       auditLog: updatedLog,
-      nextStep: 'queued_for_delivery'
+      nextStep: 'queued_for_delivery',
+      undoUntil,
+      sendWindow
     };
     
   } catch (error) {
     console.error('Error sending message directly:', error);
-    return { success: false, error: 'Failed to send message' };
+    return { success: false, error: workflowError(error, 'Failed to send message') };
   }
 }
 
 /**
- * Get messages pending review for reviewers
+ * Pull an approved or scheduled message back to draft before the delivery processor picks it up
+ * Queued jobs cannot be deleted, so the queue entry is marked recalled and the processor drops them; recalling twice is harmless.
+ * Approvals given so far stop counting, so the edited message must be approved again before it is sent.
  */
-export async function getPendingReviewMessages(
+export async function recallMessage(
+  auditLogId: string,
   user: User,
-  env: any
-): Promise<{ success: boolean; messages?: any[]; error?: string }> {
+  env: any,
+  reason?: string
+): Promise<MessageWorkflowResponse> {
   try {
     await setupDb(env);
-    
-    if (!hasRole(user, 'reviewer')) {
-      return { success: false, error: 'Insufficient permissions' };
-    }
-    
-    const pendingMessages = await drizzleDb
+
+    const [log] = await drizzleDb
+      .select()
+      .from(auditLogs)
+      .where(eq(auditLogs.id, auditLogId))
+      .limit(1);
+
+    if (!log || !MESSAGE_ACTIONS.includes(log.actionType)) {
+      return { success: false, error: 'Message not found' };
+    }
+
+    // Authors can take back their own messages, reviewers anyone's
+    if (log.userId !== user.id && !canReviewMessages(user)) {
+      return { success: false, error: 'Insufficient permissions' };
+    }
+
+    const [queueEntry] = await drizzleDb
+      .select()
+      .from(messageQueue)
+      .where(eq(messageQueue.auditLogId, auditLogId))
+      .limit(1);
+
+    if (queueEntry?.status === 'recalled' && log.workflowState === 'draft') {
+      return { success: true, message: 'Message was already recalled', auditLog: log };
+    }
+
+    const problem = recallProblem(log.workflowState, queueEntry?.status);
+    if (problem || !queueEntry) {
+      return { success: false, error: problem || 'Message not found' };
+    }
+    assertMessageTransition(log, 'draft', user);
+
+    // Fails if the processor claimed the entry since it was read
+    const [recalled] = await drizzleDb
+      .update(messageQueue)
+      .set({ status: 'recalled', dispatchId: null, updatedAt: new Date() })
+      .where(and(eq(messageQueue.id, queueEntry.id), eq(messageQueue.status, 'queued')))
+      .returning({ id: messageQueue.id });
+
+    if (!recalled) {
+      return { success: false, error: 'The message is already being delivered and can no longer be recalled' };
+    }
+
+    let updatedLog: AuditLog;
+    try {
+      updatedLog = await MessageStateService.transitionFrom(log, {
+        to: 'draft',
+        actor: { id: user.id, role: user.role },
+        reason,
+        metadata: {
+          event: 'recalled',
+          messageQueueId: queueEntry.id,
+          recalledBy: user.id,
+          recalledByName: user.username,
+          deliveryMethod: queueEntry.deliveryMethod
+        },
+        changes: { actionType: 'recalled', approvalRound: log.approvalRound + 1 }
+      });
+    } catch (error) {
+      // Leave the entry as it was for whoever moved the message first
+      await drizzleDb
+        .update(messageQueue)
+        .set({ status: queueEntry.status, dispatchId: queueEntry.dispatchId, updatedAt: new Date() })
+        .where(and(eq(messageQueue.id, queueEntry.id), eq(messageQueue.status, 'recalled')));
+      throw error;
+    }
+
+    // No longer on its way to the patient
+    await ConversationService.withdrawOutbound(auditLogId);
+    await DraftExampleService.withdrawRecalledMessage(auditLogId, user.id);
+
+    console.log('[RECALL_MESSAGE] Message recalled to draft:', {
+      auditLogId,
+      messageQueueId: queueEntry.id,
+      fromState: log.workflowState,
+      recalledBy: user.id
+    });
+
+    return { success: true, message: 'Message recalled to draft', auditLog: updatedLog };
+  } catch (error) {
+    console.error('Error recalling message:', error);
+    return { success: false, error: workflowError(error, 'Failed to recall message') };
+  }
+}
+
+/**
+ * Queue an approved message again after its delivery job could not be enqueued
+ * Approval and sending leave such a message approved with its queue entry waiting and no dispatch.
+ */
+export async function retryDelivery(
+  auditLogId: string,
+  user: User,
+  env: any
+): Promise<MessageWorkflowResponse> {
+  try {
+    await setupDb(env);
+
+    if (!canReviewMessages(user)) {
+      return { success: false, error: 'Insufficient permissions to queue messages for delivery' };
+    }
+
+    const [log] = await drizzleDb
+      .select()
+      .from(auditLogs)
+      .where(eq(auditLogs.id, auditLogId))
+      .limit(1);
+
+    if (!log || !MESSAGE_ACTIONS.includes(log.actionType)) {
+      return { success: false, error: 'Message not found' };
+    }
+    if (log.workflowState !== 'approved') {
+      return { success: false, error: 'Only approved messages waiting for delivery can be queued again' };
+    }
+
+    const [queueEntry] = await drizzleDb
+      .select()
+      .from(messageQueue)
+      .where(eq(messageQueue.auditLogId, auditLogId))
+      .limit(1);
+
+    if (!queueEntry || queueEntry.status !== 'queued') {
+      return { success: false, error: 'The message has no delivery waiting to be queued' };
+    }
+
+    const queueResult = await queueMessageForDelivery(queueEntry.id, user, env);
+    if (!queueResult.success) {
+      return { success: false, error: `Message not queued for delivery: ${queueResult.error}` };
+    }
+
+    const [updatedLog] = await drizzleDb
+      .select()
+      .from(auditLogs)
+      .where(eq(auditLogs.id, auditLogId))
+      .limit(1);
+
+    console.log('[RETRY_DELIVERY] Message queued for delivery again:', { auditLogId, messageQueueId: queueEntry.id, userId: user.id });
+
+    return {
+      success: true,
+      message: 'Message queued for delivery',
+      auditLog: updatedLog,
+      nextStep: 'queued_for_delivery',
+      undoUntil: queueResult.undoUntil,
+      sendWindow: queueResult.sendWindow
+    };
+  } catch (error) {
+    console.error('Error retrying delivery:', error);
+    return { success: false, error: workflowError(error, 'Failed to queue message for delivery') };
+  }
+}
+
+/**
+ * Get messages pending review for reviewers
+ */
+export async function getPendingReviewMessages(
+  user: User,
+  env: any
+): Promise<{ success: boolean; messages?: any[]; error?: string }> {
+  try {
+    await setupDb(env);
+    
+    if (!hasRole(user, 'reviewer')) {
+      return { success: false, error: 'Insufficient permissions' };
+    }
+    
+    const authors = alias(users, 'authors');
+    const assignees = alias(users, 'assignees');
+    const claimants = alias(users, 'claimants');
+    const escalationTargets = alias(users, 'escalation_targets');
+
+    const rows = await drizzleDb
       .select({
         id: auditLogs.id,
         userId: auditLogs.userId,
@@ -652,19 +1323,62 @@ export async function getPendingReviewMessages(
         requestText: auditLogs.requestText,
         generatedDraft: auditLogs.generatedDraft,
         finalMessage: auditLogs.finalMessage,
+        draftLanguage: auditLogs.draftLanguage,
+        backTranslation: auditLogs.backTranslation,
+        draftGrounding: auditLogs.draftGrounding,
+        // Brief fields the grounding cites, so reviewers can see each snippet in context
+        medicalHistory: patientBriefs.medicalHistory,
+        currentMedications: patientBriefs.currentMedications,
+        allergies: patientBriefs.allergies,
+        doctorNotes: patientBriefs.doctorNotes,
         actionType: auditLogs.actionType,
         deliveryStatus: auditLogs.deliveryStatus,
+        workflowState: auditLogs.workflowState,
+        user: { username: authors.username, role: authors.role },
+        messageQueue: {
+          deliveryMethod: messageQueue.deliveryMethod,
+          priority: messageQueue.priority,
+          recipientEmail: messageQueue.recipientEmail
+        },
+        revision: sql<number>`(SELECT MAX(${messageRevisions.revision}) FROM ${messageRevisions} WHERE ${messageRevisions.auditLogId} = ${auditLogs.id})`,
+        urgencyLevel: auditLogs.urgencyLevel,
+        // Approval plan and the steps of the current revision signed so far
+        approvalPlan: auditLogs.approvalPlan,
+        approvalsSigned: sql<number>`(SELECT COUNT(*) FROM ${messageApprovals} WHERE ${messageApprovals.auditLogId} = ${auditLogs.id} AND ${messageApprovals.round} = ${auditLogs.approvalRound} AND ${messageApprovals.revision} = (SELECT MAX(${messageRevisions.revision}) FROM ${messageRevisions} WHERE ${messageRevisions.auditLogId} = ${auditLogs.id}))`,
+        // Assignment, SLA and claim
+        assigneeId: reviewAssignments.assigneeId,
+        assigneeName: assignees.username,
+        assignedVia: reviewAssignments.assignedVia,
+        dueAt: reviewAssignments.dueAt,
+        escalateToId: reviewAssignments.escalateToId,
+        escalateToName: escalationTargets.username,
+        escalationLevel: reviewAssignments.escalationLevel,
+        claimedBy: reviewAssignments.claimedBy,
+        claimantName: claimants.username,
+        claimExpiresAt: reviewAssignments.claimExpiresAt,
         createdAt: auditLogs.createdAt,
         updatedAt: auditLogs.updatedAt,
       })
       .from(auditLogs)
-      .where(
-        and(
-          eq(auditLogs.actionType, 'submitted_for_review'),
-          eq(auditLogs.deliveryStatus, 'pending_review')
-        )
-      )
-      .orderBy(auditLogs.createdAt); // FIFO queue
+      .leftJoin(patientBriefs, eq(auditLogs.patientId, patientBriefs.id))
+      .leftJoin(authors, eq(auditLogs.userId, authors.id))
+      .leftJoin(messageQueue, eq(messageQueue.auditLogId, auditLogs.id))
+      .leftJoin(reviewAssignments, eq(reviewAssignments.auditLogId, auditLogs.id))
+      .leftJoin(assignees, eq(reviewAssignments.assigneeId, assignees.id))
+      .leftJoin(claimants, eq(reviewAssignments.claimedBy, claimants.id))
+      .leftJoin(escalationTargets, eq(reviewAssignments.escalateToId, escalationTargets.id))
+      .where(eq(auditLogs.workflowState, 'in_review'))
+      // Closest SLA deadline first; messages not yet assigned keep FIFO order at the end
+      .orderBy(sql`${reviewAssignments.dueAt} IS NULL`, reviewAssignments.dueAt, auditLogs.createdAt);
+
+    // Expired claims are left in place until someone claims again; they no longer hold the message
+    const now = new Date();
+    const pendingMessages = rows.map(row => isClaimActive(row, now) ? row : {
+      ...row,
+      claimedBy: null,
+      claimantName: null,
+      claimExpiresAt: null
+    });
     
     return {
       success: true,
@@ -677,6 +1391,382 @@ export async function getPendingReviewMessages(
   }
 }
 
+/**
+ * Claim a message in review so other reviewers leave it alone until the claim expires
+ */
+export async function claimReview(
+  auditLogId: string,
+  user: User,
+  env: any
+): Promise<{ success: boolean; assignment?: ReviewAssignment; error?: string }> {
+  try {
+    await setupDb(env);
+
+    if (!canReviewMessages(user)) {
+      return { success: false, error: 'Insufficient permissions' };
+    }
+
+    const [log] = await drizzleDb
+      .select()
+      .from(auditLogs)
+      .where(eq(auditLogs.id, auditLogId))
+      .limit(1);
+
+    if (!log || log.workflowState !== 'in_review') {
+      return { success: false, error: 'Message is not waiting for review' };
+    }
+
+    // Messages submitted before assignment existed, or whose assignment failed, are assigned first
+    const existing = await ReviewAssignmentService.get(auditLogId);
+    if (!existing || existing.completedAt) {
+      await ReviewAssignmentService.assign(log, parseAssignmentStrategy(env.REVIEW_ASSIGNMENT));
+    }
+
+    return { success: true, assignment: await ReviewAssignmentService.claim(auditLogId, user) };
+  } catch (error) {
+    console.error('Error claiming message for review:', error);
+    return { success: false, error: workflowError(error, 'Failed to claim message') };
+  }
+}
+
+/**
+ * Release the current user's claim on a message
+ */
+export async function releaseReview(
+  auditLogId: string,
+  user: User,
+  env: any
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await setupDb(env);
+
+    if (!await ReviewAssignmentService.release(auditLogId, user)) {
+      return { success: false, error: 'You do not hold a claim on this message' };
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('Error releasing review claim:', error);
+    return { success: false, error: 'Failed to release claim' };
+  }
+}
+
+/**
+ * Hand a message in review to another reviewer; recorded as a state event on the message
+ */
+export async function reassignReview(
+  auditLogId: string,
+  assigneeId: string,
+  user: User,
+  env: any,
+  reason?: string
+): Promise<{ success: boolean; assignment?: ReviewAssignment; message?: string; error?: string }> {
+  try {
+    await setupDb(env);
+
+    if (!canReviewMessages(user)) {
+      return { success: false, error: 'Insufficient permissions' };
+    }
+
+    const [log] = await drizzleDb
+      .select()
+      .from(auditLogs)
+      .where(eq(auditLogs.id, auditLogId))
+      .limit(1);
+
+    if (!log || log.workflowState !== 'in_review') {
+      return { success: false, error: 'Message is not waiting for review' };
+    }
+
+    await ReviewAssignmentService.assertNotClaimedByOther(auditLogId, user);
+    const previous = await ReviewAssignmentService.get(auditLogId);
+
+    // Whoever signed an earlier approval step cannot take the next one
+    const signers = (await ApprovalService.getApprovals(log, await MessageRevisionService.currentRevision(auditLogId)))
+      .map(approval => approval.approverId);
+    const assignment = await ReviewAssignmentService.reassign(log, assigneeId, { exclude: signers });
+    if (!assignment) {
+      return { success: false, error: 'That user cannot review this message' };
+    }
+
+    await MessageStateService.recordEvent(log, {
+      actor: { id: user.id, role: user.role },
+      reason,
+      metadata: { event: 'reassigned', fromAssigneeId: previous?.assigneeId ?? null, toAssigneeId: assigneeId }
+    });
+
+    return { success: true, assignment, message: 'Message reassigned' };
+  } catch (error) {
+    console.error('Error reassigning review:', error);
+    return { success: false, error: workflowError(error, 'Failed to reassign message') };
+  }
+}
+
+/**
+ * Users a message in review can be reassigned to
+ */
+export async function getReviewers(
+  user: User,
+  env: any
+): Promise<{ success: boolean; reviewers?: { id: string; username: string; role: string }[]; error?: string }> {
+  try {
+    await setupDb(env);
+
+    if (!canReviewMessages(user)) {
+      return { success: false, error: 'Insufficient permissions' };
+    }
+
+    return { success: true, reviewers: await ReviewAssignmentService.listReviewers() };
+  } catch (error) {
+    console.error('Error fetching reviewers:', error);
+    return { success: false, error: 'Failed to fetch reviewers' };
+  }
+}
+
+/**
+ * Approve, reject or reassign several messages at once
+ * Each message goes through the same checks as a single review and gets its own state event;
+ * one message failing does not stop the rest.
+ */
+export async function bulkReviewMessages(
+  request: BulkReviewRequest,
+  user: User,
+  env: any,
+  requestInfo?: any
+): Promise<{ success: boolean; results?: BulkReviewItemResult[]; summary?: string; error?: string }> {
+  try {
+    const issues = validateBulkReviewRequest(request);
+    if (issues.length > 0) {
+      return { success: false, error: issues.join('; ') };
+    }
+
+    if (!canReviewMessages(user)) {
+      return { success: false, error: 'Insufficient permissions to review messages' };
+    }
+
+    // One at a time, so approvals, assignments and queue jobs never race each other within a batch
+    const results: BulkReviewItemResult[] = [];
+    for (const auditLogId of uniqueIds(request.auditLogIds)) {
+      const result = request.action === 'reassign'
+        ? await reassignReview(auditLogId, request.assigneeId!, user, env, request.reviewNotes)
+        : await reviewMessage({ auditLogId, action: request.action, reviewNotes: request.reviewNotes }, user, env, requestInfo);
+
+      results.push({
+        auditLogId,
+        success: result.success,
+        message: result.message,
+        error: result.error,
+        nextStep: 'nextStep' in result ? result.nextStep : undefined
+      });
+    }
+
+    const summary = summarizeBulkResults(request.action, results);
+    console.log('[BULK_REVIEW] Processed', { action: request.action, userId: user.id, summary });
+
+    return { success: true, results, summary };
+  } catch (error) {
+    console.error('Error processing bulk review:', error);
+    return { success: false, error: 'Failed to process bulk review' };
+  }
+}
+
+/**
+ * Workflow state events for a message, oldest first (the author, reviewers and auditors)
+ */
+export async function getMessageStateHistory(
+  auditLogId: string,
+  user: User,
+  env: any
+): Promise<{ success: boolean; workflowState?: string; events?: MessageStateEvent[]; error?: string }> {
+  try {
+    await setupDb(env);
+
+    const [log] = await drizzleDb
+      .select({ userId: auditLogs.userId, workflowState: auditLogs.workflowState })
+      .from(auditLogs)
+      .where(eq(auditLogs.id, auditLogId))
+      .limit(1);
+
+    if (!log) {
+      return { success: false, error: 'Message not found' };
+    }
+
+    if (log.userId !== user.id && !hasRole(user, 'reviewer')) {
+      return { success: false, error: 'Insufficient permissions' };
+    }
+
+    return {
+      success: true,
+      workflowState: log.workflowState,
+      events: await MessageStateService.getHistory(auditLogId)
+    };
+  } catch (error) {
+    console.error('Error fetching message state history:', error);
+    return { success: false, error: 'Failed to fetch message history' };
+  }
+}
+
+/**
+ * Every submitted revision of a message with the reviewer's decision and comments (the author, reviewers and auditors)
+ */
+export async function getMessageRevisions(
+  auditLogId: string,
+  user: User,
+  env: any
+): Promise<{ success: boolean; revisions?: MessageRevisionView[]; error?: string }> {
+  try {
+    await setupDb(env);
+
+    const [log] = await drizzleDb
+      .select({ userId: auditLogs.userId })
+      .from(auditLogs)
+      .where(eq(auditLogs.id, auditLogId))
+      .limit(1);
+
+    if (!log) {
+      return { success: false, error: 'Message not found' };
+    }
+
+    if (log.userId !== user.id && !hasRole(user, 'reviewer')) {
+      return { success: false, error: 'Insufficient permissions' };
+    }
+
+    return { success: true, revisions: await MessageRevisionService.getRevisions(auditLogId) };
+  } catch (error) {
+    console.error('Error fetching message revisions:', error);
+    return { success: false, error: 'Failed to fetch message revisions' };
+  }
+}
+
+/**
+ * The approval plan of a message and the signed steps of its current revision, for its author and reviewers
+ */
+export async function getMessageApprovals(
+  auditLogId: string,
+  user: User,
+  env: any
+): Promise<{ success: boolean; approvals?: ApprovalStatus; error?: string }> {
+  try {
+    await setupDb(env);
+
+    const [log] = await drizzleDb
+      .select()
+      .from(auditLogs)
+      .where(eq(auditLogs.id, auditLogId))
+      .limit(1);
+
+    if (!log) {
+      return { success: false, error: 'Message not found' };
+    }
+
+    if (log.userId !== user.id && !hasRole(user, 'reviewer')) {
+      return { success: false, error: 'Insufficient permissions' };
+    }
+
+    return { success: true, approvals: await ApprovalService.getStatus(log, env) };
+  } catch (error) {
+    console.error('Error fetching message approvals:', error);
+    return { success: false, error: 'Failed to fetch message approvals' };
+  }
+}
+
+/**
+ * When a message would go out if sent now or at `sendAt`, after the patient's quiet hours and contact hours
+ */
+export async function getSendWindow(
+  auditLogId: string,
+  options: { deliveryMethod: string; priority?: MessageFinalizationRequest['priority']; sendAt?: Date },
+  user: User,
+  env: any
+): Promise<{ success: boolean; sendWindow?: MessageSendWindow; error?: string }> {
+  try {
+    await setupDb(env);
+
+    const [log] = await drizzleDb
+      .select()
+      .from(auditLogs)
+      .where(eq(auditLogs.id, auditLogId))
+      .limit(1);
+
+    if (!log) {
+      return { success: false, error: 'Message not found' };
+    }
+
+    if (log.userId !== user.id && !hasRole(user, 'reviewer')) {
+      return { success: false, error: 'Insufficient permissions' };
+    }
+
+    const now = new Date();
+    const sendWindow = await QuietHoursService.sendWindow(auditLogId, {
+      deliveryMethod: options.deliveryMethod,
+      priority: queuePriorityFor(options.priority, log.urgencyLevel),
+      requested: options.sendAt && options.sendAt > now ? options.sendAt : now
+    }, env);
+
+    return { success: true, sendWindow };
+  } catch (error) {
+    console.error('Error fetching send window:', error);
+    return { success: false, error: 'Failed to fetch send window' };
+  }
+}
+
+/**
+ * The current user's messages that a reviewer returned for changes
+ */
+export async function getReturnedMessages(
+  user: User,
+  env: any
+): Promise<{ success: boolean; messages?: ReturnedMessage[]; error?: string }> {
+  try {
+    await setupDb(env);
+    return { success: true, messages: await MessageRevisionService.getReturnedMessages(user.id) };
+  } catch (error) {
+    console.error('Error fetching returned messages:', error);
+    return { success: false, error: 'Failed to fetch returned messages' };
+  }
+}
+
+/**
+ * Back-translate a reviewer's edits before they approve; nothing is stored until the review is submitted
+ */
+export async function backTranslateMessage(
+  request: BackTranslationRequest,
+  user: User,
+  env: any
+): Promise<{ success: boolean; backTranslation?: string; error?: string }> {
+  try {
+    await setupDb(env);
+
+    if (!hasRole(user, 'reviewer')) {
+      return { success: false, error: 'Insufficient permissions' };
+    }
+
+    const [existingLog] = await drizzleDb
+      .select()
+      .from(auditLogs)
+      .where(eq(auditLogs.id, request.auditLogId))
+      .limit(1);
+
+    if (!existingLog) {
+      return { success: false, error: 'Message not found' };
+    }
+
+    const language = normalizeLanguage(existingLog.draftLanguage);
+    if (language === 'en') {
+      return { success: false, error: 'Message is already in English' };
+    }
+
+    const result = await TranslationService.backTranslate(request.text, language, env, [existingLog.patientName]);
+    if (!result) {
+      return { success: false, error: 'Back-translation is unavailable right now' };
+    }
+
+    return { success: true, backTranslation: result.translation };
+  } catch (error) {
+    console.error('Error back-translating message:', error);
+    return { success: false, error: 'Failed to back-translate message' };
+  }
+}
+
 /**
  * Update delivery status (for webhook callbacks)
  */
@@ -691,8 +1781,7 @@ export async function updateDeliveryStatus(
     if (env) await setupDb(env);
     
     const updateData: any = {
-      deliveryStatus: status,
-      updatedAt: new Date()
+      deliveryStatus: status
     };
     
     if (status === 'delivered') {
@@ -704,11 +1793,14 @@ export async function updateDeliveryStatus(
       updateData.lastRetryAt = new Date();
     }
     
-    // Update audit log
-    await drizzleDb
-      .update(auditLogs)
-      .set(updateData)
-      .where(eq(auditLogs.id, auditLogId));
+    // Update audit log; rejected if the message was never handed to the provider
+    await MessageStateService.transition({
+      auditLogId,
+      to: status,
+      actor: SYSTEM_ACTOR,
+      reason: failureReason,
+      changes: updateData
+    });
     
     // Get message queue entry
     const [queueEntry] = await drizzleDb
@@ -768,6 +1860,6 @@ export async function updateDeliveryStatus(
     
   } catch (error) {
     console.error('Error updating delivery status:', error);
-    return { success: false, error: 'Failed to update delivery status' };
+    return { success: false, error: workflowError(error, 'Failed to update delivery status') };
   }
 }
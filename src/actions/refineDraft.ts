@@ -0,0 +1,208 @@
+import { setupDb, drizzleDb, auditLogs, patientBriefs, users } from '@/db';
+import { and, eq, sql } from 'drizzle-orm';
+import * as Sentry from '@sentry/cloudflare';
+import { createLLMProviderManager } from '@/providers/llm';
+import { PhiSession } from '@/lib/phi-deidentification';
+import { getModelForRole } from '@/actions/generateDraft';
+import { BudgetService } from '@/lib/services/budgetService';
+import { UsageTrackingService } from '@/lib/services/usageTrackingService';
+import { estimateRequestTokens } from '@/lib/budgets';
+import { normalizeLanguage } from '@/lib/languages';
+import {
+  buildRefinementInput,
+  buildRefinementPrompt,
+  cleanRefinedParagraph,
+  createRefinementStep,
+  replaceParagraph,
+  splitParagraphs,
+  validateRefinementInstruction,
+  type RefinementStep
+} from '@/lib/refinement';
+
+export interface ParagraphRefinementRequest {
+  auditLogId: string; // Draft entry returned when the draft was generated or a quick reply used
+  userId: string;
+  draft: string; // Draft as currently shown, including any manual edits
+  paragraphIndex: number;
+  instruction: string;
+}
+
+export interface ParagraphRefinementResponse {
+  success: boolean;
+  draft?: string;
+  paragraph?: string;
+  step?: RefinementStep;
+  budgetWarnings?: string[];
+  error?: string;
+}
+
+// Entries still being drafted in the panel; later states have their own edit tracking
+const REFINABLE_ACTIONS = ['draft_generated', 'quick_reply_drafted'];
+
+// Concurrent refinements of one draft re-read its history this many times before giving up
+const MAX_APPEND_ATTEMPTS = 5;
+
+/**
+ * Append a step to the draft entry's editHistory, only over the history it was read with
+ */
+async function appendRefinementStep(auditLogId: string, step: RefinementStep): Promise<void> {
+  for (let attempt = 0; attempt < MAX_APPEND_ATTEMPTS; attempt++) {
+    const [log] = await drizzleDb
+      .select({ editHistory: auditLogs.editHistory })
+      .from(auditLogs)
+      .where(eq(auditLogs.id, auditLogId))
+      .limit(1);
+
+    const editHistory = log?.editHistory ? JSON.parse(log.editHistory) : [];
+    editHistory.push(step);
+
+    const [appended] = await drizzleDb
+      .update(auditLogs)
+      .set({ editHistory: JSON.stringify(editHistory), updatedAt: new Date() })
+      .where(and(eq(auditLogs.id, auditLogId), sql`${auditLogs.editHistory} IS ${log?.editHistory ?? null}`))
+      .returning({ id: auditLogs.id });
+
+    if (appended) return;
+  }
+
+  throw new Error(`Could not record the refinement on draft ${auditLogId}`);
+}
+
+/**
+ * Rewrite one paragraph of a draft by instruction, leaving the rest of the text as it is
+ * Each refinement is appended to the draft entry's editHistory and billed on its own draft_refined entry,
+ * so its usage counts on the day it was made.
+ */
+export async function refineDraftParagraphAction(
+  request: ParagraphRefinementRequest,
+  env: any
+): Promise<ParagraphRefinementResponse> {
+  try {
+    await setupDb(env);
+
+    const issues = validateRefinementInstruction(request.instruction);
+    if (issues.length > 0) {
+      return { success: false, error: issues.join('; ') };
+    }
+
+    const paragraphs = splitParagraphs(request.draft || '');
+    const target = paragraphs[request.paragraphIndex];
+    if (!target) {
+      return { success: false, error: 'Paragraph not found in the draft' };
+    }
+
+    const [draftLog] = await drizzleDb
+      .select()
+      .from(auditLogs)
+      .where(eq(auditLogs.id, request.auditLogId))
+      .limit(1);
+
+    if (!draftLog || !REFINABLE_ACTIONS.includes(draftLog.actionType)) {
+      return { success: false, error: 'Draft not found' };
+    }
+
+    if (draftLog.userId !== request.userId) {
+      return { success: false, error: 'Only the staff member who created the draft can refine it' };
+    }
+
+    const [user] = await drizzleDb
+      .select()
+      .from(users)
+      .where(eq(users.id, request.userId))
+      .limit(1);
+
+    if (!user) {
+      return { success: false, error: 'User not found' };
+    }
+
+    const [patientBrief] = draftLog.patientId
+      ? await drizzleDb
+        .select({ patientName: patientBriefs.patientName, doctorId: patientBriefs.doctorId })
+        .from(patientBriefs)
+        .where(eq(patientBriefs.id, draftLog.patientId))
+        .limit(1)
+      : [];
+
+    const language = normalizeLanguage(draftLog.draftLanguage);
+    const model = getModelForRole(user.role, env);
+    const phi = new PhiSession([draftLog.patientName]);
+    const systemPrompt = buildRefinementPrompt(language);
+    const input = phi.mask(buildRefinementInput(request.instruction, target.text, request.draft));
+    // A paragraph rarely needs more than its own length again
+    const maxTokens = Math.min(Math.ceil(target.text.length / 2) + 100, 500);
+
+    // A refinement is part of the draft's request, so only its tokens count against the budgets
+    const estimatedTokens = estimateRequestTokens(systemPrompt.length + input.length, maxTokens, 1);
+    const budgetCheck = await BudgetService.checkBudgets(
+      { userId: user.id, role: user.role, doctorId: patientBrief?.doctorId ?? null },
+      { requests: 0, tokens: estimatedTokens, cost: UsageTrackingService.calculateCost(model, estimatedTokens) },
+      env
+    );
+
+    if (!budgetCheck.allowed) {
+      return { success: false, error: budgetCheck.error, budgetWarnings: budgetCheck.warnings };
+    }
+
+    const completion = await createLLMProviderManager(env).complete({
+      model,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: input }
+      ],
+      maxTokens,
+      temperature: 0.3,
+      metadata: {
+        patientId: draftLog.patientId || '',
+        userId: user.id,
+        purpose: 'paragraph_refinement',
+        timestamp: new Date().toISOString()
+      }
+    });
+
+    const paragraph = cleanRefinedParagraph(phi.reidentify(completion.content || ''));
+    if (!paragraph) {
+      return { success: false, error: 'The AI did not return a revised paragraph' };
+    }
+
+    const draft = replaceParagraph(request.draft, request.paragraphIndex, paragraph);
+    const step = createRefinementStep(user.id, request.paragraphIndex, request.instruction, target.text, paragraph);
+
+    await drizzleDb
+      .insert(auditLogs)
+      .values({
+        userId: user.id,
+        patientId: draftLog.patientId,
+        patientName: draftLog.patientName,
+        requestText: request.instruction,
+        generatedDraft: paragraph,
+        finalMessage: '',
+        actionType: 'draft_refined',
+        deliveryStatus: 'draft',
+        aiModelUsed: completion.model,
+        aiProvider: completion.provider,
+        aiCost: completion.cost,
+        tokensConsumed: completion.usage.totalTokens
+      });
+    await appendRefinementStep(draftLog.id, step);
+
+    if (env.SENTRY_DSN) {
+      Sentry.addBreadcrumb({
+        category: 'ai_usage',
+        message: 'Draft paragraph refined',
+        level: 'info',
+        data: {
+          auditLogId: draftLog.id,
+          paragraphIndex: request.paragraphIndex,
+          provider: completion.provider,
+          tokens: completion.usage.totalTokens,
+          cost: completion.cost
+        }
+      });
+    }
+
+    return { success: true, draft, paragraph, step, budgetWarnings: budgetCheck.warnings };
+  } catch (error) {
+    console.error('Error refining draft paragraph:', error);
+    return { success: false, error: 'Failed to refine the paragraph. Please try again.' };
+  }
+}
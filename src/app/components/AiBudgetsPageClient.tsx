@@ -0,0 +1,436 @@
+"use client";
+
+import { useState } from "react";
+import {
+  BUDGET_PERIODS,
+  BUDGET_SCOPES,
+  BUDGET_SCOPE_LABELS,
+  DEFAULT_SOFT_LIMIT_PERCENT,
+  validateBudget,
+  type BudgetPeriod,
+  type BudgetScope
+} from "@/lib/budgets";
+
+interface Budget {
+  id: string;
+  scope: string;
+  scopeValue: string | null;
+  period: string;
+  maxRequests: number | null;
+  maxTokens: number | null;
+  maxCost: number | null;
+  softLimitPercent: number;
+  isEnabled: boolean;
+  overrideUntil: string | Date | null;
+  overrideReason: string | null;
+}
+
+interface BudgetAlert {
+  id: string;
+  budget: string;
+  level: string;
+  message: string;
+  createdAt: string | Date;
+}
+
+interface BudgetUser {
+  id: string;
+  username: string;
+  email: string;
+  role: string;
+}
+
+interface AiBudgetsPageClientProps {
+  initialBudgets: Budget[];
+  initialAlerts: BudgetAlert[];
+  users: BudgetUser[];
+}
+
+interface BudgetForm {
+  scope: BudgetScope;
+  scopeValue: string;
+  period: BudgetPeriod;
+  maxRequests: string;
+  maxTokens: string;
+  maxCost: string;
+  softLimitPercent: string;
+}
+
+const EMPTY_FORM: BudgetForm = {
+  scope: "role",
+  scopeValue: "",
+  period: "daily",
+  maxRequests: "",
+  maxTokens: "",
+  maxCost: "",
+  softLimitPercent: String(DEFAULT_SOFT_LIMIT_PERCENT)
+};
+
+const ROLES = ["staff", "reviewer", "doctor", "admin"];
+
+const inputClass = "mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500";
+
+function toLimit(value: string): number | null {
+  return value.trim() === "" ? null : Number(value);
+}
+
+function formatLimit(value: number | null, prefix = ""): string {
+  return value === null ? "—" : `${prefix}${value.toLocaleString()}`;
+}
+
+export function AiBudgetsPageClient({ initialBudgets, initialAlerts, users }: AiBudgetsPageClientProps) {
+  const [budgets, setBudgets] = useState<Budget[]>(initialBudgets);
+  const [alerts, setAlerts] = useState<BudgetAlert[]>(initialAlerts);
+  const [form, setForm] = useState<BudgetForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [overrideFor, setOverrideFor] = useState<Budget | null>(null);
+  const [overrideUntil, setOverrideUntil] = useState("");
+  const [overrideReason, setOverrideReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  const payload = {
+    scope: form.scope,
+    scopeValue: form.scope === "organization" ? null : form.scopeValue,
+    period: form.period,
+    maxRequests: toLimit(form.maxRequests),
+    maxTokens: toLimit(form.maxTokens),
+    maxCost: toLimit(form.maxCost),
+    softLimitPercent: Number(form.softLimitPercent)
+  };
+  const formIssues = validateBudget(payload);
+
+  const scopeLabel = (budget: { scope: string; scopeValue: string | null }) => {
+    const label = BUDGET_SCOPE_LABELS[budget.scope as BudgetScope] || budget.scope;
+    if (!budget.scopeValue) return label;
+    const user = users.find(u => u.id === budget.scopeValue);
+    return `${label}: ${user ? user.username : budget.scopeValue}`;
+  };
+
+  const isOverridden = (budget: Budget) => !!budget.overrideUntil && new Date(budget.overrideUntil) > new Date();
+
+  const flash = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(""), 3000);
+  };
+
+  const refresh = async () => {
+    const response = await fetch("/api/ai-budgets");
+    const result = await response.json() as { success: boolean; budgets?: Budget[]; alerts?: BudgetAlert[] };
+    if (result.success) {
+      setBudgets(result.budgets || []);
+      setAlerts(result.alerts || []);
+    }
+  };
+
+  const send = async (url: string, method: string, body: unknown, message: string): Promise<boolean> => {
+    setIsSaving(true);
+    setError("");
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body)
+      });
+      const result = await response.json() as { success: boolean; error?: string };
+
+      if (!result.success) {
+        setError(result.error || "Failed to save budget");
+        return false;
+      }
+
+      await refresh();
+      flash(message);
+      return true;
+    } catch (err) {
+      console.error("Failed to save AI budget:", err);
+      setError("Failed to save budget");
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const editBudget = (budget: Budget) => {
+    setEditingId(budget.id);
+    setForm({
+      scope: budget.scope as BudgetScope,
+      scopeValue: budget.scopeValue || "",
+      period: budget.period as BudgetPeriod,
+      maxRequests: budget.maxRequests?.toString() ?? "",
+      maxTokens: budget.maxTokens?.toString() ?? "",
+      maxCost: budget.maxCost?.toString() ?? "",
+      softLimitPercent: String(budget.softLimitPercent)
+    });
+  };
+
+  const saveBudget = async () => {
+    const saved = editingId
+      ? await send("/api/ai-budgets", "PUT", { budgetId: editingId, ...payload }, "Budget updated")
+      : await send("/api/ai-budgets", "POST", payload, "Budget created");
+    if (saved) {
+      setEditingId(null);
+      setForm(EMPTY_FORM);
+    }
+  };
+
+  const saveOverride = async (until: string | null) => {
+    if (!overrideFor) return;
+    const saved = await send("/api/ai-budgets/override", "POST", {
+      budgetId: overrideFor.id,
+      until: until ? new Date(until).toISOString() : null,
+      reason: overrideReason
+    }, until ? "Override granted" : "Override ended");
+    if (saved) {
+      setOverrideFor(null);
+      setOverrideUntil("");
+      setOverrideReason("");
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3">
+          <div className="text-sm text-red-600">{error}</div>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-3">
+          <div className="text-sm text-green-600">{success}</div>
+        </div>
+      )}
+
+      {/* Budgets */}
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Budgets</h3>
+
+          {budgets.length === 0 ? (
+            <p className="text-sm text-gray-500">No budgets found. Run the database migrations to seed the role budgets.</p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead>
+                <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+                  <th className="py-2 pr-4">Scope</th>
+                  <th className="py-2 pr-4">Period</th>
+                  <th className="py-2 pr-4">Requests</th>
+                  <th className="py-2 pr-4">Tokens</th>
+                  <th className="py-2 pr-4">Cost (USD)</th>
+                  <th className="py-2 pr-4">Soft limit</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {budgets.map((budget) => (
+                  <tr key={budget.id}>
+                    <td className="py-2 pr-4 font-medium text-gray-900">{scopeLabel(budget)}</td>
+                    <td className="py-2 pr-4 text-gray-600">{budget.period}</td>
+                    <td className="py-2 pr-4 text-gray-600">{formatLimit(budget.maxRequests)}</td>
+                    <td className="py-2 pr-4 text-gray-600">{formatLimit(budget.maxTokens)}</td>
+                    <td className="py-2 pr-4 text-gray-600">{formatLimit(budget.maxCost, "$")}</td>
+                    <td className="py-2 pr-4 text-gray-600">{budget.softLimitPercent}%</td>
+                    <td className="py-2 pr-4">
+                      {!budget.isEnabled ? (
+                        <span className="text-gray-400">Disabled</span>
+                      ) : isOverridden(budget) ? (
+                        <span className="text-amber-700" title={budget.overrideReason || undefined}>
+                          Overridden until {new Date(budget.overrideUntil!).toLocaleString()}
+                        </span>
+                      ) : (
+                        <span className="text-green-700">Enforced</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right space-x-3 whitespace-nowrap">
+                      <button onClick={() => editBudget(budget)} className="text-blue-600 hover:text-blue-800">
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => send("/api/ai-budgets", "PUT", { budgetId: budget.id, isEnabled: !budget.isEnabled }, budget.isEnabled ? "Budget disabled" : "Budget enabled")}
+                        disabled={isSaving}
+                        className="text-gray-600 hover:text-gray-800"
+                      >
+                        {budget.isEnabled ? "Disable" : "Enable"}
+                      </button>
+                      <button onClick={() => setOverrideFor(budget)} className="text-amber-600 hover:text-amber-800">
+                        Override
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      {/* Override */}
+      {overrideFor && (
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-4 py-5 sm:p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg leading-6 font-medium text-gray-900">
+                Override: {scopeLabel(overrideFor)} ({overrideFor.period})
+              </h3>
+              <button onClick={() => setOverrideFor(null)} className="text-sm text-gray-500 hover:text-gray-700">Close</button>
+            </div>
+            <p className="text-sm text-gray-500">
+              Requests over this budget are allowed until the override ends. The override and its reason are recorded in the audit log.
+            </p>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Allow until</label>
+                <input type="datetime-local" value={overrideUntil} onChange={(e) => setOverrideUntil(e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Reason</label>
+                <input
+                  type="text"
+                  value={overrideReason}
+                  onChange={(e) => setOverrideReason(e.target.value)}
+                  placeholder="Why the budget may be exceeded"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div className="space-x-3">
+              <button
+                onClick={() => saveOverride(overrideUntil)}
+                disabled={isSaving || !overrideUntil || !overrideReason.trim()}
+                className="bg-amber-600 text-white px-4 py-2 rounded-md hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Grant override
+              </button>
+              {isOverridden(overrideFor) && (
+                <button
+                  onClick={() => saveOverride(null)}
+                  disabled={isSaving || !overrideReason.trim()}
+                  className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                >
+                  End current override
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Editor */}
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-5 sm:p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg leading-6 font-medium text-gray-900">{editingId ? "Edit Budget" : "New Budget"}</h3>
+            {editingId && (
+              <button onClick={() => { setEditingId(null); setForm(EMPTY_FORM); }} className="text-sm text-gray-500 hover:text-gray-700">
+                Cancel
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Scope</label>
+              <select
+                value={form.scope}
+                onChange={(e) => setForm({ ...form, scope: e.target.value as BudgetScope, scopeValue: "" })}
+                className={inputClass}
+              >
+                {BUDGET_SCOPES.map(scope => (
+                  <option key={scope} value={scope}>{BUDGET_SCOPE_LABELS[scope]}</option>
+                ))}
+              </select>
+            </div>
+            {form.scope !== "organization" && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">{form.scope === "role" ? "Role" : form.scope === "user" ? "User" : "Doctor"}</label>
+                <select value={form.scopeValue} onChange={(e) => setForm({ ...form, scopeValue: e.target.value })} className={inputClass}>
+                  <option value="">Select...</option>
+                  {form.scope === "role"
+                    ? ROLES.map(role => <option key={role} value={role}>{role}</option>)
+                    : users.filter(u => form.scope === "user" || u.role === "doctor").map(u => (
+                      <option key={u.id} value={u.id}>{u.username} ({u.email})</option>
+                    ))}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Period</label>
+              <select value={form.period} onChange={(e) => setForm({ ...form, period: e.target.value as BudgetPeriod })} className={inputClass}>
+                {BUDGET_PERIODS.map(period => (
+                  <option key={period} value={period}>{period}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Max requests</label>
+              <input type="number" min="0" value={form.maxRequests} onChange={(e) => setForm({ ...form, maxRequests: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Max tokens</label>
+              <input type="number" min="0" value={form.maxTokens} onChange={(e) => setForm({ ...form, maxTokens: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Max cost (USD)</label>
+              <input type="number" min="0" step="0.01" value={form.maxCost} onChange={(e) => setForm({ ...form, maxCost: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Soft limit (%)</label>
+              <input type="number" min="1" max="100" value={form.softLimitPercent} onChange={(e) => setForm({ ...form, softLimitPercent: e.target.value })} className={inputClass} />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">Leave a limit empty to leave that metric unlimited.</p>
+
+          {formIssues.length > 0 && (
+            <ul className="text-sm text-red-600 space-y-1">
+              {formIssues.map((issue, index) => (
+                <li key={index}>• {issue}</li>
+              ))}
+            </ul>
+          )}
+
+          <button
+            onClick={saveBudget}
+            disabled={isSaving || formIssues.length > 0}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? "Saving..." : editingId ? "Save changes" : "Add budget"}
+          </button>
+        </div>
+      </div>
+
+      {/* Alerts */}
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Recent Alerts</h3>
+
+          {alerts.length === 0 ? (
+            <p className="text-sm text-gray-500">No budget has reached its soft limit yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 text-sm">
+              {alerts.map((alert) => (
+                <li key={alert.id} className="py-2 flex items-center justify-between">
+                  <div className="flex items-center space-x-3">
+                    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                      alert.level === "exceeded" ? "bg-red-100 text-red-800" : "bg-amber-100 text-amber-800"
+                    }`}>
+                      {alert.level === "exceeded" ? "Limit reached" : "Soft limit"}
+                    </span>
+                    <span className="text-gray-700">{alert.message}</span>
+                  </div>
+                  <span className="text-xs text-gray-400">{new Date(alert.createdAt).toLocaleString()}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+"use client";
+
+import { useState } from "react";
+import {
+  APPROVAL_ROLES,
+  APPROVAL_ROLE_LABELS,
+  MAX_APPROVAL_STEPS,
+  validateApprovalPolicy,
+  type ApprovalRole
+} from "@/lib/approval-policies";
+import { GUARDRAIL_CATEGORIES, type GuardrailCategory } from "@/lib/guardrails";
+import { INQUIRY_INTENTS, INTENT_LABELS, type InquiryIntent } from "@/lib/quick-replies";
+import { URGENCY_LEVELS } from "@/lib/triage";
+
+interface ApprovalPolicy {
+  id: string;
+  name: string;
+  doctorId: string | null;
+  urgencyLevel: string | null;
+  guardrailCategory: string | null;
+  inquiryIntent: string | null;
+  steps: string; // JSON ApprovalRole[]
+  isEnabled: boolean;
+}
+
+interface PolicyUser {
+  id: string;
+  username: string;
+  email: string;
+  role: string;
+}
+
+interface ApprovalPoliciesPageClientProps {
+  initialPolicies: ApprovalPolicy[];
+  users: PolicyUser[];
+}
+
+interface PolicyForm {
+  name: string;
+  doctorId: string;
+  urgencyLevel: string;
+  guardrailCategory: string;
+  inquiryIntent: string;
+  steps: ApprovalRole[];
+}
+
+const EMPTY_FORM: PolicyForm = {
+  name: "",
+  doctorId: "",
+  urgencyLevel: "",
+  guardrailCategory: "",
+  inquiryIntent: "",
+  steps: ["reviewer", "panel_doctor"]
+};
+
+const inputClass = "mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500";
+
+function parseSteps(steps: string): ApprovalRole[] {
+  try {
+    return JSON.parse(steps) as ApprovalRole[];
+  } catch {
+    return [];
+  }
+}
+
+export function ApprovalPoliciesPageClient({ initialPolicies, users }: ApprovalPoliciesPageClientProps) {
+  const [policies, setPolicies] = useState<ApprovalPolicy[]>(initialPolicies);
+  const [form, setForm] = useState<PolicyForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  const payload = {
+    name: form.name,
+    doctorId: form.doctorId || null,
+    urgencyLevel: form.urgencyLevel || null,
+    guardrailCategory: form.guardrailCategory || null,
+    inquiryIntent: form.inquiryIntent || null,
+    steps: form.steps
+  };
+  const formIssues = validateApprovalPolicy(payload);
+
+  const conditionLabel = (policy: ApprovalPolicy) => {
+    const conditions = [
+      policy.doctorId && `Doctor: ${users.find(u => u.id === policy.doctorId)?.username || policy.doctorId}`,
+      policy.urgencyLevel && `Urgency: ${policy.urgencyLevel}`,
+      policy.guardrailCategory && `Guardrail: ${GUARDRAIL_CATEGORIES[policy.guardrailCategory as GuardrailCategory] || policy.guardrailCategory}`,
+      policy.inquiryIntent && `Intent: ${INTENT_LABELS[policy.inquiryIntent as InquiryIntent] || policy.inquiryIntent}`
+    ].filter(Boolean);
+    return conditions.length > 0 ? conditions.join(" · ") : "All messages";
+  };
+
+  const flash = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(""), 3000);
+  };
+
+  const refresh = async () => {
+    const response = await fetch("/api/approval-policies");
+    const result = await response.json() as { success: boolean; policies?: ApprovalPolicy[] };
+    if (result.success) {
+      setPolicies(result.policies || []);
+    }
+  };
+
+  const send = async (method: string, body: unknown, message: string): Promise<boolean> => {
+    setIsSaving(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/approval-policies", {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body)
+      });
+      const result = await response.json() as { success: boolean; error?: string };
+
+      if (!result.success) {
+        setError(result.error || "Failed to save policy");
+        return false;
+      }
+
+      await refresh();
+      flash(message);
+      return true;
+    } catch (err) {
+      console.error("Failed to save approval policy:", err);
+      setError("Failed to save policy");
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const editPolicy = (policy: ApprovalPolicy) => {
+    setEditingId(policy.id);
+    setForm({
+      name: policy.name,
+      doctorId: policy.doctorId || "",
+      urgencyLevel: policy.urgencyLevel || "",
+      guardrailCategory: policy.guardrailCategory || "",
+      inquiryIntent: policy.inquiryIntent || "",
+      steps: parseSteps(policy.steps)
+    });
+  };
+
+  const savePolicy = async () => {
+    const saved = editingId
+      ? await send("PUT", { policyId: editingId, ...payload }, "Policy updated")
+      : await send("POST", payload, "Policy created");
+    if (saved) {
+      setEditingId(null);
+      setForm(EMPTY_FORM);
+    }
+  };
+
+  const setStep = (index: number, role: ApprovalRole) => {
+    setForm({ ...form, steps: form.steps.map((step, i) => (i === index ? role : step)) });
+  };
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3">
+          <div className="text-sm text-red-600">{error}</div>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-3">
+          <div className="text-sm text-green-600">{success}</div>
+        </div>
+      )}
+
+      {/* Policies */}
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Policies</h3>
+
+          {policies.length === 0 ? (
+            <p className="text-sm text-gray-500">No policies yet. Every message needs a single reviewer's approval.</p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead>
+                <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+                  <th className="py-2 pr-4">Name</th>
+                  <th className="py-2 pr-4">Applies to</th>
+                  <th className="py-2 pr-4">Approval steps</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {policies.map((policy) => (
+                  <tr key={policy.id}>
+                    <td className="py-2 pr-4 font-medium text-gray-900">{policy.name}</td>
+                    <td className="py-2 pr-4 text-gray-600">{conditionLabel(policy)}</td>
+                    <td className="py-2 pr-4 text-gray-600">
+                      {parseSteps(policy.steps).map(step => APPROVAL_ROLE_LABELS[step] || step).join(" → ")}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {policy.isEnabled ? (
+                        <span className="text-green-700">Enforced</span>
+                      ) : (
+                        <span className="text-gray-400">Disabled</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right space-x-3 whitespace-nowrap">
+                      <button onClick={() => editPolicy(policy)} className="text-blue-600 hover:text-blue-800">
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => send("PUT", { policyId: policy.id, isEnabled: !policy.isEnabled }, policy.isEnabled ? "Policy disabled" : "Policy enabled")}
+                        disabled={isSaving}
+                        className="text-gray-600 hover:text-gray-800"
+                      >
+                        {policy.isEnabled ? "Disable" : "Enable"}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      {/* Editor */}
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-5 sm:p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg leading-6 font-medium text-gray-900">{editingId ? "Edit Policy" : "New Policy"}</h3>
+            {editingId && (
+              <button onClick={() => { setEditingId(null); setForm(EMPTY_FORM); }} className="text-sm text-gray-500 hover:text-gray-700">
+                Cancel
+              </button>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Name</label>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="e.g. Lab results co-signed by the patient's doctor"
+              className={inputClass}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Doctor's panel</label>
+              <select value={form.doctorId} onChange={(e) => setForm({ ...form, doctorId: e.target.value })} className={inputClass}>
+                <option value="">Any doctor</option>
+                {users.filter(u => u.role === "doctor").map(u => (
+                  <option key={u.id} value={u.id}>{u.username} ({u.email})</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Urgency</label>
+              <select value={form.urgencyLevel} onChange={(e) => setForm({ ...form, urgencyLevel: e.target.value })} className={inputClass}>
+                <option value="">Any urgency</option>
+                {URGENCY_LEVELS.map(level => (
+                  <option key={level} value={level}>{level}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Guardrail category</label>
+              <select value={form.guardrailCategory} onChange={(e) => setForm({ ...form, guardrailCategory: e.target.value })} className={inputClass}>
+                <option value="">Any or none</option>
+                {Object.entries(GUARDRAIL_CATEGORIES).map(([category, label]) => (
+                  <option key={category} value={category}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Inquiry intent</label>
+              <select value={form.inquiryIntent} onChange={(e) => setForm({ ...form, inquiryIntent: e.target.value })} className={inputClass}>
+                <option value="">Any intent</option>
+                {INQUIRY_INTENTS.map(intent => (
+                  <option key={intent} value={intent}>{INTENT_LABELS[intent]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Approval steps, in signing order</label>
+            <div className="mt-1 space-y-2">
+              {form.steps.map((step, index) => (
+                <div key={index} className="flex items-center space-x-3">
+                  <span className="text-sm text-gray-500 w-14">Step {index + 1}</span>
+                  <select value={step} onChange={(e) => setStep(index, e.target.value as ApprovalRole)} className={`${inputClass} sm:w-64 mt-0`}>
+                    {APPROVAL_ROLES.map(role => (
+                      <option key={role} value={role}>{APPROVAL_ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => setForm({ ...form, steps: form.steps.filter((_, i) => i !== index) })}
+                    className="text-sm text-red-600 hover:text-red-800"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+            {form.steps.length < MAX_APPROVAL_STEPS && (
+              <button
+                onClick={() => setForm({ ...form, steps: [...form.steps, "doctor"] })}
+                className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+              >
+                + Add step
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">
+            Each step must be signed by a different person. "Patient's doctor" is the doctor whose panel the patient is in.
+          </p>
+
+          {formIssues.length > 0 && (
+            <ul className="text-sm text-red-600 space-y-1">
+              {formIssues.map((issue, index) => (
+                <li key={index}>• {issue}</li>
+              ))}
+            </ul>
+          )}
+
+          <button
+            onClick={savePolicy}
+            disabled={isSaving || formIssues.length > 0}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? "Saving..." : editingId ? "Save changes" : "Add policy"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
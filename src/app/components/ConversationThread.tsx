@@ -0,0 +1,125 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { type User } from "@/db";
+
+interface ThreadMessage {
+  id: string;
+  direction: 'inbound' | 'outbound';
+  body: string;
+  createdAt: string;
+  auditLogId: string | null;
+  deliveryStatus: string | null;
+  recordedBy: string | null;
+}
+
+interface ConversationThreadProps {
+  user: User;
+  patientId: string;
+  patientName: string;
+}
+
+export function ConversationThread({ user, patientId, patientName }: ConversationThreadProps) {
+  const [messages, setMessages] = useState<ThreadMessage[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Same roles that can open the audit log page
+  const canViewAuditLog = ['doctor', 'auditor', 'admin'].includes(user.role);
+
+  const loadThread = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/conversations?patientId=${encodeURIComponent(patientId)}`);
+      const result = await response.json() as { success: boolean; messages?: ThreadMessage[]; error?: string };
+
+      if (result.success) {
+        setMessages(result.messages || []);
+      } else {
+        setError(result.error || 'Failed to load conversation');
+      }
+    } catch (err) {
+      console.error('Error loading conversation:', err);
+      setError('Failed to load conversation');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    loadThread();
+
+    // A generated draft records the inquiry; a sent message records the reply
+    window.addEventListener('draftCreated', loadThread);
+    window.addEventListener('workflowComplete', loadThread);
+
+    return () => {
+      window.removeEventListener('draftCreated', loadThread);
+      window.removeEventListener('workflowComplete', loadThread);
+    };
+  }, [loadThread]);
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg leading-6 font-medium text-gray-900">
+            Conversation with {patientName}
+          </h3>
+          <button
+            onClick={loadThread}
+            disabled={isLoading}
+            className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+          >
+            {isLoading ? 'Loading...' : 'Refresh'}
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-800">
+            {error}
+          </div>
+        )}
+
+        {messages.length === 0 && !isLoading ? (
+          <div className="text-center py-4 text-gray-500">
+            No messages with this patient yet
+          </div>
+        ) : (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {messages.map((message) => {
+              const outbound = message.direction === 'outbound';
+              return (
+                <div key={message.id} className={`flex ${outbound ? 'justify-end' : 'justify-start'}`}>
+                  <div className={`max-w-[80%] rounded-lg px-4 py-2 ${
+                    outbound ? 'bg-blue-50 border border-blue-200' : 'bg-gray-50 border border-gray-200'
+                  }`}>
+                    <div className="text-xs text-gray-500 mb-1">
+                      {outbound ? 'Clinic' : 'Patient'} · {new Date(message.createdAt).toLocaleString()}
+                      {message.recordedBy && ` · ${outbound ? 'sent' : 'logged'} by ${message.recordedBy}`}
+                    </div>
+                    <p className="text-sm text-gray-900 whitespace-pre-wrap">{message.body}</p>
+                    {outbound && message.auditLogId && (
+                      <div className="mt-1 text-xs text-gray-500">
+                        {message.deliveryStatus && <span className="mr-2">Status: {message.deliveryStatus}</span>}
+                        {canViewAuditLog ? (
+                          <a href={`/admin/audit#audit-${message.auditLogId}`} className="text-blue-600 hover:text-blue-800">
+                            Audit entry
+                          </a>
+                        ) : (
+                          <span>Audit entry {message.auditLogId.slice(0, 8)}</span>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from "react";
+
+interface DraftExample {
+  id: string;
+  inquiryText: string;
+  responseText: string;
+  createdAt: string | Date;
+}
+
+interface DraftExamplesPageClientProps {
+  initialOptIn: boolean;
+  initialExamples: DraftExample[];
+}
+
+export function DraftExamplesPageClient({ initialOptIn, initialExamples }: DraftExamplesPageClientProps) {
+  const [optIn, setOptIn] = useState(initialOptIn);
+  const [examples, setExamples] = useState<DraftExample[]>(initialExamples);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  const flash = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(""), 3000);
+  };
+
+  const toggleOptIn = async () => {
+    setIsUpdating(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/draft-examples", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ useApprovedExamples: !optIn })
+      });
+      const result = await response.json() as { success: boolean; useApprovedExamples?: boolean; error?: string };
+
+      if (result.success) {
+        setOptIn(!!result.useApprovedExamples);
+        flash(result.useApprovedExamples
+          ? "Approved messages will be added to your example bank"
+          : "Approved messages will no longer be saved or reused");
+      } else {
+        setError(result.error || "Failed to update setting");
+      }
+    } catch (err) {
+      console.error("Failed to update example bank setting:", err);
+      setError("Failed to update setting");
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const removeExample = async (example: DraftExample) => {
+    if (!confirm("Remove this example? It will no longer be used when drafting.")) return;
+
+    setRemovingId(example.id);
+    setError("");
+
+    try {
+      const response = await fetch("/api/draft-examples/remove", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ exampleId: example.id })
+      });
+      const result = await response.json() as { success: boolean; error?: string };
+
+      if (result.success) {
+        setExamples(prev => prev.filter(e => e.id !== example.id));
+        flash("Example removed");
+      } else {
+        setError(result.error || "Failed to remove example");
+      }
+    } catch (err) {
+      console.error("Failed to remove example:", err);
+      setError("Failed to remove example");
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3">
+          <div className="text-sm text-red-600">{error}</div>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-3">
+          <div className="text-sm text-green-600">{success}</div>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg p-4 flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-medium text-gray-900">Learn from approved messages</h3>
+          <p className="text-sm text-gray-500">
+            {optIn
+              ? "Approved messages are saved and the most similar ones guide new drafts."
+              : "Approved messages are not saved, and existing examples are not used."}
+          </p>
+        </div>
+        <button
+          onClick={toggleOptIn}
+          disabled={isUpdating}
+          className={`px-4 py-2 rounded-md text-sm font-medium text-white disabled:opacity-50 ${
+            optIn ? "bg-gray-600 hover:bg-gray-700" : "bg-blue-600 hover:bg-blue-700"
+          }`}
+        >
+          {optIn ? "Turn off" : "Turn on"}
+        </button>
+      </div>
+
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-3 border-b border-gray-200">
+          <h3 className="text-sm font-medium text-gray-900">Saved examples ({examples.length})</h3>
+        </div>
+
+        {examples.length === 0 ? (
+          <p className="px-4 py-8 text-center text-sm text-gray-500">
+            No examples yet. Approved messages appear here once the example bank is turned on.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {examples.map(example => (
+              <li key={example.id} className="px-4 py-4">
+                <div className="flex items-start justify-between">
+                  <span className="text-xs text-gray-500">
+                    Approved {new Date(example.createdAt).toLocaleDateString()}
+                  </span>
+                  <button
+                    onClick={() => removeExample(example)}
+                    disabled={removingId === example.id}
+                    className="text-xs text-red-600 hover:text-red-800 disabled:opacity-50"
+                  >
+                    {removingId === example.id ? "Removing..." : "Remove"}
+                  </button>
+                </div>
+                <div className="mt-2 grid grid-cols-1 gap-3 md:grid-cols-2">
+                  <div>
+                    <h4 className="text-xs font-medium text-gray-700 mb-1">Patient inquiry</h4>
+                    <p className="text-sm text-gray-700 whitespace-pre-wrap bg-gray-50 rounded-md p-2">{example.inquiryText}</p>
+                  </div>
+                  <div>
+                    <h4 className="text-xs font-medium text-gray-700 mb-1">Approved reply</h4>
+                    <p className="text-sm text-gray-700 whitespace-pre-wrap bg-gray-50 rounded-md p-2 max-h-48 overflow-y-auto">{example.responseText}</p>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useState, type ReactNode } from "react";
+import {
+  GROUNDING_FIELDS,
+  GROUNDING_FIELD_LABELS,
+  alignGrounding,
+  locateSnippet,
+  type DraftGrounding,
+  type GroundingField,
+  type GroundingSources,
+  type SentenceGroundingStatus
+} from "@/lib/grounding";
+
+interface DraftGroundingViewProps {
+  text: string; // Current message text, possibly edited since the draft was grounded
+  grounding: DraftGrounding | null;
+  sources: GroundingSources;
+}
+
+const STATUS_STYLES: Record<SentenceGroundingStatus, string> = {
+  grounded: 'hover:bg-green-100',
+  ungrounded: 'bg-red-50 underline decoration-red-400 decoration-wavy hover:bg-red-100',
+  non_clinical: 'text-gray-500 hover:bg-gray-100',
+  unchecked: 'underline decoration-gray-400 decoration-dotted hover:bg-gray-100'
+};
+
+const STATUS_TITLES: Record<SentenceGroundingStatus, string> = {
+  grounded: 'Supported by the patient brief',
+  ungrounded: 'Not supported by any brief field',
+  non_clinical: 'No medical content',
+  unchecked: 'Added or edited after the draft was checked'
+};
+
+/**
+ * Highlight a field's text where the hovered sentence cites it
+ */
+function highlightField(source: string, snippets: string[]) {
+  const ranges = snippets
+    .map(snippet => locateSnippet(source, snippet))
+    .filter((range): range is { start: number; end: number } => range !== null)
+    .sort((a, b) => a.start - b.start);
+
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach((range, index) => {
+    if (range.start < cursor) return; // Overlapping citation, already highlighted
+    parts.push(source.slice(cursor, range.start));
+    parts.push(<mark key={index} className="bg-yellow-200 rounded px-0.5">{source.slice(range.start, range.end)}</mark>);
+    cursor = range.end;
+  });
+  parts.push(source.slice(cursor));
+  return parts;
+}
+
+export function DraftGroundingView({ text, grounding, sources }: DraftGroundingViewProps) {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const sentences = alignGrounding(grounding, text);
+  const ungrounded = sentences.filter(sentence => sentence.status === 'ungrounded').length;
+  const unchecked = sentences.filter(sentence => sentence.status === 'unchecked').length;
+  const citations = hovered !== null ? sentences[hovered]?.citations || [] : [];
+  const snippetsFor = (field: GroundingField) => citations.filter(citation => citation.field === field).map(citation => citation.snippet);
+
+  return (
+    <div>
+      <div className="flex justify-between items-center">
+        <label className="block text-xs font-medium text-gray-700 uppercase tracking-wide">
+          Sources
+        </label>
+        <span className="text-xs text-gray-500">Hover a sentence to see its supporting brief text</span>
+      </div>
+
+      {!grounding ? (
+        <p className="mt-1 text-xs text-amber-600">
+          This draft was not checked against the patient brief. Verify each clinical statement before approving.
+        </p>
+      ) : (ungrounded > 0 || unchecked > 0) && (
+        <p className="mt-1 text-xs text-red-700">
+          {ungrounded > 0 && `${ungrounded} sentence${ungrounded === 1 ? '' : 's'} not supported by the brief. `}
+          {unchecked > 0 && `${unchecked} edited sentence${unchecked === 1 ? '' : 's'} not checked.`}
+        </p>
+      )}
+
+      <div className="mt-1 grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="p-3 bg-gray-50 rounded border text-sm text-gray-900 space-y-1">
+          {sentences.map((sentence, index) => (
+            <span
+              key={index}
+              title={STATUS_TITLES[sentence.status]}
+              onMouseEnter={() => setHovered(index)}
+              onMouseLeave={() => setHovered(null)}
+              className={`block rounded px-1 cursor-default ${STATUS_STYLES[sentence.status]} ${hovered === index ? 'ring-1 ring-blue-300' : ''}`}
+            >
+              {sentence.text}
+            </span>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          {GROUNDING_FIELDS.filter(field => sources[field]?.trim()).map(field => {
+            const snippets = snippetsFor(field);
+            return (
+              <div key={field} className={`p-2 rounded border text-xs ${snippets.length > 0 ? 'border-yellow-400 bg-yellow-50' : 'border-gray-200'}`}>
+                <div className="font-medium text-gray-700">{GROUNDING_FIELD_LABELS[field]}</div>
+                <div className="text-gray-600 whitespace-pre-wrap">{highlightField(sources[field], snippets)}</div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
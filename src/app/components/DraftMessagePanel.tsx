@@ -4,6 +4,18 @@ import { useState, useEffect } from "react";
 import { canSendMessages } from "@/lib/server-functions";
 import { type User } from "@/db";
 import { draftService } from "@/lib/draftService";
+import type { DraftCandidate } from "@/actions/generateDraft";
+import type { GuardrailMatch } from "@/lib/guardrails";
+import { GuardrailFindings } from "./GuardrailFindings";
+import { MedicationIssues } from "./MedicationIssues";
+import type { MedicationIssue } from "@/lib/medication-check";
+import type { TriageResult } from "@/lib/triage";
+import { UrgencyBanner } from "./UrgencyBanner";
+import { measureGradeLevel } from "@/lib/reading-level";
+import { countWordsIn, languageName, wordLimitFor, type PatientLanguage } from "@/lib/languages";
+import type { DraftGrounding } from "@/lib/grounding";
+import { INTENT_LABELS, type IntentResult, type QuickReplyMatch } from "@/lib/quick-replies";
+import { REFINEMENT_PRESETS, splitParagraphs, type RefinementStep } from "@/lib/refinement";
 
 interface Patient {
   id: string;
@@ -27,9 +39,37 @@ export function DraftMessagePanel({ user, selectedPatient }: DraftMessagePanelPr
   const [success, setSuccess] = useState("");
   const [wordCount, setWordCount] = useState(0);
   const [readingLevel, setReadingLevel] = useState("");
+  const [readingGrade, setReadingGrade] = useState<number | null>(null);
+  // Server-side reading level enforcement for the last generation
+  const [readingCheck, setReadingCheck] = useState<{ target: number | null; rewrites: number } | null>(null);
+  // Patient language of the last generation, with the English back-translation for staff
+  const [draftLanguage, setDraftLanguage] = useState<PatientLanguage>("en");
+  const [backTranslation, setBackTranslation] = useState("");
+  // Grounding of the generated draft against the brief; undefined before generation, null when unavailable
+  const [grounding, setGrounding] = useState<DraftGrounding | null | undefined>(undefined);
+  // AI budgets at their soft limit, or exceeded under an admin override, for the last generation
+  const [budgetWarnings, setBudgetWarnings] = useState<string[]>([]);
   const [validationIssues, setValidationIssues] = useState<string[]>([]);
   const [isSavingInquiry, setIsSavingInquiry] = useState(false);
   const [inquirySaveStatus, setInquirySaveStatus] = useState("");
+  const [candidateCount, setCandidateCount] = useState(1);
+  const [candidates, setCandidates] = useState<DraftCandidate[]>([]);
+  const [usedCandidateIds, setUsedCandidateIds] = useState<string[]>([]);
+  const [draftAuditLogId, setDraftAuditLogId] = useState<string | null>(null);
+  const [selectionRecorded, setSelectionRecorded] = useState(false);
+  const [guardrailMatches, setGuardrailMatches] = useState<GuardrailMatch[]>([]);
+  const [medicationIssues, setMedicationIssues] = useState<MedicationIssue[]>([]);
+  const [triage, setTriage] = useState<Pick<TriageResult, "level" | "rationale" | "source"> | null>(null);
+  // Doctor-approved quick replies for the inquiry's intent, offered before generating
+  const [inquiryIntent, setInquiryIntent] = useState<IntentResult | null>(null);
+  const [quickReplies, setQuickReplies] = useState<QuickReplyMatch[]>([]);
+  const [quickReplyUsed, setQuickReplyUsed] = useState<QuickReplyMatch | null>(null);
+  const [isUsingQuickReply, setIsUsingQuickReply] = useState(false);
+  // Paragraph under the cursor in the response, and the targeted refinements made so far
+  const [selectedParagraph, setSelectedParagraph] = useState<number | null>(null);
+  const [refineInstruction, setRefineInstruction] = useState("");
+  const [isRefining, setIsRefining] = useState(false);
+  const [refinementSteps, setRefinementSteps] = useState<RefinementStep[]>([]);
 
   const canUserSendMessages = canSendMessages(user);
 
@@ -42,8 +82,25 @@ export function DraftMessagePanel({ user, selectedPatient }: DraftMessagePanelPr
       setSuccess("");
       setWordCount(0);
       setReadingLevel("");
+      setReadingCheck(null);
+      setDraftLanguage("en");
+      setBackTranslation("");
+      setGrounding(undefined);
+      setBudgetWarnings([]);
       setValidationIssues([]);
       setInquirySaveStatus("");
+      setCandidates([]);
+      setUsedCandidateIds([]);
+      setDraftAuditLogId(null);
+      setGuardrailMatches([]);
+      setMedicationIssues([]);
+      setTriage(null);
+      setInquiryIntent(null);
+      setQuickReplies([]);
+      setQuickReplyUsed(null);
+      setSelectedParagraph(null);
+      setRefineInstruction("");
+      setRefinementSteps([]);
       
       // Load existing patient inquiry
       loadPatientInquiry(selectedPatient.id);
@@ -55,10 +112,11 @@ export function DraftMessagePanel({ user, selectedPatient }: DraftMessagePanelPr
   const loadPatientInquiry = async (patientId: string) => {
     try {
       const response = await fetch(`/api/patient-inquiry?patientId=${patientId}`);
-      const result = await response.json() as { success: boolean; patientInquiry?: string; error?: string };
+      const result = await response.json() as { success: boolean; patientInquiry?: string; triage?: TriageResult | null; error?: string };
       
       if (result.success) {
         setPatientInquiry(result.patientInquiry || "");
+        setTriage(result.triage || null);
       }
     } catch (error) {
       console.error("Failed to load patient inquiry:", error);
@@ -79,9 +137,10 @@ export function DraftMessagePanel({ user, selectedPatient }: DraftMessagePanelPr
         })
       });
       
-      const result = await response.json() as { success: boolean; error?: string };
+      const result = await response.json() as { success: boolean; triage?: TriageResult | null; error?: string };
       
       if (result.success) {
+        setTriage(result.triage || null);
         setInquirySaveStatus("Saved");
         setTimeout(() => setInquirySaveStatus(""), 2000);
       } else {
@@ -108,22 +167,62 @@ export function DraftMessagePanel({ user, selectedPatient }: DraftMessagePanelPr
     return () => clearTimeout(timeoutId);
   }, [patientInquiry, selectedPatient]);
 
+  // Re-check guardrails as the inquiry or draft is edited
+  useEffect(() => {
+    if (isGenerating) return;
+    if (!patientInquiry.trim() && !aiResponse.trim()) {
+      setGuardrailMatches([]);
+      setMedicationIssues([]);
+      return;
+    }
+
+    const timeoutId = setTimeout(async () => {
+      const result = await draftService.checkGuardrails({ inquiry: patientInquiry, draft: aiResponse, patientId: selectedPatient?.id });
+      if (result.success && result.matches) {
+        setGuardrailMatches(result.matches);
+        setMedicationIssues(result.medicationIssues || []);
+      }
+    }, 750);
+
+    return () => clearTimeout(timeoutId);
+  }, [patientInquiry, aiResponse, isGenerating, selectedPatient]);
+
+  // Look up quick replies as the inquiry is edited
+  useEffect(() => {
+    if (!selectedPatient || !patientInquiry.trim()) {
+      setInquiryIntent(null);
+      setQuickReplies([]);
+      return;
+    }
+
+    const timeoutId = setTimeout(async () => {
+      const result = await draftService.suggestQuickReplies({ patientId: selectedPatient.id, inquiry: patientInquiry });
+      if (result.success) {
+        setInquiryIntent(result.intent || null);
+        setQuickReplies(result.matches || []);
+      }
+    }, 750);
+
+    return () => clearTimeout(timeoutId);
+  }, [patientInquiry, selectedPatient]);
+
   // Update analysis when response changes
   useEffect(() => {
     if (aiResponse) {
-      const words = aiResponse.trim().split(/\s+/).length;
-      setWordCount(words);
-      setReadingLevel(draftService.analyzeReadingLevel(aiResponse));
+      setWordCount(countWordsIn(aiResponse, draftLanguage));
+      setReadingLevel(draftService.analyzeReadingLevel(aiResponse, draftLanguage));
+      setReadingGrade(measureGradeLevel(aiResponse, draftLanguage));
       
       // Validate against doctor settings (assuming max 300 words for now)
-      const validation = draftService.validateDraft(aiResponse, 300);
+      const validation = draftService.validateDraft(aiResponse, 300, draftLanguage);
       setValidationIssues(validation.issues);
     } else {
       setWordCount(0);
       setReadingLevel("");
+      setReadingGrade(null);
       setValidationIssues([]);
     }
-  }, [aiResponse]);
+  }, [aiResponse, draftLanguage]);
 
   const generateDraft = async () => {
     if (!selectedPatient || !patientInquiry.trim()) {
@@ -131,22 +230,90 @@ export function DraftMessagePanel({ user, selectedPatient }: DraftMessagePanelPr
       return;
     }
 
+    // A draft on screen means staff want a new one rather than the cached response
+    const regenerate = !!aiResponse.trim() || candidates.length > 0;
+
     setIsGenerating(true);
     setError("");
     setAiResponse("");
+    setCandidates([]);
+    setUsedCandidateIds([]);
+    setDraftAuditLogId(null);
+    setSelectionRecorded(false);
+    setReadingCheck(null);
+    setBackTranslation("");
+    setGrounding(undefined);
+    setBudgetWarnings([]);
+    setQuickReplyUsed(null);
+    setSelectedParagraph(null);
+    setRefinementSteps([]);
 
     try {
-      const response = await draftService.generateDraft({
+      if (candidateCount > 1) {
+        const response = await draftService.generateDraft({
+          patientInquiry: patientInquiry.trim(),
+          patientId: selectedPatient.id,
+          userId: user.id,
+          candidateCount,
+          regenerate
+        });
+
+        if (response.success && response.candidates?.length) {
+          // Start from the first candidate; staff can switch or merge paragraphs from the others
+          setCandidates(response.candidates);
+          setAiResponse(response.candidates[0].draft);
+          setUsedCandidateIds([response.candidates[0].id]);
+          setDraftAuditLogId(response.auditLogId || null);
+          setGuardrailMatches(response.guardrails || []);
+          setMedicationIssues(response.medicationIssues || []);
+          setTriage(response.triage || null);
+          setReadingCheck({ target: response.readingLevelTarget ?? null, rewrites: response.candidates[0].readingLevelRewrites });
+          setDraftLanguage(response.language || "en");
+          setBackTranslation(response.backTranslation || "");
+          setGrounding(response.grounding ?? null);
+          setBudgetWarnings(response.budgetWarnings || []);
+          setSuccess(response.cached
+            ? `Showing the ${response.candidates.length} candidate drafts generated moments ago for this request (not billed again)`
+            : `${response.candidates.length} candidate drafts generated`);
+          setTimeout(() => setSuccess(""), 3000);
+        } else {
+          if (response.triage) setTriage(response.triage);
+          setBudgetWarnings(response.budgetWarnings || []);
+          setError(response.error || "Failed to generate drafts");
+        }
+        return;
+      }
+
+      const response = await draftService.generateDraftStream({
         patientInquiry: patientInquiry.trim(),
         patientId: selectedPatient.id,
-        userId: user.id
+        userId: user.id,
+        regenerate
+      }, {
+        onDelta: (content) => setAiResponse(prev => prev + content),
+        onRetract: () => setAiResponse("")
       });
 
       if (response.success && response.draft) {
+        // Final text may differ from the streamed tokens (e.g. truncated to the word limit)
         setAiResponse(response.draft);
-        setSuccess("Draft generated successfully!");
+        setDraftAuditLogId(response.auditLogId || null);
+        setGuardrailMatches(response.guardrails || []);
+        setMedicationIssues(response.medicationIssues || []);
+        setTriage(response.triage || null);
+        setReadingCheck({ target: response.readingLevelTarget ?? null, rewrites: response.readingLevelRewrites || 0 });
+        setDraftLanguage(response.language || "en");
+        setBackTranslation(response.backTranslation || "");
+        setGrounding(response.grounding ?? null);
+        setBudgetWarnings(response.budgetWarnings || []);
+        setSuccess(response.cached
+          ? "Showing the draft generated moments ago for this request (not billed again)"
+          : "Draft generated successfully!");
         setTimeout(() => setSuccess(""), 3000); // Clear success message after 3 seconds
       } else {
+        setAiResponse("");
+        if (response.triage) setTriage(response.triage);
+        setBudgetWarnings(response.budgetWarnings || []);
         setError(response.error || "Failed to generate draft");
       }
     } catch (err) {
@@ -158,6 +325,93 @@ export function DraftMessagePanel({ user, selectedPatient }: DraftMessagePanelPr
   };
 
 
+  const useQuickReply = async (match: QuickReplyMatch) => {
+    if (!selectedPatient) return;
+
+    setIsUsingQuickReply(true);
+    setError("");
+
+    try {
+      const response = await draftService.useQuickReply({
+        templateId: match.templateId,
+        patientId: selectedPatient.id,
+        inquiry: patientInquiry
+      });
+
+      if (response.success && response.draft) {
+        setAiResponse(response.draft);
+        setDraftAuditLogId(response.auditLogId || null);
+        setQuickReplyUsed(match);
+        setCandidates([]);
+        setUsedCandidateIds([]);
+        setSelectionRecorded(false);
+        setReadingCheck(null);
+        setDraftLanguage(response.language || "en");
+        setBackTranslation("");
+        setGrounding(undefined);
+        setBudgetWarnings([]);
+        setSelectedParagraph(null);
+        setRefinementSteps([]);
+        setSuccess(`Quick reply "${match.title}" added`);
+        setTimeout(() => setSuccess(""), 3000);
+      } else {
+        setError(response.error || "Failed to use quick reply");
+      }
+    } finally {
+      setIsUsingQuickReply(false);
+    }
+  };
+
+  const selectParagraphAt = (position: number) => {
+    const span = splitParagraphs(aiResponse).find(paragraph => position >= paragraph.start && position <= paragraph.end);
+    setSelectedParagraph(span ? span.index : null);
+  };
+
+  const refineParagraph = async (instruction: string) => {
+    if (selectedParagraph === null || !draftAuditLogId) return;
+
+    setIsRefining(true);
+    setError("");
+
+    try {
+      const response = await draftService.refineParagraph({
+        auditLogId: draftAuditLogId,
+        draft: aiResponse,
+        paragraphIndex: selectedParagraph,
+        instruction
+      });
+
+      if (response.success && response.draft && response.step) {
+        setAiResponse(response.draft);
+        setRefinementSteps(prev => [...prev, response.step!]);
+        setBudgetWarnings(response.budgetWarnings || []);
+        setRefineInstruction("");
+        setSuccess(`Paragraph ${selectedParagraph + 1} refined`);
+        setTimeout(() => setSuccess(""), 3000);
+      } else {
+        setBudgetWarnings(response.budgetWarnings || []);
+        setError(response.error || "Failed to refine paragraph");
+      }
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  const useCandidate = (candidate: DraftCandidate) => {
+    setAiResponse(candidate.draft);
+    setUsedCandidateIds([candidate.id]);
+    setReadingCheck(prev => prev && { ...prev, rewrites: candidate.readingLevelRewrites });
+  };
+
+  const appendCandidateParagraph = (candidate: DraftCandidate, paragraph: string) => {
+    setAiResponse(prev => prev.trim() ? `${prev.trim()}\n\n${paragraph}` : paragraph);
+    setUsedCandidateIds(prev => prev.includes(candidate.id) ? prev : [...prev, candidate.id]);
+  };
+
+  const clearComposedDraft = () => {
+    setAiResponse("");
+    setUsedCandidateIds([]);
+  };
 
   const handleSendMessage = async () => {
     if (!aiResponse.trim()) {
@@ -176,24 +430,51 @@ export function DraftMessagePanel({ user, selectedPatient }: DraftMessagePanelPr
         return;
       }
 
-      const auditResponse = await fetch('/api/audit-logs', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          patientName: selectedPatient.name,
-          patientId: selectedPatient.id,
-          requestText: patientInquiry,
-          generatedDraft: aiResponse,
-          finalMessage: aiResponse,
-          actionType: 'draft_generated',
-          deliveryStatus: 'draft'
-        })
-      });
+      // Record which candidates were used before the draft moves on
+      if (candidates.length > 1 && draftAuditLogId && !selectionRecorded) {
+        const selectionResult = await draftService.recordCandidateSelection({
+          auditLogId: draftAuditLogId,
+          chosenCandidateIds: usedCandidateIds,
+          finalDraft: aiResponse
+        });
 
-      const auditResult = await auditResponse.json() as { success: boolean; auditLog?: { id: string }; error?: string };
+        if (!selectionResult.success) {
+          setError(selectionResult.error || "Failed to record candidate selection");
+          return;
+        }
+        setSelectionRecorded(true);
+      }
+
+      // Check the final text so block-level matches route the message to review
+      const guardrailCheck = await draftService.checkGuardrails({ inquiry: patientInquiry, draft: aiResponse, patientId: selectedPatient.id });
+      if (!guardrailCheck.success) {
+        setError(guardrailCheck.error || "Failed to check safety guardrails");
+        return;
+      }
+      setGuardrailMatches(guardrailCheck.matches || []);
+      setMedicationIssues(guardrailCheck.medicationIssues || []);
+      const requiresReview = !!guardrailCheck.requiresReview;
+      const requiresDoctorReview = !!guardrailCheck.requiresDoctorReview;
+
+      // Quick replies are recorded when used; other drafts get their entry here
+      const auditResult = quickReplyUsed && draftAuditLogId
+        ? { success: true, auditLog: { id: draftAuditLogId }, error: undefined }
+        : await (await fetch('/api/audit-logs', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            patientName: selectedPatient.name,
+            patientId: selectedPatient.id,
+            requestText: patientInquiry,
+            generatedDraft: aiResponse,
+            finalMessage: aiResponse,
+            actionType: 'draft_generated',
+            deliveryStatus: 'draft'
+          })
+        })).json() as { success: boolean; auditLog?: { id: string }; error?: string };
       
       if (auditResult.success && auditResult.auditLog) {
-        if (canUserSendMessages) {
+        if (canUserSendMessages && !requiresReview) {
           setSuccess("Draft created! Ready to finalize and send.");
         } else {
           setSuccess("Draft created! Ready to submit for review.");
@@ -204,6 +485,9 @@ export function DraftMessagePanel({ user, selectedPatient }: DraftMessagePanelPr
           auditLogId: auditResult.auditLog.id,
           finalMessage: aiResponse,
           patientName: selectedPatient.name,
+          requiresReview,
+          requiresDoctorReview,
+          urgencyLevel: triage?.level,
           createdAt: new Date().toISOString()
         }));
         
@@ -212,7 +496,10 @@ export function DraftMessagePanel({ user, selectedPatient }: DraftMessagePanelPr
           detail: {
             auditLogId: auditResult.auditLog.id,
             finalMessage: aiResponse,
-            patientName: selectedPatient.name
+            patientName: selectedPatient.name,
+            requiresReview,
+            requiresDoctorReview,
+            urgencyLevel: triage?.level
           }
         }));
       } else {
@@ -262,6 +549,9 @@ export function DraftMessagePanel({ user, selectedPatient }: DraftMessagePanelPr
               </div>
             )}
 
+            {/* Urgency Triage */}
+            <UrgencyBanner triage={triage} />
+
             {/* Patient Inquiry Input */}
             <div>
               <div className="flex items-center justify-between">
@@ -295,20 +585,113 @@ export function DraftMessagePanel({ user, selectedPatient }: DraftMessagePanelPr
               />
             </div>
             
+            {/* Quick Replies */}
+            {quickReplies.length > 0 && !quickReplyUsed && (
+              <div className="border border-green-200 bg-green-50 rounded-md p-3">
+                <h4 className="text-sm font-medium text-green-900">
+                  Quick replies for {inquiryIntent ? INTENT_LABELS[inquiryIntent.intent].toLowerCase() : "this request"}
+                </h4>
+                <p className="text-xs text-green-700 mb-2">
+                  Approved by the patient's doctor. Use one, or generate a draft instead.
+                </p>
+                <div className="space-y-2">
+                  {quickReplies.map(match => (
+                    <div key={match.templateId} className="bg-white border border-green-200 rounded-md p-2">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium text-gray-900">{match.title}</span>
+                        <button
+                          onClick={() => useQuickReply(match)}
+                          disabled={isUsingQuickReply || isGenerating}
+                          className="text-xs bg-green-600 text-white px-2 py-1 rounded-md hover:bg-green-700 disabled:opacity-50"
+                        >
+                          {isUsingQuickReply ? "Adding..." : "Use quick reply"}
+                        </button>
+                      </div>
+                      <p className="mt-1 text-xs text-gray-600 whitespace-pre-line line-clamp-3">{match.draft}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Candidate Drafts */}
+            {candidates.length > 1 && (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-gray-700">
+                    Candidate Drafts
+                  </label>
+                  <button
+                    onClick={clearComposedDraft}
+                    disabled={selectionRecorded}
+                    className="text-xs text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                  >
+                    Clear response
+                  </button>
+                </div>
+                <div className={`grid grid-cols-1 gap-3 ${candidates.length === 3 ? "md:grid-cols-3" : "md:grid-cols-2"}`}>
+                  {candidates.map((candidate) => (
+                    <div
+                      key={candidate.id}
+                      className={`border rounded-md p-3 text-sm ${
+                        usedCandidateIds.includes(candidate.id) ? "border-blue-500 bg-blue-50" : "border-gray-200"
+                      }`}
+                    >
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="font-medium text-gray-900">{candidate.label}</span>
+                        <span className="text-xs text-gray-500">
+                          {candidate.guardrails?.length > 0 && (
+                            <span className="text-red-600 mr-2" title={candidate.guardrails.map(match => match.ruleName).join(", ")}>
+                              {candidate.guardrails.length} guardrail {candidate.guardrails.length === 1 ? "match" : "matches"}
+                            </span>
+                          )}
+                          {candidate.wordCount} words
+                        </span>
+                      </div>
+                      <div className="space-y-2 max-h-64 overflow-y-auto">
+                        {candidate.draft.split(/\n\s*\n/).filter(paragraph => paragraph.trim()).map((paragraph, index) => (
+                          <div key={index} className="group flex items-start">
+                            <p className="flex-1 text-gray-700 whitespace-pre-line">{paragraph}</p>
+                            <button
+                              onClick={() => appendCandidateParagraph(candidate, paragraph.trim())}
+                              disabled={selectionRecorded}
+                              title="Add this paragraph to the response"
+                              className="ml-2 text-xs text-blue-600 hover:text-blue-800 opacity-0 group-hover:opacity-100 disabled:hidden"
+                            >
+                              + Add
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                      <button
+                        onClick={() => useCandidate(candidate)}
+                        disabled={selectionRecorded}
+                        className="mt-3 w-full text-xs bg-white border border-blue-600 text-blue-600 px-2 py-1 rounded-md hover:bg-blue-50 disabled:opacity-50"
+                      >
+                        Use this draft
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* AI Generated Response */}
             <div>
               <label className="block text-sm font-medium text-gray-700">
-                AI Generated Response
+                {quickReplyUsed ? `Quick Reply: ${quickReplyUsed.title}` : "AI Generated Response"}
               </label>
               <div className="mt-1 relative">
                 <textarea
                   rows={8}
                   value={aiResponse}
+                  readOnly={isGenerating || isRefining}
                   onChange={(e) => setAiResponse(e.target.value)}
+                  onSelect={(e) => selectParagraphAt(e.currentTarget.selectionStart)}
                   className="block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
                   placeholder="AI-generated response will appear here based on patient context and doctor preferences."
                 />
-                {isGenerating && (
+                {isGenerating && !aiResponse && (
                   <div className="absolute inset-0 bg-gray-50 bg-opacity-75 flex items-center justify-center rounded-md">
                     <div className="flex items-center text-sm text-gray-600">
                       <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600 mr-2"></div>
@@ -319,19 +702,131 @@ export function DraftMessagePanel({ user, selectedPatient }: DraftMessagePanelPr
               </div>
             </div>
 
+            {/* Targeted Refinement */}
+            {aiResponse && draftAuditLogId && !isGenerating && (
+              <div className="border border-gray-200 rounded-md p-3 space-y-2">
+                {selectedParagraph === null || !splitParagraphs(aiResponse)[selectedParagraph] ? (
+                  <p className="text-xs text-gray-500">
+                    Click in a paragraph of the response to ask for a change to that paragraph only.
+                  </p>
+                ) : (
+                  <>
+                    <div className="flex items-center justify-between">
+                      <h4 className="text-sm font-medium text-gray-700">Refine paragraph {selectedParagraph + 1}</h4>
+                      <button
+                        onClick={() => setSelectedParagraph(null)}
+                        className="text-xs text-gray-500 hover:text-gray-700"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                    <p className="text-xs text-gray-600 bg-gray-50 rounded-md p-2 whitespace-pre-line line-clamp-3">
+                      {splitParagraphs(aiResponse)[selectedParagraph].text}
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {REFINEMENT_PRESETS.map(preset => (
+                        <button
+                          key={preset}
+                          onClick={() => refineParagraph(preset)}
+                          disabled={isRefining}
+                          className="text-xs border border-blue-600 text-blue-600 px-2 py-1 rounded-md hover:bg-blue-50 disabled:opacity-50"
+                        >
+                          {preset}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex space-x-2">
+                      <input
+                        type="text"
+                        value={refineInstruction}
+                        onChange={(e) => setRefineInstruction(e.target.value)}
+                        placeholder='Or describe the change, e.g. "remove the lab mention"'
+                        className="flex-1 border border-gray-300 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <button
+                        onClick={() => refineParagraph(refineInstruction)}
+                        disabled={isRefining || !refineInstruction.trim()}
+                        className="text-xs bg-blue-600 text-white px-3 py-1 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        {isRefining ? "Refining..." : "Refine"}
+                      </button>
+                    </div>
+                  </>
+                )}
+
+                {refinementSteps.length > 0 && (
+                  <div className="pt-2 border-t border-gray-100">
+                    <h5 className="text-xs font-medium text-gray-700 mb-1">Refinements</h5>
+                    <ul className="space-y-1">
+                      {refinementSteps.map((step, index) => (
+                        <li key={index} className="text-xs text-gray-600">
+                          <span className="font-medium">Paragraph {step.paragraphIndex + 1}: {step.instruction}</span>
+                          <p className="mt-0.5 whitespace-pre-line">
+                            {step.diff.map((op, opIndex) => (
+                              <span
+                                key={opIndex}
+                                className={op.type === "insert" ? "bg-green-100 text-green-800" : op.type === "delete" ? "bg-red-100 text-red-700 line-through" : ""}
+                              >
+                                {op.text}
+                              </span>
+                            ))}
+                          </p>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Validation and Analysis */}
             {aiResponse && (
               <div className="bg-gray-50 rounded-lg p-3 space-y-2">
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-600">Word Count:</span>
-                  <span className={wordCount > 300 ? "text-red-600 font-medium" : "text-gray-900"}>
-                    {wordCount}/300 words
+                  <span className={wordCount > wordLimitFor(300, draftLanguage) ? "text-red-600 font-medium" : "text-gray-900"}>
+                    {wordCount}/{wordLimitFor(300, draftLanguage)} {draftLanguage === "zh" ? "characters" : "words"}
                   </span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-600">Reading Level:</span>
-                  <span className="text-gray-900">{readingLevel}</span>
+                  <span className={readingCheck?.target != null && readingGrade !== null && readingGrade > readingCheck.target ? "text-amber-700 font-medium" : "text-gray-900"}>
+                    {readingLevel}{readingGrade !== null && ` (grade ${readingGrade})`}
+                    {readingCheck?.target != null && ` / target ≤ ${readingCheck.target}`}
+                  </span>
                 </div>
+                {readingCheck && readingCheck.rewrites > 0 && (
+                  <p className="text-xs text-gray-500">
+                    Simplified automatically ({readingCheck.rewrites} {readingCheck.rewrites === 1 ? "pass" : "passes"}) to match the doctor's reading level.
+                  </p>
+                )}
+                {grounding === null && (
+                  <p className="text-xs text-amber-600">
+                    Sources could not be checked for this draft; reviewers will verify each statement manually.
+                  </p>
+                )}
+                {grounding && grounding.ungroundedCount > 0 && (
+                  <p className="text-xs text-red-700">
+                    {grounding.ungroundedCount} {grounding.ungroundedCount === 1 ? "sentence" : "sentences"} in the generated draft {grounding.ungroundedCount === 1 ? "is" : "are"} not supported by the patient brief. Reviewers will see {grounding.ungroundedCount === 1 ? "it" : "them"} flagged.
+                  </p>
+                )}
+                {budgetWarnings.map(warning => (
+                  <p key={warning} className="text-xs text-amber-600">{warning}.</p>
+                ))}
+                {draftLanguage !== "en" && (
+                  <div className="text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Language:</span>
+                      <span className="text-gray-900">{languageName(draftLanguage)} (patient preference)</span>
+                    </div>
+                    {backTranslation && (
+                      <details className="mt-1">
+                        <summary className="text-xs text-blue-600 cursor-pointer">English back-translation of the generated draft</summary>
+                        <p className="mt-1 text-xs text-gray-700 whitespace-pre-wrap">{backTranslation}</p>
+                      </details>
+                    )}
+                  </div>
+                )}
                 {validationIssues.length > 0 && (
                   <div className="mt-2">
                     <h5 className="text-sm font-medium text-red-800 mb-1">Validation Issues:</h5>
@@ -348,11 +843,28 @@ export function DraftMessagePanel({ user, selectedPatient }: DraftMessagePanelPr
               </div>
             )}
 
+            {/* Safety Guardrails */}
+            <GuardrailFindings inquiry={patientInquiry} draft={aiResponse} matches={guardrailMatches} />
+
+            {/* Allergy and medication check against the patient brief */}
+            <MedicationIssues issues={medicationIssues} />
+
             {/* Action Buttons */}
             <div className="flex space-x-3">
+              <select
+                value={candidateCount}
+                onChange={(e) => setCandidateCount(Number(e.target.value))}
+                disabled={isGenerating}
+                title="Number of candidate drafts"
+                className="border border-gray-300 rounded-md py-2 px-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value={1}>1 draft</option>
+                <option value={2}>2 candidates</option>
+                <option value={3}>3 candidates</option>
+              </select>
               <button
                 onClick={generateDraft}
-                disabled={isGenerating || !selectedPatient || !patientInquiry.trim()}
+                disabled={isGenerating || !selectedPatient || !patientInquiry.trim() || triage?.level === "emergency"}
                 className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {isGenerating ? (
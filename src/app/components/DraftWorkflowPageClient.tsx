@@ -4,8 +4,11 @@ import { useState, useEffect } from "react";
 import { PatientSelectionPanel } from "./PatientSelectionPanel";
 import { DraftMessagePanel } from "./DraftMessagePanel";
 import { MessageFinalizationPanel } from "./MessageFinalizationPanel";
+import { ConversationThread } from "./ConversationThread";
+import { UndoSendButton } from "./UndoSendButton";
 import { canSendMessages } from "@/lib/server-functions";
 import { type User } from "@/db";
+import type { UrgencyLevel } from "@/lib/triage";
 
 interface Patient {
   id: string;
@@ -20,18 +23,27 @@ interface DraftWorkflowPageClientProps {
   initialPatients: Patient[];
 }
 
+interface PendingDraft {
+  auditLogId: string;
+  finalMessage: string;
+  patientName: string;
+  requiresReview?: boolean;
+  requiresDoctorReview?: boolean;
+  urgencyLevel?: UrgencyLevel;
+}
+
 export function DraftWorkflowPageClient({ user, initialPatients }: DraftWorkflowPageClientProps) {
   const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
   const [recentActivity, setRecentActivity] = useState<any[]>([]);
-  const [pendingDraft, setPendingDraft] = useState<{
-    auditLogId: string;
-    finalMessage: string;
-    patientName: string;
-  } | null>(null);
+  const [pendingDraft, setPendingDraft] = useState<PendingDraft | null>(null);
+  // The draft just sent, reopened for editing if the send is undone
+  const [sentDraft, setSentDraft] = useState<PendingDraft | null>(null);
   const [workflowStatus, setWorkflowStatus] = useState<{
     success: boolean;
     message: string;
     nextStep?: string;
+    auditLogId?: string;
+    undoUntil?: string; // Set while the sent message can still be recalled
   } | null>(null);
 
   const canUserSendMessages = canSendMessages(user);
@@ -83,9 +95,10 @@ export function DraftWorkflowPageClient({ user, initialPatients }: DraftWorkflow
     setWorkflowStatus(null);
   };
 
-  const handleWorkflowComplete = (result: { success: boolean; message: string; nextStep?: string }) => {
+  const handleWorkflowComplete = (result: { success: boolean; message: string; nextStep?: string; auditLogId?: string; undoUntil?: string }) => {
     setWorkflowStatus(result);
     if (result.success) {
+      setSentDraft(pendingDraft);
       setPendingDraft(null);
     }
     
@@ -93,6 +106,14 @@ export function DraftWorkflowPageClient({ user, initialPatients }: DraftWorkflow
     window.dispatchEvent(new CustomEvent('workflowComplete', { detail: result }));
   };
 
+  const handleRecalled = (finalMessage: string) => {
+    if (sentDraft) {
+      setPendingDraft({ ...sentDraft, finalMessage: finalMessage || sentDraft.finalMessage });
+    }
+    setSentDraft(null);
+    setWorkflowStatus({ success: true, message: "Message recalled to draft; edit it below and send it again when ready" });
+  };
+
   const getRoleInformation = () => {
     switch (user.role) {
       case 'staff':
@@ -165,6 +186,16 @@ export function DraftWorkflowPageClient({ user, initialPatients }: DraftWorkflow
                 </p>
               )}
             </div>
+            {workflowStatus.success && workflowStatus.auditLogId && workflowStatus.undoUntil && (
+              <div className="ml-auto pl-3">
+                <UndoSendButton
+                  auditLogId={workflowStatus.auditLogId}
+                  undoUntil={workflowStatus.undoUntil}
+                  onRecalled={handleRecalled}
+                  onError={(message) => setWorkflowStatus({ success: false, message })}
+                />
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -186,6 +217,15 @@ export function DraftWorkflowPageClient({ user, initialPatients }: DraftWorkflow
         />
       </div>
 
+      {/* Conversation Thread */}
+      {selectedPatient && (
+        <ConversationThread
+          user={user}
+          patientId={selectedPatient.id}
+          patientName={selectedPatient.name}
+        />
+      )}
+
       {/* Message Finalization Panel */}
       {pendingDraft && (
         <div className="space-y-6">
@@ -198,6 +238,9 @@ export function DraftWorkflowPageClient({ user, initialPatients }: DraftWorkflow
               auditLogId={pendingDraft.auditLogId}
               initialMessage={pendingDraft.finalMessage}
               patientName={pendingDraft.patientName}
+              requiresReview={pendingDraft.requiresReview}
+              requiresDoctorReview={pendingDraft.requiresDoctorReview}
+              urgencyLevel={pendingDraft.urgencyLevel}
               onWorkflowComplete={handleWorkflowComplete}
             />
           </div>
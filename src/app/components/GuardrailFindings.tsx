@@ -0,0 +1,103 @@
+"use client";
+
+import {
+  GUARDRAIL_CATEGORIES,
+  segmentGuardrailMatches,
+  summarizeGuardrails,
+  type GuardrailMatch,
+  type GuardrailSeverity
+} from "@/lib/guardrails";
+
+interface GuardrailFindingsProps {
+  inquiry: string;
+  draft: string;
+  matches: GuardrailMatch[];
+}
+
+const SEVERITY_STYLES: Record<GuardrailSeverity, { label: string; badge: string; highlight: string }> = {
+  block: { label: "Block", badge: "bg-red-100 text-red-800", highlight: "bg-red-200" },
+  require_doctor_review: { label: "Doctor review", badge: "bg-orange-100 text-orange-800", highlight: "bg-orange-200" },
+  warn: { label: "Warning", badge: "bg-yellow-100 text-yellow-800", highlight: "bg-yellow-200" }
+};
+
+function HighlightedText({ text, matches }: { text: string; matches: GuardrailMatch[] }) {
+  return (
+    <p className="text-sm text-gray-700 whitespace-pre-wrap bg-white border border-gray-200 rounded-md p-2 max-h-48 overflow-y-auto">
+      {segmentGuardrailMatches(text, matches).map((segment, index) => {
+        if (segment.matches.length === 0) {
+          return <span key={index}>{segment.text}</span>;
+        }
+
+        const { highestSeverity } = summarizeGuardrails(segment.matches);
+        return (
+          <mark
+            key={index}
+            title={segment.matches.map(match => `${match.ruleName}: ${match.explanation}`).join("\n")}
+            className={`${SEVERITY_STYLES[highestSeverity!].highlight} rounded px-0.5`}
+          >
+            {segment.text}
+          </mark>
+        );
+      })}
+    </p>
+  );
+}
+
+/**
+ * Guardrail matches with the matched spans highlighted in the inquiry and draft
+ */
+export function GuardrailFindings({ inquiry, draft, matches }: GuardrailFindingsProps) {
+  if (matches.length === 0) return null;
+
+  const summary = summarizeGuardrails(matches);
+  const inquiryMatches = matches.filter(match => match.target === "inquiry");
+  const draftMatches = matches.filter(match => match.target === "draft");
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 space-y-3">
+      <h5 className="text-sm font-medium text-gray-900">Safety Guardrails</h5>
+
+      {summary.requiresReview && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-2 text-sm text-red-700">
+          A blocking rule matched. This message must be submitted for review before it can be sent.
+        </div>
+      )}
+      {summary.requiresDoctorReview && (
+        <div className="bg-orange-50 border border-orange-200 rounded-md p-2 text-sm text-orange-700">
+          A doctor must approve this message before it is sent.
+        </div>
+      )}
+
+      {inquiryMatches.length > 0 && (
+        <div>
+          <span className="block text-xs font-medium text-gray-500 mb-1">Patient Inquiry</span>
+          <HighlightedText text={inquiry} matches={inquiryMatches} />
+        </div>
+      )}
+
+      {draftMatches.length > 0 && (
+        <div>
+          <span className="block text-xs font-medium text-gray-500 mb-1">Draft</span>
+          <HighlightedText text={draft} matches={draftMatches} />
+        </div>
+      )}
+
+      <ul className="space-y-2">
+        {matches.map((match, index) => (
+          <li key={`${match.ruleId}-${match.target}-${match.start}-${index}`} className="text-sm">
+            <div className="flex items-center space-x-2">
+              <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${SEVERITY_STYLES[match.severity].badge}`}>
+                {SEVERITY_STYLES[match.severity].label}
+              </span>
+              <span className="text-xs text-gray-500">{GUARDRAIL_CATEGORIES[match.category] || match.category}</span>
+              <span className="font-medium text-gray-900">{match.ruleName}</span>
+            </div>
+            <p className="mt-1 text-gray-600">
+              <span className="italic">"{match.text}"</span> — {match.explanation}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import { MEDICATION_ISSUE_LABELS, type MedicationIssue } from "@/lib/medication-check";
+
+interface MedicationIssuesProps {
+  issues: MedicationIssue[];
+}
+
+/**
+ * Allergy conflicts and unlisted drugs found in the draft; any issue routes the message to review
+ */
+export function MedicationIssues({ issues }: MedicationIssuesProps) {
+  if (issues.length === 0) return null;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 space-y-3">
+      <h5 className="text-sm font-medium text-gray-900">Medication Check</h5>
+
+      <div className="bg-red-50 border border-red-200 rounded-md p-2 text-sm text-red-700">
+        The draft does not match the patient's recorded allergies or medications. This message must be submitted for review before it can be sent.
+      </div>
+
+      <ul className="space-y-2">
+        {issues.map((issue, index) => (
+          <li key={`${issue.type}-${issue.start}-${index}`} className="text-sm">
+            <div className="flex items-center space-x-2">
+              <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                issue.type === "allergy_conflict" ? "bg-red-100 text-red-800" : "bg-orange-100 text-orange-800"
+              }`}>
+                {MEDICATION_ISSUE_LABELS[issue.type]}
+              </span>
+              <span className="font-medium text-gray-900">{issue.drug || issue.text}</span>
+            </div>
+            <p className="mt-1 text-gray-600">{issue.message}</p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { APPROVAL_ROLE_LABELS, type ApprovalPlan, type ApprovalRole } from "@/lib/approval-policies";
+
+interface SignedStep {
+  id: string;
+  stepIndex: number;
+  approverName: string | null;
+  approverRole: string;
+  notes: string | null;
+  signedAt: string;
+  signatureValid: boolean;
+}
+
+interface ApprovalStatus {
+  plan: ApprovalPlan | null;
+  revision: number;
+  approvals: SignedStep[];
+}
+
+interface MessageApprovalChainProps {
+  auditLogId: string;
+}
+
+/**
+ * The approval steps a message needs, who signed each one and which are still waiting
+ */
+export function MessageApprovalChain({ auditLogId }: MessageApprovalChainProps) {
+  const [status, setStatus] = useState<ApprovalStatus | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    setStatus(null);
+    setError("");
+
+    fetch(`/api/message-workflow/approvals?auditLogId=${encodeURIComponent(auditLogId)}`)
+      .then(response => response.json() as Promise<{ success: boolean; approvals?: ApprovalStatus; error?: string }>)
+      .then(result => {
+        if (cancelled) return;
+        if (result.success) {
+          setStatus(result.approvals || null);
+        } else {
+          setError(result.error || "Failed to load approvals");
+        }
+      })
+      .catch(err => {
+        console.error("Error loading approvals:", err);
+        if (!cancelled) setError("Failed to load approvals");
+      });
+
+    return () => { cancelled = true; };
+  }, [auditLogId]);
+
+  if (error) {
+    return <p className="text-xs text-red-600">{error}</p>;
+  }
+
+  // Single-review messages need no chain
+  if (!status?.plan || status.plan.steps.length < 2) {
+    return null;
+  }
+
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-700 uppercase tracking-wide">
+        Approvals ({status.plan.policyName})
+      </label>
+      <ol className="mt-1 space-y-1 text-sm">
+        {status.plan.steps.map((step, index) => {
+          const signed = status.approvals.find(approval => approval.stepIndex === index);
+          const isNext = index === status.approvals.length;
+
+          return (
+            <li key={index} className="flex justify-between items-center border rounded-md px-3 py-2">
+              <span className="text-gray-700">
+                <span className="font-medium">Step {index + 1}:</span> {APPROVAL_ROLE_LABELS[step as ApprovalRole] || step}
+              </span>
+              {signed ? (
+                <span className={`text-xs ${signed.signatureValid ? "text-green-700" : "text-red-600"}`} title={signed.notes || undefined}>
+                  {signed.signatureValid ? "Signed" : "Signature invalid"} by {signed.approverName || "unknown"}
+                  {" · "}{new Date(signed.signedAt).toLocaleString()}
+                </span>
+              ) : (
+                <span className={`text-xs ${isNext ? "text-blue-700" : "text-gray-400"}`}>
+                  {isNext ? "Waiting for approval" : "Pending"}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -3,13 +3,18 @@
 import { useState, useEffect } from "react";
 import { type User } from "@/db";
 import { canSendMessages } from "@/lib/server-functions";
+import { priorityForUrgency, queuePriorityFor, type UrgencyLevel } from "@/lib/triage";
+import { formatInTimeZone } from "@/lib/quiet-hours";
 
 interface MessageFinalizationPanelProps {
   user: User;
   auditLogId: string;
   initialMessage: string;
   patientName: string;
-  onWorkflowComplete: (result: { success: boolean; message: string; nextStep?: string }) => void;
+  requiresReview?: boolean; // A blocking guardrail matched; direct send is not allowed
+  requiresDoctorReview?: boolean; // A guardrail matched that only a doctor may sign off
+  urgencyLevel?: UrgencyLevel; // Inquiry triage; sets the default delivery priority
+  onWorkflowComplete: (result: { success: boolean; message: string; nextStep?: string; auditLogId?: string; undoUntil?: string }) => void;
 }
 
 interface RecipientInfo {
@@ -20,24 +25,51 @@ interface RecipientInfo {
   scheduledFor?: Date;
 }
 
+interface SendWindowView {
+  sendAt: string;
+  deferred: boolean;
+  reason: 'quiet_hours' | 'contact_hours' | null;
+  overridden: boolean;
+  patientTimeZone: string;
+}
+
+const DEFERRAL_REASONS = {
+  quiet_hours: "the clinic's quiet hours",
+  contact_hours: "the patient's contact hours"
+};
+
+// datetime-local inputs read and write the browser's local time
+function toLocalInputValue(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
 export function MessageFinalizationPanel({ 
   user, 
   auditLogId, 
   initialMessage, 
   patientName,
+  requiresReview = false,
+  requiresDoctorReview = false,
+  urgencyLevel,
   onWorkflowComplete 
 }: MessageFinalizationPanelProps) {
   const [finalMessage, setFinalMessage] = useState(initialMessage);
   const [recipientInfo, setRecipientInfo] = useState<RecipientInfo>({
     deliveryMethod: 'email',
-    priority: 'normal'
+    priority: urgencyLevel ? priorityForUrgency(urgencyLevel) : 'normal'
   });
   const [isProcessing, setIsProcessing] = useState(false);
   const [showRecipientForm, setShowRecipientForm] = useState(false);
   const [wordCount, setWordCount] = useState(0);
   const [hasChanges, setHasChanges] = useState(false);
+  const [sendWindow, setSendWindow] = useState<SendWindowView | null>(null);
+  const staffTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
 
-  const canUserSendDirectly = canSendMessages(user);
+  // Guardrail matches route the message to review; the server enforces the same rules
+  const canUserSendDirectly = canSendMessages(user) &&
+    !requiresReview &&
+    (!requiresDoctorReview || ['doctor', 'admin'].includes(user.role));
 
   useEffect(() => {
     const words = finalMessage.trim().split(/\s+/).length;
@@ -45,6 +77,31 @@ export function MessageFinalizationPanel({
     setHasChanges(finalMessage !== initialMessage);
   }, [finalMessage, initialMessage]);
 
+  // The server applies quiet hours and the patient's contact hours; show where the send will land
+  // at the priority it will queue with, which the triaged urgency can raise above the form's
+  useEffect(() => {
+    if (!showRecipientForm && !canUserSendDirectly) return;
+
+    const params = new URLSearchParams({
+      auditLogId,
+      deliveryMethod: recipientInfo.deliveryMethod,
+      priority: queuePriorityFor(recipientInfo.priority, urgencyLevel)
+    });
+    if (recipientInfo.scheduledFor) {
+      params.set('sendAt', recipientInfo.scheduledFor.toISOString());
+    }
+
+    let cancelled = false;
+    fetch(`/api/message-workflow/send-window?${params}`)
+      .then(response => response.json() as Promise<{ success: boolean; sendWindow?: SendWindowView }>)
+      .then(result => {
+        if (!cancelled) setSendWindow(result.success && result.sendWindow ? result.sendWindow : null);
+      })
+      .catch(error => console.error('Error fetching send window:', error));
+
+    return () => { cancelled = true; };
+  }, [auditLogId, recipientInfo.deliveryMethod, recipientInfo.priority, recipientInfo.scheduledFor, urgencyLevel, showRecipientForm, canUserSendDirectly]);
+
   const handleSubmitForReview = async () => {
     if (!finalMessage.trim()) return;
 
@@ -108,13 +165,15 @@ export function MessageFinalizationPanel({
         })
       });
 
-      const result = await response.json() as { success: boolean; error?: string };
+      const result = await response.json() as { success: boolean; message?: string; undoUntil?: string; error?: string };
       
       if (result.success) {
         onWorkflowComplete({
           success: true,
-          message: "Message sent successfully and queued for delivery",
-          nextStep: "sent"
+          message: result.message || "Message sent successfully and queued for delivery",
+          nextStep: "sent",
+          auditLogId,
+          undoUntil: result.undoUntil
         });
       } else {
         onWorkflowComplete({
@@ -230,7 +289,48 @@ export function MessageFinalizationPanel({
                     <option value="urgent">Urgent</option>
                   </select>
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Send At (Optional)
+                  </label>
+                  <input
+                    type="datetime-local"
+                    value={recipientInfo.scheduledFor ? toLocalInputValue(recipientInfo.scheduledFor) : ''}
+                    min={toLocalInputValue(new Date())}
+                    onChange={(e) => setRecipientInfo(prev => ({
+                      ...prev,
+                      scheduledFor: e.target.value ? new Date(e.target.value) : undefined
+                    }))}
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">Leave blank to send now.</p>
+                </div>
               </div>
+
+              {sendWindow && (
+                <div className={`mt-4 rounded-md border p-3 text-sm ${sendWindow.deferred ? 'border-amber-200 bg-amber-50' : 'border-gray-200 bg-gray-50'}`}>
+                  <div className="font-medium text-gray-900">
+                    {sendWindow.deferred || recipientInfo.scheduledFor ? "Effective send time" : "Sends now"}
+                  </div>
+                  <div className="mt-1 text-gray-700">
+                    Your time: {formatInTimeZone(sendWindow.sendAt, staffTimeZone)}
+                  </div>
+                  <div className="text-gray-700">
+                    Patient's time: {formatInTimeZone(sendWindow.sendAt, sendWindow.patientTimeZone)} ({sendWindow.patientTimeZone})
+                  </div>
+                  {sendWindow.deferred && sendWindow.reason && (
+                    <p className="mt-1 text-amber-800">
+                      Falls within {DEFERRAL_REASONS[sendWindow.reason]}; moved to the next allowed time.
+                    </p>
+                  )}
+                  {sendWindow.overridden && sendWindow.reason && (
+                    <p className="mt-1 text-red-700">
+                      Urgent: sends despite {DEFERRAL_REASONS[sendWindow.reason]}.
+                    </p>
+                  )}
+                </div>
+              )}
             </div>
           )}
 
@@ -300,7 +400,13 @@ export function MessageFinalizationPanel({
 
             {/* Workflow Information */}
             <div className="mt-3 text-xs text-gray-500">
-              {canUserSendDirectly ? (
+              {(requiresReview || requiresDoctorReview) && canSendMessages(user) && !canUserSendDirectly ? (
+                <p>
+                  <span className="font-medium">Review Required:</span> {requiresReview
+                    ? "A blocking safety guardrail matched, so this message must be reviewed before delivery."
+                    : "A safety guardrail matched that requires a doctor to approve this message."}
+                </p>
+              ) : canUserSendDirectly ? (
                 <p>
                   <span className="font-medium">Direct Send:</span> Your role allows sending messages directly to patients.
                 </p>
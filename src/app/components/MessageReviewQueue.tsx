@@ -3,6 +3,17 @@
 import { useState, useEffect } from "react";
 import { type User } from "@/db";
 import { hasRole } from "@/lib/auth";
+import { languageName, normalizeLanguage } from "@/lib/languages";
+import type { DraftGrounding } from "@/lib/grounding";
+import type { ReviewComment } from "@/lib/review-comments";
+import { describeTimeLeft } from "@/lib/review-assignment";
+import { describeStep, parseApprovalPlan } from "@/lib/approval-policies";
+import { summarizeBulkResults, type BulkReviewAction, type BulkReviewItemResult } from "@/lib/bulk-review";
+import { DraftGroundingView } from "./DraftGroundingView";
+import { MessageRevisionHistory } from "./MessageRevisionHistory";
+import { MessageApprovalChain } from "./MessageApprovalChain";
+import { ReturnedMessagesPanel } from "./ReturnedMessagesPanel";
+import { UndoSendButton } from "./UndoSendButton";
 
 interface PendingMessage {
   id: string;
@@ -10,6 +21,26 @@ interface PendingMessage {
   finalMessage: string;
   generatedDraft: string;
   requestText: string;
+  draftLanguage?: string | null;
+  backTranslation?: string | null; // English back-translation of finalMessage
+  draftGrounding?: string | null; // JSON DraftGrounding of the generated draft
+  medicalHistory?: string | null;
+  currentMedications?: string | null;
+  allergies?: string | null;
+  doctorNotes?: string | null;
+  revision?: number | null; // Greater than 1 once the author has resubmitted after requested changes
+  approvalPlan?: string | null; // JSON ApprovalPlan chosen when the message was submitted
+  approvalsSigned?: number | null; // Steps of the current revision signed so far
+  // Assignment, SLA and claim; null until the message has been assigned
+  assigneeId?: string | null;
+  assigneeName?: string | null;
+  assignedVia?: string | null;
+  dueAt?: string | null;
+  escalateToName?: string | null;
+  escalationLevel?: number | null;
+  claimedBy?: string | null; // Only set while the claim is unexpired
+  claimantName?: string | null;
+  claimExpiresAt?: string | null;
   createdAt: string;
   user: {
     username: string;
@@ -26,6 +57,23 @@ interface MessageReviewQueueProps {
   user: User;
 }
 
+type ReviewAction = 'approve' | 'reject' | 'request_changes';
+
+const ACTION_RESULTS: Record<ReviewAction, string> = {
+  approve: 'Message approved successfully',
+  reject: 'Message rejected',
+  request_changes: 'Message returned to its author with your comments'
+};
+
+function parseGrounding(value?: string | null): DraftGrounding | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as DraftGrounding;
+  } catch {
+    return null;
+  }
+}
+
 export function MessageReviewQueue({ user }: MessageReviewQueueProps) {
   const [pendingMessages, setPendingMessages] = useState<PendingMessage[]>([]);
   const [selectedMessage, setSelectedMessage] = useState<PendingMessage | null>(null);
@@ -35,8 +83,27 @@ export function MessageReviewQueue({ user }: MessageReviewQueueProps) {
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState("");
   const [success, setSuccess] = useState("");
+  // The last approved message while it can still be recalled
+  const [undoable, setUndoable] = useState<{ auditLogId: string; patientName: string; undoUntil: string } | null>(null);
+  // Back-translation and the text it was made for, so edits are never shown against a stale translation
+  const [backTranslation, setBackTranslation] = useState<{ text: string; translation: string } | null>(null);
+  const [isTranslating, setIsTranslating] = useState(false);
+  // Inline comments on the submitted text, sent when requesting changes
+  const [comments, setComments] = useState<ReviewComment[]>([]);
+  const [commentSpan, setCommentSpan] = useState<{ start: number; end: number } | null>(null);
+  const [commentText, setCommentText] = useState("");
+  const [onlyMine, setOnlyMine] = useState(false);
+  // Re-rendered every minute so SLA and claim countdowns stay current
+  const [now, setNow] = useState(() => new Date());
+  // Multi-select for bulk approve, reject and reassign
+  const [checkedIds, setCheckedIds] = useState<string[]>([]);
+  const [reviewers, setReviewers] = useState<{ id: string; username: string; role: string }[]>([]);
+  const [bulkAssigneeId, setBulkAssigneeId] = useState("");
+  const [bulkFailures, setBulkFailures] = useState<BulkReviewItemResult[]>([]);
+  const [isBulkProcessing, setIsBulkProcessing] = useState(false);
 
   const canReview = hasRole(user, 'reviewer');
+  const canClaim = canReview && user.role !== 'auditor';
 
   useEffect(() => {
     if (canReview) {
@@ -44,13 +111,60 @@ export function MessageReviewQueue({ user }: MessageReviewQueueProps) {
     }
   }, [canReview]);
 
+  useEffect(() => {
+    if (canClaim) {
+      fetch('/api/message-workflow/reviewers')
+        .then(response => response.json() as Promise<{ success: boolean; reviewers?: { id: string; username: string; role: string }[] }>)
+        .then(result => setReviewers(result.success ? result.reviewers || [] : []))
+        .catch(err => console.error('Error loading reviewers:', err));
+    }
+  }, [canClaim]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
   useEffect(() => {
     if (selectedMessage) {
       setEditedMessage(selectedMessage.finalMessage);
       setReviewNotes("");
+      setComments([]);
+      setCommentSpan(null);
+      setCommentText("");
+      setBackTranslation(selectedMessage.backTranslation
+        ? { text: selectedMessage.finalMessage, translation: selectedMessage.backTranslation }
+        : null);
     }
   }, [selectedMessage]);
 
+  const translateEdits = async () => {
+    if (!selectedMessage) return;
+
+    setIsTranslating(true);
+    setError("");
+
+    try {
+      const response = await fetch('/api/message-workflow/back-translate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ auditLogId: selectedMessage.id, text: editedMessage })
+      });
+      const result = await response.json() as { success: boolean; backTranslation?: string; error?: string };
+
+      if (result.success && result.backTranslation) {
+        setBackTranslation({ text: editedMessage, translation: result.backTranslation });
+      } else {
+        setError(result.error || 'Failed to back-translate message');
+      }
+    } catch (err) {
+      console.error('Error back-translating message:', err);
+      setError('Failed to back-translate message');
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
   const loadPendingMessages = async () => {
     try {
       setIsLoading(true);
@@ -70,7 +184,78 @@ export function MessageReviewQueue({ user }: MessageReviewQueueProps) {
     }
   };
 
-  const handleReviewAction = async (action: 'approve' | 'reject') => {
+  const selectCommentSpan = (start: number, end: number) => {
+    // Offsets are only meaningful on the text as the author submitted it
+    if (!selectedMessage || editedMessage !== selectedMessage.finalMessage || start === end) {
+      setCommentSpan(null);
+      return;
+    }
+    setCommentSpan({ start, end });
+  };
+
+  const addComment = () => {
+    if (!selectedMessage || !commentSpan || !commentText.trim()) return;
+
+    setComments(prev => [...prev, {
+      start: commentSpan.start,
+      end: commentSpan.end,
+      quote: selectedMessage.finalMessage.slice(commentSpan.start, commentSpan.end),
+      comment: commentText.trim()
+    }]);
+    setCommentSpan(null);
+    setCommentText("");
+  };
+
+  const updateClaim = (auditLogId: string, claim: Pick<PendingMessage, 'claimedBy' | 'claimantName' | 'claimExpiresAt'>) => {
+    setPendingMessages(prev => prev.map(msg => msg.id === auditLogId ? { ...msg, ...claim } : msg));
+  };
+
+  const claimMessage = async (auditLogId: string) => {
+    setError("");
+
+    try {
+      const response = await fetch('/api/message-workflow/claim', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ auditLogId })
+      });
+      const result = await response.json() as { success: boolean; assignment?: { claimExpiresAt: string }; error?: string };
+
+      if (result.success && result.assignment) {
+        updateClaim(auditLogId, { claimedBy: user.id, claimantName: user.username, claimExpiresAt: result.assignment.claimExpiresAt });
+      } else {
+        setError(result.error || 'Failed to claim message');
+        loadPendingMessages();
+      }
+    } catch (err) {
+      console.error('Error claiming message:', err);
+      setError('Failed to claim message');
+    }
+  };
+
+  const releaseMessage = async (auditLogId: string) => {
+    setError("");
+
+    try {
+      const response = await fetch('/api/message-workflow/release', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ auditLogId })
+      });
+      const result = await response.json() as { success: boolean; error?: string };
+
+      if (result.success) {
+        updateClaim(auditLogId, { claimedBy: null, claimantName: null, claimExpiresAt: null });
+      } else {
+        setError(result.error || 'Failed to release claim');
+      }
+    } catch (err) {
+      console.error('Error releasing claim:', err);
+      setError('Failed to release claim');
+    }
+  };
+
+  const handleReviewAction = async (action: ReviewAction) => {
     if (!selectedMessage) return;
 
     setIsProcessing(true);
@@ -85,14 +270,19 @@ export function MessageReviewQueue({ user }: MessageReviewQueueProps) {
           auditLogId: selectedMessage.id,
           action,
           reviewNotes: reviewNotes.trim() || undefined,
-          finalMessage: editedMessage !== selectedMessage.finalMessage ? editedMessage : undefined
+          finalMessage: action === 'approve' && editedMessage !== selectedMessage.finalMessage ? editedMessage : undefined,
+          comments: action === 'request_changes' ? comments : undefined
         })
       });
 
-      const result = await response.json() as { success: boolean; error?: string };
+      const result = await response.json() as { success: boolean; message?: string; nextStep?: string; undoUntil?: string; error?: string };
       
       if (result.success) {
-        setSuccess(`Message ${action}d successfully`);
+        // An earlier approval step leaves the message waiting for the next approver
+        setSuccess(result.nextStep === 'pending_review' && result.message ? result.message : ACTION_RESULTS[action]);
+        setUndoable(result.undoUntil
+          ? { auditLogId: selectedMessage.id, patientName: selectedMessage.patientName, undoUntil: result.undoUntil }
+          : null);
         
         // Remove from pending list
         setPendingMessages(prev => prev.filter(msg => msg.id !== selectedMessage.id));
@@ -103,20 +293,97 @@ export function MessageReviewQueue({ user }: MessageReviewQueueProps) {
         // Clear success message after 3 seconds
         setTimeout(() => setSuccess(""), 3000);
       } else {
-        setError(result.error || `Failed to ${action} message`);
+        setError(result.error || 'Failed to review message');
       }
     } catch (err) {
-      console.error(`Error ${action}ing message:`, err);
-      setError(`Failed to ${action} message`);
+      console.error('Error reviewing message:', err);
+      setError('Failed to review message');
     } finally {
       setIsProcessing(false);
     }
   };
 
+  const handleBulkAction = async (action: BulkReviewAction) => {
+    const ids = checkedIds.filter(id => pendingMessages.some(msg => msg.id === id));
+    if (ids.length === 0) return;
+    if (action === 'reject' && !confirm(`Reject ${ids.length} message${ids.length !== 1 ? 's' : ''}? They will not be sent.`)) return;
+
+    setIsBulkProcessing(true);
+    setError("");
+    setSuccess("");
+    setBulkFailures([]);
+
+    try {
+      const response = await fetch('/api/message-workflow/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action,
+          auditLogIds: ids,
+          assigneeId: action === 'reassign' ? bulkAssigneeId : undefined
+        })
+      });
+      const result = await response.json() as { success: boolean; results?: BulkReviewItemResult[]; error?: string };
+
+      if (!result.success || !result.results) {
+        setError(result.error || 'Failed to process selected messages');
+        return;
+      }
+
+      const results = result.results;
+      const failures = results.filter(item => !item.success);
+      setBulkFailures(failures);
+      setSuccess(summarizeBulkResults(action, results));
+      setTimeout(() => setSuccess(""), 5000);
+
+      // Failed messages stay selected so they can be retried or opened one by one
+      setCheckedIds(failures.map(item => item.auditLogId));
+      if (selectedMessage && results.some(item => item.success && item.auditLogId === selectedMessage.id)) {
+        setSelectedMessage(null);
+      }
+      if (action === 'reassign') {
+        await loadPendingMessages();
+      } else {
+        // Messages still waiting for a later approval step stay in the queue
+        const done = new Set(results.filter(item => item.success && item.nextStep !== 'pending_review').map(item => item.auditLogId));
+        setPendingMessages(prev => prev.filter(msg => !done.has(msg.id)));
+      }
+    } catch (err) {
+      console.error('Error processing bulk review:', err);
+      setError('Failed to process selected messages');
+    } finally {
+      setIsBulkProcessing(false);
+    }
+  };
+
+  const toggleChecked = (auditLogId: string) => {
+    setCheckedIds(prev => prev.includes(auditLogId) ? prev.filter(id => id !== auditLogId) : [...prev, auditLogId]);
+  };
+
   const formatDate = (dateStr: string) => {
     return new Date(dateStr).toLocaleString();
   };
 
+  const isClaimedByOther = (message: PendingMessage) => {
+    return !!message.claimedBy && message.claimedBy !== user.id
+      && !!message.claimExpiresAt && new Date(message.claimExpiresAt) > now;
+  };
+
+  const visibleMessages = onlyMine
+    ? pendingMessages.filter(msg => msg.assigneeId === user.id || msg.claimedBy === user.id)
+    : pendingMessages;
+  const checkedVisible = visibleMessages.filter(msg => checkedIds.includes(msg.id));
+  const allVisibleChecked = visibleMessages.length > 0 && checkedVisible.length === visibleMessages.length;
+  // Claim state lives in the list so claiming does not reset the edits in the review panel
+  const selectedClaim = selectedMessage
+    ? pendingMessages.find(msg => msg.id === selectedMessage.id) ?? selectedMessage
+    : null;
+  const heldByOther = !!selectedClaim && isClaimedByOther(selectedClaim);
+  // Once a step is signed the text is fixed for the remaining approvers
+  const approvalPlan = parseApprovalPlan(selectedMessage?.approvalPlan);
+  const approvalsSigned = selectedMessage?.approvalsSigned ?? 0;
+  const isCoSigning = approvalsSigned > 0;
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case 'urgent': return 'text-red-600 bg-red-100';
@@ -129,6 +396,8 @@ export function MessageReviewQueue({ user }: MessageReviewQueueProps) {
 
   if (!canReview) {
     return (
+      <div className="space-y-6">
+      <ReturnedMessagesPanel />
       <div className="bg-white overflow-hidden shadow rounded-lg">
         <div className="px-4 py-5 sm:p-6 text-center">
           <div className="text-gray-500">
@@ -136,9 +405,11 @@ export function MessageReviewQueue({ user }: MessageReviewQueueProps) {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
             </svg>
             <p className="mt-2">You don't have permission to review messages</p>
+            <p className="mt-1 text-sm">Messages a reviewer returns to you for changes are listed here.</p>
           </div>
         </div>
       </div>
+      </div>
     );
   }
 
@@ -155,6 +426,9 @@ export function MessageReviewQueue({ user }: MessageReviewQueueProps) {
 
   return (
     <div className="space-y-6">
+      {/* Messages returned to this user as an author */}
+      <ReturnedMessagesPanel />
+
       {/* Header */}
       <div className="bg-white overflow-hidden shadow rounded-lg">
         <div className="px-4 py-5 sm:p-6">
@@ -166,6 +440,15 @@ export function MessageReviewQueue({ user }: MessageReviewQueueProps) {
               <span className="text-sm text-gray-500">
                 {pendingMessages.length} message{pendingMessages.length !== 1 ? 's' : ''} pending
               </span>
+              <label className="flex items-center text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={onlyMine}
+                  onChange={(e) => setOnlyMine(e.target.checked)}
+                  className="mr-1"
+                />
+                Assigned to me
+              </label>
               <button
                 onClick={loadPendingMessages}
                 className="text-blue-600 hover:text-blue-800 text-sm font-medium"
@@ -187,6 +470,38 @@ export function MessageReviewQueue({ user }: MessageReviewQueueProps) {
               <div className="text-sm text-green-600">{success}</div>
             </div>
           )}
+
+          {undoable && (
+            <div className="mt-4 flex justify-between items-center border border-gray-200 rounded-md p-3">
+              <span className="text-sm text-gray-700">Message to {undoable.patientName} is waiting to be delivered</span>
+              <UndoSendButton
+                key={undoable.auditLogId}
+                auditLogId={undoable.auditLogId}
+                undoUntil={undoable.undoUntil}
+                onRecalled={() => {
+                  setUndoable(null);
+                  setSuccess(`Message to ${undoable.patientName} recalled; it is back with its author as a draft`);
+                }}
+                onError={(message) => {
+                  setUndoable(null);
+                  setError(message);
+                }}
+                onExpired={() => setUndoable(null)}
+              />
+            </div>
+          )}
+
+          {bulkFailures.length > 0 && (
+            <div className="mt-4 bg-red-50 border border-red-200 rounded-md p-3">
+              <ul className="text-sm text-red-600 space-y-1">
+                {bulkFailures.map(item => (
+                  <li key={item.auditLogId}>
+                    {pendingMessages.find(msg => msg.id === item.auditLogId)?.patientName || item.auditLogId}: {item.error}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       </div>
 
@@ -194,9 +509,61 @@ export function MessageReviewQueue({ user }: MessageReviewQueueProps) {
         {/* Message List */}
         <div className="bg-white overflow-hidden shadow rounded-lg">
           <div className="px-4 py-5 sm:p-6">
-            <h3 className="text-sm font-medium text-gray-900 mb-4">Pending Messages</h3>
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-sm font-medium text-gray-900">Pending Messages</h3>
+              {canClaim && visibleMessages.length > 0 && (
+                <label className="flex items-center text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={allVisibleChecked}
+                    onChange={() => setCheckedIds(allVisibleChecked ? [] : visibleMessages.map(msg => msg.id))}
+                    className="mr-1"
+                  />
+                  Select all
+                </label>
+              )}
+            </div>
+
+            {/* Bulk actions; each message is still checked and recorded on its own */}
+            {canClaim && checkedVisible.length > 0 && (
+              <div className="mb-4 p-3 bg-gray-50 border rounded-md flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-gray-700 font-medium">{checkedVisible.length} selected</span>
+                <button
+                  onClick={() => handleBulkAction('approve')}
+                  disabled={isBulkProcessing}
+                  className="bg-green-600 text-white px-3 py-1 rounded-md hover:bg-green-700 disabled:opacity-50"
+                >
+                  Approve
+                </button>
+                <button
+                  onClick={() => handleBulkAction('reject')}
+                  disabled={isBulkProcessing}
+                  className="bg-red-600 text-white px-3 py-1 rounded-md hover:bg-red-700 disabled:opacity-50"
+                >
+                  Reject
+                </button>
+                <select
+                  value={bulkAssigneeId}
+                  onChange={(e) => setBulkAssigneeId(e.target.value)}
+                  className="border border-gray-300 rounded-md py-1 px-2 text-sm"
+                >
+                  <option value="">Reassign to...</option>
+                  {reviewers.map(reviewer => (
+                    <option key={reviewer.id} value={reviewer.id}>{reviewer.username} ({reviewer.role})</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => handleBulkAction('reassign')}
+                  disabled={isBulkProcessing || !bulkAssigneeId}
+                  className="bg-blue-600 text-white px-3 py-1 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Reassign
+                </button>
+                {isBulkProcessing && <span className="text-gray-500">Processing...</span>}
+              </div>
+            )}
             
-            {pendingMessages.length === 0 ? (
+            {visibleMessages.length === 0 ? (
               <div className="text-center py-8 text-gray-500">
                 <svg className="mx-auto h-12 w-12 text-gray-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m14 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m14 0H6m0 0l3-3m-3 3l3 3m8-6l-3-3m3 3l-3 3" />
@@ -205,7 +572,7 @@ export function MessageReviewQueue({ user }: MessageReviewQueueProps) {
               </div>
             ) : (
               <div className="space-y-3">
-                {pendingMessages.map((message) => (
+                {visibleMessages.map((message) => (
                   <div
                     key={message.id}
                     onClick={() => setSelectedMessage(message)}
@@ -216,6 +583,16 @@ export function MessageReviewQueue({ user }: MessageReviewQueueProps) {
                     }`}
                   >
                     <div className="flex justify-between items-start">
+                      {canClaim && (
+                        <input
+                          type="checkbox"
+                          checked={checkedIds.includes(message.id)}
+                          onClick={(e) => e.stopPropagation()}
+                          onChange={() => toggleChecked(message.id)}
+                          aria-label={`Select message for ${message.patientName}`}
+                          className="mt-1 mr-3"
+                        />
+                      )}
                       <div className="flex-1">
                         <div className="flex items-center space-x-2">
                           <h4 className="text-sm font-medium text-gray-900">
@@ -232,7 +609,34 @@ export function MessageReviewQueue({ user }: MessageReviewQueueProps) {
                         </p>
                         <p className="text-xs text-gray-500">
                           Submitted: {formatDate(message.createdAt)}
+                          {(message.revision ?? 1) > 1 && (
+                            <span className="ml-2 text-amber-700">Revision {message.revision}</span>
+                          )}
                         </p>
+                        {(() => {
+                          const plan = parseApprovalPlan(message.approvalPlan);
+                          return plan && plan.steps.length > 1 && (
+                            <p className="text-xs text-indigo-700">
+                              {describeStep(plan, Math.min(message.approvalsSigned ?? 0, plan.steps.length - 1))}
+                            </p>
+                          );
+                        })()}
+                        {message.dueAt && (
+                          <p className="text-xs text-gray-500">
+                            <span className={new Date(message.dueAt) < now ? 'text-red-600 font-medium' : 'text-gray-700'}>
+                              {describeTimeLeft(new Date(message.dueAt), now)}
+                            </span>
+                            {" · "}{message.assigneeId === user.id ? 'Assigned to you' : `Assigned to ${message.assigneeName || 'nobody'}`}
+                            {(message.escalationLevel ?? 0) > 0 && <span className="ml-1 text-red-600">(escalated)</span>}
+                            {message.escalateToName && ` · Escalates to ${message.escalateToName}`}
+                          </p>
+                        )}
+                        {message.claimedBy && message.claimExpiresAt && (
+                          <p className="text-xs text-purple-700">
+                            {message.claimedBy === user.id ? 'Claimed by you' : `Claimed by ${message.claimantName || 'another reviewer'}`}
+                            {" · "}{describeTimeLeft(new Date(message.claimExpiresAt), now)}
+                          </p>
+                        )}
                         <p className="text-sm text-gray-600 mt-2 line-clamp-2">
                           {message.finalMessage.substring(0, 100)}...
                         </p>
@@ -252,9 +656,37 @@ export function MessageReviewQueue({ user }: MessageReviewQueueProps) {
         {selectedMessage ? (
           <div className="bg-white overflow-hidden shadow rounded-lg">
             <div className="px-4 py-5 sm:p-6">
-              <h3 className="text-sm font-medium text-gray-900 mb-4">
-                Review Message for {selectedMessage.patientName}
-              </h3>
+              <div className="flex justify-between items-start mb-4">
+                <h3 className="text-sm font-medium text-gray-900">
+                  Review Message for {selectedMessage.patientName}
+                </h3>
+                {canClaim && selectedClaim && (
+                  isClaimedByOther(selectedClaim) ? (
+                    <span className="text-xs text-purple-700">
+                      {selectedClaim.claimantName || 'Another reviewer'} is reviewing this message
+                    </span>
+                  ) : selectedClaim.claimedBy === user.id ? (
+                    <div className="flex items-center space-x-2 text-xs">
+                      <span className="text-purple-700">
+                        Claimed by you · {describeTimeLeft(new Date(selectedClaim.claimExpiresAt!), now)}
+                      </span>
+                      <button onClick={() => claimMessage(selectedClaim.id)} className="text-blue-600 hover:text-blue-800">
+                        Extend
+                      </button>
+                      <button onClick={() => releaseMessage(selectedClaim.id)} className="text-gray-500 hover:text-gray-700">
+                        Release
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => claimMessage(selectedClaim.id)}
+                      className="text-xs bg-purple-600 text-white px-3 py-1 rounded-md hover:bg-purple-700"
+                    >
+                      Claim
+                    </button>
+                  )
+                )}
+              </div>
 
               <div className="space-y-4">
                 {/* Original Request */}
@@ -277,24 +709,130 @@ export function MessageReviewQueue({ user }: MessageReviewQueueProps) {
                   </div>
                 </div>
 
-                {/* Final Message for Review */}
+                {/* Final Message for Review, side by side with the English back-translation when it is in another language */}
+                {(() => {
+                  const language = normalizeLanguage(selectedMessage.draftLanguage);
+                  const translationIsCurrent = backTranslation?.text === editedMessage;
+
+                  return (
+                    <div className={language !== 'en' ? "grid grid-cols-1 md:grid-cols-2 gap-4" : ""}>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 uppercase tracking-wide">
+                          Final Message{language !== 'en' && ` (${languageName(language)})`} {isCoSigning ? '(Signed, request changes to edit)' : '(Editable)'}
+                        </label>
+                        <textarea
+                          rows={6}
+                          value={editedMessage}
+                          readOnly={isCoSigning}
+                          onChange={(e) => setEditedMessage(e.target.value)}
+                          onSelect={(e) => selectCommentSpan(e.currentTarget.selectionStart, e.currentTarget.selectionEnd)}
+                          className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+                        />
+                        {editedMessage !== selectedMessage.finalMessage && (
+                          <p className="mt-1 text-xs text-amber-600">
+                            * Message has been modified from staff submission
+                          </p>
+                        )}
+                      </div>
+
+                      {language !== 'en' && (
+                        <div>
+                          <div className="flex justify-between items-center">
+                            <label className="block text-xs font-medium text-gray-700 uppercase tracking-wide">
+                              English Back-translation
+                            </label>
+                            {!translationIsCurrent && (
+                              <button
+                                onClick={translateEdits}
+                                disabled={isTranslating || !editedMessage.trim()}
+                                className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                              >
+                                {isTranslating ? "Translating..." : "Translate current text"}
+                              </button>
+                            )}
+                          </div>
+                          <div className="mt-1 p-3 bg-gray-50 rounded border text-sm text-gray-700 whitespace-pre-wrap min-h-[9rem]">
+                            {translationIsCurrent
+                              ? backTranslation!.translation
+                              : <span className="text-amber-600">No back-translation for the current text. Translate it before approving.</span>}
+                          </div>
+                          <p className="mt-1 text-xs text-gray-500">
+                            Machine translation for review only; the patient receives the {languageName(language)} text.
+                          </p>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })()}
+
+                {/* Brief fields behind each sentence; edited sentences show as unchecked */}
+                <DraftGroundingView
+                  text={editedMessage}
+                  grounding={parseGrounding(selectedMessage.draftGrounding)}
+                  sources={{
+                    medicalHistory: selectedMessage.medicalHistory || '',
+                    currentMedications: selectedMessage.currentMedications || '',
+                    allergies: selectedMessage.allergies || '',
+                    doctorNotes: selectedMessage.doctorNotes || ''
+                  }}
+                />
+
+                {/* Inline comments for the author when requesting changes */}
                 <div>
                   <label className="block text-xs font-medium text-gray-700 uppercase tracking-wide">
-                    Final Message (Editable)
+                    Inline Comments
                   </label>
-                  <textarea
-                    rows={6}
-                    value={editedMessage}
-                    onChange={(e) => setEditedMessage(e.target.value)}
-                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
-                  />
-                  {editedMessage !== selectedMessage.finalMessage && (
-                    <p className="mt-1 text-xs text-amber-600">
-                      * Message has been modified from staff submission
-                    </p>
+                  {editedMessage !== selectedMessage.finalMessage ? (
+                    <p className="mt-1 text-xs text-gray-500">Comments apply to the submitted text; undo your edits to add comments.</p>
+                  ) : commentSpan ? (
+                    <div className="mt-1 space-y-2">
+                      <p className="text-xs text-gray-600 italic">"{selectedMessage.finalMessage.slice(commentSpan.start, commentSpan.end)}"</p>
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          value={commentText}
+                          onChange={(e) => setCommentText(e.target.value)}
+                          placeholder="What should the author change here?"
+                          className="flex-1 border border-gray-300 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        />
+                        <button
+                          onClick={addComment}
+                          disabled={!commentText.trim()}
+                          className="text-xs bg-amber-500 text-white px-3 py-1 rounded-md hover:bg-amber-600 disabled:opacity-50"
+                        >
+                          Add comment
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="mt-1 text-xs text-gray-500">Select text in the message to comment on it.</p>
+                  )}
+                  {comments.length > 0 && (
+                    <ol className="mt-2 space-y-1 text-xs text-gray-700">
+                      {comments.map((comment, index) => (
+                        <li key={index} className="flex justify-between gap-2">
+                          <span>
+                            <span className="font-medium text-amber-700">{index + 1}.</span>{" "}
+                            <span className="italic text-gray-500">"{comment.quote}"</span> — {comment.comment}
+                          </span>
+                          <button
+                            onClick={() => setComments(prev => prev.filter((_, i) => i !== index))}
+                            className="text-gray-400 hover:text-red-600"
+                          >
+                            Remove
+                          </button>
+                        </li>
+                      ))}
+                    </ol>
                   )}
                 </div>
 
+                <MessageApprovalChain auditLogId={selectedMessage.id} />
+
+                {(selectedMessage.revision ?? 1) > 1 && (
+                  <MessageRevisionHistory auditLogId={selectedMessage.id} />
+                )}
+
                 {/* Review Notes */}
                 <div>
                   <label className="block text-xs font-medium text-gray-700 uppercase tracking-wide">
@@ -329,7 +867,7 @@ export function MessageReviewQueue({ user }: MessageReviewQueueProps) {
                 <div className="flex space-x-3 pt-4 border-t">
                   <button
                     onClick={() => handleReviewAction('approve')}
-                    disabled={isProcessing || !editedMessage.trim()}
+                    disabled={isProcessing || !editedMessage.trim() || heldByOther}
                     className="flex-1 bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
                   >
                     {isProcessing ? (
@@ -337,14 +875,25 @@ export function MessageReviewQueue({ user }: MessageReviewQueueProps) {
                         <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
                         Processing...
                       </span>
+                    ) : approvalPlan && approvalsSigned < approvalPlan.steps.length - 1 ? (
+                      `Approve ${describeStep(approvalPlan, approvalsSigned)}`
                     ) : (
                       "Approve & Send"
                     )}
                   </button>
                   
+                  <button
+                    onClick={() => handleReviewAction('request_changes')}
+                    disabled={isProcessing || heldByOther || (!reviewNotes.trim() && comments.length === 0)}
+                    title="Return the message to its author with your notes and comments"
+                    className="flex-1 bg-amber-500 text-white px-4 py-2 rounded-md hover:bg-amber-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-500 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+                  >
+                    Request Changes
+                  </button>
+
                   <button
                     onClick={() => handleReviewAction('reject')}
-                    disabled={isProcessing}
+                    disabled={isProcessing || heldByOther}
                     className="flex-1 bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
                   >
                     {isProcessing ? (
@@ -0,0 +1,161 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { diffWords } from "@/lib/refinement";
+import { segmentByComments, type ReviewComment, type RevisionOutcome } from "@/lib/review-comments";
+
+interface RevisionEntry {
+  id: string;
+  revision: number;
+  message: string;
+  submitterName: string | null;
+  submittedAt: string;
+  outcome: RevisionOutcome | null;
+  reviewerName: string | null;
+  reviewNotes: string | null;
+  comments: ReviewComment[];
+  reviewedAt: string | null;
+}
+
+interface MessageRevisionHistoryProps {
+  auditLogId: string;
+}
+
+const OUTCOME_STYLES: Record<RevisionOutcome, { label: string; className: string }> = {
+  approved: { label: "Approved", className: "bg-green-100 text-green-800" },
+  changes_requested: { label: "Changes requested", className: "bg-amber-100 text-amber-800" },
+  rejected: { label: "Rejected", className: "bg-red-100 text-red-800" }
+};
+
+/**
+ * Message text with commented spans highlighted and numbered like the comment list
+ */
+export function CommentedText({ text, comments }: { text: string; comments: ReviewComment[] }) {
+  return (
+    <p className="whitespace-pre-wrap">
+      {segmentByComments(text, comments).map((segment, index) => (
+        segment.commentIndex === null ? (
+          <span key={index}>{segment.text}</span>
+        ) : (
+          <mark key={index} className="bg-amber-100 rounded px-0.5" title={comments[segment.commentIndex].comment}>
+            {segment.text}
+            <sup className="text-amber-700 font-medium ml-0.5">{segment.commentIndex + 1}</sup>
+          </mark>
+        )
+      ))}
+    </p>
+  );
+}
+
+/**
+ * Numbered list of inline comments; comments whose text was changed since are marked
+ */
+export function CommentList({ comments, currentText }: { comments: ReviewComment[]; currentText?: string }) {
+  if (comments.length === 0) return null;
+
+  return (
+    <ol className="space-y-1 text-xs text-gray-700">
+      {comments.map((comment, index) => (
+        <li key={index}>
+          <span className="font-medium text-amber-700">{index + 1}.</span>{" "}
+          <span className="italic text-gray-500">"{comment.quote}"</span> — {comment.comment}
+          {currentText !== undefined && !currentText.includes(comment.quote) && (
+            <span className="ml-1 text-green-700">(text changed)</span>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+export function MessageRevisionHistory({ auditLogId }: MessageRevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<RevisionEntry[]>([]);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    setRevisions([]);
+    setError("");
+
+    fetch(`/api/message-workflow/revisions?auditLogId=${encodeURIComponent(auditLogId)}`)
+      .then(response => response.json() as Promise<{ success: boolean; revisions?: RevisionEntry[]; error?: string }>)
+      .then(result => {
+        if (cancelled) return;
+        if (result.success) {
+          setRevisions(result.revisions || []);
+        } else {
+          setError(result.error || "Failed to load revision history");
+        }
+      })
+      .catch(err => {
+        console.error("Error loading revision history:", err);
+        if (!cancelled) setError("Failed to load revision history");
+      });
+
+    return () => { cancelled = true; };
+  }, [auditLogId]);
+
+  if (error) {
+    return <p className="text-xs text-red-600">{error}</p>;
+  }
+
+  if (revisions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-700 uppercase tracking-wide">
+        Revision History
+      </label>
+      <ul className="mt-1 space-y-3">
+        {revisions.map((revision, index) => {
+          const previous = index > 0 ? revisions[index - 1] : null;
+          const outcome = revision.outcome ? OUTCOME_STYLES[revision.outcome] : null;
+
+          return (
+            <li key={revision.id} className="border rounded-md p-3 text-sm">
+              <div className="flex justify-between items-center text-xs text-gray-500">
+                <span>
+                  <span className="font-medium text-gray-700">Revision {revision.revision}</span>
+                  {" "}by {revision.submitterName || "unknown"} · {new Date(revision.submittedAt).toLocaleString()}
+                </span>
+                <span className={`px-2 py-0.5 rounded ${outcome ? outcome.className : "bg-blue-100 text-blue-800"}`}>
+                  {outcome ? outcome.label : "In review"}
+                </span>
+              </div>
+
+              <div className="mt-2 text-gray-700">
+                {previous ? (
+                  <p className="whitespace-pre-wrap">
+                    {diffWords(previous.message, revision.message).map((op, opIndex) => (
+                      <span
+                        key={opIndex}
+                        className={op.type === "insert" ? "bg-green-100 text-green-800" : op.type === "delete" ? "bg-red-100 text-red-700 line-through" : ""}
+                      >
+                        {op.text}
+                      </span>
+                    ))}
+                  </p>
+                ) : (
+                  <CommentedText text={revision.message} comments={revision.comments} />
+                )}
+              </div>
+
+              {revision.outcome && (
+                <div className="mt-2 pt-2 border-t border-gray-100 space-y-1">
+                  <p className="text-xs text-gray-500">
+                    {revision.reviewerName || "Reviewer"}
+                    {revision.reviewedAt && ` · ${new Date(revision.reviewedAt).toLocaleString()}`}
+                  </p>
+                  {revision.reviewNotes && <p className="text-xs text-gray-700">{revision.reviewNotes}</p>}
+                  <CommentList comments={revision.comments} />
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
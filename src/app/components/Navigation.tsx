@@ -4,7 +4,10 @@ import {
   canAccessPatientBriefs, 
   canAccessDoctorSettings, 
   canAccessAuditLogs,
-  canAccessDraftWorkflow 
+  canAccessDraftWorkflow,
+  canManagePromptTemplates,
+  canManageAiBudgets,
+  canManageApprovalPolicies
 } from '@/lib/server-functions';
 
 interface NavigationProps {
@@ -48,11 +51,26 @@ export function Navigation({ ctx, currentPath = "/" }: NavigationProps) {
       label: "Message Workflow",
       show: canAccessDraftWorkflow(user),
     },
+    {
+      href: "/review",
+      label: "Review Queue",
+      show: canAccessDraftWorkflow(user),
+    },
     {
       href: "/doctor/settings",
       label: "Doctor Settings",
       show: canAccessDoctorSettings(user),
     },
+    {
+      href: "/doctor/examples",
+      label: "Example Bank",
+      show: canAccessDoctorSettings(user),
+    },
+    {
+      href: "/doctor/quick-replies",
+      label: "Quick Replies",
+      show: canAccessDoctorSettings(user),
+    },
     {
       href: "/admin/briefs",
       label: "Patient Briefs",
@@ -63,6 +81,21 @@ export function Navigation({ ctx, currentPath = "/" }: NavigationProps) {
       label: "Audit Logs",
       show: canAccessAuditLogs(user),
     },
+    {
+      href: "/admin/prompts",
+      label: "Prompt Templates",
+      show: canManagePromptTemplates(user),
+    },
+    {
+      href: "/admin/budgets",
+      label: "AI Budgets",
+      show: canManageAiBudgets(user),
+    },
+    {
+      href: "/admin/approval-policies",
+      label: "Approval Policies",
+      show: canManageApprovalPolicies(user),
+    },
   ].filter(item => item.show);
 
   return (
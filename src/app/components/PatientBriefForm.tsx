@@ -3,6 +3,7 @@
 import { useState, useEffect } from "react";
 import { createPatientBrief, updatePatientBrief, getAvailableDoctors } from "@/lib/patientBriefActions";
 import { type User } from "@/db";
+import { PATIENT_LANGUAGES, LANGUAGE_PROFILES } from "@/lib/languages";
 
 interface PatientBriefFormProps {
   isOpen: boolean;
@@ -20,6 +21,10 @@ export function PatientBriefForm({ isOpen, onClose, onSubmit, user, editingBrief
     currentMedications: "",
     allergies: "",
     doctorNotes: "",
+    preferredLanguage: "en",
+    timezone: "",
+    contactHoursStart: "",
+    contactHoursEnd: "",
     doctorId: user.id,
   });
   const [loading, setLoading] = useState(false);
@@ -35,6 +40,10 @@ export function PatientBriefForm({ isOpen, onClose, onSubmit, user, editingBrief
         currentMedications: editingBrief.currentMedications || "",
         allergies: editingBrief.allergies || "",
         doctorNotes: editingBrief.doctorNotes || "",
+        preferredLanguage: editingBrief.preferredLanguage || "en",
+        timezone: editingBrief.timezone || "",
+        contactHoursStart: editingBrief.contactHoursStart || "",
+        contactHoursEnd: editingBrief.contactHoursEnd || "",
         doctorId: editingBrief.doctorId || user.id,
       });
     } else {
@@ -45,6 +54,10 @@ export function PatientBriefForm({ isOpen, onClose, onSubmit, user, editingBrief
         currentMedications: "",
         allergies: "",
         doctorNotes: "",
+        preferredLanguage: "en",
+        timezone: "",
+        contactHoursStart: "",
+        contactHoursEnd: "",
         doctorId: user.id,
       });
     }
@@ -133,6 +146,75 @@ export function PatientBriefForm({ isOpen, onClose, onSubmit, user, editingBrief
             />
           </div>
 
+          <div>
+            <label htmlFor="preferredLanguage" className="block text-sm font-medium text-gray-700">
+              Preferred Language
+            </label>
+            <select
+              id="preferredLanguage"
+              name="preferredLanguage"
+              value={formData.preferredLanguage}
+              onChange={handleChange}
+              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              {PATIENT_LANGUAGES.map((language) => (
+                <option key={language} value={language}>
+                  {LANGUAGE_PROFILES[language].name}
+                  {language !== "en" && ` (${LANGUAGE_PROFILES[language].nativeName})`}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">AI drafts are written in this language.</p>
+          </div>
+
+          <div>
+            <label htmlFor="timezone" className="block text-sm font-medium text-gray-700">
+              Timezone
+            </label>
+            <input
+              type="text"
+              id="timezone"
+              name="timezone"
+              placeholder="e.g. America/Chicago"
+              value={formData.timezone}
+              onChange={handleChange}
+              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+            <p className="mt-1 text-xs text-gray-500">Leave blank to use the clinic's timezone.</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="contactHoursStart" className="block text-sm font-medium text-gray-700">
+                Contact From
+              </label>
+              <input
+                type="time"
+                id="contactHoursStart"
+                name="contactHoursStart"
+                value={formData.contactHoursStart}
+                onChange={handleChange}
+                className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="contactHoursEnd" className="block text-sm font-medium text-gray-700">
+                Contact Until
+              </label>
+              <input
+                type="time"
+                id="contactHoursEnd"
+                name="contactHoursEnd"
+                value={formData.contactHoursEnd}
+                onChange={handleChange}
+                className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <p className="col-span-2 -mt-2 text-xs text-gray-500">
+              Email and SMS outside these hours, or inside clinic quiet hours, wait for the next allowed time unless urgent.
+            </p>
+          </div>
+
           {user.role === "admin" && (
             <div>
               <label htmlFor="doctorId" className="block text-sm font-medium text-gray-700">
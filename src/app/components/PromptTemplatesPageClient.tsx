@@ -0,0 +1,399 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  PROMPT_TEMPLATE_VARIABLES,
+  validatePromptTemplates,
+  type DiffLine,
+  type PromptTemplateScope
+} from "@/lib/prompt-templates";
+
+interface TemplateVersion {
+  id: string;
+  scope: string;
+  scopeValue: string | null;
+  version: number;
+  systemTemplate: string;
+  userTemplate: string;
+  changeNote: string | null;
+  isActive: boolean;
+  createdAt: string | Date;
+  createdByEmail: string | null;
+}
+
+interface Doctor {
+  id: string;
+  username: string;
+  email: string;
+  specialtyFocus: string | null;
+}
+
+interface PromptTemplatesPageClientProps {
+  initialTemplates: TemplateVersion[];
+  doctors: Doctor[];
+}
+
+interface DiffResult {
+  from: TemplateVersion;
+  to: TemplateVersion;
+  system: DiffLine[];
+  user: DiffLine[];
+}
+
+export function PromptTemplatesPageClient({ initialTemplates, doctors }: PromptTemplatesPageClientProps) {
+  const [templates, setTemplates] = useState<TemplateVersion[]>(initialTemplates);
+  const [scope, setScope] = useState<PromptTemplateScope>("global");
+  const [scopeValue, setScopeValue] = useState("");
+  const [systemTemplate, setSystemTemplate] = useState("");
+  const [userTemplate, setUserTemplate] = useState("");
+  const [changeNote, setChangeNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [diff, setDiff] = useState<DiffResult | null>(null);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  // Group versions by scope so each override reads as its own history
+  const groups = useMemo(() => {
+    const byKey = new Map<string, TemplateVersion[]>();
+    for (const template of templates) {
+      const key = `${template.scope}:${template.scopeValue ?? ""}`;
+      byKey.set(key, [...(byKey.get(key) || []), template]);
+    }
+    return Array.from(byKey.values()).map(versions => versions.sort((a, b) => b.version - a.version));
+  }, [templates]);
+
+  const scopeLabel = (template: { scope: string; scopeValue: string | null }) => {
+    if (template.scope === "doctor") {
+      const doctor = doctors.find(d => d.id === template.scopeValue);
+      return `Doctor: ${doctor ? doctor.username : template.scopeValue}`;
+    }
+    if (template.scope === "specialty") {
+      return `Specialty: ${template.scopeValue}`;
+    }
+    return "Global";
+  };
+
+  const editorIssues = systemTemplate || userTemplate ? validatePromptTemplates(systemTemplate, userTemplate) : [];
+
+  const flash = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(""), 3000);
+  };
+
+  const refreshTemplates = async () => {
+    const response = await fetch("/api/prompt-templates");
+    const result = await response.json() as { success: boolean; templates?: TemplateVersion[]; error?: string };
+    if (result.success && result.templates) {
+      setTemplates(result.templates);
+    }
+  };
+
+  const editVersion = (template: TemplateVersion) => {
+    setScope(template.scope as PromptTemplateScope);
+    setScopeValue(template.scopeValue || "");
+    setSystemTemplate(template.systemTemplate);
+    setUserTemplate(template.userTemplate);
+    setChangeNote("");
+    setDiff(null);
+    setError("");
+  };
+
+  const saveVersion = async () => {
+    setIsSaving(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/prompt-templates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ scope, scopeValue, systemTemplate, userTemplate, changeNote })
+      });
+      const result = await response.json() as { success: boolean; template?: TemplateVersion; error?: string };
+
+      if (result.success && result.template) {
+        await refreshTemplates();
+        flash(`Saved ${scopeLabel(result.template)} v${result.template.version}. Activate it to use it for drafts.`);
+        setChangeNote("");
+      } else {
+        setError(result.error || "Failed to save template");
+      }
+    } catch (err) {
+      console.error("Failed to save prompt template:", err);
+      setError("Failed to save template");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setActive = async (template: TemplateVersion, active: boolean) => {
+    setError("");
+
+    try {
+      const response = await fetch("/api/prompt-templates/activation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ templateId: template.id, active })
+      });
+      const result = await response.json() as { success: boolean; error?: string };
+
+      if (result.success) {
+        await refreshTemplates();
+        flash(active
+          ? `${scopeLabel(template)} v${template.version} is now active`
+          : `${scopeLabel(template)} override removed`);
+      } else {
+        setError(result.error || "Failed to update template");
+      }
+    } catch (err) {
+      console.error("Failed to update prompt template:", err);
+      setError("Failed to update template");
+    }
+  };
+
+  const showDiff = async (from: TemplateVersion, to: TemplateVersion) => {
+    setError("");
+
+    try {
+      const response = await fetch(`/api/prompt-templates/diff?from=${from.id}&to=${to.id}`);
+      const result = await response.json() as { success: boolean; diff?: DiffResult; error?: string };
+
+      if (result.success && result.diff) {
+        setDiff(result.diff);
+      } else {
+        setError(result.error || "Failed to load diff");
+      }
+    } catch (err) {
+      console.error("Failed to diff prompt templates:", err);
+      setError("Failed to load diff");
+    }
+  };
+
+  const renderDiff = (lines: DiffLine[]) => (
+    <pre className="text-xs font-mono bg-gray-50 border border-gray-200 rounded-md p-3 overflow-x-auto max-h-96">
+      {lines.map((line, index) => (
+        <div
+          key={index}
+          className={
+            line.type === "added" ? "bg-green-100 text-green-800" :
+            line.type === "removed" ? "bg-red-100 text-red-800" :
+            "text-gray-600"
+          }
+        >
+          {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}{line.text}
+        </div>
+      ))}
+    </pre>
+  );
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3">
+          <div className="text-sm text-red-600">{error}</div>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-3">
+          <div className="text-sm text-green-600">{success}</div>
+        </div>
+      )}
+
+      {/* Version History */}
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Versions</h3>
+
+          {groups.length === 0 ? (
+            <p className="text-sm text-gray-500">No templates found. Run the database migrations to seed the global template.</p>
+          ) : (
+            <div className="space-y-6">
+              {groups.map((versions) => {
+                const active = versions.find(v => v.isActive);
+                return (
+                  <div key={`${versions[0].scope}:${versions[0].scopeValue ?? ""}`}>
+                    <h4 className="text-sm font-semibold text-gray-800 mb-2">
+                      {scopeLabel(versions[0])}
+                      {!active && <span className="ml-2 text-xs font-normal text-gray-500">(no active version)</span>}
+                    </h4>
+                    <div className="border border-gray-200 rounded-md divide-y divide-gray-200">
+                      {versions.map((template) => (
+                        <div key={template.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                          <div className="flex items-center space-x-3">
+                            <span className="font-medium text-gray-900">v{template.version}</span>
+                            {template.isActive && (
+                              <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                                Active
+                              </span>
+                            )}
+                            <span className="text-gray-600">{template.changeNote || "No change note"}</span>
+                            <span className="text-xs text-gray-400">
+                              {new Date(template.createdAt).toLocaleString()}
+                              {template.createdByEmail && ` by ${template.createdByEmail}`}
+                            </span>
+                          </div>
+                          <div className="flex items-center space-x-3">
+                            <button onClick={() => editVersion(template)} className="text-blue-600 hover:text-blue-800">
+                              Edit
+                            </button>
+                            {active && active.id !== template.id && (
+                              <button onClick={() => showDiff(active, template)} className="text-blue-600 hover:text-blue-800">
+                                Diff vs active
+                              </button>
+                            )}
+                            {!template.isActive && (
+                              <button onClick={() => setActive(template, true)} className="text-green-600 hover:text-green-800">
+                                Activate
+                              </button>
+                            )}
+                            {template.isActive && template.scope !== "global" && (
+                              <button onClick={() => setActive(template, false)} className="text-red-600 hover:text-red-800">
+                                Deactivate
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Diff Viewer */}
+      {diff && (
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-4 py-5 sm:p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg leading-6 font-medium text-gray-900">
+                {scopeLabel(diff.from)}: v{diff.from.version} → v{diff.to.version}
+              </h3>
+              <button onClick={() => setDiff(null)} className="text-sm text-gray-500 hover:text-gray-700">Close</button>
+            </div>
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-1">System prompt</h4>
+              {renderDiff(diff.system)}
+            </div>
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-1">User prompt</h4>
+              {renderDiff(diff.user)}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Editor */}
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-5 sm:p-6 space-y-4">
+          <h3 className="text-lg leading-6 font-medium text-gray-900">New Version</h3>
+          <p className="text-sm text-gray-500">
+            Saving never changes an existing version; it creates the next version for the selected scope, which takes effect once activated.
+          </p>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Scope</label>
+              <select
+                value={scope}
+                onChange={(e) => { setScope(e.target.value as PromptTemplateScope); setScopeValue(""); }}
+                className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="global">Global</option>
+                <option value="specialty">Specialty override</option>
+                <option value="doctor">Doctor override</option>
+              </select>
+            </div>
+            {scope === "doctor" && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Doctor</label>
+                <select
+                  value={scopeValue}
+                  onChange={(e) => setScopeValue(e.target.value)}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">Select a doctor</option>
+                  {doctors.map((doctor) => (
+                    <option key={doctor.id} value={doctor.id}>{doctor.username} ({doctor.email})</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {scope === "specialty" && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Specialty</label>
+                <input
+                  type="text"
+                  value={scopeValue}
+                  onChange={(e) => setScopeValue(e.target.value)}
+                  list="prompt-template-specialties"
+                  placeholder="e.g. cardiology"
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+                <datalist id="prompt-template-specialties">
+                  {Array.from(new Set(doctors.map(d => d.specialtyFocus).filter(Boolean))).map((specialty) => (
+                    <option key={specialty} value={specialty!} />
+                  ))}
+                </datalist>
+              </div>
+            )}
+            <div className={scope === "global" ? "sm:col-span-2" : ""}>
+              <label className="block text-sm font-medium text-gray-700">Change note</label>
+              <input
+                type="text"
+                value={changeNote}
+                onChange={(e) => setChangeNote(e.target.value)}
+                placeholder="What changed and why"
+                className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">System prompt</label>
+            <textarea
+              rows={12}
+              value={systemTemplate}
+              onChange={(e) => setSystemTemplate(e.target.value)}
+              className="mt-1 block w-full font-mono text-xs border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Variables: {PROMPT_TEMPLATE_VARIABLES.system.map(name => `{{${name}}}`).join(", ")}
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">User prompt</label>
+            <textarea
+              rows={12}
+              value={userTemplate}
+              onChange={(e) => setUserTemplate(e.target.value)}
+              className="mt-1 block w-full font-mono text-xs border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Variables: {PROMPT_TEMPLATE_VARIABLES.user.map(name => `{{${name}}}`).join(", ")}
+            </p>
+          </div>
+
+          {editorIssues.length > 0 && (
+            <ul className="text-sm text-red-600 space-y-1">
+              {editorIssues.map((issue, index) => (
+                <li key={index}>• {issue}</li>
+              ))}
+            </ul>
+          )}
+
+          <button
+            onClick={saveVersion}
+            disabled={isSaving || editorIssues.length > 0 || !systemTemplate || !userTemplate || (scope !== "global" && !scopeValue.trim())}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? "Saving..." : "Save as new version"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
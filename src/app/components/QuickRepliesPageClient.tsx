@@ -0,0 +1,238 @@
+"use client";
+
+import { useState } from "react";
+import { INQUIRY_INTENTS, INTENT_LABELS, QUICK_REPLY_VARIABLES } from "@/lib/quick-replies";
+import { PATIENT_LANGUAGES, LANGUAGE_PROFILES } from "@/lib/languages";
+
+interface QuickReplyTemplate {
+  id: string;
+  intent: string;
+  title: string;
+  body: string;
+  language: string;
+  isActive: boolean;
+  useCount: number;
+  updatedAt: string | Date;
+}
+
+interface QuickRepliesPageClientProps {
+  initialTemplates: QuickReplyTemplate[];
+}
+
+interface TemplateForm {
+  intent: string;
+  title: string;
+  body: string;
+  language: string;
+}
+
+const TEMPLATE_INTENTS = INQUIRY_INTENTS.filter(intent => intent !== "general");
+
+const EMPTY_FORM: TemplateForm = { intent: "medication_refill", title: "", body: "", language: "en" };
+
+export function QuickRepliesPageClient({ initialTemplates }: QuickRepliesPageClientProps) {
+  const [templates, setTemplates] = useState<QuickReplyTemplate[]>(initialTemplates);
+  const [form, setForm] = useState<TemplateForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  const flash = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(""), 3000);
+  };
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const startEdit = (template: QuickReplyTemplate) => {
+    setEditingId(template.id);
+    setForm({ intent: template.intent, title: template.title, body: template.body, language: template.language });
+    setError("");
+  };
+
+  const saveTemplate = async (updates: Partial<QuickReplyTemplate> & { templateId?: string }, method: "POST" | "PUT") => {
+    setIsSaving(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/quick-replies", {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates)
+      });
+      const result = await response.json() as { success: boolean; template?: QuickReplyTemplate; error?: string };
+
+      if (result.success && result.template) {
+        const saved = result.template;
+        setTemplates(prev => method === "POST" ? [saved, ...prev] : prev.map(t => t.id === saved.id ? saved : t));
+        return true;
+      }
+
+      setError(result.error || "Failed to save quick reply");
+      return false;
+    } catch (err) {
+      console.error("Failed to save quick reply:", err);
+      setError("Failed to save quick reply");
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const saved = editingId
+      ? await saveTemplate({ templateId: editingId, ...form }, "PUT")
+      : await saveTemplate(form, "POST");
+
+    if (saved) {
+      flash(editingId ? "Quick reply updated" : "Quick reply approved");
+      resetForm();
+    }
+  };
+
+  const toggleActive = async (template: QuickReplyTemplate) => {
+    if (await saveTemplate({ templateId: template.id, isActive: !template.isActive }, "PUT")) {
+      flash(template.isActive ? "Quick reply disabled" : "Quick reply enabled");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3">
+          <div className="text-sm text-red-600">{error}</div>
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-3">
+          <div className="text-sm text-green-600">{success}</div>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="bg-white shadow rounded-lg p-4 space-y-4">
+        <h3 className="text-sm font-medium text-gray-900">{editingId ? "Edit quick reply" : "New quick reply"}</h3>
+
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Request type</label>
+            <select
+              value={form.intent}
+              onChange={e => setForm({ ...form, intent: e.target.value })}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              {TEMPLATE_INTENTS.map(intent => (
+                <option key={intent} value={intent}>{INTENT_LABELS[intent]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Title</label>
+            <input
+              type="text"
+              value={form.title}
+              onChange={e => setForm({ ...form, title: e.target.value })}
+              placeholder="e.g. Refill sent to pharmacy"
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Language</label>
+            <select
+              value={form.language}
+              onChange={e => setForm({ ...form, language: e.target.value })}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              {PATIENT_LANGUAGES.map(language => (
+                <option key={language} value={language}>{LANGUAGE_PROFILES[language].name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Reply</label>
+          <textarea
+            value={form.body}
+            onChange={e => setForm({ ...form, body: e.target.value })}
+            rows={6}
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            Placeholders filled from the patient brief: {QUICK_REPLY_VARIABLES.map(name => `{{${name}}}`).join(", ")}.
+            A reply is only offered when every placeholder it uses has a value.
+          </p>
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          {editingId && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 rounded-md text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSaving ? "Saving..." : editingId ? "Save changes" : "Approve quick reply"}
+          </button>
+        </div>
+      </form>
+
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-3 border-b border-gray-200">
+          <h3 className="text-sm font-medium text-gray-900">Your quick replies ({templates.length})</h3>
+        </div>
+
+        {templates.length === 0 ? (
+          <p className="px-4 py-8 text-center text-sm text-gray-500">
+            No quick replies yet. Routine inquiries will be drafted by AI until you add one.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {templates.map(template => (
+              <li key={template.id} className={`px-4 py-4 ${template.isActive ? "" : "opacity-60"}`}>
+                <div className="flex items-start justify-between">
+                  <div>
+                    <span className="text-sm font-medium text-gray-900">{template.title}</span>
+                    <span className="ml-2 text-xs text-gray-500">
+                      {INTENT_LABELS[template.intent as keyof typeof INTENT_LABELS] ?? template.intent}
+                      {" · "}{template.language.toUpperCase()}
+                      {" · "}used {template.useCount} {template.useCount === 1 ? "time" : "times"}
+                    </span>
+                  </div>
+                  <div className="space-x-3">
+                    <button
+                      onClick={() => startEdit(template)}
+                      className="text-xs text-blue-600 hover:text-blue-800"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => toggleActive(template)}
+                      disabled={isSaving}
+                      className="text-xs text-gray-600 hover:text-gray-800 disabled:opacity-50"
+                    >
+                      {template.isActive ? "Disable" : "Enable"}
+                    </button>
+                  </div>
+                </div>
+                <p className="mt-2 text-sm text-gray-700 whitespace-pre-wrap bg-gray-50 rounded-md p-2">{template.body}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
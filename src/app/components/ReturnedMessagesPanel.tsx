@@ -0,0 +1,203 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { languageName, normalizeLanguage } from "@/lib/languages";
+import type { ReviewComment } from "@/lib/review-comments";
+import { CommentedText, CommentList, MessageRevisionHistory } from "./MessageRevisionHistory";
+
+interface ReturnedMessage {
+  id: string;
+  patientName: string;
+  requestText: string;
+  finalMessage: string;
+  draftLanguage?: string | null;
+  reviewNotes: string | null;
+  reviewedAt: string | null;
+  reviewerName: string | null;
+  revision: number;
+  comments: ReviewComment[];
+  recalled: boolean;
+  recalledBy: string | null;
+  recallReason: string | null;
+}
+
+/**
+ * Messages a reviewer returned to the current user, or that were recalled before sending, for revising and resubmitting
+ */
+export function ReturnedMessagesPanel() {
+  const [messages, setMessages] = useState<ReturnedMessage[]>([]);
+  const [selected, setSelected] = useState<ReturnedMessage | null>(null);
+  const [revisedMessage, setRevisedMessage] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  useEffect(() => {
+    loadReturnedMessages();
+  }, []);
+
+  useEffect(() => {
+    setRevisedMessage(selected?.finalMessage || "");
+  }, [selected]);
+
+  const loadReturnedMessages = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/api/message-workflow/returned');
+      const result = await response.json() as { success: boolean; messages?: ReturnedMessage[]; error?: string };
+
+      if (result.success) {
+        setMessages(result.messages || []);
+      } else {
+        setError(result.error || 'Failed to load returned messages');
+      }
+    } catch (err) {
+      console.error('Error loading returned messages:', err);
+      setError('Failed to load returned messages');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const resubmit = async () => {
+    if (!selected) return;
+
+    setIsSubmitting(true);
+    setError("");
+    setSuccess("");
+
+    try {
+      const response = await fetch('/api/message-workflow/resubmit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ auditLogId: selected.id, finalMessage: revisedMessage })
+      });
+      const result = await response.json() as { success: boolean; error?: string };
+
+      if (result.success) {
+        setSuccess(`Revision ${selected.revision + 1} resubmitted for review`);
+        setMessages(prev => prev.filter(message => message.id !== selected.id));
+        setSelected(null);
+        setTimeout(() => setSuccess(""), 3000);
+      } else {
+        setError(result.error || 'Failed to resubmit message');
+      }
+    } catch (err) {
+      console.error('Error resubmitting message:', err);
+      setError('Failed to resubmit message');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading || (messages.length === 0 && !error && !success)) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white overflow-hidden shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg leading-6 font-medium text-gray-900">Returned to You</h2>
+          <span className="text-sm text-gray-500">
+            {messages.length} message{messages.length !== 1 ? 's' : ''} to revise
+          </span>
+        </div>
+
+        {error && (
+          <div className="mt-4 bg-red-50 border border-red-200 rounded-md p-3">
+            <div className="text-sm text-red-600">{error}</div>
+          </div>
+        )}
+
+        {success && (
+          <div className="mt-4 bg-green-50 border border-green-200 rounded-md p-3">
+            <div className="text-sm text-green-600">{success}</div>
+          </div>
+        )}
+
+        <div className="mt-4 grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            {messages.map((message) => (
+              <div
+                key={message.id}
+                onClick={() => setSelected(message)}
+                className={`cursor-pointer border rounded-lg p-3 transition-colors ${
+                  selected?.id === message.id
+                    ? 'border-amber-500 bg-amber-50'
+                    : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                <h4 className="text-sm font-medium text-gray-900">{message.patientName}</h4>
+                {message.recalled ? (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Recalled before sending by {message.recalledBy || 'someone'}
+                  </p>
+                ) : (
+                  <>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Revision {message.revision} returned by {message.reviewerName || 'a reviewer'}
+                      {message.reviewedAt && ` · ${new Date(message.reviewedAt).toLocaleString()}`}
+                    </p>
+                    <p className="text-xs text-amber-700 mt-1">
+                      {message.comments.length} comment{message.comments.length !== 1 ? 's' : ''}
+                    </p>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {selected && (
+            <div className="space-y-4">
+              {selected.recalled ? (
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 uppercase tracking-wide">
+                    Recalled by {selected.recalledBy || 'someone'}
+                  </label>
+                  <div className="mt-1 p-3 bg-amber-50 rounded border text-sm text-gray-700">
+                    {selected.recallReason || 'No reason given'}. It needs approval again before it is sent.
+                  </div>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 uppercase tracking-wide">
+                    Reviewer Comments
+                  </label>
+                  <div className="mt-1 p-3 bg-amber-50 rounded border text-sm text-gray-700 space-y-2">
+                    {selected.reviewNotes && <p>{selected.reviewNotes}</p>}
+                    <CommentedText text={selected.finalMessage} comments={selected.comments} />
+                    <CommentList comments={selected.comments} currentText={revisedMessage} />
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-xs font-medium text-gray-700 uppercase tracking-wide">
+                  Revised Message{normalizeLanguage(selected.draftLanguage) !== 'en' && ` (${languageName(normalizeLanguage(selected.draftLanguage))})`}
+                </label>
+                <textarea
+                  rows={6}
+                  value={revisedMessage}
+                  onChange={(e) => setRevisedMessage(e.target.value)}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+                />
+              </div>
+
+              <MessageRevisionHistory auditLogId={selected.id} />
+
+              <button
+                onClick={resubmit}
+                disabled={isSubmitting || !revisedMessage.trim()}
+                className="w-full bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+              >
+                {isSubmitting ? "Resubmitting..." : "Resubmit for Review"}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
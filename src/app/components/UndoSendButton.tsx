@@ -0,0 +1,79 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { MAX_UNDO_SEND_SECONDS, secondsLeft } from "@/lib/undo-send";
+
+interface UndoSendButtonProps {
+  auditLogId: string;
+  undoUntil: string; // From the send or approval response
+  onRecalled: (finalMessage: string) => void;
+  onError: (error: string) => void;
+  onExpired?: () => void;
+}
+
+/**
+ * Recalls a message to draft while it is still held in the queue; disappears once delivery can start
+ */
+export function UndoSendButton({ auditLogId, undoUntil, onRecalled, onError, onExpired }: UndoSendButtonProps) {
+  const [now, setNow] = useState(() => new Date());
+  const [isRecalling, setIsRecalling] = useState(false);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // The latest callback, so a parent passing a new function each render does not re-fire the expiry
+  const onExpiredRef = useRef(onExpired);
+  useEffect(() => {
+    onExpiredRef.current = onExpired;
+  }, [onExpired]);
+
+  const left = secondsLeft(undoUntil, now);
+  const expired = left === 0;
+
+  useEffect(() => {
+    if (expired) onExpiredRef.current?.();
+  }, [expired]);
+
+  if (expired) {
+    return null;
+  }
+
+  const recall = async () => {
+    setIsRecalling(true);
+    try {
+      const response = await fetch('/api/message-workflow/recall', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ auditLogId })
+      });
+      const result = await response.json() as { success: boolean; auditLog?: { finalMessage: string }; error?: string };
+
+      if (result.success) {
+        onRecalled(result.auditLog?.finalMessage || "");
+      } else {
+        onError(result.error || "Failed to recall message");
+      }
+    } catch (err) {
+      console.error("Error recalling message:", err);
+      onError("Failed to recall message");
+    } finally {
+      setIsRecalling(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={recall}
+      disabled={isRecalling}
+      className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      {isRecalling
+        ? "Recalling..."
+        : left > MAX_UNDO_SEND_SECONDS
+          ? "Recall scheduled message"
+          : `Undo send (${left}s)`}
+    </button>
+  );
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import type { TriageResult } from "@/lib/triage";
+
+interface UrgencyBannerProps {
+  triage: Pick<TriageResult, "level" | "rationale" | "source"> | null;
+}
+
+/**
+ * Escalation banner for emergency and urgent inquiries; routine and administrative show nothing
+ */
+export function UrgencyBanner({ triage }: UrgencyBannerProps) {
+  if (!triage || (triage.level !== "emergency" && triage.level !== "urgent")) return null;
+
+  const sourceLabel = triage.source === "model" ? "model" : "triage rules";
+
+  if (triage.level === "emergency") {
+    return (
+      <div className="bg-red-50 border border-red-300 rounded-md p-3" role="alert">
+        <h5 className="text-sm font-semibold text-red-800">Possible emergency — escalate now</h5>
+        <p className="text-sm text-red-700 mt-1">
+          AI drafting is disabled for this inquiry. Contact the patient directly or escalate to the on-call clinician,
+          and advise calling emergency services if symptoms are ongoing.
+        </p>
+        <p className="text-xs text-red-600 mt-1">{triage.rationale} ({sourceLabel})</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-amber-50 border border-amber-300 rounded-md p-3">
+      <h5 className="text-sm font-semibold text-amber-800">Urgent inquiry</h5>
+      <p className="text-sm text-amber-700 mt-1">
+        This inquiry needs clinical attention today. The message will be queued at high priority.
+      </p>
+      <p className="text-xs text-amber-600 mt-1">{triage.rationale} ({sourceLabel})</p>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { MessageReviewQueue } from "@/app/components/MessageReviewQueue";
+import { Navigation } from "@/app/components/Navigation";
 import type { AppContext } from "@/worker";
 
 interface MessageReviewPageProps {
@@ -14,6 +15,7 @@ export function MessageReviewPage({ ctx }: MessageReviewPageProps) {
 
   return (
     <div className="min-h-screen bg-gray-50">
+      <Navigation ctx={ctx} currentPath="/review" />
       <div className="py-6">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           {/* Header */}
@@ -22,7 +24,8 @@ export function MessageReviewPage({ ctx }: MessageReviewPageProps) {
               Message Review Queue
             </h1>
             <p className="mt-2 max-w-4xl text-sm text-gray-500">
-              Review and approve messages submitted by staff members before delivery to patients.
+              Review and approve messages submitted by staff members before delivery to patients,
+              or return them to their author with comments. Messages returned to you are listed here too.
               Current user: {user.email} ({user.role})
             </p>
           </div>
@@ -0,0 +1,53 @@
+import React from 'react';
+import { AppContext } from '@/worker';
+import { Navigation } from '@/app/components/Navigation';
+import { AiBudgetsPageClient } from '@/app/components/AiBudgetsPageClient';
+import { BudgetService } from '@/lib/services/budgetService';
+import { canManageAiBudgets, getUsers } from '@/lib/server-functions';
+
+interface AiBudgetsPageProps {
+  ctx: AppContext;
+}
+
+export default async function AiBudgetsPage({ ctx }: AiBudgetsPageProps) {
+  const { user } = ctx;
+
+  if (!user || !canManageAiBudgets(user)) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="bg-white p-8 rounded-lg shadow-md">
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Access Denied</h2>
+          <p className="text-gray-600">Only administrators can manage AI budgets.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const [budgets, alerts, users] = await Promise.all([
+    BudgetService.listBudgets(user),
+    BudgetService.getRecentAlerts(user),
+    getUsers()
+  ]);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation ctx={ctx} currentPath="/admin/budgets" />
+      <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="border-b border-gray-200 pb-5 mb-8">
+            <h1 className="text-3xl font-bold leading-6 text-gray-900">
+              AI Budgets
+            </h1>
+            <p className="mt-2 max-w-4xl text-sm text-gray-500">
+              Request, token and dollar limits checked before every draft generation. Windows are UTC days and
+              months. A user budget replaces the role budget for the same period; panel and organization budgets
+              always apply. Administrators are emailed when a budget reaches its soft limit.
+            </p>
+          </div>
+
+          <AiBudgetsPageClient initialBudgets={budgets} initialAlerts={alerts} users={users} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import React from 'react';
+import { AppContext } from '@/worker';
+import { Navigation } from '@/app/components/Navigation';
+import { ApprovalPoliciesPageClient } from '@/app/components/ApprovalPoliciesPageClient';
+import { ApprovalService } from '@/lib/services/approvalService';
+import { canManageApprovalPolicies, getUsers } from '@/lib/server-functions';
+
+interface ApprovalPoliciesPageProps {
+  ctx: AppContext;
+}
+
+export default async function ApprovalPoliciesPage({ ctx }: ApprovalPoliciesPageProps) {
+  const { user } = ctx;
+
+  if (!user || !canManageApprovalPolicies(user)) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="bg-white p-8 rounded-lg shadow-md">
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Access Denied</h2>
+          <p className="text-gray-600">Only administrators can manage approval policies.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const [policies, users] = await Promise.all([
+    ApprovalService.listPolicies(user),
+    getUsers()
+  ]);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation ctx={ctx} currentPath="/admin/approval-policies" />
+      <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="border-b border-gray-200 pb-5 mb-8">
+            <h1 className="text-3xl font-bold leading-6 text-gray-900">
+              Approval Policies
+            </h1>
+            <p className="mt-2 max-w-4xl text-sm text-gray-500">
+              Approvals a message needs before it can be queued, signed in order by different people. The enabled
+              policy with the most matching conditions applies; messages no policy matches need one reviewer. A
+              message keeps the policy it was submitted under, and every signature covers the exact text sent.
+            </p>
+          </div>
+
+          <ApprovalPoliciesPageClient initialPolicies={policies} users={users} />
+        </div>
+      </div>
+    </div>
+  );
+}
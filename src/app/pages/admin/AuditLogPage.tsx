@@ -138,7 +138,7 @@ export default async function AuditLogPage({ ctx }: AuditLogPageProps) {
                     </thead>
                     <tbody className="bg-white divide-y divide-gray-200">
                       {auditLogs.map((log) => (
-                        <tr key={log.id}>
+                        <tr key={log.id} id={`audit-${log.id}`}>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                             {new Date(log.createdAt).toLocaleString()}
                           </td>
@@ -0,0 +1,52 @@
+import React from 'react';
+import { AppContext } from '@/worker';
+import { Navigation } from '@/app/components/Navigation';
+import { PromptTemplatesPageClient } from '@/app/components/PromptTemplatesPageClient';
+import { PromptTemplateService } from '@/lib/services/promptTemplateService';
+import { canManagePromptTemplates, getDoctors } from '@/lib/server-functions';
+
+interface PromptTemplatesPageProps {
+  ctx: AppContext;
+}
+
+export default async function PromptTemplatesPage({ ctx }: PromptTemplatesPageProps) {
+  const { user } = ctx;
+
+  if (!user || !canManagePromptTemplates(user)) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="bg-white p-8 rounded-lg shadow-md">
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Access Denied</h2>
+          <p className="text-gray-600">Only administrators can manage prompt templates.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const [templates, doctors] = await Promise.all([
+    PromptTemplateService.listTemplates(user),
+    getDoctors()
+  ]);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation ctx={ctx} currentPath="/admin/prompts" />
+      <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="border-b border-gray-200 pb-5 mb-8">
+            <h1 className="text-3xl font-bold leading-6 text-gray-900">
+              Prompt Templates
+            </h1>
+            <p className="mt-2 max-w-4xl text-sm text-gray-500">
+              Versioned system and user prompts used for draft generation. A doctor override takes precedence
+              over a specialty override, which takes precedence over the global template. Every draft records
+              the template version that produced it.
+            </p>
+          </div>
+
+          <PromptTemplatesPageClient initialTemplates={templates} doctors={doctors} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import React from 'react';
+import { AppContext } from '@/worker';
+import { Navigation } from '@/app/components/Navigation';
+import { DraftExamplesPageClient } from '@/app/components/DraftExamplesPageClient';
+import { DraftExampleService } from '@/lib/services/draftExampleService';
+import { canAccessDoctorSettings } from '@/lib/server-functions';
+
+interface DoctorExamplesPageProps {
+  ctx: AppContext;
+}
+
+export default async function DoctorExamplesPage({ ctx }: DoctorExamplesPageProps) {
+  const { user } = ctx;
+
+  if (!user || !canAccessDoctorSettings(user)) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="bg-white p-8 rounded-lg shadow-md">
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Access Denied</h2>
+          <p className="text-gray-600">Only doctors can access this page.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { useApprovedExamples, examples } = await DraftExampleService.listExamples(user);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation ctx={ctx} currentPath="/doctor/examples" />
+      <div className="max-w-6xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="border-b border-gray-200 pb-5 mb-8">
+            <h1 className="text-3xl font-bold leading-6 text-gray-900">
+              Example Bank
+            </h1>
+            <p className="mt-2 max-w-4xl text-sm text-gray-500">
+              When enabled, messages you or your reviewers approve are saved here with patient identifiers removed.
+              The most similar examples are shown to the AI when drafting replies to your patients. Remove any
+              example you don't want reused.
+            </p>
+          </div>
+
+          <DraftExamplesPageClient initialOptIn={useApprovedExamples} initialExamples={examples} />
+        </div>
+      </div>
+    </div>
+  );
+}
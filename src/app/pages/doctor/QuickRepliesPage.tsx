@@ -0,0 +1,49 @@
+import React from 'react';
+import { AppContext } from '@/worker';
+import { Navigation } from '@/app/components/Navigation';
+import { QuickRepliesPageClient } from '@/app/components/QuickRepliesPageClient';
+import { QuickReplyService } from '@/lib/services/quickReplyService';
+import { canAccessDoctorSettings } from '@/lib/server-functions';
+
+interface DoctorQuickRepliesPageProps {
+  ctx: AppContext;
+}
+
+export default async function DoctorQuickRepliesPage({ ctx }: DoctorQuickRepliesPageProps) {
+  const { user } = ctx;
+
+  if (!user || !canAccessDoctorSettings(user)) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="bg-white p-8 rounded-lg shadow-md">
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Access Denied</h2>
+          <p className="text-gray-600">Only doctors can access this page.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const templates = await QuickReplyService.listTemplates(user);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation ctx={ctx} currentPath="/doctor/quick-replies" />
+      <div className="max-w-6xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="border-b border-gray-200 pb-5 mb-8">
+            <h1 className="text-3xl font-bold leading-6 text-gray-900">
+              Quick Replies
+            </h1>
+            <p className="mt-2 max-w-4xl text-sm text-gray-500">
+              Approved replies for routine requests such as refills, appointment changes and billing questions.
+              When a patient's inquiry matches one of these requests, staff are offered your reply before an AI draft.
+              Urgent inquiries always get a written or generated reply.
+            </p>
+          </div>
+
+          <QuickRepliesPageClient initialTemplates={templates} />
+        </div>
+      </div>
+    </div>
+  );
+}
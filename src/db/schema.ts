@@ -1,5 +1,5 @@
 import { sql } from 'drizzle-orm';
-import { text, integer, sqliteTable, index } from 'drizzle-orm/sqlite-core';
+import { text, integer, real, sqliteTable, index, uniqueIndex } from 'drizzle-orm/sqlite-core';
 
 export const users = sqliteTable('User', {
   id: text('id').primaryKey().$default(() => crypto.randomUUID()),
@@ -18,6 +18,13 @@ export const patientBriefs = sqliteTable('PatientBrief', {
   allergies: text('allergies').notNull(),
   doctorNotes: text('doctorNotes'),
   patientInquiry: text('patientInquiry'), // Store patient inquiry text from draft workflow
+  inquiryUrgency: text('inquiryUrgency'), // Triage of the saved inquiry: emergency, urgent, routine, administrative
+  inquiryUrgencyRationale: text('inquiryUrgencyRationale'),
+  inquiryUrgencySource: text('inquiryUrgencySource'), // rules or model
+  preferredLanguage: text('preferredLanguage').notNull().default('en'), // Language drafts are written in: en, es, vi, zh
+  timezone: text('timezone'), // IANA zone, e.g. America/Chicago; the clinic's (CLINIC_TIMEZONE) when unset
+  contactHoursStart: text('contactHoursStart'), // HH:MM local time the patient may be contacted from
+  contactHoursEnd: text('contactHoursEnd'), // HH:MM local time contact stops; before start wraps midnight
   createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
   updatedAt: integer('updatedAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
   doctorId: text('doctorId').notNull().references(() => users.id),
@@ -33,6 +40,7 @@ export const doctorSettings = sqliteTable('DoctorSettings', {
   maxWords: integer('maxWords').notNull(),
   readingLevel: text('readingLevel'),
   specialtyFocus: text('specialtyFocus'),
+  useApprovedExamples: integer('useApprovedExamples', { mode: 'boolean' }).notNull().default(false), // Opt-in to the few-shot example bank
   createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
   updatedAt: integer('updatedAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
 }, (table) => ({
@@ -47,8 +55,9 @@ export const auditLogs = sqliteTable('AuditLog', {
   requestText: text('requestText').notNull(),
   generatedDraft: text('generatedDraft').notNull(),
   finalMessage: text('finalMessage').notNull(),
-  actionType: text('actionType').notNull(), // draft_generated, draft_edited, submitted_for_review, reviewed, sent, delivery_confirmed, delivery_failed
+  actionType: text('actionType').notNull(), // draft_generated, draft_retracted, draft_refined, inquiry_escalated, inquiry_triaged, draft_edited, submitted_for_review, changes_requested, reviewed, sent, delivery_confirmed, delivery_failed, recalled
   deliveryStatus: text('deliveryStatus').notNull().default('pending'), // pending, sent, delivered, failed, retry_scheduled
+  workflowState: text('workflowState').notNull().default('draft'), // MessageState; changed only through MessageStateService, see src/lib/message-states.ts
   deliveredAt: integer('deliveredAt', { mode: 'timestamp' }),
   reviewerId: text('reviewerId'), // ID of reviewer who approved/rejected
   reviewNotes: text('reviewNotes'), // Notes from reviewer
@@ -60,8 +69,29 @@ export const auditLogs = sqliteTable('AuditLog', {
   lastRetryAt: integer('lastRetryAt', { mode: 'timestamp' }),
   failureReason: text('failureReason'), // Error message for failed deliveries
   contentHash: text('contentHash'), // For data integrity verification
-  aiModelUsed: text('aiModelUsed'), // OpenAI model version used
+  aiModelUsed: text('aiModelUsed'), // Model version used
+  aiProvider: text('aiProvider'), // LLM provider that served the request: openai, azure-openai, openai-compatible, fake
   tokensConsumed: integer('tokensConsumed'), // API usage tracking
+  aiCost: real('aiCost'), // Cost in USD as priced by the serving provider
+  phiMaskedCategories: text('phiMaskedCategories'), // JSON array of PHI categories de-identified before the LLM call
+  draftCandidates: text('draftCandidates'), // JSON array of candidate drafts when several were generated
+  candidateSelection: text('candidateSelection'), // JSON record of chosen and discarded candidate IDs
+  promptTemplateId: text('promptTemplateId'), // PromptTemplate version that produced the draft
+  guardrailFindings: text('guardrailFindings'), // JSON array of guardrail rule matches on the inquiry and draft
+  urgencyLevel: text('urgencyLevel'), // Triage of the inquiry: emergency, urgent, routine, administrative
+  urgencyRationale: text('urgencyRationale'), // Why the inquiry was given that level
+  urgencySource: text('urgencySource'), // rules or model
+  fewShotExampleIds: text('fewShotExampleIds'), // JSON array of DraftExample IDs included in the prompt
+  readingGrade: real('readingGrade'), // Flesch-Kincaid grade of the generated draft
+  readingLevelRewrites: integer('readingLevelRewrites'), // Simplification passes applied to reach the doctor's reading level
+  draftLanguage: text('draftLanguage'), // Patient language the draft was written in
+  backTranslation: text('backTranslation'), // English back-translation of the draft, refreshed when the message is edited
+  draftGrounding: text('draftGrounding'), // JSON DraftGrounding: brief fields supporting each sentence of the generated draft
+  medicationIssues: text('medicationIssues'), // JSON MedicationIssue[]: allergy conflicts and unlisted drugs in the message
+  inquiryIntent: text('inquiryIntent'), // medication_refill, appointment, lab_results, billing, records_forms, general
+  quickReplyTemplateId: text('quickReplyTemplateId'), // QuickReplyTemplate the draft was filled from instead of generated
+  approvalPlan: text('approvalPlan'), // JSON ApprovalPlan: approver roles the submission in review needs, see src/lib/approval-policies.ts
+  approvalRound: integer('approvalRound').notNull().default(0), // Raised when the message is recalled, so approvals from before no longer count
   createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
   updatedAt: integer('updatedAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
 }, (table) => ({
@@ -69,8 +99,10 @@ export const auditLogs = sqliteTable('AuditLog', {
   createdAtIdx: index('AuditLog_createdAt_idx').on(table.createdAt),
   actionTypeIdx: index('AuditLog_actionType_idx').on(table.actionType),
   deliveryStatusIdx: index('AuditLog_deliveryStatus_idx').on(table.deliveryStatus),
+  workflowStateIdx: index('AuditLog_workflowState_idx').on(table.workflowState),
   patientIdIdx: index('AuditLog_patientId_idx').on(table.patientId),
   reviewerIdIdx: index('AuditLog_reviewerId_idx').on(table.reviewerId),
+  urgencyLevelIdx: index('AuditLog_urgencyLevel_idx').on(table.urgencyLevel),
 }));
 
 export const messageQueue = sqliteTable('MessageQueue', {
@@ -84,7 +116,8 @@ export const messageQueue = sqliteTable('MessageQueue', {
   scheduledFor: integer('scheduledFor', { mode: 'timestamp' }),
   attempts: integer('attempts').notNull().default(0),
   maxAttempts: integer('maxAttempts').notNull().default(3),
-  status: text('status').notNull().default('queued'), // queued, processing, sent, delivered, failed, cancelled
+  status: text('status').notNull().default('queued'), // pending_review, queued, processing, sent, delivered, failed, cancelled, recalled
+  dispatchId: text('dispatchId'), // Set each time a delivery job is enqueued; jobs carrying another id are stale and skipped
   lastAttemptAt: integer('lastAttemptAt', { mode: 'timestamp' }),
   nextRetryAt: integer('nextRetryAt', { mode: 'timestamp' }),
   errorLog: text('errorLog'), // JSON array of error messages
@@ -100,6 +133,238 @@ export const messageQueue = sqliteTable('MessageQueue', {
   priorityIdx: index('MessageQueue_priority_idx').on(table.priority),
 }));
 
+export const promptTemplates = sqliteTable('PromptTemplate', {
+  id: text('id').primaryKey().$default(() => crypto.randomUUID()),
+  scope: text('scope').notNull(), // global, specialty, doctor
+  scopeValue: text('scopeValue'), // Specialty name or doctor ID; null for global
+  version: integer('version').notNull(), // Increments per scope and scopeValue
+  systemTemplate: text('systemTemplate').notNull(),
+  userTemplate: text('userTemplate').notNull(),
+  changeNote: text('changeNote'),
+  isActive: integer('isActive', { mode: 'boolean' }).notNull().default(false), // At most one active version per scope and scopeValue
+  createdBy: text('createdBy').references(() => users.id),
+  activatedBy: text('activatedBy').references(() => users.id),
+  activatedAt: integer('activatedAt', { mode: 'timestamp' }),
+  createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
+}, (table) => ({
+  scopeIdx: index('PromptTemplate_scope_scopeValue_idx').on(table.scope, table.scopeValue),
+  scopeVersionKey: uniqueIndex('PromptTemplate_scope_scopeValue_version_key').on(table.scope, table.scopeValue, table.version),
+  isActiveIdx: index('PromptTemplate_isActive_idx').on(table.isActive),
+}));
+
+export const guardrailRules = sqliteTable('GuardrailRule', {
+  id: text('id').primaryKey().$default(() => crypto.randomUUID()),
+  name: text('name').notNull(),
+  category: text('category').notNull(), // dosage_change, medication_change, diagnosis, emergency_advice
+  severity: text('severity').notNull(), // block, require_doctor_review, warn
+  pattern: text('pattern').notNull(), // Regular expression source
+  flags: text('flags').default('i'),
+  appliesTo: text('appliesTo').notNull().default('draft'), // inquiry, draft, both
+  explanation: text('explanation').notNull(), // Shown to staff next to the matched text
+  isEnabled: integer('isEnabled', { mode: 'boolean' }).notNull().default(true),
+  createdBy: text('createdBy').references(() => users.id),
+  updatedBy: text('updatedBy').references(() => users.id),
+  createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
+  updatedAt: integer('updatedAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
+}, (table) => ({
+  isEnabledIdx: index('GuardrailRule_isEnabled_idx').on(table.isEnabled),
+}));
+
+export const draftExamples = sqliteTable('DraftExample', {
+  id: text('id').primaryKey().$default(() => crypto.randomUUID()),
+  doctorId: text('doctorId').notNull().references(() => users.id),
+  auditLogId: text('auditLogId').notNull().unique().references(() => auditLogs.id),
+  inquiryText: text('inquiryText').notNull(), // De-identified patient inquiry
+  responseText: text('responseText').notNull(), // De-identified approved finalMessage
+  approvedBy: text('approvedBy').references(() => users.id),
+  removedBy: text('removedBy').references(() => users.id),
+  removedAt: integer('removedAt', { mode: 'timestamp' }), // Removed examples are never reused or re-added
+  createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
+}, (table) => ({
+  doctorIdIdx: index('DraftExample_doctorId_idx').on(table.doctorId),
+}));
+
+// One thread per patient brief; deleted with the brief
+export const conversations = sqliteTable('Conversation', {
+  id: text('id').primaryKey().$default(() => crypto.randomUUID()),
+  patientId: text('patientId').notNull().unique().references(() => patientBriefs.id, { onDelete: 'cascade' }),
+  createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
+  updatedAt: integer('updatedAt', { mode: 'timestamp' }).notNull().$default(() => new Date()), // Last message in the thread
+});
+
+export const conversationMessages = sqliteTable('ConversationMessage', {
+  id: text('id').primaryKey().$default(() => crypto.randomUUID()),
+  conversationId: text('conversationId').notNull().references(() => conversations.id, { onDelete: 'cascade' }),
+  direction: text('direction').notNull(), // inbound (from the patient), outbound (sent to the patient)
+  body: text('body').notNull(),
+  auditLogId: text('auditLogId').unique().references(() => auditLogs.id), // AuditLog entry of an outbound message
+  recordedBy: text('recordedBy').references(() => users.id), // Staff member who logged the inbound message or sent the outbound one
+  createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
+}, (table) => ({
+  conversationCreatedAtIdx: index('ConversationMessage_conversationId_createdAt_idx').on(table.conversationId, table.createdAt),
+}));
+
+// A doctor's approved replies to routine inquiries; see src/lib/quick-replies.ts
+export const quickReplyTemplates = sqliteTable('QuickReplyTemplate', {
+  id: text('id').primaryKey().$default(() => crypto.randomUUID()),
+  doctorId: text('doctorId').notNull().references(() => users.id), // Author and approver; offered only for this doctor's patients
+  intent: text('intent').notNull(), // medication_refill, appointment, lab_results, billing, records_forms
+  title: text('title').notNull(),
+  body: text('body').notNull(), // Reply text with {{placeholders}}
+  language: text('language').notNull().default('en'), // Offered only to patients with this preferred language
+  isActive: integer('isActive', { mode: 'boolean' }).notNull().default(true),
+  useCount: integer('useCount').notNull().default(0),
+  createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
+  updatedAt: integer('updatedAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
+}, (table) => ({
+  doctorIntentIdx: index('QuickReplyTemplate_doctorId_intent_idx').on(table.doctorId, table.intent),
+}));
+
+// Usage limits enforced before each LLM call; see src/lib/budgets.ts
+export const aiBudgets = sqliteTable('AiBudget', {
+  id: text('id').primaryKey().$default(() => crypto.randomUUID()),
+  scope: text('scope').notNull(), // user, role, doctor_panel, organization
+  scopeValue: text('scopeValue'), // User ID, role name or doctor ID; null for organization
+  period: text('period').notNull(), // daily, monthly (UTC windows)
+  maxRequests: integer('maxRequests'),
+  maxTokens: integer('maxTokens'),
+  maxCost: real('maxCost'), // USD
+  softLimitPercent: integer('softLimitPercent').notNull().default(80),
+  isEnabled: integer('isEnabled', { mode: 'boolean' }).notNull().default(true),
+  overrideUntil: integer('overrideUntil', { mode: 'timestamp' }), // Not enforced before this time
+  overrideBy: text('overrideBy').references(() => users.id),
+  overrideReason: text('overrideReason'),
+  createdBy: text('createdBy').references(() => users.id),
+  updatedBy: text('updatedBy').references(() => users.id),
+  createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
+  updatedAt: integer('updatedAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
+}, (table) => ({
+  scopeIdx: index('AiBudget_scope_scopeValue_idx').on(table.scope, table.scopeValue),
+}));
+
+// Admin warnings already sent; at most one per budget, level and window
+export const aiBudgetAlerts = sqliteTable('AiBudgetAlert', {
+  id: text('id').primaryKey().$default(() => crypto.randomUUID()),
+  budgetId: text('budgetId').notNull().references(() => aiBudgets.id, { onDelete: 'cascade' }),
+  level: text('level').notNull(), // soft_limit, exceeded
+  windowStart: integer('windowStart', { mode: 'timestamp' }).notNull(),
+  subjectUserId: text('subjectUserId').references(() => users.id), // User the alert is about, for user and role budgets; null for the others
+  message: text('message').notNull(),
+  createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
+}, (table) => ({
+  budgetLevelWindowSubjectKey: uniqueIndex('AiBudgetAlert_budgetId_level_windowStart_subjectUserId_key').on(
+    table.budgetId, table.level, table.windowStart, sql`COALESCE(${table.subjectUserId}, '')`
+  ),
+}));
+
+// Short-lived results of draft generations, replayed for identical requests; see src/lib/draft-cache.ts
+export const draftCache = sqliteTable('DraftCache', {
+  id: text('id').primaryKey().$default(() => crypto.randomUUID()),
+  cacheKey: text('cacheKey').notNull(), // Hash of the user, brief, settings and template versions and the inquiry
+  idempotencyKey: text('idempotencyKey'), // Client-supplied Idempotency-Key header, when sent
+  userId: text('userId').notNull().references(() => users.id),
+  auditLogId: text('auditLogId'), // draft_generated entry that was billed for the response
+  response: text('response'), // JSON DraftResponse as first returned; cleared by the nightly cron once expired
+  tokensConsumed: integer('tokensConsumed').notNull().default(0),
+  hitCount: integer('hitCount').notNull().default(0), // Requests answered from this entry, never billed
+  expiresAt: integer('expiresAt', { mode: 'timestamp' }).notNull(),
+  createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
+}, (table) => ({
+  cacheKeyIdx: index('DraftCache_cacheKey_idx').on(table.cacheKey),
+  userIdempotencyKey: uniqueIndex('DraftCache_userId_idempotencyKey_key').on(table.userId, table.idempotencyKey),
+}));
+
+// One row per workflow state change; rows are never updated or deleted (enforced by triggers)
+export const messageStateEvents = sqliteTable('MessageStateEvent', {
+  id: text('id').primaryKey().$default(() => crypto.randomUUID()),
+  auditLogId: text('auditLogId').notNull().references(() => auditLogs.id),
+  fromState: text('fromState').notNull(),
+  toState: text('toState').notNull(),
+  actorId: text('actorId').references(() => users.id), // Null for system transitions (queue processors, delivery webhooks)
+  actorRole: text('actorRole').notNull(), // staff, reviewer, doctor, admin or system
+  reason: text('reason'), // Review notes, failure reason or other explanation
+  metadata: text('metadata'), // JSON details such as the queue entry or provider ID
+  createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
+}, (table) => ({
+  auditLogCreatedAtIdx: index('MessageStateEvent_auditLogId_createdAt_idx').on(table.auditLogId, table.createdAt),
+}));
+
+// One row per submission of a message for review, with the reviewer's decision on that text
+export const messageRevisions = sqliteTable('MessageRevision', {
+  id: text('id').primaryKey().$default(() => crypto.randomUUID()),
+  auditLogId: text('auditLogId').notNull().references(() => auditLogs.id),
+  revision: integer('revision').notNull(), // 1 for the first submission, then one more per resubmission
+  message: text('message').notNull(), // Text as submitted
+  submittedBy: text('submittedBy').notNull().references(() => users.id),
+  submittedAt: integer('submittedAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
+  outcome: text('outcome'), // approved, changes_requested, rejected; null while in review
+  reviewerId: text('reviewerId').references(() => users.id),
+  reviewNotes: text('reviewNotes'),
+  comments: text('comments'), // JSON ReviewComment[]: inline comments on this revision's text
+  reviewedAt: integer('reviewedAt', { mode: 'timestamp' }),
+}, (table) => ({
+  auditLogRevisionKey: uniqueIndex('MessageRevision_auditLogId_revision_key').on(table.auditLogId, table.revision),
+}));
+
+export const reviewAssignments = sqliteTable('ReviewAssignment', {
+  id: text('id').primaryKey().$default(() => crypto.randomUUID()),
+  auditLogId: text('auditLogId').notNull().unique().references(() => auditLogs.id), // One row per message, reset on resubmission
+  assigneeId: text('assigneeId').references(() => users.id), // Reviewer responsible for the current submission; null when nobody was eligible
+  assignedVia: text('assignedVia').notNull(), // round_robin, doctor_panel, returning_reviewer, escalation, reassigned
+  requiredRole: text('requiredRole').notNull().default('reviewer'), // ApprovalRole of the step the assignee is to sign
+  assignedAt: integer('assignedAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
+  dueAt: integer('dueAt', { mode: 'timestamp' }).notNull(), // Review SLA deadline, from the inquiry urgency
+  escalateToId: text('escalateToId').references(() => users.id), // Who gets the message if it passes dueAt
+  escalationLevel: integer('escalationLevel').notNull().default(0),
+  escalatedAt: integer('escalatedAt', { mode: 'timestamp' }),
+  claimedBy: text('claimedBy').references(() => users.id), // Reviewer working on the message; only counts until claimExpiresAt
+  claimedAt: integer('claimedAt', { mode: 'timestamp' }),
+  claimExpiresAt: integer('claimExpiresAt', { mode: 'timestamp' }),
+  completedAt: integer('completedAt', { mode: 'timestamp' }), // Set when the reviewer decides; open assignments have null
+  createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
+  updatedAt: integer('updatedAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
+}, (table) => ({
+  assigneeIdIdx: index('ReviewAssignment_assigneeId_idx').on(table.assigneeId),
+  dueAtIdx: index('ReviewAssignment_dueAt_idx').on(table.dueAt),
+}));
+
+export const approvalPolicies = sqliteTable('ApprovalPolicy', {
+  id: text('id').primaryKey().$default(() => crypto.randomUUID()),
+  name: text('name').notNull(),
+  // Conditions; null matches any message
+  doctorId: text('doctorId').references(() => users.id), // Patients on this doctor's panel
+  urgencyLevel: text('urgencyLevel'), // emergency, urgent, routine, administrative
+  guardrailCategory: text('guardrailCategory'), // Messages matching a guardrail rule of this category
+  inquiryIntent: text('inquiryIntent'), // medication_refill, appointment, lab_results, billing, records_forms, general
+  steps: text('steps').notNull(), // JSON ApprovalRole[]: approvers in signing order
+  isEnabled: integer('isEnabled', { mode: 'boolean' }).notNull().default(true),
+  createdBy: text('createdBy').references(() => users.id),
+  updatedBy: text('updatedBy').references(() => users.id),
+  createdAt: integer('createdAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
+  updatedAt: integer('updatedAt', { mode: 'timestamp' }).notNull().$default(() => new Date()),
+}, (table) => ({
+  doctorIdIdx: index('ApprovalPolicy_doctorId_idx').on(table.doctorId),
+}));
+
+// Append-only: the migration adds triggers that reject updates and deletes
+export const messageApprovals = sqliteTable('MessageApproval', {
+  id: text('id').primaryKey().$default(() => crypto.randomUUID()),
+  auditLogId: text('auditLogId').notNull().references(() => auditLogs.id),
+  revision: integer('revision').notNull(), // MessageRevision the approval was given on
+  round: integer('round').notNull().default(0), // AuditLog.approvalRound when signed
+  stepIndex: integer('stepIndex').notNull(), // 0-based position in the approval plan
+  requiredRole: text('requiredRole').notNull(), // ApprovalRole of the step
+  policyId: text('policyId').references(() => approvalPolicies.id), // Null for the default single review
+  approverId: text('approverId').notNull().references(() => users.id),
+  approverRole: text('approverRole').notNull(),
+  contentHash: text('contentHash').notNull(), // SHA-256 of the message text that was approved
+  signature: text('signature').notNull(), // HMAC-SHA256 over approvalSigningPayload()
+  notes: text('notes'),
+  signedAt: integer('signedAt', { mode: 'timestamp' }).notNull(),
+}, (table) => ({
+  stepKey: uniqueIndex('MessageApproval_auditLogId_revision_round_stepIndex_key').on(table.auditLogId, table.revision, table.round, table.stepIndex),
+}));
+
 // Export types for use in application code
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
@@ -111,3 +376,31 @@ export type AuditLog = typeof auditLogs.$inferSelect;
 export type NewAuditLog = typeof auditLogs.$inferInsert;
 export type MessageQueue = typeof messageQueue.$inferSelect;
 export type NewMessageQueue = typeof messageQueue.$inferInsert;
+export type PromptTemplate = typeof promptTemplates.$inferSelect;
+export type NewPromptTemplate = typeof promptTemplates.$inferInsert;
+export type GuardrailRule = typeof guardrailRules.$inferSelect;
+export type NewGuardrailRule = typeof guardrailRules.$inferInsert;
+export type DraftExample = typeof draftExamples.$inferSelect;
+export type NewDraftExample = typeof draftExamples.$inferInsert;
+export type Conversation = typeof conversations.$inferSelect;
+export type NewConversation = typeof conversations.$inferInsert;
+export type ConversationMessage = typeof conversationMessages.$inferSelect;
+export type NewConversationMessage = typeof conversationMessages.$inferInsert;
+export type QuickReplyTemplate = typeof quickReplyTemplates.$inferSelect;
+export type NewQuickReplyTemplate = typeof quickReplyTemplates.$inferInsert;
+export type AiBudget = typeof aiBudgets.$inferSelect;
+export type NewAiBudget = typeof aiBudgets.$inferInsert;
+export type AiBudgetAlert = typeof aiBudgetAlerts.$inferSelect;
+export type NewAiBudgetAlert = typeof aiBudgetAlerts.$inferInsert;
+export type DraftCacheEntry = typeof draftCache.$inferSelect;
+export type NewDraftCacheEntry = typeof draftCache.$inferInsert;
+export type MessageStateEvent = typeof messageStateEvents.$inferSelect;
+export type NewMessageStateEvent = typeof messageStateEvents.$inferInsert;
+export type MessageRevision = typeof messageRevisions.$inferSelect;
+export type NewMessageRevision = typeof messageRevisions.$inferInsert;
+export type ReviewAssignment = typeof reviewAssignments.$inferSelect;
+export type NewReviewAssignment = typeof reviewAssignments.$inferInsert;
+export type ApprovalPolicy = typeof approvalPolicies.$inferSelect;
+export type NewApprovalPolicy = typeof approvalPolicies.$inferInsert;
+export type MessageApproval = typeof messageApprovals.$inferSelect;
+export type NewMessageApproval = typeof messageApprovals.$inferInsert;
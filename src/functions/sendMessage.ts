@@ -89,6 +89,7 @@ export async function markMessageAsSent(
       finalMessage: request.finalMessage,
       actionType: 'message_sent' as const,
       deliveryStatus: 'sent' as const,
+      workflowState: 'sent' as const, // Sent outside the app, so it is recorded in its final state without transitions
       deliveredAt: timestamp,
       reviewerId: userId, // The person marking as sent
       reviewNotes: `Manually marked as sent via ${request.deliveryMethod}`,
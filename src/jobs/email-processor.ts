@@ -1,13 +1,19 @@
 import { drizzleDb, messageQueue } from '@/db';
-import { eq } from 'drizzle-orm';
+import { and, eq, inArray } from 'drizzle-orm';
 import { deliveryManager } from '@/providers/delivery';
+import { MessageStateService } from '@/lib/services/messageStateService';
+import { ConversationService } from '@/lib/services/conversationService';
+import { DraftExampleService } from '@/lib/services/draftExampleService';
 import * as Sentry from '@sentry/cloudflare';
-import type { EmailJob } from '@/lib/queue-producer';
+import { createQueueProducer, type EmailJob } from '@/lib/queue-producer';
+
+// Delivery may start this close to MessageQueue.scheduledFor; earlier jobs are enqueued again
+const EARLY_TOLERANCE_MS = 60 * 1000;
 
 export interface EmailProcessingResult {
   success: boolean;
   messageId: string;
-  status: 'sent' | 'failed';
+  status: 'sent' | 'failed' | 'skipped'; // skipped: the job was stale (see QueueJob dispatchId) or early
   externalId?: string;
   error?: string;
   retryAfter?: number;
@@ -36,6 +42,16 @@ export class EmailProcessor {
         throw new Error(`Message queue entry not found: ${job.messageId}`);
       }
 
+      // Recalling or re-sending a message cannot remove its earlier jobs from the queue; they are dropped here
+      if (job.dispatchId && queueEntry.dispatchId !== job.dispatchId) {
+        console.log('[EMAIL_PROCESSOR] Skipping stale job:', {
+          messageId: job.messageId,
+          dispatchId: job.dispatchId,
+          currentStatus: queueEntry.status
+        });
+        return { success: true, messageId: job.messageId, status: 'skipped' };
+      }
+
       // Check if message is in correct state for processing
       if (queueEntry.status !== 'queued' && queueEntry.status !== 'processing') {
         console.warn('[EMAIL_PROCESSOR] Message not in processable state:', {
@@ -50,14 +66,39 @@ export class EmailProcessor {
         };
       }
 
-      // Update status to processing
-      await drizzleDb
+      // Sends further out than the queue can delay arrive early and wait again
+      if (queueEntry.scheduledFor && queueEntry.scheduledFor.getTime() - Date.now() > EARLY_TOLERANCE_MS) {
+        await createQueueProducer(env).enqueueSendLater(job, queueEntry.scheduledFor);
+        console.log('[EMAIL_PROCESSOR] Job arrived early, enqueued again:', {
+          messageId: job.messageId,
+          scheduledFor: queueEntry.scheduledFor
+        });
+        return { success: true, messageId: job.messageId, status: 'skipped' };
+      }
+
+      // Claim the entry; a recall that landed since it was read wins
+      const [claimed] = await drizzleDb
         .update(messageQueue)
         .set({
           status: 'processing',
           updatedAt: new Date()
         })
-        .where(eq(messageQueue.id, job.messageId));
+        .where(and(
+          eq(messageQueue.id, job.messageId),
+          inArray(messageQueue.status, ['queued', 'processing']),
+          job.dispatchId ? eq(messageQueue.dispatchId, job.dispatchId) : undefined
+        ))
+        .returning({ id: messageQueue.id });
+
+      if (!claimed) {
+        console.log('[EMAIL_PROCESSOR] Message recalled before delivery:', { messageId: job.messageId });
+        return { success: true, messageId: job.messageId, status: 'skipped' };
+      }
+
+      // Scheduled and held sends, and retries of failed ones, enter sending here; unheld immediate sends usually already have
+      await MessageStateService.recordDelivery(queueEntry.auditLogId, 'sending', {
+        metadata: { messageQueueId: queueEntry.id, attemptNumber: queueEntry.attempts + 1 }
+      });
 
       // Send email through delivery provider
       const deliveryResult = await deliveryManager.send({
@@ -87,6 +128,15 @@ export class EmailProcessor {
           })
           .where(eq(messageQueue.id, job.messageId));
 
+        const delivered = await MessageStateService.recordDelivery(queueEntry.auditLogId, 'sent', {
+          metadata: { externalId: deliveryResult.externalId }
+        });
+        if (delivered) {
+          // Only messages that reached the patient join their thread and feed the doctor's example bank
+          await ConversationService.recordOutbound(queueEntry.auditLogId, job.metadata?.userId ?? null);
+          await DraftExampleService.captureApprovedMessage(queueEntry.auditLogId, job.metadata?.userId ?? null);
+        }
+
         // Log successful processing
         Sentry.addBreadcrumb({
           category: 'email',
@@ -138,6 +188,14 @@ export class EmailProcessor {
           })
           .where(eq(messageQueue.id, job.messageId));
 
+        // Retries stay in sending; only the last attempt fails the message
+        if (!shouldRetry) {
+          await MessageStateService.recordDelivery(queueEntry.auditLogId, 'failed', {
+            reason: deliveryResult.error || 'Delivery failed',
+            metadata: { attempts: queueEntry.attempts + 1 }
+          });
+        }
+
         // Log failure
         Sentry.addBreadcrumb({
           category: 'email',
@@ -185,6 +243,12 @@ export class EmailProcessor {
             }])
           })
           .where(eq(messageQueue.id, job.messageId));
+
+        if (job.metadata?.auditLogId) {
+          await MessageStateService.recordDelivery(job.metadata.auditLogId, 'failed', {
+            reason: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
       } catch (updateError) {
         console.error('[EMAIL_PROCESSOR] Failed to update queue entry after error:', updateError);
       }
@@ -0,0 +1,219 @@
+// Approval policies: ordered approver roles a message needs before it can be queued, chosen by doctor, urgency,
+// guardrail category or inquiry intent
+import { GUARDRAIL_CATEGORIES } from './guardrails';
+import { INQUIRY_INTENTS } from './quick-replies';
+import { URGENCY_LEVELS } from './triage';
+
+/**
+ * - reviewer: any reviewer, doctor or admin
+ * - doctor: any doctor, or an admin
+ * - panel_doctor: the doctor whose panel the patient is in
+ * - admin: an administrator
+ */
+export type ApprovalRole = 'reviewer' | 'doctor' | 'panel_doctor' | 'admin';
+
+export const APPROVAL_ROLES: ApprovalRole[] = ['reviewer', 'doctor', 'panel_doctor', 'admin'];
+
+export const APPROVAL_ROLE_LABELS: Record<ApprovalRole, string> = {
+  reviewer: 'Reviewer',
+  doctor: 'Doctor',
+  panel_doctor: "Patient's doctor",
+  admin: 'Administrator'
+};
+
+export const MAX_APPROVAL_STEPS = 4;
+
+export interface ApprovalPolicyDefinition {
+  id: string;
+  name: string;
+  // Conditions; null matches any message. A policy applies when all its conditions match.
+  doctorId: string | null;
+  urgencyLevel: string | null;
+  guardrailCategory: string | null;
+  inquiryIntent: string | null;
+  steps: ApprovalRole[];
+  isEnabled: boolean;
+}
+
+export interface ApprovalSubject {
+  doctorId: string | null; // Doctor whose panel the patient is in
+  urgencyLevel: string | null;
+  guardrailCategories: string[]; // Categories of the guardrail rules the message matched
+  inquiryIntent: string | null;
+}
+
+// Steps a message needs, snapshotted on the audit log when it enters review
+export interface ApprovalPlan {
+  policyId: string | null;
+  policyName: string;
+  steps: ApprovalRole[];
+}
+
+export interface ApprovalSigner {
+  id: string;
+  role: string;
+}
+
+/**
+ * Thrown when an approval cannot be signed or a message is queued without every step signed
+ */
+export class ApprovalStepError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApprovalStepError';
+  }
+}
+
+// Messages no policy matches keep the single review they always had
+export const DEFAULT_APPROVAL_PLAN: ApprovalPlan = {
+  policyId: null,
+  policyName: 'Default',
+  steps: ['reviewer']
+};
+
+function conditionCount(policy: ApprovalPolicyDefinition): number {
+  return [policy.doctorId, policy.urgencyLevel, policy.guardrailCategory, policy.inquiryIntent].filter(Boolean).length;
+}
+
+export function policyMatches(policy: ApprovalPolicyDefinition, subject: ApprovalSubject): boolean {
+  return policy.isEnabled
+    && (!policy.doctorId || policy.doctorId === subject.doctorId)
+    && (!policy.urgencyLevel || policy.urgencyLevel === subject.urgencyLevel)
+    && (!policy.guardrailCategory || subject.guardrailCategories.includes(policy.guardrailCategory))
+    && (!policy.inquiryIntent || policy.inquiryIntent === subject.inquiryIntent);
+}
+
+/**
+ * The plan for a message: the matching policy with the most conditions, then the one with the most steps
+ */
+export function selectApprovalPlan(policies: ApprovalPolicyDefinition[], subject: ApprovalSubject): ApprovalPlan {
+  const [policy] = policies
+    .filter(candidate => policyMatches(candidate, subject))
+    .sort((a, b) => conditionCount(b) - conditionCount(a) || b.steps.length - a.steps.length || a.id.localeCompare(b.id));
+
+  return policy ? { policyId: policy.id, policyName: policy.name, steps: policy.steps } : DEFAULT_APPROVAL_PLAN;
+}
+
+/**
+ * Whether a user can sign a step; panel_doctor steps need the patient's own doctor
+ */
+export function canSignStep(step: ApprovalRole, signer: ApprovalSigner, panelDoctorId: string | null): boolean {
+  switch (step) {
+    case 'reviewer':
+      return ['reviewer', 'doctor', 'admin'].includes(signer.role);
+    case 'doctor':
+      return signer.role === 'doctor' || signer.role === 'admin';
+    case 'panel_doctor':
+      return signer.role === 'doctor' && signer.id === panelDoctorId;
+    case 'admin':
+      return signer.role === 'admin';
+  }
+}
+
+/**
+ * Why a user cannot sign the next step of a plan, or null when they can
+ * Each step needs a different signer, so a co-signature is always a second person.
+ */
+export function signingProblem(
+  plan: ApprovalPlan,
+  signedBy: string[], // Approvers of the steps already signed, in step order
+  signer: ApprovalSigner,
+  panelDoctorId: string | null
+): string | null {
+  const step = plan.steps[signedBy.length];
+  if (!step) {
+    return 'Every approval step has already been signed';
+  }
+  if (signedBy.includes(signer.id)) {
+    return `You already signed step ${signedBy.indexOf(signer.id) + 1}; step ${signedBy.length + 1} needs a different approver`;
+  }
+  if (!canSignStep(step, signer, panelDoctorId)) {
+    return `Step ${signedBy.length + 1} of ${plan.steps.length} needs approval by: ${APPROVAL_ROLE_LABELS[step]}`;
+  }
+  return null;
+}
+
+export function parseApprovalPlan(value: string | null | undefined): ApprovalPlan | null {
+  if (!value) return null;
+  try {
+    const plan = JSON.parse(value) as ApprovalPlan;
+    return Array.isArray(plan.steps) && plan.steps.length > 0 ? plan : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * "Step 2 of 3 (Doctor)", for status lines
+ */
+export function describeStep(plan: ApprovalPlan, stepIndex: number): string {
+  return `Step ${stepIndex + 1} of ${plan.steps.length} (${APPROVAL_ROLE_LABELS[plan.steps[stepIndex]]})`;
+}
+
+/**
+ * The exact string an approval signature covers; timestamps are whole seconds as stored
+ */
+export function approvalSigningPayload(approval: {
+  auditLogId: string;
+  revision: number;
+  round: number;
+  stepIndex: number;
+  requiredRole: string;
+  approverId: string;
+  approverRole: string;
+  contentHash: string;
+  signedAt: Date;
+}): string {
+  return [
+    approval.auditLogId,
+    approval.revision,
+    approval.round,
+    approval.stepIndex,
+    approval.requiredRole,
+    approval.approverId,
+    approval.approverRole,
+    approval.contentHash,
+    Math.floor(approval.signedAt.getTime() / 1000)
+  ].join('|');
+}
+
+/**
+ * Problems with a policy definition; empty when valid
+ */
+export function validateApprovalPolicy(input: {
+  name?: string | null;
+  steps?: unknown;
+  urgencyLevel?: string | null;
+  guardrailCategory?: string | null;
+  inquiryIntent?: string | null;
+}): string[] {
+  const issues: string[] = [];
+
+  if (!input.name?.trim()) {
+    issues.push('A policy name is required');
+  }
+
+  const steps = input.steps;
+  if (!Array.isArray(steps) || steps.length === 0) {
+    issues.push('Add at least one approval step');
+  } else {
+    if (steps.length > MAX_APPROVAL_STEPS) {
+      issues.push(`A policy can have at most ${MAX_APPROVAL_STEPS} steps`);
+    }
+    if (steps.some(step => !APPROVAL_ROLES.includes(step as ApprovalRole))) {
+      issues.push(`Steps must be one of: ${APPROVAL_ROLES.join(', ')}`);
+    }
+  }
+
+  if (input.urgencyLevel && !(URGENCY_LEVELS as string[]).includes(input.urgencyLevel)) {
+    issues.push(`Urgency must be one of: ${URGENCY_LEVELS.join(', ')}`);
+  }
+  if (input.guardrailCategory && !(input.guardrailCategory in GUARDRAIL_CATEGORIES)) {
+    issues.push(`Guardrail category must be one of: ${Object.keys(GUARDRAIL_CATEGORIES).join(', ')}`);
+  }
+  if (input.inquiryIntent && !(INQUIRY_INTENTS as string[]).includes(input.inquiryIntent)) {
+    issues.push(`Inquiry intent must be one of: ${INQUIRY_INTENTS.join(', ')}`);
+  }
+
+  return issues;
+}
@@ -0,0 +1,230 @@
+// AI budgets: request, token and dollar limits per user, role, doctor panel or organization
+
+/**
+ * - user: one user's own usage; replaces the role budget for the same period
+ * - role: applies to each user with the role separately
+ * - doctor_panel: usage on all patients of one doctor, whoever drafted
+ * - organization: all usage
+ */
+export type BudgetScope = 'user' | 'role' | 'doctor_panel' | 'organization';
+export type BudgetPeriod = 'daily' | 'monthly';
+export type BudgetMetric = 'requests' | 'tokens' | 'cost';
+export type BudgetState = 'ok' | 'soft_limit' | 'exceeded';
+
+export const BUDGET_SCOPES: BudgetScope[] = ['user', 'role', 'doctor_panel', 'organization'];
+export const BUDGET_PERIODS: BudgetPeriod[] = ['daily', 'monthly'];
+
+export const BUDGET_SCOPE_LABELS: Record<BudgetScope, string> = {
+  user: 'User',
+  role: 'Role',
+  doctor_panel: 'Doctor panel',
+  organization: 'Organization'
+};
+
+export const DEFAULT_SOFT_LIMIT_PERCENT = 80;
+
+export interface BudgetDefinition {
+  id: string;
+  scope: BudgetScope;
+  scopeValue: string | null; // User ID, role name or doctor ID; null for organization
+  period: BudgetPeriod;
+  maxRequests: number | null;
+  maxTokens: number | null;
+  maxCost: number | null; // USD
+  softLimitPercent: number; // Admins are warned once usage reaches this share of a limit
+  isEnabled: boolean;
+  overrideUntil: Date | null; // Admin override: the budget is not enforced before this time
+}
+
+export interface BudgetUsage {
+  requests: number;
+  tokens: number;
+  cost: number;
+}
+
+export interface BudgetEvaluation {
+  budget: BudgetDefinition;
+  usage: BudgetUsage; // Usage so far in the current window
+  projected: BudgetUsage; // Usage including the request being checked
+  state: BudgetState;
+  metrics: BudgetMetric[]; // Limits at or above the soft limit, or exceeded when the state is exceeded
+  overridden: boolean; // Exceeded but not enforced because of an admin override
+}
+
+export interface BudgetSubject {
+  userId: string;
+  role: string;
+  doctorId: string | null; // Doctor whose panel the patient belongs to
+}
+
+// Bundled budgets, seeded into AiBudget by migrations/0019_add_ai_budgets.sql; the daily request limits
+// previously hardcoded by role
+export const DEFAULT_BUDGETS: BudgetDefinition[] = [
+  { role: 'admin', maxRequests: 1000 },
+  { role: 'doctor', maxRequests: 100 },
+  { role: 'reviewer', maxRequests: 75 },
+  { role: 'staff', maxRequests: 50 }
+].map(({ role, maxRequests }) => ({
+  id: `budget-role-${role}-daily`,
+  scope: 'role',
+  scopeValue: role,
+  period: 'daily',
+  maxRequests,
+  maxTokens: null,
+  maxCost: null,
+  softLimitPercent: DEFAULT_SOFT_LIMIT_PERCENT,
+  isEnabled: true,
+  overrideUntil: null
+}));
+
+const METRIC_LIMITS: Record<BudgetMetric, 'maxRequests' | 'maxTokens' | 'maxCost'> = {
+  requests: 'maxRequests',
+  tokens: 'maxTokens',
+  cost: 'maxCost'
+};
+
+/**
+ * Start of the budget window containing `now`, in UTC
+ */
+export function budgetWindowStart(period: BudgetPeriod, now: Date = new Date()): Date {
+  return period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Enabled budgets that apply to a subject; a user budget replaces the role budget for the same period
+ */
+export function applicableBudgets(budgets: BudgetDefinition[], subject: BudgetSubject): BudgetDefinition[] {
+  const enabled = budgets.filter(budget => budget.isEnabled);
+  const userPeriods = new Set(
+    enabled.filter(budget => budget.scope === 'user' && budget.scopeValue === subject.userId).map(budget => budget.period)
+  );
+
+  return enabled.filter(budget => {
+    switch (budget.scope) {
+      case 'user':
+        return budget.scopeValue === subject.userId;
+      case 'role':
+        return budget.scopeValue === subject.role && !userPeriods.has(budget.period);
+      case 'doctor_panel':
+        return !!subject.doctorId && budget.scopeValue === subject.doctorId;
+      case 'organization':
+        return true;
+    }
+  });
+}
+
+/**
+ * The user a budget's usage and alerts are counted for; null when the budget is shared (doctor panel, organization)
+ */
+export function budgetSubjectUserId(budget: Pick<BudgetDefinition, 'scope'>, subject: BudgetSubject): string | null {
+  return budget.scope === 'user' || budget.scope === 'role' ? subject.userId : null;
+}
+
+/**
+ * Token estimate for a draft request: the prompt at about four characters per token, plus the full completion
+ * allowance, for each candidate
+ */
+export function estimateRequestTokens(promptChars: number, maxTokens: number, candidateCount: number): number {
+  return (Math.ceil(promptChars / 4) + maxTokens) * candidateCount;
+}
+
+/**
+ * Compare usage plus the pending request with a budget's limits
+ */
+export function evaluateBudget(
+  budget: BudgetDefinition,
+  usage: BudgetUsage,
+  pending: BudgetUsage,
+  now: Date = new Date()
+): BudgetEvaluation {
+  const projected: BudgetUsage = {
+    requests: usage.requests + pending.requests,
+    tokens: usage.tokens + pending.tokens,
+    cost: usage.cost + pending.cost
+  };
+
+  const exceeded: BudgetMetric[] = [];
+  const soft: BudgetMetric[] = [];
+  for (const metric of Object.keys(METRIC_LIMITS) as BudgetMetric[]) {
+    const limit = budget[METRIC_LIMITS[metric]];
+    if (limit === null) continue;
+    if (projected[metric] > limit) {
+      exceeded.push(metric);
+    } else if (projected[metric] >= limit * budget.softLimitPercent / 100) {
+      soft.push(metric);
+    }
+  }
+
+  const overridden = exceeded.length > 0 && !!budget.overrideUntil && budget.overrideUntil > now;
+  return {
+    budget,
+    usage,
+    projected,
+    state: exceeded.length > 0 ? 'exceeded' : soft.length > 0 ? 'soft_limit' : 'ok',
+    metrics: exceeded.length > 0 ? exceeded : soft,
+    overridden
+  };
+}
+
+/**
+ * Human-readable budget name, e.g. "daily role budget (staff)"
+ */
+export function describeBudget(budget: Pick<BudgetDefinition, 'scope' | 'scopeValue' | 'period'>): string {
+  const scope = BUDGET_SCOPE_LABELS[budget.scope].toLowerCase();
+  return `${budget.period} ${scope} budget${budget.scopeValue ? ` (${budget.scopeValue})` : ''}`;
+}
+
+function formatMetric(metric: BudgetMetric, value: number): string {
+  return metric === 'cost' ? `$${value.toFixed(4)}` : `${value} ${metric}`;
+}
+
+/**
+ * One-line summary of an evaluation for errors and admin warnings
+ */
+export function describeEvaluation(evaluation: BudgetEvaluation): string {
+  const limits = evaluation.metrics
+    .map(metric => `${formatMetric(metric, evaluation.projected[metric])} of ${formatMetric(metric, evaluation.budget[METRIC_LIMITS[metric]]!)}`)
+    .join(', ');
+  return `${describeBudget(evaluation.budget)}: ${limits}`;
+}
+
+/**
+ * Problems with a budget definition; empty when valid
+ */
+export function validateBudget(input: {
+  scope: string;
+  scopeValue?: string | null;
+  period: string;
+  maxRequests?: number | null;
+  maxTokens?: number | null;
+  maxCost?: number | null;
+  softLimitPercent?: number | null;
+}): string[] {
+  const issues: string[] = [];
+
+  if (!BUDGET_SCOPES.includes(input.scope as BudgetScope)) {
+    issues.push(`Scope must be one of: ${BUDGET_SCOPES.join(', ')}`);
+  } else if (input.scope === 'organization' ? !!input.scopeValue : !input.scopeValue) {
+    issues.push(input.scope === 'organization' ? 'Organization budgets have no scope value' : 'A scope value is required');
+  }
+  if (!BUDGET_PERIODS.includes(input.period as BudgetPeriod)) {
+    issues.push(`Period must be one of: ${BUDGET_PERIODS.join(', ')}`);
+  }
+
+  const limits = [input.maxRequests, input.maxTokens, input.maxCost];
+  if (limits.every(limit => limit === null || limit === undefined)) {
+    issues.push('Set at least one of maxRequests, maxTokens or maxCost');
+  }
+  if (limits.some(limit => limit !== null && limit !== undefined && (typeof limit !== 'number' || !(limit >= 0)))) {
+    issues.push('Limits must be non-negative numbers');
+  }
+
+  const percent = input.softLimitPercent;
+  if (percent !== null && percent !== undefined && !(Number.isInteger(percent) && percent > 0 && percent <= 100)) {
+    issues.push('Soft limit must be a whole percentage between 1 and 100');
+  }
+
+  return issues;
+}
@@ -0,0 +1,79 @@
+// Bulk review: one decision applied to several messages in review, each checked and recorded on its own
+
+export type BulkReviewAction = 'approve' | 'reject' | 'reassign';
+
+export const BULK_REVIEW_ACTIONS: BulkReviewAction[] = ['approve', 'reject', 'reassign'];
+
+// Messages one request may act on; keeps a batch well inside a Worker request's time
+export const MAX_BULK_REVIEW_ITEMS = 50;
+
+export interface BulkReviewRequest {
+  action: BulkReviewAction;
+  auditLogIds: string[];
+  reviewNotes?: string; // Applied to every message
+  assigneeId?: string; // For reassign
+}
+
+export interface BulkReviewItemResult {
+  auditLogId: string;
+  success: boolean;
+  message?: string;
+  error?: string;
+  nextStep?: string;
+}
+
+const PAST_TENSE: Record<BulkReviewAction, string> = {
+  approve: 'approved',
+  reject: 'rejected',
+  reassign: 'reassigned'
+};
+
+/**
+ * Problems with a bulk request as a whole; empty when valid
+ * Per-message problems (state, permissions, claims) are reported in the item results instead.
+ */
+export function validateBulkReviewRequest(input: Partial<BulkReviewRequest>): string[] {
+  const issues: string[] = [];
+
+  if (!input.action || !BULK_REVIEW_ACTIONS.includes(input.action)) {
+    issues.push(`Action must be one of: ${BULK_REVIEW_ACTIONS.join(', ')}`);
+  }
+
+  const ids = input.auditLogIds;
+  if (!Array.isArray(ids) || ids.length === 0) {
+    issues.push('Select at least one message');
+  } else {
+    if (ids.some(id => typeof id !== 'string' || !id)) {
+      issues.push('Message IDs must be non-empty strings');
+    }
+    if (new Set(ids).size > MAX_BULK_REVIEW_ITEMS) {
+      issues.push(`At most ${MAX_BULK_REVIEW_ITEMS} messages can be processed at once`);
+    }
+  }
+
+  if (input.action === 'reassign' && !input.assigneeId) {
+    issues.push('Choose who to reassign the messages to');
+  }
+
+  return issues;
+}
+
+/**
+ * Each ID once, in the order first selected
+ */
+export function uniqueIds(ids: string[]): string[] {
+  return [...new Set(ids)];
+}
+
+/**
+ * "12 approved, 2 failed", for the result banner
+ */
+export function summarizeBulkResults(action: BulkReviewAction, results: BulkReviewItemResult[]): string {
+  const succeeded = results.filter(result => result.success).length;
+  const failed = results.length - succeeded;
+  const parts = [`${succeeded} ${PAST_TENSE[action]}`];
+  if (failed > 0) {
+    parts.push(`${failed} failed`);
+  }
+  return parts.join(', ');
+}
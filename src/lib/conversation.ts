@@ -0,0 +1,48 @@
+// Conversation threads: earlier patient messages and replies given to the model as context
+
+export type MessageDirection = 'inbound' | 'outbound';
+
+export interface ConversationTurn {
+  direction: MessageDirection;
+  body: string;
+  createdAt: Date;
+}
+
+// Turns before the current inquiry that are included in the draft prompt
+export const CONVERSATION_CONTEXT_TURNS = 6;
+
+// Long replies are cut so history cannot crowd out the patient context
+const MAX_TURN_CHARS = 800;
+
+/**
+ * Whether the newest turn is the inquiry being drafted, e.g. when a draft is regenerated
+ */
+export function isCurrentInquiry(turns: ConversationTurn[], inquiry: string): boolean {
+  const latest = turns[turns.length - 1];
+  return !!latest && latest.direction === 'inbound' && latest.body.trim() === inquiry.trim();
+}
+
+/**
+ * The turns before the current inquiry, oldest first, at most `limit`
+ */
+export function priorTurns(turns: ConversationTurn[], inquiry: string, limit: number = CONVERSATION_CONTEXT_TURNS): ConversationTurn[] {
+  const history = isCurrentInquiry(turns, inquiry) ? turns.slice(0, -1) : turns;
+  return history.slice(-limit);
+}
+
+/**
+ * User prompt section listing earlier turns; empty when there are none
+ */
+export function formatConversationHistory(turns: ConversationTurn[]): string {
+  if (turns.length === 0) return '';
+
+  const lines = turns.map(turn => {
+    const speaker = turn.direction === 'inbound' ? 'Patient' : 'Clinic';
+    const body = turn.body.length > MAX_TURN_CHARS ? `${turn.body.slice(0, MAX_TURN_CHARS)}...` : turn.body;
+    return `[${turn.createdAt.toISOString().slice(0, 10)}] ${speaker}:\n${body.trim()}`;
+  });
+
+  return `CONVERSATION HISTORY (earlier messages with this patient, oldest first; reply only to the current inquiry above and stay consistent with what the clinic already said):
+
+${lines.join('\n\n')}`;
+}
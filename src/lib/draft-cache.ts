@@ -0,0 +1,86 @@
+// Cache keys and idempotency keys for repeated draft generation requests (double-clicks, reloads, client retries)
+
+import type { ConversationTurn } from '@/lib/conversation';
+
+// Identical requests within this window get the first draft back instead of a new, billed generation
+export const DRAFT_CACHE_TTL_SECONDS = 300;
+
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 128;
+
+export interface DraftCacheKeyInput {
+  userId: string; // Drafts and their audit entries belong to the requester, so entries are never shared across users
+  patientId: string;
+  briefVersion: number; // Patient brief updatedAt
+  settingsVersion: number | null; // Doctor settings updatedAt; null when the doctor has no settings
+  templateId: string;
+  templateVersion: number;
+  threadTurns: ConversationTurn[]; // Earlier turns the draft sees as history, without the inquiry's own inbound turn
+  guardrailVersion: string; // GuardrailService.getRulesVersion()
+  exampleVersion: string | null; // DraftExampleService.getBankVersion(); null when the patient has no doctor
+  inquiry: string;
+  candidateCount: number;
+}
+
+/**
+ * Hex SHA-256 digest (Web Crypto, available in Workers and Node)
+ */
+export async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Inquiries differing only in surrounding or repeated whitespace are the same request
+ */
+export function normalizeInquiry(inquiry: string): string {
+  return inquiry.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Key for a generation request; any change to the brief, settings, template, conversation history, guardrail rules,
+ * example bank or inquiry gives a new key
+ */
+export async function buildDraftCacheKey(input: DraftCacheKeyInput): Promise<string> {
+  const inquiryHash = await sha256(normalizeInquiry(input.inquiry));
+  const threadHash = await sha256(JSON.stringify(
+    input.threadTurns.map(turn => [turn.direction, turn.body, turn.createdAt.getTime()])
+  ));
+
+  return sha256([
+    input.userId,
+    input.patientId,
+    `brief:${input.briefVersion}`,
+    `settings:${input.settingsVersion ?? 'none'}`,
+    `template:${input.templateId}:${input.templateVersion}`,
+    `thread:${threadHash}`,
+    `guardrails:${input.guardrailVersion}`,
+    `examples:${input.exampleVersion ?? 'none'}`,
+    `candidates:${input.candidateCount}`,
+    `inquiry:${inquiryHash}`
+  ].join('|'));
+}
+
+/**
+ * Check a client-supplied idempotency key
+ * Returns a list of problems; empty when the key is usable
+ */
+export function validateIdempotencyKey(key: string): string[] {
+  const issues: string[] = [];
+
+  if (!key.trim()) {
+    issues.push('Idempotency key must not be empty');
+  } else if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    issues.push(`Idempotency key must be ${MAX_IDEMPOTENCY_KEY_LENGTH} characters or fewer`);
+  } else if (!/^[\x21-\x7e]+$/.test(key)) {
+    issues.push('Idempotency key must be printable ASCII without spaces');
+  }
+
+  return issues;
+}
+
+/**
+ * Only finished drafts are replayed; failures and escalations are retried or re-triaged
+ */
+export function isCacheableResponse(response: { success: boolean; escalated?: boolean; draft?: string }): boolean {
+  return response.success && !response.escalated && !!response.draft;
+}
@@ -0,0 +1,275 @@
+// Offline draft-quality evaluation: scores generated drafts and compares two prompt/model variants
+import { draftService } from './draftService';
+import { evaluateGuardrails, type GuardrailRuleDefinition } from './guardrails';
+
+export interface EvalVariant {
+  label: string;
+  promptTemplateId?: string; // Pinned template version; the active template when omitted
+  model?: string; // LLM_MODEL override
+}
+
+export interface DraftEvalCriteria {
+  maxWords: number;
+  signOff: string;
+  patientName: string;
+  readingLevel?: string | null; // DoctorSettings.readingLevel: elementary, middle, high, college
+}
+
+export interface DraftScore {
+  wordCount: number;
+  withinWordLimit: boolean;
+  readingLevel: string; // As reported by draftService.analyzeReadingLevel
+  readingLevelOnTarget: boolean | null; // null when the doctor has no reading level set
+  guardrailHits: number;
+  blockingGuardrailHits: number;
+  hasSignOff: boolean;
+  usesPatientName: boolean;
+  leakedPlaceholders: boolean; // De-identification placeholders such as [NAME_1] left in the draft
+}
+
+export interface EvalCaseResult {
+  caseId: string;
+  success: boolean;
+  escalated: boolean; // Emergency triage skipped drafting
+  error?: string;
+  draft?: string;
+  score?: DraftScore;
+  totalTokens: number;
+  cost: number;
+  latencyMs: number;
+}
+
+export interface EvalSummary {
+  cases: number;
+  scored: number;
+  escalated: number;
+  failed: number;
+  wordLimitRate: number;
+  readingLevelOnTargetRate: number | null;
+  casesWithGuardrailHits: number;
+  blockingGuardrailHits: number;
+  signOffRate: number;
+  patientNameRate: number;
+  placeholderLeaks: number;
+  averageWordCount: number;
+  totalTokens: number;
+  totalCost: number;
+  averageLatencyMs: number;
+}
+
+export interface EvalRun {
+  variant: EvalVariant;
+  results: EvalCaseResult[];
+}
+
+export interface EvalComparisonRow {
+  metric: string;
+  baseline: string;
+  candidate: string;
+  change: 'better' | 'worse' | 'same';
+}
+
+export interface EvalComparison {
+  baseline: EvalVariant;
+  candidate: EvalVariant;
+  rows: EvalComparisonRow[];
+  changedCases: Array<{ caseId: string; changes: string[] }>;
+}
+
+// Order matches draftService.analyzeReadingLevel output, easiest first
+const ANALYZED_READING_LEVELS = ['Elementary', 'Middle School', 'High School', 'College+'];
+const TARGET_READING_LEVELS = ['elementary', 'middle', 'high', 'college'];
+
+const PLACEHOLDER_PATTERN = /\[(?:NAME|DATE|PHONE|MRN|ADDRESS)_\d+\]/;
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Parse a variant spec such as "template=prompt-template-default-v1,model=gpt-4o"; an empty spec uses the active setup
+ */
+export function parseEvalVariant(spec: string | undefined, label: string): EvalVariant {
+  const variant: EvalVariant = { label };
+
+  for (const part of (spec || '').split(',').map(p => p.trim()).filter(Boolean)) {
+    const [key, ...rest] = part.split('=');
+    const value = rest.join('=').trim();
+    if (!value) {
+      throw new Error(`Invalid eval variant option: ${part}`);
+    }
+
+    if (key.trim() === 'template') {
+      variant.promptTemplateId = value;
+    } else if (key.trim() === 'model') {
+      variant.model = value;
+    } else {
+      throw new Error(`Unknown eval variant option: ${key}`);
+    }
+  }
+
+  return variant;
+}
+
+/**
+ * Describe a variant for the report header
+ */
+export function describeEvalVariant(variant: EvalVariant): string {
+  const parts = [
+    variant.promptTemplateId ? `template ${variant.promptTemplateId}` : 'active template',
+    variant.model ? `model ${variant.model}` : 'default model'
+  ];
+  return `${variant.label} (${parts.join(', ')})`;
+}
+
+/**
+ * Score one draft against the doctor's settings and the guardrail rules
+ */
+export function scoreDraft(draft: string, criteria: DraftEvalCriteria, rules: GuardrailRuleDefinition[]): DraftScore {
+  const wordCount = draft.trim() ? draft.trim().split(/\s+/).length : 0;
+  const readingLevel = draftService.analyzeReadingLevel(draft);
+  const guardrails = evaluateGuardrails({ draft }, rules);
+
+  const targetIndex = criteria.readingLevel ? TARGET_READING_LEVELS.indexOf(criteria.readingLevel) : -1;
+  const analyzedIndex = ANALYZED_READING_LEVELS.indexOf(readingLevel);
+
+  const nameParts = criteria.patientName.split(/\s+/).filter(part => part.length > 1);
+  const normalizedDraft = normalize(draft);
+
+  return {
+    wordCount,
+    withinWordLimit: wordCount <= criteria.maxWords,
+    readingLevel,
+    readingLevelOnTarget: targetIndex === -1 ? null : analyzedIndex !== -1 && analyzedIndex <= targetIndex,
+    guardrailHits: guardrails.length,
+    blockingGuardrailHits: guardrails.filter(match => match.severity === 'block').length,
+    hasSignOff: !!criteria.signOff.trim() && normalizedDraft.includes(normalize(criteria.signOff)),
+    usesPatientName: nameParts.some(part => new RegExp(`\\b${part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(draft)),
+    leakedPlaceholders: PLACEHOLDER_PATTERN.test(draft)
+  };
+}
+
+/**
+ * Aggregate a run; rates are over drafted cases only (escalated and failed cases are counted separately)
+ */
+export function summarizeEvalRun(results: EvalCaseResult[]): EvalSummary {
+  const scores = results.filter(result => result.success && result.score).map(result => result.score!);
+  const rate = (count: number) => scores.length === 0 ? 0 : count / scores.length;
+  const withTarget = scores.filter(score => score.readingLevelOnTarget !== null);
+
+  return {
+    cases: results.length,
+    scored: scores.length,
+    escalated: results.filter(result => result.escalated).length,
+    failed: results.filter(result => !result.success && !result.escalated).length,
+    wordLimitRate: rate(scores.filter(score => score.withinWordLimit).length),
+    readingLevelOnTargetRate: withTarget.length === 0
+      ? null
+      : withTarget.filter(score => score.readingLevelOnTarget).length / withTarget.length,
+    casesWithGuardrailHits: scores.filter(score => score.guardrailHits > 0).length,
+    blockingGuardrailHits: scores.reduce((total, score) => total + score.blockingGuardrailHits, 0),
+    signOffRate: rate(scores.filter(score => score.hasSignOff).length),
+    patientNameRate: rate(scores.filter(score => score.usesPatientName).length),
+    placeholderLeaks: scores.filter(score => score.leakedPlaceholders).length,
+    averageWordCount: scores.length === 0 ? 0 : scores.reduce((total, score) => total + score.wordCount, 0) / scores.length,
+    totalTokens: results.reduce((total, result) => total + result.totalTokens, 0),
+    totalCost: results.reduce((total, result) => total + result.cost, 0),
+    averageLatencyMs: results.length === 0 ? 0 : results.reduce((total, result) => total + result.latencyMs, 0) / results.length
+  };
+}
+
+/**
+ * Compare two runs over the same cases
+ */
+export function compareEvalRuns(baseline: EvalRun, candidate: EvalRun): EvalComparison {
+  const a = summarizeEvalRun(baseline.results);
+  const b = summarizeEvalRun(candidate.results);
+
+  const percent = (value: number | null) => value === null ? 'n/a' : `${Math.round(value * 100)}%`;
+  const fixed = (digits: number) => (value: number | null) => value === null ? 'n/a' : value.toFixed(digits);
+
+  // higherIsBetter: null means the metric is informational
+  const metrics: Array<{ metric: string; a: number | null; b: number | null; format: (value: number | null) => string; higherIsBetter: boolean | null }> = [
+    { metric: 'Drafted', a: a.scored, b: b.scored, format: fixed(0), higherIsBetter: null },
+    { metric: 'Escalated (emergency)', a: a.escalated, b: b.escalated, format: fixed(0), higherIsBetter: null },
+    { metric: 'Failed', a: a.failed, b: b.failed, format: fixed(0), higherIsBetter: false },
+    { metric: 'Within word limit', a: a.wordLimitRate, b: b.wordLimitRate, format: percent, higherIsBetter: true },
+    { metric: 'Reading level on target', a: a.readingLevelOnTargetRate, b: b.readingLevelOnTargetRate, format: percent, higherIsBetter: true },
+    { metric: 'Drafts with guardrail hits', a: a.casesWithGuardrailHits, b: b.casesWithGuardrailHits, format: fixed(0), higherIsBetter: false },
+    { metric: 'Blocking guardrail hits', a: a.blockingGuardrailHits, b: b.blockingGuardrailHits, format: fixed(0), higherIsBetter: false },
+    { metric: 'Sign-off present', a: a.signOffRate, b: b.signOffRate, format: percent, higherIsBetter: true },
+    { metric: 'Patient name used', a: a.patientNameRate, b: b.patientNameRate, format: percent, higherIsBetter: true },
+    { metric: 'Placeholder leaks', a: a.placeholderLeaks, b: b.placeholderLeaks, format: fixed(0), higherIsBetter: false },
+    { metric: 'Average words', a: a.averageWordCount, b: b.averageWordCount, format: fixed(1), higherIsBetter: null },
+    { metric: 'Total tokens', a: a.totalTokens, b: b.totalTokens, format: fixed(0), higherIsBetter: false },
+    { metric: 'Total cost (USD)', a: a.totalCost, b: b.totalCost, format: fixed(4), higherIsBetter: false },
+    { metric: 'Average latency (ms)', a: a.averageLatencyMs, b: b.averageLatencyMs, format: fixed(0), higherIsBetter: null }
+  ];
+
+  const rows = metrics.map(({ metric, a, b, format, higherIsBetter }) => {
+    let change: EvalComparisonRow['change'] = 'same';
+    if (higherIsBetter !== null && a !== null && b !== null && format(a) !== format(b)) {
+      change = (b > a) === higherIsBetter ? 'better' : 'worse';
+    }
+    return { metric, baseline: format(a), candidate: format(b), change };
+  });
+
+  const candidateById = new Map(candidate.results.map(result => [result.caseId, result]));
+  const changedCases = baseline.results.flatMap(before => {
+    const after = candidateById.get(before.caseId);
+    if (!after) return [];
+
+    const changes: string[] = [];
+    if (before.success !== after.success) {
+      changes.push(after.success ? 'now drafted' : `no longer drafted (${after.error || 'failed'})`);
+    }
+    if (before.score && after.score) {
+      const checks: Array<[keyof DraftScore, string]> = [
+        ['withinWordLimit', 'word limit'],
+        ['readingLevelOnTarget', 'reading level'],
+        ['hasSignOff', 'sign-off'],
+        ['usesPatientName', 'patient name']
+      ];
+      for (const [key, label] of checks) {
+        if (before.score[key] !== after.score[key] && after.score[key] !== null) {
+          changes.push(`${label} ${after.score[key] ? 'fixed' : 'regressed'}`);
+        }
+      }
+      if (before.score.guardrailHits !== after.score.guardrailHits) {
+        changes.push(`guardrail hits ${before.score.guardrailHits} -> ${after.score.guardrailHits}`);
+      }
+    }
+
+    return changes.length > 0 ? [{ caseId: before.caseId, changes }] : [];
+  });
+
+  return { baseline: baseline.variant, candidate: candidate.variant, rows, changedCases };
+}
+
+/**
+ * Markdown report for the console or a PR description
+ */
+export function formatEvalReport(comparison: EvalComparison): string {
+  const marker = { better: '▲', worse: '▼', same: '' };
+
+  const lines = [
+    '# Draft quality evaluation',
+    '',
+    `Baseline: ${describeEvalVariant(comparison.baseline)}`,
+    `Candidate: ${describeEvalVariant(comparison.candidate)}`,
+    '',
+    '| Metric | Baseline | Candidate | |',
+    '|--------|----------|-----------|---|',
+    ...comparison.rows.map(row => `| ${row.metric} | ${row.baseline} | ${row.candidate} | ${marker[row.change]} |`),
+    ''
+  ];
+
+  if (comparison.changedCases.length === 0) {
+    lines.push('No per-case differences.');
+  } else {
+    lines.push('## Changed cases', '');
+    for (const { caseId, changes } of comparison.changedCases) {
+      lines.push(`- ${caseId}: ${changes.join('; ')}`);
+    }
+  }
+
+  return lines.join('\n');
+}
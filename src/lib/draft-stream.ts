@@ -0,0 +1,61 @@
+// Draft streaming over server-sent events: the worker frames each chunk of draft text and the final result,
+// and the client reads the same events back out of the response body
+
+import type { DraftResponse } from '../actions/generateDraft';
+
+/**
+ * Events emitted while streaming a draft
+ * - delta: next chunk of draft text
+ * - retract: generation failed after text was streamed; the streamed text must be discarded
+ * - done: final validated result (the draft may differ from the streamed text, e.g. truncated);
+ *   guardrail matches are reported on the result and do not retract the text
+ */
+export type DraftStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'retract'; error: string }
+  | { type: 'done'; result: DraftResponse };
+
+/**
+ * Server-sent events body for one generation; `generate` forwards each chunk to onDelta and resolves with the result
+ */
+export function draftEventStream(
+  generate: (onDelta: (content: string) => void) => Promise<DraftResponse>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: DraftStreamEvent) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      let streamedAny = false;
+      const result = await generate((content) => {
+        streamedAny = true;
+        send({ type: 'delta', content });
+      });
+
+      if (!result.success && streamedAny) {
+        send({ type: 'retract', error: result.error || 'Draft generation failed' });
+      }
+
+      send({ type: 'done', result });
+      controller.close();
+    }
+  });
+}
+
+/**
+ * Complete events in a buffer of received text; `rest` is the unfinished tail to prepend to the next chunk
+ */
+export function readDraftEvents(buffer: string): { events: DraftStreamEvent[]; rest: string } {
+  // Server-sent events are separated by a blank line
+  const chunks = buffer.split('\n\n');
+  const rest = chunks.pop() || '';
+
+  const events = chunks
+    .filter(chunk => chunk.startsWith('data: '))
+    .map(chunk => JSON.parse(chunk.slice(6)) as DraftStreamEvent);
+
+  return { events, rest };
+}
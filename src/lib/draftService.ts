@@ -1,4 +1,35 @@
-import { generateDraftAction, type DraftRequest, type DraftResponse } from '@/actions/generateDraft';
+import type { DraftRequest, DraftResponse } from '@/actions/generateDraft';
+import { readDraftEvents } from '@/lib/draft-stream';
+import type { GuardrailMatch, GuardrailSummary } from '@/lib/guardrails';
+import type { MedicationIssue } from '@/lib/medication-check';
+import { gradeLevelLabel, measureGradeLevel, MEASURED_LANGUAGES } from './reading-level';
+import { countWordsIn, languageName, wordLimitFor, type PatientLanguage } from './languages';
+import type { IntentResult, QuickReplyMatch } from './quick-replies';
+import type { ParagraphRefinementRequest, ParagraphRefinementResponse } from '@/actions/refineDraft';
+
+export type GuardrailCheckResponse = {
+  success: boolean;
+  matches?: GuardrailMatch[];
+  medicationIssues?: MedicationIssue[];
+  error?: string;
+} & Partial<GuardrailSummary>;
+
+export interface QuickReplySuggestionResponse {
+  success: boolean;
+  intent?: IntentResult;
+  urgencyLevel?: string;
+  matches?: QuickReplyMatch[];
+  error?: string;
+}
+
+export interface QuickReplyUseResponse {
+  success: boolean;
+  draft?: string;
+  auditLogId?: string;
+  language?: PatientLanguage;
+  intent?: IntentResult;
+  error?: string;
+}
 
 /**
  * Client-side service for draft generation
@@ -49,12 +80,205 @@ export class DraftService {
     }
   }
 
+  /**
+   * Generate a draft as a stream of tokens
+   * onDelta receives each chunk; onRetract fires if generation failed after text was streamed
+   */
+  async generateDraftStream(
+    request: DraftRequest,
+    handlers: {
+      onDelta: (content: string) => void;
+      onRetract?: (error: string) => void;
+    }
+  ): Promise<DraftResponse> {
+    // Rate limiting
+    const now = Date.now();
+    const timeSinceLastRequest = now - this.lastRequestTime;
+    
+    if (timeSinceLastRequest < this.minRequestInterval) {
+      const waitTime = this.minRequestInterval - timeSinceLastRequest;
+      await new Promise(resolve => setTimeout(resolve, waitTime));
+    }
+
+    this.lastRequestTime = Date.now();
+
+    try {
+      const response = await fetch('/api/generate-draft', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...request, stream: true }),
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let result: DraftResponse | null = null;
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        const { events, rest } = readDraftEvents(buffer + decoder.decode(value, { stream: true }));
+        buffer = rest;
+
+        for (const event of events) {
+          if (event.type === 'delta') {
+            handlers.onDelta(event.content);
+          } else if (event.type === 'retract') {
+            handlers.onRetract?.(event.error);
+          } else if (event.type === 'done') {
+            result = event.result;
+          }
+        }
+      }
+
+      return result || { success: false, error: 'Draft stream ended unexpectedly' };
+
+    } catch (error) {
+      console.error('Draft stream error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Network error occurred'
+      };
+    }
+  }
+
+  /**
+   * Record which candidate drafts were used for the final text
+   */
+  async recordCandidateSelection(selection: {
+    auditLogId: string;
+    chosenCandidateIds: string[];
+    finalDraft: string;
+  }): Promise<{ success: boolean; error?: string }> {
+    try {
+      const response = await fetch('/api/generate-draft/selection', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(selection),
+      });
+
+      return await response.json() as { success: boolean; error?: string };
+    } catch (error) {
+      console.error('Candidate selection error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Network error occurred'
+      };
+    }
+  }
+
+  /**
+   * Rewrite one paragraph of the draft by instruction; the rest of the text is kept as it is
+   */
+  async refineParagraph(request: Omit<ParagraphRefinementRequest, 'userId'>): Promise<ParagraphRefinementResponse> {
+    try {
+      const response = await fetch('/api/generate-draft/refine', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request),
+      });
+
+      return await response.json() as ParagraphRefinementResponse;
+    } catch (error) {
+      console.error('Paragraph refinement error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Network error occurred'
+      };
+    }
+  }
+
+  /**
+   * Run the server-side guardrail rules against the current inquiry and draft text
+   */
+  async checkGuardrails(texts: {
+    inquiry?: string;
+    draft?: string;
+    patientId?: string; // Also check the draft against this patient's allergies and medications
+  }): Promise<GuardrailCheckResponse> {
+    try {
+      const response = await fetch('/api/guardrails/check', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(texts),
+      });
+
+      return await response.json() as GuardrailCheckResponse;
+    } catch (error) {
+      console.error('Guardrail check error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Network error occurred'
+      };
+    }
+  }
+
+  /**
+   * Classify the inquiry and fetch the doctor's quick replies that fit it
+   */
+  async suggestQuickReplies(request: { patientId: string; inquiry: string }): Promise<QuickReplySuggestionResponse> {
+    try {
+      const response = await fetch('/api/quick-replies/suggest', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request),
+      });
+
+      return await response.json() as QuickReplySuggestionResponse;
+    } catch (error) {
+      console.error('Quick reply suggestion error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Network error occurred'
+      };
+    }
+  }
+
+  /**
+   * Use a quick reply as the draft; the server records it in place of a generated draft
+   */
+  async useQuickReply(request: { templateId: string; patientId: string; inquiry: string }): Promise<QuickReplyUseResponse> {
+    try {
+      const response = await fetch('/api/quick-replies/use', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request),
+      });
+
+      return await response.json() as QuickReplyUseResponse;
+    } catch (error) {
+      console.error('Quick reply error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Network error occurred'
+      };
+    }
+  }
+
   /**
    * Validate draft against doctor settings
    */
-  validateDraft(draft: string, maxWords: number): { valid: boolean; issues: string[] } {
+  validateDraft(draft: string, maxWords: number, language: PatientLanguage = 'en'): { valid: boolean; issues: string[] } {
     const issues: string[] = [];
-    const wordCount = draft.trim().split(/\s+/).length;
+    const wordCount = countWordsIn(draft, language);
+    maxWords = wordLimitFor(maxWords, language);
 
     if (wordCount > maxWords) {
       issues.push(`Draft exceeds maximum word count (${wordCount}/${maxWords} words)`);
@@ -83,48 +307,9 @@ export class DraftService {
   /**
    * Analyze reading level (simplified analysis)
    */
-  analyzeReadingLevel(text: string): string {
-    const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
-    const words = text.split(/\s+/).filter(w => w.length > 0);
-    const syllables = words.reduce((count, word) => count + this.countSyllables(word), 0);
-
-    if (sentences.length === 0 || words.length === 0) return 'Unable to analyze';
-
-    const avgWordsPerSentence = words.length / sentences.length;
-    const avgSyllablesPerWord = syllables / words.length;
-
-    // Simplified Flesch-Kincaid Grade Level
-    const gradeLevel = 0.39 * avgWordsPerSentence + 11.8 * avgSyllablesPerWord - 15.59;
-
-    if (gradeLevel <= 6) return 'Elementary';
-    if (gradeLevel <= 8) return 'Middle School';
-    if (gradeLevel <= 12) return 'High School';
-    return 'College+';
-  }
-
-  private countSyllables(word: string): number {
-    // Simplified syllable counting
-    const cleaned = word.toLowerCase().replace(/[^a-z]/g, '');
-    if (cleaned.length === 0) return 0;
-    
-    const vowels = 'aeiouy';
-    let count = 0;
-    let prevWasVowel = false;
-
-    for (let i = 0; i < cleaned.length; i++) {
-      const isVowel = vowels.includes(cleaned[i]);
-      if (isVowel && !prevWasVowel) {
-        count++;
-      }
-      prevWasVowel = isVowel;
-    }
-
-    // Adjust for silent e
-    if (cleaned.endsWith('e') && count > 1) {
-      count--;
-    }
-
-    return Math.max(1, count);
+  analyzeReadingLevel(text: string, language: PatientLanguage = 'en'): string {
+    if (!MEASURED_LANGUAGES.includes(language)) return `Not measured for ${languageName(language)}`;
+    return gradeLevelLabel(measureGradeLevel(text, language));
   }
 }
 
@@ -0,0 +1,93 @@
+// Bundled drug and allergen synonym table used by the medication checker; no network lookups
+
+export interface DrugClass {
+  label: string;
+  synonyms: string[]; // How the class is written in allergy lists and drafts
+}
+
+export interface DrugEntry {
+  name: string; // Generic name, used as the canonical key
+  synonyms: string[]; // Brand names and common abbreviations
+  classes: string[]; // Keys of DRUG_CLASSES
+}
+
+export const DRUG_CLASSES: Record<string, DrugClass> = {
+  penicillin: { label: 'Penicillins', synonyms: ['penicillins', 'pcn', 'beta-lactam', 'beta-lactams'] },
+  cephalosporin: { label: 'Cephalosporins', synonyms: ['cephalosporin', 'cephalosporins'] },
+  sulfonamide: { label: 'Sulfonamides', synonyms: ['sulfa', 'sulfa drugs', 'sulfonamide', 'sulfonamides'] },
+  macrolide: { label: 'Macrolides', synonyms: ['macrolide', 'macrolides'] },
+  fluoroquinolone: { label: 'Fluoroquinolones', synonyms: ['fluoroquinolone', 'fluoroquinolones', 'quinolones'] },
+  tetracycline: { label: 'Tetracyclines', synonyms: ['tetracyclines'] },
+  nsaid: { label: 'NSAIDs', synonyms: ['nsaid', 'nsaids', 'anti-inflammatories', 'anti-inflammatory drugs'] },
+  opioid: { label: 'Opioids', synonyms: ['opioid', 'opioids', 'opiates', 'narcotics'] },
+  statin: { label: 'Statins', synonyms: ['statin', 'statins'] },
+  ace_inhibitor: { label: 'ACE inhibitors', synonyms: ['ace inhibitor', 'ace inhibitors', 'acei'] },
+  anticoagulant: { label: 'Anticoagulants', synonyms: ['anticoagulant', 'anticoagulants', 'blood thinner', 'blood thinners'] }
+};
+
+export const DRUG_SYNONYMS: DrugEntry[] = [
+  // Antibiotics
+  { name: 'penicillin', synonyms: ['penicillin v', 'pen vk'], classes: ['penicillin'] },
+  { name: 'amoxicillin', synonyms: ['amoxil', 'amox'], classes: ['penicillin'] },
+  { name: 'amoxicillin-clavulanate', synonyms: ['augmentin', 'amox-clav'], classes: ['penicillin'] },
+  { name: 'ampicillin', synonyms: [], classes: ['penicillin'] },
+  { name: 'cephalexin', synonyms: ['keflex'], classes: ['cephalosporin'] },
+  { name: 'cefdinir', synonyms: ['omnicef'], classes: ['cephalosporin'] },
+  { name: 'ceftriaxone', synonyms: ['rocephin'], classes: ['cephalosporin'] },
+  { name: 'sulfamethoxazole-trimethoprim', synonyms: ['bactrim', 'septra', 'smx-tmp', 'tmp-smx'], classes: ['sulfonamide'] },
+  { name: 'azithromycin', synonyms: ['zithromax', 'z-pak', 'zpak'], classes: ['macrolide'] },
+  { name: 'clarithromycin', synonyms: ['biaxin'], classes: ['macrolide'] },
+  { name: 'erythromycin', synonyms: [], classes: ['macrolide'] },
+  { name: 'ciprofloxacin', synonyms: ['cipro'], classes: ['fluoroquinolone'] },
+  { name: 'levofloxacin', synonyms: ['levaquin'], classes: ['fluoroquinolone'] },
+  { name: 'doxycycline', synonyms: ['vibramycin', 'doryx'], classes: ['tetracycline'] },
+  { name: 'tetracycline', synonyms: [], classes: ['tetracycline'] },
+  { name: 'nitrofurantoin', synonyms: ['macrobid', 'macrodantin'], classes: [] },
+  // Pain and anti-inflammatories
+  { name: 'ibuprofen', synonyms: ['advil', 'motrin'], classes: ['nsaid'] },
+  { name: 'naproxen', synonyms: ['aleve', 'naprosyn'], classes: ['nsaid'] },
+  { name: 'aspirin', synonyms: ['asa', 'bayer', 'ecotrin'], classes: ['nsaid'] },
+  { name: 'celecoxib', synonyms: ['celebrex'], classes: ['nsaid'] },
+  { name: 'diclofenac', synonyms: ['voltaren'], classes: ['nsaid'] },
+  { name: 'acetaminophen', synonyms: ['tylenol', 'paracetamol', 'apap'], classes: [] },
+  { name: 'codeine', synonyms: ['tylenol with codeine', 'tylenol #3'], classes: ['opioid'] },
+  { name: 'hydrocodone', synonyms: ['vicodin', 'norco'], classes: ['opioid'] },
+  { name: 'oxycodone', synonyms: ['oxycontin', 'percocet'], classes: ['opioid'] },
+  { name: 'tramadol', synonyms: ['ultram'], classes: ['opioid'] },
+  { name: 'morphine', synonyms: [], classes: ['opioid'] },
+  // Cardiovascular and metabolic
+  { name: 'lisinopril', synonyms: ['prinivil', 'zestril'], classes: ['ace_inhibitor'] },
+  { name: 'enalapril', synonyms: ['vasotec'], classes: ['ace_inhibitor'] },
+  { name: 'losartan', synonyms: ['cozaar'], classes: [] },
+  { name: 'amlodipine', synonyms: ['norvasc'], classes: [] },
+  { name: 'metoprolol', synonyms: ['lopressor', 'toprol', 'toprol xl'], classes: [] },
+  { name: 'hydrochlorothiazide', synonyms: ['hctz', 'microzide'], classes: [] },
+  { name: 'furosemide', synonyms: ['lasix'], classes: [] },
+  { name: 'atorvastatin', synonyms: ['lipitor'], classes: ['statin'] },
+  { name: 'simvastatin', synonyms: ['zocor'], classes: ['statin'] },
+  { name: 'rosuvastatin', synonyms: ['crestor'], classes: ['statin'] },
+  { name: 'warfarin', synonyms: ['coumadin', 'jantoven'], classes: ['anticoagulant'] },
+  { name: 'apixaban', synonyms: ['eliquis'], classes: ['anticoagulant'] },
+  { name: 'rivaroxaban', synonyms: ['xarelto'], classes: ['anticoagulant'] },
+  { name: 'clopidogrel', synonyms: ['plavix'], classes: [] },
+  { name: 'metformin', synonyms: ['glucophage'], classes: [] },
+  { name: 'insulin', synonyms: ['lantus', 'humalog', 'novolog', 'levemir'], classes: [] },
+  { name: 'glipizide', synonyms: ['glucotrol'], classes: [] },
+  { name: 'levothyroxine', synonyms: ['synthroid', 'levoxyl'], classes: [] },
+  // Respiratory, allergy and GI
+  { name: 'albuterol', synonyms: ['proventil', 'ventolin', 'proair'], classes: [] },
+  { name: 'fluticasone', synonyms: ['flonase', 'flovent'], classes: [] },
+  { name: 'montelukast', synonyms: ['singulair'], classes: [] },
+  { name: 'prednisone', synonyms: ['deltasone'], classes: [] },
+  { name: 'cetirizine', synonyms: ['zyrtec'], classes: [] },
+  { name: 'loratadine', synonyms: ['claritin'], classes: [] },
+  { name: 'diphenhydramine', synonyms: ['benadryl'], classes: [] },
+  { name: 'omeprazole', synonyms: ['prilosec'], classes: [] },
+  { name: 'pantoprazole', synonyms: ['protonix'], classes: [] },
+  // Mental health
+  { name: 'sertraline', synonyms: ['zoloft'], classes: [] },
+  { name: 'fluoxetine', synonyms: ['prozac'], classes: [] },
+  { name: 'escitalopram', synonyms: ['lexapro'], classes: [] },
+  { name: 'bupropion', synonyms: ['wellbutrin'], classes: [] },
+  { name: 'gabapentin', synonyms: ['neurontin'], classes: [] }
+];
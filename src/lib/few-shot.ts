@@ -0,0 +1,97 @@
+// Few-shot examples: approved replies retrieved by inquiry similarity and shown to the model
+
+export interface FewShotExample {
+  id: string;
+  inquiryText: string;
+  responseText: string;
+}
+
+export interface ScoredFewShotExample<T extends FewShotExample = FewShotExample> {
+  example: T;
+  score: number;
+}
+
+export const DEFAULT_FEW_SHOT_LIMIT = 3;
+
+// Below this cosine similarity an example is more likely to mislead than help
+export const MIN_FEW_SHOT_SIMILARITY = 0.2;
+
+// Keeps the examples from crowding out the patient context in the prompt
+const MAX_EXAMPLE_RESPONSE_CHARS = 1200;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'you', 'your', 'are', 'was', 'were', 'have', 'has', 'had', 'but', 'not', 'with',
+  'this', 'that', 'from', 'they', 'them', 'what', 'when', 'which', 'will', 'would', 'could', 'should',
+  'can', 'about', 'there', 'been', 'into', 'just', 'also', 'any', 'some', 'our', 'out', 'its', 'did',
+  'does', 'how', 'why', 'who', 'all', 'get', 'got', 'may', 'might', 'please', 'thank', 'thanks', 'hello',
+  'need', 'want', 'know', 'dear', 'doctor', 'name', 'date', 'phone', 'mrn', 'address'
+]);
+
+/**
+ * Lowercased content words with a light plural/suffix stem, so "refills" and "refill" match
+ */
+export function tokenizeForSimilarity(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z]+/g) || [])
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    .map(word => {
+      const stem = word.replace(/(?:ing|ed|(?<!s)s)$/, '');
+      return stem.length >= 3 ? stem : word;
+    });
+}
+
+/**
+ * Cosine similarity of term frequencies, 0 when either text has no content words
+ */
+export function inquirySimilarity(a: string, b: string): number {
+  const countTerms = (tokens: string[]) => tokens.reduce((counts, token) => {
+    counts.set(token, (counts.get(token) || 0) + 1);
+    return counts;
+  }, new Map<string, number>());
+
+  const termsA = countTerms(tokenizeForSimilarity(a));
+  const termsB = countTerms(tokenizeForSimilarity(b));
+  if (termsA.size === 0 || termsB.size === 0) return 0;
+
+  let dot = 0;
+  termsA.forEach((count, term) => {
+    dot += count * (termsB.get(term) || 0);
+  });
+
+  const magnitude = (terms: Map<string, number>) => Math.sqrt(Array.from(terms.values()).reduce((sum, count) => sum + count * count, 0));
+  return dot / (magnitude(termsA) * magnitude(termsB));
+}
+
+/**
+ * The most similar examples to an inquiry, best first
+ */
+export function selectFewShotExamples<T extends FewShotExample>(
+  inquiry: string,
+  examples: T[],
+  limit: number = DEFAULT_FEW_SHOT_LIMIT,
+  minScore: number = MIN_FEW_SHOT_SIMILARITY
+): ScoredFewShotExample<T>[] {
+  return examples
+    .map(example => ({ example, score: inquirySimilarity(inquiry, example.inquiryText) }))
+    .filter(scored => scored.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * System prompt section listing the examples; empty when there are none
+ */
+export function formatFewShotExamples(examples: FewShotExample[]): string {
+  if (examples.length === 0) return '';
+
+  const blocks = examples.map((example, index) => {
+    const response = example.responseText.length > MAX_EXAMPLE_RESPONSE_CHARS
+      ? `${example.responseText.slice(0, MAX_EXAMPLE_RESPONSE_CHARS)}...`
+      : example.responseText;
+    return `Example ${index + 1}\nPatient inquiry:\n${example.inquiryText}\n\nApproved reply:\n${response}`;
+  });
+
+  return `APPROVED EXAMPLES:
+The replies below were approved by this doctor for similar inquiries. Match their style, structure and level of detail, but do not copy facts from them; they concern other patients. Bracketed labels such as [NAME] stand in for removed identifiers.
+
+${blocks.join('\n\n---\n\n')}`;
+}
@@ -0,0 +1,172 @@
+// Grounding: which patient brief fields support each sentence of a draft
+
+export const GROUNDING_FIELDS = ['medicalHistory', 'currentMedications', 'allergies', 'doctorNotes'] as const;
+export type GroundingField = typeof GROUNDING_FIELDS[number];
+
+export const GROUNDING_FIELD_LABELS: Record<GroundingField, string> = {
+  medicalHistory: 'Medical History',
+  currentMedications: 'Current Medications',
+  allergies: 'Allergies',
+  doctorNotes: 'Doctor Notes'
+};
+
+// Brief field text the draft may draw on; empty when the field is unset
+export type GroundingSources = Record<GroundingField, string>;
+
+export interface GroundingCitation {
+  field: GroundingField;
+  snippet: string; // Exact text from the field
+}
+
+export interface GroundedSentence {
+  text: string;
+  citations: GroundingCitation[];
+  nonClinical: boolean; // Greeting, thanks, sign-off or logistics with no medical content
+}
+
+export interface DraftGrounding {
+  sentences: GroundedSentence[];
+  ungroundedCount: number;
+}
+
+export type SentenceGroundingStatus = 'grounded' | 'ungrounded' | 'non_clinical' | 'unchecked';
+
+// One sentence of the current message text with its grounding, if the sentence was checked
+export interface AlignedSentence {
+  text: string;
+  status: SentenceGroundingStatus;
+  citations: GroundingCitation[];
+}
+
+// Titles that end in a period but do not end a sentence
+const ABBREVIATIONS = /\b(?:Dr|Mr|Mrs|Ms|St|Jr|Sr|vs|e\.g|i\.e)\.$/i;
+const MIN_SNIPPET_LENGTH = 3;
+
+/**
+ * Sentences of a message in order; line breaks always end a sentence, so greetings and sign-offs stand alone
+ */
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+
+  for (const line of text.split('\n')) {
+    const parts = line.split(/(?<=[.!?])\s+|(?<=[。！？])/).map(part => part.trim()).filter(Boolean);
+    let pending = '';
+    for (const part of parts) {
+      pending = pending ? `${pending} ${part}` : part;
+      if (!ABBREVIATIONS.test(pending)) {
+        sentences.push(pending);
+        pending = '';
+      }
+    }
+    if (pending) sentences.push(pending);
+  }
+
+  return sentences;
+}
+
+export function isGroundedSentence(sentence: GroundedSentence): boolean {
+  return sentence.nonClinical || sentence.citations.length > 0;
+}
+
+/**
+ * Character range of a snippet in the field text, ignoring case and trailing punctuation; null when absent
+ */
+export function locateSnippet(source: string, snippet: string): { start: number; end: number } | null {
+  const haystack = source.toLowerCase();
+  for (const candidate of [snippet.trim(), snippet.trim().replace(/[.,;:]+$/, '')]) {
+    if (candidate.length < MIN_SNIPPET_LENGTH) continue;
+    const start = haystack.indexOf(candidate.toLowerCase());
+    if (start >= 0) return { start, end: start + candidate.length };
+  }
+  return null;
+}
+
+/**
+ * System prompt for the citation pass over a finished draft
+ */
+export function buildGroundingPrompt(): string {
+  return `You cite sources for patient messages written by a doctor. For each numbered sentence, list the patient record excerpts that support it.
+
+Rules:
+- Cite only text copied exactly from one of the SOURCES sections; never paraphrase a snippet
+- Use the section name in brackets as the field: ${GROUNDING_FIELDS.join(', ')}
+- Mark greetings, thanks, sign-offs and scheduling logistics with no medical content as "nonClinical": true
+- A sentence about the patient's conditions, medications, allergies, results or treatment that no source supports gets no citations
+- Sentences may be in another language than the sources
+- Reply with JSON only, in this shape:
+{"sentences": [{"index": 1, "nonClinical": false, "citations": [{"field": "allergies", "snippet": "Penicillin"}]}]}`;
+}
+
+/**
+ * User message for the citation pass: the numbered sentences, then each non-empty brief field
+ */
+export function buildGroundingInput(sentences: string[], sources: GroundingSources): string {
+  const numbered = sentences.map((sentence, index) => `${index + 1}. ${sentence}`).join('\n');
+  const fields = GROUNDING_FIELDS
+    .filter(field => sources[field].trim())
+    .map(field => `[${field}]\n${sources[field].trim()}`)
+    .join('\n\n');
+
+  return `SENTENCES:\n${numbered}\n\nSOURCES:\n${fields || '(none)'}`;
+}
+
+/**
+ * Validate the model's citations against the sources
+ * Citations of unknown fields or text that is not in the field are dropped, so a sentence cannot be grounded
+ * by an invented quote. Sentences the model skipped are ungrounded. Null when the reply is not usable JSON.
+ */
+export function parseGroundingResponse(content: string, sentences: string[], sources: GroundingSources): DraftGrounding | null {
+  const json = content.slice(content.indexOf('{'), content.lastIndexOf('}') + 1);
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!parsed || !Array.isArray(parsed.sentences)) return null;
+
+  const grounded: GroundedSentence[] = sentences.map(text => ({ text, citations: [], nonClinical: false }));
+
+  for (const entry of parsed.sentences) {
+    const sentence = grounded[Number(entry?.index) - 1];
+    if (!sentence) continue;
+
+    sentence.nonClinical = entry.nonClinical === true;
+    for (const citation of Array.isArray(entry.citations) ? entry.citations : []) {
+      const field = citation?.field as GroundingField;
+      if (!GROUNDING_FIELDS.includes(field) || typeof citation.snippet !== 'string') continue;
+
+      const range = locateSnippet(sources[field], citation.snippet);
+      if (!range) continue;
+      const snippet = sources[field].slice(range.start, range.end);
+      if (!sentence.citations.some(existing => existing.field === field && existing.snippet === snippet)) {
+        sentence.citations.push({ field, snippet });
+      }
+    }
+    // A cited sentence is clinical whatever the model said
+    if (sentence.citations.length > 0) sentence.nonClinical = false;
+  }
+
+  return {
+    sentences: grounded,
+    ungroundedCount: grounded.filter(sentence => !isGroundedSentence(sentence)).length
+  };
+}
+
+/**
+ * Match the sentences of the current text to a stored grounding
+ * Sentences added or changed since the draft was grounded are `unchecked`.
+ */
+export function alignGrounding(grounding: DraftGrounding | null, text: string): AlignedSentence[] {
+  const normalize = (sentence: string) => sentence.replace(/\s+/g, ' ').trim();
+  const byText = new Map((grounding?.sentences || []).map(sentence => [normalize(sentence.text), sentence]));
+
+  return splitSentences(text).map(sentence => {
+    const match = byText.get(normalize(sentence));
+    if (!match) return { text: sentence, status: 'unchecked', citations: [] };
+    const status: SentenceGroundingStatus = match.citations.length > 0
+      ? 'grounded'
+      : match.nonClinical ? 'non_clinical' : 'ungrounded';
+    return { text: sentence, status, citations: match.citations };
+  });
+}
@@ -0,0 +1,260 @@
+// Clinical safety guardrails: rules are data, evaluated against the patient inquiry and the draft
+
+/**
+ * - block: the message cannot be sent directly and must go through review
+ * - require_doctor_review: only a doctor (or admin) may approve or send the message
+ * - warn: shown to staff, no workflow effect
+ */
+export type GuardrailSeverity = 'block' | 'require_doctor_review' | 'warn';
+
+export type GuardrailCategory = 'dosage_change' | 'medication_change' | 'diagnosis' | 'emergency_advice';
+
+export type GuardrailTarget = 'inquiry' | 'draft' | 'both';
+
+export const GUARDRAIL_SEVERITIES: GuardrailSeverity[] = ['block', 'require_doctor_review', 'warn'];
+
+export const GUARDRAIL_CATEGORIES: Record<GuardrailCategory, string> = {
+  dosage_change: 'Dosage change',
+  medication_change: 'Medication change',
+  diagnosis: 'Diagnosis',
+  emergency_advice: 'Emergency advice'
+};
+
+export interface GuardrailRuleDefinition {
+  id: string;
+  name: string;
+  category: GuardrailCategory;
+  severity: GuardrailSeverity;
+  pattern: string; // Regular expression source
+  flags?: string | null; // Regular expression flags; 'g' is always added
+  appliesTo: GuardrailTarget;
+  explanation: string; // Shown to staff next to the matched text
+}
+
+export interface GuardrailMatch {
+  ruleId: string;
+  ruleName: string;
+  category: GuardrailCategory;
+  severity: GuardrailSeverity;
+  explanation: string;
+  target: 'inquiry' | 'draft';
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface GuardrailSummary {
+  highestSeverity: GuardrailSeverity | null;
+  requiresReview: boolean; // A block-level rule matched
+  requiresDoctorReview: boolean; // A require_doctor_review rule matched
+}
+
+// Bundled rules, seeded into GuardrailRule by migrations/0011_add_guardrail_rules.sql
+export const DEFAULT_GUARDRAIL_RULES: GuardrailRuleDefinition[] = [
+  {
+    id: 'guardrail-dosage-change',
+    name: 'Dosage change',
+    category: 'dosage_change',
+    severity: 'block',
+    pattern: '\\b(?:increase|decrease|double|halve|reduce|raise|lower|adjust|change)\\b[^.\\n]{0,40}\\b(?:dose|dosage|mg|milligrams?)\\b',
+    flags: 'i',
+    appliesTo: 'draft',
+    explanation: 'Dosage changes must come from the prescribing clinician, not from a drafted message.'
+  },
+  {
+    id: 'guardrail-stop-medication',
+    name: 'Stopping medication',
+    category: 'medication_change',
+    severity: 'block',
+    pattern: '\\b(?:stop|discontinue|quit)\\b[^.\\n]{0,30}\\b(?:medications?|medicines?|meds|pills)\\b',
+    flags: 'i',
+    appliesTo: 'draft',
+    explanation: 'Advice about stopping a medication needs clinical review before it reaches the patient.'
+  },
+  {
+    id: 'guardrail-start-medication',
+    name: 'Starting medication',
+    category: 'medication_change',
+    severity: 'block',
+    pattern: '\\bstart(?:ing)?\\b[^.\\n]{0,30}\\bnew\\b[^.\\n]{0,20}\\b(?:medications?|medicines?|prescriptions?)\\b',
+    flags: 'i',
+    appliesTo: 'draft',
+    explanation: 'New medications can only be recommended by the prescribing clinician.'
+  },
+  {
+    id: 'guardrail-specific-diagnosis',
+    name: 'Specific diagnosis',
+    category: 'diagnosis',
+    severity: 'require_doctor_review',
+    pattern: '\\b(?:specific medical diagnosis|you (?:likely |probably |most likely )?(?:have|are suffering from)(?: an?)?(?: \\w+){0,2} (?:infection|disease|syndrome|disorder|cancer|pneumonia|fracture))\\b',
+    flags: 'i',
+    appliesTo: 'draft',
+    explanation: 'The draft appears to state a diagnosis; a doctor must confirm it before it is sent.'
+  },
+  {
+    id: 'guardrail-emergency-instructions',
+    name: 'Emergency instructions',
+    category: 'emergency_advice',
+    severity: 'warn',
+    pattern: '\\b(?:call|dial) 911\\b|\\bgo to (?:the |your )?(?:nearest )?(?:emergency room|ER)\\b',
+    flags: 'i',
+    appliesTo: 'draft',
+    explanation: 'The draft gives emergency instructions; check that they match the clinic protocol.'
+  },
+  {
+    id: 'guardrail-inquiry-emergency-symptoms',
+    name: 'Emergency symptoms in inquiry',
+    category: 'emergency_advice',
+    severity: 'require_doctor_review',
+    pattern: '\\b(?:chest pain|can\'?t breathe|trouble breathing|shortness of breath|suicid\\w*|overdosed?|severe bleeding|stroke|seizures?|fainted|passed out)\\b',
+    flags: 'i',
+    appliesTo: 'inquiry',
+    explanation: 'The patient describes symptoms that may need urgent attention; a doctor should review the reply.'
+  },
+  {
+    id: 'guardrail-inquiry-dosage-request',
+    name: 'Dosage question in inquiry',
+    category: 'dosage_change',
+    severity: 'warn',
+    pattern: '\\b(?:(?:increase|decrease|double|change|adjust|lower|raise)\\b[^.\\n]{0,30}\\b(?:dose|dosage)|take (?:more|less|extra|another))\\b',
+    flags: 'i',
+    appliesTo: 'inquiry',
+    explanation: 'The patient is asking about dosing; the reply must not change the dose.'
+  }
+];
+
+const SEVERITY_RANK: Record<GuardrailSeverity, number> = {
+  block: 3,
+  require_doctor_review: 2,
+  warn: 1
+};
+
+/**
+ * Compile a rule's pattern; throws on an invalid expression
+ */
+export function compileGuardrailPattern(rule: Pick<GuardrailRuleDefinition, 'pattern' | 'flags'>): RegExp {
+  const flags = new Set((rule.flags || '').split('').filter(flag => 'imsu'.includes(flag)));
+  flags.add('g');
+  return new RegExp(rule.pattern, Array.from(flags).join(''));
+}
+
+/**
+ * Check a rule before it is saved
+ * Returns a list of problems; empty when the rule is usable
+ */
+export function validateGuardrailRule(rule: Partial<GuardrailRuleDefinition>): string[] {
+  const issues: string[] = [];
+
+  if (!rule.name?.trim()) issues.push('Name is required');
+  if (!rule.explanation?.trim()) issues.push('Explanation is required');
+  if (!rule.category || !(rule.category in GUARDRAIL_CATEGORIES)) issues.push(`Invalid category: ${rule.category}`);
+  if (!rule.severity || !GUARDRAIL_SEVERITIES.includes(rule.severity)) issues.push(`Invalid severity: ${rule.severity}`);
+  if (!rule.appliesTo || !['inquiry', 'draft', 'both'].includes(rule.appliesTo)) issues.push(`Invalid target: ${rule.appliesTo}`);
+
+  if (!rule.pattern?.trim()) {
+    issues.push('Pattern is required');
+  } else {
+    try {
+      // Patterns that match empty text would flag every message
+      if (compileGuardrailPattern({ pattern: rule.pattern, flags: rule.flags }).test('')) {
+        issues.push('Pattern must not match empty text');
+      }
+    } catch (error) {
+      issues.push(`Invalid pattern: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Run the rules against the inquiry and/or draft
+ * Matches are ordered by target, then position
+ */
+export function evaluateGuardrails(
+  texts: { inquiry?: string | null; draft?: string | null },
+  rules: GuardrailRuleDefinition[]
+): GuardrailMatch[] {
+  const matches: GuardrailMatch[] = [];
+
+  for (const target of ['inquiry', 'draft'] as const) {
+    const text = texts[target];
+    if (!text) continue;
+
+    for (const rule of rules) {
+      if (rule.appliesTo !== 'both' && rule.appliesTo !== target) continue;
+
+      let pattern: RegExp;
+      try {
+        pattern = compileGuardrailPattern(rule);
+      } catch (error) {
+        console.warn(`[GUARDRAILS] Skipping rule ${rule.id} with invalid pattern:`, error);
+        continue;
+      }
+
+      for (const match of text.matchAll(pattern)) {
+        if (!match[0]) continue;
+        matches.push({
+          ruleId: rule.id,
+          ruleName: rule.name,
+          category: rule.category,
+          severity: rule.severity,
+          explanation: rule.explanation,
+          target,
+          start: match.index!,
+          end: match.index! + match[0].length,
+          text: match[0]
+        });
+      }
+    }
+  }
+
+  return matches.sort((a, b) => a.target === b.target ? a.start - b.start : a.target === 'inquiry' ? -1 : 1);
+}
+
+/**
+ * Workflow effect of a set of matches
+ */
+export function summarizeGuardrails(matches: GuardrailMatch[]): GuardrailSummary {
+  let highestSeverity: GuardrailSeverity | null = null;
+  for (const match of matches) {
+    if (!highestSeverity || SEVERITY_RANK[match.severity] > SEVERITY_RANK[highestSeverity]) {
+      highestSeverity = match.severity;
+    }
+  }
+
+  return {
+    highestSeverity,
+    requiresReview: matches.some(match => match.severity === 'block'),
+    requiresDoctorReview: matches.some(match => match.severity === 'require_doctor_review')
+  };
+}
+
+/**
+ * Split text into segments for inline highlighting
+ * Each segment lists the matches covering it; overlapping matches split at their boundaries
+ */
+export function segmentGuardrailMatches(
+  text: string,
+  matches: GuardrailMatch[]
+): Array<{ text: string; matches: GuardrailMatch[] }> {
+  const inRange = matches.filter(match => match.end <= text.length && text.slice(match.start, match.end) === match.text);
+  const boundaries = new Set<number>([0, text.length]);
+  for (const match of inRange) {
+    boundaries.add(match.start);
+    boundaries.add(match.end);
+  }
+
+  const points = Array.from(boundaries).sort((a, b) => a - b);
+  const segments: Array<{ text: string; matches: GuardrailMatch[] }> = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const [start, end] = [points[i], points[i + 1]];
+    if (start === end) continue;
+    segments.push({
+      text: text.slice(start, end),
+      matches: inRange.filter(match => match.start <= start && match.end >= end)
+    });
+  }
+
+  return segments;
+}
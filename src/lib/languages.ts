@@ -0,0 +1,111 @@
+// Patient languages: drafting instructions and language-aware word counting
+
+export const PATIENT_LANGUAGES = ['en', 'es', 'vi', 'zh'] as const;
+export type PatientLanguage = typeof PATIENT_LANGUAGES[number];
+
+export const DEFAULT_PATIENT_LANGUAGE: PatientLanguage = 'en';
+
+interface LanguageProfile {
+  name: string; // English name used in prompts and the UI
+  nativeName: string;
+  // Doctor word limits are set in English words; this scales them to the same amount of content
+  wordLimitFactor: number;
+}
+
+export const LANGUAGE_PROFILES: Record<PatientLanguage, LanguageProfile> = {
+  en: { name: 'English', nativeName: 'English', wordLimitFactor: 1 },
+  es: { name: 'Spanish', nativeName: 'Español', wordLimitFactor: 1.15 },
+  // Vietnamese separates every syllable with a space, so a word count runs higher
+  vi: { name: 'Vietnamese', nativeName: 'Tiếng Việt', wordLimitFactor: 1.3 },
+  // Mandarin is counted in Han characters
+  zh: { name: 'Mandarin Chinese', nativeName: '中文', wordLimitFactor: 1.8 }
+};
+
+// One counting unit: a Han character, or a run of other non-space characters
+const HAN_UNIT_PATTERN = /[\u3400-\u9fff\uf900-\ufaff]|[^\s\u3400-\u9fff\uf900-\ufaff]+/g;
+
+export function isPatientLanguage(value: unknown): value is PatientLanguage {
+  return typeof value === 'string' && (PATIENT_LANGUAGES as readonly string[]).includes(value);
+}
+
+/**
+ * Stored preference as a supported language, English when unset or unknown
+ */
+export function normalizeLanguage(value?: string | null): PatientLanguage {
+  return isPatientLanguage(value) ? value : DEFAULT_PATIENT_LANGUAGE;
+}
+
+export function languageName(language: PatientLanguage): string {
+  return LANGUAGE_PROFILES[language].name;
+}
+
+/**
+ * Words in the text; Han characters count one each
+ */
+export function countWordsIn(text: string, language: PatientLanguage = DEFAULT_PATIENT_LANGUAGE): number {
+  if (language === 'zh') {
+    return (text.match(HAN_UNIT_PATTERN) || []).length;
+  }
+  return text.trim().split(/\s+/).filter(word => word.length > 0).length;
+}
+
+/**
+ * The doctor's English word limit scaled for the patient's language
+ */
+export function wordLimitFor(maxWords: number, language: PatientLanguage): number {
+  return Math.round(maxWords * LANGUAGE_PROFILES[language].wordLimitFactor);
+}
+
+/**
+ * Cut the text to the limit and mark the cut with an ellipsis
+ */
+export function truncateToWordLimit(text: string, limit: number, language: PatientLanguage = DEFAULT_PATIENT_LANGUAGE): string {
+  if (language === 'zh') {
+    const units = text.match(HAN_UNIT_PATTERN) || [];
+    if (units.length <= limit) return text;
+
+    // Keep the original spacing up to the end of the last unit that fits
+    let end = 0;
+    let seen = 0;
+    for (const match of text.matchAll(HAN_UNIT_PATTERN)) {
+      if (seen === limit) break;
+      end = match.index! + match[0].length;
+      seen++;
+    }
+    return text.slice(0, end) + '...';
+  }
+
+  return text.split(/\s+/).slice(0, limit).join(' ') + '...';
+}
+
+/**
+ * System prompt section asking for the reply in the patient's language; empty for English
+ */
+export function buildLanguageInstruction(language: PatientLanguage): string {
+  if (language === DEFAULT_PATIENT_LANGUAGE) return '';
+
+  const { name } = LANGUAGE_PROFILES[language];
+  const lines = [
+    `- The patient prefers ${name}. Write the entire reply in ${name}, including the greeting`,
+    '- Keep medication names, doses and dates exactly as they appear in the patient context',
+    '- Keep the sign-off exactly as given',
+    '- Keep bracketed placeholders such as [NAME_1] unchanged'
+  ];
+  if (language === 'zh') {
+    lines.push('- The word limit counts each Chinese character as one word');
+  }
+
+  return `LANGUAGE:\n${lines.join('\n')}`;
+}
+
+/**
+ * System prompt for translating a draft back into English for reviewers
+ */
+export function buildBackTranslationPrompt(language: PatientLanguage): string {
+  return `You translate patient messages from ${languageName(language)} into English so a clinical reviewer can check them.
+
+Rules:
+- Translate literally; do not correct, soften or improve the content
+- Keep medication names, doses, dates and bracketed placeholders such as [NAME_1] exactly as written
+- Reply with the English translation only`;
+}
@@ -0,0 +1,135 @@
+// Medication checker: drug and allergen mentions in a draft compared with the patient's allergies and medication list
+import { DRUG_CLASSES, DRUG_SYNONYMS } from './drug-synonyms';
+
+export type MedicationIssueType = 'allergy_conflict' | 'unlisted_medication';
+
+export const MEDICATION_ISSUE_LABELS: Record<MedicationIssueType, string> = {
+  allergy_conflict: 'Allergy conflict',
+  unlisted_medication: 'Not in current medications'
+};
+
+export interface MedicationMention {
+  drug: string | null; // Canonical drug name; null when a drug class is named
+  classes: string[]; // Keys of DRUG_CLASSES
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface MedicationIssue {
+  type: MedicationIssueType;
+  drug: string | null;
+  text: string; // As written in the draft
+  start: number;
+  end: number;
+  allergy?: string; // The allergy entry from the brief it conflicts with
+  message: string;
+}
+
+export interface MedicationBrief {
+  allergies: string;
+  currentMedications: string;
+}
+
+interface Term {
+  term: string;
+  drug: string | null;
+  classes: string[];
+}
+
+// Longest terms first so "tylenol with codeine" wins over "tylenol"
+const TERMS: Term[] = [
+  ...DRUG_SYNONYMS.flatMap(entry => [entry.name, ...entry.synonyms].map(term => ({ term, drug: entry.name, classes: entry.classes }))),
+  ...Object.entries(DRUG_CLASSES).flatMap(([key, drugClass]) => drugClass.synonyms.map(term => ({ term, drug: null, classes: [key] })))
+].sort((a, b) => b.term.length - a.term.length);
+
+// A sentence warning about an allergy names the allergen on purpose
+const ALLERGY_ACKNOWLEDGEMENT = /\b(?:allerg\w*|avoid\w*|reactions?|intoleran\w*|sensitiv\w*|do not take|don't take|never take)\b/i;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Drug and drug-class mentions from the bundled synonym table, in text order; overlapping terms keep the longest
+ */
+export function findMedicationMentions(text: string): MedicationMention[] {
+  const mentions: MedicationMention[] = [];
+
+  for (const { term, drug, classes } of TERMS) {
+    const pattern = new RegExp(`(?<!\\w)${escapeRegExp(term)}(?!\\w)`, 'gi');
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (mentions.some(mention => start < mention.end && end > mention.start)) continue;
+      mentions.push({ drug, classes, text: match[0], start, end });
+    }
+  }
+
+  return mentions.sort((a, b) => a.start - b.start);
+}
+
+function sentenceAround(text: string, start: number, end: number): string {
+  const before = text.slice(0, start).search(/[^.!?\n]*$/);
+  const after = text.slice(end).search(/[.!?\n]/);
+  return text.slice(before, after === -1 ? text.length : end + after);
+}
+
+function classLabels(classes: string[]): string {
+  return classes.map(key => DRUG_CLASSES[key]?.label || key).join(', ');
+}
+
+/**
+ * Compare the draft's medication mentions with the brief
+ * - allergy_conflict: the drug, or a drug of the same class, is in the allergies, outside a sentence warning about it
+ * - unlisted_medication: a named drug is neither in currentMedications nor in the allergies
+ * Drugs missing from the synonym table are not detected. One issue per drug and type.
+ */
+export function checkMedications(draft: string, brief: MedicationBrief): MedicationIssue[] {
+  const allergies = findMedicationMentions(brief.allergies);
+  const listed = new Set(findMedicationMentions(brief.currentMedications).map(mention => mention.drug).filter(Boolean));
+  const issues: MedicationIssue[] = [];
+  const seen = new Set<string>();
+
+  const add = (issue: MedicationIssue) => {
+    const key = `${issue.type}:${issue.drug || issue.text.toLowerCase()}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    issues.push(issue);
+  };
+
+  for (const mention of findMedicationMentions(draft)) {
+    const sameDrug = mention.drug ? allergies.find(allergy => allergy.drug === mention.drug) : undefined;
+    const sameClass = allergies.find(allergy => allergy.classes.some(key => mention.classes.includes(key)));
+    const allergy = sameDrug || sameClass;
+
+    if (allergy) {
+      if (ALLERGY_ACKNOWLEDGEMENT.test(sentenceAround(draft, mention.start, mention.end))) continue;
+      add({
+        type: 'allergy_conflict',
+        drug: mention.drug,
+        text: mention.text,
+        start: mention.start,
+        end: mention.end,
+        allergy: allergy.text,
+        message: sameDrug
+          ? `"${mention.text}" is listed in the patient's allergies`
+          : `"${mention.text}" is in the same class (${classLabels(allergy.classes.filter(key => mention.classes.includes(key)))}) as the patient's allergy to ${allergy.text}`
+      });
+      continue;
+    }
+
+    if (mention.drug && !listed.has(mention.drug)) {
+      add({
+        type: 'unlisted_medication',
+        drug: mention.drug,
+        text: mention.text,
+        start: mention.start,
+        end: mention.end,
+        message: `"${mention.text}" is not in the patient's current medications`
+      });
+    }
+  }
+
+  return issues;
+}
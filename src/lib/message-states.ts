@@ -0,0 +1,129 @@
+// Message workflow state machine: states, allowed transitions and the roles that may make each one
+// AuditLog.workflowState holds the state; deliveryStatus only tracks the delivery provider.
+
+export type MessageState =
+  | 'draft'
+  | 'in_review'
+  | 'changes_requested'
+  | 'approved'
+  | 'scheduled'
+  | 'sending'
+  | 'sent'
+  | 'delivered'
+  | 'failed'
+  | 'cancelled';
+
+// system: queue processors and delivery webhooks, acting without a user
+export type TransitionActorRole = 'staff' | 'reviewer' | 'doctor' | 'admin' | 'system';
+
+export const MESSAGE_STATES: MessageState[] = [
+  'draft', 'in_review', 'changes_requested', 'approved', 'scheduled',
+  'sending', 'sent', 'delivered', 'failed', 'cancelled'
+];
+
+export const MESSAGE_STATE_LABELS: Record<MessageState, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  changes_requested: 'Changes requested',
+  approved: 'Approved',
+  scheduled: 'Scheduled',
+  sending: 'Sending',
+  sent: 'Sent',
+  delivered: 'Delivered',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const AUTHORS: TransitionActorRole[] = ['staff', 'reviewer', 'doctor', 'admin'];
+const REVIEWERS: TransitionActorRole[] = ['reviewer', 'doctor', 'admin'];
+const DELIVERY: TransitionActorRole[] = ['system'];
+
+/**
+ * Allowed moves from each state and who may make them; anything not listed is illegal
+ * Approval is a reviewer's decision; handing a message to the provider and recording the result is the system's.
+ * Until the provider has it, an approved or scheduled message can be recalled to draft (see src/lib/undo-send.ts).
+ */
+export const MESSAGE_TRANSITIONS: Record<MessageState, Partial<Record<MessageState, TransitionActorRole[]>>> = {
+  draft: { in_review: AUTHORS, approved: REVIEWERS, cancelled: AUTHORS },
+  in_review: { approved: REVIEWERS, changes_requested: REVIEWERS, cancelled: [...REVIEWERS, 'staff'] },
+  changes_requested: { in_review: AUTHORS, cancelled: AUTHORS },
+  approved: { scheduled: [...REVIEWERS, 'system'], sending: [...REVIEWERS, 'system'], draft: AUTHORS, cancelled: REVIEWERS },
+  scheduled: { sending: DELIVERY, draft: AUTHORS, cancelled: REVIEWERS },
+  sending: { sent: DELIVERY, failed: DELIVERY },
+  sent: { delivered: DELIVERY, failed: DELIVERY },
+  failed: { sending: [...DELIVERY, 'admin'], cancelled: REVIEWERS },
+  delivered: {},
+  cancelled: {}
+};
+
+// Base class so callers can catch every workflow rejection at once
+export class MessageStateError extends Error {
+  readonly from: MessageState;
+  readonly to: MessageState;
+
+  constructor(from: MessageState, to: MessageState, message: string) {
+    super(message);
+    this.name = 'MessageStateError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+// The state machine has no edge between the two states
+export class IllegalTransitionError extends MessageStateError {
+  constructor(from: MessageState, to: MessageState) {
+    super(from, to, `A message cannot move from ${MESSAGE_STATE_LABELS[from]} to ${MESSAGE_STATE_LABELS[to]}`);
+    this.name = 'IllegalTransitionError';
+  }
+}
+
+// The edge exists but the actor's role may not take it
+export class TransitionNotPermittedError extends MessageStateError {
+  readonly role: string;
+
+  constructor(from: MessageState, to: MessageState, role: string) {
+    super(from, to, `The ${role} role cannot move a message from ${MESSAGE_STATE_LABELS[from]} to ${MESSAGE_STATE_LABELS[to]}`);
+    this.name = 'TransitionNotPermittedError';
+    this.role = role;
+  }
+}
+
+// The message changed state after it was read; the caller should reload it
+export class StaleTransitionError extends MessageStateError {
+  constructor(from: MessageState, to: MessageState) {
+    super(from, to, `The message is no longer ${MESSAGE_STATE_LABELS[from]}; reload it and try again`);
+    this.name = 'StaleTransitionError';
+  }
+}
+
+export function isMessageState(value: string | null | undefined): value is MessageState {
+  return MESSAGE_STATES.includes(value as MessageState);
+}
+
+/**
+ * Throw the matching typed error unless the role may move a message from one state to the other
+ */
+export function assertTransition(from: MessageState, to: MessageState, role: string): void {
+  const roles = MESSAGE_TRANSITIONS[from][to];
+  if (!roles) {
+    throw new IllegalTransitionError(from, to);
+  }
+  if (!roles.includes(role as TransitionActorRole)) {
+    throw new TransitionNotPermittedError(from, to, role);
+  }
+}
+
+export function canTransition(from: MessageState, to: MessageState, role: string): boolean {
+  return (MESSAGE_TRANSITIONS[from][to] ?? []).includes(role as TransitionActorRole);
+}
+
+/**
+ * States the role can move a message to from its current state, for offering actions in the UI
+ */
+export function availableTransitions(from: MessageState, role: string): MessageState[] {
+  return MESSAGE_STATES.filter(to => canTransition(from, to, role));
+}
+
+export function isTerminalState(state: MessageState): boolean {
+  return Object.keys(MESSAGE_TRANSITIONS[state]).length === 0;
+}
@@ -6,6 +6,8 @@
 import { drizzleDb, users, patientBriefs, type User } from "@/db";
 import { eq, like, or, and, gte, lte, desc } from "drizzle-orm";
 import { canEditPatientBriefs } from "@/lib/server-functions";
+import { PATIENT_LANGUAGES } from "@/lib/languages";
+import { validateContactPreferences } from "@/lib/quiet-hours";
 import { z } from "zod";
 
 // Schema for patient brief form validation
@@ -17,6 +19,11 @@ const PatientBriefSchema = z.object({
   allergies: z.string().max(500).default(""),
   doctorNotes: z.string().max(1000).default(""),
   patientInquiry: z.string().max(2000).default(""),
+  preferredLanguage: z.enum(PATIENT_LANGUAGES).default("en"),
+  // Blank means the clinic's timezone and no contact-hour limit; checked by validateContactPreferences
+  timezone: z.string().max(64).nullish().transform(value => value?.trim() || null),
+  contactHoursStart: z.string().max(5).nullish().transform(value => value || null),
+  contactHoursEnd: z.string().max(5).nullish().transform(value => value || null),
 });
 
 // In-memory store for brief locks (in production, use Redis or database)
@@ -40,6 +47,10 @@ export async function createPatientBrief(user: User, data: {
   allergies?: string;
   doctorNotes?: string;
   patientInquiry?: string;
+  preferredLanguage?: string;
+  timezone?: string | null;
+  contactHoursStart?: string | null;
+  contactHoursEnd?: string | null;
 }) {
   try {
     if (!canEditPatientBriefs(user)) {
@@ -47,6 +58,10 @@ export async function createPatientBrief(user: User, data: {
     }
 
     const validatedData = PatientBriefSchema.parse(data);
+    const preferenceIssues = validateContactPreferences(validatedData);
+    if (preferenceIssues.length > 0) {
+      return { error: preferenceIssues[0] };
+    }
 
     const [brief] = await drizzleDb
       .insert(patientBriefs)
@@ -67,6 +82,10 @@ export async function createPatientBrief(user: User, data: {
         allergies: patientBriefs.allergies,
         doctorNotes: patientBriefs.doctorNotes,
         patientInquiry: patientBriefs.patientInquiry,
+        preferredLanguage: patientBriefs.preferredLanguage,
+        timezone: patientBriefs.timezone,
+        contactHoursStart: patientBriefs.contactHoursStart,
+        contactHoursEnd: patientBriefs.contactHoursEnd,
         createdAt: patientBriefs.createdAt,
         updatedAt: patientBriefs.updatedAt,
         doctorId: patientBriefs.doctorId,
@@ -102,6 +121,10 @@ export async function updatePatientBrief(user: User, briefId: string, data: {
   allergies?: string;
   doctorNotes?: string;
   patientInquiry?: string;
+  preferredLanguage?: string;
+  timezone?: string | null;
+  contactHoursStart?: string | null;
+  contactHoursEnd?: string | null;
 }) {
   try {
     if (!canEditPatientBriefs(user)) {
@@ -116,6 +139,10 @@ export async function updatePatientBrief(user: User, briefId: string, data: {
     }
 
     const validatedData = PatientBriefSchema.partial().parse(data);
+    const preferenceIssues = validateContactPreferences(validatedData);
+    if (preferenceIssues.length > 0) {
+      return { error: preferenceIssues[0] };
+    }
 
     // If user is a doctor, ensure they can only update their own briefs
     if (user.role === "doctor") {
@@ -149,6 +176,10 @@ export async function updatePatientBrief(user: User, briefId: string, data: {
         allergies: patientBriefs.allergies,
         doctorNotes: patientBriefs.doctorNotes,
         patientInquiry: patientBriefs.patientInquiry,
+        preferredLanguage: patientBriefs.preferredLanguage,
+        timezone: patientBriefs.timezone,
+        contactHoursStart: patientBriefs.contactHoursStart,
+        contactHoursEnd: patientBriefs.contactHoursEnd,
         createdAt: patientBriefs.createdAt,
         updatedAt: patientBriefs.updatedAt,
         doctorId: patientBriefs.doctorId,
@@ -313,6 +344,10 @@ export async function searchPatientBriefs(user: User, query: string, filters: {
         allergies: patientBriefs.allergies,
         doctorNotes: patientBriefs.doctorNotes,
         patientInquiry: patientBriefs.patientInquiry,
+        preferredLanguage: patientBriefs.preferredLanguage,
+        timezone: patientBriefs.timezone,
+        contactHoursStart: patientBriefs.contactHoursStart,
+        contactHoursEnd: patientBriefs.contactHoursEnd,
         createdAt: patientBriefs.createdAt,
         updatedAt: patientBriefs.updatedAt,
         doctorId: patientBriefs.doctorId,
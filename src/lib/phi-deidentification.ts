@@ -0,0 +1,155 @@
+// PHI categories replaced with placeholders before prompts leave the worker
+export type PhiCategory = 'name' | 'date' | 'phone' | 'mrn' | 'address';
+
+// Detection patterns, applied in order so that more specific identifiers are claimed first
+const PHI_PATTERNS: Array<{ category: PhiCategory; pattern: RegExp; group?: number }> = [
+  {
+    // Only the identifier after an MRN label is masked, so the label keeps its meaning
+    category: 'mrn',
+    pattern: /\b(?:MRN|MR#|medical record(?: number| no\.?)?)\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{3,})\b/gi,
+    group: 1
+  },
+  {
+    category: 'address',
+    pattern: /\b\d{1,6}\s+(?:[A-Z][a-z]+\s+){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Court|Ct|Way|Place|Pl|Parkway|Pkwy)\b\.?(?:,?\s*(?:Apt|Suite|Unit|#)\.?\s*[A-Za-z0-9-]+)?/g
+  },
+  {
+    category: 'phone',
+    pattern: /(?:\+?1[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/g
+  },
+  {
+    category: 'date',
+    pattern: /\b(?:\d{1,2}[/-]\d{1,2}[/-]\d{2,4}|\d{4}-\d{2}-\d{2}|(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)[a-z]*\.?\s+\d{1,2}(?:st|nd|rd|th)?(?:,?\s+\d{4})?)\b/g
+  }
+];
+
+const PLACEHOLDER_PATTERN = /\[(NAME|DATE|PHONE|MRN|ADDRESS)_(\d+)\]/g;
+
+// Longest possible placeholder prefix held back while streaming, e.g. "[ADDRESS_12"
+const MAX_PARTIAL_PLACEHOLDER_LENGTH = 16;
+
+/**
+ * Per-request de-identification session
+ * The substitution map lives only on this instance and is never serialized or logged
+ */
+export class PhiSession {
+  private placeholders = new Map<string, string>(); // placeholder -> original
+  private originals = new Map<string, string>(); // category:original -> placeholder
+  private counters: Partial<Record<PhiCategory, number>> = {};
+  private knownNames: string[];
+
+  constructor(knownNames: string[] = []) {
+    // Full names first, then their parts, so "Jane Doe" becomes one placeholder rather than two
+    const names = new Set<string>();
+    for (const name of knownNames) {
+      const trimmed = name?.trim();
+      if (!trimmed) continue;
+      names.add(trimmed);
+      trimmed.split(/\s+/).filter(part => part.length > 1).forEach(part => names.add(part));
+    }
+    this.knownNames = Array.from(names).sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * Replace identifiers in text with placeholders such as [NAME_1]
+   */
+  mask(text: string): string {
+    let masked = text;
+
+    for (const { category, pattern, group } of PHI_PATTERNS) {
+      masked = masked.replace(pattern, (match: string, ...groups: unknown[]) => {
+        if (group) {
+          const value = groups[group - 1] as string;
+          return match.replace(value, this.placeholderFor(category, value));
+        }
+        return this.placeholderFor(category, match);
+      });
+    }
+
+    for (const name of this.knownNames) {
+      const pattern = new RegExp(`\\b${escapeRegExp(name)}\\b`, 'gi');
+      masked = masked.replace(pattern, (match) => this.placeholderFor('name', match));
+    }
+
+    return masked;
+  }
+
+  /**
+   * Restore the original values for every placeholder issued by this session
+   */
+  reidentify(text: string): string {
+    return text.replace(PLACEHOLDER_PATTERN, (placeholder) => this.placeholders.get(placeholder) ?? placeholder);
+  }
+
+  /**
+   * Wrap a delta callback so streamed chunks are re-identified before they are forwarded
+   * Placeholders split across chunks are held back until complete; call flush() when the stream ends
+   */
+  createStreamReidentifier(onDelta: (content: string) => void): { push: (chunk: string) => void; flush: () => void } {
+    let pending = '';
+
+    return {
+      push: (chunk: string) => {
+        pending += chunk;
+
+        const openIndex = pending.lastIndexOf('[');
+        const holdBack = openIndex !== -1
+          && !pending.includes(']', openIndex)
+          && pending.length - openIndex <= MAX_PARTIAL_PLACEHOLDER_LENGTH;
+
+        const ready = holdBack ? pending.slice(0, openIndex) : pending;
+        pending = holdBack ? pending.slice(openIndex) : '';
+
+        if (ready) {
+          onDelta(this.reidentify(ready));
+        }
+      },
+      flush: () => {
+        if (pending) {
+          onDelta(this.reidentify(pending));
+          pending = '';
+        }
+      }
+    };
+  }
+
+  /**
+   * Categories that were actually masked, for the audit trail
+   */
+  get maskedCategories(): PhiCategory[] {
+    return (Object.keys(this.counters) as PhiCategory[]).sort();
+  }
+
+  // Keep the substitution map out of JSON.stringify and structured logging
+  toJSON() {
+    return { maskedCategories: this.maskedCategories };
+  }
+
+  private placeholderFor(category: PhiCategory, original: string): string {
+    const key = `${category}:${original.toLowerCase()}`;
+    const existing = this.originals.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const index = (this.counters[category] || 0) + 1;
+    this.counters[category] = index;
+
+    const placeholder = `[${category.toUpperCase()}_${index}]`;
+    this.placeholders.set(placeholder, original);
+    this.originals.set(key, placeholder);
+    return placeholder;
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Mask identifiers for storage, replacing them with category labels such as [NAME]
+ * Unlike session placeholders these are never re-identified, so the text can be reused for other patients
+ */
+export function redactPhi(text: string, knownNames: string[] = []): string {
+  return new PhiSession(knownNames).mask(text).replace(PLACEHOLDER_PATTERN, (_placeholder, category: string) => `[${category}]`);
+}
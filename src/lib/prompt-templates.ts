@@ -0,0 +1,163 @@
+// Variables available to prompt templates, written as {{name}}
+export const PROMPT_TEMPLATE_VARIABLES = {
+  system: ['tone', 'readingLevel', 'specialtyFocus', 'signOff', 'maxWords'],
+  user: [
+    'patientName',
+    'briefText',
+    'medicalHistory',
+    'currentMedications',
+    'allergies',
+    'doctorNotes',
+    'inquiry',
+    'tone',
+    'readingLevel',
+    'signOff',
+    'maxWords'
+  ]
+} as const;
+
+export type PromptTemplateScope = 'global' | 'specialty' | 'doctor';
+
+// ID of the seeded global template (migrations/0010_add_prompt_templates.sql)
+export const DEFAULT_PROMPT_TEMPLATE_ID = 'prompt-template-default-v1';
+
+export const DEFAULT_SYSTEM_TEMPLATE = `You are a medical communication assistant helping healthcare staff draft patient responses.
+
+IMPORTANT GUIDELINES:
+- Communication tone: {{tone}}
+- Reading level: {{readingLevel}}
+- Specialty focus: {{specialtyFocus}}
+- Sign off with: "{{signOff}}"
+- Maximum words: {{maxWords}}
+
+MEDICAL COMMUNICATION STANDARDS:
+- Always maintain professional, compassionate tone
+- Use clear, jargon-free language appropriate for patients
+- Include appropriate disclaimers for medical advice
+- Encourage patients to contact the office for urgent concerns
+- Reference the patient's specific condition and medical history when relevant
+- Never provide specific medical diagnoses or treatment changes
+- Always recommend professional consultation for medical decisions
+
+HIPAA COMPLIANCE:
+- Maintain patient confidentiality
+- Patient identifiers appear as placeholders such as [NAME_1] or [DATE_1]; copy them exactly as written
+- Only reference information provided in the context
+- Use secure, professional language
+
+SAFETY REQUIREMENTS:
+- Never recommend stopping medications without consultation
+- Never suggest starting new medications
+- Never provide emergency medical advice
+- Always encourage in-person consultation for complex issues
+
+Format the response as a complete message ready to send to the patient.`;
+
+export const DEFAULT_USER_TEMPLATE = `Please draft a response to the following patient inquiry:
+
+PATIENT CONTEXT:
+- Name: {{patientName}}
+- Medical Condition: {{briefText}}
+- Medical History: {{medicalHistory}}
+- Current Medications: {{currentMedications}}
+- Allergies: {{allergies}}
+- Doctor Notes: {{doctorNotes}}
+
+PATIENT INQUIRY:
+{{inquiry}}
+
+RESPONSE REQUIREMENTS:
+- Address the patient by name
+- Reference their specific condition where appropriate
+- Maintain the specified communication tone: {{tone}}
+- Keep response under {{maxWords}} words
+- Use {{readingLevel}} reading level
+- Include appropriate medical disclaimers
+- Sign off with: "{{signOff}}"
+- Never provide specific medical diagnoses or treatment changes
+- Always encourage professional consultation for medical decisions
+
+Draft a complete, professional response:`;
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Substitute {{variables}} in a template
+ */
+export function renderPromptTemplate(template: string, variables: Record<string, string | number>): string {
+  return template.replace(VARIABLE_PATTERN, (match, name: string) =>
+    name in variables ? String(variables[name]) : match
+  );
+}
+
+/**
+ * Check a template pair before it is saved
+ * Returns a list of problems; empty when the templates are usable
+ */
+export function validatePromptTemplates(systemTemplate: string, userTemplate: string): string[] {
+  const issues: string[] = [];
+
+  const check = (label: string, template: string, allowed: readonly string[]) => {
+    if (!template?.trim()) {
+      issues.push(`${label} template is required`);
+      return;
+    }
+    for (const [, name] of template.matchAll(VARIABLE_PATTERN)) {
+      if (!allowed.includes(name)) {
+        issues.push(`${label} template uses unknown variable {{${name}}}`);
+      }
+    }
+  };
+
+  check('System', systemTemplate, PROMPT_TEMPLATE_VARIABLES.system);
+  check('User', userTemplate, PROMPT_TEMPLATE_VARIABLES.user);
+
+  // Without the inquiry the model has nothing to answer
+  if (userTemplate && !/\{\{\s*inquiry\s*\}\}/.test(userTemplate)) {
+    issues.push('User template must include {{inquiry}}');
+  }
+
+  return issues;
+}
+
+export interface DiffLine {
+  type: 'unchanged' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Line-based diff between two template versions (longest common subsequence)
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const diff: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      diff.push({ type: 'unchanged', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      diff.push({ type: 'removed', text: a[i++] });
+    } else {
+      diff.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) diff.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) diff.push({ type: 'added', text: b[j++] });
+
+  return diff;
+}
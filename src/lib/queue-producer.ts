@@ -9,6 +9,7 @@ export interface EmailJob {
   subject: string;
   content: string;
   priority: 'high' | 'normal' | 'low';
+  dispatchId?: string; // Must match MessageQueue.dispatchId when processed; recalled and re-sent messages leave old jobs stale
   metadata?: Record<string, any>;
 }
 
@@ -18,6 +19,7 @@ export interface SMSJob {
   recipient: string;
   content: string;
   priority: 'high' | 'normal' | 'low';
+  dispatchId?: string; // Must match MessageQueue.dispatchId when processed; recalled and re-sent messages leave old jobs stale
   metadata?: Record<string, any>;
 }
 
@@ -46,6 +48,9 @@ const PRIORITY_DELAYS = {
   low: 5000     // 5 second delay
 };
 
+// Cloudflare Queues hold a message for at most 12 hours; later sends are re-enqueued by the processors
+export const MAX_QUEUE_DELAY_SECONDS = 12 * 60 * 60;
+
 export class QueueProducer {
   private queue: Queue<QueueJob>;
 
@@ -65,7 +70,7 @@ export class QueueProducer {
       
       await this.queue.send(job, {
         contentType: 'json',
-        delaySeconds: Math.floor(delay / 1000),
+        delaySeconds: Math.min(Math.floor(delay / 1000), MAX_QUEUE_DELAY_SECONDS),
         deduplicationId: options?.deduplicationId
       });
 
@@ -119,7 +124,7 @@ export class QueueProducer {
       const messages = jobs.map(job => ({
         body: job,
         contentType: 'json' as const,
-        delaySeconds: Math.floor(delay / 1000)
+        delaySeconds: Math.min(Math.floor(delay / 1000), MAX_QUEUE_DELAY_SECONDS)
       }));
 
       await this.queue.sendBatch(messages);
@@ -169,6 +174,8 @@ export class QueueProducer {
     subject: string;
     content: string;
     priority?: 'high' | 'normal' | 'low';
+    dispatchId?: string;
+    delay?: number; // Milliseconds; defaults to the priority delay
     metadata?: Record<string, any>;
   }): Promise<void> {
     const job: EmailJob = {
@@ -178,10 +185,11 @@ export class QueueProducer {
       subject: params.subject,
       content: params.content,
       priority: params.priority ?? 'normal',
+      dispatchId: params.dispatchId,
       metadata: params.metadata
     };
 
-    await this.enqueueJob(job);
+    await this.enqueueJob(job, { delay: params.delay });
   }
 
   /**
@@ -192,6 +200,8 @@ export class QueueProducer {
     recipient: string;
     content: string;
     priority?: 'high' | 'normal' | 'low';
+    dispatchId?: string;
+    delay?: number; // Milliseconds; defaults to the priority delay
     metadata?: Record<string, any>;
   }): Promise<void> {
     const job: SMSJob = {
@@ -200,10 +210,11 @@ export class QueueProducer {
       recipient: params.recipient,
       content: params.content,
       priority: params.priority ?? 'normal',
+      dispatchId: params.dispatchId,
       metadata: params.metadata
     };
 
-    await this.enqueueJob(job);
+    await this.enqueueJob(job, { delay: params.delay });
   }
 
   /**
@@ -251,6 +262,7 @@ export class QueueProducer {
 
   /**
    * Enqueue a "send later" job
+   * Sends more than MAX_QUEUE_DELAY_SECONDS away arrive early and are enqueued again until MessageQueue.scheduledFor.
    */
   async enqueueSendLater(
     job: EmailJob | SMSJob, 
@@ -0,0 +1,142 @@
+// Inquiry intent rules and doctor-approved quick-reply templates, written with {{placeholders}} filled from the brief
+
+export type InquiryIntent = 'medication_refill' | 'appointment' | 'lab_results' | 'billing' | 'records_forms' | 'general';
+
+export const INQUIRY_INTENTS: InquiryIntent[] = ['medication_refill', 'appointment', 'lab_results', 'billing', 'records_forms', 'general'];
+
+export const INTENT_LABELS: Record<InquiryIntent, string> = {
+  medication_refill: 'Medication refill',
+  appointment: 'Appointment change',
+  lab_results: 'Lab results',
+  billing: 'Billing and insurance',
+  records_forms: 'Records and forms',
+  general: 'General question'
+};
+
+export interface IntentResult {
+  intent: InquiryIntent;
+  rationale: string;
+  matchedTerms: string[];
+}
+
+const INTENT_RULES: Array<{ intent: Exclude<InquiryIntent, 'general'>; pattern: RegExp }> = [
+  { intent: 'medication_refill', pattern: /\b(?:refill\w*|renew\w*|ran out|running out|run out|out of (?:my )?(?:medications?|medicine|meds|pills)|new prescription|prescription)\b/gi },
+  { intent: 'appointment', pattern: /\b(?:appointments?|reschedul\w*|schedul\w*|cancel (?:my )?(?:visit|appointment)|book (?:a |an )?(?:visit|appointment)|move my (?:visit|appointment)|follow[- ]up visit)\b/gi },
+  { intent: 'lab_results', pattern: /\b(?:lab (?:results?|work|tests?)|labs|blood (?:work|tests?)|test results?|results? (?:of|from) my|a1c|x-?ray results?|mri results?)\b/gi },
+  { intent: 'billing', pattern: /\b(?:bill(?:ing|ed)?|invoice|insurance|copay|co-pay|payment|charged?)\b/gi },
+  { intent: 'records_forms', pattern: /\b(?:medical records|records request|forms?|paperwork|doctor'?s note|note for (?:work|school)|fmla|disability)\b/gi }
+];
+
+// Values available to quick-reply templates, written as {{name}}
+export const QUICK_REPLY_VARIABLES = ['patientName', 'patientFirstName', 'doctorName', 'signOff', 'currentMedications', 'allergies'] as const;
+
+export type QuickReplyVariable = typeof QUICK_REPLY_VARIABLES[number];
+
+export type QuickReplyValues = Record<QuickReplyVariable, string | null | undefined>;
+
+export interface QuickReplyTemplateDefinition {
+  id: string;
+  intent: string;
+  title: string;
+  body: string;
+  language: string;
+}
+
+export interface QuickReplyMatch {
+  templateId: string;
+  intent: InquiryIntent;
+  title: string;
+  draft: string; // Template with every placeholder filled
+}
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Classify an inquiry's intent with the keyword rules
+ * An inquiry matching several intents equally is 'general': a single template would only answer part of it.
+ */
+export function classifyInquiryIntent(inquiry: string): IntentResult {
+  const hits = INTENT_RULES
+    .map(rule => ({ intent: rule.intent, terms: Array.from(inquiry.matchAll(rule.pattern), match => match[0].toLowerCase()) }))
+    .filter(hit => hit.terms.length > 0)
+    .sort((a, b) => b.terms.length - a.terms.length);
+
+  if (hits.length === 0) {
+    return { intent: 'general', rationale: 'No routine request terms found', matchedTerms: [] };
+  }
+
+  const matchedTerms = Array.from(new Set(hits.flatMap(hit => hit.terms)));
+  if (hits.length > 1 && hits[1].terms.length === hits[0].terms.length) {
+    return {
+      intent: 'general',
+      rationale: `Matched several requests (${hits.map(hit => INTENT_LABELS[hit.intent].toLowerCase()).join(', ')})`,
+      matchedTerms
+    };
+  }
+
+  return {
+    intent: hits[0].intent,
+    rationale: `Matched ${INTENT_LABELS[hits[0].intent].toLowerCase()}: ${hits[0].terms.map(term => `"${term}"`).join(', ')}`,
+    matchedTerms
+  };
+}
+
+/**
+ * Fill a template's placeholders; placeholders without a value are left in place and reported as missing
+ */
+export function renderQuickReply(body: string, values: Partial<QuickReplyValues>): { text: string; missing: string[] } {
+  const missing = new Set<string>();
+  const text = body.replace(VARIABLE_PATTERN, (match, name: string) => {
+    const value = values[name as QuickReplyVariable]?.trim();
+    if (!value) {
+      missing.add(name);
+      return match;
+    }
+    return value;
+  });
+
+  return { text, missing: Array.from(missing) };
+}
+
+/**
+ * Templates that fit an inquiry: same intent and language, with every placeholder filled from the brief
+ */
+export function matchQuickReplies(
+  intent: InquiryIntent,
+  language: string,
+  templates: QuickReplyTemplateDefinition[],
+  values: Partial<QuickReplyValues>
+): QuickReplyMatch[] {
+  if (intent === 'general') return [];
+
+  return templates
+    .filter(template => template.intent === intent && template.language === language)
+    .map(template => ({ template, rendered: renderQuickReply(template.body, values) }))
+    .filter(({ rendered }) => rendered.missing.length === 0)
+    .map(({ template, rendered }) => ({ templateId: template.id, intent, title: template.title, draft: rendered.text }));
+}
+
+/**
+ * Check a template before it is saved
+ * Returns a list of problems; empty when the template is usable
+ */
+export function validateQuickReplyTemplate(input: { intent: string; title: string; body: string }): string[] {
+  const issues: string[] = [];
+
+  if (!INQUIRY_INTENTS.includes(input.intent as InquiryIntent) || input.intent === 'general') {
+    issues.push(`Intent must be one of: ${INQUIRY_INTENTS.filter(intent => intent !== 'general').join(', ')}`);
+  }
+  if (!input.title?.trim()) {
+    issues.push('Title is required');
+  }
+  if (!input.body?.trim()) {
+    issues.push('Reply text is required');
+  }
+  for (const [, name] of (input.body || '').matchAll(VARIABLE_PATTERN)) {
+    if (!QUICK_REPLY_VARIABLES.includes(name as QuickReplyVariable)) {
+      issues.push(`Reply uses unknown placeholder {{${name}}}`);
+    }
+  }
+
+  return issues;
+}
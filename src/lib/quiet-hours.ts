@@ -0,0 +1,198 @@
+// Quiet hours: clinic-wide windows per delivery method (QUIET_HOURS) and each patient's contact hours, both read
+// in the patient's local time; an email or SMS due inside one is pushed to the next allowed minute unless it is urgent
+
+export const DEFAULT_CLINIC_TIMEZONE = 'UTC';
+
+// Portal messages wait in the portal until the patient opens it, so they are never held back
+export const QUIET_HOURS_DELIVERY_METHODS = ['email', 'sms'];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// A quiet window and a contact window can push a send into each other; this bounds the walk
+const MAX_DEFERRALS = 8;
+
+export interface QuietWindow {
+  start: number; // Minutes after local midnight
+  end: number; // Exclusive; before start means the window wraps midnight
+}
+
+export interface QuietHoursRule extends QuietWindow {
+  deliveryMethod: string;
+}
+
+export interface SendWindowOptions {
+  deliveryMethod: string;
+  priority?: string | null;
+  timeZone: string;
+  quietHours: QuietHoursRule[];
+  contactHours?: { start: string | null; end: string | null } | null;
+}
+
+export interface SendWindow {
+  sendAt: Date;
+  deferred: boolean;
+  reason: 'quiet_hours' | 'contact_hours' | null; // What the send first fell into
+  overridden: boolean; // Urgent: would have been deferred but goes out as requested
+}
+
+/**
+ * Minutes after midnight for "HH:MM" (24-hour); null when unreadable
+ */
+export function parseTime(value: unknown): number | null {
+  const match = typeof value === 'string' ? value.trim().match(/^(\d{1,2}):(\d{2})$/) : null;
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * "HH:MM" for minutes after midnight
+ */
+export function formatTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Rules from QUIET_HOURS, e.g. "sms 21:00-08:00, email 22:00-07:00"; a rule without a method covers email and SMS
+ * Unreadable entries are skipped with a warning so a typo cannot stop delivery.
+ */
+export function parseQuietHours(value: unknown): QuietHoursRule[] {
+  if (typeof value !== 'string') return [];
+
+  const rules: QuietHoursRule[] = [];
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const match = entry.match(/^(?:([a-z]+)\s+)?(\S+)\s*-\s*(\S+)$/i);
+    const start = parseTime(match?.[2]);
+    const end = parseTime(match?.[3]);
+    const method = match?.[1]?.toLowerCase();
+
+    if (!match || start === null || end === null || start === end || (method && !QUIET_HOURS_DELIVERY_METHODS.includes(method))) {
+      console.warn('[QUIET_HOURS] Ignoring unreadable quiet hours entry', { entry });
+      continue;
+    }
+
+    for (const deliveryMethod of method ? [method] : QUIET_HOURS_DELIVERY_METHODS) {
+      rules.push({ deliveryMethod, start, end });
+    }
+  }
+  return rules;
+}
+
+/**
+ * Whether the runtime knows an IANA time zone name
+ */
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || !value) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a patient's timezone and contact hours before they are saved
+ */
+export function validateContactPreferences(input: {
+  timezone?: string | null;
+  contactHoursStart?: string | null;
+  contactHoursEnd?: string | null;
+}): string[] {
+  const issues: string[] = [];
+
+  if (input.timezone && !isValidTimeZone(input.timezone)) {
+    issues.push(`Unknown timezone: ${input.timezone}`);
+  }
+
+  const start = input.contactHoursStart ? parseTime(input.contactHoursStart) : null;
+  const end = input.contactHoursEnd ? parseTime(input.contactHoursEnd) : null;
+  if (input.contactHoursStart && start === null) {
+    issues.push('Contact hours start must be a time like 08:00');
+  }
+  if (input.contactHoursEnd && end === null) {
+    issues.push('Contact hours end must be a time like 20:00');
+  }
+  if (!input.contactHoursStart !== !input.contactHoursEnd) {
+    issues.push('Contact hours need both a start and an end');
+  } else if (start !== null && start === end) {
+    issues.push('Contact hours must not start and end at the same time');
+  }
+
+  return issues;
+}
+
+/**
+ * Minutes after local midnight of an instant in a time zone
+ */
+export function localMinutes(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+    .formatToParts(date);
+  const hour = Number(parts.find(part => part.type === 'hour')?.value);
+  const minute = Number(parts.find(part => part.type === 'minute')?.value);
+  return (hour % 24) * 60 + minute;
+}
+
+function inWindow(minutes: number, window: QuietWindow): boolean {
+  return window.start < window.end
+    ? minutes >= window.start && minutes < window.end
+    : minutes >= window.start || minutes < window.end;
+}
+
+/**
+ * The earliest time at or after `requested` that a message may go out
+ * Contact hours count as a quiet window from their end to their start. Urgent messages are never deferred.
+ */
+export function nextAllowedSendTime(requested: Date, options: SendWindowOptions): SendWindow {
+  if (!QUIET_HOURS_DELIVERY_METHODS.includes(options.deliveryMethod)) {
+    return { sendAt: requested, deferred: false, reason: null, overridden: false };
+  }
+
+  const windows: Array<QuietWindow & { reason: 'quiet_hours' | 'contact_hours' }> = options.quietHours
+    .filter(rule => rule.deliveryMethod === options.deliveryMethod)
+    .map(rule => ({ start: rule.start, end: rule.end, reason: 'quiet_hours' as const }));
+
+  const contactStart = parseTime(options.contactHours?.start);
+  const contactEnd = parseTime(options.contactHours?.end);
+  if (contactStart !== null && contactEnd !== null && contactStart !== contactEnd) {
+    windows.push({ start: contactEnd, end: contactStart, reason: 'contact_hours' });
+  }
+
+  let sendAt = requested;
+  let reason: SendWindow['reason'] = null;
+  for (let step = 0; step < MAX_DEFERRALS; step++) {
+    const minutes = localMinutes(sendAt, options.timeZone);
+    const blocking = windows.find(window => inWindow(minutes, window));
+    if (!blocking) break;
+
+    reason = reason ?? blocking.reason;
+    const wait = (blocking.end - minutes + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    sendAt = new Date(Math.floor(sendAt.getTime() / 60000) * 60000 + wait * 60000);
+  }
+
+  if (!reason) {
+    return { sendAt: requested, deferred: false, reason: null, overridden: false };
+  }
+  if (options.priority === 'urgent') {
+    return { sendAt: requested, deferred: false, reason, overridden: true };
+  }
+  return { sendAt, deferred: true, reason, overridden: false };
+}
+
+/**
+ * An instant as staff read it for one time zone, e.g. "May 1, 8:00 AM CDT"
+ */
+export function formatInTimeZone(date: Date | string, timeZone: string): string {
+  return new Date(date).toLocaleString('en-US', {
+    timeZone,
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  });
+}
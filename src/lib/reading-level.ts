@@ -0,0 +1,123 @@
+// Reading level: Flesch-Kincaid grade measurement and the doctor's target grade
+import { languageName, type PatientLanguage } from './languages';
+
+export type ReadingLevelTarget = 'elementary' | 'middle' | 'high' | 'college';
+
+// Highest acceptable grade per DoctorSettings.readingLevel; college has no ceiling
+export const READING_LEVEL_MAX_GRADE: Record<ReadingLevelTarget, number | null> = {
+  elementary: 6,
+  middle: 8,
+  high: 12,
+  college: null
+};
+
+// Simplification passes per draft before the best attempt is returned as-is
+export const MAX_READING_LEVEL_REWRITES = 2;
+
+// Languages with a readability formula; other languages are not measured
+export const MEASURED_LANGUAGES: PatientLanguage[] = ['en', 'es'];
+
+/**
+ * Simplified syllable count: vowel groups, minus a trailing silent e in English
+ */
+export function countSyllables(word: string, language: PatientLanguage = 'en'): number {
+  const spanish = language === 'es';
+  const cleaned = word.toLowerCase().replace(spanish ? /[^a-záéíóúüñ]/g : /[^a-z]/g, '');
+  if (cleaned.length === 0) return 0;
+
+  const vowels = spanish ? 'aeiouáéíóúü' : 'aeiouy';
+  let count = 0;
+  let prevWasVowel = false;
+
+  for (let i = 0; i < cleaned.length; i++) {
+    const isVowel = vowels.includes(cleaned[i]);
+    if (isVowel && !prevWasVowel) {
+      count++;
+    }
+    prevWasVowel = isVowel;
+  }
+
+  // Adjust for silent e
+  if (!spanish && cleaned.endsWith('e') && count > 1) {
+    count--;
+  }
+
+  return Math.max(1, count);
+}
+
+/**
+ * Approximate US grade for a Fernández Huerta readability score (0-100, higher is easier)
+ */
+function fernandezHuertaGrade(score: number): number {
+  if (score >= 90) return 4;
+  if (score >= 80) return 5;
+  if (score >= 70) return 6;
+  if (score >= 60) return 8;
+  if (score >= 50) return 10;
+  if (score >= 30) return 12;
+  return 16;
+}
+
+/**
+ * Grade level rounded to one decimal: Flesch-Kincaid for English, Fernández Huerta for Spanish
+ * Null when the text has no sentences or the language has no formula
+ */
+export function measureGradeLevel(text: string, language: PatientLanguage = 'en'): number | null {
+  if (!MEASURED_LANGUAGES.includes(language)) return null;
+
+  const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
+  const words = text.split(/\s+/).filter(w => w.length > 0);
+  if (sentences.length === 0 || words.length === 0) return null;
+
+  const syllables = words.reduce((count, word) => count + countSyllables(word, language), 0);
+  const wordsPerSentence = words.length / sentences.length;
+  const syllablesPerWord = syllables / words.length;
+
+  if (language === 'es') {
+    return fernandezHuertaGrade(206.84 - 60 * syllablesPerWord - 1.02 * wordsPerSentence);
+  }
+
+  const grade = 0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59;
+  return Math.round(grade * 10) / 10;
+}
+
+/**
+ * Display label for a measured grade
+ */
+export function gradeLevelLabel(grade: number | null): string {
+  if (grade === null) return 'Unable to analyze';
+  if (grade <= 6) return 'Elementary';
+  if (grade <= 8) return 'Middle School';
+  if (grade <= 12) return 'High School';
+  return 'College+';
+}
+
+/**
+ * The doctor's grade ceiling, null when unset or unlimited
+ */
+export function maxGradeFor(readingLevel?: string | null): number | null {
+  if (!readingLevel || !(readingLevel in READING_LEVEL_MAX_GRADE)) return null;
+  return READING_LEVEL_MAX_GRADE[readingLevel as ReadingLevelTarget];
+}
+
+/**
+ * Whether a measured grade is above the ceiling; unmeasurable text never is
+ */
+export function exceedsReadingLevel(grade: number | null, maxGrade: number | null): boolean {
+  return grade !== null && maxGrade !== null && grade > maxGrade;
+}
+
+/**
+ * System prompt for a simplification pass over an existing draft
+ */
+export function buildSimplificationPrompt(maxGrade: number, measuredGrade: number, language: PatientLanguage = 'en'): string {
+  return `You simplify patient messages written by a doctor. The message below reads at about grade ${measuredGrade}; rewrite it so it reads at grade ${maxGrade} or below.
+
+Rules:${language === 'en' ? '' : `\n- Keep the message in ${languageName(language)}`}
+- Keep every medical fact, instruction, date and dose exactly as written
+- Use short sentences and everyday words; explain or replace medical terms
+- Keep the greeting and sign-off unchanged
+- Keep bracketed placeholders such as [NAME_1] exactly as they appear
+- Do not add new advice or information
+- Reply with the rewritten message only`;
+}
@@ -0,0 +1,191 @@
+// Targeted refinement of one paragraph of a draft: paragraph spans, the rewrite prompt and word diffs for editHistory
+
+import { languageName, type PatientLanguage } from './languages';
+
+export const MAX_INSTRUCTION_LENGTH = 300;
+
+// Offered as one-click instructions; staff can also type their own
+export const REFINEMENT_PRESETS = ['Make it shorter', 'Make it warmer', 'Use simpler words', 'Make it more formal'];
+
+export interface ParagraphSpan {
+  index: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface DiffOp {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface RefinementStep {
+  type: 'refinement';
+  timestamp: string;
+  userId: string;
+  paragraphIndex: number;
+  instruction: string;
+  before: string;
+  after: string;
+  diff: DiffOp[];
+}
+
+// Word diffs are quadratic; longer paragraphs are recorded as a whole replacement
+const MAX_DIFF_CELLS = 250000;
+
+/**
+ * Paragraphs of a draft, separated by blank lines, with their offsets in the original text
+ */
+export function splitParagraphs(draft: string): ParagraphSpan[] {
+  const spans: ParagraphSpan[] = [];
+  const pattern = /\S[\s\S]*?(?=\n[ \t]*\n|\s*$)/g;
+
+  for (const match of draft.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    spans.push({ index: spans.length, start, end: start + match[0].length, text: match[0] });
+  }
+
+  return spans;
+}
+
+/**
+ * Replace one paragraph and leave the rest of the draft, including its spacing, untouched
+ */
+export function replaceParagraph(draft: string, index: number, replacement: string): string {
+  const span = splitParagraphs(draft)[index];
+  if (!span) {
+    throw new Error(`Paragraph ${index + 1} not found`);
+  }
+
+  return draft.slice(0, span.start) + replacement.trim() + draft.slice(span.end);
+}
+
+/**
+ * Word-level diff of two texts; whitespace is kept so the ops join back into either text
+ */
+export function diffWords(before: string, after: string): DiffOp[] {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return mergeOps([{ type: 'delete', text: before }, { type: 'insert', text: after }]);
+  }
+
+  // Longest common subsequence table, filled from the end
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: 'delete', text: a[i++] });
+    } else {
+      ops.push({ type: 'insert', text: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ type: 'delete', text: a[i++] });
+  while (j < b.length) ops.push({ type: 'insert', text: b[j++] });
+
+  return mergeOps(ops);
+}
+
+function mergeOps(ops: DiffOp[]): DiffOp[] {
+  return ops.filter(op => op.text).reduce<DiffOp[]>((merged, op) => {
+    const last = merged[merged.length - 1];
+    if (last && last.type === op.type) {
+      last.text += op.text;
+    } else {
+      merged.push({ ...op });
+    }
+    return merged;
+  }, []);
+}
+
+/**
+ * Check a refinement instruction before it is sent
+ * Returns a list of problems; empty when the instruction is usable
+ */
+export function validateRefinementInstruction(instruction: string): string[] {
+  const issues: string[] = [];
+
+  if (!instruction?.trim()) {
+    issues.push('An instruction is required');
+  } else if (instruction.trim().length > MAX_INSTRUCTION_LENGTH) {
+    issues.push(`Instruction must be ${MAX_INSTRUCTION_LENGTH} characters or fewer`);
+  }
+
+  return issues;
+}
+
+/**
+ * System prompt for rewriting a single paragraph; the rest of the message is context only
+ */
+export function buildRefinementPrompt(language: PatientLanguage = 'en'): string {
+  return `You revise one paragraph of a patient message written by a doctor, following the staff member's instruction.
+
+Rules:${language === 'en' ? '' : `\n- Keep the paragraph in ${languageName(language)}`}
+- Change only the paragraph marked PARAGRAPH; the full message is given for context
+- Follow the instruction and change nothing else
+- Keep every medical fact, instruction, date and dose unless the instruction asks to remove it
+- Keep bracketed placeholders such as [NAME_1] exactly as they appear
+- Do not add new advice or information
+- Reply with the rewritten paragraph only, as a single paragraph`;
+}
+
+/**
+ * User message for a paragraph rewrite
+ */
+export function buildRefinementInput(instruction: string, paragraph: string, message: string): string {
+  return `INSTRUCTION: ${instruction.trim()}
+
+MESSAGE:
+${message}
+
+PARAGRAPH:
+${paragraph}`;
+}
+
+/**
+ * Model output as a single paragraph: wrapping quotes and a leading label are removed, blank lines collapsed
+ */
+export function cleanRefinedParagraph(content: string): string {
+  return content
+    .trim()
+    .replace(/^PARAGRAPH:\s*/i, '')
+    .replace(/^"([\s\S]*)"$/, '$1')
+    .replace(/\n[ \t]*\n+/g, '\n')
+    .trim();
+}
+
+/**
+ * editHistory entry for one refinement
+ */
+export function createRefinementStep(
+  userId: string,
+  paragraphIndex: number,
+  instruction: string,
+  before: string,
+  after: string,
+  now: Date = new Date()
+): RefinementStep {
+  return {
+    type: 'refinement',
+    timestamp: now.toISOString(),
+    userId,
+    paragraphIndex,
+    instruction: instruction.trim(),
+    before,
+    after,
+    diff: diffWords(before, after)
+  };
+}
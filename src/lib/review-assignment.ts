@@ -0,0 +1,98 @@
+// Review assignment: urgency SLAs, expiring claims, round-robin reviewer choice and escalation targets
+import type { UrgencyLevel } from './triage';
+
+export type AssignmentStrategy = 'round_robin' | 'doctor_panel';
+
+// How the current assignee got the message
+export type AssignmentSource = 'round_robin' | 'doctor_panel' | 'returning_reviewer' | 'escalation' | 'reassigned';
+
+// Minutes a submitted message may wait for a review decision, by inquiry urgency
+export const REVIEW_SLA_MINUTES: Record<UrgencyLevel, number> = {
+  emergency: 15,
+  urgent: 60,
+  routine: 240,
+  administrative: 1440
+};
+
+export const REVIEW_CLAIM_MINUTES = 15;
+
+// Escalations per submission; after the last one an overdue message stays with its assignee
+export const MAX_ESCALATIONS = 2;
+
+export interface ReviewerCandidate {
+  id: string;
+  openAssignments: number; // Messages assigned to them and not yet reviewed
+  lastAssignedAt: Date | null;
+}
+
+export interface ReviewClaim {
+  claimedBy: string | null;
+  claimExpiresAt: Date | null;
+}
+
+/**
+ * Thrown when a reviewer acts on a message another reviewer holds an unexpired claim on
+ */
+export class ReviewClaimedError extends Error {
+  constructor(public claimedBy: string, public claimantName: string | null, public expiresAt: Date) {
+    super(`${claimantName || 'Another reviewer'} is reviewing this message until ${expiresAt.toISOString()}`);
+    this.name = 'ReviewClaimedError';
+  }
+}
+
+export function parseAssignmentStrategy(value: string | undefined): AssignmentStrategy {
+  return value === 'doctor_panel' ? 'doctor_panel' : 'round_robin';
+}
+
+/**
+ * When the review of a message submitted at `from` is due; unknown urgency counts as routine
+ */
+export function reviewDueAt(from: Date, urgency: string | null | undefined): Date {
+  const minutes = REVIEW_SLA_MINUTES[urgency as UrgencyLevel] ?? REVIEW_SLA_MINUTES.routine;
+  return new Date(from.getTime() + minutes * 60 * 1000);
+}
+
+export function claimExpiresAt(from: Date): Date {
+  return new Date(from.getTime() + REVIEW_CLAIM_MINUTES * 60 * 1000);
+}
+
+export function isClaimActive(claim: ReviewClaim, now: Date): boolean {
+  return !!claim.claimedBy && !!claim.claimExpiresAt && claim.claimExpiresAt.getTime() > now.getTime();
+}
+
+/**
+ * The reviewer with the fewest open assignments, then the one assigned longest ago
+ * Returns null when every candidate is excluded.
+ */
+export function pickRoundRobin(candidates: ReviewerCandidate[], exclude: (string | null | undefined)[] = []): ReviewerCandidate | null {
+  const eligible = candidates.filter(candidate => !exclude.includes(candidate.id));
+
+  eligible.sort((a, b) =>
+    a.openAssignments - b.openAssignments
+    || (a.lastAssignedAt?.getTime() ?? 0) - (b.lastAssignedAt?.getTime() ?? 0)
+    || a.id.localeCompare(b.id)
+  );
+
+  return eligible[0] ?? null;
+}
+
+/**
+ * Who an overdue message goes to next: the patient's doctor, unless the doctor already has it,
+ * in which case a backup reviewer
+ */
+export function escalationTarget(assigneeId: string | null, panelDoctorId: string | null, backupReviewerId: string | null): string | null {
+  if (panelDoctorId && panelDoctorId !== assigneeId) {
+    return panelDoctorId;
+  }
+  return backupReviewerId && backupReviewerId !== assigneeId ? backupReviewerId : null;
+}
+
+/**
+ * Short label for the time until a deadline, e.g. "1h 5m left" or "20m overdue"
+ */
+export function describeTimeLeft(deadline: Date, now: Date): string {
+  const minutes = Math.round((deadline.getTime() - now.getTime()) / 60000);
+  const span = Math.abs(minutes);
+  const label = span >= 60 ? `${Math.floor(span / 60)}h ${span % 60}m` : `${span}m`;
+  return minutes >= 0 ? `${label} left` : `${label} overdue`;
+}
@@ -0,0 +1,93 @@
+// Inline reviewer comments on a submitted message: validation, re-anchoring on revised text and highlight segments
+
+export const MAX_REVIEW_COMMENTS = 20;
+export const MAX_REVIEW_COMMENT_LENGTH = 500;
+
+export type RevisionOutcome = 'approved' | 'changes_requested' | 'rejected';
+
+export interface ReviewComment {
+  start: number; // Offsets into the revision's message text
+  end: number;
+  quote: string; // The commented text, kept so the comment can be found again after edits
+  comment: string;
+}
+
+export interface CommentSegment {
+  text: string;
+  commentIndex: number | null; // Index into the comments array; null for uncommented text
+}
+
+/**
+ * Check reviewer comments against the message they were made on
+ * Returns a list of problems; empty when the comments can be saved
+ */
+export function validateReviewComments(comments: ReviewComment[], message: string): string[] {
+  const issues: string[] = [];
+
+  if (comments.length > MAX_REVIEW_COMMENTS) {
+    issues.push(`At most ${MAX_REVIEW_COMMENTS} comments can be added to one revision`);
+  }
+
+  comments.forEach((comment, index) => {
+    const label = `Comment ${index + 1}`;
+    if (!comment.comment?.trim()) {
+      issues.push(`${label} is empty`);
+    } else if (comment.comment.trim().length > MAX_REVIEW_COMMENT_LENGTH) {
+      issues.push(`${label} must be ${MAX_REVIEW_COMMENT_LENGTH} characters or fewer`);
+    }
+
+    const validSpan = Number.isInteger(comment.start) && Number.isInteger(comment.end)
+      && comment.start >= 0 && comment.end > comment.start && comment.end <= message.length;
+    if (!validSpan || message.slice(comment.start, comment.end) !== comment.quote) {
+      issues.push(`${label} does not point at text in the message`);
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Where a comment's quote is in a revised text: the original offsets if the quote is still there,
+ * otherwise its occurrence nearest to them; null once the quoted text has been changed
+ */
+export function relocateComment(comment: ReviewComment, text: string): { start: number; end: number } | null {
+  if (text.slice(comment.start, comment.end) === comment.quote) {
+    return { start: comment.start, end: comment.end };
+  }
+
+  let best: number | null = null;
+  for (let index = text.indexOf(comment.quote); index !== -1; index = text.indexOf(comment.quote, index + 1)) {
+    if (best === null || Math.abs(index - comment.start) < Math.abs(best - comment.start)) {
+      best = index;
+    }
+  }
+
+  return best === null ? null : { start: best, end: best + comment.quote.length };
+}
+
+/**
+ * Split a text into commented and uncommented runs for highlighting
+ * Comments whose quote is gone are left out; where comments overlap, the earlier one wins.
+ */
+export function segmentByComments(text: string, comments: ReviewComment[]): CommentSegment[] {
+  const spans = comments
+    .map((comment, commentIndex) => ({ commentIndex, span: relocateComment(comment, text) }))
+    .filter((entry): entry is { commentIndex: number; span: { start: number; end: number } } => entry.span !== null)
+    .sort((a, b) => a.span.start - b.span.start);
+
+  const segments: CommentSegment[] = [];
+  let position = 0;
+  for (const { commentIndex, span } of spans) {
+    if (span.start < position) continue;
+    if (span.start > position) {
+      segments.push({ text: text.slice(position, span.start), commentIndex: null });
+    }
+    segments.push({ text: text.slice(span.start, span.end), commentIndex });
+    position = span.end;
+  }
+  if (position < text.length) {
+    segments.push({ text: text.slice(position), commentIndex: null });
+  }
+
+  return segments;
+}
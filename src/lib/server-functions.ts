@@ -35,6 +35,10 @@ export async function getPatientBriefs(user: User) {
           allergies: patientBriefs.allergies,
           doctorNotes: patientBriefs.doctorNotes,
           patientInquiry: patientBriefs.patientInquiry,
+          preferredLanguage: patientBriefs.preferredLanguage,
+          timezone: patientBriefs.timezone,
+          contactHoursStart: patientBriefs.contactHoursStart,
+          contactHoursEnd: patientBriefs.contactHoursEnd,
           createdAt: patientBriefs.createdAt,
           updatedAt: patientBriefs.updatedAt,
           doctorId: patientBriefs.doctorId,
@@ -64,6 +68,10 @@ export async function getPatientBriefs(user: User) {
           allergies: patientBriefs.allergies,
           doctorNotes: patientBriefs.doctorNotes,
           patientInquiry: patientBriefs.patientInquiry,
+          preferredLanguage: patientBriefs.preferredLanguage,
+          timezone: patientBriefs.timezone,
+          contactHoursStart: patientBriefs.contactHoursStart,
+          contactHoursEnd: patientBriefs.contactHoursEnd,
           createdAt: patientBriefs.createdAt,
           updatedAt: patientBriefs.updatedAt,
           doctorId: patientBriefs.doctorId,
@@ -127,6 +135,10 @@ export async function createPatientBrief(
       allergies: patientBriefs.allergies,
       doctorNotes: patientBriefs.doctorNotes,
       patientInquiry: patientBriefs.patientInquiry,
+      preferredLanguage: patientBriefs.preferredLanguage,
+      timezone: patientBriefs.timezone,
+      contactHoursStart: patientBriefs.contactHoursStart,
+      contactHoursEnd: patientBriefs.contactHoursEnd,
       createdAt: patientBriefs.createdAt,
       updatedAt: patientBriefs.updatedAt,
       doctorId: patientBriefs.doctorId,
@@ -199,6 +211,10 @@ export async function updatePatientBrief(
       allergies: patientBriefs.allergies,
       doctorNotes: patientBriefs.doctorNotes,
       patientInquiry: patientBriefs.patientInquiry,
+      preferredLanguage: patientBriefs.preferredLanguage,
+      timezone: patientBriefs.timezone,
+      contactHoursStart: patientBriefs.contactHoursStart,
+      contactHoursEnd: patientBriefs.contactHoursEnd,
       createdAt: patientBriefs.createdAt,
       updatedAt: patientBriefs.updatedAt,
       doctorId: patientBriefs.doctorId,
@@ -527,6 +543,33 @@ export async function getAssignedPatients(user: User) {
   return [];
 }
 
+// Doctors available as prompt template override targets
+export async function getDoctors() {
+  return drizzleDb
+    .select({
+      id: users.id,
+      username: users.username,
+      email: users.email,
+      specialtyFocus: doctorSettings.specialtyFocus
+    })
+    .from(users)
+    .leftJoin(doctorSettings, eq(users.id, doctorSettings.doctorId))
+    .where(eq(users.role, "doctor"))
+    .orderBy(users.username);
+}
+
+export async function getUsers() {
+  return drizzleDb
+    .select({
+      id: users.id,
+      username: users.username,
+      email: users.email,
+      role: users.role
+    })
+    .from(users)
+    .orderBy(users.username);
+}
+
 // User role and permission utilities
 export function canAccessPatientBriefs(user: User): boolean {
   return ["doctor", "admin"].includes(user.role);
@@ -548,6 +591,18 @@ export function canAccessDraftWorkflow(user: User): boolean {
   return ["staff", "reviewer", "doctor", "admin"].includes(user.role);
 }
 
+export function canManagePromptTemplates(user: User): boolean {
+  return user.role === "admin";
+}
+
+export function canManageAiBudgets(user: User): boolean {
+  return user.role === "admin";
+}
+
+export function canManageApprovalPolicies(user: User): boolean {
+  return user.role === "admin";
+}
+
 export function canSendMessages(user: User): boolean {
   return ["reviewer", "doctor", "admin"].includes(user.role);
 }
@@ -0,0 +1,374 @@
+import { drizzleDb, approvalPolicies, auditLogs, messageApprovals, patientBriefs, users } from '@/db';
+import { and, asc, eq } from 'drizzle-orm';
+import type { ApprovalPolicy, AuditLog, MessageApproval, NewMessageApproval, User } from '@/db';
+import crypto from 'crypto';
+import { hasRole } from '@/lib/auth';
+import { generateWebhookSignature } from '@/lib/webhook-security';
+import { MessageRevisionService } from '@/lib/services/messageRevisionService';
+import {
+  APPROVAL_ROLE_LABELS,
+  ApprovalStepError,
+  approvalSigningPayload,
+  parseApprovalPlan,
+  selectApprovalPlan,
+  signingProblem,
+  validateApprovalPolicy,
+  type ApprovalPlan,
+  type ApprovalPolicyDefinition,
+  type ApprovalRole
+} from '@/lib/approval-policies';
+
+export interface ApprovalPolicyInput {
+  name: string;
+  doctorId?: string | null;
+  urgencyLevel?: string | null;
+  guardrailCategory?: string | null;
+  inquiryIntent?: string | null;
+  steps: ApprovalRole[];
+  isEnabled?: boolean;
+}
+
+export interface MessageApprovalView extends MessageApproval {
+  approverName: string | null;
+  signatureValid: boolean;
+}
+
+export interface ApprovalStatus {
+  plan: ApprovalPlan | null;
+  revision: number;
+  approvals: MessageApprovalView[]; // Signed steps of the current revision and round, in step order
+}
+
+export interface PreparedApproval {
+  plan: ApprovalPlan;
+  remaining: ApprovalRole[]; // Steps still to sign after this one
+  values: NewMessageApproval; // The signed row, not yet stored
+}
+
+export interface SignResult extends Omit<PreparedApproval, 'values'> {
+  approval: MessageApproval;
+}
+
+export class ApprovalService {
+  /**
+   * The approval plan for a message: the most specific enabled policy that matches it, or the default single review
+   */
+  static async planFor(log: AuditLog, guardrailCategories: string[]): Promise<ApprovalPlan> {
+    const policies = await drizzleDb
+      .select()
+      .from(approvalPolicies)
+      .where(eq(approvalPolicies.isEnabled, true));
+
+    return selectApprovalPlan(policies.map(toDefinition), {
+      doctorId: await this.getPanelDoctorId(log),
+      urgencyLevel: log.urgencyLevel,
+      guardrailCategories,
+      inquiryIntent: log.inquiryIntent
+    });
+  }
+
+  /**
+   * Sign the next approval step of the message's current revision
+   * The same as prepare followed by record, for steps that do not move the message to another state.
+   */
+  static async sign(
+    log: AuditLog,
+    signer: User,
+    options: { message: string; guardrailCategories: string[]; notes?: string | null; mustComplete?: boolean; env: any }
+  ): Promise<SignResult> {
+    const { values, ...prepared } = await this.prepare(log, signer, options);
+    return { ...prepared, approval: await this.record({ ...prepared, values }) };
+  }
+
+  /**
+   * Check and sign the next approval step of the message's current revision without storing it
+   * Until the first step is signed the plan is chosen again, so an edited message is judged on its new text;
+   * after that the text is fixed and edits must go back to the author.
+   * With `mustComplete`, the signature is refused unless it is the last step (used by direct sends).
+   * Approvals given before the message was recalled belong to an earlier round and do not count.
+   * Signatures cannot be removed, so a step that approves the message is recorded only after its state has moved.
+   */
+  static async prepare(
+    log: AuditLog,
+    signer: User,
+    options: { message: string; guardrailCategories: string[]; notes?: string | null; mustComplete?: boolean; env: any }
+  ): Promise<PreparedApproval> {
+    const revision = await MessageRevisionService.currentRevision(log.id);
+    const signed = await this.getApprovals(log, revision);
+
+    if (signed.length > 0 && options.message !== log.finalMessage) {
+      throw new ApprovalStepError('This message already has approvals and can no longer be edited; request changes instead');
+    }
+    const plan = (signed.length > 0 ? parseApprovalPlan(log.approvalPlan) : null)
+      ?? await this.planFor(log, options.guardrailCategories);
+
+    const problem = signingProblem(plan, signed.map(approval => approval.approverId), signer, await this.getPanelDoctorId(log));
+    if (problem) {
+      throw new ApprovalStepError(problem);
+    }
+
+    const remaining = plan.steps.slice(signed.length + 1);
+    if (options.mustComplete && remaining.length > 0) {
+      throw new ApprovalStepError(
+        `This message needs ${plan.steps.length} approvals (${plan.steps.map(step => APPROVAL_ROLE_LABELS[step]).join(', ')}) and cannot be sent directly`
+      );
+    }
+
+    const fields = {
+      auditLogId: log.id,
+      revision,
+      round: log.approvalRound,
+      stepIndex: signed.length,
+      requiredRole: plan.steps[signed.length],
+      approverId: signer.id,
+      approverRole: signer.role,
+      contentHash: crypto.createHash('sha256').update(options.message).digest('hex'),
+      signedAt: new Date(Math.floor(Date.now() / 1000) * 1000)
+    };
+
+    return {
+      plan,
+      remaining,
+      values: {
+        ...fields,
+        policyId: plan.policyId,
+        signature: await generateWebhookSignature(approvalSigningPayload(fields), signingKey(options.env)),
+        notes: options.notes ?? null
+      }
+    };
+  }
+
+  /**
+   * Store a prepared signature
+   * The unique step index keeps two approvers from signing the same step.
+   */
+  static async record(prepared: PreparedApproval): Promise<MessageApproval> {
+    const { values } = prepared;
+
+    let approval: MessageApproval;
+    try {
+      [approval] = await drizzleDb
+        .insert(messageApprovals)
+        .values(values)
+        .returning();
+    } catch (error) {
+      // Drizzle wraps the D1 error; the constraint is named in its cause
+      if (String(error).includes('UNIQUE') || String((error as { cause?: unknown })?.cause).includes('UNIQUE')) {
+        throw new ApprovalStepError(`Step ${values.stepIndex + 1} was signed by someone else; reload the message`);
+      }
+      throw error;
+    }
+
+    console.log('[APPROVALS] Step signed', {
+      auditLogId: values.auditLogId,
+      revision: values.revision,
+      stepIndex: values.stepIndex,
+      requiredRole: values.requiredRole,
+      approverId: values.approverId,
+      remaining: prepared.remaining.length
+    });
+
+    return approval;
+  }
+
+  /**
+   * Throw ApprovalStepError unless every step of the message's plan is signed for its current text
+   * Messages approved before plans were recorded have no plan and pass.
+   */
+  static async assertComplete(auditLogId: string, message: string): Promise<void> {
+    const [log] = await drizzleDb
+      .select({ id: auditLogs.id, approvalPlan: auditLogs.approvalPlan, approvalRound: auditLogs.approvalRound })
+      .from(auditLogs)
+      .where(eq(auditLogs.id, auditLogId))
+      .limit(1);
+
+    const plan = parseApprovalPlan(log?.approvalPlan);
+    if (!plan) return;
+
+    const approvals = await this.getApprovals(log, await MessageRevisionService.currentRevision(auditLogId));
+    const contentHash = crypto.createHash('sha256').update(message).digest('hex');
+    const missing = plan.steps.filter((step, index) => approvals[index]?.contentHash !== contentHash);
+
+    if (missing.length > 0) {
+      throw new ApprovalStepError(`Missing approvals: ${missing.map(step => APPROVAL_ROLE_LABELS[step]).join(', ')}`);
+    }
+  }
+
+  /**
+   * Signed steps of one revision in the message's current round, in step order
+   */
+  static async getApprovals(log: Pick<AuditLog, 'id' | 'approvalRound'>, revision: number): Promise<MessageApproval[]> {
+    return drizzleDb
+      .select()
+      .from(messageApprovals)
+      .where(and(
+        eq(messageApprovals.auditLogId, log.id),
+        eq(messageApprovals.revision, revision),
+        eq(messageApprovals.round, log.approvalRound)
+      ))
+      .orderBy(asc(messageApprovals.stepIndex));
+  }
+
+  /**
+   * The message's plan and the signed steps that count towards it, with each signature checked
+   */
+  static async getStatus(log: AuditLog, env: any): Promise<ApprovalStatus> {
+    const revision = await MessageRevisionService.currentRevision(log.id);
+    const rows = await drizzleDb
+      .select({ approval: messageApprovals, approverName: users.username })
+      .from(messageApprovals)
+      .leftJoin(users, eq(messageApprovals.approverId, users.id))
+      .where(and(
+        eq(messageApprovals.auditLogId, log.id),
+        eq(messageApprovals.revision, revision),
+        eq(messageApprovals.round, log.approvalRound)
+      ))
+      .orderBy(asc(messageApprovals.stepIndex));
+
+    const key = signingKey(env);
+    const approvals = await Promise.all(rows.map(async row => ({
+      ...row.approval,
+      approverName: row.approverName,
+      signatureValid: await generateWebhookSignature(approvalSigningPayload(row.approval), key) === row.approval.signature
+    })));
+
+    return { plan: parseApprovalPlan(log.approvalPlan), revision, approvals };
+  }
+
+  /**
+   * List all approval policies (admin only)
+   */
+  static async listPolicies(user: User): Promise<ApprovalPolicy[]> {
+    if (!hasRole(user, 'admin')) {
+      throw new Error('Only administrators can manage approval policies');
+    }
+
+    return drizzleDb
+      .select()
+      .from(approvalPolicies)
+      .orderBy(approvalPolicies.name);
+  }
+
+  /**
+   * Add a policy (admin only)
+   */
+  static async createPolicy(input: ApprovalPolicyInput, user: User): Promise<ApprovalPolicy> {
+    if (!hasRole(user, 'admin')) {
+      throw new Error('Only administrators can manage approval policies');
+    }
+
+    const issues = validateApprovalPolicy(input);
+    if (issues.length > 0) {
+      throw new Error(issues.join('; '));
+    }
+
+    const [created] = await drizzleDb
+      .insert(approvalPolicies)
+      .values({
+        ...policyValues(input),
+        createdBy: user.id,
+        updatedBy: user.id
+      })
+      .returning();
+
+    console.log('[APPROVALS] Policy created', { policyId: created.id, steps: input.steps, createdBy: user.id });
+
+    return created;
+  }
+
+  /**
+   * Change a policy or enable/disable it (admin only)
+   * Messages already in review keep the plan they were given.
+   */
+  static async updatePolicy(policyId: string, updates: Partial<ApprovalPolicyInput>, user: User): Promise<ApprovalPolicy> {
+    if (!hasRole(user, 'admin')) {
+      throw new Error('Only administrators can manage approval policies');
+    }
+
+    const [existing] = await drizzleDb
+      .select()
+      .from(approvalPolicies)
+      .where(eq(approvalPolicies.id, policyId))
+      .limit(1);
+
+    if (!existing) {
+      throw new Error('Approval policy not found');
+    }
+
+    const merged: ApprovalPolicyInput = {
+      ...toDefinition(existing),
+      ...Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined))
+    };
+
+    const issues = validateApprovalPolicy(merged);
+    if (issues.length > 0) {
+      throw new Error(issues.join('; '));
+    }
+
+    const [updated] = await drizzleDb
+      .update(approvalPolicies)
+      .set({ ...policyValues(merged), updatedBy: user.id, updatedAt: new Date() })
+      .where(eq(approvalPolicies.id, policyId))
+      .returning();
+
+    console.log('[APPROVALS] Policy updated', { policyId, isEnabled: updated.isEnabled, updatedBy: user.id });
+
+    return updated;
+  }
+
+  /**
+   * The doctor whose panel the message's patient is in
+   */
+  static async getPanelDoctorId(log: Pick<AuditLog, 'patientId'>): Promise<string | null> {
+    if (!log.patientId) return null;
+
+    const [brief] = await drizzleDb
+      .select({ doctorId: patientBriefs.doctorId })
+      .from(patientBriefs)
+      .where(eq(patientBriefs.id, log.patientId))
+      .limit(1);
+
+    return brief?.doctorId ?? null;
+  }
+}
+
+function toDefinition(policy: ApprovalPolicy): ApprovalPolicyDefinition {
+  let steps: ApprovalRole[] = [];
+  try {
+    steps = JSON.parse(policy.steps) as ApprovalRole[];
+  } catch {
+    console.warn('[APPROVALS] Ignoring policy with unreadable steps', { policyId: policy.id });
+  }
+
+  return {
+    id: policy.id,
+    name: policy.name,
+    doctorId: policy.doctorId,
+    urgencyLevel: policy.urgencyLevel,
+    guardrailCategory: policy.guardrailCategory,
+    inquiryIntent: policy.inquiryIntent,
+    steps,
+    isEnabled: policy.isEnabled && steps.length > 0
+  };
+}
+
+function policyValues(input: ApprovalPolicyInput) {
+  return {
+    name: input.name.trim(),
+    doctorId: input.doctorId || null,
+    urgencyLevel: input.urgencyLevel || null,
+    guardrailCategory: input.guardrailCategory || null,
+    inquiryIntent: input.inquiryIntent || null,
+    steps: JSON.stringify(input.steps),
+    isEnabled: input.isEnabled ?? true
+  };
+}
+
+/**
+ * Key for approval signatures; only local development may run without AUTH_SECRET_KEY
+ */
+function signingKey(env: any): string {
+  if (env.AUTH_SECRET_KEY) return env.AUTH_SECRET_KEY;
+  if (env.ENVIRONMENT === 'local') return 'local-approval-signing-key';
+  throw new Error('AUTH_SECRET_KEY must be set to sign approvals');
+}
@@ -0,0 +1,439 @@
+import { drizzleDb, aiBudgets, aiBudgetAlerts, auditLogs, patientBriefs, users } from '@/db';
+import { and, desc, eq, gte, inArray, sql } from 'drizzle-orm';
+import type { AiBudget, User } from '@/db';
+import * as Sentry from '@sentry/cloudflare';
+import { hasRole } from '@/lib/auth';
+import { deliveryManager, initializeDeliveryProviders } from '@/providers/delivery';
+import { UsageTrackingService } from '@/lib/services/usageTrackingService';
+import {
+  DEFAULT_BUDGETS,
+  DEFAULT_SOFT_LIMIT_PERCENT,
+  applicableBudgets,
+  budgetSubjectUserId,
+  budgetWindowStart,
+  describeBudget,
+  describeEvaluation,
+  evaluateBudget,
+  validateBudget,
+  type BudgetDefinition,
+  type BudgetEvaluation,
+  type BudgetPeriod,
+  type BudgetScope,
+  type BudgetSubject,
+  type BudgetUsage
+} from '@/lib/budgets';
+
+export interface BudgetInput {
+  scope: BudgetScope;
+  scopeValue?: string | null;
+  period: BudgetPeriod;
+  maxRequests?: number | null;
+  maxTokens?: number | null;
+  maxCost?: number | null;
+  softLimitPercent?: number;
+  isEnabled?: boolean;
+}
+
+export interface BudgetCheckResult {
+  allowed: boolean;
+  evaluations: BudgetEvaluation[];
+  warnings: string[]; // Soft limits reached and overridden budgets, shown to the requester
+  error?: string;
+}
+
+export interface BudgetAlertView {
+  id: string;
+  budgetId: string;
+  budget: string;
+  level: string;
+  windowStart: Date;
+  subjectUserId: string | null;
+  message: string;
+  createdAt: Date;
+}
+
+// Longest admin override; budgets are meant to be raised rather than overridden indefinitely
+const MAX_OVERRIDE_MS = 31 * 24 * 60 * 60 * 1000;
+
+export class BudgetService {
+  /**
+   * All budgets, falling back to the bundled set if the seeded budgets are missing
+   */
+  static async getBudgets(): Promise<BudgetDefinition[]> {
+    const rows = await drizzleDb
+      .select()
+      .from(aiBudgets);
+
+    if (rows.length === 0) {
+      console.warn('[BUDGETS] No budgets found, using bundled budgets');
+      return DEFAULT_BUDGETS;
+    }
+
+    return rows.map(row => this.toDefinition(row));
+  }
+
+  /**
+   * Check a pending LLM request against every budget that applies to it
+   * Admins are alerted once per budget, level and window (and user, for user and role budgets) when a soft or hard limit is reached.
+   */
+  static async checkBudgets(subject: BudgetSubject, pending: BudgetUsage, env: any): Promise<BudgetCheckResult> {
+    const now = new Date();
+    const evaluations: BudgetEvaluation[] = [];
+
+    for (const budget of applicableBudgets(await this.getBudgets(), subject)) {
+      const usage = await this.getUsage(budget, subject, budgetWindowStart(budget.period, now));
+      evaluations.push(evaluateBudget(budget, usage, pending, now));
+    }
+
+    for (const evaluation of evaluations) {
+      if (evaluation.state !== 'ok') {
+        await this.recordAlert(evaluation, subject, now, env);
+      }
+    }
+
+    const blocking = evaluations.filter(evaluation => evaluation.state === 'exceeded' && !evaluation.overridden);
+    const warnings = evaluations
+      .filter(evaluation => evaluation.state === 'soft_limit' || evaluation.overridden)
+      .map(evaluation => evaluation.overridden
+        ? `Over the ${describeEvaluation(evaluation)}; allowed by an administrator override`
+        : `Approaching the ${describeEvaluation(evaluation)}`);
+
+    if (blocking.length > 0) {
+      return {
+        allowed: false,
+        evaluations,
+        warnings,
+        error: `AI usage budget reached (${describeEvaluation(blocking[0])}). Ask an administrator to raise the budget or grant an override.`
+      };
+    }
+
+    return { allowed: true, evaluations, warnings };
+  }
+
+  /**
+   * Lowest daily request limit from the user's own or role budgets; null when none is set
+   */
+  static async getDailyRequestLimit(user: Pick<User, 'id' | 'role'>): Promise<number | null> {
+    const limits = applicableBudgets(await this.getBudgets(), { userId: user.id, role: user.role, doctorId: null })
+      .filter(budget => budget.period === 'daily' && (budget.scope === 'user' || budget.scope === 'role') && budget.maxRequests !== null)
+      .map(budget => budget.maxRequests!);
+
+    return limits.length > 0 ? Math.min(...limits) : null;
+  }
+
+  /**
+   * List all budgets (admin only)
+   */
+  static async listBudgets(user: User): Promise<AiBudget[]> {
+    if (!hasRole(user, 'admin')) {
+      throw new Error('Only administrators can manage AI budgets');
+    }
+
+    return drizzleDb
+      .select()
+      .from(aiBudgets)
+      .orderBy(aiBudgets.scope, aiBudgets.scopeValue, aiBudgets.period);
+  }
+
+  /**
+   * Add a budget (admin only)
+   */
+  static async createBudget(input: BudgetInput, user: User): Promise<AiBudget> {
+    if (!hasRole(user, 'admin')) {
+      throw new Error('Only administrators can manage AI budgets');
+    }
+
+    const issues = validateBudget(input);
+    if (issues.length > 0) {
+      throw new Error(issues.join('; '));
+    }
+
+    const [created] = await drizzleDb
+      .insert(aiBudgets)
+      .values({
+        scope: input.scope,
+        scopeValue: input.scope === 'organization' ? null : input.scopeValue!.trim(),
+        period: input.period,
+        maxRequests: input.maxRequests ?? null,
+        maxTokens: input.maxTokens ?? null,
+        maxCost: input.maxCost ?? null,
+        softLimitPercent: input.softLimitPercent ?? DEFAULT_SOFT_LIMIT_PERCENT,
+        isEnabled: input.isEnabled ?? true,
+        createdBy: user.id,
+        updatedBy: user.id
+      })
+      .returning();
+
+    console.log('[BUDGETS] Budget created', { budgetId: created.id, scope: created.scope, period: created.period, createdBy: user.id });
+
+    return created;
+  }
+
+  /**
+   * Change a budget's limits or enable/disable it (admin only)
+   */
+  static async updateBudget(budgetId: string, updates: Partial<BudgetInput>, user: User): Promise<AiBudget> {
+    if (!hasRole(user, 'admin')) {
+      throw new Error('Only administrators can manage AI budgets');
+    }
+
+    const existing = await this.getBudgetRow(budgetId);
+
+    const merged: BudgetInput = {
+      scope: existing.scope as BudgetScope,
+      scopeValue: existing.scopeValue,
+      period: existing.period as BudgetPeriod,
+      maxRequests: existing.maxRequests,
+      maxTokens: existing.maxTokens,
+      maxCost: existing.maxCost,
+      softLimitPercent: existing.softLimitPercent,
+      isEnabled: existing.isEnabled,
+      ...Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined))
+    };
+
+    const issues = validateBudget(merged);
+    if (issues.length > 0) {
+      throw new Error(issues.join('; '));
+    }
+
+    const [updated] = await drizzleDb
+      .update(aiBudgets)
+      .set({
+        scope: merged.scope,
+        scopeValue: merged.scope === 'organization' ? null : merged.scopeValue!.trim(),
+        period: merged.period,
+        maxRequests: merged.maxRequests ?? null,
+        maxTokens: merged.maxTokens ?? null,
+        maxCost: merged.maxCost ?? null,
+        softLimitPercent: merged.softLimitPercent ?? DEFAULT_SOFT_LIMIT_PERCENT,
+        isEnabled: merged.isEnabled ?? true,
+        updatedBy: user.id,
+        updatedAt: new Date()
+      })
+      .where(eq(aiBudgets.id, budgetId))
+      .returning();
+
+    console.log('[BUDGETS] Budget updated', { budgetId, isEnabled: updated.isEnabled, updatedBy: user.id });
+
+    return updated;
+  }
+
+  /**
+   * Let requests exceed a budget until a given time, or end an override with `until: null` (admin only)
+   * Every override is recorded in the audit log with its reason.
+   */
+  static async overrideBudget(budgetId: string, override: { until: Date | null; reason: string }, user: User): Promise<AiBudget> {
+    if (!hasRole(user, 'admin')) {
+      throw new Error('Only administrators can override AI budgets');
+    }
+
+    const reason = override.reason?.trim();
+    if (!reason) {
+      throw new Error('A reason is required to override a budget');
+    }
+
+    const now = new Date();
+    if (override.until) {
+      if (isNaN(override.until.getTime()) || override.until <= now) {
+        throw new Error('Override must end in the future');
+      }
+      if (override.until.getTime() - now.getTime() > MAX_OVERRIDE_MS) {
+        throw new Error('Overrides can last at most 31 days; raise the budget instead');
+      }
+    }
+
+    const existing = await this.getBudgetRow(budgetId);
+
+    const [updated] = await drizzleDb
+      .update(aiBudgets)
+      .set({
+        overrideUntil: override.until,
+        overrideBy: user.id,
+        overrideReason: reason,
+        updatedBy: user.id,
+        updatedAt: now
+      })
+      .where(eq(aiBudgets.id, budgetId))
+      .returning();
+
+    await drizzleDb
+      .insert(auditLogs)
+      .values({
+        userId: user.id,
+        patientName: 'N/A',
+        requestText: reason,
+        generatedDraft: '',
+        finalMessage: override.until
+          ? `Override of the ${describeBudget(this.toDefinition(existing))} until ${override.until.toISOString()}`
+          : `Override of the ${describeBudget(this.toDefinition(existing))} ended`,
+        actionType: 'budget_override',
+        deliveryStatus: 'draft'
+      });
+
+    console.log('[BUDGETS] Budget override', { budgetId, until: override.until?.toISOString() ?? null, overrideBy: user.id });
+
+    return updated;
+  }
+
+  /**
+   * Most recent soft and hard limit alerts (admin only)
+   */
+  static async getRecentAlerts(user: User, limit: number = 50): Promise<BudgetAlertView[]> {
+    if (!hasRole(user, 'admin')) {
+      throw new Error('Only administrators can access budget alerts');
+    }
+
+    const rows = await drizzleDb
+      .select({
+        alert: aiBudgetAlerts,
+        budget: aiBudgets
+      })
+      .from(aiBudgetAlerts)
+      .innerJoin(aiBudgets, eq(aiBudgetAlerts.budgetId, aiBudgets.id))
+      .orderBy(desc(aiBudgetAlerts.createdAt))
+      .limit(limit);
+
+    return rows.map(({ alert, budget }) => ({
+      id: alert.id,
+      budgetId: alert.budgetId,
+      budget: describeBudget(this.toDefinition(budget)),
+      level: alert.level,
+      windowStart: alert.windowStart,
+      subjectUserId: alert.subjectUserId,
+      message: alert.message,
+      createdAt: alert.createdAt
+    }));
+  }
+
+  /**
+   * Requests, tokens and cost counted against a budget since the start of its window
+   * Tokens and cost include every billed call (simplification, translation, grounding); requests count generated drafts.
+   */
+  private static async getUsage(budget: BudgetDefinition, subject: BudgetSubject, since: Date): Promise<BudgetUsage> {
+    const conditions = [gte(auditLogs.createdAt, since)];
+
+    switch (budget.scope) {
+      case 'user':
+      case 'role':
+        conditions.push(eq(auditLogs.userId, subject.userId));
+        break;
+      case 'doctor_panel':
+        conditions.push(inArray(
+          auditLogs.patientId,
+          drizzleDb.select({ id: patientBriefs.id }).from(patientBriefs).where(eq(patientBriefs.doctorId, budget.scopeValue!))
+        ));
+        break;
+      case 'organization':
+        break;
+    }
+
+    // Older rows have no recorded cost and are priced from their tokens, as in UsageTrackingService
+    const fallbackRate = UsageTrackingService.calculateCost('gpt-4o-mini', 1);
+    const [row] = await drizzleDb
+      .select({
+        requests: sql<number>`COALESCE(SUM(CASE WHEN ${auditLogs.actionType} = 'draft_generated' THEN 1 ELSE 0 END), 0)`,
+        tokens: sql<number>`COALESCE(SUM(${auditLogs.tokensConsumed}), 0)`,
+        cost: sql<number>`COALESCE(SUM(COALESCE(${auditLogs.aiCost}, ${auditLogs.tokensConsumed} * ${fallbackRate})), 0)`
+      })
+      .from(auditLogs)
+      .where(and(...conditions));
+
+    return {
+      requests: Number(row?.requests || 0),
+      tokens: Number(row?.tokens || 0),
+      cost: Number(row?.cost || 0)
+    };
+  }
+
+  /**
+   * Store the alert and notify admins if it is the first for this budget, level and window (and user, for user and role budgets)
+   * Never throws; a failed notification must not block drafting.
+   */
+  private static async recordAlert(evaluation: BudgetEvaluation, subject: BudgetSubject, now: Date, env: any): Promise<void> {
+    const level = evaluation.state;
+    const message = `${level === 'exceeded' ? 'Limit reached' : 'Soft limit reached'} on the ${describeEvaluation(evaluation)}${evaluation.overridden ? ' (override active)' : ''}`;
+
+    try {
+      // Bundled fallback budgets have no rows to attach alerts to
+      const [stored] = await drizzleDb
+        .select({ id: aiBudgets.id })
+        .from(aiBudgets)
+        .where(eq(aiBudgets.id, evaluation.budget.id))
+        .limit(1);
+      if (!stored) return;
+
+      const [alert] = await drizzleDb
+        .insert(aiBudgetAlerts)
+        .values({
+          budgetId: evaluation.budget.id,
+          level,
+          windowStart: budgetWindowStart(evaluation.budget.period, now),
+          subjectUserId: budgetSubjectUserId(evaluation.budget, subject),
+          message
+        })
+        .onConflictDoNothing()
+        .returning({ id: aiBudgetAlerts.id });
+
+      if (!alert) return;
+
+      console.warn('[BUDGETS] Alert', { budgetId: evaluation.budget.id, level, userId: subject.userId });
+
+      if (env.SENTRY_DSN) {
+        Sentry.captureMessage(`AI budget ${level}: ${describeEvaluation(evaluation)}`, {
+          level: level === 'exceeded' ? 'error' : 'warning',
+          tags: { budget_scope: evaluation.budget.scope, budget_period: evaluation.budget.period },
+          extra: { budgetId: evaluation.budget.id, usage: evaluation.usage, userId: subject.userId }
+        });
+      }
+
+      const admins = await drizzleDb
+        .select({ email: users.email })
+        .from(users)
+        .where(eq(users.role, 'admin'));
+
+      initializeDeliveryProviders(env);
+      for (const admin of admins) {
+        await deliveryManager.send({
+          to: admin.email,
+          subject: `AI budget alert: ${describeBudget(evaluation.budget)}`,
+          content: `${message}.\n\nReview budgets and overrides at /admin/budgets.`,
+          messageId: alert.id,
+          priority: level === 'exceeded' ? 'high' : 'normal',
+          deliveryMethod: 'email',
+          metadata: { budgetId: evaluation.budget.id, alertId: alert.id, level }
+        });
+      }
+    } catch (error) {
+      console.warn('[BUDGETS] Failed to record or send budget alert', { budgetId: evaluation.budget.id, error });
+    }
+  }
+
+  private static async getBudgetRow(budgetId: string): Promise<AiBudget> {
+    const [existing] = await drizzleDb
+      .select()
+      .from(aiBudgets)
+      .where(eq(aiBudgets.id, budgetId))
+      .limit(1);
+
+    if (!existing) {
+      throw new Error('Budget not found');
+    }
+
+    return existing;
+  }
+
+  private static toDefinition(row: AiBudget): BudgetDefinition {
+    return {
+      id: row.id,
+      scope: row.scope as BudgetScope,
+      scopeValue: row.scopeValue,
+      period: row.period as BudgetPeriod,
+      maxRequests: row.maxRequests,
+      maxTokens: row.maxTokens,
+      maxCost: row.maxCost,
+      softLimitPercent: row.softLimitPercent,
+      isEnabled: row.isEnabled,
+      overrideUntil: row.overrideUntil
+    };
+  }
+}
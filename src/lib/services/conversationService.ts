@@ -0,0 +1,178 @@
+import { drizzleDb, conversations, conversationMessages, auditLogs, patientBriefs, users } from '@/db';
+import { and, desc, eq } from 'drizzle-orm';
+import type { User, Conversation, ConversationMessage } from '@/db';
+import { canAccessDraftWorkflow } from '@/lib/server-functions';
+import type { ConversationTurn } from '@/lib/conversation';
+
+export interface ThreadMessage {
+  id: string;
+  direction: 'inbound' | 'outbound';
+  body: string;
+  createdAt: Date;
+  auditLogId: string | null; // Outbound messages link to their AuditLog entry
+  deliveryStatus: string | null;
+  recordedBy: string | null; // Username of the staff member who logged or sent it
+}
+
+export class ConversationService {
+  /**
+   * The patient's thread, created on first use
+   */
+  static async getOrCreateConversation(patientId: string): Promise<Conversation> {
+    await drizzleDb
+      .insert(conversations)
+      .values({ patientId })
+      .onConflictDoNothing({ target: conversations.patientId });
+
+    const [conversation] = await drizzleDb
+      .select()
+      .from(conversations)
+      .where(eq(conversations.patientId, patientId))
+      .limit(1);
+
+    return conversation;
+  }
+
+  /**
+   * Log a message from the patient
+   * Skipped when the newest message is the same inbound text, so regenerating a draft does not repeat it
+   */
+  static async recordInbound(patientId: string, body: string, recordedBy: string): Promise<ConversationMessage | null> {
+    if (!body.trim()) return null;
+
+    const conversation = await this.getOrCreateConversation(patientId);
+    const [latest] = await drizzleDb
+      .select()
+      .from(conversationMessages)
+      .where(eq(conversationMessages.conversationId, conversation.id))
+      .orderBy(desc(conversationMessages.createdAt))
+      .limit(1);
+
+    if (latest?.direction === 'inbound' && latest.body.trim() === body.trim()) {
+      return latest;
+    }
+
+    const [message] = await drizzleDb
+      .insert(conversationMessages)
+      .values({ conversationId: conversation.id, direction: 'inbound', body, recordedBy })
+      .returning();
+
+    await this.touch(conversation.id);
+    return message;
+  }
+
+  /**
+   * Add a sent message to the thread, after the inquiry it answers; called once delivery succeeds
+   * Idempotent per audit entry; never throws, so a failure here cannot fail a delivery
+   */
+  static async recordOutbound(auditLogId: string, sentBy: string | null): Promise<ConversationMessage | null> {
+    try {
+      const [log] = await drizzleDb
+        .select()
+        .from(auditLogs)
+        .where(eq(auditLogs.id, auditLogId))
+        .limit(1);
+      if (!log?.patientId || !log.finalMessage.trim()) return null;
+
+      await this.recordInbound(log.patientId, log.requestText, log.userId);
+      const conversation = await this.getOrCreateConversation(log.patientId);
+
+      const [message] = await drizzleDb
+        .insert(conversationMessages)
+        .values({
+          conversationId: conversation.id,
+          direction: 'outbound',
+          body: log.finalMessage,
+          auditLogId: log.id,
+          recordedBy: sentBy
+        })
+        .onConflictDoNothing({ target: conversationMessages.auditLogId })
+        .returning();
+
+      await this.touch(conversation.id);
+      return message || null;
+    } catch (error) {
+      console.error('[CONVERSATION] Failed to record outbound message:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Take a recalled message out of the patient's thread; it is recorded again if it is sent later
+   */
+  static async withdrawOutbound(auditLogId: string): Promise<void> {
+    try {
+      await drizzleDb
+        .delete(conversationMessages)
+        .where(and(eq(conversationMessages.auditLogId, auditLogId), eq(conversationMessages.direction, 'outbound')));
+    } catch (error) {
+      console.error('[CONVERSATION] Failed to withdraw outbound message:', error);
+    }
+  }
+
+  /**
+   * The most recent turns, oldest first
+   */
+  static async getRecentTurns(patientId: string, limit: number): Promise<ConversationTurn[]> {
+    const rows = await drizzleDb
+      .select({
+        direction: conversationMessages.direction,
+        body: conversationMessages.body,
+        createdAt: conversationMessages.createdAt
+      })
+      .from(conversationMessages)
+      .innerJoin(conversations, eq(conversationMessages.conversationId, conversations.id))
+      .where(eq(conversations.patientId, patientId))
+      .orderBy(desc(conversationMessages.createdAt))
+      .limit(limit);
+
+    return rows.reverse().map(row => ({ ...row, direction: row.direction as ConversationTurn['direction'] }));
+  }
+
+  /**
+   * The full thread for the draft workflow page, oldest first
+   */
+  static async getThread(user: User, patientId: string): Promise<ThreadMessage[]> {
+    if (!canAccessDraftWorkflow(user)) {
+      throw new Error('Insufficient permissions to view conversations');
+    }
+
+    // Doctors only see threads for their own patients, as with patient briefs
+    if (user.role === 'doctor') {
+      const [brief] = await drizzleDb
+        .select({ doctorId: patientBriefs.doctorId })
+        .from(patientBriefs)
+        .where(eq(patientBriefs.id, patientId))
+        .limit(1);
+      if (brief?.doctorId !== user.id) {
+        throw new Error('Insufficient permissions to view conversations');
+      }
+    }
+
+    const rows = await drizzleDb
+      .select({
+        id: conversationMessages.id,
+        direction: conversationMessages.direction,
+        body: conversationMessages.body,
+        createdAt: conversationMessages.createdAt,
+        auditLogId: conversationMessages.auditLogId,
+        deliveryStatus: auditLogs.deliveryStatus,
+        recordedBy: users.username
+      })
+      .from(conversationMessages)
+      .innerJoin(conversations, eq(conversationMessages.conversationId, conversations.id))
+      .leftJoin(auditLogs, eq(conversationMessages.auditLogId, auditLogs.id))
+      .leftJoin(users, eq(conversationMessages.recordedBy, users.id))
+      .where(eq(conversations.patientId, patientId))
+      .orderBy(conversationMessages.createdAt);
+
+    return rows.map(row => ({ ...row, direction: row.direction as ThreadMessage['direction'] }));
+  }
+
+  private static async touch(conversationId: string): Promise<void> {
+    await drizzleDb
+      .update(conversations)
+      .set({ updatedAt: new Date() })
+      .where(eq(conversations.id, conversationId));
+  }
+}
@@ -0,0 +1,189 @@
+import { drizzleDb, auditLogs, draftCache } from '@/db';
+import { and, desc, eq, gt, gte, isNotNull, lt, sql } from 'drizzle-orm';
+import type { DraftCacheEntry } from '@/db';
+import type { DraftResponse } from '@/actions/generateDraft';
+import { DRAFT_CACHE_TTL_SECONDS, isCacheableResponse } from '@/lib/draft-cache';
+
+export interface DraftCacheRequest {
+  cacheKey: string;
+  userId: string;
+  idempotencyKey?: string;
+  regenerate?: boolean; // Staff asked for a new draft: skip cached and in-flight results, but still store this one
+}
+
+export interface DraftCacheStats {
+  cacheHits: number; // Requests answered from the cache; not billed and not counted as requests
+  tokensSaved: number;
+}
+
+// Generations running in this isolate; identical concurrent requests wait for the first one
+const inFlight = new Map<string, { promise: Promise<DraftResponse>; sharedWith: number }>();
+
+export class DraftCacheService {
+  /**
+   * Return the cached or in-flight response for an identical request, or run the generation and cache it
+   * Replayed responses carry cached: true, no usage and no cost.
+   */
+  static async getOrGenerate(
+    request: DraftCacheRequest,
+    generate: () => Promise<DraftResponse>,
+    onDelta?: (content: string) => void
+  ): Promise<DraftResponse> {
+    if (request.idempotencyKey) {
+      const existing = await this.findByIdempotencyKey(request.userId, request.idempotencyKey);
+      if (existing) {
+        if (existing.cacheKey !== request.cacheKey) {
+          return { success: false, error: 'Idempotency key was already used for a different draft request' };
+        }
+        await this.recordHits(existing.id, 1);
+        return this.replay(JSON.parse(existing.response!) as DraftResponse, onDelta);
+      }
+    }
+
+    if (!request.regenerate) {
+      const cached = await this.findByCacheKey(request.cacheKey);
+      if (cached) {
+        await this.recordHits(cached.id, 1);
+        console.log('[DRAFT_CACHE] Replayed cached draft', { cacheKey: request.cacheKey.slice(0, 12), auditLogId: cached.auditLogId });
+        return this.replay(JSON.parse(cached.response!) as DraftResponse, onDelta);
+      }
+
+      const pending = inFlight.get(request.cacheKey);
+      if (pending) {
+        pending.sharedWith++;
+        const shared = await pending.promise;
+        console.log('[DRAFT_CACHE] Shared in-flight draft', { cacheKey: request.cacheKey.slice(0, 12) });
+        return isCacheableResponse(shared) ? this.replay(shared, onDelta) : shared;
+      }
+    }
+
+    const entry = { promise: generate(), sharedWith: 0 };
+    inFlight.set(request.cacheKey, entry);
+
+    try {
+      const response = await entry.promise;
+      if (isCacheableResponse(response)) {
+        await this.store(request, response, entry.sharedWith);
+      }
+      return response;
+    } finally {
+      if (inFlight.get(request.cacheKey) === entry) {
+        inFlight.delete(request.cacheKey);
+      }
+    }
+  }
+
+  /**
+   * Clear the responses of expired entries, which hold patient details; the rows stay for the usage dashboards
+   * Returns the number of entries cleared.
+   */
+  static async purgeExpired(now: Date = new Date()): Promise<number> {
+    const purged = await drizzleDb
+      .update(draftCache)
+      .set({ response: null })
+      .where(and(lt(draftCache.expiresAt, now), isNotNull(draftCache.response)))
+      .returning({ id: draftCache.id });
+
+    return purged.length;
+  }
+
+  /**
+   * Cache hits and the tokens they saved, for the usage dashboards
+   */
+  static async getCacheStats(filter: { userId?: string; since?: Date } = {}): Promise<DraftCacheStats> {
+    const conditions = [];
+    if (filter.userId) conditions.push(eq(draftCache.userId, filter.userId));
+    if (filter.since) conditions.push(gte(draftCache.createdAt, filter.since));
+
+    const [row] = await drizzleDb
+      .select({
+        cacheHits: sql<number>`COALESCE(SUM(${draftCache.hitCount}), 0)`,
+        tokensSaved: sql<number>`COALESCE(SUM(${draftCache.hitCount} * ${draftCache.tokensConsumed}), 0)`
+      })
+      .from(draftCache)
+      .where(conditions.length > 0 ? and(...conditions) : undefined);
+
+    return { cacheHits: Number(row?.cacheHits || 0), tokensSaved: Number(row?.tokensSaved || 0) };
+  }
+
+  private static replay(response: DraftResponse, onDelta?: (content: string) => void): DraftResponse {
+    // Streaming clients get the whole draft as a single chunk
+    if (onDelta && response.draft) {
+      onDelta(response.draft);
+    }
+
+    return { ...response, cached: true, usage: undefined, cost: 0, budgetWarnings: [] };
+  }
+
+  private static async store(request: DraftCacheRequest, response: DraftResponse, hitCount: number): Promise<void> {
+    const now = new Date();
+
+    try {
+      // Expired entries are only kept for the usage dashboards, so their idempotency keys can be reused
+      if (request.idempotencyKey) {
+        await drizzleDb
+          .update(draftCache)
+          .set({ idempotencyKey: null })
+          .where(and(
+            eq(draftCache.userId, request.userId),
+            eq(draftCache.idempotencyKey, request.idempotencyKey),
+            lt(draftCache.expiresAt, now)
+          ));
+      }
+
+      await drizzleDb.insert(draftCache).values({
+        cacheKey: request.cacheKey,
+        idempotencyKey: request.idempotencyKey ?? null,
+        userId: request.userId,
+        auditLogId: response.auditLogId ?? null,
+        response: JSON.stringify(response),
+        tokensConsumed: response.usage?.totalTokens ?? 0,
+        hitCount,
+        expiresAt: new Date(now.getTime() + DRAFT_CACHE_TTL_SECONDS * 1000)
+      });
+    } catch (error) {
+      // The draft was generated and billed; failing to cache it must not fail the request
+      console.warn('[DRAFT_CACHE] Failed to cache draft:', error);
+    }
+  }
+
+  private static async recordHits(id: string, hits: number): Promise<void> {
+    await drizzleDb
+      .update(draftCache)
+      .set({ hitCount: sql`${draftCache.hitCount} + ${hits}` })
+      .where(eq(draftCache.id, id));
+  }
+
+  private static async findByCacheKey(cacheKey: string): Promise<DraftCacheEntry | undefined> {
+    // A draft already submitted, approved or sent is not handed out again as a new draft
+    const [row] = await drizzleDb
+      .select({ entry: draftCache })
+      .from(draftCache)
+      .innerJoin(auditLogs, eq(draftCache.auditLogId, auditLogs.id))
+      .where(and(
+        eq(draftCache.cacheKey, cacheKey),
+        gt(draftCache.expiresAt, new Date()),
+        isNotNull(draftCache.response),
+        eq(auditLogs.workflowState, 'draft')
+      ))
+      .orderBy(desc(draftCache.createdAt))
+      .limit(1);
+
+    return row?.entry;
+  }
+
+  private static async findByIdempotencyKey(userId: string, idempotencyKey: string): Promise<DraftCacheEntry | undefined> {
+    const [entry] = await drizzleDb
+      .select()
+      .from(draftCache)
+      .where(and(
+        eq(draftCache.userId, userId),
+        eq(draftCache.idempotencyKey, idempotencyKey),
+        gt(draftCache.expiresAt, new Date()),
+        isNotNull(draftCache.response)
+      ))
+      .limit(1);
+
+    return entry;
+  }
+}
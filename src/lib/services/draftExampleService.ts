@@ -0,0 +1,191 @@
+import { drizzleDb, auditLogs, doctorSettings, draftExamples, patientBriefs } from '@/db';
+import { and, desc, eq, isNull, sql } from 'drizzle-orm';
+import type { User, DraftExample } from '@/db';
+import { hasRole } from '@/lib/auth';
+import { redactPhi } from '@/lib/phi-deidentification';
+import { DEFAULT_FEW_SHOT_LIMIT, selectFewShotExamples, type ScoredFewShotExample } from '@/lib/few-shot';
+
+// Most recent examples scored per draft; older ones age out of retrieval
+const MAX_RETRIEVAL_POOL = 200;
+
+export class DraftExampleService {
+  /**
+   * Add an approved message to its doctor's example bank once it is sent, if the doctor has opted in
+   * Called on delivery, so messages recalled or cancelled before sending are never captured.
+   * Never throws, so a failure here cannot fail a delivery
+   */
+  static async captureApprovedMessage(auditLogId: string, approvedBy: string | null): Promise<DraftExample | null> {
+    try {
+      const [log] = await drizzleDb
+        .select({
+          patientId: auditLogs.patientId,
+          patientName: auditLogs.patientName,
+          requestText: auditLogs.requestText,
+          finalMessage: auditLogs.finalMessage
+        })
+        .from(auditLogs)
+        .where(eq(auditLogs.id, auditLogId))
+        .limit(1);
+
+      if (!log?.patientId || !log.requestText.trim() || !log.finalMessage.trim()) {
+        return null;
+      }
+
+      const [owner] = await drizzleDb
+        .select({
+          doctorId: patientBriefs.doctorId,
+          useApprovedExamples: doctorSettings.useApprovedExamples
+        })
+        .from(patientBriefs)
+        .leftJoin(doctorSettings, eq(patientBriefs.doctorId, doctorSettings.doctorId))
+        .where(eq(patientBriefs.id, log.patientId))
+        .limit(1);
+
+      if (!owner?.useApprovedExamples) {
+        return null;
+      }
+
+      // Stored de-identified: examples are shown to the model while drafting for other patients
+      const [example] = await drizzleDb
+        .insert(draftExamples)
+        .values({
+          doctorId: owner.doctorId,
+          auditLogId,
+          inquiryText: redactPhi(log.requestText, [log.patientName]),
+          responseText: redactPhi(log.finalMessage, [log.patientName]),
+          approvedBy
+        })
+        .onConflictDoNothing({ target: draftExamples.auditLogId })
+        .returning();
+
+      if (example) {
+        console.log('[DRAFT_EXAMPLES] Captured approved message', { exampleId: example.id, doctorId: owner.doctorId });
+      }
+      return example || null;
+    } catch (error) {
+      console.error('[DRAFT_EXAMPLES] Failed to capture approved message:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Stop reusing a message that was recalled after approval
+   * Never throws, like captureApprovedMessage
+   */
+  static async withdrawRecalledMessage(auditLogId: string, recalledBy: string): Promise<void> {
+    try {
+      await drizzleDb
+        .update(draftExamples)
+        .set({ removedAt: new Date(), removedBy: recalledBy })
+        .where(and(eq(draftExamples.auditLogId, auditLogId), isNull(draftExamples.removedAt)));
+    } catch (error) {
+      console.error('[DRAFT_EXAMPLES] Failed to withdraw recalled message:', error);
+    }
+  }
+
+  /**
+   * The doctor's approved examples most similar to an inquiry
+   */
+  static async findSimilarExamples(
+    doctorId: string,
+    inquiry: string,
+    limit: number = DEFAULT_FEW_SHOT_LIMIT
+  ): Promise<ScoredFewShotExample<DraftExample>[]> {
+    const pool = await drizzleDb
+      .select()
+      .from(draftExamples)
+      .where(and(eq(draftExamples.doctorId, doctorId), isNull(draftExamples.removedAt)))
+      .orderBy(desc(draftExamples.createdAt))
+      .limit(MAX_RETRIEVAL_POOL);
+
+    return selectFewShotExamples(inquiry, pool, limit);
+  }
+
+  /**
+   * Changes whenever an example is added to or removed from the doctor's bank; part of the draft cache key
+   * The opt-in setting is covered by the doctor settings version.
+   */
+  static async getBankVersion(doctorId: string): Promise<string> {
+    const [row] = await drizzleDb
+      .select({
+        count: sql<number>`COUNT(*)`,
+        createdAt: sql<number | null>`MAX(${draftExamples.createdAt})`,
+        removedAt: sql<number | null>`MAX(${draftExamples.removedAt})`
+      })
+      .from(draftExamples)
+      .where(eq(draftExamples.doctorId, doctorId));
+
+    return `${row?.count ?? 0}:${row?.createdAt ?? 0}:${row?.removedAt ?? 0}`;
+  }
+
+  /**
+   * A doctor's example bank and opt-in setting
+   */
+  static async listExamples(user: User): Promise<{ useApprovedExamples: boolean; examples: DraftExample[] }> {
+    if (user.role !== 'doctor') {
+      throw new Error('Only doctors can manage their example bank');
+    }
+
+    const [settings] = await drizzleDb
+      .select({ useApprovedExamples: doctorSettings.useApprovedExamples })
+      .from(doctorSettings)
+      .where(eq(doctorSettings.doctorId, user.id))
+      .limit(1);
+
+    const examples = await drizzleDb
+      .select()
+      .from(draftExamples)
+      .where(and(eq(draftExamples.doctorId, user.id), isNull(draftExamples.removedAt)))
+      .orderBy(desc(draftExamples.createdAt));
+
+    return { useApprovedExamples: settings?.useApprovedExamples ?? false, examples };
+  }
+
+  /**
+   * Opt in or out; opting out stops both capture and reuse but keeps existing examples
+   */
+  static async setOptIn(user: User, useApprovedExamples: boolean): Promise<boolean> {
+    if (user.role !== 'doctor') {
+      throw new Error('Only doctors can manage their example bank');
+    }
+
+    const updated = await drizzleDb
+      .update(doctorSettings)
+      .set({ useApprovedExamples, updatedAt: new Date() })
+      .where(eq(doctorSettings.doctorId, user.id))
+      .returning({ id: doctorSettings.id });
+
+    if (updated.length === 0) {
+      throw new Error('Save your communication settings before changing the example bank');
+    }
+
+    return useApprovedExamples;
+  }
+
+  /**
+   * Remove an example so it is no longer reused (the doctor who owns it, or an admin)
+   */
+  static async removeExample(user: User, exampleId: string): Promise<DraftExample> {
+    const [example] = await drizzleDb
+      .select()
+      .from(draftExamples)
+      .where(eq(draftExamples.id, exampleId))
+      .limit(1);
+
+    if (!example || example.removedAt) {
+      throw new Error('Example not found');
+    }
+
+    if (example.doctorId !== user.id && !hasRole(user, 'admin')) {
+      throw new Error('You can only remove your own examples');
+    }
+
+    const [removed] = await drizzleDb
+      .update(draftExamples)
+      .set({ removedAt: new Date(), removedBy: user.id })
+      .where(eq(draftExamples.id, exampleId))
+      .returning();
+
+    return removed;
+  }
+}
@@ -0,0 +1,82 @@
+import { createLLMProviderManager } from '@/providers/llm';
+import type { LLMCompletionResult } from '@/providers/llm';
+import { PhiSession } from '@/lib/phi-deidentification';
+import {
+  GROUNDING_FIELDS,
+  buildGroundingInput,
+  buildGroundingPrompt,
+  isGroundedSentence,
+  locateSnippet,
+  parseGroundingResponse,
+  splitSentences
+} from '@/lib/grounding';
+import type { DraftGrounding, GroundedSentence, GroundingSources } from '@/lib/grounding';
+
+export interface GroundingResult {
+  grounding: DraftGrounding;
+  completion: LLMCompletionResult; // For billing by the caller
+}
+
+export class GroundingService {
+  /**
+   * Map each sentence of a draft to the brief fields that support it
+   * Draft and brief are de-identified like draft prompts. Returns null when the provider fails or its reply
+   * cannot be used, so a missing grounding never blocks drafting; reviewers then see the draft as unchecked.
+   */
+  static async groundDraft(
+    draft: string,
+    sources: GroundingSources,
+    env: any,
+    knownNames: string[] = []
+  ): Promise<GroundingResult | null> {
+    const sentences = splitSentences(draft);
+    if (sentences.length === 0) {
+      return null;
+    }
+
+    try {
+      const phi = new PhiSession(knownNames);
+      const maskedSentences = sentences.map(sentence => phi.mask(sentence));
+      const maskedSources = Object.fromEntries(
+        GROUNDING_FIELDS.map(field => [field, phi.mask(sources[field])])
+      ) as GroundingSources;
+
+      const completion = await createLLMProviderManager(env).complete({
+        model: env.LLM_MODEL || 'gpt-4o-mini',
+        messages: [
+          { role: 'system', content: buildGroundingPrompt() },
+          { role: 'user', content: buildGroundingInput(maskedSentences, maskedSources) }
+        ],
+        maxTokens: 1500,
+        temperature: 0
+      });
+
+      const masked = parseGroundingResponse(completion.content, maskedSentences, maskedSources);
+      if (!masked) {
+        console.warn('[GROUNDING] Provider reply was not usable grounding JSON');
+        return null;
+      }
+
+      // Citations were checked against the masked brief; map them back to the original text
+      const grounded: GroundedSentence[] = masked.sentences.map((sentence, index) => ({
+        text: sentences[index],
+        nonClinical: sentence.nonClinical,
+        citations: sentence.citations.flatMap(citation => {
+          const range = locateSnippet(sources[citation.field], phi.reidentify(citation.snippet));
+          return range ? [{ field: citation.field, snippet: sources[citation.field].slice(range.start, range.end) }] : [];
+        })
+      }));
+
+      return {
+        grounding: {
+          sentences: grounded,
+          ungroundedCount: grounded.filter(sentence => !isGroundedSentence(sentence)).length
+        },
+        completion
+      };
+    } catch (error) {
+      console.warn('[GROUNDING] Grounding failed:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,183 @@
+import { drizzleDb, guardrailRules } from '@/db';
+import { eq, sql } from 'drizzle-orm';
+import type { User, GuardrailRule } from '@/db';
+import { hasRole } from '@/lib/auth';
+import {
+  DEFAULT_GUARDRAIL_RULES,
+  evaluateGuardrails,
+  summarizeGuardrails,
+  validateGuardrailRule,
+  type GuardrailCategory,
+  type GuardrailMatch,
+  type GuardrailRuleDefinition,
+  type GuardrailSeverity,
+  type GuardrailSummary,
+  type GuardrailTarget
+} from '@/lib/guardrails';
+
+export interface GuardrailRuleInput {
+  name: string;
+  category: GuardrailCategory;
+  severity: GuardrailSeverity;
+  pattern: string;
+  flags?: string | null;
+  appliesTo: GuardrailTarget;
+  explanation: string;
+  isEnabled?: boolean;
+}
+
+export interface GuardrailCheckResult extends GuardrailSummary {
+  matches: GuardrailMatch[];
+}
+
+export class GuardrailService {
+  /**
+   * Enabled rules, falling back to the bundled set if the seeded rules are missing
+   */
+  static async getActiveRules(): Promise<GuardrailRuleDefinition[]> {
+    const rows = await drizzleDb
+      .select()
+      .from(guardrailRules);
+
+    if (rows.length === 0) {
+      console.warn('[GUARDRAILS] No rules found, using bundled rules');
+      return DEFAULT_GUARDRAIL_RULES;
+    }
+
+    return rows.filter(row => row.isEnabled).map(row => this.toDefinition(row));
+  }
+
+  /**
+   * Changes whenever a rule is added, edited, enabled or disabled; part of the draft cache key
+   */
+  static async getRulesVersion(): Promise<string> {
+    const [row] = await drizzleDb
+      .select({
+        count: sql<number>`COUNT(*)`,
+        updatedAt: sql<number | null>`MAX(${guardrailRules.updatedAt})`
+      })
+      .from(guardrailRules);
+
+    return `${row?.count ?? 0}:${row?.updatedAt ?? 0}`;
+  }
+
+  /**
+   * Run the active rules against an inquiry and/or draft
+   */
+  static async check(texts: { inquiry?: string | null; draft?: string | null }): Promise<GuardrailCheckResult> {
+    const matches = evaluateGuardrails(texts, await this.getActiveRules());
+    return { matches, ...summarizeGuardrails(matches) };
+  }
+
+  /**
+   * List all rules (admin only)
+   */
+  static async listRules(user: User): Promise<GuardrailRule[]> {
+    if (!hasRole(user, 'admin')) {
+      throw new Error('Only administrators can manage guardrail rules');
+    }
+
+    return drizzleDb
+      .select()
+      .from(guardrailRules)
+      .orderBy(guardrailRules.category, guardrailRules.name);
+  }
+
+  /**
+   * Add a rule (admin only)
+   */
+  static async createRule(input: GuardrailRuleInput, user: User): Promise<GuardrailRule> {
+    if (!hasRole(user, 'admin')) {
+      throw new Error('Only administrators can manage guardrail rules');
+    }
+
+    const issues = validateGuardrailRule(input);
+    if (issues.length > 0) {
+      throw new Error(issues.join('; '));
+    }
+
+    const [created] = await drizzleDb
+      .insert(guardrailRules)
+      .values({
+        name: input.name.trim(),
+        category: input.category,
+        severity: input.severity,
+        pattern: input.pattern,
+        flags: input.flags ?? 'i',
+        appliesTo: input.appliesTo,
+        explanation: input.explanation.trim(),
+        isEnabled: input.isEnabled ?? true,
+        createdBy: user.id,
+        updatedBy: user.id
+      })
+      .returning();
+
+    console.log('[GUARDRAILS] Rule created', { ruleId: created.id, severity: created.severity, createdBy: user.id });
+
+    return created;
+  }
+
+  /**
+   * Change a rule's fields or enable/disable it (admin only)
+   */
+  static async updateRule(ruleId: string, updates: Partial<GuardrailRuleInput>, user: User): Promise<GuardrailRule> {
+    if (!hasRole(user, 'admin')) {
+      throw new Error('Only administrators can manage guardrail rules');
+    }
+
+    const [existing] = await drizzleDb
+      .select()
+      .from(guardrailRules)
+      .where(eq(guardrailRules.id, ruleId))
+      .limit(1);
+
+    if (!existing) {
+      throw new Error('Guardrail rule not found');
+    }
+
+    const merged: GuardrailRuleInput = {
+      ...this.toDefinition(existing),
+      isEnabled: existing.isEnabled,
+      ...Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined))
+    };
+
+    const issues = validateGuardrailRule(merged);
+    if (issues.length > 0) {
+      throw new Error(issues.join('; '));
+    }
+
+    const [updated] = await drizzleDb
+      .update(guardrailRules)
+      .set({
+        name: merged.name.trim(),
+        category: merged.category,
+        severity: merged.severity,
+        pattern: merged.pattern,
+        flags: merged.flags ?? 'i',
+        appliesTo: merged.appliesTo,
+        explanation: merged.explanation.trim(),
+        isEnabled: merged.isEnabled ?? true,
+        updatedBy: user.id,
+        updatedAt: new Date()
+      })
+      .where(eq(guardrailRules.id, ruleId))
+      .returning();
+
+    console.log('[GUARDRAILS] Rule updated', { ruleId, severity: updated.severity, isEnabled: updated.isEnabled, updatedBy: user.id });
+
+    return updated;
+  }
+
+  private static toDefinition(row: GuardrailRule): GuardrailRuleDefinition {
+    return {
+      id: row.id,
+      name: row.name,
+      category: row.category as GuardrailCategory,
+      severity: row.severity as GuardrailSeverity,
+      pattern: row.pattern,
+      flags: row.flags,
+      appliesTo: row.appliesTo as GuardrailTarget,
+      explanation: row.explanation
+    };
+  }
+}
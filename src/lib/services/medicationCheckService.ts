@@ -0,0 +1,26 @@
+import { drizzleDb, patientBriefs } from '@/db';
+import { eq } from 'drizzle-orm';
+import { checkMedications, type MedicationIssue } from '@/lib/medication-check';
+
+export class MedicationCheckService {
+  /**
+   * Check a draft against the patient's recorded allergies and medications
+   * Returns no issues when the patient is unknown; there is nothing to compare against.
+   */
+  static async checkForPatient(draft: string, patientId?: string | null): Promise<MedicationIssue[]> {
+    if (!patientId || !draft.trim()) {
+      return [];
+    }
+
+    const [brief] = await drizzleDb
+      .select({
+        allergies: patientBriefs.allergies,
+        currentMedications: patientBriefs.currentMedications
+      })
+      .from(patientBriefs)
+      .where(eq(patientBriefs.id, patientId))
+      .limit(1);
+
+    return brief ? checkMedications(draft, brief) : [];
+  }
+}
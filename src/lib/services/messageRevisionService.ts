@@ -0,0 +1,160 @@
+import { drizzleDb, auditLogs, messageRevisions, messageStateEvents, users } from '@/db';
+import { and, asc, desc, eq, isNull, or, sql } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/sqlite-core';
+import type { MessageRevision } from '@/db';
+import type { ReviewComment, RevisionOutcome } from '@/lib/review-comments';
+
+export interface MessageRevisionView extends Omit<MessageRevision, 'comments'> {
+  comments: ReviewComment[];
+  submitterName: string | null;
+  reviewerName: string | null;
+}
+
+export interface ReturnedMessage {
+  id: string;
+  patientName: string;
+  requestText: string;
+  finalMessage: string;
+  draftLanguage: string | null;
+  reviewNotes: string | null;
+  reviewedAt: Date | null;
+  reviewerName: string | null;
+  revision: number;
+  comments: ReviewComment[];
+  recalled: boolean; // Pulled back before it was sent rather than returned by a reviewer
+  recalledBy: string | null; // Username of whoever recalled it
+  recallReason: string | null;
+}
+
+function parseComments(value: string | null): ReviewComment[] {
+  if (!value) return [];
+  try {
+    return JSON.parse(value) as ReviewComment[];
+  } catch {
+    return [];
+  }
+}
+
+export class MessageRevisionService {
+  /**
+   * Record a submission as the message's next revision
+   */
+  static async recordSubmission(auditLogId: string, message: string, submittedBy: string): Promise<MessageRevision> {
+    const [created] = await drizzleDb
+      .insert(messageRevisions)
+      .values({ auditLogId, revision: (await this.currentRevision(auditLogId)) + 1, message, submittedBy })
+      .returning();
+
+    return created;
+  }
+
+  /**
+   * The latest revision number; 0 for a message that was never submitted for review
+   */
+  static async currentRevision(auditLogId: string): Promise<number> {
+    const [latest] = await drizzleDb
+      .select({ revision: messageRevisions.revision })
+      .from(messageRevisions)
+      .where(eq(messageRevisions.auditLogId, auditLogId))
+      .orderBy(desc(messageRevisions.revision))
+      .limit(1);
+
+    return latest?.revision ?? 0;
+  }
+
+  /**
+   * Record the reviewer's decision on the revision in review
+   */
+  static async recordReview(
+    auditLogId: string,
+    review: { reviewerId: string; outcome: RevisionOutcome; reviewNotes?: string | null; comments?: ReviewComment[] }
+  ): Promise<void> {
+    const [updated] = await drizzleDb
+      .update(messageRevisions)
+      .set({
+        outcome: review.outcome,
+        reviewerId: review.reviewerId,
+        reviewNotes: review.reviewNotes ?? null,
+        comments: review.comments && review.comments.length > 0 ? JSON.stringify(review.comments) : null,
+        reviewedAt: new Date()
+      })
+      .where(and(eq(messageRevisions.auditLogId, auditLogId), isNull(messageRevisions.outcome)))
+      .returning({ id: messageRevisions.id });
+
+    if (!updated) {
+      // Messages sent directly were never submitted; their history is in the state events
+      console.warn('[MESSAGE_REVISIONS] No revision in review for message', { auditLogId });
+    }
+  }
+
+  /**
+   * Every revision of a message with its review, oldest first
+   */
+  static async getRevisions(auditLogId: string): Promise<MessageRevisionView[]> {
+    const submitters = alias(users, 'submitters');
+    const reviewers = alias(users, 'reviewers');
+
+    const rows = await drizzleDb
+      .select({
+        revision: messageRevisions,
+        submitterName: submitters.username,
+        reviewerName: reviewers.username
+      })
+      .from(messageRevisions)
+      .leftJoin(submitters, eq(messageRevisions.submittedBy, submitters.id))
+      .leftJoin(reviewers, eq(messageRevisions.reviewerId, reviewers.id))
+      .where(eq(messageRevisions.auditLogId, auditLogId))
+      .orderBy(asc(messageRevisions.revision));
+
+    return rows.map(row => ({
+      ...row.revision,
+      comments: parseComments(row.revision.comments),
+      submitterName: row.submitterName,
+      reviewerName: row.reviewerName
+    }));
+  }
+
+  /**
+   * The author's messages waiting for them to address a reviewer's changes, or recalled before sending, oldest first
+   */
+  static async getReturnedMessages(userId: string): Promise<ReturnedMessage[]> {
+    const rows = await drizzleDb
+      .select({
+        id: auditLogs.id,
+        patientName: auditLogs.patientName,
+        requestText: auditLogs.requestText,
+        finalMessage: auditLogs.finalMessage,
+        draftLanguage: auditLogs.draftLanguage,
+        reviewNotes: auditLogs.reviewNotes,
+        reviewedAt: auditLogs.reviewedAt,
+        reviewerName: users.username,
+        revision: sql<number>`(SELECT MAX(${messageRevisions.revision}) FROM ${messageRevisions} WHERE ${messageRevisions.auditLogId} = ${auditLogs.id})`,
+        comments: sql<string | null>`(SELECT ${messageRevisions.comments} FROM ${messageRevisions} WHERE ${messageRevisions.auditLogId} = ${auditLogs.id} ORDER BY ${messageRevisions.revision} DESC LIMIT 1)`,
+        recalledBy: sql<string | null>`(SELECT "recaller"."username" FROM ${messageStateEvents} JOIN "User" AS "recaller" ON "recaller"."id" = ${messageStateEvents.actorId} WHERE ${messageStateEvents.auditLogId} = ${auditLogs.id} AND ${messageStateEvents.toState} = 'draft' ORDER BY ${messageStateEvents.createdAt} DESC LIMIT 1)`,
+        recallReason: sql<string | null>`(SELECT ${messageStateEvents.reason} FROM ${messageStateEvents} WHERE ${messageStateEvents.auditLogId} = ${auditLogs.id} AND ${messageStateEvents.toState} = 'draft' ORDER BY ${messageStateEvents.createdAt} DESC LIMIT 1)`,
+        workflowState: auditLogs.workflowState
+      })
+      .from(auditLogs)
+      .leftJoin(users, eq(auditLogs.reviewerId, users.id))
+      .where(and(
+        eq(auditLogs.userId, userId),
+        or(
+          eq(auditLogs.workflowState, 'changes_requested'),
+          and(eq(auditLogs.workflowState, 'draft'), eq(auditLogs.actionType, 'recalled'))
+        )
+      ))
+      .orderBy(asc(auditLogs.reviewedAt));
+
+    return rows.map(({ workflowState, recalledBy, recallReason, ...row }) => {
+      const recalled = workflowState === 'draft';
+      return {
+        ...row,
+        revision: Number(row.revision || (recalled ? 0 : 1)),
+        comments: parseComments(row.comments),
+        recalled,
+        recalledBy: recalled ? recalledBy : null,
+        recallReason: recalled ? recallReason : null
+      };
+    });
+  }
+}
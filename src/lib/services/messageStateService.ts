@@ -0,0 +1,146 @@
+import { drizzleDb, auditLogs, messageStateEvents } from '@/db';
+import { and, asc, eq, sql } from 'drizzle-orm';
+import type { AuditLog, MessageStateEvent, NewAuditLog } from '@/db';
+import { assertTransition, isMessageState, StaleTransitionError, type MessageState } from '@/lib/message-states';
+
+export interface TransitionActor {
+  id: string | null;
+  role: string;
+}
+
+export interface TransitionRequest {
+  auditLogId: string;
+  to: MessageState;
+  actor: TransitionActor;
+  reason?: string | null;
+  metadata?: Record<string, unknown>;
+  changes?: Partial<NewAuditLog>; // Other AuditLog columns written together with the new state
+}
+
+// Queue processors and delivery webhooks
+export const SYSTEM_ACTOR: TransitionActor = { id: null, role: 'system' };
+
+export class MessageStateService {
+  /**
+   * Move a message to a new workflow state and record the move as a MessageStateEvent
+   * Throws IllegalTransitionError, TransitionNotPermittedError or StaleTransitionError when the move is rejected.
+   */
+  static async transition(request: TransitionRequest): Promise<AuditLog> {
+    const [log] = await drizzleDb
+      .select()
+      .from(auditLogs)
+      .where(eq(auditLogs.id, request.auditLogId))
+      .limit(1);
+
+    if (!log) {
+      throw new Error('Message not found');
+    }
+
+    return this.transitionFrom(log, request);
+  }
+
+  /**
+   * As transition, for a row the caller has already loaded; the move only applies if the row is still in that state
+   */
+  static async transitionFrom(log: AuditLog, request: Omit<TransitionRequest, 'auditLogId'>): Promise<AuditLog> {
+    const from = this.currentState(log);
+    assertTransition(from, request.to, request.actor.role);
+
+    const [updated] = await drizzleDb
+      .update(auditLogs)
+      .set({ ...request.changes, workflowState: request.to, updatedAt: new Date() })
+      .where(and(eq(auditLogs.id, log.id), eq(auditLogs.workflowState, from)))
+      .returning();
+
+    if (!updated) {
+      // Someone else moved the message first; their event is the one that stands
+      throw new StaleTransitionError(from, request.to);
+    }
+
+    await drizzleDb.insert(messageStateEvents).values({
+      auditLogId: log.id,
+      fromState: from,
+      toState: request.to,
+      actorId: request.actor.id,
+      actorRole: request.actor.role,
+      reason: request.reason ?? null,
+      metadata: request.metadata ? JSON.stringify(request.metadata) : null
+    });
+
+    console.log('[MESSAGE_STATE] Transition', { auditLogId: log.id, from, to: request.to, actorRole: request.actor.role });
+
+    return updated;
+  }
+
+  /**
+   * Transition for delivery updates from processors and webhooks, which must not fail on a rejected move
+   * A message already in the target state is left alone (retries, repeated webhooks).
+   * Returns false (and logs) when the message cannot take the move, e.g. it was cancelled while queued.
+   */
+  static async recordDelivery(
+    auditLogId: string,
+    to: MessageState,
+    details: { reason?: string | null; metadata?: Record<string, unknown>; changes?: Partial<NewAuditLog> } = {}
+  ): Promise<boolean> {
+    try {
+      const [log] = await drizzleDb
+        .select()
+        .from(auditLogs)
+        .where(eq(auditLogs.id, auditLogId))
+        .limit(1);
+
+      if (!log) {
+        throw new Error('Message not found');
+      }
+      if (log.workflowState === to) {
+        return true;
+      }
+
+      await this.transitionFrom(log, { to, actor: SYSTEM_ACTOR, ...details });
+      return true;
+    } catch (error) {
+      console.warn('[MESSAGE_STATE] Delivery transition rejected:', { auditLogId, to, error: error instanceof Error ? error.message : error });
+      return false;
+    }
+  }
+
+  /**
+   * Record something done to a message that leaves its state unchanged, such as a reassignment
+   * The event has the current state as both fromState and toState.
+   */
+  static async recordEvent(
+    log: Pick<AuditLog, 'id' | 'workflowState'>,
+    event: { actor: TransitionActor; reason?: string | null; metadata: Record<string, unknown> }
+  ): Promise<void> {
+    const state = this.currentState(log);
+
+    await drizzleDb.insert(messageStateEvents).values({
+      auditLogId: log.id,
+      fromState: state,
+      toState: state,
+      actorId: event.actor.id,
+      actorRole: event.actor.role,
+      reason: event.reason ?? null,
+      metadata: JSON.stringify(event.metadata)
+    });
+  }
+
+  /**
+   * State events for a message, oldest first
+   */
+  static async getHistory(auditLogId: string): Promise<MessageStateEvent[]> {
+    return drizzleDb
+      .select()
+      .from(messageStateEvents)
+      .where(eq(messageStateEvents.auditLogId, auditLogId))
+      // createdAt has one-second resolution; rowid keeps events from one request in insert order
+      .orderBy(asc(messageStateEvents.createdAt), sql`rowid`);
+  }
+
+  static currentState(log: Pick<AuditLog, 'id' | 'workflowState'>): MessageState {
+    if (!isMessageState(log.workflowState)) {
+      throw new Error(`Message ${log.id} has an unknown workflow state: ${log.workflowState}`);
+    }
+    return log.workflowState;
+  }
+}
@@ -0,0 +1,255 @@
+import { drizzleDb, promptTemplates, users } from '@/db';
+import { eq, and, desc, isNull, sql } from 'drizzle-orm';
+import type { User, PromptTemplate } from '@/db';
+import { hasRole } from '@/lib/auth';
+import {
+  DEFAULT_PROMPT_TEMPLATE_ID,
+  DEFAULT_SYSTEM_TEMPLATE,
+  DEFAULT_USER_TEMPLATE,
+  diffLines,
+  validatePromptTemplates,
+  type DiffLine,
+  type PromptTemplateScope
+} from '@/lib/prompt-templates';
+
+export interface PromptTemplateInput {
+  scope: PromptTemplateScope;
+  scopeValue?: string | null;
+  systemTemplate: string;
+  userTemplate: string;
+  changeNote?: string;
+}
+
+export interface PromptTemplateDiff {
+  from: PromptTemplate;
+  to: PromptTemplate;
+  system: DiffLine[];
+  user: DiffLine[];
+}
+
+// Used only if the seeded global template is missing, so drafting never breaks
+const BUILT_IN_TEMPLATE: PromptTemplate = {
+  id: DEFAULT_PROMPT_TEMPLATE_ID,
+  scope: 'global',
+  scopeValue: null,
+  version: 1,
+  systemTemplate: DEFAULT_SYSTEM_TEMPLATE,
+  userTemplate: DEFAULT_USER_TEMPLATE,
+  changeNote: 'Built-in template',
+  isActive: true,
+  createdBy: null,
+  activatedBy: null,
+  activatedAt: null,
+  createdAt: new Date(0)
+};
+
+export class PromptTemplateService {
+  /**
+   * Resolve the template for a draft
+   * Precedence: doctor override, then specialty override, then the global template
+   */
+  static async resolveActiveTemplate(doctorId?: string | null, specialty?: string | null): Promise<PromptTemplate> {
+    const candidates: Array<{ scope: PromptTemplateScope; scopeValue: string | null }> = [];
+    if (doctorId) candidates.push({ scope: 'doctor', scopeValue: doctorId });
+    if (specialty?.trim()) candidates.push({ scope: 'specialty', scopeValue: specialty.trim().toLowerCase() });
+    candidates.push({ scope: 'global', scopeValue: null });
+
+    for (const candidate of candidates) {
+      const [template] = await drizzleDb
+        .select()
+        .from(promptTemplates)
+        .where(and(
+          eq(promptTemplates.scope, candidate.scope),
+          candidate.scopeValue === null
+            ? isNull(promptTemplates.scopeValue)
+            : eq(promptTemplates.scopeValue, candidate.scopeValue),
+          eq(promptTemplates.isActive, true)
+        ))
+        .limit(1);
+
+      if (template) {
+        return template;
+      }
+    }
+
+    console.warn('[PROMPT TEMPLATES] No active global template found, using built-in template');
+    return BUILT_IN_TEMPLATE;
+  }
+
+  /**
+   * List all template versions (admin only)
+   */
+  static async listTemplates(user: User): Promise<Array<PromptTemplate & { createdByEmail: string | null }>> {
+    if (!hasRole(user, 'admin')) {
+      throw new Error('Only administrators can manage prompt templates');
+    }
+
+    const rows = await drizzleDb
+      .select({
+        template: promptTemplates,
+        createdByEmail: users.email
+      })
+      .from(promptTemplates)
+      .leftJoin(users, eq(promptTemplates.createdBy, users.id))
+      .orderBy(promptTemplates.scope, promptTemplates.scopeValue, desc(promptTemplates.version));
+
+    return rows.map(row => ({ ...row.template, createdByEmail: row.createdByEmail }));
+  }
+
+  /**
+   * Save a new, inactive version for a scope
+   * Versions are immutable once saved; editing always creates the next version
+   */
+  static async createVersion(input: PromptTemplateInput, user: User): Promise<PromptTemplate> {
+    if (!hasRole(user, 'admin')) {
+      throw new Error('Only administrators can manage prompt templates');
+    }
+
+    if (!['global', 'specialty', 'doctor'].includes(input.scope)) {
+      throw new Error(`Invalid template scope: ${input.scope}`);
+    }
+
+    const scopeValue = this.normalizeScopeValue(input.scope, input.scopeValue);
+    if (input.scope !== 'global' && !scopeValue) {
+      throw new Error(`A ${input.scope} template needs a ${input.scope === 'doctor' ? 'doctor' : 'specialty'}`);
+    }
+
+    if (input.scope === 'doctor') {
+      const [doctor] = await drizzleDb
+        .select()
+        .from(users)
+        .where(eq(users.id, scopeValue!))
+        .limit(1);
+
+      if (!doctor || doctor.role !== 'doctor') {
+        throw new Error('Doctor not found');
+      }
+    }
+
+    const issues = validatePromptTemplates(input.systemTemplate, input.userTemplate);
+    if (issues.length > 0) {
+      throw new Error(issues.join('; '));
+    }
+
+    const [latest] = await drizzleDb
+      .select({ maxVersion: sql<number>`max(${promptTemplates.version})` })
+      .from(promptTemplates)
+      .where(and(
+        eq(promptTemplates.scope, input.scope),
+        scopeValue === null ? isNull(promptTemplates.scopeValue) : eq(promptTemplates.scopeValue, scopeValue)
+      ));
+
+    const [created] = await drizzleDb
+      .insert(promptTemplates)
+      .values({
+        scope: input.scope,
+        scopeValue,
+        version: (latest?.maxVersion || 0) + 1,
+        systemTemplate: input.systemTemplate,
+        userTemplate: input.userTemplate,
+        changeNote: input.changeNote || null,
+        isActive: false,
+        createdBy: user.id
+      })
+      .returning();
+
+    return created;
+  }
+
+  /**
+   * Make a version the active one for its scope
+   */
+  static async activateVersion(templateId: string, user: User): Promise<PromptTemplate> {
+    if (!hasRole(user, 'admin')) {
+      throw new Error('Only administrators can manage prompt templates');
+    }
+
+    const template = await this.getTemplate(templateId);
+
+    await drizzleDb.batch([
+      drizzleDb
+        .update(promptTemplates)
+        .set({ isActive: false })
+        .where(and(
+          eq(promptTemplates.scope, template.scope),
+          template.scopeValue === null
+            ? isNull(promptTemplates.scopeValue)
+            : eq(promptTemplates.scopeValue, template.scopeValue)
+        )),
+      drizzleDb
+        .update(promptTemplates)
+        .set({ isActive: true, activatedBy: user.id, activatedAt: new Date() })
+        .where(eq(promptTemplates.id, templateId))
+    ]);
+
+    console.log(`[PROMPT TEMPLATES] Activated ${template.scope} template v${template.version}`, {
+      templateId,
+      scopeValue: template.scopeValue,
+      activatedBy: user.id
+    });
+
+    return { ...template, isActive: true, activatedBy: user.id, activatedAt: new Date() };
+  }
+
+  /**
+   * Remove a doctor or specialty override so the next broader template applies
+   */
+  static async deactivateVersion(templateId: string, user: User): Promise<void> {
+    if (!hasRole(user, 'admin')) {
+      throw new Error('Only administrators can manage prompt templates');
+    }
+
+    const template = await this.getTemplate(templateId);
+    if (template.scope === 'global') {
+      throw new Error('The global template cannot be deactivated; activate another version instead');
+    }
+
+    await drizzleDb
+      .update(promptTemplates)
+      .set({ isActive: false })
+      .where(eq(promptTemplates.id, templateId));
+  }
+
+  /**
+   * Line diff between two versions
+   */
+  static async diffVersions(fromId: string, toId: string, user: User): Promise<PromptTemplateDiff> {
+    if (!hasRole(user, 'admin')) {
+      throw new Error('Only administrators can manage prompt templates');
+    }
+
+    const [from, to] = await Promise.all([this.getTemplate(fromId), this.getTemplate(toId)]);
+
+    return {
+      from,
+      to,
+      system: diffLines(from.systemTemplate, to.systemTemplate),
+      user: diffLines(from.userTemplate, to.userTemplate)
+    };
+  }
+
+  /**
+   * A specific template version, active or not
+   */
+  static async getTemplate(templateId: string): Promise<PromptTemplate> {
+    const [template] = await drizzleDb
+      .select()
+      .from(promptTemplates)
+      .where(eq(promptTemplates.id, templateId))
+      .limit(1);
+
+    if (!template) {
+      throw new Error('Prompt template not found');
+    }
+
+    return template;
+  }
+
+  // Specialty overrides match case-insensitively against DoctorSettings.specialtyFocus
+  private static normalizeScopeValue(scope: PromptTemplateScope, scopeValue?: string | null): string | null {
+    if (scope === 'global') return null;
+    const value = scopeValue?.trim();
+    if (!value) return null;
+    return scope === 'specialty' ? value.toLowerCase() : value;
+  }
+}
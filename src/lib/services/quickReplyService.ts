@@ -0,0 +1,262 @@
+import { drizzleDb, auditLogs, doctorSettings, patientBriefs, quickReplyTemplates, users } from '@/db';
+import { and, desc, eq, sql } from 'drizzle-orm';
+import type { User, QuickReplyTemplate } from '@/db';
+import { canAccessDraftWorkflow } from '@/lib/server-functions';
+import { classifyUrgencyByRules, type UrgencyLevel } from '@/lib/triage';
+import { normalizeLanguage, type PatientLanguage } from '@/lib/languages';
+import { ConversationService } from '@/lib/services/conversationService';
+import {
+  classifyInquiryIntent,
+  matchQuickReplies,
+  validateQuickReplyTemplate,
+  type IntentResult,
+  type QuickReplyMatch
+} from '@/lib/quick-replies';
+
+export interface QuickReplyTemplateInput {
+  intent: string;
+  title: string;
+  body: string;
+  language?: string;
+  isActive?: boolean;
+}
+
+export interface QuickReplySuggestion {
+  intent: IntentResult;
+  urgencyLevel: UrgencyLevel;
+  matches: QuickReplyMatch[]; // Empty when the inquiry needs a written or generated reply
+}
+
+interface QuickReplyBrief {
+  patientName: string;
+  currentMedications: string;
+  allergies: string;
+  preferredLanguage: string;
+  inquiryUrgency: string | null;
+  doctorId: string;
+  doctorName: string | null;
+  signOff: string | null;
+}
+
+// Quick replies only answer routine requests; anything more urgent is written or generated and reviewed
+const QUICK_REPLY_URGENCIES: UrgencyLevel[] = ['routine', 'administrative'];
+
+export class QuickReplyService {
+  /**
+   * A doctor's quick-reply templates (doctors only)
+   */
+  static async listTemplates(user: User): Promise<QuickReplyTemplate[]> {
+    if (user.role !== 'doctor') {
+      throw new Error('Only doctors can manage quick replies');
+    }
+
+    return drizzleDb
+      .select()
+      .from(quickReplyTemplates)
+      .where(eq(quickReplyTemplates.doctorId, user.id))
+      .orderBy(quickReplyTemplates.intent, desc(quickReplyTemplates.updatedAt));
+  }
+
+  /**
+   * Add a template; saving it is the doctor's approval (doctors only)
+   */
+  static async createTemplate(input: QuickReplyTemplateInput, user: User): Promise<QuickReplyTemplate> {
+    if (user.role !== 'doctor') {
+      throw new Error('Only doctors can manage quick replies');
+    }
+
+    const issues = validateQuickReplyTemplate(input);
+    if (issues.length > 0) {
+      throw new Error(issues.join('; '));
+    }
+
+    const [created] = await drizzleDb
+      .insert(quickReplyTemplates)
+      .values({
+        doctorId: user.id,
+        intent: input.intent,
+        title: input.title.trim(),
+        body: input.body.trim(),
+        language: normalizeLanguage(input.language),
+        isActive: input.isActive ?? true
+      })
+      .returning();
+
+    console.log('[QUICK_REPLIES] Template created', { templateId: created.id, intent: created.intent, doctorId: user.id });
+
+    return created;
+  }
+
+  /**
+   * Change a template or enable/disable it (the owning doctor only)
+   */
+  static async updateTemplate(templateId: string, updates: Partial<QuickReplyTemplateInput>, user: User): Promise<QuickReplyTemplate> {
+    const [existing] = await drizzleDb
+      .select()
+      .from(quickReplyTemplates)
+      .where(eq(quickReplyTemplates.id, templateId))
+      .limit(1);
+
+    if (!existing) {
+      throw new Error('Quick reply not found');
+    }
+
+    if (existing.doctorId !== user.id) {
+      throw new Error('You can only edit your own quick replies');
+    }
+
+    const merged: QuickReplyTemplateInput = {
+      intent: existing.intent,
+      title: existing.title,
+      body: existing.body,
+      language: existing.language,
+      isActive: existing.isActive,
+      ...Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined))
+    };
+
+    const issues = validateQuickReplyTemplate(merged);
+    if (issues.length > 0) {
+      throw new Error(issues.join('; '));
+    }
+
+    const [updated] = await drizzleDb
+      .update(quickReplyTemplates)
+      .set({
+        intent: merged.intent,
+        title: merged.title.trim(),
+        body: merged.body.trim(),
+        language: normalizeLanguage(merged.language),
+        isActive: merged.isActive ?? true,
+        updatedAt: new Date()
+      })
+      .where(eq(quickReplyTemplates.id, templateId))
+      .returning();
+
+    console.log('[QUICK_REPLIES] Template updated', { templateId, isActive: updated.isActive, doctorId: user.id });
+
+    return updated;
+  }
+
+  /**
+   * Classify the inquiry and fill the patient's doctor's templates for its intent
+   */
+  static async suggest(user: User, patientId: string, inquiry: string): Promise<QuickReplySuggestion> {
+    return this.suggestForBrief(await this.getBriefForUser(user, patientId), inquiry);
+  }
+
+  /**
+   * Use a matched template as the draft, recorded as a quick_reply_drafted audit entry
+   * The template must still fit the inquiry as it is now.
+   */
+  static async useTemplate(
+    user: User,
+    request: { templateId: string; patientId: string; inquiry: string }
+  ): Promise<{ draft: string; auditLogId: string; language: PatientLanguage; suggestion: QuickReplySuggestion }> {
+    const brief = await this.getBriefForUser(user, request.patientId);
+    const suggestion = await this.suggestForBrief(brief, request.inquiry);
+    const match = suggestion.matches.find(candidate => candidate.templateId === request.templateId);
+
+    if (!match) {
+      throw new Error('This quick reply does not fit the inquiry; generate a draft instead');
+    }
+
+    const language = normalizeLanguage(brief.preferredLanguage);
+    const [log] = await drizzleDb
+      .insert(auditLogs)
+      .values({
+        userId: user.id,
+        patientName: brief.patientName,
+        patientId: request.patientId,
+        requestText: request.inquiry,
+        generatedDraft: match.draft,
+        finalMessage: match.draft,
+        actionType: 'quick_reply_drafted',
+        deliveryStatus: 'draft',
+        urgencyLevel: suggestion.urgencyLevel,
+        inquiryIntent: match.intent,
+        quickReplyTemplateId: match.templateId,
+        draftLanguage: language
+      })
+      .returning({ id: auditLogs.id });
+
+    await drizzleDb
+      .update(quickReplyTemplates)
+      .set({ useCount: sql`${quickReplyTemplates.useCount} + 1` })
+      .where(eq(quickReplyTemplates.id, match.templateId));
+
+    await ConversationService.recordInbound(request.patientId, request.inquiry, user.id);
+
+    console.log('[QUICK_REPLIES] Template used', { templateId: match.templateId, auditLogId: log.id, userId: user.id });
+
+    return { draft: match.draft, auditLogId: log.id, language, suggestion };
+  }
+
+  private static async suggestForBrief(brief: QuickReplyBrief, inquiry: string): Promise<QuickReplySuggestion> {
+    const intent = classifyInquiryIntent(inquiry);
+
+    // The saved inquiry may have been triaged by the model; the rules run on the text as it is now
+    const urgency = classifyUrgencyByRules(inquiry).level;
+    const urgencyLevel: UrgencyLevel = brief.inquiryUrgency === 'emergency' || brief.inquiryUrgency === 'urgent'
+      ? brief.inquiryUrgency
+      : urgency;
+
+    if (!QUICK_REPLY_URGENCIES.includes(urgencyLevel) || intent.intent === 'general') {
+      return { intent, urgencyLevel, matches: [] };
+    }
+
+    const templates = await drizzleDb
+      .select()
+      .from(quickReplyTemplates)
+      .where(and(
+        eq(quickReplyTemplates.doctorId, brief.doctorId),
+        eq(quickReplyTemplates.intent, intent.intent),
+        eq(quickReplyTemplates.isActive, true)
+      ))
+      .orderBy(desc(quickReplyTemplates.useCount));
+
+    const matches = matchQuickReplies(intent.intent, normalizeLanguage(brief.preferredLanguage), templates, {
+      patientName: brief.patientName,
+      patientFirstName: brief.patientName.trim().split(/\s+/)[0],
+      doctorName: brief.doctorName,
+      signOff: brief.signOff,
+      currentMedications: brief.currentMedications,
+      allergies: brief.allergies
+    });
+
+    return { intent, urgencyLevel, matches };
+  }
+
+  private static async getBriefForUser(user: User, patientId: string): Promise<QuickReplyBrief> {
+    if (!canAccessDraftWorkflow(user)) {
+      throw new Error('Insufficient permissions to use quick replies');
+    }
+
+    const [brief] = await drizzleDb
+      .select({
+        patientName: patientBriefs.patientName,
+        currentMedications: patientBriefs.currentMedications,
+        allergies: patientBriefs.allergies,
+        preferredLanguage: patientBriefs.preferredLanguage,
+        inquiryUrgency: patientBriefs.inquiryUrgency,
+        doctorId: patientBriefs.doctorId,
+        doctorName: users.username,
+        signOff: doctorSettings.signOff
+      })
+      .from(patientBriefs)
+      .leftJoin(users, eq(patientBriefs.doctorId, users.id))
+      .leftJoin(doctorSettings, eq(patientBriefs.doctorId, doctorSettings.doctorId))
+      .where(eq(patientBriefs.id, patientId))
+      .limit(1);
+
+    if (!brief) {
+      throw new Error('Patient not found');
+    }
+
+    // Doctors only use quick replies for their own patients, as with patient briefs
+    if (user.role === 'doctor' && brief.doctorId !== user.id) {
+      throw new Error('Insufficient permissions to use quick replies');
+    }
+
+    return brief;
+  }
+}
@@ -0,0 +1,55 @@
+import { drizzleDb, auditLogs, patientBriefs } from '@/db';
+import { eq } from 'drizzle-orm';
+import {
+  DEFAULT_CLINIC_TIMEZONE,
+  isValidTimeZone,
+  nextAllowedSendTime,
+  parseQuietHours,
+  type SendWindow
+} from '@/lib/quiet-hours';
+
+export interface MessageSendWindow extends SendWindow {
+  patientTimeZone: string; // The zone quiet and contact hours were read in
+  clinicTimeZone: string;
+  contactHours: { start: string; end: string } | null;
+}
+
+export class QuietHoursService {
+  /**
+   * When a message to the patient behind an audit log may go out if it is sent at `requested`
+   * Patients without a timezone are taken to be in the clinic's.
+   */
+  static async sendWindow(
+    auditLogId: string,
+    options: { deliveryMethod: string; priority?: string | null; requested?: Date },
+    env: any
+  ): Promise<MessageSendWindow> {
+    const clinicTimeZone = isValidTimeZone(env.CLINIC_TIMEZONE) ? env.CLINIC_TIMEZONE : DEFAULT_CLINIC_TIMEZONE;
+
+    const [patient] = await drizzleDb
+      .select({
+        timezone: patientBriefs.timezone,
+        contactHoursStart: patientBriefs.contactHoursStart,
+        contactHoursEnd: patientBriefs.contactHoursEnd
+      })
+      .from(auditLogs)
+      .innerJoin(patientBriefs, eq(auditLogs.patientId, patientBriefs.id))
+      .where(eq(auditLogs.id, auditLogId))
+      .limit(1);
+
+    const patientTimeZone = isValidTimeZone(patient?.timezone) ? patient.timezone : clinicTimeZone;
+    const contactHours = patient?.contactHoursStart && patient?.contactHoursEnd
+      ? { start: patient.contactHoursStart, end: patient.contactHoursEnd }
+      : null;
+
+    const window = nextAllowedSendTime(options.requested ?? new Date(), {
+      deliveryMethod: options.deliveryMethod,
+      priority: options.priority,
+      timeZone: patientTimeZone,
+      quietHours: parseQuietHours(env.QUIET_HOURS),
+      contactHours
+    });
+
+    return { ...window, patientTimeZone, clinicTimeZone, contactHours };
+  }
+}
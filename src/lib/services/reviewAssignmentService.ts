@@ -0,0 +1,359 @@
+import { drizzleDb, auditLogs, patientBriefs, reviewAssignments, users } from '@/db';
+import { and, eq, inArray, isNotNull, isNull, lt, or, sql } from 'drizzle-orm';
+import type { AuditLog, ReviewAssignment, User } from '@/db';
+import {
+  claimExpiresAt,
+  escalationTarget,
+  isClaimActive,
+  MAX_ESCALATIONS,
+  pickRoundRobin,
+  reviewDueAt,
+  ReviewClaimedError,
+  type AssignmentSource,
+  type AssignmentStrategy,
+  type ReviewerCandidate
+} from '@/lib/review-assignment';
+import type { ApprovalRole } from '@/lib/approval-policies';
+
+// Roles that take the assignment for each approval step; admins are used only when nobody else can
+const STEP_ROLES: Record<ApprovalRole, string[]> = {
+  reviewer: ['reviewer', 'doctor'],
+  doctor: ['doctor'],
+  panel_doctor: ['doctor'],
+  admin: ['admin']
+};
+
+export interface SweepResult {
+  assigned: number;
+  escalated: number;
+}
+
+export class ReviewAssignmentService {
+  /**
+   * Assign a submitted message to a reviewer, set its SLA deadline and pick who it escalates to
+   * A message sent back for changes goes to the reviewer who asked for them when they can still review.
+   * Later approval steps go to someone who can sign them and has not signed an earlier step.
+   * Assignment never blocks a submission: failures are logged and the sweep retries.
+   */
+  static async assign(
+    log: AuditLog,
+    strategy: AssignmentStrategy,
+    options: { preferredReviewerId?: string | null; step?: ApprovalRole; exclude?: string[]; now?: Date } = {}
+  ): Promise<ReviewAssignment | null> {
+    try {
+      const now = options.now ?? new Date();
+      const step = options.step ?? 'reviewer';
+      const candidates = await this.getCandidates(log.userId, step, options.exclude);
+      const panelDoctorId = await this.getPanelDoctorId(log, candidates);
+
+      let assigneeId: string | null = null;
+      let assignedVia: AssignmentSource = 'round_robin';
+      if (options.preferredReviewerId && candidates.some(candidate => candidate.id === options.preferredReviewerId)) {
+        assigneeId = options.preferredReviewerId;
+        assignedVia = 'returning_reviewer';
+      } else if ((strategy === 'doctor_panel' || step === 'panel_doctor') && panelDoctorId) {
+        assigneeId = panelDoctorId;
+        assignedVia = 'doctor_panel';
+      } else {
+        assigneeId = pickRoundRobin(candidates)?.id ?? null;
+      }
+
+      const backup = pickRoundRobin(candidates, [assigneeId, panelDoctorId]);
+      const values = {
+        assigneeId,
+        assignedVia,
+        requiredRole: step,
+        assignedAt: now,
+        dueAt: reviewDueAt(now, log.urgencyLevel),
+        escalateToId: escalationTarget(assigneeId, panelDoctorId, backup?.id ?? null),
+        escalationLevel: 0,
+        escalatedAt: null,
+        claimedBy: null,
+        claimedAt: null,
+        claimExpiresAt: null,
+        completedAt: null,
+        updatedAt: now
+      };
+
+      const [assignment] = await drizzleDb
+        .insert(reviewAssignments)
+        .values({ auditLogId: log.id, ...values })
+        .onConflictDoUpdate({ target: reviewAssignments.auditLogId, set: values })
+        .returning();
+
+      console.log('[REVIEW_ASSIGNMENT] Assigned', { auditLogId: log.id, assigneeId, assignedVia, dueAt: values.dueAt });
+      return assignment;
+    } catch (error) {
+      console.warn('[REVIEW_ASSIGNMENT] Could not assign message', { auditLogId: log.id, error });
+      return null;
+    }
+  }
+
+  /**
+   * Claim a message for review; a claim lasts REVIEW_CLAIM_MINUTES and claiming again extends it
+   * Throws ReviewClaimedError when another reviewer's claim has not expired.
+   */
+  static async claim(auditLogId: string, user: User, now: Date = new Date()): Promise<ReviewAssignment> {
+    const [claimed] = await drizzleDb
+      .update(reviewAssignments)
+      .set({ claimedBy: user.id, claimedAt: now, claimExpiresAt: claimExpiresAt(now), updatedAt: now })
+      .where(and(
+        eq(reviewAssignments.auditLogId, auditLogId),
+        isNull(reviewAssignments.completedAt),
+        or(
+          isNull(reviewAssignments.claimedBy),
+          eq(reviewAssignments.claimedBy, user.id),
+          lt(reviewAssignments.claimExpiresAt, now)
+        )
+      ))
+      .returning();
+
+    if (claimed) {
+      return claimed;
+    }
+
+    const assignment = await this.get(auditLogId);
+    if (!assignment || assignment.completedAt) {
+      throw new Error('Message is not waiting for review');
+    }
+    throw await this.claimedError(assignment);
+  }
+
+  /**
+   * Give up a claim; only the claimant can release it
+   */
+  static async release(auditLogId: string, user: User): Promise<boolean> {
+    const released = await drizzleDb
+      .update(reviewAssignments)
+      .set({ claimedBy: null, claimedAt: null, claimExpiresAt: null, updatedAt: new Date() })
+      .where(and(eq(reviewAssignments.auditLogId, auditLogId), eq(reviewAssignments.claimedBy, user.id)))
+      .returning({ id: reviewAssignments.id });
+
+    return released.length > 0;
+  }
+
+  /**
+   * Throw ReviewClaimedError if someone other than the user holds an unexpired claim on the message
+   */
+  static async assertNotClaimedByOther(auditLogId: string, user: User, now: Date = new Date()): Promise<void> {
+    const assignment = await this.get(auditLogId);
+    if (assignment && !assignment.completedAt && assignment.claimedBy !== user.id && isClaimActive(assignment, now)) {
+      throw await this.claimedError(assignment);
+    }
+  }
+
+  /**
+   * Hand a message in review to a chosen reviewer; the SLA deadline is kept and any claim is dropped
+   * Returns null when the user cannot take the message's current step (or is excluded, e.g. an earlier signer).
+   */
+  static async reassign(
+    log: AuditLog,
+    assigneeId: string,
+    options: { exclude?: string[]; now?: Date } = {}
+  ): Promise<ReviewAssignment | null> {
+    const now = options.now ?? new Date();
+    const existing = await this.get(log.id);
+    const step = (existing && !existing.completedAt ? existing.requiredRole : 'reviewer') as ApprovalRole;
+
+    const candidates = await this.getCandidates(log.userId, step, options.exclude);
+    if (!candidates.some(candidate => candidate.id === assigneeId)) {
+      return null;
+    }
+
+    const panelDoctorId = await this.getPanelDoctorId(log, candidates);
+    const backup = pickRoundRobin(candidates, [assigneeId, panelDoctorId]);
+    const values = {
+      assigneeId,
+      assignedVia: 'reassigned',
+      requiredRole: step,
+      assignedAt: now,
+      dueAt: existing && !existing.completedAt ? existing.dueAt : reviewDueAt(now, log.urgencyLevel),
+      escalateToId: escalationTarget(assigneeId, panelDoctorId, backup?.id ?? null),
+      claimedBy: null,
+      claimedAt: null,
+      claimExpiresAt: null,
+      completedAt: null,
+      updatedAt: now
+    };
+
+    const [assignment] = await drizzleDb
+      .insert(reviewAssignments)
+      .values({ auditLogId: log.id, ...values, escalationLevel: 0 })
+      .onConflictDoUpdate({ target: reviewAssignments.auditLogId, set: values })
+      .returning();
+
+    console.log('[REVIEW_ASSIGNMENT] Reassigned', { auditLogId: log.id, from: existing?.assigneeId ?? null, to: assigneeId });
+    return assignment;
+  }
+
+  /**
+   * Users who review messages, for choosing a reassignment target
+   */
+  static async listReviewers(): Promise<Pick<User, 'id' | 'username' | 'role'>[]> {
+    return drizzleDb
+      .select({ id: users.id, username: users.username, role: users.role })
+      .from(users)
+      .where(inArray(users.role, [...new Set(Object.values(STEP_ROLES).flat())]))
+      .orderBy(users.username);
+  }
+
+  /**
+   * Close the assignment once the reviewer has decided
+   */
+  static async complete(auditLogId: string): Promise<void> {
+    await drizzleDb
+      .update(reviewAssignments)
+      .set({ completedAt: new Date(), claimedBy: null, claimedAt: null, claimExpiresAt: null, updatedAt: new Date() })
+      .where(and(eq(reviewAssignments.auditLogId, auditLogId), isNull(reviewAssignments.completedAt)));
+  }
+
+  /**
+   * Assign messages in review that have no open assignment and escalate those past their SLA
+   * Run by the review SLA cron.
+   */
+  static async sweep(strategy: AssignmentStrategy, now: Date = new Date()): Promise<SweepResult> {
+    const result: SweepResult = { assigned: 0, escalated: 0 };
+
+    const unassigned = await drizzleDb
+      .select({ log: auditLogs })
+      .from(auditLogs)
+      .leftJoin(reviewAssignments, and(eq(reviewAssignments.auditLogId, auditLogs.id), isNull(reviewAssignments.completedAt)))
+      .where(and(eq(auditLogs.workflowState, 'in_review'), isNull(reviewAssignments.id)));
+
+    for (const { log } of unassigned) {
+      if (await this.assign(log, strategy, { now })) {
+        result.assigned++;
+      }
+    }
+
+    const overdue = await drizzleDb
+      .select({ assignment: reviewAssignments, log: auditLogs })
+      .from(reviewAssignments)
+      .innerJoin(auditLogs, eq(reviewAssignments.auditLogId, auditLogs.id))
+      .where(and(
+        eq(auditLogs.workflowState, 'in_review'),
+        isNull(reviewAssignments.completedAt),
+        lt(reviewAssignments.dueAt, now),
+        isNotNull(reviewAssignments.escalateToId)
+      ));
+
+    for (const { assignment, log } of overdue) {
+      if (await this.escalate(assignment, log, now)) {
+        result.escalated++;
+      }
+    }
+
+    if (result.assigned > 0 || result.escalated > 0) {
+      console.log('[REVIEW_ASSIGNMENT] Sweep', result);
+    }
+    return result;
+  }
+
+  static async get(auditLogId: string): Promise<ReviewAssignment | null> {
+    const [assignment] = await drizzleDb
+      .select()
+      .from(reviewAssignments)
+      .where(eq(reviewAssignments.auditLogId, auditLogId))
+      .limit(1);
+
+    return assignment ?? null;
+  }
+
+  /**
+   * Hand an overdue message to its escalation target with a fresh SLA; the previous claim is dropped
+   */
+  private static async escalate(assignment: ReviewAssignment, log: AuditLog, now: Date): Promise<boolean> {
+    const level = assignment.escalationLevel + 1;
+    const assigneeId = assignment.escalateToId;
+    let escalateToId: string | null = null;
+
+    if (level < MAX_ESCALATIONS) {
+      const candidates = await this.getCandidates(log.userId, assignment.requiredRole as ApprovalRole);
+      const panelDoctorId = await this.getPanelDoctorId(log, candidates);
+      const backup = pickRoundRobin(candidates, [assigneeId, assignment.assigneeId, panelDoctorId]);
+      // The reviewer it was escalated away from is not a target again
+      const doctorId = panelDoctorId === assignment.assigneeId ? null : panelDoctorId;
+      escalateToId = escalationTarget(assigneeId, doctorId, backup?.id ?? null);
+    }
+
+    // Matching on the old deadline keeps a concurrent sweep from escalating twice
+    const [escalated] = await drizzleDb
+      .update(reviewAssignments)
+      .set({
+        assigneeId,
+        assignedVia: 'escalation',
+        assignedAt: now,
+        dueAt: reviewDueAt(now, log.urgencyLevel),
+        escalateToId,
+        escalationLevel: level,
+        escalatedAt: now,
+        claimedBy: null,
+        claimedAt: null,
+        claimExpiresAt: null,
+        updatedAt: now
+      })
+      .where(and(eq(reviewAssignments.id, assignment.id), eq(reviewAssignments.dueAt, assignment.dueAt)))
+      .returning({ id: reviewAssignments.id });
+
+    if (escalated) {
+      console.log('[REVIEW_ASSIGNMENT] Escalated overdue review', {
+        auditLogId: log.id,
+        from: assignment.assigneeId,
+        to: assigneeId,
+        level
+      });
+    }
+    return !!escalated;
+  }
+
+  /**
+   * Users who can take a step other than the author and those excluded, with their open assignment counts
+   */
+  private static async getCandidates(authorId: string, step: ApprovalRole = 'reviewer', exclude: string[] = []): Promise<ReviewerCandidate[]> {
+    const load = (roles: string[]) => drizzleDb
+      .select({
+        id: users.id,
+        openAssignments: sql<number>`(SELECT COUNT(*) FROM ${reviewAssignments} WHERE ${reviewAssignments.assigneeId} = ${users.id} AND ${reviewAssignments.completedAt} IS NULL)`,
+        lastAssignedAt: sql<number | null>`(SELECT MAX(${reviewAssignments.assignedAt}) FROM ${reviewAssignments} WHERE ${reviewAssignments.assigneeId} = ${users.id})`
+      })
+      .from(users)
+      .where(inArray(users.role, roles));
+
+    const eligible = (row: { id: string }) => row.id !== authorId && !exclude.includes(row.id);
+    let rows = (await load(STEP_ROLES[step] ?? STEP_ROLES.reviewer)).filter(eligible);
+    if (rows.length === 0) {
+      rows = (await load(['admin'])).filter(eligible);
+    }
+
+    return rows.map(row => ({
+      id: row.id,
+      openAssignments: Number(row.openAssignments || 0),
+      lastAssignedAt: row.lastAssignedAt ? new Date(Number(row.lastAssignedAt) * 1000) : null
+    }));
+  }
+
+  /**
+   * The patient's doctor, when they can take the review
+   */
+  private static async getPanelDoctorId(log: AuditLog, candidates: ReviewerCandidate[]): Promise<string | null> {
+    if (!log.patientId) return null;
+
+    const [brief] = await drizzleDb
+      .select({ doctorId: patientBriefs.doctorId })
+      .from(patientBriefs)
+      .where(eq(patientBriefs.id, log.patientId))
+      .limit(1);
+
+    return brief && candidates.some(candidate => candidate.id === brief.doctorId) ? brief.doctorId : null;
+  }
+
+  private static async claimedError(assignment: ReviewAssignment): Promise<ReviewClaimedError> {
+    const [claimant] = await drizzleDb
+      .select({ username: users.username })
+      .from(users)
+      .where(eq(users.id, assignment.claimedBy!))
+      .limit(1);
+
+    return new ReviewClaimedError(assignment.claimedBy!, claimant?.username ?? null, assignment.claimExpiresAt!);
+  }
+}
@@ -0,0 +1,49 @@
+import { createLLMProviderManager } from '@/providers/llm';
+import type { LLMCompletionResult } from '@/providers/llm';
+import { PhiSession } from '@/lib/phi-deidentification';
+import { buildBackTranslationPrompt, DEFAULT_PATIENT_LANGUAGE, type PatientLanguage } from '@/lib/languages';
+
+export interface BackTranslation {
+  translation: string;
+  completion: LLMCompletionResult; // For billing by the caller
+}
+
+export class TranslationService {
+  /**
+   * English back-translation of a non-English message for reviewers
+   * The message is de-identified like draft prompts. Returns null for English text or when the provider fails,
+   * so a missing translation never blocks drafting or review.
+   */
+  static async backTranslate(
+    text: string,
+    language: PatientLanguage,
+    env: any,
+    knownNames: string[] = []
+  ): Promise<BackTranslation | null> {
+    if (language === DEFAULT_PATIENT_LANGUAGE || !text.trim()) {
+      return null;
+    }
+
+    try {
+      const phi = new PhiSession(knownNames);
+      const completion = await createLLMProviderManager(env).complete({
+        model: env.LLM_MODEL || 'gpt-4o-mini',
+        messages: [
+          { role: 'system', content: buildBackTranslationPrompt(language) },
+          { role: 'user', content: phi.mask(text) }
+        ],
+        maxTokens: 1000,
+        temperature: 0
+      });
+
+      if (!completion.content.trim()) {
+        return null;
+      }
+
+      return { translation: phi.reidentify(completion.content), completion };
+    } catch (error) {
+      console.warn('[TRANSLATION] Back-translation failed:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,143 @@
+import { drizzleDb, auditLogs, patientBriefs } from '@/db';
+import type { User } from '@/db';
+import { eq } from 'drizzle-orm';
+import { createLLMProviderManager } from '@/providers/llm';
+import type { LLMCompletionResult } from '@/providers/llm';
+import { PhiSession } from '@/lib/phi-deidentification';
+import { BudgetService } from '@/lib/services/budgetService';
+import { UsageTrackingService } from '@/lib/services/usageTrackingService';
+import { estimateRequestTokens, type BudgetSubject } from '@/lib/budgets';
+import {
+  TRIAGE_SYSTEM_PROMPT,
+  classifyUrgencyByRules,
+  moreUrgent,
+  parseModelTriage,
+  type TriageResult
+} from '@/lib/triage';
+
+export interface TriageContext {
+  subject: BudgetSubject; // Whose AI budgets the model call counts against
+  knownNames: string[]; // Patient names to mask in the inquiry
+}
+
+export interface TriageClassification {
+  triage: TriageResult;
+  completion: LLMCompletionResult | null; // Set when the model was consulted; for billing by the caller
+}
+
+const TRIAGE_MAX_TOKENS = 100;
+
+export class TriageService {
+  /**
+   * Classify an inquiry's urgency
+   * Rules run first; with TRIAGE_USE_MODEL=1 the model is consulted unless the rules already found an emergency.
+   * The model can raise the level but never lower it, and any model failure or exhausted budget falls back to the rules.
+   */
+  static async classify(inquiry: string, env: any, context: TriageContext): Promise<TriageClassification> {
+    const rulesResult = classifyUrgencyByRules(inquiry);
+
+    if (rulesResult.level === 'emergency' || env.TRIAGE_USE_MODEL !== '1') {
+      return { triage: rulesResult, completion: null };
+    }
+
+    try {
+      // The inquiry is de-identified like draft prompts
+      const phi = new PhiSession(context.knownNames);
+      const model = env.LLM_MODEL || 'gpt-4o-mini';
+      const messages = [
+        { role: 'system' as const, content: TRIAGE_SYSTEM_PROMPT },
+        { role: 'user' as const, content: phi.mask(inquiry) }
+      ];
+
+      // Triage is not a draft request, but its tokens count towards the same budgets
+      const estimatedTokens = estimateRequestTokens(TRIAGE_SYSTEM_PROMPT.length + inquiry.length, TRIAGE_MAX_TOKENS, 1);
+      const budgetCheck = await BudgetService.checkBudgets(
+        context.subject,
+        { requests: 0, tokens: estimatedTokens, cost: UsageTrackingService.calculateCost(model, estimatedTokens) },
+        env
+      );
+      if (!budgetCheck.allowed) {
+        console.warn('[TRIAGE] AI budget reached, using rules', { userId: context.subject.userId });
+        return { triage: rulesResult, completion: null };
+      }
+
+      const completion = await createLLMProviderManager(env).complete({
+        model,
+        messages,
+        maxTokens: TRIAGE_MAX_TOKENS,
+        temperature: 0
+      });
+
+      const modelResult = parseModelTriage(completion.content);
+      if (!modelResult) {
+        console.warn('[TRIAGE] Unparseable model classification, using rules', { provider: completion.provider });
+        return { triage: rulesResult, completion };
+      }
+
+      return {
+        triage: moreUrgent(rulesResult, { ...modelResult, rationale: phi.reidentify(modelResult.rationale) }),
+        completion
+      };
+    } catch (error) {
+      console.warn('[TRIAGE] Model classification failed, using rules:', error);
+      return { triage: rulesResult, completion: null };
+    }
+  }
+
+  /**
+   * Classify a saved inquiry and store the result on the patient brief
+   * A model classification is recorded as an inquiry_triaged audit entry so its tokens are billed to the user.
+   */
+  static async triagePatientInquiry(patientId: string, inquiry: string, user: User, env: any): Promise<TriageResult | null> {
+    const [brief] = await drizzleDb
+      .select({ patientName: patientBriefs.patientName, doctorId: patientBriefs.doctorId })
+      .from(patientBriefs)
+      .where(eq(patientBriefs.id, patientId))
+      .limit(1);
+
+    const classification = inquiry.trim() && brief
+      ? await this.classify(inquiry, env, {
+          subject: { userId: user.id, role: user.role, doctorId: brief.doctorId },
+          knownNames: [brief.patientName]
+        })
+      : null;
+    const triage = classification?.triage ?? null;
+
+    await drizzleDb
+      .update(patientBriefs)
+      .set({
+        inquiryUrgency: triage?.level ?? null,
+        inquiryUrgencyRationale: triage?.rationale ?? null,
+        inquiryUrgencySource: triage?.source ?? null
+      })
+      .where(eq(patientBriefs.id, patientId));
+
+    if (brief && classification?.completion) {
+      await drizzleDb
+        .insert(auditLogs)
+        .values({
+          userId: user.id,
+          patientId,
+          patientName: brief.patientName,
+          requestText: inquiry,
+          generatedDraft: '',
+          finalMessage: '',
+          actionType: 'inquiry_triaged',
+          deliveryStatus: 'draft',
+          urgencyLevel: triage?.level,
+          urgencyRationale: triage?.rationale,
+          urgencySource: triage?.source,
+          aiModelUsed: classification.completion.model,
+          aiProvider: classification.completion.provider,
+          aiCost: classification.completion.cost,
+          tokensConsumed: classification.completion.usage.totalTokens
+        });
+    }
+
+    if (triage && triage.level !== 'routine') {
+      console.log(`[TRIAGE] Inquiry classified as ${triage.level}`, { patientId, source: triage.source });
+    }
+
+    return triage;
+  }
+}
@@ -2,6 +2,9 @@ import { drizzleDb, auditLogs, users } from '@/db';
 import { eq, and, gte, count, sum, desc } from 'drizzle-orm';
 import type { User } from '@/db';
 import { hasRole } from '@/lib/auth';
+import { budgetWindowStart } from '@/lib/budgets';
+import { BudgetService } from '@/lib/services/budgetService';
+import { DraftCacheService } from '@/lib/services/draftCacheService';
 
 export interface UsageStats {
   totalRequests: number;
@@ -9,6 +12,9 @@ export interface UsageStats {
   totalCost: number;
   averageTokensPerRequest: number;
   requestsByModel: Record<string, number>;
+  requestsByProvider: Record<string, number>;
+  cacheHits: number; // Identical requests answered from the draft cache; not included in the billed totals
+  tokensSaved: number;
   dailyUsage: Array<{
     date: string;
     requests: number;
@@ -21,9 +27,9 @@ export interface UserUsageStats extends UsageStats {
   userId: string;
   userEmail: string;
   userRole: string;
-  dailyLimit: number;
+  dailyLimit: number | null; // From the user's own or role AI budget; null when no daily request limit is set
   currentDailyUsage: number;
-  remainingDailyRequests: number;
+  remainingDailyRequests: number | null;
 }
 
 export interface DoctorUsageConfig {
@@ -35,23 +41,6 @@ export interface DoctorUsageConfig {
 }
 
 export class UsageTrackingService {
-  /**
-   * Get daily usage limits based on user role
-   */
-  static getDailyLimitForRole(role: string): number {
-    switch (role) {
-      case 'admin':
-        return 1000;
-      case 'doctor':
-        return 100;
-      case 'reviewer':
-        return 75;
-      case 'staff':
-      default:
-        return 50;
-    }
-  }
-
   /**
    * Calculate cost based on model and tokens
    */
@@ -69,13 +58,25 @@ export class UsageTrackingService {
   }
 
   /**
-   * Check if user can make a request based on daily limits
+   * Cost of a logged request
+   * Prefers the cost recorded by the provider that served it; older rows are estimated from tokens
+   */
+  private static getLogCost(log: { tokensConsumed?: number | null; aiModelUsed?: string | null; aiCost?: number | null }): number {
+    if (log.aiCost !== null && log.aiCost !== undefined) {
+      return log.aiCost;
+    }
+    return this.calculateCost(log.aiModelUsed || 'gpt-4o-mini', log.tokensConsumed || 0);
+  }
+
+  /**
+   * Check if user can make a request based on their daily request budget
+   * Token, cost, panel and organization budgets are checked by BudgetService before each LLM call.
    */
   static async canUserMakeRequest(userId: string): Promise<{
     canMake: boolean;
     currentUsage: number;
-    dailyLimit: number;
-    remainingRequests: number;
+    dailyLimit: number | null;
+    remainingRequests: number | null;
     error?: string;
   }> {
     try {
@@ -96,11 +97,10 @@ export class UsageTrackingService {
         };
       }
 
-      const dailyLimit = this.getDailyLimitForRole(user.role);
+      const dailyLimit = await BudgetService.getDailyRequestLimit(user);
 
-      // Get today's usage
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
+      // Get today's usage (budget windows are UTC days)
+      const today = budgetWindowStart('daily');
 
       const [usageResult] = await drizzleDb
         .select({ count: count() })
@@ -114,10 +114,10 @@ export class UsageTrackingService {
         );
 
       const currentUsage = usageResult?.count || 0;
-      const remainingRequests = Math.max(0, dailyLimit - currentUsage);
+      const remainingRequests = dailyLimit === null ? null : Math.max(0, dailyLimit - currentUsage);
 
       return {
-        canMake: currentUsage < dailyLimit,
+        canMake: dailyLimit === null || currentUsage < dailyLimit,
         currentUsage,
         dailyLimit,
         remainingRequests
@@ -169,6 +169,8 @@ export class UsageTrackingService {
         .select({
           tokensConsumed: auditLogs.tokensConsumed,
           aiModelUsed: auditLogs.aiModelUsed,
+          aiProvider: auditLogs.aiProvider,
+          aiCost: auditLogs.aiCost,
           createdAt: auditLogs.createdAt
         })
         .from(auditLogs)
@@ -181,21 +183,22 @@ export class UsageTrackingService {
       // Calculate costs
       let totalCost = 0;
       const requestsByModel: Record<string, number> = {};
+      const requestsByProvider: Record<string, number> = {};
 
       logs.forEach(log => {
         const model = log.aiModelUsed || 'gpt-4o-mini';
-        const tokens = log.tokensConsumed || 0;
-        
-        totalCost += this.calculateCost(model, tokens);
+        const provider = log.aiProvider || 'openai';
+
+        totalCost += this.getLogCost(log);
         requestsByModel[model] = (requestsByModel[model] || 0) + 1;
+        requestsByProvider[provider] = (requestsByProvider[provider] || 0) + 1;
       });
 
       const averageTokensPerRequest = totalRequests > 0 ? totalTokens / totalRequests : 0;
 
       // Get current daily usage
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      
+      const today = budgetWindowStart('daily');
+
       const [dailyUsageResult] = await drizzleDb
         .select({ count: count() })
         .from(auditLogs)
@@ -208,10 +211,11 @@ export class UsageTrackingService {
         );
 
       const currentDailyUsage = dailyUsageResult?.count || 0;
-      const dailyLimit = this.getDailyLimitForRole(user.role);
+      const dailyLimit = await BudgetService.getDailyRequestLimit(user);
 
       // Generate daily usage array (last 30 days)
       const dailyUsage = this.generateDailyUsageArray(logs, 30);
+      const cacheStats = await DraftCacheService.getCacheStats({ userId, since: dateRange?.start });
 
       return {
         userId,
@@ -222,10 +226,12 @@ export class UsageTrackingService {
         totalCost: Math.round(totalCost * 10000) / 10000, // Round to 4 decimal places
         averageTokensPerRequest: Math.round(averageTokensPerRequest),
         requestsByModel,
+        requestsByProvider,
+        ...cacheStats,
         dailyUsage,
         dailyLimit,
         currentDailyUsage,
-        remainingDailyRequests: Math.max(0, dailyLimit - currentDailyUsage)
+        remainingDailyRequests: dailyLimit === null ? null : Math.max(0, dailyLimit - currentDailyUsage)
       };
 
     } catch (error) {
@@ -267,6 +273,8 @@ export class UsageTrackingService {
         .select({
           tokensConsumed: auditLogs.tokensConsumed,
           aiModelUsed: auditLogs.aiModelUsed,
+          aiProvider: auditLogs.aiProvider,
+          aiCost: auditLogs.aiCost,
           createdAt: auditLogs.createdAt,
           userId: auditLogs.userId,
           userEmail: users.email,
@@ -283,15 +291,18 @@ export class UsageTrackingService {
       // Calculate costs and model usage
       let totalCost = 0;
       const requestsByModel: Record<string, number> = {};
+      const requestsByProvider: Record<string, number> = {};
       const userStatsMap: Record<string, any> = {};
 
       logs.forEach(log => {
         const model = log.aiModelUsed || 'gpt-4o-mini';
+        const provider = log.aiProvider || 'openai';
         const tokens = log.tokensConsumed || 0;
-        const cost = this.calculateCost(model, tokens);
+        const cost = this.getLogCost(log);
         
         totalCost += cost;
         requestsByModel[model] = (requestsByModel[model] || 0) + 1;
+        requestsByProvider[provider] = (requestsByProvider[provider] || 0) + 1;
 
         // Track per-user stats
         const userId = log.userId;
@@ -315,6 +326,7 @@ export class UsageTrackingService {
 
       const averageTokensPerRequest = totalRequests > 0 ? totalTokens / totalRequests : 0;
       const dailyUsage = this.generateDailyUsageArray(logs, 30);
+      const cacheStats = await DraftCacheService.getCacheStats({ since: dateRange?.start });
 
       // Round costs for all users
       const userStats = Object.values(userStatsMap).map((user: any) => ({
@@ -328,6 +340,8 @@ export class UsageTrackingService {
         totalCost: Math.round(totalCost * 10000) / 10000,
         averageTokensPerRequest: Math.round(averageTokensPerRequest),
         requestsByModel,
+        requestsByProvider,
+        ...cacheStats,
         dailyUsage,
         userStats
       };
@@ -348,6 +362,8 @@ export class UsageTrackingService {
     requestText: string;
     generatedDraft: string;
     model: string;
+    provider?: string;
+    cost?: number;
     tokensUsed: number;
     processingTimeMs: number;
   }): Promise<void> {
@@ -364,6 +380,8 @@ export class UsageTrackingService {
           actionType: 'draft_generated',
           deliveryStatus: 'draft',
           aiModelUsed: data.model,
+          aiProvider: data.provider,
+          aiCost: data.cost,
           tokensConsumed: data.tokensUsed
         });
 
@@ -377,7 +395,7 @@ export class UsageTrackingService {
    * Generate daily usage array for charting
    */
   private static generateDailyUsageArray(
-    logs: Array<{ createdAt: Date; tokensConsumed?: number | null; aiModelUsed?: string | null }>,
+    logs: Array<{ createdAt: Date; tokensConsumed?: number | null; aiModelUsed?: string | null; aiCost?: number | null }>,
     days: number
   ): Array<{ date: string; requests: number; tokens: number; cost: number }> {
     const dailyMap: Record<string, { requests: number; tokens: number; cost: number }> = {};
@@ -395,7 +413,7 @@ export class UsageTrackingService {
       const dateStr = log.createdAt.toISOString().split('T')[0];
       if (dailyMap[dateStr]) {
         const tokens = log.tokensConsumed || 0;
-        const cost = this.calculateCost(log.aiModelUsed || 'gpt-4o-mini', tokens);
+        const cost = this.getLogCost(log);
         
         dailyMap[dateStr].requests += 1;
         dailyMap[dateStr].tokens += tokens;
@@ -413,120 +431,4 @@ export class UsageTrackingService {
       }))
       .sort((a, b) => a.date.localeCompare(b.date));
   }
-
-  /**
-   * Get cost alerts for users exceeding thresholds
-   */
-  static async getCostAlerts(requestingUser: User): Promise<Array<{
-    userId: string;
-    email: string;
-    role: string;
-    dailyCost: number;
-    monthlyCost: number;
-    dailyThreshold: number;
-    monthlyThreshold: number;
-    alertType: 'warning' | 'critical';
-  }>> {
-    if (!hasRole(requestingUser, 'admin')) {
-      throw new Error('Only administrators can access cost alerts');
-    }
-
-    try {
-      // Define cost thresholds by role
-      const thresholds = {
-        admin: { daily: 10.0, monthly: 200.0 },
-        doctor: { daily: 5.0, monthly: 100.0 },
-        reviewer: { daily: 2.0, monthly: 50.0 },
-        staff: { daily: 1.0, monthly: 20.0 }
-      };
-
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      
-      const thisMonth = new Date();
-      thisMonth.setDate(1);
-      thisMonth.setHours(0, 0, 0, 0);
-
-      // Get all users with their usage
-      const allUsers = await drizzleDb
-        .select({
-          id: users.id,
-          email: users.email,
-          role: users.role
-        })
-        .from(users);
-
-      const alerts: any[] = [];
-
-      for (const user of allUsers) {
-        const roleThresholds = thresholds[user.role as keyof typeof thresholds] || thresholds.staff;
-
-        // Get daily usage
-        const dailyLogs = await drizzleDb
-          .select({
-            tokensConsumed: auditLogs.tokensConsumed,
-            aiModelUsed: auditLogs.aiModelUsed
-          })
-          .from(auditLogs)
-          .where(
-            and(
-              eq(auditLogs.userId, user.id),
-              eq(auditLogs.actionType, 'draft_generated'),
-              gte(auditLogs.createdAt, today)
-            )
-          );
-
-        // Get monthly usage
-        const monthlyLogs = await drizzleDb
-          .select({
-            tokensConsumed: auditLogs.tokensConsumed,
-            aiModelUsed: auditLogs.aiModelUsed
-          })
-          .from(auditLogs)
-          .where(
-            and(
-              eq(auditLogs.userId, user.id),
-              eq(auditLogs.actionType, 'draft_generated'),
-              gte(auditLogs.createdAt, thisMonth)
-            )
-          );
-
-        // Calculate costs
-        const dailyCost = dailyLogs.reduce((sum, log) => {
-          return sum + this.calculateCost(log.aiModelUsed || 'gpt-4o-mini', log.tokensConsumed || 0);
-        }, 0);
-
-        const monthlyCost = monthlyLogs.reduce((sum, log) => {
-          return sum + this.calculateCost(log.aiModelUsed || 'gpt-4o-mini', log.tokensConsumed || 0);
-        }, 0);
-
-        // Check thresholds
-        const dailyExceeded = dailyCost > roleThresholds.daily;
-        const monthlyExceeded = monthlyCost > roleThresholds.monthly;
-
-        if (dailyExceeded || monthlyExceeded) {
-          const alertType = (dailyCost > roleThresholds.daily * 2 || monthlyCost > roleThresholds.monthly * 2) 
-            ? 'critical' 
-            : 'warning';
-
-          alerts.push({
-            userId: user.id,
-            email: user.email,
-            role: user.role,
-            dailyCost: Math.round(dailyCost * 10000) / 10000,
-            monthlyCost: Math.round(monthlyCost * 10000) / 10000,
-            dailyThreshold: roleThresholds.daily,
-            monthlyThreshold: roleThresholds.monthly,
-            alertType
-          });
-        }
-      }
-
-      return alerts;
-
-    } catch (error) {
-      console.error('Error getting cost alerts:', error);
-      throw new Error('Failed to fetch cost alerts');
-    }
-  }
 }
@@ -0,0 +1,147 @@
+// Urgency triage for patient inquiries: keyword rules first, an optional model second
+
+export type UrgencyLevel = 'emergency' | 'urgent' | 'routine' | 'administrative';
+
+export type TriageSource = 'rules' | 'model';
+
+export interface TriageResult {
+  level: UrgencyLevel;
+  rationale: string;
+  source: TriageSource;
+  matchedTerms: string[];
+}
+
+interface TriageRule {
+  level: UrgencyLevel;
+  reason: string;
+  pattern: RegExp;
+}
+
+// Ordered most to least urgent; the first level with a match wins
+const TRIAGE_RULES: TriageRule[] = [
+  { level: 'emergency', reason: 'possible cardiac event', pattern: /\b(?:chest (?:pain|pressure|tightness)|heart attack)\b/gi },
+  { level: 'emergency', reason: 'breathing difficulty', pattern: /\b(?:can'?t breathe|cannot breathe|(?:trouble|difficulty) breathing|short(?:ness)? of breath|choking)\b/gi },
+  { level: 'emergency', reason: 'suicidal ideation or self-harm', pattern: /\b(?:suicid\w*|kill myself|end my life|want to die|self[- ]harm|hurt myself)\b/gi },
+  { level: 'emergency', reason: 'possible overdose or poisoning', pattern: /\b(?:overdos\w*|took too many|poison\w*)\b/gi },
+  { level: 'emergency', reason: 'possible stroke', pattern: /\b(?:stroke|face (?:is )?droop\w*|slurred speech|sudden (?:numbness|weakness))\b/gi },
+  { level: 'emergency', reason: 'severe bleeding or loss of consciousness', pattern: /\b(?:severe bleeding|bleeding (?:heavily|won'?t stop)|vomiting blood|coughing up blood|unconscious|unresponsive|passed out)\b/gi },
+  { level: 'emergency', reason: 'possible anaphylaxis or seizure', pattern: /\b(?:anaphyla\w*|throat (?:is )?(?:swelling|closing)|seizures?)\b/gi },
+  { level: 'urgent', reason: 'high fever', pattern: /\b(?:high fever|fever (?:of )?(?:10[2-9]|39|4\d)(?:\.\d)?)\b/gi },
+  { level: 'urgent', reason: 'severe or worsening symptoms', pattern: /\b(?:severe pain|(?:getting|much) worse|worsening|unbearable)\b/gi },
+  { level: 'urgent', reason: 'possible medication reaction', pattern: /\b(?:allergic reaction|rash (?:after|since)|hives|swelling)\b/gi },
+  { level: 'urgent', reason: 'bleeding or signs of infection', pattern: /\b(?:blood in (?:my )?(?:urine|stool)|infected|pus|fainted|dizzy|dizziness)\b/gi },
+  { level: 'administrative', reason: 'administrative request', pattern: /\b(?:refills?|appointments?|reschedul\w*|schedul\w*|billing|invoice|insurance|forms?|medical records|copay)\b/gi }
+];
+
+const URGENCY_RANK: Record<UrgencyLevel, number> = {
+  emergency: 4,
+  urgent: 3,
+  routine: 2,
+  administrative: 1
+};
+
+export const URGENCY_LEVELS: UrgencyLevel[] = ['emergency', 'urgent', 'routine', 'administrative'];
+
+/**
+ * Classify an inquiry with the keyword rules
+ */
+export function classifyUrgencyByRules(inquiry: string): TriageResult {
+  for (const level of ['emergency', 'urgent', 'administrative'] as const) {
+    const hits = TRIAGE_RULES
+      .filter(rule => rule.level === level)
+      .map(rule => ({ rule, terms: Array.from(inquiry.matchAll(rule.pattern), match => match[0].toLowerCase()) }))
+      .filter(hit => hit.terms.length > 0);
+
+    if (hits.length > 0) {
+      const matchedTerms = Array.from(new Set(hits.flatMap(hit => hit.terms)));
+      return {
+        level,
+        rationale: `Matched ${hits.map(hit => hit.rule.reason).join(', ')}: ${matchedTerms.map(term => `"${term}"`).join(', ')}`,
+        source: 'rules',
+        matchedTerms
+      };
+    }
+  }
+
+  return {
+    level: 'routine',
+    rationale: 'No urgent or administrative terms found',
+    source: 'rules',
+    matchedTerms: []
+  };
+}
+
+/**
+ * The more urgent of two classifications; ties keep the first
+ */
+export function moreUrgent(a: TriageResult, b: TriageResult): TriageResult {
+  return URGENCY_RANK[b.level] > URGENCY_RANK[a.level] ? b : a;
+}
+
+/**
+ * MessageQueue.priority for an urgency level
+ */
+export function priorityForUrgency(level: UrgencyLevel): 'low' | 'normal' | 'high' | 'urgent' {
+  switch (level) {
+    case 'emergency':
+      return 'urgent';
+    case 'urgent':
+      return 'high';
+    case 'administrative':
+      return 'low';
+    case 'routine':
+    default:
+      return 'normal';
+  }
+}
+
+const PRIORITY_RANK = { low: 1, normal: 2, high: 3, urgent: 4 } as const;
+
+/**
+ * Queue priority for a message: the requested priority, raised to the inquiry's urgency if that is higher
+ */
+export function queuePriorityFor(
+  requested: keyof typeof PRIORITY_RANK | undefined,
+  urgencyLevel: string | null | undefined
+): keyof typeof PRIORITY_RANK {
+  const chosen = requested || 'normal';
+  if (!urgencyLevel || !URGENCY_LEVELS.includes(urgencyLevel as UrgencyLevel)) {
+    return chosen;
+  }
+
+  const fromUrgency = priorityForUrgency(urgencyLevel as UrgencyLevel);
+  return PRIORITY_RANK[fromUrgency] > PRIORITY_RANK[chosen] ? fromUrgency : chosen;
+}
+
+/**
+ * Parse the model's JSON reply; returns null for anything unexpected
+ */
+export function parseModelTriage(content: string): TriageResult | null {
+  const json = content.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) return null;
+
+  try {
+    const parsed = JSON.parse(json) as { level?: string; rationale?: string };
+    if (!parsed.level || !URGENCY_LEVELS.includes(parsed.level as UrgencyLevel)) {
+      return null;
+    }
+
+    return {
+      level: parsed.level as UrgencyLevel,
+      rationale: (parsed.rationale || 'Model classification').slice(0, 500),
+      source: 'model',
+      matchedTerms: []
+    };
+  } catch {
+    return null;
+  }
+}
+
+export const TRIAGE_SYSTEM_PROMPT = `You triage patient messages sent to a medical practice.
+Classify the message into exactly one urgency level:
+- emergency: possible life-threatening symptoms (chest pain, trouble breathing, suicidal thoughts, stroke signs, severe bleeding, overdose)
+- urgent: needs clinical attention today (high fever, worsening or severe symptoms, medication reactions)
+- routine: clinical question that can wait for a normal reply
+- administrative: refills, appointments, billing, forms or records
+
+Reply with JSON only: {"level": "<level>", "rationale": "<one sentence>"}`;
@@ -0,0 +1,67 @@
+// Undo send: immediate email and SMS sends wait in the queue for a short window, and any message
+// the delivery processor has not picked up yet can be recalled to draft
+
+import type { MessageState } from './message-states';
+
+export const DEFAULT_UNDO_SEND_SECONDS = 30;
+
+// Longer holds are what scheduled sends are for
+export const MAX_UNDO_SEND_SECONDS = 300;
+
+// Portal messages are posted without a queue job, so there is nothing to hold
+export const HELD_DELIVERY_METHODS = ['email', 'sms'];
+
+// Workflow states a message can be recalled from; its queue entry must also still be waiting
+export const RECALLABLE_STATES: MessageState[] = ['approved', 'scheduled'];
+
+/**
+ * The undo window in seconds from UNDO_SEND_SECONDS; 0 turns it off, anything unreadable gets the default
+ */
+export function parseUndoSendSeconds(value: unknown): number {
+  if (value === undefined || value === null || value === '') {
+    return DEFAULT_UNDO_SEND_SECONDS;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    return DEFAULT_UNDO_SEND_SECONDS;
+  }
+
+  return Math.min(Math.floor(seconds), MAX_UNDO_SEND_SECONDS);
+}
+
+/**
+ * When the undo window of a send made at `now` closes; null when the send is not held
+ */
+export function undoDeadline(deliveryMethod: string, windowSeconds: number, now: Date = new Date()): Date | null {
+  if (windowSeconds <= 0 || !HELD_DELIVERY_METHODS.includes(deliveryMethod)) {
+    return null;
+  }
+  return new Date(now.getTime() + windowSeconds * 1000);
+}
+
+/**
+ * Why a message cannot be recalled; null when it can
+ */
+export function recallProblem(workflowState: string, queueStatus: string | null | undefined): string | null {
+  if (queueStatus === 'processing' || workflowState === 'sending') {
+    return 'The message is already being delivered and can no longer be recalled';
+  }
+  if (['sent', 'delivered'].includes(workflowState) || ['sent', 'delivered'].includes(queueStatus || '')) {
+    return 'The message was already sent';
+  }
+  if (workflowState === 'cancelled') {
+    return 'The message was cancelled';
+  }
+  if (!RECALLABLE_STATES.includes(workflowState as MessageState) || queueStatus !== 'queued') {
+    return 'Only approved or scheduled messages waiting for delivery can be recalled';
+  }
+  return null;
+}
+
+/**
+ * Whole seconds left before a deadline, never negative
+ */
+export function secondsLeft(deadline: Date | string, now: Date = new Date()): number {
+  return Math.max(0, Math.ceil((new Date(deadline).getTime() - now.getTime()) / 1000));
+}
@@ -0,0 +1,688 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import * as Sentry from '@sentry/cloudflare';
+
+// Core LLM provider interface
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResult>;
+  stream(request: LLMCompletionRequest, onDelta: (content: string) => void): Promise<LLMCompletionResult>;
+  estimateCost(model: string, usage: LLMUsage): number;
+  healthCheck(): Promise<boolean>;
+}
+
+// Chat message sent to a provider
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Provider-agnostic completion request
+export interface LLMCompletionRequest {
+  model: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature?: number;
+  topP?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  metadata?: Record<string, string>;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// Result from a completion, tagged with the provider that actually served it
+export interface LLMCompletionResult {
+  content: string;
+  model: string;
+  provider: string;
+  usage: LLMUsage;
+  cost: number;
+}
+
+// Provider configuration
+export interface LLMProviderConfig {
+  name: string;
+  enabled: boolean;
+  priority: number; // Lower number = higher priority for failover
+  model?: string; // Overrides the requested model (Azure deployment, self-hosted model name)
+}
+
+// Error raised by providers, normalized across SDKs
+export class LLMProviderError extends Error {
+  readonly provider: string;
+  readonly status?: number;
+
+  constructor(provider: string, message: string, status?: number) {
+    super(message);
+    this.name = 'LLMProviderError';
+    this.provider = provider;
+    this.status = status;
+  }
+}
+
+// OpenAI list pricing per 1M tokens
+const OPENAI_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+  'gpt-4o': { input: 2.50, output: 10.00 },
+  'gpt-3.5-turbo': { input: 0.50, output: 1.50 }
+};
+
+/**
+ * Calculate cost from OpenAI list pricing
+ * Dated snapshots (e.g. gpt-4o-mini-2024-07-18) are priced as their base model
+ */
+function calculateOpenAICost(model: string, usage: LLMUsage): number {
+  const baseModel = Object.keys(OPENAI_PRICING)
+    .sort((a, b) => b.length - a.length)
+    .find(name => model.startsWith(name));
+  const modelPricing = OPENAI_PRICING[baseModel || 'gpt-4o-mini'];
+
+  const inputCost = (usage.promptTokens / 1000000) * modelPricing.input;
+  const outputCost = (usage.completionTokens / 1000000) * modelPricing.output;
+
+  return Math.round((inputCost + outputCost) * 10000) / 10000; // Round to 4 decimal places
+}
+
+// Shared implementation for any endpoint speaking the OpenAI chat completions API
+abstract class ChatCompletionsProvider implements LLMProvider {
+  abstract readonly name: string;
+  protected client: OpenAI;
+  private sendPlatformOptions: boolean;
+
+  constructor(client: OpenAI, sendPlatformOptions: boolean) {
+    this.client = client;
+    this.sendPlatformOptions = sendPlatformOptions;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    try {
+      const completion = await this.client.chat.completions.create(this.buildParams(request));
+
+      const usage = {
+        promptTokens: completion.usage?.prompt_tokens || 0,
+        completionTokens: completion.usage?.completion_tokens || 0,
+        totalTokens: completion.usage?.total_tokens || 0
+      };
+      const model = completion.model || request.model;
+
+      return {
+        content: completion.choices[0]?.message?.content || '',
+        model,
+        provider: this.name,
+        usage,
+        cost: this.estimateCost(model, usage)
+      };
+    } catch (error) {
+      throw this.normalizeError(error);
+    }
+  }
+
+  async stream(request: LLMCompletionRequest, onDelta: (content: string) => void): Promise<LLMCompletionResult> {
+    try {
+      const stream = await this.client.chat.completions.create({
+        ...this.buildParams(request),
+        stream: true,
+        stream_options: { include_usage: true } // Final chunk carries token usage
+      });
+
+      let content = '';
+      let model = request.model;
+      let usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+        if (chunk.model) {
+          model = chunk.model;
+        }
+        if (chunk.usage) {
+          usage = {
+            promptTokens: chunk.usage.prompt_tokens || 0,
+            completionTokens: chunk.usage.completion_tokens || 0,
+            totalTokens: chunk.usage.total_tokens || 0
+          };
+        }
+      }
+
+      return {
+        content,
+        model,
+        provider: this.name,
+        usage,
+        cost: this.estimateCost(model, usage)
+      };
+    } catch (error) {
+      throw this.normalizeError(error);
+    }
+  }
+
+  estimateCost(model: string, usage: LLMUsage): number {
+    return calculateOpenAICost(model, usage);
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.client.models.list();
+      return true;
+    } catch (error) {
+      console.warn(`[LLM PROVIDER] ${this.name} health check failed:`, error);
+      return false;
+    }
+  }
+
+  private buildParams(request: LLMCompletionRequest) {
+    return {
+      model: request.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      top_p: request.topP,
+      frequency_penalty: request.frequencyPenalty,
+      presence_penalty: request.presencePenalty,
+      // store/metadata are OpenAI platform features; other endpoints may reject them
+      ...(this.sendPlatformOptions && {
+        store: false, // Don't store conversations for training
+        metadata: request.metadata
+      })
+    };
+  }
+
+  private normalizeError(error: unknown): LLMProviderError {
+    if (error instanceof LLMProviderError) {
+      return error;
+    }
+    if (error instanceof OpenAI.APIError) {
+      return new LLMProviderError(this.name, error.message, error.status);
+    }
+    return new LLMProviderError(this.name, error instanceof Error ? error.message : 'Unknown provider error');
+  }
+}
+
+// OpenAI platform
+export class OpenAIProvider extends ChatCompletionsProvider {
+  readonly name = 'openai';
+
+  constructor(apiKey: string) {
+    super(new OpenAI({
+      apiKey,
+      timeout: 30000, // 30 second timeout
+      maxRetries: 2,
+    }), true);
+  }
+}
+
+// Azure OpenAI deployment
+export class AzureOpenAIProvider extends ChatCompletionsProvider {
+  readonly name = 'azure-openai';
+
+  constructor(endpoint: string, apiKey: string, deployment: string, apiVersion: string) {
+    super(new AzureOpenAI({
+      endpoint,
+      apiKey,
+      deployment,
+      apiVersion,
+      timeout: 30000,
+      maxRetries: 2,
+    }), false);
+  }
+}
+
+// Any self-hosted endpoint exposing the OpenAI chat completions API (vLLM, Ollama, LM Studio, ...)
+export class OpenAICompatibleProvider extends ChatCompletionsProvider {
+  readonly name = 'openai-compatible';
+
+  constructor(baseURL: string, apiKey?: string) {
+    super(new OpenAI({
+      baseURL,
+      apiKey: apiKey || 'not-required',
+      timeout: 60000, // Self-hosted models are often slower
+      maxRetries: 1,
+    }), false);
+  }
+
+  estimateCost(): number {
+    return 0; // Self-hosted inference has no per-token charge
+  }
+}
+
+// Deterministic local fake for development, tests and offline evaluation
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = 'fake';
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    const content = buildFakeResponse(request);
+    const promptChars = request.messages.reduce((total, message) => total + message.content.length, 0);
+
+    // Rough 4 characters per token estimate keeps usage deterministic
+    const usage = {
+      promptTokens: Math.ceil(promptChars / 4),
+      completionTokens: Math.ceil(content.length / 4),
+      totalTokens: Math.ceil(promptChars / 4) + Math.ceil(content.length / 4)
+    };
+
+    console.log('[FAKE LLM] Generated deterministic response:', {
+      model: request.model,
+      totalTokens: usage.totalTokens
+    });
+
+    return {
+      content,
+      model: `${request.model}-stub`,
+      provider: this.name,
+      usage,
+      cost: 0
+    };
+  }
+
+  async stream(request: LLMCompletionRequest, onDelta: (content: string) => void): Promise<LLMCompletionResult> {
+    const result = await this.complete(request);
+
+    // Replay word by word so the streaming path can be exercised without an API key
+    for (const chunk of result.content.match(/\S+\s*/g) || []) {
+      onDelta(chunk);
+    }
+
+    return result;
+  }
+
+  estimateCost(): number {
+    return 0;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+}
+
+/**
+ * Build a realistic response from the labelled fields of the draft prompt
+ */
+function buildFakeResponse(request: LLMCompletionRequest): string {
+  const systemPrompt = request.messages.find(message => message.role === 'system')?.content || '';
+  const userPrompt = request.messages.filter(message => message.role === 'user').pop()?.content || '';
+
+  // Reading-level simplification pass over an existing draft
+  if (systemPrompt.startsWith('You simplify patient messages')) {
+    return simplifyFakeDraft(userPrompt);
+  }
+
+  // Back-translation for reviewers: the fake only drafts in English, so the text is returned as-is
+  if (systemPrompt.startsWith('You translate patient messages')) {
+    return userPrompt;
+  }
+
+  // Targeted rewrite of one paragraph
+  if (systemPrompt.startsWith('You revise one paragraph')) {
+    return refineFakeParagraph(userPrompt);
+  }
+
+  // Citation pass over a finished draft
+  if (systemPrompt.startsWith('You cite sources for patient messages')) {
+    return groundFakeDraft(userPrompt);
+  }
+
+  const field = (text: string, label: string) => text.match(new RegExp(`${label}:\\s*(.+)`))?.[1]?.trim() || '';
+
+  const patientName = field(userPrompt, '- Name') || 'there';
+  const medications = field(userPrompt, '- Current Medications');
+  const allergies = field(userPrompt, '- Allergies');
+  const condition = field(userPrompt, '- Medical Condition');
+  const doctorNotes = field(userPrompt, '- Doctor Notes');
+  // Quoted sign-offs can span several lines ("Best regards,\nDr. Smith")
+  const quotedSignOff = `${systemPrompt}\n${userPrompt}`.match(/Sign off with:\s*"([\s\S]*?)"/)?.[1]?.trim();
+  const signOff = quotedSignOff || (field(systemPrompt, 'Sign off with') || field(userPrompt, 'Sign off with'))
+    .replace(/^"|"$/g, '') || 'Best regards,\nYour Healthcare Team';
+  const inquiry = (userPrompt.split('PATIENT INQUIRY:')[1] || '').split('\n\n')[0].trim();
+  const topic = inquiry.toLowerCase();
+
+  const hasAllergies = allergies && allergies !== 'NKDA' && allergies !== 'None';
+
+  if (/medication|prescription|drug|refill/.test(topic)) {
+    return `Hello ${patientName},
+
+Thank you for your inquiry about your medication. I understand your concern about ${topic}.
+
+Based on your current medications (${medications || 'as prescribed'}), I want to address your question carefully. ${hasAllergies ? `Given your allergies to ${allergies}, we need to be particularly careful with any changes.` : ''}
+
+For medication-related questions, I recommend scheduling an appointment so we can review your current regimen and discuss any adjustments that might be needed. This ensures your safety and optimal treatment outcomes.
+
+Please call our office to schedule a consultation at your earliest convenience.
+
+${signOff}`;
+  }
+
+  if (/appointment|schedule|visit/.test(topic)) {
+    return `Hello ${patientName},
+
+Thank you for reaching out regarding ${topic}.
+
+I understand you'd like to schedule an appointment or discuss appointment-related matters. Our office staff will be happy to help you find a suitable time that works with your schedule.
+
+${doctorNotes && doctorNotes !== 'None' ? `Based on your recent visit notes: ${doctorNotes}` : ''}
+
+Please call our office during business hours or use our patient portal to schedule your appointment. We look forward to seeing you soon.
+
+${signOff}`;
+  }
+
+  return `Hello ${patientName},
+
+Thank you for your inquiry. I appreciate you taking the time to reach out with your question about ${topic}.
+
+Based on your medical history (${condition}) and current situation, I want to provide you with the most appropriate guidance. ${medications ? `I note you're currently taking ${medications}.` : ''}
+
+${hasAllergies ? `As always, we'll keep in mind your allergies to ${allergies}.` : ''}
+
+For the best care and to address your concerns properly, I recommend scheduling an appointment where we can discuss this in detail and ensure you receive personalized medical guidance.
+
+${signOff}`;
+}
+
+// Plain-word swaps used by the fake simplification pass
+const FAKE_SIMPLER_WORDS: Record<string, string> = {
+  appreciate: 'value',
+  appropriate: 'right',
+  particularly: 'very',
+  consultation: 'visit',
+  convenience: 'chance',
+  medication: 'medicine',
+  regimen: 'plan',
+  adjustments: 'changes',
+  recommend: 'suggest',
+  optimal: 'best',
+  outcomes: 'results',
+  personalized: 'custom',
+  situation: 'health',
+  currently: 'now'
+};
+
+/**
+ * Deterministic simplification: long sentences split at commas and "and", a few long words swapped
+ * Short lines and lines without sentence punctuation (greeting, sign-off) are kept as they are
+ */
+function simplifyFakeDraft(draft: string): string {
+  return draft.split('\n').map(line => {
+    if (line.trim().split(/\s+/).length < 5 || !/[.!?]/.test(line)) return line;
+
+    const swapped = line.replace(/[A-Za-z]+/g, word => FAKE_SIMPLER_WORDS[word.toLowerCase()] || word);
+    return swapped
+      .split(/(?<=[.!?])\s+/)
+      .flatMap(sentence => sentence.split(/\s+/).length > 12 ? sentence.split(/,\s+|\s+and\s+/) : [sentence])
+      .map(part => part.trim())
+      .filter(Boolean)
+      .map(part => {
+        const capitalized = part.charAt(0).toUpperCase() + part.slice(1);
+        return /[.!?]$/.test(capitalized) ? capitalized : `${capitalized}.`;
+      })
+      .join(' ');
+  }).join('\n');
+}
+
+/**
+ * Deterministic paragraph rewrite for a few instruction keywords:
+ * shorter keeps the first sentence, remove drops sentences naming the term, warmer adds an opening, simpler swaps words
+ * Other instructions return the paragraph unchanged
+ */
+function refineFakeParagraph(input: string): string {
+  const instruction = (input.match(/^INSTRUCTION:\s*(.+)$/m)?.[1] || '').toLowerCase();
+  const paragraph = input.split('\nPARAGRAPH:\n')[1]?.trim() || '';
+  const sentences = paragraph.split(/(?<=[.!?])\s+/);
+
+  const removed = instruction.match(/remove (?:the )?(\w+)/)?.[1];
+  if (removed) {
+    return sentences.filter(sentence => !sentence.toLowerCase().includes(removed)).join(' ') || paragraph;
+  }
+  if (/short|concise|brief/.test(instruction)) {
+    return sentences[0];
+  }
+  if (/warm|friendl|kind/.test(instruction)) {
+    return `I hope you are doing well. ${paragraph}`;
+  }
+  if (/simpl|plain/.test(instruction)) {
+    return simplifyFakeDraft(paragraph);
+  }
+
+  return paragraph;
+}
+
+// Words that make an uncited fake sentence clinical rather than a pleasantry
+const FAKE_CLINICAL_TERMS = /medic|allerg|history|dose|symptom|treat|condition|prescri|regimen/i;
+
+/**
+ * Deterministic citations: a source item (split at commas, semicolons and lines) supports a sentence
+ * when one of its words of four or more letters appears in the sentence
+ */
+function groundFakeDraft(input: string): string {
+  const [sentencePart, sourcePart = ''] = input.split('\nSOURCES:\n');
+  const sentences = sentencePart.replace(/^SENTENCES:\n/, '').split('\n')
+    .map(line => line.match(/^(\d+)\.\s+(.*)$/))
+    .filter((match): match is RegExpMatchArray => match !== null);
+
+  const sources = sourcePart.split(/^\[(\w+)\]\n/m).slice(1);
+  const items: Array<{ field: string; snippet: string }> = [];
+  for (let i = 0; i < sources.length; i += 2) {
+    for (const snippet of sources[i + 1].split(/[,;\n]/).map(item => item.trim()).filter(Boolean)) {
+      items.push({ field: sources[i], snippet });
+    }
+  }
+
+  return JSON.stringify({
+    sentences: sentences.map(([, index, sentence]) => {
+      const words = new Set(sentence.toLowerCase().match(/[a-z]{4,}/g) || []);
+      const citations = items.filter(item => (item.snippet.toLowerCase().match(/[a-z]{4,}/g) || []).some(word => words.has(word)));
+      return {
+        index: Number(index),
+        nonClinical: citations.length === 0 && !FAKE_CLINICAL_TERMS.test(sentence),
+        citations
+      };
+    })
+  });
+}
+
+// LLM provider manager with failover support
+export class LLMProviderManager {
+  private providers: Map<string, LLMProvider> = new Map();
+  private configs: Map<string, LLMProviderConfig> = new Map();
+
+  registerProvider(name: string, provider: LLMProvider, config: LLMProviderConfig): void {
+    this.providers.set(name, provider);
+    this.configs.set(name, config);
+
+    console.log(`[LLM MANAGER] Registered provider: ${name}`, {
+      enabled: config.enabled,
+      priority: config.priority,
+      model: config.model
+    });
+  }
+
+  getActiveProviders(): LLMProviderConfig[] {
+    return Array.from(this.configs.values())
+      .filter(config => config.enabled)
+      .sort((a, b) => a.priority - b.priority);
+  }
+
+  /**
+   * Run a completion, failing over to the next provider on error
+   */
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    return this.withFailover(request, (provider, providerRequest) => provider.complete(providerRequest));
+  }
+
+  /**
+   * Stream a completion; failover is only possible until the first token has been forwarded
+   */
+  async stream(request: LLMCompletionRequest, onDelta: (content: string) => void): Promise<LLMCompletionResult> {
+    let hasStreamed = false;
+
+    return this.withFailover(
+      request,
+      (provider, providerRequest) => provider.stream(providerRequest, (content) => {
+        hasStreamed = true;
+        onDelta(content);
+      }),
+      () => !hasStreamed
+    );
+  }
+
+  async healthCheck(): Promise<Record<string, boolean>> {
+    const results: Record<string, boolean> = {};
+
+    for (const [name, provider] of this.providers) {
+      try {
+        results[name] = await provider.healthCheck();
+      } catch (error) {
+        console.error(`[LLM MANAGER] Health check failed for ${name}:`, error);
+        results[name] = false;
+      }
+    }
+
+    return results;
+  }
+
+  private async withFailover(
+    request: LLMCompletionRequest,
+    run: (provider: LLMProvider, request: LLMCompletionRequest) => Promise<LLMCompletionResult>,
+    canFailover: () => boolean = () => true
+  ): Promise<LLMCompletionResult> {
+    const activeProviders = this.getActiveProviders();
+    let lastError: LLMProviderError | null = null;
+
+    for (const config of activeProviders) {
+      const provider = this.providers.get(config.name);
+      if (!provider) continue;
+
+      try {
+        return await run(provider, { ...request, model: config.model || request.model });
+      } catch (error) {
+        lastError = error instanceof LLMProviderError
+          ? error
+          : new LLMProviderError(provider.name, error instanceof Error ? error.message : 'Unknown provider error');
+
+        console.warn(`[LLM MANAGER] Provider ${provider.name} failed:`, lastError.message);
+
+        Sentry.addBreadcrumb({
+          category: 'llm',
+          message: 'LLM provider failed',
+          level: 'warning',
+          data: {
+            provider: provider.name,
+            status: lastError.status,
+            error: lastError.message
+          }
+        });
+
+        // A rejected request (400) would be rejected everywhere, and a partial stream cannot be replayed
+        if (lastError.status === 400 || !canFailover()) {
+          throw lastError;
+        }
+      }
+    }
+
+    throw lastError || new LLMProviderError('none', 'No LLM provider available');
+  }
+}
+
+/**
+ * Resolve the failover order for this environment
+ * LLM_PROVIDERS is a comma-separated list (e.g. "azure-openai,openai"); AI_STUB=1 always forces the fake
+ */
+export function getLLMProviderOrder(env: any): string[] {
+  if (env.AI_STUB === '1') {
+    return ['fake'];
+  }
+
+  if (env.LLM_PROVIDERS) {
+    return String(env.LLM_PROVIDERS).split(',').map(name => name.trim()).filter(Boolean);
+  }
+
+  return ['openai'];
+}
+
+// Create a provider manager configured from the environment
+export function createLLMProviderManager(env: any): LLMProviderManager {
+  const manager = new LLMProviderManager();
+  const order = getLLMProviderOrder(env);
+
+  order.forEach((providerType, index) => {
+    const priority = index + 1;
+
+    switch (providerType) {
+      case 'openai':
+        if (env.OPENAI_API_KEY && env.OPENAI_API_KEY !== 'your-openai-api-key-here') {
+          manager.registerProvider('openai', new OpenAIProvider(env.OPENAI_API_KEY), {
+            name: 'openai',
+            enabled: true,
+            priority
+          });
+        } else {
+          console.warn('[LLM MANAGER] OpenAI API key not configured, skipping provider');
+        }
+        break;
+
+      case 'azure-openai':
+        if (env.AZURE_OPENAI_ENDPOINT && env.AZURE_OPENAI_API_KEY && env.AZURE_OPENAI_DEPLOYMENT) {
+          manager.registerProvider('azure-openai', new AzureOpenAIProvider(
+            env.AZURE_OPENAI_ENDPOINT,
+            env.AZURE_OPENAI_API_KEY,
+            env.AZURE_OPENAI_DEPLOYMENT,
+            env.AZURE_OPENAI_API_VERSION || '2024-10-21'
+          ), {
+            name: 'azure-openai',
+            enabled: true,
+            priority,
+            model: env.AZURE_OPENAI_DEPLOYMENT
+          });
+        } else {
+          console.warn('[LLM MANAGER] Azure OpenAI endpoint, key or deployment not configured, skipping provider');
+        }
+        break;
+
+      case 'openai-compatible':
+        if (env.LLM_COMPATIBLE_BASE_URL) {
+          manager.registerProvider('openai-compatible', new OpenAICompatibleProvider(
+            env.LLM_COMPATIBLE_BASE_URL,
+            env.LLM_COMPATIBLE_API_KEY
+          ), {
+            name: 'openai-compatible',
+            enabled: true,
+            priority,
+            model: env.LLM_COMPATIBLE_MODEL || undefined
+          });
+        } else {
+          console.warn('[LLM MANAGER] LLM_COMPATIBLE_BASE_URL not configured, skipping provider');
+        }
+        break;
+
+      case 'fake':
+        manager.registerProvider('fake', new FakeLLMProvider(), {
+          name: 'fake',
+          enabled: true,
+          priority
+        });
+        break;
+
+      default:
+        console.warn(`[LLM MANAGER] Unknown provider type: ${providerType}`);
+        break;
+    }
+  });
+
+  // Nothing usable configured: fall back to the fake, as stub mode always has
+  if (manager.getActiveProviders().length === 0) {
+    console.warn('[LLM MANAGER] No LLM provider configured, falling back to fake provider');
+    manager.registerProvider('fake', new FakeLLMProvider(), {
+      name: 'fake',
+      enabled: true,
+      priority: 999
+    });
+  }
+
+  return manager;
+}
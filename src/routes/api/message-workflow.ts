@@ -3,13 +3,30 @@ import { setupDb } from '@/db';
 import { getUser } from '@/lib/auth';
 import { 
   submitMessageForReview,
+  resubmitMessage,
   reviewMessage,
   sendMessageDirectly,
+  recallMessage,
+  retryDelivery,
   getPendingReviewMessages,
+  claimReview,
+  releaseReview,
+  reassignReview,
+  bulkReviewMessages,
+  getReviewers,
+  getMessageStateHistory,
+  getMessageRevisions,
+  getMessageApprovals,
+  getSendWindow,
+  getReturnedMessages,
   updateDeliveryStatus,
+  backTranslateMessage,
+  type BackTranslationRequest,
   type MessageFinalizationRequest,
+  type MessageResubmissionRequest,
   type MessageReviewRequest
 } from '@/actions/messageWorkflow';
+import type { BulkReviewRequest } from '@/lib/bulk-review';
 
 export async function POST(request: Request, env: any, ctx: any) {
   const url = new URL(request.url);
@@ -17,7 +34,8 @@ export async function POST(request: Request, env: any, ctx: any) {
 
   try {
     await setupDb(env);
-    const user = await getUser(request, env);
+    // The worker passes the session user (including the development login); otherwise use the Access JWT
+    const user = ctx?.user ?? await getUser(request, env);
     
     if (!user) {
       return json({ success: false, error: 'Authentication required' }, { status: 401 });
@@ -27,13 +45,37 @@ export async function POST(request: Request, env: any, ctx: any) {
 
     switch (path) {
       case '/api/message-workflow/submit-for-review':
-        return json(await submitMessageForReview(body as MessageFinalizationRequest, user, env, request));
+        return json(await submitMessageForReview(withScheduledFor(body) as MessageFinalizationRequest, user, env, request));
+
+      case '/api/message-workflow/resubmit':
+        return json(await resubmitMessage(body as MessageResubmissionRequest, user, env, request));
 
       case '/api/message-workflow/review':
         return json(await reviewMessage(body as MessageReviewRequest, user, env, request));
 
+      case '/api/message-workflow/claim':
+        return json(await claimReview(body.auditLogId, user, env));
+
+      case '/api/message-workflow/release':
+        return json(await releaseReview(body.auditLogId, user, env));
+
+      case '/api/message-workflow/reassign':
+        return json(await reassignReview(body.auditLogId, body.assigneeId, user, env, body.reason));
+
+      case '/api/message-workflow/bulk':
+        return json(await bulkReviewMessages(body as BulkReviewRequest, user, env, request));
+
       case '/api/message-workflow/send-directly':
-        return json(await sendMessageDirectly(body as MessageFinalizationRequest, user, env, request));
+        return json(await sendMessageDirectly(withScheduledFor(body) as MessageFinalizationRequest, user, env, request));
+
+      case '/api/message-workflow/recall':
+        return json(await recallMessage(body.auditLogId, user, env, body.reason));
+
+      case '/api/message-workflow/retry-delivery':
+        return json(await retryDelivery(body.auditLogId, user, env));
+
+      case '/api/message-workflow/back-translate':
+        return json(await backTranslateMessage(body as BackTranslationRequest, user, env));
 
       case '/api/message-workflow/delivery-status':
         // Webhook endpoint for delivery providers
@@ -60,7 +102,7 @@ export async function GET(request: Request, env: any, ctx: any) {
 
   try {
     await setupDb(env);
-    const user = await getUser(request, env);
+    const user = ctx?.user ?? await getUser(request, env);
     
     if (!user) {
       return json({ success: false, error: 'Authentication required' }, { status: 401 });
@@ -70,6 +112,28 @@ export async function GET(request: Request, env: any, ctx: any) {
       case '/api/message-workflow/pending-review':
         return json(await getPendingReviewMessages(user, env));
 
+      case '/api/message-workflow/reviewers':
+        return json(await getReviewers(user, env));
+
+      case '/api/message-workflow/returned':
+        return json(await getReturnedMessages(user, env));
+
+      case '/api/message-workflow/revisions':
+        return json(await getMessageRevisions(url.searchParams.get('auditLogId') || '', user, env));
+
+      case '/api/message-workflow/approvals':
+        return json(await getMessageApprovals(url.searchParams.get('auditLogId') || '', user, env));
+
+      case '/api/message-workflow/send-window':
+        return json(await getSendWindow(url.searchParams.get('auditLogId') || '', {
+          deliveryMethod: url.searchParams.get('deliveryMethod') || 'email',
+          priority: (url.searchParams.get('priority') || undefined) as MessageFinalizationRequest['priority'],
+          sendAt: parseDate(url.searchParams.get('sendAt'))
+        }, user, env));
+
+      case '/api/message-workflow/state-history':
+        return json(await getMessageStateHistory(url.searchParams.get('auditLogId') || '', user, env));
+
       default:
         return json({ success: false, error: 'Unknown endpoint' }, { status: 404 });
     }
@@ -82,3 +146,14 @@ export async function GET(request: Request, env: any, ctx: any) {
     }, { status: 500 });
   }
 }
+
+function parseDate(value: unknown): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// JSON carries scheduledFor as an ISO string; the actions compare it as a Date
+function withScheduledFor<T extends { scheduledFor?: unknown }>(body: T): T {
+  return { ...body, scheduledFor: parseDate(body.scheduledFor) };
+}
@@ -0,0 +1,148 @@
+import { defineScript } from "rwsdk/worker";
+import { env } from "cloudflare:workers";
+import { setupDb, drizzleDb, users, patientBriefs, doctorSettings } from "@/db";
+import { generateDraftAction } from "@/actions/generateDraft";
+import { GuardrailService } from "@/lib/services/guardrailService";
+import {
+  compareEvalRuns,
+  formatEvalReport,
+  parseEvalVariant,
+  scoreDraft,
+  type DraftEvalCriteria,
+  type EvalCaseResult,
+  type EvalRun,
+  type EvalVariant
+} from "@/lib/draft-eval";
+import type { GuardrailRuleDefinition } from "@/lib/guardrails";
+import patients from "../../tests/fixtures/patients.json";
+import messages from "../../tests/fixtures/messages.json";
+
+/**
+ * Replays the fixture inquiries through generateDraftAction for two variants and prints a comparison
+ *
+ *   npm run eval:drafts
+ *
+ * Configure in .dev.vars:
+ *   EVAL_BASELINE / EVAL_CANDIDATE  e.g. "template=prompt-template-default-v1,model=gpt-4o-mini" (empty = active setup)
+ *   EVAL_PROVIDER                   LLM provider to evaluate against; defaults to "fake" so the run stays offline
+ */
+
+const EVAL_REQUESTER_ID = "eval-requester";
+const EVAL_DOCTOR_ID = "eval-doctor";
+
+const EVAL_SETTINGS = {
+  communicationTone: "professional",
+  signOff: "Best regards,\nDr. Eval\nInternal Medicine",
+  maxWords: 150,
+  readingLevel: "middle",
+  specialtyFocus: "general"
+};
+
+type EvalEnv = typeof env & { EVAL_BASELINE?: string; EVAL_CANDIDATE?: string; EVAL_PROVIDER?: string };
+
+export default defineScript(async () => {
+  await setupDb(env);
+
+  const config = env as EvalEnv;
+  const baseline = parseEvalVariant(config.EVAL_BASELINE, "Baseline");
+  const candidate = parseEvalVariant(config.EVAL_CANDIDATE, "Candidate");
+  const provider = config.EVAL_PROVIDER || "fake";
+
+  console.log(`🧪 Evaluating ${messages.length} inquiries against provider "${provider}"...`);
+
+  await seedEvalFixtures();
+  const rules = await GuardrailService.getActiveRules();
+
+  const baselineRun = await runVariant(baseline, provider, rules);
+  const candidateRun = await runVariant(candidate, provider, rules);
+
+  console.log("\n" + formatEvalReport(compareEvalRuns(baselineRun, candidateRun)));
+});
+
+/**
+ * Upsert the fixture doctor, requester and patient briefs; ids are prefixed so real data is untouched
+ */
+async function seedEvalFixtures() {
+  await drizzleDb
+    .insert(users)
+    .values([
+      // Admin requester so repeated runs stay under the daily draft limit
+      { id: EVAL_REQUESTER_ID, username: "eval_requester", email: "eval-requester@example.com", role: "admin" },
+      { id: EVAL_DOCTOR_ID, username: "eval_doctor", email: "eval-doctor@example.com", role: "doctor" }
+    ])
+    .onConflictDoNothing();
+
+  await drizzleDb
+    .insert(doctorSettings)
+    .values({ doctorId: EVAL_DOCTOR_ID, ...EVAL_SETTINGS, useApprovedExamples: false })
+    .onConflictDoUpdate({
+      target: doctorSettings.doctorId,
+      set: { ...EVAL_SETTINGS, useApprovedExamples: false, updatedAt: new Date() }
+    });
+
+  for (const patient of patients) {
+    const brief = {
+      patientName: patient.name,
+      briefText: `${patient.age}-year-old patient, currently ${patient.currentCondition.toLowerCase()}`,
+      medicalHistory: patient.medicalHistory,
+      currentMedications: patient.currentMedications,
+      allergies: patient.allergies,
+      doctorNotes: patient.doctorNotes,
+      doctorId: EVAL_DOCTOR_ID
+    };
+
+    await drizzleDb
+      .insert(patientBriefs)
+      .values({ id: `eval-${patient.id}`, ...brief })
+      .onConflictDoUpdate({ target: patientBriefs.id, set: { ...brief, updatedAt: new Date() } });
+  }
+}
+
+async function runVariant(variant: EvalVariant, provider: string, rules: GuardrailRuleDefinition[]): Promise<EvalRun> {
+  const variantEnv = {
+    ...env,
+    ...(provider === "fake" ? { AI_STUB: "1", LLM_PROVIDERS: "fake" } : { AI_STUB: "", LLM_PROVIDERS: provider }),
+    ...(variant.model ? { LLM_MODEL: variant.model } : {})
+  };
+
+  const results: EvalCaseResult[] = [];
+
+  for (const message of messages) {
+    const patient = patients.find(p => p.id === message.patientId);
+    if (!patient) {
+      throw new Error(`Fixture ${message.id} references unknown patient ${message.patientId}`);
+    }
+
+    const criteria: DraftEvalCriteria = {
+      maxWords: EVAL_SETTINGS.maxWords,
+      signOff: EVAL_SETTINGS.signOff,
+      patientName: patient.name,
+      readingLevel: EVAL_SETTINGS.readingLevel
+    };
+
+    const startedAt = Date.now();
+    const response = await generateDraftAction(
+      // Every run is a fresh generation; variants differ in ways the draft cache key does not see (provider, model)
+      { patientInquiry: message.inquiry, patientId: `eval-${patient.id}`, userId: EVAL_REQUESTER_ID, regenerate: true },
+      variantEnv,
+      undefined,
+      { promptTemplateId: variant.promptTemplateId }
+    );
+
+    results.push({
+      caseId: message.id,
+      success: response.success,
+      escalated: !!response.escalated,
+      error: response.error,
+      draft: response.draft,
+      score: response.success && response.draft ? scoreDraft(response.draft, criteria, rules) : undefined,
+      totalTokens: response.usage?.totalTokens || 0,
+      cost: response.cost || 0,
+      latencyMs: Date.now() - startedAt
+    });
+
+    console.log(`  ${variant.label} ${message.id}: ${response.success ? "drafted" : response.escalated ? "escalated" : `failed (${response.error})`}`);
+  }
+
+  return { variant, results };
+}
@@ -9,6 +9,11 @@ import DraftWorkflowPage from "@/app/pages/DraftWorkflowPage";
 import DoctorSettingsPage from "@/app/pages/doctor/SettingsPage";
 import PatientBriefsPage from "@/app/pages/admin/PatientBriefsPage";
 import AuditLogPage from "@/app/pages/admin/AuditLogPage";
+import PromptTemplatesPage from "@/app/pages/admin/PromptTemplatesPage";
+import AiBudgetsPage from "@/app/pages/admin/AiBudgetsPage";
+import ApprovalPoliciesPage from "@/app/pages/admin/ApprovalPoliciesPage";
+import DoctorExamplesPage from "@/app/pages/doctor/ExamplesPage";
+import DoctorQuickRepliesPage from "@/app/pages/doctor/QuickRepliesPage";
 
 import { setCommonHeaders } from "@/app/headers";
 import { setEnhancedSecurityHeaders } from "@/middleware/securityHeaders";
@@ -22,7 +27,9 @@ import { type User, setupDb, drizzleDb } from "@/db";
 import { users as drizzleUsers, patientBriefs as drizzlePatientBriefs, doctorSettings as drizzleDoctorSettings, auditLogs as drizzleAuditLogs, messageQueue as drizzleMessageQueue } from "@/db/schema";
 import { eq, desc, sql } from "drizzle-orm";
 import { env } from "cloudflare:workers";
-import { generateDraftAction, type DraftRequest } from "@/actions/generateDraft";
+import { generateDraftAction, streamDraftAction, type DraftRequest } from "@/actions/generateDraft";
+import { recordCandidateSelectionAction, type CandidateSelectionRequest } from "@/actions/draftCandidates";
+import { refineDraftParagraphAction, type ParagraphRefinementRequest } from "@/actions/refineDraft";
 import { MessageReviewPage } from "@/app/pages/MessageReviewPage";
 import seedWithDrizzle from "@/scripts/seed-drizzle";
 import * as Sentry from '@sentry/cloudflare';
@@ -141,6 +148,14 @@ async function processDeliveryWebhook(webhookData: any): Promise<{ success: bool
         .update(drizzleAuditLogs)
         .set(auditUpdateData)
         .where(eq(drizzleAuditLogs.id, messageEntry.auditLogId));
+
+      if (internalStatus === 'sent' || internalStatus === 'delivered' || internalStatus === 'failed') {
+        const { MessageStateService } = await import('@/lib/services/messageStateService');
+        await MessageStateService.recordDelivery(messageEntry.auditLogId, internalStatus, {
+          reason: internalStatus === 'failed' ? auditUpdateData.failureReason : null,
+          metadata: { provider: webhookData.provider, externalId: webhookData.externalId }
+        });
+      }
     }
 
     // Log successful processing
@@ -430,10 +445,13 @@ export default defineApp([
     }
 
     try {
-      const { UsageTrackingService } = await import('@/lib/services/usageTrackingService');
+      const { BudgetService } = await import('@/lib/services/budgetService');
+      const { createLLMProviderManager, getLLMProviderOrder } = await import('@/providers/llm');
       
-      // Get cost alerts
-      const costAlerts = await UsageTrackingService.getCostAlerts(ctx.user);
+      // Budgets and the soft/hard limit alerts they raised
+      const budgets = await BudgetService.listBudgets(ctx.user);
+      const budgetAlerts = await BudgetService.getRecentAlerts(ctx.user);
+      const defaultModel = env.LLM_MODEL || 'gpt-4o-mini';
 
       const config = {
         openai: {
@@ -441,19 +459,18 @@ export default defineApp([
           apiKeyPreview: env.OPENAI_API_KEY ? `${env.OPENAI_API_KEY.substring(0, 7)}...` : 'Not set',
           stubMode: env.AI_STUB === "1"
         },
-        limits: {
-          admin: UsageTrackingService.getDailyLimitForRole('admin'),
-          doctor: UsageTrackingService.getDailyLimitForRole('doctor'),
-          reviewer: UsageTrackingService.getDailyLimitForRole('reviewer'),
-          staff: UsageTrackingService.getDailyLimitForRole('staff')
+        llm: {
+          providerOrder: getLLMProviderOrder(env),
+          activeProviders: createLLMProviderManager(env).getActiveProviders()
         },
+        budgets,
         models: {
-          admin: 'gpt-4o-mini',
-          doctor: 'gpt-4o-mini',
-          reviewer: 'gpt-4o-mini',
-          staff: 'gpt-4o-mini'
+          admin: defaultModel,
+          doctor: defaultModel,
+          reviewer: defaultModel,
+          staff: defaultModel
         },
-        costAlerts,
+        budgetAlerts,
         environment: {
           ENVIRONMENT: env.ENVIRONMENT || 'local',
           SENTRY_DSN: !!env.SENTRY_DSN,
@@ -1900,6 +1917,12 @@ ai_concierge_health_status{environment="${environment}"} 1 ${timestamp}
         });
       }
 
+      // A repeated Idempotency-Key returns the first response instead of generating again
+      const idempotencyKey = request.headers.get('Idempotency-Key');
+      if (idempotencyKey !== null) {
+        requestData.idempotencyKey = idempotencyKey;
+      }
+
       // Add breadcrumb for draft generation
       if (env.SENTRY_DSN) {
         Sentry.addBreadcrumb({
@@ -1913,6 +1936,17 @@ ai_concierge_health_status{environment="${environment}"} 1 ${timestamp}
         });
       }
 
+      // Streaming mode: validation and audit logging happen before the final 'done' event
+      // Multiple candidates are always returned as a single JSON response
+      if (requestData.stream && (requestData.candidateCount ?? 1) === 1) {
+        return new Response(streamDraftAction(requestData, env), {
+          headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache'
+          }
+        });
+      }
+
       const result = await generateDraftAction(requestData, env);
       
       // Add result breadcrumb
@@ -1945,258 +1979,1183 @@ ai_concierge_health_status{environment="${environment}"} 1 ${timestamp}
   }),
 
 
+  // Record which candidate drafts staff used and which were discarded
+  route("/api/generate-draft/selection", async ({ request, ctx }) => {
+    console.log("[API] Draft candidate selection called");
+
+    if (request.method !== 'POST') {
+      return new Response(JSON.stringify({ success: false, error: 'Method not allowed' }), {
+        status: 405,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
 
-  // Message workflow API
-  route("/api/message-workflow", async ({ request, ctx }) => {
-    console.log("[API] Message workflow called");
-    
     if (!ctx.user) {
-      return new Response(JSON.stringify({ success: false, error: 'Authentication required' }), { 
+      return new Response(JSON.stringify({ success: false, error: 'Authentication required' }), {
         status: 401,
         headers: { 'Content-Type': 'application/json' }
       });
     }
 
-    if (request.method === 'POST') {
-      try {
-        const data = await request.json();
-        // Mock successful response
-        return new Response(JSON.stringify({ 
-          success: true, 
-          message: 'Workflow completed successfully'
+    try {
+      const requestData = await request.json() as Omit<CandidateSelectionRequest, 'userId'>;
+
+      if (!requestData.auditLogId || !Array.isArray(requestData.chosenCandidateIds)) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: 'Missing required fields: auditLogId, chosenCandidateIds'
         }), {
-          headers: { 'Content-Type': 'application/json' }
-        });
-      } catch (error) {
-        return new Response(JSON.stringify({ 
-          success: false, 
-          error: 'Invalid request' 
-        }), { 
           status: 400,
           headers: { 'Content-Type': 'application/json' }
         });
       }
-    }
 
-    return new Response(JSON.stringify({ success: false, error: 'Method not allowed' }), { 
-      status: 405,
-      headers: { 'Content-Type': 'application/json' }
-    });
+      const result = await recordCandidateSelectionAction({ ...requestData, userId: ctx.user.id }, env);
+
+      return new Response(JSON.stringify(result), {
+        status: result.success ? 200 : 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('[API] Draft candidate selection error:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'Invalid request format'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
   }),
 
-  // Patient inquiry API
-  route("/api/patient-inquiry", async ({ request, ctx }) => {
-    console.log("[API] Patient inquiry called");
-    
+  route("/api/generate-draft/refine", async ({ request, ctx }) => {
+    console.log("[API] Draft paragraph refinement called");
+
+    if (request.method !== 'POST') {
+      return new Response(JSON.stringify({ success: false, error: 'Method not allowed' }), {
+        status: 405,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
     if (!ctx.user) {
-      return new Response(JSON.stringify({ success: false, error: 'Authentication required' }), { 
+      return new Response(JSON.stringify({ success: false, error: 'Authentication required' }), {
         status: 401,
         headers: { 'Content-Type': 'application/json' }
       });
     }
 
-    if (request.method === 'PUT') {
-      try {
-        const { updatePatientBrief } = await import('@/lib/patientBriefActions');
-        const data = await request.json() as { patientId?: string; patientInquiry?: string };
-        
-        if (!data.patientId || data.patientInquiry === undefined) {
-          return new Response(JSON.stringify({ 
-            success: false, 
-            error: 'Missing patientId or patientInquiry' 
-          }), { 
-            status: 400,
-            headers: { 'Content-Type': 'application/json' }
-          });
-        }
-
-        const result = await updatePatientBrief(ctx.user, data.patientId, {
-          patientInquiry: data.patientInquiry
-        });
-
-        if (result.error) {
-          return new Response(JSON.stringify({ 
-            success: false, 
-            error: result.error 
-          }), { 
-            status: 400,
-            headers: { 'Content-Type': 'application/json' }
-          });
-        }
+    try {
+      const requestData = await request.json() as Omit<ParagraphRefinementRequest, 'userId'>;
 
+      if (!requestData.auditLogId || !requestData.draft || typeof requestData.paragraphIndex !== 'number' || !requestData.instruction) {
         return new Response(JSON.stringify({
-          success: true,
-          brief: result.brief
+          success: false,
+          error: 'Missing required fields: auditLogId, draft, paragraphIndex, instruction'
         }), {
-          headers: { 'Content-Type': 'application/json' }
-        });
-
-      } catch (error) {
-        console.error('[API] Patient inquiry update error:', error);
-        return new Response(JSON.stringify({ 
-          success: false, 
-          error: 'Failed to update patient inquiry' 
-        }), { 
-          status: 500,
+          status: 400,
           headers: { 'Content-Type': 'application/json' }
         });
       }
-    } else if (request.method === 'GET') {
-      try {
-        const url = new URL(request.url);
-        const patientId = url.searchParams.get('patientId');
-        
-        if (!patientId) {
-          return new Response(JSON.stringify({ 
-            success: false, 
-            error: 'Patient ID is required' 
-          }), { 
-            status: 400,
-            headers: { 'Content-Type': 'application/json' }
-          });
-        }
-
-        const [brief] = await drizzleDb
-          .select({
-            id: drizzlePatientBriefs.id,
-            patientName: drizzlePatientBriefs.patientName,
-            patientInquiry: drizzlePatientBriefs.patientInquiry,
-            doctorId: drizzlePatientBriefs.doctorId
-          })
-          .from(drizzlePatientBriefs)
-          .where(eq(drizzlePatientBriefs.id, patientId))
-          .limit(1);
-
-        if (!brief) {
-          return new Response(JSON.stringify({ 
-            success: false, 
-            error: 'Patient not found' 
-          }), { 
-            status: 404,
-            headers: { 'Content-Type': 'application/json' }
-          });
-        }
-
-        // Check if user has access to this patient
-        if (ctx.user.role === 'doctor' && brief.doctorId !== ctx.user.id) {
-          return new Response(JSON.stringify({ 
-            success: false, 
-            error: 'Access denied to this patient' 
-          }), { 
-            status: 403,
-            headers: { 'Content-Type': 'application/json' }
-          });
-        }
 
-        return new Response(JSON.stringify({
-          success: true,
-          patientInquiry: brief.patientInquiry || ''
-        }), {
-          headers: { 'Content-Type': 'application/json' }
-        });
+      const result = await refineDraftParagraphAction({ ...requestData, userId: ctx.user.id }, env);
 
-      } catch (error) {
-        console.error('[API] Patient inquiry get error:', error);
-        return new Response(JSON.stringify({ 
-          success: false, 
-          error: 'Failed to fetch patient inquiry' 
-        }), { 
-          status: 500,
-          headers: { 'Content-Type': 'application/json' }
-        });
-      }
+      return new Response(JSON.stringify(result), {
+        status: result.success ? 200 : 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('[API] Draft paragraph refinement error:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'Invalid request format'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
     }
-
-    return new Response(JSON.stringify({ success: false, error: 'Method not allowed' }), { 
-      status: 405,
-      headers: { 'Content-Type': 'application/json' }
-    });
   }),
 
-  // Mark as sent API endpoint
-  route("/api/mark-as-sent", async ({ request, ctx }) => {
-    console.log("[API] Mark as sent called");
-    
+
+  // Prompt template registry (admin only)
+  route("/api/prompt-templates", async ({ request, ctx }) => {
+    console.log("[API] Prompt templates called");
+
     if (!ctx.user) {
-      return new Response(JSON.stringify({ success: false, error: 'Authentication required' }), { 
+      return new Response(JSON.stringify({ success: false, error: 'Authentication required' }), {
         status: 401,
         headers: { 'Content-Type': 'application/json' }
       });
     }
 
-    if (request.method !== 'POST') {
-      return new Response(JSON.stringify({ success: false, error: 'Method not allowed' }), { 
-        status: 405,
+    if (ctx.user.role !== 'admin') {
+      return new Response(JSON.stringify({ success: false, error: 'Admin access required' }), {
+        status: 403,
         headers: { 'Content-Type': 'application/json' }
       });
     }
 
     try {
-      const { markMessageAsSent } = await import('@/functions/sendMessage');
-      const data = await request.json();
-      
-      // Validate required fields
-      if (!data.messageId || !data.finalMessage || !data.deliveryMethod) {
-        return new Response(JSON.stringify({ 
-          success: false, 
-          error: 'Missing required fields: messageId, finalMessage, deliveryMethod' 
-        }), { 
-          status: 400,
+      const { PromptTemplateService } = await import('@/lib/services/promptTemplateService');
+
+      if (request.method === 'GET') {
+        const templates = await PromptTemplateService.listTemplates(ctx.user);
+        return new Response(JSON.stringify({ success: true, templates }), {
           headers: { 'Content-Type': 'application/json' }
         });
       }
 
-      // Get request metadata
-      const clientIP = request.headers.get('CF-Connecting-IP') || 
-                      request.headers.get('X-Forwarded-For') || 
-                      'unknown';
-      const userAgent = request.headers.get('User-Agent') || 'unknown';
+      if (request.method === 'POST') {
+        const data = await request.json() as any;
+        const template = await PromptTemplateService.createVersion({
+          scope: data.scope,
+          scopeValue: data.scopeValue,
+          systemTemplate: data.systemTemplate,
+          userTemplate: data.userTemplate,
+          changeNote: data.changeNote
+        }, ctx.user);
+
+        return new Response(JSON.stringify({ success: true, template }), {
+          status: 201,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
 
-      const result = await markMessageAsSent(
-        data,
-        ctx.user.id,
-        ctx.user.role,
-        clientIP,
-        userAgent
-      );
-      
-      return new Response(JSON.stringify(result), {
+      return new Response(JSON.stringify({ success: false, error: 'Method not allowed' }), {
+        status: 405,
         headers: { 'Content-Type': 'application/json' }
       });
-
     } catch (error) {
-      console.error('[API] Mark as sent error:', error);
-      return new Response(JSON.stringify({ 
-        success: false, 
-        error: 'Failed to mark message as sent',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      }), { 
-        status: 500,
+      console.error('[API] Prompt templates error:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to process prompt template request'
+      }), {
+        status: 400,
         headers: { 'Content-Type': 'application/json' }
       });
     }
   }),
 
-  // Audit export API endpoint
-  route("/api/audit-export", async ({ request, ctx }) => {
-    console.log("[API] Audit export called");
-    
-    if (!ctx.user) {
-      return new Response(JSON.stringify({ success: false, error: 'Authentication required' }), { 
-        status: 401,
+  // Activate or deactivate a prompt template version
+  route("/api/prompt-templates/activation", async ({ request, ctx }) => {
+    console.log("[API] Prompt template activation called");
+
+    if (request.method !== 'POST') {
+      return new Response(JSON.stringify({ success: false, error: 'Method not allowed' }), {
+        status: 405,
         headers: { 'Content-Type': 'application/json' }
       });
     }
 
-    if (request.method !== 'GET') {
-      return new Response(JSON.stringify({ success: false, error: 'Method not allowed' }), { 
-        status: 405,
+    if (!ctx.user) {
+      return new Response(JSON.stringify({ success: false, error: 'Authentication required' }), {
+        status: 401,
         headers: { 'Content-Type': 'application/json' }
       });
     }
 
-    try {
-      const { exportAuditLogsAsCSV } = await import('@/functions/complianceExport');
+    if (ctx.user.role !== 'admin') {
+      return new Response(JSON.stringify({ success: false, error: 'Admin access required' }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    try {
+      const { PromptTemplateService } = await import('@/lib/services/promptTemplateService');
+      const data = await request.json() as { templateId: string; active: boolean };
+
+      if (!data.templateId) {
+        return new Response(JSON.stringify({ success: false, error: 'Missing required field: templateId' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      if (data.active === false) {
+        await PromptTemplateService.deactivateVersion(data.templateId, ctx.user);
+        return new Response(JSON.stringify({ success: true }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const template = await PromptTemplateService.activateVersion(data.templateId, ctx.user);
+      return new Response(JSON.stringify({ success: true, template }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('[API] Prompt template activation error:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update prompt template'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }),
+
+  // Line diff between two prompt template versions
+  route("/api/prompt-templates/diff", async ({ request, ctx }) => {
+    console.log("[API] Prompt template diff called");
+
+    if (!ctx.user) {
+      return new Response(JSON.stringify({ success: false, error: 'Authentication required' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (ctx.user.role !== 'admin') {
+      return new Response(JSON.stringify({ success: false, error: 'Admin access required' }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    try {
+      const { PromptTemplateService } = await import('@/lib/services/promptTemplateService');
+      const url = new URL(request.url);
+      const fromId = url.searchParams.get('from');
+      const toId = url.searchParams.get('to');
+
+      if (!fromId || !toId) {
+        return new Response(JSON.stringify({ success: false, error: 'Missing required parameters: from, to' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const diff = await PromptTemplateService.diffVersions(fromId, toId, ctx.user);
+      return new Response(JSON.stringify({ success: true, diff }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('[API] Prompt template diff error:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to diff prompt templates'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }),
+
+  // Guardrail check for the draft panel
+  route("/api/guardrails/check", async ({ request, ctx }) => {
+    console.log("[API] Guardrail check called");
+
+    if (request.method !== 'POST') {
+      return new Response(JSON.stringify({ success: false, error: 'Method not allowed' }), {
+        status: 405,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (!ctx.user) {
+      return new Response(JSON.stringify({ success: false, error: 'Authentication required' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    try {
+      const { GuardrailService } = await import('@/lib/services/guardrailService');
+      const { MedicationCheckService } = await import('@/lib/services/medicationCheckService');
+      const data = await request.json() as { inquiry?: string; draft?: string; patientId?: string };
+
+      const result = await GuardrailService.check({ inquiry: data.inquiry, draft: data.draft });
+      // With a patient, the draft is also checked against their allergies and medication list
+      const medicationIssues = await MedicationCheckService.checkForPatient(data.draft || '', data.patientId);
+      return new Response(JSON.stringify({
+        success: true,
+        ...result,
+        requiresReview: result.requiresReview || medicationIssues.length > 0,
+        medicationIssues
+      }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('[API] Guardrail check error:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'Failed to check guardrails'
+      }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }),
+
+  // Guardrail rule management (admin only)
+  route("/api/guardrail-rules", async ({ request, ctx }) => {
+    console.log("[API] Guardrail rules called");
+
+    if (!ctx.user) {
+      return new Response(JSON.stringify({ success: false, error: 'Authentication required' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (ctx.user.role !== 'admin') {
+      return new Response(JSON.stringify({ success: false, error: 'Admin access required' }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    try {
+      const { GuardrailService } = await import('@/lib/services/guardrailService');
+
+      if (request.method === 'GET') {
+        const rules = await GuardrailService.listRules(ctx.user);
+        return new Response(JSON.stringify({ success: true, rules }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      if (request.method === 'POST') {
+        const data = await request.json() as any;
+        const rule = await GuardrailService.createRule({
+          name: data.name,
+          category: data.category,
+          severity: data.severity,
+          pattern: data.pattern,
+          flags: data.flags,
+          appliesTo: data.appliesTo,
+          explanation: data.explanation,
+          isEnabled: data.isEnabled
+        }, ctx.user);
+
+        return new Response(JSON.stringify({ success: true, rule }), {
+          status: 201,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      if (request.method === 'PUT') {
+        const { ruleId, ...updates } = await request.json() as any;
+        if (!ruleId) {
+          return new Response(JSON.stringify({ success: false, error: 'Missing required field: ruleId' }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        const rule = await GuardrailService.updateRule(ruleId, {
+          name: updates.name,
+          category: updates.category,
+          severity: updates.severity,
+          pattern: updates.pattern,
+          flags: updates.flags,
+          appliesTo: updates.appliesTo,
+          explanation: updates.explanation,
+          isEnabled: updates.isEnabled
+        }, ctx.user);
+
+        return new Response(JSON.stringify({ success: true, rule }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      return new Response(JSON.stringify({ success: false, error: 'Method not allowed' }), {
+        status: 405,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('[API] Guardrail rules error:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to process guardrail rule request'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }),
+
+  // AI budget API (admin only): limits enforced before each LLM call, with soft-limit alerts
+  route("/api/ai-budgets", async ({ request, ctx }) => {
+    console.log("[API] AI budgets called");
+
+    if (!ctx.user) {
+      return new Response(JSON.stringify({ success: false, error: 'Authentication required' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (ctx.user.role !== 'admin') {
+      return new Response(JSON.stringify({ success: false, error: 'Admin access required' }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    try {
+      const { BudgetService } = await import('@/lib/services/budgetService');
+
+      if (request.method === 'GET') {
+        const budgets = await BudgetService.listBudgets(ctx.user);
+        const alerts = await BudgetService.getRecentAlerts(ctx.user);
+        return new Response(JSON.stringify({ success: true, budgets, alerts }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      if (request.method === 'POST') {
+        const data = await request.json() as any;
+        const budget = await BudgetService.createBudget({
+          scope: data.scope,
+          scopeValue: data.scopeValue,
+          period: data.period,
+          maxRequests: data.maxRequests,
+          maxTokens: data.maxTokens,
+          maxCost: data.maxCost,
+          softLimitPercent: data.softLimitPercent,
+          isEnabled: data.isEnabled
+        }, ctx.user);
+
+        return new Response(JSON.stringify({ success: true, budget }), {
+          status: 201,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      if (request.method === 'PUT') {
+        const { budgetId, ...updates } = await request.json() as any;
+        if (!budgetId) {
+          return new Response(JSON.stringify({ success: false, error: 'Missing required field: budgetId' }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        const budget = await BudgetService.updateBudget(budgetId, {
+          scope: updates.scope,
+          scopeValue: updates.scopeValue,
+          period: updates.period,
+          maxRequests: updates.maxRequests,
+          maxTokens: updates.maxTokens,
+          maxCost: updates.maxCost,
+          softLimitPercent: updates.softLimitPercent,
+          isEnabled: updates.isEnabled
+        }, ctx.user);
+
+        return new Response(JSON.stringify({ success: true, budget }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      return new Response(JSON.stringify({ success: false, error: 'Method not allowed' }), {
+        status: 405,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('[API] AI budgets error:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to process AI budget request'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }),
+
+  route("/api/ai-budgets/override", async ({ request, ctx }) => {
+    console.log("[API] AI budget override called");
+
+    if (!ctx.user) {
+      return new Response(JSON.stringify({ success: false, error: 'Authentication required' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (ctx.user.role !== 'admin') {
+      return new Response(JSON.stringify({ success: false, error: 'Admin access required' }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (request.method !== 'POST') {
+      return new Response(JSON.stringify({ success: false, error: 'Method not allowed' }), {
+        status: 405,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    try {
+      const { BudgetService } = await import('@/lib/services/budgetService');
+      const { budgetId, until, reason } = await request.json() as any;
+      if (!budgetId) {
+        return new Response(JSON.stringify({ success: false, error: 'Missing required field: budgetId' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const budget = await BudgetService.overrideBudget(budgetId, {
+        until: until ? new Date(until) : null,
+        reason
+      }, ctx.user);
+
+      return new Response(JSON.stringify({ success: true, budget }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('[API] AI budget override error:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to override AI budget'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }),
+
+  // Approval policies API (admins choose which messages need more than one approval)
+  route("/api/approval-policies", async ({ request, ctx }) => {
+    console.log("[API] Approval policies called");
+
+    if (!ctx.user) {
+      return new Response(JSON.stringify({ success: false, error: 'Authentication required' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (ctx.user.role !== 'admin') {
+      return new Response(JSON.stringify({ success: false, error: 'Admin access required' }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    try {
+      const { ApprovalService } = await import('@/lib/services/approvalService');
+
+      if (request.method === 'GET') {
+        const policies = await ApprovalService.listPolicies(ctx.user);
+        return new Response(JSON.stringify({ success: true, policies }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      if (request.method === 'POST') {
+        const data = await request.json() as any;
+        const policy = await ApprovalService.createPolicy({
+          name: data.name,
+          doctorId: data.doctorId,
+          urgencyLevel: data.urgencyLevel,
+          guardrailCategory: data.guardrailCategory,
+          inquiryIntent: data.inquiryIntent,
+          steps: data.steps,
+          isEnabled: data.isEnabled
+        }, ctx.user);
+
+        return new Response(JSON.stringify({ success: true, policy }), {
+          status: 201,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      if (request.method === 'PUT') {
+        const { policyId, ...updates } = await request.json() as any;
+        if (!policyId) {
+          return new Response(JSON.stringify({ success: false, error: 'Missing required field: policyId' }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        const policy = await ApprovalService.updatePolicy(policyId, {
+          name: updates.name,
+          doctorId: updates.doctorId,
+          urgencyLevel: updates.urgencyLevel,
+          guardrailCategory: updates.guardrailCategory,
+          inquiryIntent: updates.inquiryIntent,
+          steps: updates.steps,
+          isEnabled: updates.isEnabled
+        }, ctx.user);
+
+        return new Response(JSON.stringify({ success: true, policy }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      return new Response(JSON.stringify({ success: false, error: 'Method not allowed' }), {
+        status: 405,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('[API] Approval policies error:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to process approval policy request'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }),
+
+  // Few-shot example bank API (doctors manage their own approved examples)
+  route("/api/draft-examples", async ({ request, ctx }) => {
+    console.log("[API] Draft examples called");
+
+    if (!ctx.user) {
+      return new Response(JSON.stringify({ success: false, error: 'Authentication required' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (ctx.user.role !== 'doctor') {
+      return new Response(JSON.stringify({ success: false, error: 'Doctor access required' }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    try {
+      const { DraftExampleService } = await import('@/lib/services/draftExampleService');
+
+      if (request.method === 'GET') {
+        const result = await DraftExampleService.listExamples(ctx.user);
+        return new Response(JSON.stringify({ success: true, ...result }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      if (request.method === 'PUT') {
+        const data = await request.json() as { useApprovedExamples?: boolean };
+        if (typeof data.useApprovedExamples !== 'boolean') {
+          return new Response(JSON.stringify({ success: false, error: 'Missing required field: useApprovedExamples' }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        const useApprovedExamples = await DraftExampleService.setOptIn(ctx.user, data.useApprovedExamples);
+        return new Response(JSON.stringify({ success: true, useApprovedExamples }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      return new Response(JSON.stringify({ success: false, error: 'Method not allowed' }), {
+        status: 405,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('[API] Draft examples error:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to process draft example request'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }),
+
+  route("/api/draft-examples/remove", async ({ request, ctx }) => {
+    console.log("[API] Remove draft example called");
+
+    if (!ctx.user) {
+      return new Response(JSON.stringify({ success: false, error: 'Authentication required' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (request.method !== 'POST') {
+      return new Response(JSON.stringify({ success: false, error: 'Method not allowed' }), {
+        status: 405,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    try {
+      const { DraftExampleService } = await import('@/lib/services/draftExampleService');
+      const data = await request.json() as { exampleId?: string };
+      if (!data.exampleId) {
+        return new Response(JSON.stringify({ success: false, error: 'Missing required field: exampleId' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const example = await DraftExampleService.removeExample(ctx.user, data.exampleId);
+      return new Response(JSON.stringify({ success: true, example }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('[API] Remove draft example error:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to remove example'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }),
+
+  // Quick replies API (doctors manage their own approved templates)
+  route("/api/quick-replies", async ({ request, ctx }) => {
+    console.log("[API] Quick replies called");
+
+    if (!ctx.user) {
+      return new Response(JSON.stringify({ success: false, error: 'Authentication required' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (ctx.user.role !== 'doctor') {
+      return new Response(JSON.stringify({ success: false, error: 'Doctor access required' }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    try {
+      const { QuickReplyService } = await import('@/lib/services/quickReplyService');
+
+      if (request.method === 'GET') {
+        const templates = await QuickReplyService.listTemplates(ctx.user);
+        return new Response(JSON.stringify({ success: true, templates }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      if (request.method === 'POST') {
+        const data = await request.json() as { intent: string; title: string; body: string; language?: string; isActive?: boolean };
+        const template = await QuickReplyService.createTemplate(data, ctx.user);
+        return new Response(JSON.stringify({ success: true, template }), {
+          status: 201,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      if (request.method === 'PUT') {
+        const data = await request.json() as { templateId?: string; intent?: string; title?: string; body?: string; language?: string; isActive?: boolean };
+        if (!data.templateId) {
+          return new Response(JSON.stringify({ success: false, error: 'Missing required field: templateId' }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        const { templateId, ...updates } = data;
+        const template = await QuickReplyService.updateTemplate(templateId, updates, ctx.user);
+        return new Response(JSON.stringify({ success: true, template }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      return new Response(JSON.stringify({ success: false, error: 'Method not allowed' }), {
+        status: 405,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('[API] Quick replies error:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to process quick reply request'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }),
+
+  route("/api/quick-replies/suggest", async ({ request, ctx }) => {
+    console.log("[API] Quick reply suggestions called");
+
+    if (!ctx.user) {
+      return new Response(JSON.stringify({ success: false, error: 'Authentication required' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (request.method !== 'POST') {
+      return new Response(JSON.stringify({ success: false, error: 'Method not allowed' }), {
+        status: 405,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    try {
+      const { QuickReplyService } = await import('@/lib/services/quickReplyService');
+      const data = await request.json() as { patientId?: string; inquiry?: string };
+      if (!data.patientId || !data.inquiry?.trim()) {
+        return new Response(JSON.stringify({ success: false, error: 'Missing required fields: patientId, inquiry' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const suggestion = await QuickReplyService.suggest(ctx.user, data.patientId, data.inquiry);
+      return new Response(JSON.stringify({ success: true, ...suggestion }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('[API] Quick reply suggestions error:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to suggest quick replies'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }),
+
+  route("/api/quick-replies/use", async ({ request, ctx }) => {
+    console.log("[API] Use quick reply called");
+
+    if (!ctx.user) {
+      return new Response(JSON.stringify({ success: false, error: 'Authentication required' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (request.method !== 'POST') {
+      return new Response(JSON.stringify({ success: false, error: 'Method not allowed' }), {
+        status: 405,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    try {
+      const { QuickReplyService } = await import('@/lib/services/quickReplyService');
+      const data = await request.json() as { templateId?: string; patientId?: string; inquiry?: string };
+      if (!data.templateId || !data.patientId || !data.inquiry?.trim()) {
+        return new Response(JSON.stringify({ success: false, error: 'Missing required fields: templateId, patientId, inquiry' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const result = await QuickReplyService.useTemplate(ctx.user, {
+        templateId: data.templateId,
+        patientId: data.patientId,
+        inquiry: data.inquiry
+      });
+      return new Response(JSON.stringify({
+        success: true,
+        draft: result.draft,
+        auditLogId: result.auditLogId,
+        language: result.language,
+        intent: result.suggestion.intent
+      }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('[API] Use quick reply error:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to use quick reply'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }),
+
+  // Message workflow API
+  route("/api/conversations", async ({ request, ctx }) => {
+    console.log("[API] Conversation thread called");
+
+    if (!ctx.user) {
+      return new Response(JSON.stringify({ success: false, error: 'Authentication required' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (request.method !== 'GET') {
+      return new Response(JSON.stringify({ success: false, error: 'Method not allowed' }), {
+        status: 405,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const patientId = new URL(request.url).searchParams.get('patientId');
+    if (!patientId) {
+      return new Response(JSON.stringify({ success: false, error: 'Missing required parameter: patientId' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    try {
+      const { ConversationService } = await import('@/lib/services/conversationService');
+      const messages = await ConversationService.getThread(ctx.user, patientId);
+
+      return new Response(JSON.stringify({ success: true, messages }), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+    } catch (error) {
+      console.error('[API] Conversation thread error:', error);
+      return new Response(JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load conversation'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }),
+
+  // Submit, review, resubmit and history endpoints; see src/routes/api/message-workflow.ts
+  route("/api/message-workflow/*", async ({ request, ctx }) => {
+    const { GET, POST } = await import('@/routes/api/message-workflow');
+    return request.method === 'POST' ? POST(request, env, ctx) : GET(request, env, ctx);
+  }),
+
+  // Patient inquiry API
+  route("/api/patient-inquiry", async ({ request, ctx }) => {
+    console.log("[API] Patient inquiry called");
+    
+    if (!ctx.user) {
+      return new Response(JSON.stringify({ success: false, error: 'Authentication required' }), { 
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (request.method === 'PUT') {
+      try {
+        const { updatePatientBrief } = await import('@/lib/patientBriefActions');
+        const data = await request.json() as { patientId?: string; patientInquiry?: string };
+        
+        if (!data.patientId || data.patientInquiry === undefined) {
+          return new Response(JSON.stringify({ 
+            success: false, 
+            error: 'Missing patientId or patientInquiry' 
+          }), { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        const result = await updatePatientBrief(ctx.user, data.patientId, {
+          patientInquiry: data.patientInquiry
+        });
+
+        if (result.error) {
+          return new Response(JSON.stringify({ 
+            success: false, 
+            error: result.error 
+          }), { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        // Classify every saved inquiry so urgent ones surface before drafting.
+        // The inquiry is already saved, so a triage failure must not fail the request.
+        let triage = null;
+        try {
+          const { TriageService } = await import('@/lib/services/triageService');
+          triage = await TriageService.triagePatientInquiry(data.patientId, data.patientInquiry, ctx.user, env);
+        } catch (error) {
+          console.error('[API] Patient inquiry triage error:', error);
+        }
+
+        return new Response(JSON.stringify({
+          success: true,
+          brief: result.brief,
+          triage
+        }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+
+      } catch (error) {
+        console.error('[API] Patient inquiry update error:', error);
+        return new Response(JSON.stringify({ 
+          success: false, 
+          error: 'Failed to update patient inquiry' 
+        }), { 
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+    } else if (request.method === 'GET') {
+      try {
+        const url = new URL(request.url);
+        const patientId = url.searchParams.get('patientId');
+        
+        if (!patientId) {
+          return new Response(JSON.stringify({ 
+            success: false, 
+            error: 'Patient ID is required' 
+          }), { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        const [brief] = await drizzleDb
+          .select({
+            id: drizzlePatientBriefs.id,
+            patientName: drizzlePatientBriefs.patientName,
+            patientInquiry: drizzlePatientBriefs.patientInquiry,
+            inquiryUrgency: drizzlePatientBriefs.inquiryUrgency,
+            inquiryUrgencyRationale: drizzlePatientBriefs.inquiryUrgencyRationale,
+            inquiryUrgencySource: drizzlePatientBriefs.inquiryUrgencySource,
+            doctorId: drizzlePatientBriefs.doctorId
+          })
+          .from(drizzlePatientBriefs)
+          .where(eq(drizzlePatientBriefs.id, patientId))
+          .limit(1);
+
+        if (!brief) {
+          return new Response(JSON.stringify({ 
+            success: false, 
+            error: 'Patient not found' 
+          }), { 
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        // Check if user has access to this patient
+        if (ctx.user.role === 'doctor' && brief.doctorId !== ctx.user.id) {
+          return new Response(JSON.stringify({ 
+            success: false, 
+            error: 'Access denied to this patient' 
+          }), { 
+            status: 403,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        return new Response(JSON.stringify({
+          success: true,
+          patientInquiry: brief.patientInquiry || '',
+          triage: brief.inquiryUrgency ? {
+            level: brief.inquiryUrgency,
+            rationale: brief.inquiryUrgencyRationale,
+            source: brief.inquiryUrgencySource
+          } : null
+        }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+
+      } catch (error) {
+        console.error('[API] Patient inquiry get error:', error);
+        return new Response(JSON.stringify({ 
+          success: false, 
+          error: 'Failed to fetch patient inquiry' 
+        }), { 
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    return new Response(JSON.stringify({ success: false, error: 'Method not allowed' }), { 
+      status: 405,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }),
+
+  // Mark as sent API endpoint
+  route("/api/mark-as-sent", async ({ request, ctx }) => {
+    console.log("[API] Mark as sent called");
+    
+    if (!ctx.user) {
+      return new Response(JSON.stringify({ success: false, error: 'Authentication required' }), { 
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (request.method !== 'POST') {
+      return new Response(JSON.stringify({ success: false, error: 'Method not allowed' }), { 
+        status: 405,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    try {
+      const { markMessageAsSent } = await import('@/functions/sendMessage');
+      const data = await request.json();
+      
+      // Validate required fields
+      if (!data.messageId || !data.finalMessage || !data.deliveryMethod) {
+        return new Response(JSON.stringify({ 
+          success: false, 
+          error: 'Missing required fields: messageId, finalMessage, deliveryMethod' 
+        }), { 
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      // Get request metadata
+      const clientIP = request.headers.get('CF-Connecting-IP') || 
+                      request.headers.get('X-Forwarded-For') || 
+                      'unknown';
+      const userAgent = request.headers.get('User-Agent') || 'unknown';
+
+      const result = await markMessageAsSent(
+        data,
+        ctx.user.id,
+        ctx.user.role,
+        clientIP,
+        userAgent
+      );
+      
+      return new Response(JSON.stringify(result), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+
+    } catch (error) {
+      console.error('[API] Mark as sent error:', error);
+      return new Response(JSON.stringify({ 
+        success: false, 
+        error: 'Failed to mark message as sent',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }), { 
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }),
+
+  // Audit export API endpoint
+  route("/api/audit-export", async ({ request, ctx }) => {
+    console.log("[API] Audit export called");
+    
+    if (!ctx.user) {
+      return new Response(JSON.stringify({ success: false, error: 'Authentication required' }), { 
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (request.method !== 'GET') {
+      return new Response(JSON.stringify({ success: false, error: 'Method not allowed' }), { 
+        status: 405,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    try {
+      const { exportAuditLogsAsCSV } = await import('@/functions/complianceExport');
       const url = new URL(request.url);
       
       // Parse query parameters
@@ -2557,6 +3516,15 @@ ai_concierge_health_status{environment="${environment}"} 1 ${timestamp}
     route("/admin/briefs", PatientBriefsPage),
     
     route("/admin/audit", AuditLogPage),
+
+    route("/admin/prompts", PromptTemplatesPage),
+    route("/admin/budgets", AiBudgetsPage),
+    route("/admin/approval-policies", ApprovalPoliciesPage),
+
+    route("/doctor/examples", DoctorExamplesPage),
+    route("/doctor/quick-replies", DoctorQuickRepliesPage),
+
+    route("/review", MessageReviewPage),
     
     prefix("/sync", syncPageRoutes),
 
@@ -2621,6 +3589,10 @@ async function searchDatabase(query: string, filters: any, ctx: any) {
       allergies: patientBriefs.allergies,
       doctorNotes: patientBriefs.doctorNotes,
       patientInquiry: patientBriefs.patientInquiry,
+      preferredLanguage: patientBriefs.preferredLanguage,
+      timezone: patientBriefs.timezone,
+      contactHoursStart: patientBriefs.contactHoursStart,
+      contactHoursEnd: patientBriefs.contactHoursEnd,
       createdAt: patientBriefs.createdAt,
       updatedAt: patientBriefs.updatedAt,
       doctorId: patientBriefs.doctorId,
@@ -2812,12 +3784,31 @@ export const queue = async (
   }
 };
 
+// Cron that assigns unassigned reviews and escalates those past their SLA (see wrangler.jsonc)
+const REVIEW_SLA_CRON = '*/5 * * * *';
+
 // Cron trigger handler for nightly housekeeping
 export const scheduled = async (
   event: ScheduledEvent,
   env: Env,
   ctx: ExecutionContext
 ): Promise<void> => {
+  if (event.cron === REVIEW_SLA_CRON) {
+    try {
+      await setupDb(env);
+      const { ReviewAssignmentService } = await import('@/lib/services/reviewAssignmentService');
+      const { parseAssignmentStrategy } = await import('@/lib/review-assignment');
+      await ReviewAssignmentService.sweep(parseAssignmentStrategy(env.REVIEW_ASSIGNMENT));
+    } catch (error) {
+      // The next run five minutes later picks up whatever this one missed
+      console.error('[CRON] Review SLA sweep failed:', error);
+      if (env.SENTRY_DSN) {
+        Sentry.captureException(error);
+      }
+    }
+    return;
+  }
+
   console.log('[CRON] Nightly housekeeping started at:', new Date().toISOString());
   
   try {
@@ -2863,7 +3854,13 @@ export const scheduled = async (
     // For now, just log what we would clean up
     console.log('[CRON] Would clean up failed messages older than:', sevenDaysAgo.toISOString());
     
-    // 3. Generate usage metrics rollup
+    // 3. Clear expired draft cache responses, which hold patient details
+    const { DraftCacheService } = await import('@/lib/services/draftCacheService');
+    const purgedDraftCacheEntries = await DraftCacheService.purgeExpired();
+    
+    console.log(`[CRON] Cleared ${purgedDraftCacheEntries} expired draft cache responses`);
+    
+    // 4. Generate usage metrics rollup
     const today = new Date();
     today.setHours(0, 0, 0, 0);
     
@@ -2890,6 +3887,7 @@ export const scheduled = async (
         data: {
           duration,
           oldAuditLogsFound: oldAuditLogs.length,
+          purgedDraftCacheEntries,
           metricsGenerated: auditMetrics.length,
         },
       });
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env } from 'cloudflare:workers';
+import { eq } from 'drizzle-orm';
+import { setupDb, drizzleDb, auditLogs, messageApprovals, users } from '../../src/db';
+import type { AuditLog, User } from '../../src/db';
+import { ApprovalService } from '../../src/lib/services/approvalService';
+import { ApprovalStepError } from '../../src/lib/approval-policies';
+
+const MESSAGE = 'Please take your metformin with breakfast.';
+const SIGNING_ENV = { AUTH_SECRET_KEY: 'test-approval-signing-key' };
+
+async function getUser(id: string): Promise<User> {
+  const [user] = await drizzleDb.select().from(users).where(eq(users.id, id)).limit(1);
+  return user;
+}
+
+async function getLog(id: string): Promise<AuditLog> {
+  const [log] = await drizzleDb.select().from(auditLogs).where(eq(auditLogs.id, id)).limit(1);
+  return log;
+}
+
+async function submitMessage(urgencyLevel: string): Promise<AuditLog> {
+  const [log] = await drizzleDb
+    .insert(auditLogs)
+    .values({
+      userId: 'test-admin-1',
+      patientId: 'patient-1',
+      patientName: 'John Test',
+      requestText: 'My chest feels tight after the new dose',
+      generatedDraft: MESSAGE,
+      finalMessage: MESSAGE,
+      actionType: 'submitted_for_review',
+      deliveryStatus: 'pending_review',
+      workflowState: 'in_review',
+      urgencyLevel
+    })
+    .returning();
+
+  return log;
+}
+
+// reviewMessage stores the plan chosen at the first signature on the message
+async function recordPlan(log: AuditLog, plan: unknown): Promise<AuditLog> {
+  await drizzleDb.update(auditLogs).set({ approvalPlan: JSON.stringify(plan) }).where(eq(auditLogs.id, log.id));
+  return getLog(log.id);
+}
+
+describe('Approval Integration Tests', () => {
+  let admin: User;
+  let doctor: User;
+  let reviewer: User;
+  let otherReviewer: User;
+
+  beforeEach(async () => {
+    await setupDb(env as any);
+    await drizzleDb.insert(users).values([
+      { id: 'test-reviewer-1', username: 'reviewer1', email: 'reviewer1@test.com', role: 'reviewer' },
+      { id: 'test-reviewer-2', username: 'reviewer2', email: 'reviewer2@test.com', role: 'reviewer' }
+    ]);
+    admin = await getUser('test-admin-1');
+    doctor = await getUser('test-user-1');
+    reviewer = await getUser('test-reviewer-1');
+    otherReviewer = await getUser('test-reviewer-2');
+
+    await ApprovalService.createPolicy({ name: 'Urgent sign-off', urgencyLevel: 'urgent', steps: ['reviewer', 'panel_doctor'] }, admin);
+  });
+
+  it('should sign the steps of a policy plan in order and complete only for the signed text', async () => {
+    const submitted = await submitMessage('urgent');
+    const options = { message: MESSAGE, guardrailCategories: [], env: SIGNING_ENV };
+
+    const first = await ApprovalService.sign(submitted, reviewer, options);
+    expect(first.plan.steps).toEqual(['reviewer', 'panel_doctor']);
+    expect(first.remaining).toEqual(['panel_doctor']);
+    expect(first.approval).toMatchObject({ stepIndex: 0, requiredRole: 'reviewer', approverId: 'test-reviewer-1' });
+
+    const inReview = await recordPlan(submitted, first.plan);
+    await expect(ApprovalService.assertComplete(inReview.id, MESSAGE)).rejects.toThrow("Missing approvals: Patient's doctor");
+
+    const second = await ApprovalService.sign(inReview, doctor, options);
+    expect(second.remaining).toEqual([]);
+    await expect(ApprovalService.assertComplete(inReview.id, MESSAGE)).resolves.toBeUndefined();
+    await expect(ApprovalService.assertComplete(inReview.id, `${MESSAGE} Call us tomorrow.`)).rejects.toThrow(
+      "Missing approvals: Reviewer, Patient's doctor"
+    );
+
+    const status = await ApprovalService.getStatus(inReview, SIGNING_ENV);
+    expect(status.approvals.map(approval => [approval.approverName, approval.signatureValid])).toEqual([
+      ['reviewer1', true],
+      ['testuser', true]
+    ]);
+  });
+
+  it('should refuse signatures from the wrong role, a repeat signer, edits after signing and incomplete direct sends', async () => {
+    const submitted = await submitMessage('urgent');
+    const options = { message: MESSAGE, guardrailCategories: [], env: SIGNING_ENV };
+
+    await expect(ApprovalService.sign(submitted, reviewer, { ...options, mustComplete: true })).rejects.toThrow(
+      /needs 2 approvals .* and cannot be sent directly/
+    );
+
+    const { plan } = await ApprovalService.sign(submitted, reviewer, options);
+    const inReview = await recordPlan(submitted, plan);
+
+    await expect(ApprovalService.sign(inReview, reviewer, options)).rejects.toThrow(/You already signed step 1/);
+    await expect(ApprovalService.sign(inReview, otherReviewer, options)).rejects.toThrow(
+      "Step 2 of 2 needs approval by: Patient's doctor"
+    );
+    await expect(ApprovalService.sign(inReview, doctor, { ...options, message: `${MESSAGE} Edited.` })).rejects.toBeInstanceOf(
+      ApprovalStepError
+    );
+  });
+
+  it('should let only one of two concurrent approvers sign the same step', async () => {
+    const submitted = await submitMessage('routine');
+    const options = { message: MESSAGE, guardrailCategories: [], env: SIGNING_ENV };
+
+    const results = await Promise.allSettled([
+      ApprovalService.sign(submitted, reviewer, options),
+      ApprovalService.sign(submitted, otherReviewer, options)
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    const [refused] = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    expect(refused.reason).toBeInstanceOf(ApprovalStepError);
+    expect(await ApprovalService.getApprovals(submitted, 0)).toHaveLength(1);
+  });
+
+  it('should keep signatures immutable and stop counting them after a recall', async () => {
+    const submitted = await submitMessage('routine');
+    const { plan } = await ApprovalService.sign(submitted, reviewer, { message: MESSAGE, guardrailCategories: [], env: SIGNING_ENV });
+    const approved = await recordPlan(submitted, plan);
+    await expect(ApprovalService.assertComplete(approved.id, MESSAGE)).resolves.toBeUndefined();
+
+    await expect(
+      drizzleDb.update(messageApprovals).set({ approverId: 'test-reviewer-2' }).where(eq(messageApprovals.auditLogId, approved.id))
+    ).rejects.toThrow();
+
+    await drizzleDb.update(auditLogs).set({ approvalRound: approved.approvalRound + 1 }).where(eq(auditLogs.id, approved.id));
+    await expect(ApprovalService.assertComplete(approved.id, MESSAGE)).rejects.toThrow('Missing approvals: Reviewer');
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env } from 'cloudflare:workers';
+import { asc } from 'drizzle-orm';
+import { setupDb, drizzleDb, aiBudgets, aiBudgetAlerts, users } from '../../src/db';
+import { BudgetService } from '../../src/lib/services/budgetService';
+
+const PENDING = { requests: 1, tokens: 500, cost: 0.001 };
+
+describe('Budget Integration Tests', () => {
+  beforeEach(async () => {
+    await setupDb(env as any);
+    await drizzleDb.insert(users).values([
+      { id: 'test-reviewer-1', username: 'reviewer1', email: 'reviewer1@test.com', role: 'reviewer' },
+      { id: 'test-reviewer-2', username: 'reviewer2', email: 'reviewer2@test.com', role: 'reviewer' }
+    ]);
+    await drizzleDb.insert(aiBudgets).values([
+      { id: 'budget-role-reviewer-tight', scope: 'role', scopeValue: 'reviewer', period: 'daily', maxRequests: 1, updatedAt: new Date() },
+      { id: 'budget-organization-tight', scope: 'organization', period: 'daily', maxRequests: 1, updatedAt: new Date() }
+    ]);
+  });
+
+  it('should alert once per user for role budgets and once in all for shared budgets', async () => {
+    for (const userId of ['test-reviewer-1', 'test-reviewer-2', 'test-reviewer-1']) {
+      await BudgetService.checkBudgets({ userId, role: 'reviewer', doctorId: null }, PENDING, env);
+    }
+
+    const alerts = await drizzleDb
+      .select({ budgetId: aiBudgetAlerts.budgetId, level: aiBudgetAlerts.level, subjectUserId: aiBudgetAlerts.subjectUserId })
+      .from(aiBudgetAlerts)
+      .orderBy(asc(aiBudgetAlerts.budgetId), asc(aiBudgetAlerts.subjectUserId));
+
+    expect(alerts).toEqual([
+      { budgetId: 'budget-organization-tight', level: 'soft_limit', subjectUserId: null },
+      { budgetId: 'budget-role-reviewer-tight', level: 'soft_limit', subjectUserId: 'test-reviewer-1' },
+      { budgetId: 'budget-role-reviewer-tight', level: 'soft_limit', subjectUserId: 'test-reviewer-2' }
+    ]);
+  });
+});
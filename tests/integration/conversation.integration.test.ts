@@ -0,0 +1,40 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env } from 'cloudflare:workers';
+import { setupDb, drizzleDb, aiBudgets, conversationMessages } from '../../src/db';
+import { generateDraftAction } from '../../src/actions/generateDraft';
+
+const INQUIRY = 'Can I take my metformin at night instead of in the morning?';
+
+describe('Conversation Integration Tests', () => {
+  beforeEach(async () => {
+    await setupDb(env as any);
+  });
+
+  it('should add the inquiry to the thread only once a draft has been generated', async () => {
+    const workerEnv = { ...(env as any), LLM_PROVIDERS: 'fake' };
+    const request = { patientInquiry: INQUIRY, patientId: 'patient-1', userId: 'test-user-1', regenerate: true };
+
+    await drizzleDb.insert(aiBudgets).values({
+      id: 'budget-user-blocked',
+      scope: 'user',
+      scopeValue: 'test-user-1',
+      period: 'daily',
+      maxRequests: 0,
+      updatedAt: new Date()
+    });
+
+    const blocked = await generateDraftAction(request, workerEnv);
+    const retried = await generateDraftAction(request, workerEnv);
+
+    expect(blocked).toMatchObject({ success: false, error: expect.stringContaining('AI usage budget reached') });
+    expect(retried.success).toBe(false);
+    expect(await drizzleDb.select().from(conversationMessages)).toEqual([]);
+
+    await drizzleDb.delete(aiBudgets);
+    const generated = await generateDraftAction(request, workerEnv);
+
+    expect(generated.success).toBe(true);
+    const turns = await drizzleDb.select().from(conversationMessages);
+    expect(turns).toMatchObject([{ direction: 'inbound', body: INQUIRY, recordedBy: 'test-user-1' }]);
+  });
+});
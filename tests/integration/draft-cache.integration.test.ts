@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { env } from 'cloudflare:workers';
+import { eq } from 'drizzle-orm';
+import { setupDb, drizzleDb, auditLogs, conversationMessages, draftCache, guardrailRules } from '../../src/db';
+import { DraftCacheService } from '../../src/lib/services/draftCacheService';
+import { generateDraftAction, type DraftResponse } from '../../src/actions/generateDraft';
+import { ConversationService } from '../../src/lib/services/conversationService';
+
+async function generatedDraft(draft: string): Promise<DraftResponse> {
+  const [log] = await drizzleDb
+    .insert(auditLogs)
+    .values({
+      userId: 'test-user-1',
+      patientId: 'patient-1',
+      patientName: 'John Test',
+      requestText: 'When should I take my medication?',
+      generatedDraft: draft,
+      finalMessage: '',
+      actionType: 'draft_generated',
+      deliveryStatus: 'draft'
+    })
+    .returning({ id: auditLogs.id });
+
+  return {
+    success: true,
+    draft,
+    auditLogId: log.id,
+    usage: { promptTokens: 80, completionTokens: 40, totalTokens: 120 },
+    cost: 0.0012
+  };
+}
+
+describe('Draft Cache Integration Tests', () => {
+  beforeEach(async () => {
+    await setupDb(env as any);
+  });
+
+  it('should replay a cached draft for an identical request without generating again', async () => {
+    const generate = vi.fn(() => generatedDraft('Take it with breakfast, John.'));
+    const request = { cacheKey: 'key-identical', userId: 'test-user-1' };
+
+    const first = await DraftCacheService.getOrGenerate(request, generate);
+    const second = await DraftCacheService.getOrGenerate(request, generate);
+
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(first.cached).toBeUndefined();
+    expect(second).toMatchObject({ success: true, cached: true, draft: first.draft, auditLogId: first.auditLogId, cost: 0 });
+    expect(second.usage).toBeUndefined();
+    expect(await DraftCacheService.getCacheStats({ userId: 'test-user-1' })).toEqual({ cacheHits: 1, tokensSaved: 120 });
+  });
+
+  it('should generate a new draft once the cached one has left the draft state', async () => {
+    const generate = vi.fn(() => generatedDraft('Take it with breakfast, John.'));
+    const request = { cacheKey: 'key-submitted', userId: 'test-user-1' };
+
+    const first = await DraftCacheService.getOrGenerate(request, generate);
+    await drizzleDb
+      .update(auditLogs)
+      .set({ workflowState: 'in_review' })
+      .where(eq(auditLogs.id, first.auditLogId!));
+
+    const second = await DraftCacheService.getOrGenerate(request, generate);
+
+    expect(generate).toHaveBeenCalledTimes(2);
+    expect(second.cached).toBeUndefined();
+    expect(second.auditLogId).not.toBe(first.auditLogId);
+  });
+
+  it('should replay an idempotency key and reject it for a different request', async () => {
+    const generate = vi.fn(() => generatedDraft('Take it with breakfast, John.'));
+
+    const first = await DraftCacheService.getOrGenerate(
+      { cacheKey: 'key-a', userId: 'test-user-1', idempotencyKey: 'retry-1', regenerate: true },
+      generate
+    );
+    const retried = await DraftCacheService.getOrGenerate(
+      { cacheKey: 'key-a', userId: 'test-user-1', idempotencyKey: 'retry-1', regenerate: true },
+      generate
+    );
+    const reused = await DraftCacheService.getOrGenerate(
+      { cacheKey: 'key-b', userId: 'test-user-1', idempotencyKey: 'retry-1' },
+      generate
+    );
+
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(retried).toMatchObject({ cached: true, auditLogId: first.auditLogId });
+    expect(reused).toEqual({ success: false, error: 'Idempotency key was already used for a different draft request' });
+  });
+
+  it('should generate again after a new thread turn or a guardrail change, but not for the inquiry\'s own turn', async () => {
+    const workerEnv = { ...(env as any), LLM_PROVIDERS: 'fake' };
+    const request = { patientInquiry: 'Can I take my metformin at night?', patientId: 'patient-1', userId: 'test-user-1' };
+
+    const first = await generateDraftAction(request, workerEnv);
+    // The inquiry's inbound turn was recorded by the first generation
+    expect(await drizzleDb.select().from(conversationMessages)).toHaveLength(1);
+    expect(await generateDraftAction(request, workerEnv)).toMatchObject({ cached: true, auditLogId: first.auditLogId });
+
+    await drizzleDb.insert(guardrailRules).values({
+      name: 'Night dosing',
+      category: 'dosage_change',
+      severity: 'warn',
+      pattern: 'at night',
+      appliesTo: 'inquiry',
+      explanation: 'Dosing times are set by the doctor'
+    });
+    const afterRule = await generateDraftAction(request, workerEnv);
+    expect(afterRule.cached).toBeUndefined();
+    expect(afterRule.guardrails?.map(match => match.ruleName)).toContain('Night dosing');
+    expect(await generateDraftAction(request, workerEnv)).toMatchObject({ cached: true, auditLogId: afterRule.auditLogId });
+
+    await ConversationService.recordInbound('patient-1', 'Also, should I keep taking it with food?', 'test-user-1');
+    const afterTurn = await generateDraftAction(request, workerEnv);
+    expect(afterTurn.cached).toBeUndefined();
+    expect(afterTurn.conversationTurns).toBe(2);
+  });
+
+  it('should clear expired responses but keep their usage for the dashboards', async () => {
+    const generate = vi.fn(() => generatedDraft('Take it with breakfast, John.'));
+    const request = { cacheKey: 'key-expired', userId: 'test-user-1', idempotencyKey: 'retry-2' };
+
+    await DraftCacheService.getOrGenerate(request, generate);
+    await DraftCacheService.getOrGenerate(request, generate);
+    await drizzleDb
+      .update(draftCache)
+      .set({ expiresAt: new Date(Date.now() - 1000) })
+      .where(eq(draftCache.cacheKey, 'key-expired'));
+
+    expect(await DraftCacheService.purgeExpired()).toBe(1);
+    expect(await DraftCacheService.purgeExpired()).toBe(0);
+
+    const [entry] = await drizzleDb.select().from(draftCache).where(eq(draftCache.cacheKey, 'key-expired'));
+    expect(entry.response).toBeNull();
+    expect(entry).toMatchObject({ tokensConsumed: 120, hitCount: 1 });
+    expect(await DraftCacheService.getCacheStats({ userId: 'test-user-1' })).toEqual({ cacheHits: 1, tokensSaved: 120 });
+
+    // The expired entry is never replayed, and its idempotency key can be used again
+    const fresh = await DraftCacheService.getOrGenerate(request, generate);
+    expect(generate).toHaveBeenCalledTimes(2);
+    expect(fresh.cached).toBeUndefined();
+  });
+});
@@ -0,0 +1,312 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { env } from 'cloudflare:workers';
+import { eq } from 'drizzle-orm';
+import { setupDb, drizzleDb, auditLogs, messageApprovals, messageQueue, users } from '../../src/db';
+import type { User } from '../../src/db';
+import { queueMessageForDelivery, recallMessage, retryDelivery, sendMessageDirectly } from '../../src/actions/messageWorkflow';
+import { MessageStateService } from '../../src/lib/services/messageStateService';
+import { EmailProcessor } from '../../src/jobs/email-processor';
+import { StaleTransitionError } from '../../src/lib/message-states';
+
+const MESSAGE = 'Please take your metformin with breakfast.';
+
+function testEnv() {
+  const queue = { send: vi.fn(async () => {}), sendBatch: vi.fn(async () => {}) };
+  return { queue, env: { ...(env as any), MESSAGE_QUEUE: queue, UNDO_SEND_SECONDS: '30', AUTH_SECRET_KEY: 'test-approval-signing-key' } };
+}
+
+async function getUser(id: string): Promise<User> {
+  const [user] = await drizzleDb.select().from(users).where(eq(users.id, id)).limit(1);
+  return user;
+}
+
+async function createMessage(workflowState: string): Promise<string> {
+  const [log] = await drizzleDb
+    .insert(auditLogs)
+    .values({
+      userId: 'test-user-1',
+      patientId: 'patient-1',
+      patientName: 'John Test',
+      requestText: 'When should I take my medication?',
+      generatedDraft: MESSAGE,
+      finalMessage: MESSAGE,
+      actionType: workflowState === 'draft' ? 'draft_generated' : 'reviewed',
+      deliveryStatus: 'draft',
+      workflowState
+    })
+    .returning({ id: auditLogs.id });
+
+  return log.id;
+}
+
+async function queueEntryFor(auditLogId: string, values: { deliveryMethod: string; recipientEmail?: string; recipientPhone?: string }) {
+  const [entry] = await drizzleDb
+    .insert(messageQueue)
+    .values({ auditLogId, messageContent: MESSAGE, status: 'queued', priority: 'normal', ...values })
+    .returning();
+
+  return entry;
+}
+
+async function stateOf(auditLogId: string): Promise<string> {
+  const [log] = await drizzleDb.select().from(auditLogs).where(eq(auditLogs.id, auditLogId)).limit(1);
+  return log.workflowState;
+}
+
+describe('Message Workflow Integration Tests', () => {
+  let admin: User;
+
+  beforeEach(async () => {
+    await setupDb(env as any);
+    admin = await getUser('test-admin-1');
+  });
+
+  describe('Queue for delivery', () => {
+    it('should hold an email for the undo window and enqueue a job for the new dispatch', async () => {
+      const { queue, env: workerEnv } = testEnv();
+      const auditLogId = await createMessage('approved');
+      const entry = await queueEntryFor(auditLogId, { deliveryMethod: 'email', recipientEmail: 'john@test.com' });
+
+      const result = await queueMessageForDelivery(entry.id, admin, workerEnv);
+
+      expect(result.success).toBe(true);
+      expect(result.undoUntil).toBeInstanceOf(Date);
+      expect(await stateOf(auditLogId)).toBe('scheduled');
+
+      const [updated] = await drizzleDb.select().from(messageQueue).where(eq(messageQueue.id, entry.id));
+      expect(updated.dispatchId).toBeTruthy();
+      expect(queue.send).toHaveBeenCalledTimes(1);
+      expect(queue.send).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'email_send', messageId: entry.id, recipient: 'john@test.com', dispatchId: updated.dispatchId }),
+        expect.objectContaining({ delaySeconds: 30 })
+      );
+
+      const history = await MessageStateService.getHistory(auditLogId);
+      expect(history.map(event => [event.fromState, event.toState])).toEqual([['approved', 'scheduled']]);
+    });
+
+    it('should leave a message without a recipient approved and untouched', async () => {
+      const { queue, env: workerEnv } = testEnv();
+      const auditLogId = await createMessage('approved');
+      const entry = await queueEntryFor(auditLogId, { deliveryMethod: 'sms' });
+
+      const result = await queueMessageForDelivery(entry.id, admin, workerEnv);
+
+      expect(result).toEqual({ success: false, error: 'Phone number required for SMS delivery' });
+      expect(await stateOf(auditLogId)).toBe('approved');
+      expect(await MessageStateService.getHistory(auditLogId)).toEqual([]);
+
+      const [unchanged] = await drizzleDb.select().from(messageQueue).where(eq(messageQueue.id, entry.id));
+      expect(unchanged.dispatchId).toBeNull();
+      expect(queue.send).not.toHaveBeenCalled();
+    });
+
+    it('should mark portal messages sent without a queue job', async () => {
+      const { queue, env: workerEnv } = testEnv();
+      const auditLogId = await createMessage('approved');
+      const entry = await queueEntryFor(auditLogId, { deliveryMethod: 'portal' });
+
+      const result = await queueMessageForDelivery(entry.id, admin, workerEnv);
+
+      expect(result.success).toBe(true);
+      expect(result.undoUntil).toBeUndefined();
+      expect(await stateOf(auditLogId)).toBe('sent');
+
+      const [sent] = await drizzleDb.select().from(messageQueue).where(eq(messageQueue.id, entry.id));
+      expect(sent.status).toBe('sent');
+      expect(queue.send).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a direct send that cannot be delivered before approving it', async () => {
+      const { queue, env: workerEnv } = testEnv();
+      const auditLogId = await createMessage('draft');
+
+      const missingEmail = await sendMessageDirectly(
+        { auditLogId, finalMessage: MESSAGE, deliveryMethod: 'email' },
+        admin,
+        workerEnv
+      );
+      const scheduledPortal = await sendMessageDirectly(
+        { auditLogId, finalMessage: MESSAGE, deliveryMethod: 'portal', scheduledFor: new Date(Date.now() + 60 * 60 * 1000) },
+        admin,
+        workerEnv
+      );
+      const scheduledWithoutQueue = await sendMessageDirectly(
+        { auditLogId, finalMessage: MESSAGE, deliveryMethod: 'sms', recipientPhone: '+15555550123', scheduledFor: new Date(Date.now() + 60 * 60 * 1000) },
+        admin,
+        { ...workerEnv, MESSAGE_QUEUE: undefined }
+      );
+
+      expect(missingEmail).toEqual({ success: false, error: 'Email address required for email delivery' });
+      expect(scheduledPortal).toEqual({ success: false, error: 'Only email and SMS messages can be scheduled' });
+      expect(scheduledWithoutQueue).toEqual({
+        success: false,
+        error: 'Scheduled delivery is not available: the message queue is not configured'
+      });
+      expect(await stateOf(auditLogId)).toBe('draft');
+      expect(await drizzleDb.select().from(messageQueue).where(eq(messageQueue.auditLogId, auditLogId))).toEqual([]);
+      expect(queue.send).not.toHaveBeenCalled();
+    });
+
+    it('should not sign a direct send whose message moved before it could be approved', async () => {
+      const { queue, env: workerEnv } = testEnv();
+      const auditLogId = await createMessage('draft');
+
+      // As if another request moved the message between the read and the transition
+      const transition = vi.spyOn(MessageStateService, 'transitionFrom').mockRejectedValueOnce(new StaleTransitionError('draft', 'approved'));
+      const result = await sendMessageDirectly(
+        { auditLogId, finalMessage: MESSAGE, deliveryMethod: 'email', recipientEmail: 'john@test.com' },
+        admin,
+        workerEnv
+      );
+      transition.mockRestore();
+
+      expect(result).toEqual({ success: false, error: new StaleTransitionError('draft', 'approved').message });
+      expect(await drizzleDb.select().from(messageApprovals).where(eq(messageApprovals.auditLogId, auditLogId))).toEqual([]);
+      expect(queue.send).not.toHaveBeenCalled();
+
+      const retried = await sendMessageDirectly(
+        { auditLogId, finalMessage: MESSAGE, deliveryMethod: 'email', recipientEmail: 'john@test.com' },
+        admin,
+        workerEnv
+      );
+      expect(retried.success).toBe(true);
+      expect(await drizzleDb.select().from(messageApprovals).where(eq(messageApprovals.auditLogId, auditLogId))).toHaveLength(1);
+    });
+
+    it('should schedule a direct send for later through the queue', async () => {
+      const { queue, env: workerEnv } = testEnv();
+      const auditLogId = await createMessage('draft');
+      const scheduledFor = new Date(Date.now() + 60 * 60 * 1000);
+
+      const result = await sendMessageDirectly(
+        { auditLogId, finalMessage: MESSAGE, deliveryMethod: 'sms', recipientPhone: '+15555550123', scheduledFor },
+        admin,
+        workerEnv
+      );
+
+      expect(result).toMatchObject({ success: true, undoUntil: scheduledFor });
+      expect(await stateOf(auditLogId)).toBe('scheduled');
+      expect(queue.send).toHaveBeenCalledTimes(1);
+      const [job, options] = queue.send.mock.calls[0] as unknown as [any, { delaySeconds: number }];
+      expect(job).toMatchObject({ type: 'sms_send', recipient: '+15555550123' });
+      expect(options.delaySeconds).toBeGreaterThan(3590);
+    });
+
+    it('should leave a message approved without a dispatch when its job cannot be enqueued, until delivery is retried', async () => {
+      const { queue, env: workerEnv } = testEnv();
+      const auditLogId = await createMessage('approved');
+      const entry = await queueEntryFor(auditLogId, { deliveryMethod: 'email', recipientEmail: 'john@test.com' });
+      queue.send.mockRejectedValueOnce(new Error('Queue unavailable'));
+
+      expect(await queueMessageForDelivery(entry.id, admin, workerEnv)).toEqual({ success: false, error: 'Queue unavailable' });
+      expect(await stateOf(auditLogId)).toBe('approved');
+      expect(await MessageStateService.getHistory(auditLogId)).toEqual([]);
+      const [waiting] = await drizzleDb.select().from(messageQueue).where(eq(messageQueue.id, entry.id));
+      expect(waiting).toMatchObject({ status: 'queued', dispatchId: null });
+
+      const retried = await retryDelivery(auditLogId, admin, workerEnv);
+
+      expect(retried).toMatchObject({ success: true, nextStep: 'queued_for_delivery', auditLog: { workflowState: 'scheduled' } });
+      const [queued] = await drizzleDb.select().from(messageQueue).where(eq(messageQueue.id, entry.id));
+      expect(queue.send).toHaveBeenLastCalledWith(expect.objectContaining({ dispatchId: queued.dispatchId }), expect.anything());
+      expect(await retryDelivery(auditLogId, admin, workerEnv)).toEqual({
+        success: false,
+        error: 'Only approved messages waiting for delivery can be queued again'
+      });
+    });
+
+    it('should withdraw the dispatch when the message moves before it is scheduled', async () => {
+      const { queue, env: workerEnv } = testEnv();
+      const auditLogId = await createMessage('approved');
+      const entry = await queueEntryFor(auditLogId, { deliveryMethod: 'email', recipientEmail: 'john@test.com' });
+
+      // As if the author recalled the message between enqueueing its job and scheduling it
+      const transition = vi.spyOn(MessageStateService, 'transitionFrom').mockRejectedValueOnce(new StaleTransitionError('approved', 'scheduled'));
+      const result = await queueMessageForDelivery(entry.id, admin, workerEnv);
+      transition.mockRestore();
+
+      expect(result.success).toBe(false);
+      expect(queue.send).toHaveBeenCalledTimes(1);
+      const [job] = queue.send.mock.calls[0] as unknown as [any];
+      const [withdrawn] = await drizzleDb.select().from(messageQueue).where(eq(messageQueue.id, entry.id));
+      expect(withdrawn.dispatchId).toBeNull();
+      expect(await EmailProcessor.processEmailJob(job, workerEnv)).toMatchObject({ success: true, status: 'skipped' });
+    });
+
+    it('should leave a scheduled direct send approved when its job cannot be enqueued', async () => {
+      const { queue, env: workerEnv } = testEnv();
+      const auditLogId = await createMessage('draft');
+      queue.send.mockRejectedValueOnce(new Error('Queue unavailable'));
+
+      const result = await sendMessageDirectly(
+        { auditLogId, finalMessage: MESSAGE, deliveryMethod: 'sms', recipientPhone: '+15555550123', scheduledFor: new Date(Date.now() + 60 * 60 * 1000) },
+        admin,
+        workerEnv
+      );
+
+      expect(result).toEqual({ success: false, error: 'Message approved but not scheduled for delivery: Queue unavailable' });
+      expect(await stateOf(auditLogId)).toBe('approved');
+      const [waiting] = await drizzleDb.select().from(messageQueue).where(eq(messageQueue.auditLogId, auditLogId));
+      expect(waiting).toMatchObject({ status: 'queued', dispatchId: null });
+    });
+  });
+
+  describe('Recall', () => {
+    async function queuedEmail(workerEnv: any) {
+      const auditLogId = await createMessage('approved');
+      const entry = await queueEntryFor(auditLogId, { deliveryMethod: 'email', recipientEmail: 'john@test.com' });
+      await queueMessageForDelivery(entry.id, admin, workerEnv);
+      return { auditLogId, entry };
+    }
+
+    it('should pull a held message back to draft so its queued job is dropped', async () => {
+      const { queue, env: workerEnv } = testEnv();
+      const { auditLogId, entry } = await queuedEmail(workerEnv);
+      const [job] = queue.send.mock.calls[0] as unknown as [any];
+
+      const result = await recallMessage(auditLogId, admin, workerEnv, 'Wrong dosage');
+
+      expect(result).toMatchObject({ success: true, auditLog: { workflowState: 'draft', actionType: 'recalled', approvalRound: 1 } });
+      const [recalled] = await drizzleDb.select().from(messageQueue).where(eq(messageQueue.id, entry.id));
+      expect(recalled).toMatchObject({ status: 'recalled', dispatchId: null });
+
+      const history = await MessageStateService.getHistory(auditLogId);
+      expect(history.map(event => [event.fromState, event.toState])).toEqual([['approved', 'scheduled'], ['scheduled', 'draft']]);
+      expect(history[1].reason).toBe('Wrong dosage');
+
+      expect(await EmailProcessor.processEmailJob(job, workerEnv)).toMatchObject({ success: true, status: 'skipped' });
+      expect(await stateOf(auditLogId)).toBe('draft');
+
+      expect(await recallMessage(auditLogId, admin, workerEnv)).toMatchObject({ success: true, message: 'Message was already recalled' });
+    });
+
+    it('should restore the queue entry when the message cannot move back to draft', async () => {
+      const { env: workerEnv } = testEnv();
+      const { auditLogId, entry } = await queuedEmail(workerEnv);
+      const [queued] = await drizzleDb.select().from(messageQueue).where(eq(messageQueue.id, entry.id));
+
+      // As if another request moved the message between the read and the transition
+      const transition = vi.spyOn(MessageStateService, 'transitionFrom').mockRejectedValueOnce(new StaleTransitionError('scheduled', 'draft'));
+      const result = await recallMessage(auditLogId, admin, workerEnv);
+      transition.mockRestore();
+
+      expect(result).toEqual({ success: false, error: new StaleTransitionError('scheduled', 'draft').message });
+      const [restored] = await drizzleDb.select().from(messageQueue).where(eq(messageQueue.id, entry.id));
+      expect(restored).toMatchObject({ status: 'queued', dispatchId: queued.dispatchId });
+      expect(await stateOf(auditLogId)).toBe('scheduled');
+    });
+
+    it('should refuse to recall a message the processor has picked up', async () => {
+      const { env: workerEnv } = testEnv();
+      const { auditLogId, entry } = await queuedEmail(workerEnv);
+      await drizzleDb.update(messageQueue).set({ status: 'processing' }).where(eq(messageQueue.id, entry.id));
+
+      expect(await recallMessage(auditLogId, admin, workerEnv)).toEqual({
+        success: false,
+        error: 'The message is already being delivered and can no longer be recalled'
+      });
+      expect(await stateOf(auditLogId)).toBe('scheduled');
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env } from 'cloudflare:workers';
+import { eq } from 'drizzle-orm';
+import { setupDb, drizzleDb, auditLogs } from '../../src/db';
+import { refineDraftParagraphAction } from '../../src/actions/refineDraft';
+
+const DRAFT = 'Hi John,\n\nPlease take your metformin with breakfast.\n\nBest regards';
+const YESTERDAY = new Date(Math.floor(Date.now() / 1000) * 1000 - 24 * 60 * 60 * 1000);
+
+describe('Refinement Integration Tests', () => {
+  beforeEach(async () => {
+    await setupDb(env as any);
+  });
+
+  it('should bill each refinement on its own entry and keep every step of concurrent refinements', async () => {
+    const [draftLog] = await drizzleDb
+      .insert(auditLogs)
+      .values({
+        userId: 'test-user-1',
+        patientId: 'patient-1',
+        patientName: 'John Test',
+        requestText: 'When should I take my medication?',
+        generatedDraft: DRAFT,
+        finalMessage: '',
+        actionType: 'draft_generated',
+        deliveryStatus: 'draft',
+        tokensConsumed: 120,
+        aiCost: 0.0012,
+        createdAt: YESTERDAY
+      })
+      .returning();
+
+    const workerEnv = { ...(env as any), LLM_PROVIDERS: 'fake' };
+    const refine = (instruction: string) => refineDraftParagraphAction(
+      { auditLogId: draftLog.id, userId: 'test-user-1', draft: DRAFT, paragraphIndex: 1, instruction },
+      workerEnv
+    );
+
+    const results = await Promise.all([refine('Make it warmer'), refine('Make it shorter')]);
+    expect(results.map(result => result.success)).toEqual([true, true]);
+
+    const [draft] = await drizzleDb.select().from(auditLogs).where(eq(auditLogs.id, draftLog.id));
+    expect(draft).toMatchObject({ tokensConsumed: 120, aiCost: 0.0012 });
+    expect(JSON.parse(draft.editHistory!).map((step: { instruction: string }) => step.instruction).sort()).toEqual([
+      'Make it shorter',
+      'Make it warmer'
+    ]);
+
+    const refinements = await drizzleDb.select().from(auditLogs).where(eq(auditLogs.actionType, 'draft_refined'));
+    expect(refinements).toHaveLength(2);
+    for (const refinement of refinements) {
+      expect(refinement).toMatchObject({ userId: 'test-user-1', patientId: 'patient-1', aiProvider: 'fake' });
+      expect(refinement.tokensConsumed).toBeGreaterThan(0);
+      expect(refinement.createdAt.getTime()).toBeGreaterThan(YESTERDAY.getTime());
+    }
+  });
+});
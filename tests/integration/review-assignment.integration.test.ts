@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env } from 'cloudflare:workers';
+import { eq } from 'drizzle-orm';
+import { setupDb, drizzleDb, auditLogs, users } from '../../src/db';
+import type { User } from '../../src/db';
+import { ReviewAssignmentService } from '../../src/lib/services/reviewAssignmentService';
+import { ReviewClaimedError } from '../../src/lib/review-assignment';
+
+const HOUR = 60 * 60 * 1000;
+
+// Stored timestamps have one-second resolution
+const NOW = new Date(Math.floor(Date.now() / 1000) * 1000);
+
+async function getUser(id: string): Promise<User> {
+  const [user] = await drizzleDb.select().from(users).where(eq(users.id, id)).limit(1);
+  return user;
+}
+
+async function submitMessage(): Promise<string> {
+  const [log] = await drizzleDb
+    .insert(auditLogs)
+    .values({
+      userId: 'test-admin-1',
+      patientId: 'patient-1',
+      patientName: 'John Test',
+      requestText: 'When should I take my medication?',
+      generatedDraft: 'Please take your metformin with breakfast.',
+      finalMessage: 'Please take your metformin with breakfast.',
+      actionType: 'submitted_for_review',
+      deliveryStatus: 'pending_review',
+      workflowState: 'in_review',
+      urgencyLevel: 'routine'
+    })
+    .returning({ id: auditLogs.id });
+
+  return log.id;
+}
+
+describe('Review Assignment Integration Tests', () => {
+  let reviewer: User;
+  let otherReviewer: User;
+
+  beforeEach(async () => {
+    await setupDb(env as any);
+    await drizzleDb.insert(users).values([
+      { id: 'test-reviewer-1', username: 'reviewer1', email: 'reviewer1@test.com', role: 'reviewer' },
+      { id: 'test-reviewer-2', username: 'reviewer2', email: 'reviewer2@test.com', role: 'reviewer' }
+    ]);
+    reviewer = await getUser('test-reviewer-1');
+    otherReviewer = await getUser('test-reviewer-2');
+  });
+
+  it('should assign messages in review to the panel doctor once, with a backup to escalate to', async () => {
+    const auditLogId = await submitMessage();
+
+    expect(await ReviewAssignmentService.sweep('doctor_panel', NOW)).toEqual({ assigned: 1, escalated: 0 });
+    expect(await ReviewAssignmentService.sweep('doctor_panel', NOW)).toEqual({ assigned: 0, escalated: 0 });
+
+    const assignment = await ReviewAssignmentService.get(auditLogId);
+    expect(assignment).toMatchObject({
+      assigneeId: 'test-user-1',
+      assignedVia: 'doctor_panel',
+      requiredRole: 'reviewer',
+      dueAt: new Date(NOW.getTime() + 4 * HOUR),
+      escalationLevel: 0
+    });
+    expect(['test-reviewer-1', 'test-reviewer-2']).toContain(assignment?.escalateToId);
+  });
+
+  it('should hold a claim against other reviewers until it expires', async () => {
+    const auditLogId = await submitMessage();
+    await ReviewAssignmentService.sweep('round_robin', NOW);
+
+    const claim = await ReviewAssignmentService.claim(auditLogId, reviewer, NOW);
+    expect(claim).toMatchObject({ claimedBy: 'test-reviewer-1', claimExpiresAt: new Date(NOW.getTime() + 15 * 60 * 1000) });
+
+    await expect(ReviewAssignmentService.claim(auditLogId, otherReviewer, NOW)).rejects.toBeInstanceOf(ReviewClaimedError);
+    await expect(ReviewAssignmentService.assertNotClaimedByOther(auditLogId, otherReviewer, NOW)).rejects.toThrow(
+      /reviewer1 is reviewing this message/
+    );
+    await expect(ReviewAssignmentService.assertNotClaimedByOther(auditLogId, reviewer, NOW)).resolves.toBeUndefined();
+    expect(await ReviewAssignmentService.release(auditLogId, otherReviewer)).toBe(false);
+
+    const later = new Date(NOW.getTime() + 16 * 60 * 1000);
+    expect(await ReviewAssignmentService.claim(auditLogId, otherReviewer, later)).toMatchObject({ claimedBy: 'test-reviewer-2' });
+
+    await ReviewAssignmentService.complete(auditLogId);
+    await expect(ReviewAssignmentService.claim(auditLogId, reviewer, later)).rejects.toThrow('Message is not waiting for review');
+  });
+
+  it('should escalate an overdue review once per deadline and drop its claim', async () => {
+    const auditLogId = await submitMessage();
+    const submittedAt = new Date(NOW.getTime() - 5 * HOUR);
+    await ReviewAssignmentService.sweep('doctor_panel', submittedAt);
+    await ReviewAssignmentService.claim(auditLogId, await getUser('test-user-1'), new Date(NOW.getTime() - 60 * 1000));
+    const assigned = await ReviewAssignmentService.get(auditLogId);
+
+    expect(await ReviewAssignmentService.sweep('doctor_panel', NOW)).toEqual({ assigned: 0, escalated: 1 });
+    expect(await ReviewAssignmentService.sweep('doctor_panel', NOW)).toEqual({ assigned: 0, escalated: 0 });
+
+    const escalated = await ReviewAssignmentService.get(auditLogId);
+    expect(escalated).toMatchObject({
+      assigneeId: assigned?.escalateToId,
+      assignedVia: 'escalation',
+      escalationLevel: 1,
+      dueAt: new Date(NOW.getTime() + 4 * HOUR),
+      claimedBy: null
+    });
+    // Never escalated back to the doctor it was escalated away from
+    expect(escalated?.escalateToId).not.toBe('test-user-1');
+  });
+
+  it('should leave reviews that are no longer in review alone', async () => {
+    const auditLogId = await submitMessage();
+    await ReviewAssignmentService.sweep('round_robin', new Date(NOW.getTime() - 5 * HOUR));
+    await drizzleDb.update(auditLogs).set({ workflowState: 'approved' }).where(eq(auditLogs.id, auditLogId));
+
+    expect(await ReviewAssignmentService.sweep('round_robin', NOW)).toEqual({ assigned: 0, escalated: 0 });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  approvalSigningPayload,
+  canSignStep,
+  DEFAULT_APPROVAL_PLAN,
+  selectApprovalPlan,
+  signingProblem,
+  validateApprovalPolicy,
+  type ApprovalPlan,
+  type ApprovalPolicyDefinition
+} from '../../src/lib/approval-policies';
+
+function policy(overrides: Partial<ApprovalPolicyDefinition>): ApprovalPolicyDefinition {
+  return {
+    id: 'policy',
+    name: 'Policy',
+    doctorId: null,
+    urgencyLevel: null,
+    guardrailCategory: null,
+    inquiryIntent: null,
+    steps: ['reviewer'],
+    isEnabled: true,
+    ...overrides
+  };
+}
+
+const subject = {
+  doctorId: 'doctor-1',
+  urgencyLevel: 'routine',
+  guardrailCategories: ['medication_change'],
+  inquiryIntent: 'lab_results'
+};
+
+const coSigned: ApprovalPlan = { policyId: 'labs', policyName: 'Lab results', steps: ['reviewer', 'panel_doctor'] };
+
+describe('Approval policies', () => {
+  it('should fall back to a single review when no enabled policy matches', () => {
+    expect(selectApprovalPlan([], subject)).toEqual(DEFAULT_APPROVAL_PLAN);
+    expect(selectApprovalPlan([policy({ urgencyLevel: 'emergency', steps: ['doctor'] })], subject)).toEqual(DEFAULT_APPROVAL_PLAN);
+    expect(selectApprovalPlan([policy({ inquiryIntent: 'lab_results', isEnabled: false })], subject)).toEqual(DEFAULT_APPROVAL_PLAN);
+  });
+
+  it('should prefer the matching policy with the most conditions', () => {
+    const policies = [
+      policy({ id: 'any-labs', inquiryIntent: 'lab_results', steps: ['reviewer', 'doctor', 'admin'] }),
+      policy({ id: 'doctor-labs', doctorId: 'doctor-1', inquiryIntent: 'lab_results', steps: ['reviewer', 'panel_doctor'] }),
+      policy({ id: 'medication', guardrailCategory: 'medication_change', steps: ['doctor'] })
+    ];
+
+    expect(selectApprovalPlan(policies, subject).policyId).toBe('doctor-labs');
+    expect(selectApprovalPlan(policies, { ...subject, doctorId: 'doctor-2' }).policyId).toBe('any-labs');
+    expect(selectApprovalPlan(policies, { ...subject, inquiryIntent: 'billing' }).steps).toEqual(['doctor']);
+  });
+
+  it('should only let the patient\'s own doctor sign a panel doctor step', () => {
+    expect(canSignStep('panel_doctor', { id: 'doctor-1', role: 'doctor' }, 'doctor-1')).toBe(true);
+    expect(canSignStep('panel_doctor', { id: 'doctor-2', role: 'doctor' }, 'doctor-1')).toBe(false);
+    expect(canSignStep('panel_doctor', { id: 'admin-1', role: 'admin' }, 'doctor-1')).toBe(false);
+    expect(canSignStep('doctor', { id: 'admin-1', role: 'admin' }, null)).toBe(true);
+    expect(canSignStep('reviewer', { id: 'auditor-1', role: 'auditor' }, null)).toBe(false);
+  });
+
+  it('should require each step in order and by a different approver', () => {
+    expect(signingProblem(coSigned, [], { id: 'reviewer-1', role: 'reviewer' }, 'doctor-1')).toBeNull();
+    expect(signingProblem(coSigned, ['doctor-1'], { id: 'doctor-1', role: 'doctor' }, 'doctor-1')).toMatch(/different approver/);
+    expect(signingProblem(coSigned, ['reviewer-1'], { id: 'reviewer-2', role: 'reviewer' }, 'doctor-1')).toMatch(/Step 2 of 2/);
+    expect(signingProblem(coSigned, ['reviewer-1'], { id: 'doctor-1', role: 'doctor' }, 'doctor-1')).toBeNull();
+    expect(signingProblem(coSigned, ['reviewer-1', 'doctor-1'], { id: 'admin-1', role: 'admin' }, 'doctor-1')).toMatch(/already been signed/);
+  });
+
+  it('should validate policies and sign stable payloads', () => {
+    expect(validateApprovalPolicy({ name: 'Labs', steps: ['reviewer', 'panel_doctor'], inquiryIntent: 'lab_results' })).toEqual([]);
+    expect(validateApprovalPolicy({ name: ' ', steps: [] })).toHaveLength(2);
+    expect(validateApprovalPolicy({ name: 'Bad', steps: ['nurse'], guardrailCategory: 'billing' })).toHaveLength(2);
+    expect(validateApprovalPolicy({ name: 'Long', steps: ['reviewer', 'doctor', 'doctor', 'admin', 'admin'] })[0]).toMatch(/at most 4/);
+
+    const approval = {
+      auditLogId: 'log-1',
+      revision: 2,
+      round: 1,
+      stepIndex: 1,
+      requiredRole: 'panel_doctor',
+      approverId: 'doctor-1',
+      approverRole: 'doctor',
+      contentHash: 'abc',
+      signedAt: new Date('2024-05-01T10:00:00.750Z')
+    };
+    expect(approvalSigningPayload(approval)).toBe('log-1|2|1|1|panel_doctor|doctor-1|doctor|abc|1714557600');
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_BUDGETS,
+  applicableBudgets,
+  budgetWindowStart,
+  evaluateBudget,
+  validateBudget,
+  type BudgetDefinition
+} from '../../src/lib/budgets';
+
+const budget = (overrides: Partial<BudgetDefinition>): BudgetDefinition => ({
+  id: 'budget',
+  scope: 'organization',
+  scopeValue: null,
+  period: 'daily',
+  maxRequests: null,
+  maxTokens: null,
+  maxCost: null,
+  softLimitPercent: 80,
+  isEnabled: true,
+  overrideUntil: null,
+  ...overrides
+});
+
+const subject = { userId: 'user-1', role: 'staff', doctorId: 'doctor-1' };
+
+describe('AI budgets', () => {
+  it('should start windows at UTC midnight and the first of the month', () => {
+    const now = new Date('2026-03-15T23:30:00-05:00');
+    expect(budgetWindowStart('daily', now).toISOString()).toBe('2026-03-16T00:00:00.000Z');
+    expect(budgetWindowStart('monthly', now).toISOString()).toBe('2026-03-01T00:00:00.000Z');
+  });
+
+  it('should let a user budget replace the role budget for the same period only', () => {
+    const budgets = [
+      ...DEFAULT_BUDGETS,
+      budget({ id: 'user-daily', scope: 'user', scopeValue: 'user-1', maxRequests: 500 }),
+      budget({ id: 'role-monthly', scope: 'role', scopeValue: 'staff', period: 'monthly', maxCost: 20 }),
+      budget({ id: 'panel', scope: 'doctor_panel', scopeValue: 'doctor-1', maxTokens: 100000 }),
+      budget({ id: 'other-panel', scope: 'doctor_panel', scopeValue: 'doctor-2', maxTokens: 100000 }),
+      budget({ id: 'org', maxCost: 50 }),
+      budget({ id: 'disabled-org', maxCost: 1, isEnabled: false })
+    ];
+
+    expect(applicableBudgets(budgets, subject).map(b => b.id)).toEqual(['user-daily', 'role-monthly', 'panel', 'org']);
+  });
+
+  it('should block the request that would go over a limit', () => {
+    const staff = DEFAULT_BUDGETS.find(b => b.scopeValue === 'staff')!;
+    const pending = { requests: 1, tokens: 800, cost: 0.001 };
+
+    expect(evaluateBudget(staff, { requests: 38, tokens: 0, cost: 0 }, pending).state).toBe('ok');
+    expect(evaluateBudget(staff, { requests: 39, tokens: 0, cost: 0 }, pending)).toMatchObject({ state: 'soft_limit', metrics: ['requests'] });
+    expect(evaluateBudget(staff, { requests: 49, tokens: 0, cost: 0 }, pending).state).toBe('soft_limit');
+    expect(evaluateBudget(staff, { requests: 50, tokens: 0, cost: 0 }, pending)).toMatchObject({ state: 'exceeded', metrics: ['requests'] });
+  });
+
+  it('should report an active override without enforcing it', () => {
+    const now = new Date('2026-03-15T12:00:00Z');
+    const capped = budget({ maxCost: 1, overrideUntil: new Date('2026-03-15T18:00:00Z') });
+    const usage = { requests: 10, tokens: 20000, cost: 1.2 };
+    const pending = { requests: 1, tokens: 800, cost: 0.01 };
+
+    expect(evaluateBudget(capped, usage, pending, now)).toMatchObject({ state: 'exceeded', metrics: ['cost'], overridden: true });
+    expect(evaluateBudget(capped, usage, pending, new Date('2026-03-16T00:00:00Z')).overridden).toBe(false);
+  });
+
+  it('should validate scopes and limits', () => {
+    expect(validateBudget({ scope: 'organization', period: 'monthly', maxCost: 100 })).toEqual([]);
+    expect(validateBudget({ scope: 'role', period: 'daily', maxRequests: 10 })).toContain('A scope value is required');
+    expect(validateBudget({ scope: 'organization', scopeValue: 'x', period: 'daily', maxRequests: 10 })).toContain('Organization budgets have no scope value');
+    expect(validateBudget({ scope: 'user', scopeValue: 'user-1', period: 'weekly' })).toHaveLength(2);
+    expect(validateBudget({ scope: 'user', scopeValue: 'user-1', period: 'daily', maxTokens: -1, softLimitPercent: 150 })).toHaveLength(2);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_BULK_REVIEW_ITEMS,
+  summarizeBulkResults,
+  uniqueIds,
+  validateBulkReviewRequest
+} from '../../src/lib/bulk-review';
+
+describe('Bulk review', () => {
+  it('should accept approve, reject and reassign requests', () => {
+    expect(validateBulkReviewRequest({ action: 'approve', auditLogIds: ['log-1', 'log-2'] })).toEqual([]);
+    expect(validateBulkReviewRequest({ action: 'reject', auditLogIds: ['log-1'], reviewNotes: 'Duplicate' })).toEqual([]);
+    expect(validateBulkReviewRequest({ action: 'reassign', auditLogIds: ['log-1'], assigneeId: 'reviewer-2' })).toEqual([]);
+  });
+
+  it('should reject unknown actions, empty selections and reassignments without an assignee', () => {
+    expect(validateBulkReviewRequest({ action: 'send' as any, auditLogIds: ['log-1'] })[0]).toMatch(/Action must be one of/);
+    expect(validateBulkReviewRequest({ action: 'approve', auditLogIds: [] })).toEqual(['Select at least one message']);
+    expect(validateBulkReviewRequest({ action: 'approve' })).toEqual(['Select at least one message']);
+    expect(validateBulkReviewRequest({ action: 'approve', auditLogIds: ['log-1', ''] })).toEqual(['Message IDs must be non-empty strings']);
+    expect(validateBulkReviewRequest({ action: 'reassign', auditLogIds: ['log-1'] })).toEqual(['Choose who to reassign the messages to']);
+  });
+
+  it('should cap a batch by distinct messages', () => {
+    const ids = Array.from({ length: MAX_BULK_REVIEW_ITEMS }, (_, index) => `log-${index}`);
+
+    expect(validateBulkReviewRequest({ action: 'approve', auditLogIds: [...ids, ...ids] })).toEqual([]);
+    expect(validateBulkReviewRequest({ action: 'approve', auditLogIds: [...ids, 'one-more'] })[0]).toMatch(/At most 50/);
+  });
+
+  it('should process each message once in selection order', () => {
+    expect(uniqueIds(['log-2', 'log-1', 'log-2', 'log-3', 'log-1'])).toEqual(['log-2', 'log-1', 'log-3']);
+  });
+
+  it('should summarize successes and failures', () => {
+    const results = [
+      { auditLogId: 'log-1', success: true },
+      { auditLogId: 'log-2', success: false, error: 'Message is not waiting for review' },
+      { auditLogId: 'log-3', success: true }
+    ];
+
+    expect(summarizeBulkResults('approve', results)).toBe('2 approved, 1 failed');
+    expect(summarizeBulkResults('reassign', results.filter(result => result.success))).toBe('2 reassigned');
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { formatConversationHistory, isCurrentInquiry, priorTurns } from '../../src/lib/conversation';
+import type { ConversationTurn } from '../../src/lib/conversation';
+
+const turn = (direction: ConversationTurn['direction'], body: string, day: number): ConversationTurn => ({
+  direction,
+  body,
+  createdAt: new Date(Date.UTC(2024, 0, day))
+});
+
+describe('Conversation history', () => {
+  const thread = [
+    turn('inbound', 'Can I take ibuprofen?', 1),
+    turn('outbound', 'Please avoid ibuprofen for now.', 2),
+    turn('inbound', 'What about acetaminophen?', 3)
+  ];
+
+  it('should drop the newest turn when it is the inquiry being drafted', () => {
+    expect(isCurrentInquiry(thread, '  What about acetaminophen? ')).toBe(true);
+    expect(priorTurns(thread, 'What about acetaminophen?')).toHaveLength(2);
+    expect(priorTurns(thread, 'A new question')).toHaveLength(3);
+  });
+
+  it('should keep only the most recent turns', () => {
+    const turns = priorTurns(thread, 'A new question', 2);
+    expect(turns.map(t => t.body)).toEqual(['Please avoid ibuprofen for now.', 'What about acetaminophen?']);
+  });
+
+  it('should format turns oldest first with speaker and date', () => {
+    const history = formatConversationHistory(thread.slice(0, 2));
+    expect(history).toContain('CONVERSATION HISTORY');
+    expect(history.indexOf('[2024-01-01] Patient:')).toBeLessThan(history.indexOf('[2024-01-02] Clinic:'));
+    expect(formatConversationHistory([])).toBe('');
+  });
+
+  it('should cut long turns', () => {
+    const history = formatConversationHistory([turn('inbound', 'a'.repeat(2000), 1)]);
+    expect(history).toContain('...');
+    expect(history.length).toBeLessThan(1200);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildDraftCacheKey,
+  isCacheableResponse,
+  normalizeInquiry,
+  validateIdempotencyKey,
+  type DraftCacheKeyInput
+} from '../../src/lib/draft-cache';
+
+const input: DraftCacheKeyInput = {
+  userId: 'user-1',
+  patientId: 'patient-1',
+  briefVersion: 1760000000000,
+  settingsVersion: 1750000000000,
+  templateId: 'template-global',
+  templateVersion: 3,
+  threadTurns: [{ direction: 'inbound', body: 'Is my lisinopril dose changing?', createdAt: new Date('2026-03-01T10:00:00Z') }],
+  guardrailVersion: '6:1760000000',
+  exampleVersion: '2:1760000000:0',
+  inquiry: 'Can I get a refill of my lisinopril?',
+  candidateCount: 1
+};
+
+describe('Draft cache', () => {
+  it('should give identical requests the same key regardless of whitespace', async () => {
+    const key = await buildDraftCacheKey(input);
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(await buildDraftCacheKey({ ...input, inquiry: '  Can I get a refill of\nmy lisinopril?  ' })).toBe(key);
+    expect(normalizeInquiry(' a \n\t b ')).toBe('a b');
+  });
+
+  it('should change the key when any version, the requester or the inquiry changes', async () => {
+    const key = await buildDraftCacheKey(input);
+    const variants: Partial<DraftCacheKeyInput>[] = [
+      { userId: 'user-2' },
+      { briefVersion: input.briefVersion + 1 },
+      { settingsVersion: null },
+      { templateVersion: 4 },
+      { threadTurns: [...input.threadTurns, { direction: 'outbound', body: 'No, it stays the same.', createdAt: new Date('2026-03-01T11:00:00Z') }] },
+      { guardrailVersion: '6:1760000100' },
+      { exampleVersion: null },
+      { candidateCount: 2 },
+      { inquiry: 'Can I get a refill of my metformin?' }
+    ];
+
+    for (const variant of variants) {
+      expect(await buildDraftCacheKey({ ...input, ...variant })).not.toBe(key);
+    }
+  });
+
+  it('should only cache finished drafts', () => {
+    expect(isCacheableResponse({ success: true, draft: 'Hello' })).toBe(true);
+    expect(isCacheableResponse({ success: false })).toBe(false);
+    expect(isCacheableResponse({ success: false, escalated: true })).toBe(false);
+    expect(isCacheableResponse({ success: true, draft: '' })).toBe(false);
+  });
+
+  it('should validate idempotency keys', () => {
+    expect(validateIdempotencyKey('3f2b9c1e-8a4d-4f6b-9c2e-1a2b3c4d5e6f')).toEqual([]);
+    expect(validateIdempotencyKey(' ')).toEqual(['Idempotency key must not be empty']);
+    expect(validateIdempotencyKey('has space')).toHaveLength(1);
+    expect(validateIdempotencyKey('k'.repeat(129))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareEvalRuns,
+  formatEvalReport,
+  parseEvalVariant,
+  scoreDraft,
+  summarizeEvalRun,
+  type EvalCaseResult
+} from '../../src/lib/draft-eval';
+import { DEFAULT_GUARDRAIL_RULES } from '../../src/lib/guardrails';
+
+const criteria = {
+  maxWords: 40,
+  signOff: 'Best regards,\nDr. Eval',
+  patientName: 'Jane Test',
+  readingLevel: 'middle'
+};
+
+const goodDraft = 'Hello Jane,\n\nThanks for your note. Your lab results are back. They look fine.\n\nBest regards,\nDr. Eval';
+
+const result = (caseId: string, draft: string): EvalCaseResult => ({
+  caseId,
+  success: true,
+  escalated: false,
+  draft,
+  score: scoreDraft(draft, criteria, DEFAULT_GUARDRAIL_RULES),
+  totalTokens: 100,
+  cost: 0,
+  latencyMs: 10
+});
+
+describe('Draft evaluation', () => {
+  describe('parseEvalVariant', () => {
+    it('should parse template and model options', () => {
+      expect(parseEvalVariant('template=tpl-2, model=gpt-4o', 'Candidate')).toEqual({
+        label: 'Candidate',
+        promptTemplateId: 'tpl-2',
+        model: 'gpt-4o'
+      });
+      expect(parseEvalVariant(undefined, 'Baseline')).toEqual({ label: 'Baseline' });
+    });
+
+    it('should reject unknown options', () => {
+      expect(() => parseEvalVariant('temperature=1', 'Baseline')).toThrow('Unknown eval variant option: temperature');
+    });
+  });
+
+  describe('scoreDraft', () => {
+    it('should score a compliant draft', () => {
+      expect(scoreDraft(goodDraft, criteria, DEFAULT_GUARDRAIL_RULES)).toEqual({
+        wordCount: 18,
+        withinWordLimit: true,
+        readingLevel: 'Elementary',
+        readingLevelOnTarget: true,
+        guardrailHits: 0,
+        blockingGuardrailHits: 0,
+        hasSignOff: true,
+        usesPatientName: true,
+        leakedPlaceholders: false
+      });
+    });
+
+    it('should flag guardrail hits, a missing sign-off and leaked placeholders', () => {
+      const score = scoreDraft('Hello [NAME_1], please double your dose of metformin.', criteria, DEFAULT_GUARDRAIL_RULES);
+
+      expect(score.blockingGuardrailHits).toBe(1);
+      expect(score.hasSignOff).toBe(false);
+      expect(score.usesPatientName).toBe(false);
+      expect(score.leakedPlaceholders).toBe(true);
+    });
+  });
+
+  describe('summarizeEvalRun', () => {
+    it('should count escalated and failed cases separately from rates', () => {
+      const summary = summarizeEvalRun([
+        result('a', goodDraft),
+        { caseId: 'b', success: false, escalated: true, totalTokens: 0, cost: 0, latencyMs: 5 },
+        { caseId: 'c', success: false, escalated: false, error: 'boom', totalTokens: 0, cost: 0, latencyMs: 5 }
+      ]);
+
+      expect(summary).toMatchObject({ cases: 3, scored: 1, escalated: 1, failed: 1, signOffRate: 1, wordLimitRate: 1 });
+    });
+  });
+
+  describe('compareEvalRuns', () => {
+    it('should mark metric changes and list changed cases', () => {
+      const comparison = compareEvalRuns(
+        { variant: { label: 'Baseline' }, results: [result('message-1', goodDraft)] },
+        { variant: { label: 'Candidate', model: 'gpt-4o' }, results: [result('message-1', 'Hello Jane, your results are back.')] }
+      );
+
+      expect(comparison.rows.find(row => row.metric === 'Sign-off present')).toEqual({
+        metric: 'Sign-off present',
+        baseline: '100%',
+        candidate: '0%',
+        change: 'worse'
+      });
+      expect(comparison.changedCases).toEqual([{ caseId: 'message-1', changes: ['sign-off regressed'] }]);
+
+      const report = formatEvalReport(comparison);
+      expect(report).toContain('Candidate: Candidate (active template, model gpt-4o)');
+      expect(report).toContain('| Sign-off present | 100% | 0% | ▼ |');
+      expect(report).toContain('- message-1: sign-off regressed');
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { draftEventStream, readDraftEvents, type DraftStreamEvent } from '../../src/lib/draft-stream';
+import { FakeLLMProvider } from '../../src/providers/llm';
+import type { LLMCompletionRequest } from '../../src/providers/llm';
+
+const request: LLMCompletionRequest = {
+  model: 'gpt-4o-mini',
+  messages: [{ role: 'user', content: '- Name: John Doe\n\nPATIENT INQUIRY:\nCan I get a refill on my medication?' }],
+  maxTokens: 450
+};
+
+async function eventsOf(stream: ReadableStream<Uint8Array>): Promise<DraftStreamEvent[]> {
+  return readDraftEvents(await new Response(stream).text()).events;
+}
+
+describe('Draft streaming', () => {
+  it('should stream draft tokens as deltas followed by the validated result', async () => {
+    const provider = new FakeLLMProvider();
+
+    const events = await eventsOf(draftEventStream(async (onDelta) => {
+      const completion = await provider.stream(request, onDelta);
+      return { success: true, draft: completion.content, usage: completion.usage };
+    }));
+
+    const deltas = events.filter(event => event.type === 'delta');
+    const done = events[events.length - 1];
+
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(events.some(event => event.type === 'retract')).toBe(false);
+    expect(done.type).toBe('done');
+    if (done.type !== 'done') return;
+    expect(done.result.success).toBe(true);
+    expect(deltas.map(event => event.type === 'delta' ? event.content : '').join('')).toBe(done.result.draft);
+    expect(done.result.usage?.totalTokens).toBeGreaterThan(0);
+  });
+
+  it('should report guardrail matches on the result without retracting the streamed text', async () => {
+    const events = await eventsOf(draftEventStream(async (onDelta) => {
+      onDelta('Go to the emergency room now.');
+      return { success: true, draft: 'Go to the emergency room now.', requiresReview: true };
+    }));
+
+    expect(events.map(event => event.type)).toEqual(['delta', 'done']);
+    expect(events[1]).toMatchObject({ type: 'done', result: { success: true, requiresReview: true } });
+  });
+
+  it('should retract the streamed text when generation fails after tokens were sent', async () => {
+    const events = await eventsOf(draftEventStream(async (onDelta) => {
+      onDelta('Hello ');
+      return { success: false, error: 'Provider connection lost' };
+    }));
+
+    expect(events).toEqual([
+      { type: 'delta', content: 'Hello ' },
+      { type: 'retract', error: 'Provider connection lost' },
+      { type: 'done', result: { success: false, error: 'Provider connection lost' } }
+    ]);
+  });
+
+  it('should not retract when generation fails before any token', async () => {
+    const events = await eventsOf(draftEventStream(async () => ({ success: false, error: 'AI budget exceeded' })));
+
+    expect(events).toEqual([{ type: 'done', result: { success: false, error: 'AI budget exceeded' } }]);
+  });
+
+  it('should keep an event split across chunks until it is complete', () => {
+    const first = readDraftEvents('data: {"type":"delta","content":"Hel');
+    expect(first).toEqual({ events: [], rest: 'data: {"type":"delta","content":"Hel' });
+
+    const second = readDraftEvents(first.rest + 'lo"}\n\ndata: {"type":"del');
+    expect(second.events).toEqual([{ type: 'delta', content: 'Hello' }]);
+    expect(second.rest).toBe('data: {"type":"del');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatFewShotExamples,
+  inquirySimilarity,
+  selectFewShotExamples,
+  tokenizeForSimilarity
+} from '../../src/lib/few-shot';
+
+const examples = [
+  { id: 'refill', inquiryText: 'Can I get a refill on my metformin prescription?', responseText: 'Hello [NAME],\n\nWe have sent the refill to your pharmacy.' },
+  { id: 'results', inquiryText: 'Are my blood test results back yet?', responseText: 'Hello [NAME],\n\nYour results are normal.' },
+  { id: 'travel', inquiryText: 'Do I need vaccines before traveling abroad?', responseText: 'Hello [NAME],\n\nPlease book a travel consult.' }
+];
+
+describe('Few-shot examples', () => {
+  describe('tokenizeForSimilarity', () => {
+    it('should drop stop words and stem simple suffixes', () => {
+      expect(tokenizeForSimilarity('Please refill my prescriptions, thanks!')).toEqual(['refill', 'prescription']);
+      expect(tokenizeForSimilarity('refilled refilling refills')).toEqual(['refill', 'refill', 'refill']);
+    });
+  });
+
+  describe('inquirySimilarity', () => {
+    it('should score related inquiries above unrelated ones', () => {
+      const inquiry = 'I need my metformin refilled';
+
+      expect(inquirySimilarity(inquiry, examples[0].inquiryText)).toBeGreaterThan(0.4);
+      expect(inquirySimilarity(inquiry, examples[2].inquiryText)).toBe(0);
+    });
+
+    it('should return 0 when a text has no content words', () => {
+      expect(inquirySimilarity('Hello, thanks!', 'Hello, thanks!')).toBe(0);
+    });
+  });
+
+  describe('selectFewShotExamples', () => {
+    it('should return the most similar examples above the threshold', () => {
+      const selected = selectFewShotExamples('When will my blood test results be ready?', examples);
+
+      expect(selected.map(scored => scored.example.id)).toEqual(['results']);
+    });
+
+    it('should respect the limit', () => {
+      const similar = examples.map(example => ({ ...example, inquiryText: 'metformin refill' }));
+
+      expect(selectFewShotExamples('metformin refill please', similar, 2)).toHaveLength(2);
+    });
+  });
+
+  describe('formatFewShotExamples', () => {
+    it('should be empty without examples', () => {
+      expect(formatFewShotExamples([])).toBe('');
+    });
+
+    it('should list each inquiry with its approved reply', () => {
+      const section = formatFewShotExamples(examples.slice(0, 2));
+
+      expect(section).toContain('APPROVED EXAMPLES:');
+      expect(section).toContain('Example 1\nPatient inquiry:\nCan I get a refill on my metformin prescription?');
+      expect(section).toContain('Approved reply:\nHello [NAME],\n\nYour results are normal.');
+    });
+  });
+});
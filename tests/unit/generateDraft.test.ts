@@ -179,6 +179,76 @@ describe('Draft Generation', () => {
     });
   });
 
+  describe('POST /api/generate-draft (candidates)', () => {
+    it('should return several candidates and record the chosen one', async () => {
+      const token = await createTestJWT(TEST_USERS.user);
+
+      const response = await SELF.fetch('http://localhost/api/generate-draft', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          patientId: 'patient-1',
+          patientInquiry: 'Can I get a refill on my medication?',
+          userId: TEST_USERS.user.id,
+          candidateCount: 3
+        })
+      });
+
+      expectResponseOk(response);
+      const data: any = await expectJsonResponse(response);
+
+      expect(data.success).toBe(true);
+      expect(data.candidates).toHaveLength(3);
+      expect(data.draft).toBe(data.candidates[0].draft);
+      expect(data.auditLogId).toBeTruthy();
+
+      const selectionResponse = await SELF.fetch('http://localhost/api/generate-draft/selection', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          auditLogId: data.auditLogId,
+          chosenCandidateIds: ['concise'],
+          finalDraft: data.candidates[1].draft
+        })
+      });
+
+      expectResponseOk(selectionResponse);
+      const selection: any = await expectJsonResponse(selectionResponse);
+
+      expect(selection.selection.chosen).toEqual(['concise']);
+      expect(selection.selection.discarded).toEqual(['standard', 'warm']);
+      expect(selection.selection.merged).toBe(false);
+    });
+
+    it('should reject an out-of-range candidate count', async () => {
+      const token = await createTestJWT(TEST_USERS.user);
+
+      const response = await SELF.fetch('http://localhost/api/generate-draft', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          patientId: 'patient-1',
+          patientInquiry: 'Can I get a refill on my medication?',
+          userId: TEST_USERS.user.id,
+          candidateCount: 10
+        })
+      });
+
+      const data = await response.json() as { success: boolean; error: string };
+      expect(data.success).toBe(false);
+      expect(data.error).toContain('Candidate count');
+    });
+  });
+
   describe('Draft generation with real OpenAI (when API key available)', () => {
     it('should work with real OpenAI API when not in stub mode', async () => {
       // Skip if no real API key or in CI
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  alignGrounding,
+  buildGroundingInput,
+  locateSnippet,
+  parseGroundingResponse,
+  splitSentences
+} from '../../src/lib/grounding';
+import type { GroundingSources } from '../../src/lib/grounding';
+
+const sources: GroundingSources = {
+  medicalHistory: 'Type 2 diabetes, hypertension',
+  currentMedications: 'Metformin 500mg twice daily; Lisinopril 10mg',
+  allergies: 'Penicillin (rash)',
+  doctorNotes: ''
+};
+
+const draft = `Hello John,
+
+Please keep taking metformin with meals. Avoid penicillin-based antibiotics. Your kidney function is excellent.
+
+Best regards,
+Dr. Smith`;
+
+describe('Draft grounding', () => {
+  it('should split sentences at punctuation and line breaks but not after titles', () => {
+    expect(splitSentences(draft)).toEqual([
+      'Hello John,',
+      'Please keep taking metformin with meals.',
+      'Avoid penicillin-based antibiotics.',
+      'Your kidney function is excellent.',
+      'Best regards,',
+      'Dr. Smith'
+    ]);
+  });
+
+  it('should list only fields with content in the citation input', () => {
+    const input = buildGroundingInput(['Hi.'], sources);
+    expect(input).toContain('1. Hi.');
+    expect(input).toContain('[allergies]\nPenicillin (rash)');
+    expect(input).not.toContain('[doctorNotes]');
+  });
+
+  it('should keep citations found in the field and flag unsupported clinical sentences', () => {
+    const sentences = splitSentences(draft);
+    const reply = '```json\n' + JSON.stringify({
+      sentences: [
+        { index: 1, nonClinical: true, citations: [] },
+        { index: 2, citations: [{ field: 'currentMedications', snippet: 'metformin 500mg' }] },
+        { index: 3, citations: [{ field: 'allergies', snippet: 'Penicillin.' }] },
+        { index: 4, citations: [{ field: 'medicalHistory', snippet: 'normal kidney function' }] },
+        { index: 5, nonClinical: true },
+        { index: 6, nonClinical: true }
+      ]
+    }) + '\n```';
+
+    const grounding = parseGroundingResponse(reply, sentences, sources)!;
+    expect(grounding.sentences[1].citations).toEqual([{ field: 'currentMedications', snippet: 'Metformin 500mg' }]);
+    expect(grounding.sentences[2].citations).toEqual([{ field: 'allergies', snippet: 'Penicillin' }]);
+    // Invented quote is dropped, so the sentence is ungrounded
+    expect(grounding.sentences[3].citations).toEqual([]);
+    expect(grounding.ungroundedCount).toBe(1);
+    expect(parseGroundingResponse('not json', sentences, sources)).toBeNull();
+  });
+
+  it('should mark edited sentences as unchecked', () => {
+    const grounding = parseGroundingResponse(JSON.stringify({
+      sentences: [{ index: 1, citations: [{ field: 'allergies', snippet: 'Penicillin' }] }, { index: 2 }]
+    }), ['Avoid penicillin.', 'You are fine.'], sources);
+
+    const aligned = alignGrounding(grounding, 'Avoid penicillin. You are doing well.');
+    expect(aligned.map(sentence => sentence.status)).toEqual(['grounded', 'unchecked']);
+    expect(alignGrounding(null, 'Avoid penicillin.')[0].status).toBe('unchecked');
+  });
+
+  it('should locate snippets ignoring case', () => {
+    expect(locateSnippet(sources.allergies, 'penicillin')).toEqual({ start: 0, end: 10 });
+    expect(locateSnippet(sources.allergies, 'pe')).toBeNull();
+  });
+});
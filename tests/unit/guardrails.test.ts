@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_GUARDRAIL_RULES,
+  evaluateGuardrails,
+  segmentGuardrailMatches,
+  summarizeGuardrails,
+  validateGuardrailRule
+} from '../../src/lib/guardrails';
+
+describe('Guardrails', () => {
+  describe('evaluateGuardrails', () => {
+    it('should report matched spans with rule details', () => {
+      const draft = 'Hello Jane,\n\nPlease double your dose of metformin starting tonight.';
+      const [match] = evaluateGuardrails({ draft }, DEFAULT_GUARDRAIL_RULES);
+
+      expect(match.ruleId).toBe('guardrail-dosage-change');
+      expect(match.severity).toBe('block');
+      expect(match.category).toBe('dosage_change');
+      expect(match.target).toBe('draft');
+      expect(draft.slice(match.start, match.end)).toBe(match.text);
+      expect(match.text).toBe('double your dose');
+    });
+
+    it('should only apply rules to their target text', () => {
+      const text = 'I have had chest pain since yesterday.';
+
+      expect(evaluateGuardrails({ draft: text }, DEFAULT_GUARDRAIL_RULES)).toEqual([]);
+
+      const matches = evaluateGuardrails({ inquiry: text }, DEFAULT_GUARDRAIL_RULES);
+      expect(matches).toHaveLength(1);
+      expect(matches[0]).toMatchObject({ target: 'inquiry', severity: 'require_doctor_review', text: 'chest pain' });
+    });
+
+    it('should not flag a routine reply', () => {
+      const draft = 'Hello Jane,\n\nThank you for reaching out. Please call our office to schedule a visit.\n\nYour Healthcare Team';
+
+      expect(evaluateGuardrails({ draft }, DEFAULT_GUARDRAIL_RULES)).toEqual([]);
+    });
+
+    it('should skip rules with invalid patterns', () => {
+      const rules = [{ ...DEFAULT_GUARDRAIL_RULES[0], id: 'broken', pattern: '(' }, DEFAULT_GUARDRAIL_RULES[0]];
+
+      const matches = evaluateGuardrails({ draft: 'You can increase the dose.' }, rules);
+      expect(matches.map(match => match.ruleId)).toEqual(['guardrail-dosage-change']);
+    });
+  });
+
+  describe('summarizeGuardrails', () => {
+    it('should require review for block-level matches', () => {
+      const matches = evaluateGuardrails({
+        inquiry: 'Should I take more pills?',
+        draft: 'You should stop taking your medication.'
+      }, DEFAULT_GUARDRAIL_RULES);
+
+      expect(summarizeGuardrails(matches)).toEqual({
+        highestSeverity: 'block',
+        requiresReview: true,
+        requiresDoctorReview: false
+      });
+    });
+
+    it('should report no severity without matches', () => {
+      expect(summarizeGuardrails([])).toEqual({ highestSeverity: null, requiresReview: false, requiresDoctorReview: false });
+    });
+  });
+
+  describe('validateGuardrailRule', () => {
+    it('should accept the bundled rules', () => {
+      for (const rule of DEFAULT_GUARDRAIL_RULES) {
+        expect(validateGuardrailRule(rule)).toEqual([]);
+      }
+    });
+
+    it('should reject invalid and empty-matching patterns', () => {
+      const base = DEFAULT_GUARDRAIL_RULES[0];
+
+      expect(validateGuardrailRule({ ...base, pattern: '(' })[0]).toContain('Invalid pattern');
+      expect(validateGuardrailRule({ ...base, pattern: 'a*' })).toEqual(['Pattern must not match empty text']);
+      expect(validateGuardrailRule({ ...base, severity: 'fatal' as any })).toEqual(['Invalid severity: fatal']);
+    });
+  });
+
+  describe('segmentGuardrailMatches', () => {
+    it('should split text at match boundaries', () => {
+      const draft = 'Please stop taking your medication and increase the dose.';
+      const matches = evaluateGuardrails({ draft }, DEFAULT_GUARDRAIL_RULES);
+      const segments = segmentGuardrailMatches(draft, matches);
+
+      expect(segments.map(segment => segment.text).join('')).toBe(draft);
+      expect(segments.filter(segment => segment.matches.length > 0).map(segment => segment.text))
+        .toEqual(['stop taking your medication', 'increase the dose']);
+    });
+
+    it('should ignore matches that no longer line up with the text', () => {
+      const matches = evaluateGuardrails({ draft: 'Increase the dose.' }, DEFAULT_GUARDRAIL_RULES);
+
+      expect(segmentGuardrailMatches('Edited text', matches)).toEqual([{ text: 'Edited text', matches: [] }]);
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildLanguageInstruction,
+  countWordsIn,
+  normalizeLanguage,
+  truncateToWordLimit,
+  wordLimitFor
+} from '../../src/lib/languages';
+
+describe('Patient languages', () => {
+  it('should fall back to English for unset or unsupported languages', () => {
+    expect(normalizeLanguage('es')).toBe('es');
+    expect(normalizeLanguage('fr')).toBe('en');
+    expect(normalizeLanguage(null)).toBe('en');
+  });
+
+  it('should count Han characters as words in Mandarin', () => {
+    expect(countWordsIn('Hola Ana, su cita es mañana.', 'es')).toBe(6);
+    expect(countWordsIn('您好，您的化验结果正常。', 'zh')).toBe(12);
+    expect(countWordsIn('请服用 metformin 500mg', 'zh')).toBe(5);
+  });
+
+  it('should scale the English word limit to the language', () => {
+    expect(wordLimitFor(200, 'en')).toBe(200);
+    expect(wordLimitFor(200, 'es')).toBe(230);
+    expect(wordLimitFor(200, 'zh')).toBe(360);
+  });
+
+  it('should truncate without breaking the remaining text', () => {
+    expect(truncateToWordLimit('one two three four', 2, 'es')).toBe('one two...');
+    expect(truncateToWordLimit('您好，\n结果正常', 3, 'zh')).toBe('您好，...');
+    expect(truncateToWordLimit('您好', 5, 'zh')).toBe('您好');
+  });
+
+  it('should only add a language section for non-English patients', () => {
+    expect(buildLanguageInstruction('en')).toBe('');
+    expect(buildLanguageInstruction('vi')).toContain('Write the entire reply in Vietnamese');
+    expect(buildLanguageInstruction('zh')).toContain('counts each Chinese character as one word');
+  });
+});
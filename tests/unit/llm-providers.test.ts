@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FakeLLMProvider,
+  LLMProviderError,
+  LLMProviderManager,
+  createLLMProviderManager,
+  getLLMProviderOrder
+} from '../../src/providers/llm';
+import type { LLMCompletionRequest, LLMCompletionResult, LLMProvider } from '../../src/providers/llm';
+
+const request: LLMCompletionRequest = {
+  model: 'gpt-4o-mini',
+  messages: [
+    { role: 'system', content: 'Sign off with: "Dr. Smith"' },
+    {
+      role: 'user',
+      content: '- Name: John Doe\n- Current Medications: Lisinopril 10mg\n- Allergies: Penicillin\n\nPATIENT INQUIRY:\nCan I get a refill on my medication?\n\nRESPONSE REQUIREMENTS:'
+    }
+  ],
+  maxTokens: 450
+};
+
+class FailingProvider implements LLMProvider {
+  readonly name: string;
+  calls = 0;
+
+  constructor(name: string, private status?: number, private streamBeforeFailing = false) {
+    this.name = name;
+  }
+
+  async complete(): Promise<LLMCompletionResult> {
+    this.calls++;
+    throw new LLMProviderError(this.name, 'provider down', this.status);
+  }
+
+  async stream(_request: LLMCompletionRequest, onDelta: (content: string) => void): Promise<LLMCompletionResult> {
+    this.calls++;
+    if (this.streamBeforeFailing) {
+      onDelta('Hello ');
+    }
+    throw new LLMProviderError(this.name, 'provider down', this.status);
+  }
+
+  estimateCost(): number {
+    return 0;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return false;
+  }
+}
+
+describe('LLM Providers', () => {
+  describe('FakeLLMProvider', () => {
+    it('should return a deterministic draft built from the prompt', async () => {
+      const provider = new FakeLLMProvider();
+
+      const first = await provider.complete(request);
+      const second = await provider.complete(request);
+
+      expect(first.content).toBe(second.content);
+      expect(first.content).toContain('Hello John Doe');
+      expect(first.content).toContain('Lisinopril 10mg');
+      expect(first.content).toContain('Dr. Smith');
+      expect(first.provider).toBe('fake');
+      expect(first.model).toBe('gpt-4o-mini-stub');
+      expect(first.cost).toBe(0);
+      expect(first.usage.totalTokens).toBe(first.usage.promptTokens + first.usage.completionTokens);
+    });
+
+    it('should stream the same content it completes', async () => {
+      const provider = new FakeLLMProvider();
+      const chunks: string[] = [];
+
+      const result = await provider.stream(request, (chunk: string) => chunks.push(chunk));
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.join('')).toBe(result.content);
+    });
+  });
+
+  describe('LLMProviderManager', () => {
+    it('should fail over to the next provider by priority', async () => {
+      const manager = new LLMProviderManager();
+      const failing = new FailingProvider('openai', 503);
+      manager.registerProvider('fake', new FakeLLMProvider(), { name: 'fake', enabled: true, priority: 2 });
+      manager.registerProvider('openai', failing, { name: 'openai', enabled: true, priority: 1 });
+
+      const result = await manager.complete(request);
+
+      expect(failing.calls).toBe(1);
+      expect(result.provider).toBe('fake');
+    });
+
+    it('should not fail over on an invalid request', async () => {
+      const manager = new LLMProviderManager();
+      manager.registerProvider('openai', new FailingProvider('openai', 400), { name: 'openai', enabled: true, priority: 1 });
+      manager.registerProvider('fake', new FakeLLMProvider(), { name: 'fake', enabled: true, priority: 2 });
+
+      await expect(manager.complete(request)).rejects.toMatchObject({ provider: 'openai', status: 400 });
+    });
+
+    it('should not fail over once tokens have been streamed', async () => {
+      const manager = new LLMProviderManager();
+      manager.registerProvider('openai', new FailingProvider('openai', 503, true), { name: 'openai', enabled: true, priority: 1 });
+      manager.registerProvider('fake', new FakeLLMProvider(), { name: 'fake', enabled: true, priority: 2 });
+
+      await expect(manager.stream(request, () => {})).rejects.toBeInstanceOf(LLMProviderError);
+    });
+
+    it('should skip disabled providers', async () => {
+      const manager = new LLMProviderManager();
+      manager.registerProvider('openai', new FailingProvider('openai', 503), { name: 'openai', enabled: false, priority: 1 });
+      manager.registerProvider('fake', new FakeLLMProvider(), { name: 'fake', enabled: true, priority: 2 });
+
+      expect(manager.getActiveProviders().map(config => config.name)).toEqual(['fake']);
+    });
+  });
+
+  describe('createLLMProviderManager', () => {
+    it('should read the failover order from the environment', () => {
+      expect(getLLMProviderOrder({ LLM_PROVIDERS: 'azure-openai, openai,fake' })).toEqual(['azure-openai', 'openai', 'fake']);
+      expect(getLLMProviderOrder({ LLM_PROVIDERS: 'openai', AI_STUB: '1' })).toEqual(['fake']);
+      expect(getLLMProviderOrder({})).toEqual(['openai']);
+    });
+
+    it('should skip providers without credentials and fall back to the fake', () => {
+      const manager = createLLMProviderManager({ LLM_PROVIDERS: 'azure-openai,openai' });
+
+      expect(manager.getActiveProviders().map(config => config.name)).toEqual(['fake']);
+    });
+
+    it('should use the Azure deployment as the model', () => {
+      const manager = createLLMProviderManager({
+        LLM_PROVIDERS: 'azure-openai,fake',
+        AZURE_OPENAI_ENDPOINT: 'https://example.openai.azure.com',
+        AZURE_OPENAI_API_KEY: 'test-key',
+        AZURE_OPENAI_DEPLOYMENT: 'drafts-gpt-4o-mini'
+      });
+
+      const [azure, fake] = manager.getActiveProviders();
+      expect(azure).toMatchObject({ name: 'azure-openai', priority: 1, model: 'drafts-gpt-4o-mini' });
+      expect(fake).toMatchObject({ name: 'fake', priority: 2 });
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { checkMedications, findMedicationMentions } from '../../src/lib/medication-check';
+
+const brief = {
+  allergies: 'Penicillin (hives), sulfa drugs',
+  currentMedications: 'Metformin 500mg BID, Lisinopril 10mg daily'
+};
+
+describe('Medication check', () => {
+  it('should resolve brand names and keep the longest overlapping term', () => {
+    const mentions = findMedicationMentions('Take Tylenol with codeine, not Advil.');
+    expect(mentions.map(mention => mention.drug)).toEqual(['codeine', 'ibuprofen']);
+    expect(mentions[0].text).toBe('Tylenol with codeine');
+  });
+
+  it('should flag drugs in the same class as an allergy', () => {
+    const issues = checkMedications('I have sent a prescription for Augmentin to your pharmacy.', brief);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ type: 'allergy_conflict', drug: 'amoxicillin-clavulanate', allergy: 'Penicillin' });
+    expect(issues[0].message).toContain('Penicillins');
+  });
+
+  it('should allow sentences that warn about the allergy', () => {
+    expect(checkMedications('Given your allergy to penicillin, we will choose another antibiotic.', brief)).toEqual([]);
+    expect(checkMedications('Please avoid Bactrim.', brief)).toEqual([]);
+  });
+
+  it('should flag drugs missing from the current medications once', () => {
+    const issues = checkMedications('Keep taking Glucophage. You can take ibuprofen, and ibuprofen again at night.', brief);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ type: 'unlisted_medication', drug: 'ibuprofen', text: 'ibuprofen' });
+  });
+
+  it('should find nothing for patients with no known drug allergies', () => {
+    expect(checkMedications('Continue metformin and lisinopril as prescribed.', { ...brief, allergies: 'NKDA' })).toEqual([]);
+  });
+});
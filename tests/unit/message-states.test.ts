@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assertTransition,
+  availableTransitions,
+  canTransition,
+  IllegalTransitionError,
+  isTerminalState,
+  MESSAGE_STATES,
+  MESSAGE_TRANSITIONS,
+  MessageStateError,
+  TransitionNotPermittedError
+} from '../../src/lib/message-states';
+
+describe('Message state machine', () => {
+  it('should let staff submit drafts and reviewers approve them', () => {
+    expect(canTransition('draft', 'in_review', 'staff')).toBe(true);
+    expect(canTransition('in_review', 'approved', 'reviewer')).toBe(true);
+    expect(canTransition('draft', 'approved', 'doctor')).toBe(true);
+    expect(canTransition('in_review', 'approved', 'staff')).toBe(false);
+    expect(canTransition('draft', 'approved', 'staff')).toBe(false);
+  });
+
+  it('should reject moves with no edge as IllegalTransitionError', () => {
+    expect(() => assertTransition('draft', 'sent', 'admin')).toThrow(IllegalTransitionError);
+    expect(() => assertTransition('delivered', 'failed', 'system')).toThrow(IllegalTransitionError);
+
+    const error = (() => {
+      try {
+        assertTransition('cancelled', 'approved', 'admin');
+      } catch (thrown) {
+        return thrown;
+      }
+    })();
+    expect(error).toBeInstanceOf(MessageStateError);
+    expect((error as MessageStateError).from).toBe('cancelled');
+    expect((error as MessageStateError).to).toBe('approved');
+  });
+
+  it('should reject a role not permitted on the edge as TransitionNotPermittedError', () => {
+    expect(() => assertTransition('in_review', 'approved', 'staff')).toThrow(TransitionNotPermittedError);
+    expect(() => assertTransition('in_review', 'approved', 'auditor')).toThrow(TransitionNotPermittedError);
+    expect(() => assertTransition('sending', 'sent', 'admin')).toThrow(TransitionNotPermittedError);
+    expect(() => assertTransition('sending', 'sent', 'system')).not.toThrow();
+  });
+
+  it('should leave delivery results to the system', () => {
+    expect(availableTransitions('sending', 'system')).toEqual(['sent', 'failed']);
+    expect(availableTransitions('sent', 'system')).toEqual(['delivered', 'failed']);
+    expect(availableTransitions('sent', 'admin')).toEqual([]);
+    expect(availableTransitions('failed', 'admin')).toEqual(['sending', 'cancelled']);
+  });
+
+  it('should only reference known states and end at delivered and cancelled', () => {
+    for (const from of MESSAGE_STATES) {
+      for (const to of Object.keys(MESSAGE_TRANSITIONS[from])) {
+        expect(MESSAGE_STATES).toContain(to);
+      }
+    }
+    expect(MESSAGE_STATES.filter(isTerminalState)).toEqual(['delivered', 'cancelled']);
+  });
+});
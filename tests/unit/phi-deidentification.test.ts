@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { PhiSession, redactPhi } from '../../src/lib/phi-deidentification';
+
+describe('PHI De-identification', () => {
+  const context = `- Name: John Doe
+- Medical History: Seen on 03/14/2024 for hypertension, MRN: A1234567
+- Doctor Notes: Call John at (555) 123-4567 or visit 42 Oak Street, Apt 3`;
+
+  it('should replace identifiers with placeholders', () => {
+    const phi = new PhiSession(['John Doe']);
+    const masked = phi.mask(context);
+
+    expect(masked).not.toContain('John');
+    expect(masked).not.toContain('Doe');
+    expect(masked).not.toContain('03/14/2024');
+    expect(masked).not.toContain('A1234567');
+    expect(masked).not.toContain('123-4567');
+    expect(masked).not.toContain('Oak Street');
+    expect(masked).toContain('MRN: [MRN_1]');
+    expect(masked).toContain('hypertension');
+    expect(phi.maskedCategories).toEqual(['address', 'date', 'mrn', 'name', 'phone']);
+  });
+
+  it('should reuse the same placeholder for repeated values', () => {
+    const phi = new PhiSession(['John Doe']);
+    const masked = phi.mask('John Doe called. John asked again.');
+
+    expect(masked).toBe('[NAME_1] called. [NAME_2] asked again.');
+    expect(phi.mask('John')).toBe('[NAME_2]');
+  });
+
+  it('should re-identify a draft written with placeholders', () => {
+    const phi = new PhiSession(['John Doe']);
+    phi.mask(context);
+
+    expect(phi.reidentify('Hello [NAME_2], your visit on [DATE_1] is noted. [NAME_9] stays.'))
+      .toBe('Hello John, your visit on 03/14/2024 is noted. [NAME_9] stays.');
+  });
+
+  it('should re-identify placeholders split across streamed chunks', () => {
+    const phi = new PhiSession(['John Doe']);
+    phi.mask(context);
+
+    const output: string[] = [];
+    const reidentifier = phi.createStreamReidentifier((chunk: string) => output.push(chunk));
+    ['Hello [NA', 'ME_', '2], see [', 'DATE_1]', ' soon [ok'].forEach(reidentifier.push);
+    reidentifier.flush();
+
+    expect(output.join('')).toBe('Hello John, see 03/14/2024 soon [ok');
+  });
+
+  it('should never serialize the substitution map', () => {
+    const phi = new PhiSession(['John Doe']);
+    phi.mask(context);
+
+    const serialized = JSON.stringify({ phi });
+    expect(serialized).not.toContain('John');
+    expect(serialized).not.toContain('A1234567');
+  });
+
+  it('should redact to labels that cannot be re-identified', () => {
+    const redacted = redactPhi('Hello Jane Smith, your appointment on 03/14/2024 is confirmed. Call 555-123-4567.', ['Jane Smith']);
+
+    expect(redacted).toBe('Hello [NAME], your appointment on [DATE] is confirmed. Call [PHONE].');
+    expect(new PhiSession(['John Doe']).reidentify(redacted)).toBe(redacted);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SYSTEM_TEMPLATE,
+  DEFAULT_USER_TEMPLATE,
+  diffLines,
+  renderPromptTemplate,
+  validatePromptTemplates
+} from '../../src/lib/prompt-templates';
+
+describe('Prompt templates', () => {
+  describe('renderPromptTemplate', () => {
+    it('should substitute known variables and leave unknown ones intact', () => {
+      const rendered = renderPromptTemplate('Hi {{patientName}}, max {{ maxWords }} words {{other}}', {
+        patientName: 'Jane',
+        maxWords: 150
+      });
+
+      expect(rendered).toBe('Hi Jane, max 150 words {{other}}');
+    });
+
+    it('should not re-expand variables found in substituted values', () => {
+      const rendered = renderPromptTemplate('{{inquiry}}', { inquiry: 'What is {{doctorNotes}}?', doctorNotes: 'secret' });
+
+      expect(rendered).toBe('What is {{doctorNotes}}?');
+    });
+  });
+
+  describe('validatePromptTemplates', () => {
+    it('should accept the default templates', () => {
+      expect(validatePromptTemplates(DEFAULT_SYSTEM_TEMPLATE, DEFAULT_USER_TEMPLATE)).toEqual([]);
+    });
+
+    it('should report unknown variables and a missing inquiry', () => {
+      const issues = validatePromptTemplates('Tone: {{tone}} {{inquiry}}', 'Hello {{patientName}}');
+
+      expect(issues).toContain('System template uses unknown variable {{inquiry}}');
+      expect(issues).toContain('User template must include {{inquiry}}');
+    });
+
+    it('should require both templates', () => {
+      expect(validatePromptTemplates('', '{{inquiry}}')).toEqual(['System template is required']);
+    });
+  });
+
+  describe('diffLines', () => {
+    it('should mark added and removed lines', () => {
+      const diff = diffLines('a\nb\nc', 'a\nx\nc\nd');
+
+      expect(diff).toEqual([
+        { type: 'unchanged', text: 'a' },
+        { type: 'removed', text: 'b' },
+        { type: 'added', text: 'x' },
+        { type: 'unchanged', text: 'c' },
+        { type: 'added', text: 'd' }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyInquiryIntent,
+  matchQuickReplies,
+  renderQuickReply,
+  validateQuickReplyTemplate,
+  type QuickReplyTemplateDefinition
+} from '../../src/lib/quick-replies';
+
+const template = (overrides: Partial<QuickReplyTemplateDefinition>): QuickReplyTemplateDefinition => ({
+  id: 'template',
+  intent: 'medication_refill',
+  title: 'Refill sent',
+  body: 'Hi {{patientFirstName}}, your refill has been sent to your pharmacy. {{signOff}}',
+  language: 'en',
+  ...overrides
+});
+
+const values = {
+  patientName: 'Maria Lopez',
+  patientFirstName: 'Maria',
+  doctorName: 'Dr. Smith',
+  signOff: 'Best, Dr. Smith',
+  currentMedications: 'Lisinopril 10mg daily',
+  allergies: ''
+};
+
+describe('Quick replies', () => {
+  it('should classify routine requests by intent', () => {
+    expect(classifyInquiryIntent('Can I get a refill of my lisinopril? I ran out yesterday.').intent).toBe('medication_refill');
+    expect(classifyInquiryIntent('I need to reschedule my appointment next Tuesday').intent).toBe('appointment');
+    expect(classifyInquiryIntent('Are my blood work results back?').intent).toBe('lab_results');
+    expect(classifyInquiryIntent('I was charged twice on my last bill').intent).toBe('billing');
+    expect(classifyInquiryIntent('My knee has been sore since the weekend')).toMatchObject({ intent: 'general', matchedTerms: [] });
+  });
+
+  it('should treat an inquiry matching several requests equally as general', () => {
+    const result = classifyInquiryIntent('I need a refill and want to reschedule my visit');
+    expect(result.intent).toBe('general');
+    expect(result.matchedTerms).toEqual(expect.arrayContaining(['refill', 'reschedule']));
+  });
+
+  it('should fill placeholders and report the ones without a value', () => {
+    expect(renderQuickReply('Hi {{ patientFirstName }}', values)).toEqual({ text: 'Hi Maria', missing: [] });
+    expect(renderQuickReply('Noted your allergies: {{allergies}}', values)).toEqual({
+      text: 'Noted your allergies: {{allergies}}',
+      missing: ['allergies']
+    });
+  });
+
+  it('should only offer templates for the same intent and language with every placeholder filled', () => {
+    const templates = [
+      template({ id: 'refill' }),
+      template({ id: 'refill-es', language: 'es' }),
+      template({ id: 'refill-allergies', body: 'Checked against {{allergies}}' }),
+      template({ id: 'appointment', intent: 'appointment' })
+    ];
+
+    const matches = matchQuickReplies('medication_refill', 'en', templates, values);
+    expect(matches.map(match => match.templateId)).toEqual(['refill']);
+    expect(matches[0].draft).toBe('Hi Maria, your refill has been sent to your pharmacy. Best, Dr. Smith');
+    expect(matchQuickReplies('general', 'en', templates, values)).toEqual([]);
+  });
+
+  it('should validate templates before they are saved', () => {
+    expect(validateQuickReplyTemplate(template({}))).toEqual([]);
+    expect(validateQuickReplyTemplate({ intent: 'general', title: 'x', body: 'y' })).toHaveLength(1);
+    expect(validateQuickReplyTemplate({ intent: 'billing', title: '', body: 'Hi {{patientAge}}' })).toEqual([
+      'Title is required',
+      'Reply uses unknown placeholder {{patientAge}}'
+    ]);
+  });
+});
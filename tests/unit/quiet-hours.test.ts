@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatInTimeZone,
+  nextAllowedSendTime,
+  parseQuietHours,
+  parseTime,
+  validateContactPreferences
+} from '../../src/lib/quiet-hours';
+
+const SMS_NIGHTS = parseQuietHours('sms 21:00-08:00');
+
+describe('Quiet hours', () => {
+  it('should read clinic quiet hours per delivery method and skip unreadable entries', () => {
+    expect(parseTime('08:00')).toBe(480);
+    expect(parseTime('8:30')).toBe(510);
+    expect(parseTime('24:00')).toBeNull();
+
+    expect(parseQuietHours('sms 21:00-08:00, 22:30-07:00')).toEqual([
+      { deliveryMethod: 'sms', start: 1260, end: 480 },
+      { deliveryMethod: 'email', start: 1350, end: 420 },
+      { deliveryMethod: 'sms', start: 1350, end: 420 }
+    ]);
+    expect(parseQuietHours('fax 21:00-08:00, sms late-early, sms 09:00-09:00')).toEqual([]);
+    expect(parseQuietHours(undefined)).toEqual([]);
+  });
+
+  it('should push a send inside quiet hours to the end of the window in the patient time zone', () => {
+    // 22:30 in Chicago (CDT, UTC-5)
+    const window = nextAllowedSendTime(new Date('2024-05-01T03:30:00Z'), {
+      deliveryMethod: 'sms',
+      timeZone: 'America/Chicago',
+      quietHours: SMS_NIGHTS
+    });
+
+    expect(window).toEqual({
+      sendAt: new Date('2024-05-01T13:00:00Z'),
+      deferred: true,
+      reason: 'quiet_hours',
+      overridden: false
+    });
+  });
+
+  it('should leave sends outside quiet hours, other delivery methods and urgent messages as requested', () => {
+    const evening = new Date('2024-05-01T03:30:00Z');
+
+    expect(nextAllowedSendTime(new Date('2024-05-01T15:00:00Z'), {
+      deliveryMethod: 'sms', timeZone: 'America/Chicago', quietHours: SMS_NIGHTS
+    }).deferred).toBe(false);
+    expect(nextAllowedSendTime(evening, {
+      deliveryMethod: 'email', timeZone: 'America/Chicago', quietHours: SMS_NIGHTS
+    }).sendAt).toEqual(evening);
+    expect(nextAllowedSendTime(evening, {
+      deliveryMethod: 'sms', priority: 'urgent', timeZone: 'America/Chicago', quietHours: SMS_NIGHTS
+    })).toEqual({ sendAt: evening, deferred: false, reason: 'quiet_hours', overridden: true });
+  });
+
+  it('should respect patient contact hours on top of clinic quiet hours', () => {
+    // 08:15 UTC is after the clinic's quiet hours but before the patient's 10:00 start
+    const window = nextAllowedSendTime(new Date('2024-05-01T08:15:00Z'), {
+      deliveryMethod: 'sms',
+      timeZone: 'UTC',
+      quietHours: SMS_NIGHTS,
+      contactHours: { start: '10:00', end: '18:00' }
+    });
+    expect(window.sendAt).toEqual(new Date('2024-05-01T10:00:00Z'));
+    expect(window.reason).toBe('contact_hours');
+
+    // 19:00 is past contact hours; 10:00 the next day is the first minute both allow
+    expect(nextAllowedSendTime(new Date('2024-05-01T19:00:00Z'), {
+      deliveryMethod: 'sms',
+      timeZone: 'UTC',
+      quietHours: SMS_NIGHTS,
+      contactHours: { start: '10:00', end: '18:00' }
+    }).sendAt).toEqual(new Date('2024-05-02T10:00:00Z'));
+  });
+
+  it('should validate patient preferences and format times for a time zone', () => {
+    expect(validateContactPreferences({ timezone: 'America/Chicago', contactHoursStart: '09:00', contactHoursEnd: '19:00' })).toEqual([]);
+    expect(validateContactPreferences({})).toEqual([]);
+    expect(validateContactPreferences({ timezone: 'Mars/Olympus' })).toEqual(['Unknown timezone: Mars/Olympus']);
+    expect(validateContactPreferences({ contactHoursStart: '09:00' })).toEqual(['Contact hours need both a start and an end']);
+    expect(validateContactPreferences({ contactHoursStart: '9am', contactHoursEnd: '19:00' })).toContain(
+      'Contact hours start must be a time like 08:00'
+    );
+
+    expect(formatInTimeZone('2024-05-01T13:00:00Z', 'America/Chicago')).toBe('May 1, 8:00 AM CDT');
+  });
+});
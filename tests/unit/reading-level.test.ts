@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildSimplificationPrompt,
+  countSyllables,
+  exceedsReadingLevel,
+  gradeLevelLabel,
+  maxGradeFor,
+  measureGradeLevel
+} from '../../src/lib/reading-level';
+
+const simple = 'Your test is fine. We will see you soon. Call us if you feel sick.';
+const complex = 'Considering your comprehensive cardiovascular evaluation, we recommend discontinuing the medication immediately and scheduling an additional consultation regarding alternative pharmacological interventions.';
+
+describe('Reading level', () => {
+  describe('countSyllables', () => {
+    it('should count vowel groups and drop a silent e', () => {
+      expect(countSyllables('test')).toBe(1);
+      expect(countSyllables('medication')).toBe(4);
+      expect(countSyllables('schedule')).toBe(2);
+      expect(countSyllables('123')).toBe(0);
+    });
+  });
+
+  describe('measureGradeLevel', () => {
+    it('should rank plain text below dense clinical text', () => {
+      const simpleGrade = measureGradeLevel(simple)!;
+      const complexGrade = measureGradeLevel(complex)!;
+
+      expect(simpleGrade).toBeLessThanOrEqual(6);
+      expect(complexGrade).toBeGreaterThan(12);
+      expect(gradeLevelLabel(simpleGrade)).toBe('Elementary');
+      expect(gradeLevelLabel(complexGrade)).toBe('College+');
+    });
+
+    it('should measure Spanish with its own formula and skip languages without one', () => {
+      const spanishGrade = measureGradeLevel('Su examen está bien. Lo vemos pronto. Llame si se siente mal.', 'es')!;
+
+      expect(spanishGrade).toBeLessThanOrEqual(6);
+      expect(measureGradeLevel('Kết quả xét nghiệm của bạn bình thường.', 'vi')).toBeNull();
+    });
+
+    it('should return null for text without sentences', () => {
+      expect(measureGradeLevel('   ')).toBeNull();
+      expect(gradeLevelLabel(null)).toBe('Unable to analyze');
+    });
+  });
+
+  describe('maxGradeFor', () => {
+    it('should map doctor settings to a grade ceiling', () => {
+      expect(maxGradeFor('elementary')).toBe(6);
+      expect(maxGradeFor('middle')).toBe(8);
+      expect(maxGradeFor('college')).toBeNull();
+      expect(maxGradeFor('standard')).toBeNull();
+      expect(maxGradeFor(null)).toBeNull();
+    });
+  });
+
+  describe('exceedsReadingLevel', () => {
+    it('should only flag measured grades above a ceiling', () => {
+      expect(exceedsReadingLevel(9.2, 8)).toBe(true);
+      expect(exceedsReadingLevel(8, 8)).toBe(false);
+      expect(exceedsReadingLevel(null, 8)).toBe(false);
+      expect(exceedsReadingLevel(15, null)).toBe(false);
+    });
+  });
+
+  it('should name both grades in the simplification prompt', () => {
+    const prompt = buildSimplificationPrompt(8, 11.4);
+
+    expect(prompt).toContain('grade 11.4');
+    expect(prompt).toContain('grade 8 or below');
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  cleanRefinedParagraph,
+  createRefinementStep,
+  diffWords,
+  replaceParagraph,
+  splitParagraphs,
+  validateRefinementInstruction
+} from '../../src/lib/refinement';
+
+const draft = `Hello Maria,
+
+Your lab results came back normal.
+Your A1C is 5.6.
+
+Please call the office with any questions.
+
+Best regards,
+Dr. Smith
+`;
+
+describe('Draft refinement', () => {
+  it('should split a draft into paragraphs at blank lines', () => {
+    const paragraphs = splitParagraphs(draft);
+    expect(paragraphs.map(paragraph => paragraph.text)).toEqual([
+      'Hello Maria,',
+      'Your lab results came back normal.\nYour A1C is 5.6.',
+      'Please call the office with any questions.',
+      'Best regards,\nDr. Smith'
+    ]);
+    expect(draft.slice(paragraphs[1].start, paragraphs[1].end)).toBe(paragraphs[1].text);
+  });
+
+  it('should replace one paragraph and keep the rest of the text as it was', () => {
+    const refined = replaceParagraph(draft, 2, 'Call us if anything is unclear.');
+    expect(refined).toBe(draft.replace('Please call the office with any questions.', 'Call us if anything is unclear.'));
+    expect(() => replaceParagraph(draft, 9, 'x')).toThrow('Paragraph 10 not found');
+  });
+
+  it('should diff by word and join back into either text', () => {
+    const before = 'Your lab results came back normal.';
+    const after = 'Your results came back fine.';
+    const diff = diffWords(before, after);
+
+    expect(diff.filter(op => op.type !== 'insert').map(op => op.text).join('')).toBe(before);
+    expect(diff.filter(op => op.type !== 'delete').map(op => op.text).join('')).toBe(after);
+    expect(diff.filter(op => op.type === 'delete').map(op => op.text.trim())).toEqual(['lab', 'normal.']);
+    expect(diffWords('same text', 'same text')).toEqual([{ type: 'equal', text: 'same text' }]);
+  });
+
+  it('should record the instruction with a before and after diff', () => {
+    const step = createRefinementStep('user-1', 1, '  Make it shorter ', 'One. Two.', 'One.', new Date('2026-03-15T12:00:00Z'));
+    expect(step).toMatchObject({
+      type: 'refinement',
+      timestamp: '2026-03-15T12:00:00.000Z',
+      userId: 'user-1',
+      paragraphIndex: 1,
+      instruction: 'Make it shorter',
+      before: 'One. Two.',
+      after: 'One.'
+    });
+    expect(step.diff).toEqual([{ type: 'equal', text: 'One.' }, { type: 'delete', text: ' Two.' }]);
+  });
+
+  it('should validate instructions and clean model output to one paragraph', () => {
+    expect(validateRefinementInstruction('Make it warmer')).toEqual([]);
+    expect(validateRefinementInstruction('  ')).toEqual(['An instruction is required']);
+    expect(validateRefinementInstruction('x'.repeat(301))).toHaveLength(1);
+    expect(cleanRefinedParagraph('PARAGRAPH: "First line.\n\nSecond line."')).toBe('First line.\nSecond line.');
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  claimExpiresAt,
+  describeTimeLeft,
+  escalationTarget,
+  isClaimActive,
+  parseAssignmentStrategy,
+  pickRoundRobin,
+  REVIEW_CLAIM_MINUTES,
+  reviewDueAt
+} from '../../src/lib/review-assignment';
+
+const now = new Date('2024-05-01T10:00:00Z');
+const minutes = (count: number) => new Date(now.getTime() + count * 60 * 1000);
+
+describe('Review assignment', () => {
+  it('should set the SLA deadline from the inquiry urgency', () => {
+    expect(reviewDueAt(now, 'emergency')).toEqual(minutes(15));
+    expect(reviewDueAt(now, 'urgent')).toEqual(minutes(60));
+    expect(reviewDueAt(now, 'routine')).toEqual(minutes(240));
+    expect(reviewDueAt(now, null)).toEqual(minutes(240));
+    expect(reviewDueAt(now, 'unknown')).toEqual(minutes(240));
+  });
+
+  it('should treat claims as held only until they expire', () => {
+    const expires = claimExpiresAt(now);
+    expect(expires).toEqual(minutes(REVIEW_CLAIM_MINUTES));
+
+    expect(isClaimActive({ claimedBy: 'reviewer-1', claimExpiresAt: expires }, minutes(5))).toBe(true);
+    expect(isClaimActive({ claimedBy: 'reviewer-1', claimExpiresAt: expires }, minutes(REVIEW_CLAIM_MINUTES))).toBe(false);
+    expect(isClaimActive({ claimedBy: null, claimExpiresAt: expires }, now)).toBe(false);
+  });
+
+  it('should pick the least loaded reviewer, then the one assigned longest ago', () => {
+    const candidates = [
+      { id: 'busy', openAssignments: 3, lastAssignedAt: minutes(-120) },
+      { id: 'recent', openAssignments: 1, lastAssignedAt: minutes(-5) },
+      { id: 'idle', openAssignments: 1, lastAssignedAt: minutes(-60) }
+    ];
+
+    expect(pickRoundRobin(candidates)?.id).toBe('idle');
+    expect(pickRoundRobin(candidates, ['idle'])?.id).toBe('recent');
+    expect(pickRoundRobin(candidates, ['idle', 'recent', 'busy'])).toBeNull();
+    expect(pickRoundRobin([{ id: 'new', openAssignments: 1, lastAssignedAt: null }, ...candidates])?.id).toBe('new');
+  });
+
+  it('should escalate to the patient\'s doctor unless the doctor already has the message', () => {
+    expect(escalationTarget('reviewer-1', 'doctor-1', 'reviewer-2')).toBe('doctor-1');
+    expect(escalationTarget('doctor-1', 'doctor-1', 'reviewer-2')).toBe('reviewer-2');
+    expect(escalationTarget('reviewer-1', null, 'reviewer-2')).toBe('reviewer-2');
+    expect(escalationTarget('reviewer-1', null, null)).toBeNull();
+    expect(parseAssignmentStrategy('doctor_panel')).toBe('doctor_panel');
+    expect(parseAssignmentStrategy(undefined)).toBe('round_robin');
+  });
+
+  it('should describe time left and time overdue', () => {
+    expect(describeTimeLeft(minutes(45), now)).toBe('45m left');
+    expect(describeTimeLeft(minutes(125), now)).toBe('2h 5m left');
+    expect(describeTimeLeft(minutes(-20), now)).toBe('20m overdue');
+  });
+});
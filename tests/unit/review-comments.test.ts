@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_REVIEW_COMMENTS,
+  relocateComment,
+  segmentByComments,
+  validateReviewComments,
+  type ReviewComment
+} from '../../src/lib/review-comments';
+
+const message = 'Please take two tablets daily and call us if the rash spreads.';
+
+function commentOn(quote: string, comment = 'Please clarify'): ReviewComment {
+  const start = message.indexOf(quote);
+  return { start, end: start + quote.length, quote, comment };
+}
+
+describe('Review comments', () => {
+  it('should accept comments that point at text in the message', () => {
+    expect(validateReviewComments([commentOn('two tablets daily'), commentOn('rash')], message)).toEqual([]);
+  });
+
+  it('should report empty comments and spans that do not match their quote', () => {
+    const issues = validateReviewComments([
+      commentOn('two tablets', '  '),
+      { start: 0, end: 6, quote: 'Pleasx', comment: 'Typo?' },
+      { start: 10, end: 500, quote: 'x', comment: 'Out of range' }
+    ], message);
+
+    expect(issues).toEqual([
+      'Comment 1 is empty',
+      'Comment 2 does not point at text in the message',
+      'Comment 3 does not point at text in the message'
+    ]);
+  });
+
+  it('should cap the number of comments per revision', () => {
+    const comments = Array.from({ length: MAX_REVIEW_COMMENTS + 1 }, () => commentOn('rash'));
+    expect(validateReviewComments(comments, message)[0]).toMatch(/At most/);
+  });
+
+  it('should relocate a comment after edits and drop it once its text changes', () => {
+    const comment = commentOn('rash spreads');
+
+    expect(relocateComment(comment, message)).toEqual({ start: comment.start, end: comment.end });
+    const revised = 'Hello. ' + message;
+    expect(relocateComment(comment, revised)).toEqual({ start: comment.start + 7, end: comment.end + 7 });
+    expect(relocateComment(comment, message.replace('rash spreads', 'rash gets worse'))).toBeNull();
+  });
+
+  it('should split text into highlighted segments without overlaps', () => {
+    const segments = segmentByComments(message, [
+      commentOn('two tablets daily'),
+      commentOn('tablets'),
+      commentOn('rash')
+    ]);
+
+    expect(segments.map(segment => segment.text).join('')).toBe(message);
+    expect(segments.filter(segment => segment.commentIndex !== null)).toEqual([
+      { text: 'two tablets daily', commentIndex: 0 },
+      { text: 'rash', commentIndex: 2 }
+    ]);
+  });
+});
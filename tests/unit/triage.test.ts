@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyUrgencyByRules,
+  moreUrgent,
+  parseModelTriage,
+  priorityForUrgency,
+  queuePriorityFor
+} from '../../src/lib/triage';
+
+describe('Triage', () => {
+  describe('classifyUrgencyByRules', () => {
+    it('should classify chest pain and suicidal ideation as emergencies', () => {
+      const chestPain = classifyUrgencyByRules('I have had chest pain since this morning, can I refill my inhaler?');
+      expect(chestPain.level).toBe('emergency');
+      expect(chestPain.source).toBe('rules');
+      expect(chestPain.matchedTerms).toEqual(['chest pain']);
+      expect(chestPain.rationale).toContain('possible cardiac event');
+
+      expect(classifyUrgencyByRules('Some days I think about suicide').level).toBe('emergency');
+    });
+
+    it('should classify worsening symptoms as urgent', () => {
+      const result = classifyUrgencyByRules('My cough is getting worse and I have a high fever.');
+
+      expect(result.level).toBe('urgent');
+      expect(result.matchedTerms).toEqual(['high fever', 'getting worse']);
+    });
+
+    it('should classify refill and scheduling requests as administrative', () => {
+      expect(classifyUrgencyByRules('Could you send a refill for my lisinopril?').level).toBe('administrative');
+      expect(classifyUrgencyByRules('I need to reschedule my appointment.').level).toBe('administrative');
+    });
+
+    it('should default to routine', () => {
+      expect(classifyUrgencyByRules('Is it fine to take vitamin D with breakfast?')).toEqual({
+        level: 'routine',
+        rationale: 'No urgent or administrative terms found',
+        source: 'rules',
+        matchedTerms: []
+      });
+    });
+  });
+
+  describe('moreUrgent', () => {
+    it('should never lower the level', () => {
+      const rules = classifyUrgencyByRules('My pain is getting worse');
+      const model = { level: 'routine' as const, rationale: 'Mild', source: 'model' as const, matchedTerms: [] };
+
+      expect(moreUrgent(rules, model)).toBe(rules);
+      expect(moreUrgent(model, rules)).toBe(rules);
+    });
+  });
+
+  describe('queue priority', () => {
+    it('should map urgency to priority', () => {
+      expect(priorityForUrgency('emergency')).toBe('urgent');
+      expect(priorityForUrgency('urgent')).toBe('high');
+      expect(priorityForUrgency('routine')).toBe('normal');
+      expect(priorityForUrgency('administrative')).toBe('low');
+    });
+
+    it('should only raise the requested priority', () => {
+      expect(queuePriorityFor('normal', 'urgent')).toBe('high');
+      expect(queuePriorityFor('urgent', 'administrative')).toBe('urgent');
+      expect(queuePriorityFor(undefined, null)).toBe('normal');
+      expect(queuePriorityFor('low', 'unknown')).toBe('low');
+    });
+  });
+
+  describe('parseModelTriage', () => {
+    it('should parse a JSON reply', () => {
+      expect(parseModelTriage('```json\n{"level": "urgent", "rationale": "Fever for three days"}\n```')).toEqual({
+        level: 'urgent',
+        rationale: 'Fever for three days',
+        source: 'model',
+        matchedTerms: []
+      });
+    });
+
+    it('should reject unknown levels and malformed replies', () => {
+      expect(parseModelTriage('{"level": "critical"}')).toBeNull();
+      expect(parseModelTriage('urgent')).toBeNull();
+      expect(parseModelTriage('{level: urgent}')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_UNDO_SEND_SECONDS,
+  MAX_UNDO_SEND_SECONDS,
+  parseUndoSendSeconds,
+  recallProblem,
+  secondsLeft,
+  undoDeadline
+} from '../../src/lib/undo-send';
+
+describe('Undo send', () => {
+  it('should read the window from configuration with a default and a ceiling', () => {
+    expect(parseUndoSendSeconds(undefined)).toBe(DEFAULT_UNDO_SEND_SECONDS);
+    expect(parseUndoSendSeconds('')).toBe(DEFAULT_UNDO_SEND_SECONDS);
+    expect(parseUndoSendSeconds('45')).toBe(45);
+    expect(parseUndoSendSeconds('0')).toBe(0);
+    expect(parseUndoSendSeconds('soon')).toBe(DEFAULT_UNDO_SEND_SECONDS);
+    expect(parseUndoSendSeconds('-5')).toBe(DEFAULT_UNDO_SEND_SECONDS);
+    expect(parseUndoSendSeconds('86400')).toBe(MAX_UNDO_SEND_SECONDS);
+  });
+
+  it('should hold email and SMS sends but not portal messages', () => {
+    const now = new Date('2024-05-01T10:00:00Z');
+
+    expect(undoDeadline('email', 30, now)).toEqual(new Date('2024-05-01T10:00:30Z'));
+    expect(undoDeadline('sms', 10, now)).toEqual(new Date('2024-05-01T10:00:10Z'));
+    expect(undoDeadline('portal', 30, now)).toBeNull();
+    expect(undoDeadline('email', 0, now)).toBeNull();
+  });
+
+  it('should allow recalling approved and scheduled messages still waiting in the queue', () => {
+    expect(recallProblem('approved', 'queued')).toBeNull();
+    expect(recallProblem('scheduled', 'queued')).toBeNull();
+  });
+
+  it('should refuse once delivery has started or the message has left the workflow', () => {
+    expect(recallProblem('scheduled', 'processing')).toMatch(/already being delivered/);
+    expect(recallProblem('sending', 'queued')).toMatch(/already being delivered/);
+    expect(recallProblem('sent', 'sent')).toMatch(/already sent/);
+    expect(recallProblem('cancelled', 'cancelled')).toMatch(/cancelled/);
+    expect(recallProblem('in_review', 'pending_review')).toMatch(/Only approved or scheduled/);
+    expect(recallProblem('draft', 'recalled')).toMatch(/Only approved or scheduled/);
+  });
+
+  it('should count down whole seconds and stop at zero', () => {
+    const now = new Date('2024-05-01T10:00:00Z');
+
+    expect(secondsLeft('2024-05-01T10:00:30Z', now)).toBe(30);
+    expect(secondsLeft(new Date('2024-05-01T10:00:00.200Z'), now)).toBe(1);
+    expect(secondsLeft('2024-05-01T09:59:00Z', now)).toBe(0);
+  });
+});
@@ -1,14 +1,13 @@
+import { env } from 'cloudflare:workers';
 import { drizzle } from 'drizzle-orm/d1';
-import { migrate } from 'drizzle-orm/d1/migrator';
-import { sql } from 'drizzle-orm';
 import * as schema from '../../src/db/schema';
 
 let testDb: D1Database;
 let db: ReturnType<typeof drizzle>;
 
 export async function setupTestDb() {
-  // Get the test D1 database from the global environment
-  testDb = (globalThis as any).cloudflare?.env?.DB;
+  // Get the test D1 database from the Workers environment
+  testDb = (env as any).DB;
   
   if (!testDb) {
     // Gracefully skip if not in Workers environment
@@ -18,17 +17,27 @@ export async function setupTestDb() {
 
   db = drizzle(testDb, { schema });
 
-  // Run migrations
-  try {
-    await migrate(db, { migrationsFolder: './drizzle/migrations' });
-  } catch (error) {
-    console.warn('Migration warning (may be expected in tests):', error);
-  }
+  await applyMigrations(testDb);
 
   // Seed test data
   await seedTestData();
 }
 
+/**
+ * Apply migrations/ (read by vitest.config.ts into TEST_MIGRATIONS) unless the schema is already there
+ * Storage is reset after every test, so this normally runs once per test.
+ */
+export async function applyMigrations(database: D1Database = (env as any).DB) {
+  const applied = await database
+    .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'User'")
+    .first();
+  if (applied) return;
+
+  for (const migration of (env as any).TEST_MIGRATIONS ?? []) {
+    await database.batch(migration.queries.map((query: string) => database.prepare(query)));
+  }
+}
+
 export async function cleanupTestDb() {
   if (!db) return;
 
@@ -101,5 +110,5 @@ export function getTestDb() {
 }
 
 export function getTestEnv() {
-  return (globalThis as any).cloudflare?.env || {};
+  return env as any;
 }
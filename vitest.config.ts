@@ -1,8 +1,12 @@
-import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+import path from 'node:path';
+import { defineWorkersConfig, readD1Migrations } from '@cloudflare/vitest-pool-workers/config';
 
-export default defineWorkersConfig({
+export default defineWorkersConfig(async () => ({
   resolve: {
-    conditions: ['react-server']
+    conditions: ['react-server'],
+    alias: {
+      '@': path.resolve(__dirname, 'src')
+    }
   },
   test: {
     poolOptions: {
@@ -19,7 +23,9 @@ export default defineWorkersConfig({
             SENTRY_DSN: 'test://test@test.ingest.sentry.io/test',
             OPENAI_API_KEY: 'sk-test-key-for-testing',
             JWT_SECRET: 'test-secret-key-for-testing-only',
-            ENVIRONMENT: 'test'
+            ENVIRONMENT: 'test',
+            // Applied by tests/utils/test-db-setup.ts so tests run against the real schema
+            TEST_MIGRATIONS: await readD1Migrations(path.resolve(__dirname, 'migrations'))
           }
         }
       }
@@ -33,7 +39,7 @@ export default defineWorkersConfig({
     // Coverage settings (disabled for Workers environment due to node:inspector issues)
     coverage: {
       enabled: false,
-      provider: 'v8',
+      provider: 'v8' as const,
       reporter: ['text', 'json', 'html'],
       exclude: [
         'node_modules/',
@@ -49,4 +55,4 @@ export default defineWorkersConfig({
     // Concurrent test execution
     maxConcurrency: 4
   }
-});
+}));
@@ -10,6 +10,18 @@ declare namespace Cloudflare {
 		CLOUDFLARE_ACCESS_AUD: "__optional_for_production__" | "__optional_for_development__" | "__required_for_production__";
 		SENTRY_DSN: "";
 		AI_STUB: "" | "1";
+		LLM_PROVIDERS: string;
+		LLM_MODEL: "gpt-4o-mini";
+		AZURE_OPENAI_ENDPOINT: "";
+		AZURE_OPENAI_DEPLOYMENT: "";
+		AZURE_OPENAI_API_VERSION: "2024-10-21";
+		LLM_COMPATIBLE_BASE_URL: "";
+		LLM_COMPATIBLE_MODEL: "";
+		TRIAGE_USE_MODEL: "" | "1";
+		REVIEW_ASSIGNMENT: "round_robin" | "doctor_panel";
+		UNDO_SEND_SECONDS: string;
+		QUIET_HOURS: string;
+		CLINIC_TIMEZONE: string;
 		DELIVERY_PROVIDER: "noop";
 		SENDGRID_API_KEY: "";
 		TWILIO_ACCOUNT_SID: "";